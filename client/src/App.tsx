@@ -65,6 +65,11 @@ const MembershipAdminPage = lazy(() => import("@/pages/admin/MembershipAdminPage
 const ContentManagementPage = lazy(() => import("@/pages/admin/ContentManagementPage"));
 const AdminAnalyticsPage = lazy(() => import("@/pages/admin/AdminAnalyticsPage"));
 const AISettingsPage = lazy(() => import("@/pages/admin/AISettingsPage"));
+const SafetyRulesPage = lazy(() => import("@/pages/admin/SafetyRulesPage"));
+const DunningPage = lazy(() => import("@/pages/admin/DunningPage"));
+const BiomarkerReviewPage = lazy(() => import("@/pages/admin/BiomarkerReviewPage"));
+const ClaimsReviewPage = lazy(() => import("@/pages/admin/ClaimsReviewPage"));
+const SupplementOutcomesPage = lazy(() => import("@/pages/admin/SupplementOutcomesPage"));
 const ProductCatalogPage = lazy(() => import("@/pages/admin/ProductCatalogPage"));
 const IngredientSyncPage = lazy(() => import("@/pages/admin/IngredientSyncPage"));
 
@@ -371,6 +376,41 @@ function MainRouter() {
           </AdminLayout>
         </ProtectedAdminRoute>
       </Route>
+      <Route path="/admin/settings/safety-rules">
+        <ProtectedAdminRoute>
+          <AdminLayout>
+            <Suspense fallback={<PageLoader />}><SafetyRulesPage /></Suspense>
+          </AdminLayout>
+        </ProtectedAdminRoute>
+      </Route>
+      <Route path="/admin/dunning">
+        <ProtectedAdminRoute>
+          <AdminLayout>
+            <Suspense fallback={<PageLoader />}><DunningPage /></Suspense>
+          </AdminLayout>
+        </ProtectedAdminRoute>
+      </Route>
+      <Route path="/admin/biomarker-review">
+        <ProtectedAdminRoute>
+          <AdminLayout>
+            <Suspense fallback={<PageLoader />}><BiomarkerReviewPage /></Suspense>
+          </AdminLayout>
+        </ProtectedAdminRoute>
+      </Route>
+      <Route path="/admin/claims-review">
+        <ProtectedAdminRoute>
+          <AdminLayout>
+            <Suspense fallback={<PageLoader />}><ClaimsReviewPage /></Suspense>
+          </AdminLayout>
+        </ProtectedAdminRoute>
+      </Route>
+      <Route path="/admin/supplement-outcomes">
+        <ProtectedAdminRoute>
+          <AdminLayout>
+            <Suspense fallback={<PageLoader />}><SupplementOutcomesPage /></Suspense>
+          </AdminLayout>
+        </ProtectedAdminRoute>
+      </Route>
 
 
       <Route path="/admin/ai-usage">
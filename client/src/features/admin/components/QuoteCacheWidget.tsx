@@ -0,0 +1,92 @@
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Skeleton } from '@/shared/components/ui/skeleton';
+import { Progress } from '@/shared/components/ui/progress';
+import { Gauge } from 'lucide-react';
+
+interface QuoteCacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  expired: number;
+  inflightJoins: number;
+  stores: number;
+  evictions: number;
+  prewarmed: number;
+  hitRate: number;
+  since: string;
+}
+
+export function QuoteCacheWidget() {
+  const { data, isLoading, error } = useQuery<QuoteCacheStats>({
+    queryKey: ['/api/admin/analytics/quote-cache'],
+    refetchInterval: 60_000,
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-6 w-48" />
+          <Skeleton className="h-4 w-64" />
+        </CardHeader>
+        <CardContent>
+          <Skeleton className="h-24 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Manufacturer Quote Cache</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">Failed to load quote cache stats</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const stats = [
+    { label: 'Hits', value: data.hits },
+    { label: 'Misses', value: data.misses },
+    { label: 'Cached Quotes', value: data.entries },
+    { label: 'Pre-warmed', value: data.prewarmed },
+    { label: 'Expired', value: data.expired },
+    { label: 'Shared In-flight', value: data.inflightJoins },
+  ];
+
+  return (
+    <Card data-testid="quote-cache-widget">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Manufacturer Quote Cache
+        </CardTitle>
+        <CardDescription>
+          Alive quote lookups served from cache since {new Date(data.since).toLocaleString()} (this server instance)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-sm font-medium">Hit rate</span>
+            <span className="text-sm font-semibold">{data.hitRate}%</span>
+          </div>
+          <Progress value={data.hitRate} className="h-2" />
+        </div>
+        <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+          {stats.map(stat => (
+            <div key={stat.label} className="text-center p-3 bg-muted/30 rounded-lg">
+              <p className="text-xl font-bold">{stat.value}</p>
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -13,7 +13,8 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/shared/components/ui/alert-dialog";
-import { Package, Pause, Play, SkipForward, XCircle, Truck, DollarSign, Calendar } from "lucide-react";
+import { Package, Pause, Play, SkipForward, XCircle, Truck, DollarSign, Calendar, CreditCard } from "lucide-react";
+import { Link } from "wouter";
 import { useToast } from "@/shared/hooks/use-toast";
 import { buildApiUrl } from "@/shared/lib/api";
 import { getAuthHeaders } from "@/shared/lib/queryClient";
@@ -21,7 +22,7 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 
 interface AutoShipData {
   id: string;
-  status: 'active' | 'paused' | 'cancelled';
+  status: 'active' | 'paused' | 'cancelled' | 'past_due';
   formulaId: string | null;
   formulaVersion: number;
   priceCents: number;
@@ -161,12 +162,15 @@ export function AutoShipCard() {
   const isActive = autoShip.status === 'active';
   const isPaused = autoShip.status === 'paused';
   const isCancelled = autoShip.status === 'cancelled';
+  const isPastDue = autoShip.status === 'past_due';
   const days = daysUntil(autoShip.nextShipmentDate);
 
   const statusBadge = isActive ? (
     <Badge variant="default" className="bg-green-600">Active</Badge>
   ) : isPaused ? (
     <Badge variant="secondary">Paused</Badge>
+  ) : isPastDue ? (
+    <Badge variant="destructive">Payment Due</Badge>
   ) : (
     <Badge variant="destructive">Cancelled</Badge>
   );
@@ -228,6 +232,21 @@ export function AutoShipCard() {
           Formula v{autoShip.formulaVersion} · {autoShip.supplyWeeks}-week supply
         </div>
 
+        {isPastDue && (
+          <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm space-y-2">
+            <p>
+              Your last auto-ship payment didn't go through. We'll retry automatically, or update your
+              card and we'll retry right away.
+            </p>
+            <Button asChild size="sm" variant="outline" className="gap-1">
+              <Link href="/dashboard/orders?tab=billing&update_card=1">
+                <CreditCard className="w-3.5 h-3.5" />
+                Update Payment Method
+              </Link>
+            </Button>
+          </div>
+        )}
+
         {/* Actions */}
         {!isCancelled && (
           <div className="flex flex-wrap gap-2 pt-2 border-t">
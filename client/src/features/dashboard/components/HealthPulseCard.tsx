@@ -37,6 +37,13 @@ interface LabSnapshotData {
   hasActiveOrder: boolean;
 }
 
+interface PulseAnomaly {
+  pattern: 'illness_onset' | 'overtraining' | 'poor_recovery';
+  severity: 'watch' | 'alert';
+  detectedFor: string;
+  summary: string;
+}
+
 interface PulseIntelligence {
   state: PulseState;
   stateLabel: string;
@@ -48,6 +55,7 @@ interface PulseIntelligence {
   hasWearable: boolean;
   hasLabs: boolean;
   labSnapshot: LabSnapshotData | null;
+  anomalies?: PulseAnomaly[];
   providers: string[];
   lastUpdated: string;
 }
@@ -213,6 +221,40 @@ function LabSnapshotSection({ labSnapshot }: { labSnapshot: LabSnapshotData }) {
   );
 }
 
+const ANOMALY_LABEL: Record<PulseAnomaly['pattern'], string> = {
+  illness_onset: 'Possible illness onset',
+  overtraining: 'Accumulated strain',
+  poor_recovery: 'Low recovery',
+};
+
+function AnomalySection({ anomalies }: { anomalies: PulseAnomaly[] }) {
+  return (
+    <div className="bg-amber-50/60 rounded-xl border border-amber-200/60 p-3.5">
+      <div className="flex items-center gap-1.5 mb-1.5">
+        <AlertTriangle className="w-3 h-3 text-amber-600" />
+        <span className="text-[10px] font-semibold text-amber-700 uppercase tracking-wider">
+          Unusual Readings
+        </span>
+      </div>
+      <div className="divide-y divide-amber-200/40">
+        {anomalies.map((anomaly, i) => (
+          <div key={i} className="py-1.5">
+            <div className="flex items-center justify-between gap-2">
+              <span className={`text-sm font-medium ${anomaly.severity === 'alert' ? 'text-red-600' : 'text-amber-700'}`}>
+                {ANOMALY_LABEL[anomaly.pattern]}
+              </span>
+              <span className="text-[10px] text-amber-700/60 flex-shrink-0">
+                {new Date(`${anomaly.detectedFor}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+              </span>
+            </div>
+            <p className="text-xs text-[#054700]/70 leading-snug mt-0.5">{anomaly.summary}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function PulseDot({ state }: { state: PulseState }) {
   const theme = STATE_THEME[state] || STATE_THEME.baseline;
   return (
@@ -350,6 +392,11 @@ export function HealthPulseCard() {
               </div>
             )}
 
+            {/* Anomaly findings from the daily wearable detector */}
+            {data.anomalies && data.anomalies.length > 0 && (
+              <AnomalySection anomalies={data.anomalies.slice(0, 3)} />
+            )}
+
             {/* Lab Snapshot (separate from pulse state) */}
             {data.labSnapshot && data.labSnapshot.markers.length > 0 && (
               <LabSnapshotSection labSnapshot={data.labSnapshot} />
@@ -0,0 +1,69 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/shared/components/ui/card";
+import { Button } from "@/shared/components/ui/button";
+import { AlertTriangle, CreditCard } from "lucide-react";
+
+interface PaymentIssue {
+  id: string;
+  kind: "autoship" | "membership";
+  amountCents: number | null;
+  declineCategory: "hard" | "soft";
+  lastResponseText: string | null;
+  nextRetryAt: string | null;
+  graceEndsAt: string;
+}
+
+const KIND_LABEL: Record<PaymentIssue["kind"], string> = {
+  autoship: "Auto-ship",
+  membership: "Membership",
+};
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString("en-US", { month: "long", day: "numeric" });
+}
+
+/** Outstanding failed recurring payments, with a shortcut to update the card. Renders nothing when all is paid. */
+export function PaymentIssuesCard({ onUpdateCard }: { onUpdateCard: () => void }) {
+  const { data } = useQuery<{ issues: PaymentIssue[] }>({
+    queryKey: ["/api/billing/payment-issues"],
+  });
+
+  const issues = data?.issues ?? [];
+  if (issues.length === 0) return null;
+
+  return (
+    <Card className="border-destructive/40 bg-destructive/5" data-testid="section-payment-issues">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-destructive">
+          <AlertTriangle className="w-5 h-5" />
+          Payment Needed
+        </CardTitle>
+        <CardDescription>
+          We couldn't collect {issues.length === 1 ? "a recent payment" : "some recent payments"}. Update your card to keep everything running.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {issues.map((issue) => (
+          <div key={issue.id} className="rounded-lg border bg-white p-3 text-sm">
+            <div className="flex items-center justify-between font-medium">
+              <span>{KIND_LABEL[issue.kind]}</span>
+              {issue.amountCents != null && <span>${(issue.amountCents / 100).toFixed(2)}</span>}
+            </div>
+            <p className="text-muted-foreground mt-1">
+              {issue.declineCategory === "hard"
+                ? "Your bank declined this card. Please use a different card."
+                : issue.nextRetryAt
+                  ? `We'll retry on ${formatDate(issue.nextRetryAt)}.`
+                  : "No more automatic retries are scheduled."}{" "}
+              Pauses on {formatDate(issue.graceEndsAt)} if unpaid.
+            </p>
+          </div>
+        ))}
+        <Button onClick={onUpdateCard} className="gap-2" data-testid="button-update-card">
+          <CreditCard className="w-4 h-4" />
+          Update Payment Method
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+/**
+ * UpdatePaymentMethodDialog — replace the card on file via Collect.js.
+ *
+ * The server swaps the card in the EPD vault and immediately retries any
+ * failed auto-ship / membership charges, so the toast reports whether those
+ * went through.
+ */
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/shared/components/ui/dialog";
+import CollectJSCheckout from "@/components/checkout/CollectJSCheckout";
+import { useToast } from "@/shared/hooks/use-toast";
+import { apiRequest, queryClient } from "@/shared/lib/queryClient";
+
+interface UpdatePaymentMethodResult {
+  success: boolean;
+  error?: string;
+  retries: Array<{ caseId: string; kind: "autoship" | "membership"; status: "open" | "recovered" | "paused" | "closed" }>;
+}
+
+interface UpdatePaymentMethodDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function UpdatePaymentMethodDialog({ open, onOpenChange }: UpdatePaymentMethodDialogProps) {
+  const { toast } = useToast();
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleToken = async (paymentToken: string) => {
+    setSubmitting(true);
+    try {
+      const res = await apiRequest("POST", "/api/billing/payment-method", { paymentToken });
+      const result: UpdatePaymentMethodResult = await res.json();
+
+      const recovered = result.retries.filter((r) => r.status === "recovered").length;
+      const stillFailing = result.retries.filter((r) => r.status === "open").length;
+      toast({
+        title: "Payment method updated",
+        description: stillFailing > 0
+          ? "Your card was saved, but the outstanding payment was still declined. Please try a different card."
+          : recovered > 0
+            ? "Your card was saved and your outstanding payment went through."
+            : "Your new card will be used for future payments.",
+        variant: stillFailing > 0 ? "destructive" : undefined,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ["/api/billing/payment-issues"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/billing/auto-ship"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me/payment-methods"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me/subscription"] });
+      if (stillFailing === 0) onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: "Couldn't update payment method",
+        description: error.message || "Please check your card details and try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Update Payment Method</DialogTitle>
+          <DialogDescription>
+            This card will be used for your membership and auto-ship. Any outstanding payment is retried right away.
+          </DialogDescription>
+        </DialogHeader>
+        <CollectJSCheckout
+          onToken={handleToken}
+          loading={submitting}
+          buttonText="Save Card"
+          showShipping={false}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,311 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/shared/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/shared/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/shared/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/shared/components/ui/alert-dialog";
+import { Input } from "@/shared/components/ui/input";
+import { Label } from "@/shared/components/ui/label";
+import { Button } from "@/shared/components/ui/button";
+import { Badge } from "@/shared/components/ui/badge";
+import { Checkbox } from "@/shared/components/ui/checkbox";
+import { useToast } from "@/shared/hooks/use-toast";
+import { GitBranch, ArrowUpCircle, Trash2 } from "lucide-react";
+
+interface BranchIngredient {
+  ingredient: string;
+  amount: number;
+  unit: string;
+}
+
+interface BranchableFormula {
+  id: string;
+  version: number;
+  name?: string | null;
+  bases: BranchIngredient[];
+  additions: BranchIngredient[];
+  userCustomizations?: {
+    addedBases?: BranchIngredient[];
+    addedIndividuals?: BranchIngredient[];
+  } | null;
+  totalMg: number;
+  notes?: string | null;
+  createdAt: string | Date;
+  branchName?: string | null;
+}
+
+interface FormulaQuote {
+  available: boolean;
+  total?: number;
+}
+
+const BRANCHES_QUERY_KEY = ["/api/users/me/formula/branches"];
+
+function invalidateFormulaQueries() {
+  queryClient.invalidateQueries({ queryKey: ["/api/users/me/formula/current"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/users/me/formula/history"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/users/me/formula/changelog"] });
+  queryClient.invalidateQueries({ queryKey: BRANCHES_QUERY_KEY });
+}
+
+function describeQuote(quote: FormulaQuote | null | undefined): string {
+  if (quote?.available && typeof quote.total === "number") {
+    return ` New price: $${quote.total.toFixed(2)}.`;
+  }
+  return "";
+}
+
+function ingredientNames(formula: BranchableFormula): string[] {
+  const names = [
+    ...(formula.bases || []),
+    ...(formula.additions || []),
+    ...(formula.userCustomizations?.addedBases || []),
+    ...(formula.userCustomizations?.addedIndividuals || []),
+  ].map(item => item.ingredient);
+  return Array.from(new Set(names));
+}
+
+/**
+ * Checkbox list of a version's ingredients for "restore v3 without X".
+ * Used by the revert dialog on MyFormulaPage and by CreateBranchDialog.
+ */
+export function IngredientExclusionList({
+  formula,
+  excluded,
+  onChange,
+}: {
+  formula: BranchableFormula;
+  excluded: string[];
+  onChange: (excluded: string[]) => void;
+}) {
+  const names = ingredientNames(formula);
+  if (names.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm">Leave out (optional)</Label>
+      <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto">
+        {names.map(name => (
+          <label key={name} className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={excluded.includes(name)}
+              onCheckedChange={(checked) =>
+                onChange(checked ? [...excluded, name] : excluded.filter(n => n !== name))
+              }
+              data-testid={`checkbox-exclude-${formula.id}-${name}`}
+            />
+            {name}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** Per-version action: copy this version into a named experimental branch. */
+export function CreateBranchDialog({ formula }: { formula: BranchableFormula }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [excluded, setExcluded] = useState<string[]>([]);
+
+  const createBranchMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/api/users/me/formula/branches", {
+        formulaId: formula.id,
+        name: name.trim(),
+        excludeIngredients: excluded,
+      }).then(res => res.json()),
+    onSuccess: (data: { quote?: FormulaQuote | null }) => {
+      invalidateFormulaQueries();
+      toast({
+        title: "Branch created",
+        description: `"${name.trim()}" is saved beside your active formula.${describeQuote(data.quote)}`,
+      });
+      setOpen(false);
+      setName("");
+      setExcluded([]);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error creating branch",
+        description: error.message || "Failed to create branch",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-1" data-testid={`button-branch-${formula.id}`}>
+          <GitBranch className="w-3 h-3" />
+          Branch
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Branch from {formula.name || `Version ${formula.version}`}</DialogTitle>
+          <DialogDescription>
+            Keep an experimental variant beside your active formula. It won't ship until you promote it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`branch-name-${formula.id}`}>Branch name</Label>
+            <Input
+              id={`branch-name-${formula.id}`}
+              value={name}
+              maxLength={60}
+              placeholder="e.g. Sleep experiment"
+              onChange={(e) => setName(e.target.value)}
+              data-testid={`input-branch-name-${formula.id}`}
+            />
+          </div>
+          <IngredientExclusionList formula={formula} excluded={excluded} onChange={setExcluded} />
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() => createBranchMutation.mutate()}
+            disabled={!name.trim() || createBranchMutation.isPending}
+            data-testid={`button-confirm-branch-${formula.id}`}
+          >
+            {createBranchMutation.isPending ? "Creating..." : "Create Branch"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** Lists the user's open branches with promote / discard actions. Renders nothing when there are none. */
+export function FormulaBranchesCard() {
+  const { toast } = useToast();
+
+  const { data } = useQuery<{ branches: BranchableFormula[] }>({
+    queryKey: BRANCHES_QUERY_KEY,
+  });
+
+  const promoteMutation = useMutation({
+    mutationFn: (formulaId: string) =>
+      apiRequest("POST", `/api/users/me/formula/branches/${formulaId}/promote`, {}).then(res => res.json()),
+    onSuccess: (result: { message?: string; quote?: FormulaQuote | null }) => {
+      invalidateFormulaQueries();
+      toast({
+        title: "Branch promoted",
+        description: `${result.message || "Your branch is now your active formula."}${describeQuote(result.quote)}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error promoting branch",
+        description: error.message || "Failed to promote branch",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: (formulaId: string) =>
+      apiRequest("POST", `/api/users/me/formula/${formulaId}/archive`, {}).then(res => res.json()),
+    onSuccess: () => {
+      invalidateFormulaQueries();
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me/formula/archived"] });
+      toast({ title: "Branch discarded", description: "The branch was moved to your archived formulas." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error discarding branch",
+        description: error.message || "Failed to discard branch",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const branches = data?.branches || [];
+  if (branches.length === 0) return null;
+
+  return (
+    <Card data-testid="section-formula-branches">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitBranch className="w-5 h-5" />
+          Branches
+        </CardTitle>
+        <CardDescription>Experimental variants kept beside your active formula</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {branches.map(branch => (
+          <div key={branch.id} className="flex items-center justify-between gap-4 border rounded-md p-3">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{branch.branchName}</span>
+                <Badge variant="outline">v{branch.version}</Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {ingredientNames(branch).length} ingredients • {branch.totalMg}mg total
+                {branch.notes ? ` • ${branch.notes}` : ""}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" size="sm" className="gap-1" data-testid={`button-promote-branch-${branch.id}`}>
+                    <ArrowUpCircle className="w-3 h-3" />
+                    Promote
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Make "{branch.branchName}" your active formula?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      This creates a new version from the branch, re-checks it against your current health
+                      profile and updates any active auto-ship. The branch itself will be archived.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => promoteMutation.mutate(branch.id)}
+                      disabled={promoteMutation.isPending}
+                      data-testid={`button-confirm-promote-${branch.id}`}
+                    >
+                      {promoteMutation.isPending ? "Promoting..." : "Promote"}
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => discardMutation.mutate(branch.id)}
+                disabled={discardMutation.isPending}
+                data-testid={`button-discard-branch-${branch.id}`}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,128 @@
+import { Badge } from '@/shared/components/ui/badge';
+import { Plus, Minus, ArrowRight, AlertTriangle, CheckCircle } from 'lucide-react';
+import type { FormulaDiff, FormulaIngredientChange } from '@shared/formula-diff';
+
+interface FormulaDiffViewProps {
+  diff: FormulaDiff;
+  /** Hide the per-version header when the caller already shows it */
+  compact?: boolean;
+}
+
+function formatAmount(amount: number | undefined, unit: string) {
+  return `${Math.round((amount ?? 0) * 100) / 100}${unit}`;
+}
+
+function IngredientRow({ item }: { item: FormulaIngredientChange }) {
+  if (item.change === 'added') {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <Plus className="w-3 h-3 text-green-600" />
+        <span>{item.ingredient}</span>
+        <span className="text-muted-foreground">{formatAmount(item.toAmount, item.unit)}</span>
+      </div>
+    );
+  }
+  if (item.change === 'removed') {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <Minus className="w-3 h-3 text-red-600" />
+        <span>{item.ingredient}</span>
+        <span className="text-muted-foreground line-through">{formatAmount(item.fromAmount, item.unit)}</span>
+      </div>
+    );
+  }
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <ArrowRight className="w-3 h-3 text-blue-600" />
+      <span>{item.ingredient}</span>
+      <span className="text-muted-foreground">
+        {formatAmount(item.fromAmount, item.unit)} → {formatAmount(item.toAmount, item.unit)}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Renders the structured diff returned by the formula diff, compare and
+ * changelog endpoints. Shared by MyFormulaPage and the admin UserDetailPage.
+ */
+export function FormulaDiffView({ diff, compact = false }: FormulaDiffViewProps) {
+  const { ingredients, totalMg, capsules, safety } = diff;
+
+  if (!diff.hasChanges) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid="text-formula-diff-empty">
+        No changes between v{diff.from.version} and v{diff.to.version}.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4" data-testid={`formula-diff-${diff.from.version}-${diff.to.version}`}>
+      {!compact && (
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Badge variant="outline">v{diff.from.version}</Badge>
+          <ArrowRight className="w-3 h-3" />
+          <Badge variant="outline">v{diff.to.version}</Badge>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+        <span>
+          Total dosage: {totalMg.from}mg → {totalMg.to}mg
+          {totalMg.delta !== 0 && (
+            <span className={totalMg.delta > 0 ? 'text-green-600 ml-1' : 'text-red-600 ml-1'}>
+              ({totalMg.delta > 0 ? '+' : ''}{totalMg.delta}mg)
+            </span>
+          )}
+        </span>
+        {capsules.changed && (
+          <span>Capsules/day: {capsules.from ?? '—'} → {capsules.to ?? '—'}</span>
+        )}
+      </div>
+
+      {ingredients.added.length > 0 && (
+        <div>
+          <h5 className="text-sm font-medium text-green-600 mb-1">Added ({ingredients.added.length})</h5>
+          {ingredients.added.map(item => <IngredientRow key={`add-${item.ingredient}`} item={item} />)}
+        </div>
+      )}
+      {ingredients.removed.length > 0 && (
+        <div>
+          <h5 className="text-sm font-medium text-red-600 mb-1">Removed ({ingredients.removed.length})</h5>
+          {ingredients.removed.map(item => <IngredientRow key={`rm-${item.ingredient}`} item={item} />)}
+        </div>
+      )}
+      {ingredients.doseChanged.length > 0 && (
+        <div>
+          <h5 className="text-sm font-medium text-blue-600 mb-1">Dose changed ({ingredients.doseChanged.length})</h5>
+          {ingredients.doseChanged.map(item => <IngredientRow key={`dose-${item.ingredient}`} item={item} />)}
+        </div>
+      )}
+
+      {(safety.introduced.length > 0 || safety.severityChanged.length > 0 || safety.resolved.length > 0) && (
+        <div className="space-y-1">
+          <h5 className="text-sm font-medium mb-1">Safety</h5>
+          {safety.introduced.map(w => (
+            <div key={`new-${w.category}`} className="flex items-start gap-2 text-sm">
+              <AlertTriangle className={`w-3 h-3 mt-1 ${w.toSeverity === 'critical' ? 'text-red-600' : 'text-amber-600'}`} />
+              <span>New {w.toSeverity} warning: {w.message}</span>
+            </div>
+          ))}
+          {safety.severityChanged.map(w => (
+            <div key={`sev-${w.category}`} className="flex items-start gap-2 text-sm">
+              <AlertTriangle className="w-3 h-3 mt-1 text-amber-600" />
+              <span>{w.fromSeverity} → {w.toSeverity}: {w.message}</span>
+            </div>
+          ))}
+          {safety.resolved.map(w => (
+            <div key={`res-${w.category}`} className="flex items-start gap-2 text-sm text-muted-foreground">
+              <CheckCircle className="w-3 h-3 mt-1 text-green-600" />
+              <span>Resolved: {w.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,7 +12,7 @@ import {
   FileText, Plus, Trash2, Loader2, Upload, ClipboardPaste, Eye, EyeOff, Edit2,
   TrendingUp, TrendingDown, Minus, AlertTriangle, CheckCircle2, Activity,
   Heart, Beaker, ChevronDown, ChevronUp, Filter, Search, RefreshCw,
-  Sparkles, Shield, ArrowUpRight, ArrowDownRight,
+  Sparkles, Shield, ArrowUpRight, ArrowDownRight, FlaskConical, Download,
   UtensilsCrossed, Dumbbell, Info, MessageCircle, Ban, ImageIcon,
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
@@ -23,6 +23,8 @@ import { buildApiUrl } from '@/shared/lib/api';
 import { useLocation } from 'wouter';
 import type { FileUpload, UserConsent } from '@shared/schema';
 import { VerifyLabDateModal, DateSourceChip } from '@/components/VerifyLabDateModal';
+import { convertForDisplay, formatConvertedRawValue, referenceRangeForDisplay, type UnitSystem } from '@shared/lab-units';
+import type { LabExport } from '@shared/lab-export';
 
 // ── Types ─────────────────────────────────────────────────────────────
 
@@ -45,6 +47,8 @@ interface MarkerHistory {
   value: number | null;
   rawValue: string;
   unit: string;
+  originalRawValue?: string;
+  originalUnit?: string;
   status: 'normal' | 'high' | 'low' | 'critical';
   reportId: string;
   daysOld?: number;
@@ -59,6 +63,8 @@ interface AggregatedBiomarker {
     value: number | null;
     rawValue: string;
     unit: string;
+    originalRawValue?: string;
+    originalUnit?: string;
     referenceRange: string;
     status: 'normal' | 'high' | 'low' | 'critical';
     date: string;
@@ -125,11 +131,23 @@ interface FocusArea {
   actions: FocusAction[];
 }
 
+interface UnusualForYouEntry {
+  name: string;
+  value: string;
+  unit: string;
+  baselineValue: number;
+  changePercent: number;
+  direction: 'up' | 'down';
+  sampleCount: number;
+  status: 'normal' | 'high' | 'low' | 'critical';
+}
+
 interface AnalysisSummary {
   headline: string;
   narrative: string;
   strengths: string[];      // panel names that are all-clear
   focusAreas: FocusArea[];  // troubled panels with embedded markers + advice
+  unusualForYou?: UnusualForYouEntry[];  // big moves vs the user's own baseline, in range or not
 }
 
 interface BiologicalAgeFactor {
@@ -160,6 +178,45 @@ interface BiologicalAge {
   breakdown?: BiologicalAgeBreakdown;
 }
 
+interface RetestItem {
+  key: string;
+  name: string;
+  reasons: Array<'out_of_range' | 'critical' | 'formula_change'>;
+  dueDate: string;
+  detail: string;
+}
+
+interface RetestPlan {
+  items: RetestItem[];
+  panels: Array<{ dueDate: string; overdue: boolean; markers: RetestItem[] }>;
+}
+
+type OutcomeVerdict = 'moved_as_expected' | 'moved_opposite' | 'no_significant_change' | 'too_early';
+
+interface SupplementOutcome {
+  ingredient: string;
+  dose: string;
+  markerKey: string;
+  markerName: string;
+  changePercent: number | null;
+  verdict: OutcomeVerdict;
+  confounders: string[];
+  followUpDueDate: string;
+  detail: string;
+}
+
+interface SupplementOutcomeReport {
+  outcomes: SupplementOutcome[];
+  summary: Record<OutcomeVerdict, number>;
+}
+
+const OUTCOME_VERDICT_LABEL: Record<OutcomeVerdict, { label: string; className: string }> = {
+  moved_as_expected: { label: 'moved as expected', className: 'text-emerald-700' },
+  moved_opposite: { label: 'moved the other way', className: 'text-red-600' },
+  no_significant_change: { label: 'no clear change', className: 'text-[#5a6623]' },
+  too_early: { label: 'too early to tell', className: 'text-[#5a6623]/70' },
+};
+
 interface BiomarkersDashboard {
   markers: AggregatedBiomarker[];
   healthScore: HealthScore;
@@ -174,6 +231,7 @@ interface BiomarkersDashboard {
     worsening: number;
     stable: number;
     newMarkers: number;
+    unusualForYou?: number;
   };
   reports: Array<{
     id: string;
@@ -816,6 +874,41 @@ function fmtDate(d: string | null | undefined): string {
   return dateObj.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
 }
 
+const UNIT_SYSTEM_STORAGE_KEY = 'labUnitSystem';
+
+/**
+ * Re-express a marker (stored server-side in its canonical conventional unit)
+ * in the selected unit system. Markers without a registry entry are
+ * returned unchanged.
+ */
+function applyUnitSystem(m: AggregatedBiomarker, system: UnitSystem): AggregatedBiomarker {
+  if (system === 'conventional') return m;
+  const convert = (value: number | null, rawValue: string, unit: string) => {
+    if (value == null) return null;
+    const out = convertForDisplay(m.key, value, unit, system);
+    return out ? { value: out.value, rawValue: formatConvertedRawValue(rawValue, out.value), unit: out.unit } : null;
+  };
+  const latest = convert(m.latest.value, m.latest.rawValue, m.latest.unit);
+  // previous carries no unit of its own; it's canonical like latest
+  const previous = m.previous && convert(m.previous.value, m.previous.rawValue, m.latest.unit);
+  return {
+    ...m,
+    latest: {
+      ...m.latest,
+      ...latest,
+      referenceRange: referenceRangeForDisplay(m.key, m.latest.referenceRange, m.latest.unit, system),
+    },
+    previous: m.previous && previous ? { ...m.previous, value: previous.value, rawValue: previous.rawValue } : m.previous,
+    history: m.history.map(h => ({ ...h, ...convert(h.value, h.rawValue, h.unit) })),
+  };
+}
+
+/** "as reported: 5.4 mmol/L" when the lab's own unit differs from what's shown */
+function reportedAs(v: { unit: string; originalRawValue?: string; originalUnit?: string }): string | null {
+  if (!v.originalUnit || !v.originalRawValue || v.originalUnit === v.unit) return null;
+  return `as reported: ${v.originalRawValue} ${v.originalUnit}`;
+}
+
 // ── Module-level upload tracker (survives component unmounts) ──────────
 type UploadEntry = { fileName: string; startedAt: number; promise: Promise<void> };
 const activeUploads = new Map<string, UploadEntry>();
@@ -864,6 +957,14 @@ export default function LabReportsPage() {
   const [isBulkDeleting, setIsBulkDeleting] = useState(false);
   const [showBulkDeleteConfirm, setShowBulkDeleteConfirm] = useState(false);
   const [showBioAgeExplainer, setShowBioAgeExplainer] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<'pdf' | 'csv' | 'json' | null>(null);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(
+    () => (localStorage.getItem(UNIT_SYSTEM_STORAGE_KEY) === 'si' ? 'si' : 'conventional')
+  );
+
+  useEffect(() => {
+    localStorage.setItem(UNIT_SYSTEM_STORAGE_KEY, unitSystem);
+  }, [unitSystem]);
 
   const handleSummaryCardClick = (filter: string) => {
     setShowAllMarkers(true);
@@ -919,6 +1020,21 @@ export default function LabReportsPage() {
     staleTime: 30 * 1000,
   });
 
+  const { data: retestPlan } = useQuery<RetestPlan>({
+    queryKey: ['/api/labs/retest-plan'],
+    queryFn: () => apiRequest('GET', '/api/labs/retest-plan').then(r => r.json()),
+    enabled: isAuthenticated && !!user?.id && !!dashboard?.markers.length,
+    staleTime: 5 * 60 * 1000,
+  });
+  const nextRetestPanel = retestPlan?.panels[0];
+
+  const { data: supplementOutcomes } = useQuery<SupplementOutcomeReport>({
+    queryKey: ['/api/labs/supplement-outcomes'],
+    queryFn: () => apiRequest('GET', '/api/labs/supplement-outcomes').then(r => r.json()),
+    enabled: isAuthenticated && !!user?.id && !!dashboard?.markers.length,
+    staleTime: 5 * 60 * 1000,
+  });
+
   // Markers the user has chosen to hide from the AI. Still visible here,
   // just excluded from the lab data sent into chat + formula context.
   const { data: hiddenMarkersData } = useQuery<{ hiddenMarkers: string[] }>({
@@ -973,6 +1089,7 @@ export default function LabReportsPage() {
   const filteredMarkers = useMemo(() => {
     if (!dashboard?.markers) return [];
     return dashboard.markers
+      .map(m => applyUnitSystem(m, unitSystem))
       .map(m => {
         // When a specific report is selected, find that report's entry and override display values
         if (reportFilter !== 'all') {
@@ -985,6 +1102,8 @@ export default function LabReportsPage() {
               value: historyEntry.value,
               rawValue: historyEntry.rawValue,
               unit: historyEntry.unit,
+              originalRawValue: historyEntry.originalRawValue,
+              originalUnit: historyEntry.originalUnit,
               status: historyEntry.status,
               date: historyEntry.date,
               reportId: historyEntry.reportId,
@@ -1018,7 +1137,7 @@ export default function LabReportsPage() {
         }
         return true;
       });
-  }, [dashboard?.markers, categoryFilter, statusFilter, searchQuery, reportFilter]);
+  }, [dashboard?.markers, categoryFilter, statusFilter, searchQuery, reportFilter, unitSystem]);
 
   // ── Mutations ────────────────────────────────────────────────────────
 
@@ -1184,8 +1303,10 @@ export default function LabReportsPage() {
 
   const validateAndUpload = async (file: File) => {
     const allowedTypes = ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png'];
-    if (!allowedTypes.includes(file.type)) {
-      toast({ title: "Invalid file type", description: "Please upload a PDF, JPG, or PNG file.", variant: "destructive" });
+    // FHIR / HL7 exports from patient portals are imported without AI extraction
+    const isStructuredExport = /\.(json|hl7)$/i.test(file.name);
+    if (!allowedTypes.includes(file.type) && !isStructuredExport) {
+      toast({ title: "Invalid file type", description: "Please upload a PDF, JPG, or PNG file, or a FHIR (.json) / HL7 (.hl7) export.", variant: "destructive" });
       return;
     }
     if (file.size > 10 * 1024 * 1024) {
@@ -1328,6 +1449,42 @@ export default function LabReportsPage() {
     }
   };
 
+  // PDF is rendered client-side from the JSON export so all three formats carry the same data
+  const handleExport = async (format: 'pdf' | 'csv' | 'json') => {
+    setExportingFormat(format);
+    try {
+      const query = `format=${format === 'csv' ? 'csv' : 'json'}&units=${unitSystem}`;
+      const response = await fetch(buildApiUrl(`/api/labs/export?${query}`), {
+        headers: getAuthHeaders(), credentials: 'include'
+      });
+      if (!response.ok) throw new Error('Failed to export lab results');
+      const stamp = new Date().toISOString().split('T')[0];
+
+      if (format === 'pdf') {
+        const data: LabExport = await response.json();
+        const pdfMake = (await import('pdfmake/build/pdfmake')).default;
+        const pdfFonts = (await import('pdfmake/build/vfs_fonts')).default as any;
+        if (pdfMake && pdfFonts && pdfFonts.pdfMake && pdfFonts.pdfMake.vfs) {
+          pdfMake.vfs = pdfFonts.pdfMake.vfs;
+        }
+        const { generateLabReportPDF } = await import('@shared/pdf-generator');
+        pdfMake.createPdf(generateLabReportPDF(data)).download(`Ones_Lab_Results_${stamp}.pdf`);
+      } else {
+        const blob = await response.blob();
+        const objectUrl = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = objectUrl;
+        link.download = `lab-results-${stamp}.${format}`;
+        link.click();
+        URL.revokeObjectURL(objectUrl);
+      }
+    } catch {
+      toast({ title: "Export failed", description: "Could not export your lab results. Please try again.", variant: "destructive" });
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
   const latestReportId = labReports?.[0]?.id;
   const summary = dashboard?.summary;
   const comparison = dashboard?.comparison;
@@ -1473,7 +1630,7 @@ export default function LabReportsPage() {
       </div>
 
       {/* Hidden file input */}
-      <input ref={fileInputRef} type="file" accept=".pdf,.jpg,.jpeg,.png" onChange={handleFileUpload} className="hidden" data-testid="input-file" />
+      <input ref={fileInputRef} type="file" accept=".pdf,.jpg,.jpeg,.png,.json,.hl7" onChange={handleFileUpload} className="hidden" data-testid="input-file" />
 
       {/* ── Upload in Progress Banner ── */}
       {isUploading && (
@@ -1559,6 +1716,34 @@ export default function LabReportsPage() {
               </div>
             )}
 
+            {/* ── Next retest panel (turnover-based, consolidated into one draw) ── */}
+            {nextRetestPanel && (
+              <div className="rounded-xl border border-[#d4c4a8]/40 bg-[#ede8e2]/40 p-4 flex items-start gap-3">
+                <Beaker className="h-5 w-5 text-[#054700] flex-shrink-0 mt-0.5" />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-semibold text-[#054700]">
+                    {nextRetestPanel.overdue
+                      ? 'Retest panel due now'
+                      : `Next retest panel: ${new Date(nextRetestPanel.dueDate).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`}
+                  </p>
+                  <p className="text-xs text-[#5a6623] mt-1">
+                    One blood draw covering {nextRetestPanel.markers.length} marker{nextRetestPanel.markers.length === 1 ? '' : 's'}, timed so each has had long enough to reflect recent changes.
+                  </p>
+                  <div className="flex flex-wrap gap-1.5 mt-2">
+                    {nextRetestPanel.markers.map(m => (
+                      <span
+                        key={m.key}
+                        title={m.detail}
+                        className={`text-[11px] font-medium rounded-full px-2 py-0.5 border ${m.reasons.includes('formula_change') ? 'border-[#054700]/20 bg-white/70 text-[#054700]' : 'border-amber-200 bg-amber-50 text-amber-800'}`}
+                      >
+                        {m.name}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* ── Date-verification banner: reports whose date wasn't read reliably ── */}
             {(() => {
               const needingVerification = (dashboard?.reports || []).filter(r => {
@@ -1810,6 +1995,81 @@ export default function LabReportsPage() {
                   </div>
                 )}
 
+                {/* ── Unusual for you (vs personal baseline, separate from out-of-range) ── */}
+                {dashboard.analysisSummary.unusualForYou && dashboard.analysisSummary.unusualForYou.length > 0 && (
+                  <div className="relative overflow-hidden rounded-2xl border border-amber-200/50 p-4" style={{ background: 'rgba(255,251,235,0.6)', backdropFilter: 'blur(12px)', WebkitBackdropFilter: 'blur(12px)' }}>
+                    <h4 className="text-[11px] font-semibold text-amber-700 uppercase tracking-[0.08em] mb-1 flex items-center gap-1.5">
+                      <Activity className="h-3.5 w-3.5" />
+                      Unusual For You
+                    </h4>
+                    <p className="text-[11px] text-[#5a6623] mb-3">
+                      Bigger changes from your own previous results than normal day-to-day variation explains — even when still within the lab's range.
+                    </p>
+                    <div className="space-y-1.5">
+                      {dashboard.analysisSummary.unusualForYou.slice(0, 6).map((u, i) => {
+                        const DirIcon = u.direction === 'up' ? ArrowUpRight : ArrowDownRight;
+                        return (
+                          <div key={i} className="flex items-center gap-2.5 rounded-lg px-2.5 py-1.5 bg-white/50">
+                            <DirIcon className="h-3.5 w-3.5 flex-shrink-0 text-amber-600" />
+                            <span className="text-xs font-medium text-[#054700] flex-1 truncate">{u.name}</span>
+                            <span className="text-[11px] font-semibold text-amber-700 tabular-nums">
+                              {u.changePercent > 0 ? '+' : ''}{u.changePercent.toFixed(0)}%
+                            </span>
+                            <span className="text-[10px] text-[#5a6623]/70">
+                              vs your usual ({u.sampleCount} earlier)
+                            </span>
+                            <span className={`text-[10px] font-medium ${u.status === 'normal' ? 'text-emerald-700' : 'text-red-600'}`}>
+                              {u.status === 'normal' ? 'in range' : u.status}
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
+                {/* ── Formula outcomes (marker changes vs the ingredients expected to move them) ── */}
+                {supplementOutcomes && supplementOutcomes.outcomes.length > 0 && (
+                  <div className="relative overflow-hidden rounded-2xl border border-[#054700]/10 p-4" style={{ background: 'rgba(255,255,255,0.6)', backdropFilter: 'blur(12px)', WebkitBackdropFilter: 'blur(12px)' }}>
+                    <h4 className="text-[11px] font-semibold text-[#054700] uppercase tracking-[0.08em] mb-1 flex items-center gap-1.5">
+                      <FlaskConical className="h-3.5 w-3.5" />
+                      Is Your Formula Working?
+                    </h4>
+                    <p className="text-[11px] text-[#5a6623] mb-3">
+                      Each marker compared before and after the formula ingredient research links to it, allowing time for the marker to respond. Changes smaller than normal test-to-test variation count as no clear change.
+                    </p>
+                    <div className="space-y-1.5">
+                      {supplementOutcomes.outcomes.slice(0, 8).map((o, i) => {
+                        const verdict = OUTCOME_VERDICT_LABEL[o.verdict];
+                        return (
+                          <div key={i} title={o.detail} className="flex items-center gap-2.5 rounded-lg px-2.5 py-1.5 bg-white/50">
+                            <span className="text-xs font-medium text-[#054700] flex-1 truncate">
+                              {o.ingredient} <span className="text-[#5a6623]/70">→</span> {o.markerName}
+                            </span>
+                            {o.changePercent != null ? (
+                              <span className="text-[11px] font-semibold text-[#054700] tabular-nums">
+                                {o.changePercent > 0 ? '+' : ''}{o.changePercent.toFixed(0)}%
+                              </span>
+                            ) : (
+                              <span className="text-[10px] text-[#5a6623]/70">
+                                retest after {new Date(o.followUpDueDate).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                              </span>
+                            )}
+                            <span className={`text-[10px] font-medium ${verdict.className}`}>
+                              {verdict.label}{o.confounders.length > 0 ? '*' : ''}
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                    {supplementOutcomes.outcomes.some(o => o.confounders.length > 0) && (
+                      <p className="text-[10px] text-[#5a6623]/70 mt-2">
+                        * Another ingredient affecting the same marker changed in the same window.
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 {/* ── Focus Areas (troubled panels with actions) ── */}
                 {dashboard.analysisSummary.focusAreas && dashboard.analysisSummary.focusAreas.length > 0 && (
                   <div>
@@ -1972,6 +2232,41 @@ export default function LabReportsPage() {
                   </button>
                 )}
               </div>
+
+              {/* Unit system toggle */}
+              <div className="flex items-center gap-1 bg-white border border-[#5a6623]/20 rounded-lg p-1" data-testid="toggle-unit-system">
+                {(['conventional', 'si'] as const).map(sys => (
+                  <button
+                    key={sys}
+                    onClick={() => setUnitSystem(sys)}
+                    className={`px-2.5 py-1 text-xs font-medium rounded-md transition-all ${
+                      unitSystem === sys
+                        ? 'bg-[#054700] text-white shadow-sm'
+                        : 'text-[#5a6623] hover:text-[#054700]'
+                    }`}
+                    title={sys === 'si' ? 'SI units (mmol/L, nmol/L…)' : 'Conventional US units (mg/dL, ng/mL…)'}
+                  >
+                    {sys === 'si' ? 'SI' : 'US'}
+                  </button>
+                ))}
+              </div>
+
+              {/* Export for sharing with a physician */}
+              <div className="flex items-center gap-1 bg-white border border-[#5a6623]/20 rounded-lg p-1" data-testid="export-lab-results">
+                <Download className="h-3.5 w-3.5 text-[#5a6623] mx-1" />
+                {(['pdf', 'csv', 'json'] as const).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    disabled={exportingFormat !== null}
+                    className="px-2.5 py-1 text-xs font-medium rounded-md transition-all text-[#5a6623] hover:text-[#054700] disabled:opacity-50 flex items-center gap-1"
+                    title={format === 'pdf' ? 'Printable summary with trend charts' : `All markers and draws as ${format.toUpperCase()}`}
+                  >
+                    {exportingFormat === format && <Loader2 className="h-3 w-3 animate-spin" />}
+                    {format.toUpperCase()}
+                  </button>
+                ))}
+              </div>
             </div>
           </CardHeader>
 
@@ -2034,7 +2329,7 @@ export default function LabReportsPage() {
                               {marker.latest.rawValue}
                             </span>
                             {marker.latest.unit && (
-                              <span className="text-xs text-[#5a6623]">{marker.latest.unit}</span>
+                              <span className="text-xs text-[#5a6623]" title={reportedAs(marker.latest) ?? undefined}>{marker.latest.unit}</span>
                             )}
                             {marker.latest.isStale && (
                               <span title={`Latest test is ${formatGap(marker.latest.daysOld)} old`} className="text-[10px] uppercase font-semibold tracking-wide px-1.5 py-0.5 rounded bg-slate-100 text-slate-600 border border-slate-200">
@@ -2097,6 +2392,9 @@ export default function LabReportsPage() {
                               </span>
                             )}
                             <span className="text-xs text-[#5a6623]">{marker.latest.referenceRange || ''}</span>
+                            {reportedAs(marker.latest) && (
+                              <span className="text-[10px] text-[#5a6623]/70">{reportedAs(marker.latest)}</span>
+                            )}
                             <TrendIcon className={`h-3.5 w-3.5 ml-auto ${trendIconColor}`} />
                           </div>
                         </div>
@@ -2208,7 +2506,7 @@ export default function LabReportsPage() {
                                   <div key={i} className="flex items-center justify-between text-xs">
                                     <span className="text-[#5a6623]">{fmtDate(h.date)}</span>
                                     <div className="flex items-center gap-2">
-                                      <span className="font-medium text-[#054700]">{h.rawValue} {h.unit}</span>
+                                      <span className="font-medium text-[#054700]" title={reportedAs(h) ?? undefined}>{h.rawValue} {h.unit}</span>
                                       <span className={`h-1.5 w-1.5 rounded-full ${STATUS_CONFIG[h.status].dot}`} />
                                     </div>
                                   </div>
@@ -34,6 +34,8 @@ import { apiRequest, getAuthHeaders } from '@/shared/lib/queryClient';
 import { buildApiUrl } from '@/shared/lib/api';
 import { FormulaCustomizationDialog } from '@/features/formulas/components/FormulaCustomizationDialog';
 import { CustomFormulaBuilderDialog } from '@/features/formulas/components/CustomFormulaBuilderDialog';
+import { FormulaDiffView } from '@/features/formulas/components/FormulaDiffView';
+import { FormulaBranchesCard, CreateBranchDialog, IngredientExclusionList } from '@/features/formulas/components/FormulaBranches';
 import { ResearchCitationCard, ResearchSummaryDialog } from '@/features/marketing/components/ResearchCitationCard';
 import { ReviewScheduleCard } from '@/features/dashboard/components/ReviewScheduleCard';
 import { AutoShipCard } from '@/features/dashboard/components/AutoShipCard';
@@ -41,6 +43,7 @@ import { SmartReorderCard } from '@/shared/components/SmartReorderCard';
 import { calculateDosage, VALID_CAPSULE_COUNTS, type CapsuleCount } from '@/shared/lib/utils';
 import type { ResearchCitation } from '@shared/schema';
 import { generateFormulaPDF, type FormulaForPDF } from '@shared/pdf-generator';
+import type { FormulaDiff, FormulaChangelogEntry } from '@shared/formula-diff';
 import { AddressAutocomplete } from '@/shared/components/address/AddressAutocomplete';
 
 // Types for Formula data matching backend schema
@@ -120,15 +123,7 @@ interface IngredientDetail {
 interface FormulaComparison {
   formula1: Formula;
   formula2: Formula;
-  differences: {
-    totalMgChange: number;
-    basesAdded: FormulaIngredient[];
-    basesRemoved: FormulaIngredient[];
-    basesModified: FormulaIngredient[];
-    additionsAdded: FormulaIngredient[];
-    additionsRemoved: FormulaIngredient[];
-    additionsModified: FormulaIngredient[];
-  };
+  diff: FormulaDiff;
 }
 
 interface FormulaQuotePayload {
@@ -183,6 +178,7 @@ export default function MyFormulaPage() {
   const [expandedIngredients, setExpandedIngredients] = useState<Set<string>>(new Set());
   const [selectedVersions, setSelectedVersions] = useState<string[]>([]);
   const [revertReason, setRevertReason] = useState('');
+  const [revertExcluded, setRevertExcluded] = useState<string[]>([]);
   const [selectedFormulaId, setSelectedFormulaId] = useState<string | null>(null);
   const [showOrderConfirmation, setShowOrderConfirmation] = useState(false);
   const [includeMembershipAtCheckout, setIncludeMembershipAtCheckout] = useState(true);
@@ -269,6 +265,17 @@ export default function MyFormulaPage() {
 
   const [showArchived, setShowArchived] = useState(false);
 
+  const { data: changelogData } = useQuery<{ changelog: FormulaChangelogEntry[] }>({
+    queryKey: ['/api/users/me/formula/changelog'],
+  });
+  const diffsByFormulaId = useMemo(() => {
+    const map = new Map<string, FormulaDiff>();
+    for (const entry of changelogData?.changelog || []) {
+      if (entry.diff) map.set(entry.formula.id, entry.diff);
+    }
+    return map;
+  }, [changelogData]);
+
   const { data: comparisonData } = useQuery<FormulaComparison>({
     queryKey: ['/api/users/me/formula/compare', selectedVersions[0], selectedVersions[1]],
     enabled: selectedVersions.length === 2
@@ -303,16 +310,20 @@ export default function MyFormulaPage() {
 
   // Mutations - using apiRequest pattern
   const revertFormulaMutation = useMutation({
-    mutationFn: ({ formulaId, reason }: { formulaId: string, reason: string }) =>
-      apiRequest('POST', '/api/users/me/formula/revert', { formulaId, reason }).then(res => res.json()),
-    onSuccess: () => {
+    mutationFn: ({ formulaId, reason, excludeIngredients }: { formulaId: string, reason: string, excludeIngredients: string[] }) =>
+      apiRequest('POST', '/api/users/me/formula/revert', { formulaId, reason, excludeIngredients }).then(res => res.json()),
+    onSuccess: (data: { message?: string; quote?: { available: boolean; total?: number } | null }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/users/me/formula/current'] });
       queryClient.invalidateQueries({ queryKey: ['/api/users/me/formula/history'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/formula/changelog'] });
       toast({
         title: 'Formula reverted successfully',
-        description: 'Your formula has been reverted to the selected version.'
+        description: data.quote?.available && typeof data.quote.total === 'number'
+          ? `${data.message || 'Your formula has been reverted to the selected version.'} New price: $${data.quote.total.toFixed(2)}.`
+          : data.message || 'Your formula has been reverted to the selected version.'
       });
       setRevertReason('');
+      setRevertExcluded([]);
     },
     onError: (error: any) => {
       toast({
@@ -329,6 +340,7 @@ export default function MyFormulaPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/users/me/formula/current'] });
       queryClient.invalidateQueries({ queryKey: ['/api/users/me/formula/history'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/formula/changelog'] });
       toast({
         title: 'Formula renamed successfully',
         description: 'Your formula name has been updated.'
@@ -351,6 +363,7 @@ export default function MyFormulaPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/users/me/formula/current'] });
       queryClient.invalidateQueries({ queryKey: ['/api/users/me/formula/history'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/formula/changelog'] });
       queryClient.invalidateQueries({ queryKey: ['/api/users/me/formula/archived'] });
       toast({
         title: 'Formula archived',
@@ -372,6 +385,7 @@ export default function MyFormulaPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/users/me/formula/current'] });
       queryClient.invalidateQueries({ queryKey: ['/api/users/me/formula/history'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/formula/changelog'] });
       queryClient.invalidateQueries({ queryKey: ['/api/users/me/formula/archived'] });
       toast({
         title: 'Formula restored',
@@ -804,8 +818,8 @@ export default function MyFormulaPage() {
       return;
     }
 
-    revertFormulaMutation.mutate({ formulaId, reason: revertReason });
-  }, [revertReason, revertFormulaMutation, toast]);
+    revertFormulaMutation.mutate({ formulaId, reason: revertReason, excludeIngredients: revertExcluded });
+  }, [revertReason, revertExcluded, revertFormulaMutation, toast]);
 
   // Loading states
   if (isLoadingCurrent) {
@@ -1057,9 +1071,12 @@ export default function MyFormulaPage() {
             selectedVersions={selectedVersions}
             onVersionSelection={handleVersionSelection}
             comparisonData={comparisonData}
+            diffsByFormulaId={diffsByFormulaId}
             onRevert={handleRevertFormula}
             revertReason={revertReason}
             setRevertReason={setRevertReason}
+            revertExcluded={revertExcluded}
+            setRevertExcluded={setRevertExcluded}
             isReverting={revertFormulaMutation.isPending}
           />
         </TabsContent>
@@ -3281,9 +3298,12 @@ function HistorySection({
   selectedVersions,
   onVersionSelection,
   comparisonData,
+  diffsByFormulaId,
   onRevert,
   revertReason,
   setRevertReason,
+  revertExcluded,
+  setRevertExcluded,
   isReverting
 }: {
   history?: Formula[];
@@ -3291,9 +3311,12 @@ function HistorySection({
   selectedVersions: string[];
   onVersionSelection: (versionId: string) => void;
   comparisonData?: FormulaComparison;
+  diffsByFormulaId: Map<string, FormulaDiff>;
   onRevert: (formulaId: string) => void;
   revertReason: string;
   setRevertReason: (reason: string) => void;
+  revertExcluded: string[];
+  setRevertExcluded: (excluded: string[]) => void;
   isReverting: boolean;
 }) {
   if (isLoading) {
@@ -3319,6 +3342,8 @@ function HistorySection({
 
   return (
     <div className="space-y-6">
+      <FormulaBranchesCard />
+
       {/* Comparison Tools */}
       {selectedVersions.length > 0 && (
         <Card data-testid="section-comparison-tools">
@@ -3396,8 +3421,9 @@ function HistorySection({
                     </div>
                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
                       <span>{new Date(formula.createdAt).toLocaleDateString()}</span>
+                      <CreateBranchDialog formula={formula} />
                       {idx > 0 && (
-                        <AlertDialog>
+                        <AlertDialog onOpenChange={(open) => { if (open) setRevertExcluded([]); }}>
                           <AlertDialogTrigger asChild>
                             <Button variant="ghost" size="sm" className="gap-1" data-testid={`button-revert-${formula.id}`}>
                               <RotateCcw className="w-3 h-3" />
@@ -3408,8 +3434,8 @@ function HistorySection({
                             <AlertDialogHeader>
                               <AlertDialogTitle>Revert to {formula.name || `Version ${formula.version}`}?</AlertDialogTitle>
                               <AlertDialogDescription>
-                                This will create a new version based on the selected formula.
-                                Please provide a reason for this change.
+                                This will create a new version based on the selected formula, re-checked
+                                against your current health profile. Please provide a reason for this change.
                               </AlertDialogDescription>
                             </AlertDialogHeader>
                             <Textarea
@@ -3419,6 +3445,7 @@ function HistorySection({
                               className="my-4"
                               data-testid={`input-revert-reason-${formula.id}`}
                             />
+                            <IngredientExclusionList formula={formula} excluded={revertExcluded} onChange={setRevertExcluded} />
                             <AlertDialogFooter>
                               <AlertDialogCancel data-testid={`button-cancel-revert-${formula.id}`}>Cancel</AlertDialogCancel>
                               <AlertDialogAction
@@ -3440,6 +3467,19 @@ function HistorySection({
                       <p className="italic">{formula.changes.summary}</p>
                     )}
                   </div>
+                  {diffsByFormulaId.get(formula.id)?.hasChanges && (
+                    <Collapsible className="mt-2">
+                      <CollapsibleTrigger asChild>
+                        <Button variant="ghost" size="sm" className="gap-1 px-2 -ml-2" data-testid={`button-version-changes-${formula.version}`}>
+                          <ChevronDown className="w-3 h-3" />
+                          Changes from v{diffsByFormulaId.get(formula.id)!.from.version}
+                        </Button>
+                      </CollapsibleTrigger>
+                      <CollapsibleContent className="pt-2">
+                        <FormulaDiffView diff={diffsByFormulaId.get(formula.id)!} compact />
+                      </CollapsibleContent>
+                    </Collapsible>
+                  )}
                 </div>
               </div>
             ))}
@@ -3452,7 +3492,7 @@ function HistorySection({
 
 // Formula Comparison Component
 function FormulaComparison({ comparison }: { comparison: FormulaComparison }) {
-  const { formula1, formula2, differences } = comparison;
+  const { formula1, formula2 } = comparison;
 
   return (
     <div className="space-y-6">
@@ -3480,81 +3520,11 @@ function FormulaComparison({ comparison }: { comparison: FormulaComparison }) {
         </div>
       </div>
 
-      {/* Changes Summary */}
+      {/* Changes */}
       <div className="p-4 bg-white/50 rounded-lg">
-        <h4 className="font-medium mb-3">Changes Summary</h4>
-        <div className="space-y-2 text-sm">
-          <p>Total dosage change: {differences.totalMgChange > 0 ? '+' : ''}{differences.totalMgChange}mg</p>
-          {differences.basesAdded.length > 0 && (
-            <p className="text-green-600">+ {differences.basesAdded.length} base(s) added</p>
-          )}
-          {differences.basesRemoved.length > 0 && (
-            <p className="text-red-600">- {differences.basesRemoved.length} base(s) removed</p>
-          )}
-          {differences.additionsAdded.length > 0 && (
-            <p className="text-green-600">+ {differences.additionsAdded.length} addition(s) added</p>
-          )}
-          {differences.additionsRemoved.length > 0 && (
-            <p className="text-red-600">- {differences.additionsRemoved.length} addition(s) removed</p>
-          )}
-        </div>
+        <h4 className="font-medium mb-3">Changes</h4>
+        <FormulaDiffView diff={comparison.diff} compact />
       </div>
-
-      {/* Detailed Changes */}
-      {(differences.basesAdded.length > 0 || differences.basesRemoved.length > 0 ||
-        differences.additionsAdded.length > 0 || differences.additionsRemoved.length > 0) && (
-          <div className="space-y-4">
-            <h4 className="font-medium">Detailed Changes</h4>
-
-            {differences.basesAdded.length > 0 && (
-              <div>
-                <h5 className="text-sm font-medium text-green-600 mb-2">Added Bases</h5>
-                {differences.basesAdded.map((base, idx) => (
-                  <div key={idx} className="flex items-center gap-2 text-sm">
-                    <Plus className="w-3 h-3 text-green-600" />
-                    {base.ingredient} ({base.amount}{base.unit})
-                  </div>
-                ))}
-              </div>
-            )}
-
-            {differences.basesRemoved.length > 0 && (
-              <div>
-                <h5 className="text-sm font-medium text-red-600 mb-2">Removed Bases</h5>
-                {differences.basesRemoved.map((base, idx) => (
-                  <div key={idx} className="flex items-center gap-2 text-sm">
-                    <Minus className="w-3 h-3 text-red-600" />
-                    {base.ingredient} ({base.amount}{base.unit})
-                  </div>
-                ))}
-              </div>
-            )}
-
-            {differences.additionsAdded.length > 0 && (
-              <div>
-                <h5 className="text-sm font-medium text-green-600 mb-2">Added Additions</h5>
-                {differences.additionsAdded.map((addition, idx) => (
-                  <div key={idx} className="flex items-center gap-2 text-sm">
-                    <Plus className="w-3 h-3 text-green-600" />
-                    {addition.ingredient} ({addition.amount}{addition.unit})
-                  </div>
-                ))}
-              </div>
-            )}
-
-            {differences.additionsRemoved.length > 0 && (
-              <div>
-                <h5 className="text-sm font-medium text-red-600 mb-2">Removed Additions</h5>
-                {differences.additionsRemoved.map((addition, idx) => (
-                  <div key={idx} className="flex items-center gap-2 text-sm">
-                    <Minus className="w-3 h-3 text-red-600" />
-                    {addition.ingredient} ({addition.amount}{addition.unit})
-                  </div>
-                ))}
-              </div>
-            )}
-          </div>
-        )}
     </div>
   );
 }
@@ -37,6 +37,9 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/shared/hooks/use-toast";
 import { apiRequest, queryClient } from "@/shared/lib/queryClient";
+import { useSearch } from "wouter";
+import { PaymentIssuesCard } from "@/features/dashboard/components/PaymentIssuesCard";
+import { UpdatePaymentMethodDialog } from "@/features/dashboard/components/UpdatePaymentMethodDialog";
 import type {
   Order,
   Subscription as BaseSubscription,
@@ -258,7 +261,12 @@ function PreReorderReviewGate() {
 }
 
 export default function OrdersPage() {
-  const [activeTab, setActiveTab] = useState("subscription");
+  // Dunning reminders deep-link here with ?tab=billing&update_card=1
+  const searchParams = new URLSearchParams(useSearch());
+  const [activeTab, setActiveTab] = useState(searchParams.get("tab") || "subscription");
+  const [showUpdateCardDialog, setShowUpdateCardDialog] = useState(
+    searchParams.get("update_card") === "1",
+  );
   const [showCancelDialog, setShowCancelDialog] = useState(false);
   const [showCancelNextOrderDialog, setShowCancelNextOrderDialog] =
     useState(false);
@@ -1058,6 +1066,8 @@ export default function OrdersPage() {
         </TabsContent>
 
         <TabsContent value="billing" className="space-y-6">
+          <PaymentIssuesCard onUpdateCard={() => setShowUpdateCardDialog(true)} />
+
           {/* Payment Methods */}
           <Card
             data-testid="section-payment-methods"
@@ -1077,6 +1087,7 @@ export default function OrdersPage() {
                 <Button
                   data-testid="button-add-payment-method"
                   className="bg-[#1B4332] hover:bg-[#1B4332]/90 text-white"
+                  onClick={() => setShowUpdateCardDialog(true)}
                 >
                   <Plus className="w-4 h-4 mr-2" />
                   Add Method
@@ -1430,6 +1441,11 @@ export default function OrdersPage() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <UpdatePaymentMethodDialog
+        open={showUpdateCardDialog}
+        onOpenChange={setShowUpdateCardDialog}
+      />
     </div>
   );
 }
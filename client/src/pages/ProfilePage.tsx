@@ -54,6 +54,7 @@ import { buildApiUrl } from '@/shared/lib/api';
 import type { User as UserType, HealthProfile } from '@shared/schema';
 import { AddressAutocomplete } from '@/shared/components/address/AddressAutocomplete';
 import { SupplementLabelScanner } from '@/shared/components/health/SupplementLabelScanner';
+import { ConsultationMemoryCard } from '@/shared/components/health/ConsultationMemoryCard';
 
 /**
  * Combined supplement vocabulary for typeahead: ONES proprietary supports +
@@ -1573,6 +1574,8 @@ export default function ProfilePage() {
               </div>
             </CardContent>
           </Card>
+
+          <ConsultationMemoryCard />
         </TabsContent>
       </Tabs>
 
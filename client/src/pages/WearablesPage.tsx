@@ -1,9 +1,10 @@
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { queryClient, apiRequest } from '@/shared/lib/queryClient';
+import { queryClient, apiRequest, getAuthHeaders } from '@/shared/lib/queryClient';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card';
 import { Button } from '@/shared/components/ui/button';
 import { Skeleton } from '@/shared/components/ui/skeleton';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/shared/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
 import { useToast } from '@/shared/hooks/use-toast';
 import {
   Watch,
@@ -37,10 +38,20 @@ import {
   Lightbulb,
   AlertTriangle,
   Pill,
+  Upload,
   LucideIcon,
 } from 'lucide-react';
-import { useState, useCallback, useMemo, useEffect } from 'react';
-import { METRIC_CATALOG, METRIC_MAP, metricsByPillar, type MetricDefinition } from '@shared/metricCatalog';
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { buildApiUrl } from '@/shared/lib/api';
+import {
+  METRIC_CATALOG,
+  METRIC_MAP,
+  metricsByPillar,
+  canonicalProviderSlug,
+  defaultSourcePrecedence,
+  type MetricDefinition,
+  type MetricSourcePreferences,
+} from '@shared/metricCatalog';
 
 interface WearableConnection {
   id: string;
@@ -491,6 +502,217 @@ function CustomizeMetricsModal({
   );
 }
 
+interface WearableImportRecord {
+  id: string;
+  provider: string | null;
+  fileName: string;
+  status: 'pending' | 'completed' | 'failed';
+  daysImported: number;
+  daysUpdated: number;
+  daysSkipped: number;
+  firstDate: string | null;
+  lastDate: string | null;
+  error: string | null;
+  createdAt: string;
+}
+
+const IMPORT_PROVIDER_NAMES: Record<string, string> = {
+  apple_health: 'Apple Health',
+  garmin: 'Garmin',
+  oura: 'Oura',
+  whoop: 'WHOOP',
+};
+
+// Imports span years, so show month + year rather than fmtDate's month + day
+const fmtMonth = (d: string | null) =>
+  d ? new Date(d + 'T12:00:00').toLocaleDateString('en-US', { month: 'short', year: 'numeric' }) : '';
+
+function ImportFromFileCard() {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const { data } = useQuery<{ imports: WearableImportRecord[] }>({
+    queryKey: ['/api/wearables/imports'],
+  });
+  const imports = data?.imports ?? [];
+
+  const handleFile = async (file: File) => {
+    if (file.size > 250 * 1024 * 1024) {
+      toast({ title: 'File too large', description: 'Exports can be at most 250MB.', variant: 'destructive' });
+      return;
+    }
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const res = await fetch(buildApiUrl('/api/wearables/import'), {
+        method: 'POST',
+        headers: { ...getAuthHeaders() }, // browser sets the multipart boundary
+        body: formData,
+        credentials: 'include',
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error || `Import failed (${res.status})`);
+      const record: WearableImportRecord = body.import;
+      toast({
+        title: `Imported ${IMPORT_PROVIDER_NAMES[record.provider ?? ''] ?? 'wearable'} data`,
+        description: `${record.daysImported + record.daysUpdated} days added${record.daysSkipped ? `, ${record.daysSkipped} already synced` : ''}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/wearables/historical-data'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/wearables/health-pulse-intelligence'] });
+    } catch (err) {
+      toast({ title: 'Import failed', description: err instanceof Error ? err.message : 'Please try again.', variant: 'destructive' });
+    } finally {
+      setUploading(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/wearables/imports'] });
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <Card className="border-[#5a6623]/10 shadow-2xl">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-[#054700]"><Upload className="h-5 w-5" />Import from a File</CardTitle>
+        <CardDescription className="text-[#5a6623]">
+          Backfill years of history from an Apple Health export.zip, Garmin .fit files, or an Oura / WHOOP CSV export.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".zip,.xml,.fit,.csv"
+          className="hidden"
+          onChange={e => { const file = e.target.files?.[0]; if (file) handleFile(file); }}
+        />
+        <Button
+          variant="outline"
+          onClick={() => inputRef.current?.click()}
+          disabled={uploading}
+          className="border-[#054700]/20 text-[#054700]"
+        >
+          {uploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+          {uploading ? 'Importing…' : 'Choose export file'}
+        </Button>
+        {imports.length > 0 && (
+          <div className="divide-y divide-[#054700]/5">
+            {imports.slice(0, 5).map(imp => (
+              <div key={imp.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                <div className="min-w-0">
+                  <p className="text-[#054700] truncate">{imp.fileName}</p>
+                  <p className="text-xs text-[#5a6623]">
+                    {imp.status === 'failed'
+                      ? imp.error
+                      : `${IMPORT_PROVIDER_NAMES[imp.provider ?? ''] ?? imp.provider} · ${fmtMonth(imp.firstDate)} – ${fmtMonth(imp.lastDate)}`}
+                  </p>
+                </div>
+                {imp.status === 'failed'
+                  ? <XCircle className="h-4 w-4 text-red-500 flex-shrink-0" />
+                  : imp.status === 'pending'
+                  ? <Loader2 className="h-4 w-4 text-[#5a6623] animate-spin flex-shrink-0" />
+                  : <span className="text-xs text-[#5a6623] flex-shrink-0">{imp.daysImported + imp.daysUpdated} days</span>}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// ─── Preferred Sources ────────────────────────────────────────────────
+
+const AUTO_SOURCE = 'auto';
+
+function sourceName(slug: string): string {
+  return PRIORITY_PROVIDERS.find(p => canonicalProviderSlug(p.slug) === slug)?.name
+    ?? IMPORT_PROVIDER_NAMES[slug]
+    ?? slug;
+}
+
+function PreferredSourcesCard({ connectedProviders }: { connectedProviders: string[] }) {
+  const { toast } = useToast();
+  const { data: importsData } = useQuery<{ imports: WearableImportRecord[] }>({
+    queryKey: ['/api/wearables/imports'],
+  });
+  const { data: prefsData } = useQuery<{ metricSourcePreferences: MetricSourcePreferences | null }>({
+    queryKey: ['/api/users/me/metric-source-preferences'],
+  });
+  const prefs = prefsData?.metricSourcePreferences ?? {};
+
+  // Connected devices plus providers the user has imported files from
+  const sources = useMemo(() => {
+    const slugs = [
+      ...connectedProviders,
+      ...(importsData?.imports ?? []).filter(i => i.status === 'completed' && i.provider).map(i => i.provider!),
+    ];
+    return Array.from(new Set(slugs.map(canonicalProviderSlug)));
+  }, [connectedProviders, importsData]);
+
+  // Only metrics that two or more of the user's sources can report need a choice
+  const contested = useMemo(() => METRIC_CATALOG
+    .map(metric => ({ metric, options: defaultSourcePrecedence(metric.id).filter(p => sources.includes(p)) }))
+    .filter(({ options }) => options.length > 1), [sources]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: MetricSourcePreferences) => {
+      const res = await apiRequest('PUT', '/api/users/me/metric-source-preferences', { sources: next });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/metric-source-preferences'] });
+    },
+    onError: () => {
+      toast({ title: 'Save failed', description: 'Could not save your source preference.', variant: 'destructive' });
+    },
+  });
+
+  if (contested.length === 0) return null;
+
+  const handleChange = (metricId: string, value: string) => {
+    const next = { ...prefs };
+    if (value === AUTO_SOURCE) delete next[metricId];
+    else next[metricId] = value;
+    saveMutation.mutate(next);
+  };
+
+  return (
+    <Card className="border-[#5a6623]/10 shadow-2xl">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-[#054700]"><Settings2 className="h-5 w-5" />Preferred Sources</CardTitle>
+        <CardDescription className="text-[#5a6623]">
+          When more than one device reports a metric, choose which one to trust. Automatic picks the most accurate device you have.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+          {contested.map(({ metric, options }) => (
+            <div key={metric.id} className="flex items-center justify-between gap-3">
+              <span className="text-sm text-[#054700] truncate">{metric.label}</span>
+              <Select
+                value={prefs[metric.id] ?? AUTO_SOURCE}
+                onValueChange={value => handleChange(metric.id, value)}
+                disabled={saveMutation.isPending}
+              >
+                <SelectTrigger className="w-44 h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_SOURCE}>Automatic ({sourceName(options[0])})</SelectItem>
+                  {options.map(slug => (
+                    <SelectItem key={slug} value={slug}>{sourceName(slug)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function WearablesPage() {
   const { toast } = useToast();
   const [isConnecting, setIsConnecting] = useState(false);
@@ -1183,6 +1405,12 @@ export default function WearablesPage() {
         </Card>
       )}
 
+      {/* ── Import from export files (works with or without a connected device) ── */}
+      <ImportFromFileCard />
+
+      {/* ── Per-metric source choice when several devices overlap ── */}
+      <PreferredSourcesCard connectedProviders={activeConnections.map(c => c.provider)} />
+
       {/* ── Customize Metrics Modal ── */}
       <CustomizeMetricsModal
         open={showCustomize}
@@ -23,6 +23,7 @@ import { ConversionFunnel } from '@/features/admin/components/ConversionFunnel';
 import { CohortRetentionChart } from '@/features/admin/components/CohortRetentionChart';
 import { ReorderHealthWidget } from '@/features/admin/components/ReorderHealthWidget';
 import { FormulaInsightsWidget } from '@/features/admin/components/FormulaInsightsWidget';
+import { QuoteCacheWidget } from '@/features/admin/components/QuoteCacheWidget';
 
 interface GrowthDataPoint {
   date: string;
@@ -214,6 +215,9 @@ export default function AdminAnalyticsPage() {
 
       {/* Formula Insights */}
       <FormulaInsightsWidget />
+
+      {/* Manufacturer Quote Cache */}
+      <QuoteCacheWidget />
     </div>
   );
 }
@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Check, EyeOff, Microscope } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Badge } from '@/shared/components/ui/badge';
+import { Button } from '@/shared/components/ui/button';
+import { Skeleton } from '@/shared/components/ui/skeleton';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/shared/components/ui/select';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from '@/shared/components/ui/table';
+import { useToast } from '@/shared/hooks/use-toast';
+import { apiRequest } from '@/shared/lib/queryClient';
+
+// --- Types ---
+
+type ReviewStatus = 'pending' | 'mapped' | 'ignored';
+
+interface NameReview {
+  id: string;
+  normalizedName: string;
+  sampleName: string;
+  sampleUnit: string | null;
+  sampleLoincCode: string | null;
+  occurrences: number;
+  status: ReviewStatus;
+  mappedTo: string | null;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+interface CanonicalMarker {
+  name: string;
+  coding: { loinc: string[]; specimen: string } | null;
+}
+
+interface ReviewQueue {
+  reviews: NameReview[];
+  canonicalMarkers: CanonicalMarker[];
+}
+
+const STATUS_VARIANT: Record<ReviewStatus, 'default' | 'secondary' | 'outline'> = {
+  pending: 'secondary',
+  mapped: 'default',
+  ignored: 'outline',
+};
+
+function formatDate(dateStr: string | null) {
+  if (!dateStr) return '—';
+  return new Date(dateStr).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export default function BiomarkerReviewPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | 'all'>('pending');
+  const [selections, setSelections] = useState<Record<string, string>>({});
+
+  const url = `/api/admin/biomarker-reviews${statusFilter === 'all' ? '' : `?status=${statusFilter}`}`;
+  const { data, isLoading } = useQuery<ReviewQueue>({
+    queryKey: ['/api/admin/biomarker-reviews', statusFilter],
+    queryFn: () => apiRequest('GET', url).then(r => r.json()),
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['/api/admin/biomarker-reviews'] });
+
+  const mapName = useMutation({
+    mutationFn: ({ id, canonicalName }: { id: string; canonicalName: string }) =>
+      apiRequest('POST', `/api/admin/biomarker-reviews/${id}/map`, { canonicalName }).then(r => r.json()),
+    onSuccess: (review: NameReview) => {
+      invalidate();
+      toast({ title: `"${review.sampleName}" now maps to ${review.mappedTo}` });
+    },
+    onError: (err: Error) => toast({ title: 'Failed to map name', description: err.message, variant: 'destructive' }),
+  });
+
+  const ignoreName = useMutation({
+    mutationFn: (id: string) => apiRequest('POST', `/api/admin/biomarker-reviews/${id}/ignore`).then(r => r.json()),
+    onSuccess: () => { invalidate(); toast({ title: 'Name ignored' }); },
+    onError: (err: Error) => toast({ title: 'Failed to ignore name', description: err.message, variant: 'destructive' }),
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Lab Marker Review</h1>
+        <p className="text-sm text-muted-foreground">
+          Marker names from uploaded lab reports that don't match any alias, canonical name or LOINC code.
+          Mapping a name adds it as an alias, so future and existing reports merge onto that marker's trend line.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Microscope className="h-5 w-5" />
+              Unmapped names
+            </CardTitle>
+            <CardDescription>{data.reviews.length} shown, most frequent first</CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={v => setStatusFilter(v as ReviewStatus | 'all')}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="mapped">Mapped</SelectItem>
+              <SelectItem value="ignored">Ignored</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {data.reviews.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing to review.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name as reported</TableHead>
+                  <TableHead>Unit</TableHead>
+                  <TableHead>Seen</TableHead>
+                  <TableHead>Last seen</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Map to</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.reviews.map(r => {
+                  const selected = selections[r.id] ?? r.mappedTo ?? '';
+                  return (
+                    <TableRow key={r.id}>
+                      <TableCell className="text-sm">
+                        <div className="font-medium">{r.sampleName}</div>
+                        {r.sampleLoincCode && (
+                          <div className="text-xs text-muted-foreground font-mono">LOINC {r.sampleLoincCode}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs">{r.sampleUnit || '—'}</TableCell>
+                      <TableCell>{r.occurrences}×</TableCell>
+                      <TableCell>{formatDate(r.lastSeenAt)}</TableCell>
+                      <TableCell><Badge variant={STATUS_VARIANT[r.status]}>{r.status}</Badge></TableCell>
+                      <TableCell>
+                        <Select value={selected} onValueChange={v => setSelections(s => ({ ...s, [r.id]: v }))}>
+                          <SelectTrigger className="w-56">
+                            <SelectValue placeholder="Choose marker…" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {data.canonicalMarkers.map(m => (
+                              <SelectItem key={m.name} value={m.name}>{m.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => mapName.mutate({ id: r.id, canonicalName: selected })}
+                          disabled={!selected || selected === r.mappedTo || mapName.isPending}
+                          title="Save mapping"
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        {r.status !== 'ignored' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => ignoreName.mutate(r.id)}
+                            disabled={ignoreName.isPending}
+                            title="Ignore (not a biomarker we track)"
+                          >
+                            <EyeOff className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
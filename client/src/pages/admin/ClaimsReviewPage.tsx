@@ -0,0 +1,510 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Check, X, RotateCcw, ShieldAlert, ListPlus, Power } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Badge } from '@/shared/components/ui/badge';
+import { Button } from '@/shared/components/ui/button';
+import { Skeleton } from '@/shared/components/ui/skeleton';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Textarea } from '@/shared/components/ui/textarea';
+import {
+  Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle,
+} from '@/shared/components/ui/dialog';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/shared/components/ui/select';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from '@/shared/components/ui/table';
+import { useToast } from '@/shared/hooks/use-toast';
+import { apiRequest } from '@/shared/lib/queryClient';
+
+// --- Types ---
+
+type ViolationStatus = 'open' | 'confirmed' | 'false_positive';
+type Severity = 'warning' | 'critical';
+
+interface Violation {
+  id: string;
+  userId: string | null;
+  sessionId: string | null;
+  messageId: string | null;
+  category: string;
+  severity: Severity;
+  action: 'flagged' | 'rewritten' | 'blocked';
+  phraseId: string | null;
+  originalText: string;
+  rewrittenText: string | null;
+  context: string | null;
+  status: ViolationStatus;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+interface ViolationList {
+  violations: Violation[];
+  categories: string[];
+}
+
+interface Phrase {
+  id: string;
+  phrase: string;
+  category: string;
+  severity: Severity;
+  rewriteTemplate: string | null;
+  active: boolean;
+  sourceViolationId: string | null;
+  createdAt: string;
+}
+
+interface Trends {
+  days: Array<{ date: string; total: number; falsePositives: number; byCategory: Record<string, number> }>;
+  categories: Array<{ category: string; total: number; falsePositives: number; falsePositiveRate: number }>;
+}
+
+interface PromoteForm {
+  phrase: string;
+  category: string;
+  severity: Severity;
+  rewriteTemplate: string;
+  sourceViolationId: string | null;
+}
+
+const STATUS_VARIANT: Record<ViolationStatus, 'default' | 'secondary' | 'outline'> = {
+  open: 'secondary',
+  confirmed: 'default',
+  false_positive: 'outline',
+};
+
+const SEVERITY_CLASS: Record<Severity, string> = {
+  critical: 'bg-red-100 text-red-800',
+  warning: 'bg-amber-100 text-amber-800',
+};
+
+const CATEGORY_COLORS = ['#054700', '#8a9a2c', '#c2410c', '#2563eb', '#7c3aed', '#db2777'];
+
+const EMPTY_FORM: PromoteForm = { phrase: '', category: 'disease_claim', severity: 'warning', rewriteTemplate: '', sourceViolationId: null };
+
+const categoryLabel = (category: string) => category.replace(/_/g, ' ');
+
+function formatDate(dateStr: string | null) {
+  if (!dateStr) return '—';
+  return new Date(dateStr).toLocaleString(undefined, {
+    month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit',
+  });
+}
+
+export default function ClaimsReviewPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<ViolationStatus | 'all'>('open');
+  const [categoryFilter, setCategoryFilter] = useState<string>('all');
+  const [trendDays, setTrendDays] = useState('30');
+  const [promoteForm, setPromoteForm] = useState<PromoteForm | null>(null);
+
+  const params = new URLSearchParams();
+  if (statusFilter !== 'all') params.set('status', statusFilter);
+  if (categoryFilter !== 'all') params.set('category', categoryFilter);
+  const { data, isLoading } = useQuery<ViolationList>({
+    queryKey: ['/api/admin/claims/violations', statusFilter, categoryFilter],
+    queryFn: () => apiRequest('GET', `/api/admin/claims/violations?${params}`).then(r => r.json()),
+  });
+
+  const { data: trends } = useQuery<Trends>({
+    queryKey: ['/api/admin/claims/trends', trendDays],
+    queryFn: () => apiRequest('GET', `/api/admin/claims/trends?days=${trendDays}`).then(r => r.json()),
+  });
+
+  const { data: phrases } = useQuery<Phrase[]>({
+    queryKey: ['/api/admin/claims/phrases'],
+    queryFn: () => apiRequest('GET', '/api/admin/claims/phrases').then(r => r.json()),
+  });
+
+  const invalidateViolations = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/claims/violations'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/claims/trends'] });
+  };
+
+  const review = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: ViolationStatus }) =>
+      apiRequest('POST', `/api/admin/claims/violations/${id}/review`, { status }).then(r => r.json()),
+    onSuccess: () => invalidateViolations(),
+    onError: (err: Error) => toast({ title: 'Failed to update violation', description: err.message, variant: 'destructive' }),
+  });
+
+  const promote = useMutation({
+    mutationFn: (form: PromoteForm) =>
+      apiRequest('POST', '/api/admin/claims/phrases', {
+        ...form,
+        rewriteTemplate: form.rewriteTemplate.trim() || null,
+      }).then(r => r.json()),
+    onSuccess: (phrase: Phrase) => {
+      invalidateViolations();
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/claims/phrases'] });
+      setPromoteForm(null);
+      toast({ title: `"${phrase.phrase}" added to the claims filter` });
+    },
+    onError: (err: Error) => toast({ title: 'Failed to promote phrase', description: err.message, variant: 'destructive' }),
+  });
+
+  const togglePhrase = useMutation({
+    mutationFn: ({ id, active }: { id: string; active: boolean }) =>
+      apiRequest('PATCH', `/api/admin/claims/phrases/${id}`, { active }).then(r => r.json()),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/admin/claims/phrases'] }),
+    onError: (err: Error) => toast({ title: 'Failed to update phrase', description: err.message, variant: 'destructive' }),
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  const chartCategories = trends?.categories.map(c => c.category) ?? [];
+  const chartData = trends?.days.map(d => ({ date: d.date, ...d.byCategory })) ?? [];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Claims Review</h1>
+          <p className="text-sm text-muted-foreground">
+            Every phrase the AI output claims filter flagged or rewrote in a consultation reply.
+            Mark each as confirmed or a false positive, and promote new phrasing into the filter's rule list.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setPromoteForm({ ...EMPTY_FORM })}>
+          <ListPlus className="h-4 w-4 mr-2" />
+          Add phrase
+        </Button>
+      </div>
+
+      {/* Trends */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="text-base">Violations by category</CardTitle>
+            <CardDescription>Daily counts (UTC) with the share reviewers marked as false positives</CardDescription>
+          </div>
+          <Select value={trendDays} onValueChange={setTrendDays}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">7 days</SelectItem>
+              <SelectItem value="30">30 days</SelectItem>
+              <SelectItem value="90">90 days</SelectItem>
+              <SelectItem value="365">1 year</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis
+                  dataKey="date"
+                  tick={{ fontSize: 11, fill: '#9ca3af' }}
+                  tickFormatter={(v) => new Date(v).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}
+                />
+                <YAxis allowDecimals={false} tick={{ fontSize: 11, fill: '#9ca3af' }} />
+                <Tooltip
+                  contentStyle={{ borderRadius: '8px', border: '1px solid #e5e7eb', fontSize: '13px' }}
+                  labelFormatter={(v) => new Date(v).toLocaleDateString(undefined, { timeZone: 'UTC' })}
+                />
+                <Legend formatter={(v) => categoryLabel(String(v))} />
+                {chartCategories.map((category, i) => (
+                  <Bar key={category} dataKey={category} stackId="violations" fill={CATEGORY_COLORS[i % CATEGORY_COLORS.length]} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          {trends && trends.categories.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">Violations</TableHead>
+                  <TableHead className="text-right">False positives</TableHead>
+                  <TableHead className="text-right">False positive rate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {trends.categories.map(c => (
+                  <TableRow key={c.category}>
+                    <TableCell className="capitalize">{categoryLabel(c.category)}</TableCell>
+                    <TableCell className="text-right">{c.total}</TableCell>
+                    <TableCell className="text-right">{c.falsePositives}</TableCell>
+                    <TableCell className="text-right">{(c.falsePositiveRate * 100).toFixed(1)}%</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Review queue */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5" />
+              Violations
+            </CardTitle>
+            <CardDescription>{data.violations.length} shown, newest first</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All categories</SelectItem>
+                {data.categories.map(c => (
+                  <SelectItem key={c} value={c} className="capitalize">{categoryLabel(c)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={v => setStatusFilter(v as ViolationStatus | 'all')}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="confirmed">Confirmed</SelectItem>
+                <SelectItem value="false_positive">False positive</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {data.violations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing to review.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Matched</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.violations.map(v => (
+                  <TableRow key={v.id}>
+                    <TableCell className="text-xs whitespace-nowrap">{formatDate(v.createdAt)}</TableCell>
+                    <TableCell>
+                      <div className="capitalize text-sm">{categoryLabel(v.category)}</div>
+                      <span className={`text-xs px-1.5 py-0.5 rounded ${SEVERITY_CLASS[v.severity]}`}>{v.severity}</span>
+                      {v.phraseId && <div className="text-xs text-muted-foreground mt-1">promoted phrase</div>}
+                    </TableCell>
+                    <TableCell className="max-w-md text-sm">
+                      <div className="font-medium">“{v.originalText}”</div>
+                      {v.rewrittenText && (
+                        <div className="text-xs text-muted-foreground">→ {v.rewrittenText}</div>
+                      )}
+                      {v.context && (
+                        <div className="text-xs text-muted-foreground mt-1 line-clamp-3" title={v.context}>{v.context}</div>
+                      )}
+                      {v.sessionId && (
+                        <div className="text-xs text-muted-foreground font-mono mt-1">session {v.sessionId.slice(0, 8)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell><Badge variant="outline">{v.action}</Badge></TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANT[v.status]}>{v.status.replace('_', ' ')}</Badge>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {v.status === 'open' ? (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => review.mutate({ id: v.id, status: 'confirmed' })}
+                            disabled={review.isPending}
+                            title="Confirm (the filter was right)"
+                          >
+                            <Check className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => review.mutate({ id: v.id, status: 'false_positive' })}
+                            disabled={review.isPending}
+                            title="False positive"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => review.mutate({ id: v.id, status: 'open' })}
+                          disabled={review.isPending}
+                          title="Reopen"
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setPromoteForm({
+                          phrase: v.originalText,
+                          category: v.category,
+                          severity: v.severity,
+                          rewriteTemplate: v.rewrittenText || '',
+                          sourceViolationId: v.id,
+                        })}
+                        title="Promote a phrase from this violation"
+                      >
+                        <ListPlus className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Promoted phrases */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Promoted phrases</CardTitle>
+          <CardDescription>
+            Literal phrases matched case-insensitively on top of the built-in rules. Inactive phrases are kept for the record but not applied.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!phrases || phrases.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No phrases promoted yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Phrase</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Severity</TableHead>
+                  <TableHead>Rewrite</TableHead>
+                  <TableHead>Added</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {phrases.map(p => (
+                  <TableRow key={p.id} className={p.active ? '' : 'opacity-50'}>
+                    <TableCell className="font-medium text-sm">{p.phrase}</TableCell>
+                    <TableCell className="capitalize text-sm">{categoryLabel(p.category)}</TableCell>
+                    <TableCell>
+                      <span className={`text-xs px-1.5 py-0.5 rounded ${SEVERITY_CLASS[p.severity]}`}>{p.severity}</span>
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground max-w-xs">{p.rewriteTemplate || '—'}</TableCell>
+                    <TableCell className="text-xs whitespace-nowrap">{formatDate(p.createdAt)}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => togglePhrase.mutate({ id: p.id, active: !p.active })}
+                        disabled={togglePhrase.isPending}
+                        title={p.active ? 'Deactivate' : 'Activate'}
+                      >
+                        <Power className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!promoteForm} onOpenChange={open => !open && setPromoteForm(null)}>
+        {promoteForm && (
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Promote phrase to the claims filter</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4 py-2">
+              <div>
+                <Label>Phrase *</Label>
+                <Input
+                  value={promoteForm.phrase}
+                  onChange={(e) => setPromoteForm({ ...promoteForm, phrase: e.target.value })}
+                  placeholder="e.g. reverses insulin resistance"
+                  className="mt-1"
+                />
+                <p className="text-xs text-muted-foreground mt-1">Matched as literal text, whole words, any capitalisation.</p>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Category</Label>
+                  <Select value={promoteForm.category} onValueChange={(v) => setPromoteForm({ ...promoteForm, category: v })}>
+                    <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {data.categories.map(c => <SelectItem key={c} value={c} className="capitalize">{categoryLabel(c)}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Severity</Label>
+                  <Select value={promoteForm.severity} onValueChange={(v) => setPromoteForm({ ...promoteForm, severity: v as Severity })}>
+                    <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="warning">Warning (flag + disclaimer)</SelectItem>
+                      <SelectItem value="critical">Critical (rewrite)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <Label>Rewrite</Label>
+                <Textarea
+                  value={promoteForm.rewriteTemplate}
+                  onChange={(e) => setPromoteForm({ ...promoteForm, rewriteTemplate: e.target.value })}
+                  placeholder="Replacement text for critical matches"
+                  className="mt-1"
+                  rows={2}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setPromoteForm(null)}>Cancel</Button>
+              <Button
+                onClick={() => promote.mutate(promoteForm)}
+                disabled={promoteForm.phrase.trim().length < 3 || promote.isPending}
+              >
+                Add to filter
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+    </div>
+  );
+}
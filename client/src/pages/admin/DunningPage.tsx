@@ -0,0 +1,378 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { CreditCard, RotateCcw, Save, XCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Badge } from '@/shared/components/ui/badge';
+import { Button } from '@/shared/components/ui/button';
+import { Skeleton } from '@/shared/components/ui/skeleton';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Switch } from '@/shared/components/ui/switch';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/shared/components/ui/select';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from '@/shared/components/ui/table';
+import { useToast } from '@/shared/hooks/use-toast';
+import { apiRequest } from '@/shared/lib/queryClient';
+
+// --- Types ---
+
+type CaseStatus = 'open' | 'recovered' | 'paused' | 'closed';
+type CaseKind = 'autoship' | 'membership';
+
+interface DunningCaseRow {
+  id: string;
+  userId: string;
+  userEmail: string | null;
+  userName: string | null;
+  kind: CaseKind;
+  status: CaseStatus;
+  amountCents: number | null;
+  declineCategory: 'hard' | 'soft';
+  lastResponseCode: string | null;
+  lastResponseText: string | null;
+  attemptCount: number;
+  remindersSent: number;
+  lastReminderStage: string | null;
+  firstFailedAt: string;
+  nextRetryAt: string | null;
+  graceEndsAt: string;
+  resolvedAt: string | null;
+  awaitingReconciliation: boolean;
+}
+
+interface KindStats {
+  kind: CaseKind;
+  total: number;
+  open: number;
+  recovered: number;
+  paused: number;
+  closed: number;
+  recoveredAmountCents: number;
+  recoveryRate: number | null;
+}
+
+interface TriggerStats {
+  trigger: 'renewal' | 'scheduled_retry' | 'card_update' | 'manual';
+  attempts: number;
+  approved: number;
+  successRate: number | null;
+}
+
+interface DunningOverview {
+  stats: { days: number; byKind: KindStats[]; byTrigger: TriggerStats[] };
+  cases: DunningCaseRow[];
+}
+
+interface DunningPolicy {
+  retryScheduleDays: number[];
+  graceDays: number;
+  finalNoticeDays: number;
+  smsReminders: boolean;
+}
+
+const STATUS_VARIANT: Record<CaseStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  open: 'destructive',
+  recovered: 'default',
+  paused: 'secondary',
+  closed: 'outline',
+};
+
+const KIND_LABEL: Record<CaseKind, string> = { autoship: 'Auto-ship', membership: 'Membership' };
+
+const TRIGGER_LABEL: Record<TriggerStats['trigger'], string> = {
+  renewal: 'Renewal charge',
+  scheduled_retry: 'Scheduled retry',
+  card_update: 'After card update',
+  manual: 'Manual retry',
+};
+
+function formatDate(dateStr: string | null) {
+  if (!dateStr) return '—';
+  return new Date(dateStr).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function formatCents(cents: number | null) {
+  return cents == null ? '—' : `$${(cents / 100).toFixed(2)}`;
+}
+
+function formatRate(rate: number | null) {
+  return rate == null ? '—' : `${rate}%`;
+}
+
+export default function DunningPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<CaseStatus | 'all'>('open');
+  const [retryDays, setRetryDays] = useState('');
+  const [graceDays, setGraceDays] = useState('');
+  const [finalNoticeDays, setFinalNoticeDays] = useState('');
+  const [smsReminders, setSmsReminders] = useState(true);
+
+  const overviewUrl = `/api/admin/dunning${statusFilter === 'all' ? '' : `?status=${statusFilter}`}`;
+  const { data, isLoading } = useQuery<DunningOverview>({
+    queryKey: ['/api/admin/dunning', statusFilter],
+    queryFn: () => apiRequest('GET', overviewUrl).then(r => r.json()),
+  });
+
+  const { data: policy } = useQuery<DunningPolicy>({
+    queryKey: ['/api/admin/dunning/policy'],
+    queryFn: () => apiRequest('GET', '/api/admin/dunning/policy').then(r => r.json()),
+  });
+
+  useEffect(() => {
+    if (!policy) return;
+    setRetryDays(policy.retryScheduleDays.join(', '));
+    setGraceDays(String(policy.graceDays));
+    setFinalNoticeDays(String(policy.finalNoticeDays));
+    setSmsReminders(policy.smsReminders);
+  }, [policy]);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['/api/admin/dunning'] });
+
+  const savePolicy = useMutation({
+    mutationFn: () => {
+      const retryScheduleDays = retryDays.split(',').map(d => d.trim()).filter(Boolean).map(Number);
+      if (retryScheduleDays.some(d => !Number.isInteger(d))) throw new Error('Retry days must be whole numbers');
+      return apiRequest('PUT', '/api/admin/dunning/policy', {
+        retryScheduleDays,
+        graceDays: Number(graceDays),
+        finalNoticeDays: Number(finalNoticeDays),
+        smsReminders,
+      }).then(r => r.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/dunning/policy'] });
+      toast({ title: 'Dunning policy saved' });
+    },
+    onError: (err: Error) => toast({ title: 'Failed to save policy', description: err.message, variant: 'destructive' }),
+  });
+
+  const retryCase = useMutation({
+    mutationFn: (id: string) => apiRequest('POST', `/api/admin/dunning/cases/${id}/retry`).then(r => r.json()),
+    onSuccess: (result: { status: CaseStatus }) => {
+      invalidate();
+      toast({ title: result.status === 'recovered' ? 'Payment recovered' : `Retry finished — case ${result.status}` });
+    },
+    onError: (err: Error) => toast({ title: 'Retry failed', description: err.message, variant: 'destructive' }),
+  });
+
+  const closeCase = useMutation({
+    mutationFn: (id: string) => apiRequest('POST', `/api/admin/dunning/cases/${id}/close`).then(r => r.json()),
+    onSuccess: () => { invalidate(); toast({ title: 'Case closed' }); },
+    onError: (err: Error) => toast({ title: 'Failed to close case', description: err.message, variant: 'destructive' }),
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Failed Payments</h1>
+        <p className="text-sm text-muted-foreground">
+          Dunning for declined auto-ship and membership charges — retries, reminders and recovery over the last {data.stats.days} days.
+        </p>
+      </div>
+
+      {/* Recovery stats */}
+      <div className="grid gap-4 md:grid-cols-2">
+        {data.stats.byKind.map(stats => (
+          <Card key={stats.kind}>
+            <CardHeader className="pb-2">
+              <CardDescription>{KIND_LABEL[stats.kind]}</CardDescription>
+              <CardTitle className="text-3xl">{formatRate(stats.recoveryRate)}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground">
+              {stats.total} failed · {stats.recovered} recovered ({formatCents(stats.recoveredAmountCents)}) ·{' '}
+              {stats.open} open · {stats.paused} paused · {stats.closed} closed
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Attempts by trigger</CardTitle>
+          <CardDescription>How often each kind of charge attempt succeeds.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Trigger</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Approved</TableHead>
+                <TableHead>Success rate</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.stats.byTrigger.map(row => (
+                <TableRow key={row.trigger}>
+                  <TableCell>{TRIGGER_LABEL[row.trigger]}</TableCell>
+                  <TableCell>{row.attempts}</TableCell>
+                  <TableCell>{row.approved}</TableCell>
+                  <TableCell>{formatRate(row.successRate)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Policy */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Retry policy</CardTitle>
+          <CardDescription>
+            Soft declines are retried on these days after the first failure. Hard declines (lost/stolen, closed account,
+            expired card) wait for a card update. Unpaid subscriptions pause when the grace period ends.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-1">
+              <Label htmlFor="retry-days">Retry days</Label>
+              <Input id="retry-days" placeholder="1, 3, 5, 7" value={retryDays} onChange={e => setRetryDays(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="grace-days">Grace period (days)</Label>
+              <Input id="grace-days" type="number" min={1} value={graceDays} onChange={e => setGraceDays(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="final-notice-days">Final notice (days before pause)</Label>
+              <Input id="final-notice-days" type="number" min={0} value={finalNoticeDays} onChange={e => setFinalNoticeDays(e.target.value)} />
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="sms-reminders" checked={smsReminders} onCheckedChange={setSmsReminders} />
+            <Label htmlFor="sms-reminders">Escalate reminders to SMS (users opted into billing texts)</Label>
+          </div>
+          <Button variant="outline" onClick={() => savePolicy.mutate()} disabled={savePolicy.isPending || !policy}>
+            <Save className="mr-2 h-4 w-4" />
+            {savePolicy.isPending ? 'Saving…' : 'Save Policy'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Cases */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CreditCard className="h-5 w-5" />
+              Cases
+            </CardTitle>
+            <CardDescription>{data.cases.length} shown</CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={v => setStatusFilter(v as CaseStatus | 'all')}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="recovered">Recovered</SelectItem>
+              <SelectItem value="paused">Paused</SelectItem>
+              <SelectItem value="closed">Closed</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {data.cases.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No cases.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Last decline</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Next retry</TableHead>
+                  <TableHead>Grace ends</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.cases.map(c => (
+                  <TableRow key={c.id}>
+                    <TableCell className="text-xs">
+                      <div className="font-medium">{c.userName || '—'}</div>
+                      <div className="text-muted-foreground">{c.userEmail}</div>
+                    </TableCell>
+                    <TableCell>{KIND_LABEL[c.kind]}</TableCell>
+                    <TableCell>{formatCents(c.amountCents)}</TableCell>
+                    <TableCell className="text-xs">
+                      <Badge variant={c.declineCategory === 'hard' ? 'destructive' : 'secondary'} className="mr-1">
+                        {c.declineCategory}
+                      </Badge>
+                      {c.lastResponseCode && <span className="font-mono">{c.lastResponseCode} </span>}
+                      {c.lastResponseText}
+                    </TableCell>
+                    <TableCell>
+                      {c.attemptCount}
+                      <span className="text-xs text-muted-foreground"> · {c.remindersSent} reminders</span>
+                    </TableCell>
+                    <TableCell>{formatDate(c.nextRetryAt)}</TableCell>
+                    <TableCell>{formatDate(c.graceEndsAt)}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANT[c.status]}>{c.status}</Badge>
+                      {c.awaitingReconciliation && c.status === 'open' && (
+                        <Badge
+                          variant="outline"
+                          className="ml-1"
+                          title="The gateway errored, so the charge may have gone through. Check the gateway before retrying."
+                        >
+                          reconcile
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {c.status === 'open' && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              if (c.awaitingReconciliation && !window.confirm('The last charge may have gone through. Charge again?')) return;
+                              retryCase.mutate(c.id);
+                            }}
+                            disabled={retryCase.isPending}
+                            title="Retry charge now"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => { if (window.confirm('Close this case without collecting payment?')) closeCase.mutate(c.id); }}
+                            disabled={closeCase.isPending}
+                            title="Close case"
+                          >
+                            <XCircle className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
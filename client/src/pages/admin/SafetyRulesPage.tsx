@@ -0,0 +1,365 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  ShieldCheck,
+  FilePlus2,
+  Save,
+  Eye,
+  Rocket,
+  AlertTriangle,
+} from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Badge } from '@/shared/components/ui/badge';
+import { Button } from '@/shared/components/ui/button';
+import { Skeleton } from '@/shared/components/ui/skeleton';
+import { Textarea } from '@/shared/components/ui/textarea';
+import { Input } from '@/shared/components/ui/input';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from '@/shared/components/ui/table';
+import { useToast } from '@/shared/hooks/use-toast';
+import { apiRequest } from '@/shared/lib/queryClient';
+import type { SafetyRule, SafetyRuleSet } from '@shared/safety-rules';
+
+// --- Types ---
+
+type RuleSetStatus = 'draft' | 'published' | 'archived';
+
+interface RuleSetRecord {
+  id: string;
+  version: number;
+  status: RuleSetStatus;
+  rules: SafetyRule[];
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+  publishedAt: string | null;
+}
+
+interface RuleSetList {
+  activeVersion: number;
+  builtin: SafetyRuleSet;
+  ruleSets: RuleSetRecord[];
+}
+
+interface PreviewChange {
+  formulaId: string;
+  userId: string;
+  formulaVersion: number;
+  added: Array<{ category: string; severity: string }>;
+  removed: Array<{ category: string; severity: string }>;
+  severityChanged: Array<{ category: string; from: string; to: string }>;
+  wasSafe: boolean;
+  nowSafe: boolean;
+}
+
+interface Preview {
+  activeVersion: number;
+  draftVersion: number;
+  formulasEvaluated: number;
+  formulasChanged: number;
+  newlyBlocked: number;
+  newlyUnblocked: number;
+  changes: PreviewChange[];
+}
+
+const STATUS_VARIANT: Record<RuleSetStatus, 'default' | 'secondary' | 'outline'> = {
+  published: 'default',
+  draft: 'secondary',
+  archived: 'outline',
+};
+
+const SEVERITY_CLASS: Record<string, string> = {
+  critical: 'bg-red-100 text-red-800',
+  serious: 'bg-amber-100 text-amber-800',
+  informational: 'bg-blue-100 text-blue-800',
+};
+
+function formatDate(dateStr: string | null) {
+  if (!dateStr) return '—';
+  return new Date(dateStr).toLocaleString(undefined, {
+    month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit',
+  });
+}
+
+export default function SafetyRulesPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [rulesJson, setRulesJson] = useState('');
+  const [notes, setNotes] = useState('');
+  const [preview, setPreview] = useState<Preview | null>(null);
+
+  const { data, isLoading } = useQuery<RuleSetList>({
+    queryKey: ['/api/admin/safety-rules'],
+    queryFn: () => apiRequest('GET', '/api/admin/safety-rules').then(r => r.json()),
+  });
+
+  const draft = data?.ruleSets.find(r => r.status === 'draft');
+  const activeRules = data
+    ? (data.ruleSets.find(r => r.version === data.activeVersion)?.rules ?? data.builtin.rules)
+    : [];
+
+  // Reset the editor whenever a different draft is loaded
+  useEffect(() => {
+    setRulesJson(draft ? JSON.stringify(draft.rules, null, 2) : '');
+    setNotes(draft?.notes ?? '');
+    setPreview(null);
+  }, [draft?.version]);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['/api/admin/safety-rules'] });
+
+  const createDraft = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/admin/safety-rules', { notes: notes || undefined }).then(r => r.json()),
+    onSuccess: () => { invalidate(); toast({ title: 'Draft created from active rules' }); },
+    onError: (err: Error) => toast({ title: 'Failed to create draft', description: err.message, variant: 'destructive' }),
+  });
+
+  const saveDraft = useMutation({
+    mutationFn: () => {
+      let rules: unknown;
+      try {
+        rules = JSON.parse(rulesJson);
+      } catch {
+        throw new Error('Rules must be valid JSON');
+      }
+      return apiRequest('PUT', `/api/admin/safety-rules/${draft!.version}`, { rules, notes }).then(r => r.json());
+    },
+    onSuccess: () => { invalidate(); setPreview(null); toast({ title: 'Draft saved' }); },
+    onError: (err: Error) => toast({ title: 'Failed to save draft', description: err.message, variant: 'destructive' }),
+  });
+
+  const runPreview = useMutation<Preview>({
+    mutationFn: () => apiRequest('GET', `/api/admin/safety-rules/${draft!.version}/preview`).then(r => r.json()),
+    onSuccess: (result) => setPreview(result),
+    onError: (err: Error) => toast({ title: 'Preview failed', description: err.message, variant: 'destructive' }),
+  });
+
+  const publish = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/admin/safety-rules/${draft!.version}/publish`).then(r => r.json()),
+    onSuccess: () => { invalidate(); toast({ title: `Rule set v${draft!.version} published` }); },
+    onError: (err: Error) => toast({ title: 'Failed to publish', description: err.message, variant: 'destructive' }),
+  });
+
+  const handlePublish = () => {
+    const blocked = preview?.newlyBlocked ?? 0;
+    const message = preview
+      ? `Publish v${draft!.version}? ${preview.formulasChanged} formula(s) change, ${blocked} become blocked.`
+      : `Publish v${draft!.version} without running a preview?`;
+    if (window.confirm(message)) publish.mutate();
+  };
+
+  if (isLoading || !data) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Safety Rules</h1>
+          <p className="text-sm text-muted-foreground">
+            Drug–supplement interaction rules used by the formula safety validator. Active version: v{data.activeVersion}
+            {data.activeVersion === data.builtin.version && ' (built-in)'}
+          </p>
+        </div>
+        {!draft && (
+          <Button onClick={() => createDraft.mutate()} disabled={createDraft.isPending}>
+            <FilePlus2 className="mr-2 h-4 w-4" />
+            New Draft
+          </Button>
+        )}
+      </div>
+
+      {/* Draft editor */}
+      {draft && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              Draft v{draft.version}
+              <Badge variant="secondary">draft</Badge>
+            </CardTitle>
+            <CardDescription>
+              Edit the rules as JSON. Save, preview against current formulas, then publish.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input
+              placeholder="Change notes (e.g. add tirzepatide to diabetes rule)"
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+            />
+            <Textarea
+              className="font-mono text-xs min-h-[420px]"
+              value={rulesJson}
+              onChange={e => setRulesJson(e.target.value)}
+              spellCheck={false}
+            />
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => saveDraft.mutate()} disabled={saveDraft.isPending}>
+                <Save className="mr-2 h-4 w-4" />
+                {saveDraft.isPending ? 'Saving…' : 'Save Draft'}
+              </Button>
+              <Button variant="outline" onClick={() => runPreview.mutate()} disabled={runPreview.isPending}>
+                <Eye className="mr-2 h-4 w-4" />
+                {runPreview.isPending ? 'Evaluating…' : 'Preview'}
+              </Button>
+              <Button onClick={handlePublish} disabled={publish.isPending}>
+                <Rocket className="mr-2 h-4 w-4" />
+                Publish
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Preview */}
+      {preview && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Preview: v{preview.activeVersion} → v{preview.draftVersion}</CardTitle>
+            <CardDescription>
+              {preview.formulasEvaluated} current formulas evaluated · {preview.formulasChanged} changed ·{' '}
+              <span className="text-red-700">{preview.newlyBlocked} newly blocked</span> ·{' '}
+              <span className="text-green-700">{preview.newlyUnblocked} unblocked</span>
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {preview.changes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No formula's warnings change under this draft.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Formula</TableHead>
+                    <TableHead>Added</TableHead>
+                    <TableHead>Removed</TableHead>
+                    <TableHead>Severity changed</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.changes.map(change => (
+                    <TableRow key={change.formulaId}>
+                      <TableCell className="font-mono text-xs">
+                        {change.userId.slice(0, 8)} · v{change.formulaVersion}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {change.added.map(w => (
+                          <span key={w.category} className={`mr-1 rounded px-1.5 py-0.5 ${SEVERITY_CLASS[w.severity]}`}>{w.category}</span>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-xs line-through text-muted-foreground">
+                        {change.removed.map(w => w.category).join(', ')}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {change.severityChanged.map(w => `${w.category}: ${w.from} → ${w.to}`).join(', ')}
+                      </TableCell>
+                      <TableCell>
+                        {change.wasSafe && !change.nowSafe && (
+                          <Badge variant="destructive"><AlertTriangle className="mr-1 h-3 w-3" />Blocked</Badge>
+                        )}
+                        {!change.wasSafe && change.nowSafe && <Badge variant="outline">Unblocked</Badge>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Active rules */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Active Rules (v{data.activeVersion})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Category</TableHead>
+                <TableHead>Severity</TableHead>
+                <TableHead>Escalates to</TableHead>
+                <TableHead>Trigger</TableHead>
+                <TableHead>Ingredients</TableHead>
+                <TableHead>Enabled</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {activeRules.map(rule => (
+                <TableRow key={rule.category}>
+                  <TableCell>
+                    <div className="font-mono text-xs">{rule.category}</div>
+                    {rule.description && <div className="text-xs text-muted-foreground">{rule.description}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <span className={`rounded px-1.5 py-0.5 text-xs ${SEVERITY_CLASS[rule.severity]}`}>{rule.severity}</span>
+                  </TableCell>
+                  <TableCell className="text-xs">{rule.escalation?.severity ?? '—'}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {[
+                      rule.trigger.medications?.length ? `${rule.trigger.medications.length} meds` : null,
+                      rule.trigger.conditions?.length ? `${rule.trigger.conditions.length} conditions` : null,
+                    ].filter(Boolean).join(' / ') || 'ingredients only'}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground max-w-xs truncate">
+                    {rule.ingredients?.join(', ') ?? '—'}
+                  </TableCell>
+                  <TableCell>{rule.enabled ? 'Yes' : 'No'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* History */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Version History</CardTitle>
+          <CardDescription>v{data.builtin.version} is the built-in rule set shipped with the app.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {data.ruleSets.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No rule sets have been created yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Rules</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Published</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.ruleSets.map(set => (
+                  <TableRow key={set.id}>
+                    <TableCell className="font-medium">v{set.version}</TableCell>
+                    <TableCell><Badge variant={STATUS_VARIANT[set.status]}>{set.status}</Badge></TableCell>
+                    <TableCell>{set.rules.length}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{set.notes || '—'}</TableCell>
+                    <TableCell className="text-sm">{formatDate(set.createdAt)}</TableCell>
+                    <TableCell className="text-sm">{formatDate(set.publishedAt)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { FlaskConical, Loader2, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Badge } from '@/shared/components/ui/badge';
+import { Button } from '@/shared/components/ui/button';
+import { Skeleton } from '@/shared/components/ui/skeleton';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from '@/shared/components/ui/table';
+import { apiRequest, queryClient } from '@/shared/lib/queryClient';
+
+// --- Types ---
+
+interface OutcomeAggregateRow {
+  ingredient: string;
+  markerKey: string;
+  expectedDirection: 'increase' | 'decrease';
+  users: number;
+  movedAsExpected: number;
+  movedOpposite: number;
+  noSignificantChange: number;
+  medianChangePercent: number;
+}
+
+interface OutcomeAggregate {
+  generatedAt: string;
+  minCohort: number;
+  rows: OutcomeAggregateRow[];
+  suppressedPairs: number;
+  usersAnalyzed: number;
+}
+
+function percent(part: number, whole: number) {
+  return whole > 0 ? `${Math.round((part / whole) * 100)}%` : '—';
+}
+
+export default function SupplementOutcomesPage() {
+  const { data, isLoading } = useQuery<OutcomeAggregate>({
+    queryKey: ['/api/admin/supplement-outcomes'],
+    queryFn: () => apiRequest('GET', '/api/admin/supplement-outcomes').then(r => r.json()),
+    staleTime: 10 * 60 * 1000,
+  });
+
+  // The server caches the aggregate for a few hours; this rebuilds it now
+  const recompute = useMutation({
+    mutationFn: () => apiRequest('GET', '/api/admin/supplement-outcomes?refresh=1').then(r => r.json()),
+    onSuccess: (fresh: OutcomeAggregate) => queryClient.setQueryData(['/api/admin/supplement-outcomes'], fresh),
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Supplement Outcomes</h1>
+          <p className="text-sm text-muted-foreground">
+            How lab markers changed after users started formula ingredients that research links to them. Each user counts once
+            per ingredient and marker (their latest before/after pair); changes within normal test-to-test variation count as no change.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => recompute.mutate()} disabled={recompute.isPending}>
+          {recompute.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+          Recompute
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Effectiveness by ingredient
+          </CardTitle>
+          <CardDescription>
+            {data.usersAnalyzed} users with attributable results. Pairs with fewer than {data.minCohort} users are hidden
+            {data.suppressedPairs > 0 ? ` (${data.suppressedPairs} hidden)` : ''}.
+            {' '}Computed {new Date(data.generatedAt).toLocaleString()}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {data.rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No ingredient and marker pair has enough users yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ingredient</TableHead>
+                  <TableHead>Marker</TableHead>
+                  <TableHead>Expected</TableHead>
+                  <TableHead>Users</TableHead>
+                  <TableHead>As expected</TableHead>
+                  <TableHead>Opposite</TableHead>
+                  <TableHead>No change</TableHead>
+                  <TableHead>Median change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.rows.map(r => (
+                  <TableRow key={`${r.ingredient}|${r.markerKey}`}>
+                    <TableCell className="font-medium capitalize">{r.ingredient}</TableCell>
+                    <TableCell className="capitalize">{r.markerKey}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{r.expectedDirection === 'increase' ? '↑ increase' : '↓ decrease'}</Badge>
+                    </TableCell>
+                    <TableCell>{r.users}</TableCell>
+                    <TableCell>{percent(r.movedAsExpected, r.users)}</TableCell>
+                    <TableCell>{percent(r.movedOpposite, r.users)}</TableCell>
+                    <TableCell>{percent(r.noSignificantChange, r.users)}</TableCell>
+                    <TableCell className="tabular-nums">
+                      {r.medianChangePercent > 0 ? '+' : ''}{r.medianChangePercent}%
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
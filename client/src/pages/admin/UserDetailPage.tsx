@@ -52,6 +52,8 @@ import {
 
 import { format } from 'date-fns';
 import { UserAdminNotes } from '@/features/admin/components/UserAdminNotes';
+import { FormulaDiffView } from '@/features/formulas/components/FormulaDiffView';
+import type { FormulaChangelogEntry } from '@shared/formula-diff';
 import { apiRequest } from '@/shared/lib/queryClient';
 
 // Types
@@ -217,6 +219,17 @@ export default function UserDetailPage() {
     enabled: !!userId,
   });
 
+  // Per-version diffs for the formulas tab
+  const { data: formulaChangelog } = useQuery<{ changelog: FormulaChangelogEntry[] }>({
+    queryKey: ['/api/admin/users', userId, 'formula-changelog'],
+    enabled: !!userId,
+  });
+  const formulaDiffs = new Map(
+    (formulaChangelog?.changelog || [])
+      .filter(entry => entry.diff)
+      .map(entry => [entry.formula.id, entry.diff!] as const)
+  );
+
   // Fetch AI usage data for this user
   const { data: aiUsage, isLoading: aiUsageLoading } = useQuery<AiUsageData>({
     queryKey: ['/api/admin/ai-usage/user', userId],
@@ -894,6 +907,14 @@ export default function UserDetailPage() {
                             <span className="font-medium">{formula.totalMg}mg</span> total dosage
                           </p>
                         </div>
+                        {formulaDiffs.get(formula.id) && (
+                          <div className="mt-4 pt-4 border-t">
+                            <p className="text-xs text-muted-foreground mb-2">
+                              Changes from v{formulaDiffs.get(formula.id)!.from.version}
+                            </p>
+                            <FormulaDiffView diff={formulaDiffs.get(formula.id)!} compact />
+                          </div>
+                        )}
                       </CardContent>
                     </Card>
                   ))
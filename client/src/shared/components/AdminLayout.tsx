@@ -39,6 +39,8 @@ import {
   Video,
   Tv,
   Palette,
+  Microscope,
+  ShieldAlert,
 } from 'lucide-react';
 import { cn } from '@/shared/lib/utils';
 
@@ -75,6 +77,7 @@ const navSections: { label?: string; items: NavItem[] }[] = [
           { label: 'All Customers', href: '/admin/users' },
           { label: 'Membership', href: '/admin/membership' },
           { label: 'Discount Codes', href: '/admin/discount-codes' },
+          { label: 'Failed Payments', href: '/admin/dunning' },
         ],
       },
     ],
@@ -106,6 +109,7 @@ const navSections: { label?: string; items: NavItem[] }[] = [
       { label: 'Traffic & Attribution', href: '/admin/traffic', icon: Globe },
       { label: 'AI Usage & Costs', href: '/admin/ai-usage', icon: DollarSign },
       { label: 'Conversations', href: '/admin/conversations', icon: MessageSquare },
+      { label: 'Supplement Outcomes', href: '/admin/supplement-outcomes', icon: FlaskConical },
     ],
   },
   {
@@ -113,12 +117,15 @@ const navSections: { label?: string; items: NavItem[] }[] = [
     items: [
       { label: 'Agents', href: '/admin/agents', icon: Bot },
       { label: 'Support Tickets', href: '/admin/support-tickets', icon: HelpCircle },
+      { label: 'Lab Marker Review', href: '/admin/biomarker-review', icon: Microscope },
+      { label: 'Claims Review', href: '/admin/claims-review', icon: ShieldAlert },
       { label: 'Audit & Compliance', href: '/admin/audit-logs', icon: Shield },
       {
         label: 'Settings',
         icon: Settings,
         children: [
           { label: 'AI Configuration', href: '/admin/settings/ai' },
+          { label: 'Safety Rules', href: '/admin/settings/safety-rules' },
         ],
       },
     ],
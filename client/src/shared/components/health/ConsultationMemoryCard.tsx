@@ -0,0 +1,264 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Brain, Loader2, Pencil, Plus, Trash2, X, Check } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { Textarea } from '@/shared/components/ui/textarea';
+import { Badge } from '@/shared/components/ui/badge';
+import { Skeleton } from '@/shared/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { useToast } from '@/shared/hooks/use-toast';
+import { apiRequest, queryClient } from '@/shared/lib/queryClient';
+
+type MemoryKind = 'preference' | 'tolerance' | 'goal' | 'decision';
+
+interface PatientMemory {
+  id: string;
+  kind: MemoryKind;
+  content: string;
+  ingredient: string | null;
+  origin: 'extracted' | 'user';
+  sourceSessionId: string | null;
+  sourceSessionTitle: string | null;
+  sourceMessageId: string | null;
+  sourceQuote: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const MEMORIES_KEY = ['/api/users/me/memories'];
+
+const KIND_LABELS: Record<MemoryKind, string> = {
+  preference: 'Preference',
+  tolerance: 'Tolerance',
+  goal: 'Goal',
+  decision: 'Decision',
+};
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+function KindSelect({ value, onChange }: { value: MemoryKind; onChange: (kind: MemoryKind) => void }) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as MemoryKind)}>
+      <SelectTrigger className="w-36">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(KIND_LABELS) as MemoryKind[]).map((kind) => (
+          <SelectItem key={kind} value={kind}>{KIND_LABELS[kind]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * What the consultant remembers between sessions. Each memory shows the
+ * conversation it came from; editing one makes it the user's own, so later
+ * consultations won't overwrite it.
+ */
+export function ConsultationMemoryCard() {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<{ kind: MemoryKind; content: string }>({ kind: 'preference', content: '' });
+  const [adding, setAdding] = useState(false);
+  const [newMemory, setNewMemory] = useState<{ kind: MemoryKind; content: string }>({ kind: 'preference', content: '' });
+
+  const { data, isLoading } = useQuery<{ memories: PatientMemory[] }>({ queryKey: MEMORIES_KEY });
+  const memories = data?.memories ?? [];
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Couldn't save your change",
+      description: error.message || 'Something went wrong. Please try again.',
+      variant: 'destructive',
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (input: { kind: MemoryKind; content: string }) => {
+      const response = await apiRequest('POST', '/api/users/me/memories', input);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: MEMORIES_KEY });
+      setAdding(false);
+      setNewMemory({ kind: 'preference', content: '' });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...input }: { id: string; kind: MemoryKind; content: string }) => {
+      const response = await apiRequest('PATCH', `/api/users/me/memories/${id}`, input);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: MEMORIES_KEY });
+      setEditingId(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/users/me/memories/${id}`, null);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: MEMORIES_KEY });
+      toast({ title: 'Memory removed', description: "It won't be used in future consultations." });
+    },
+    onError,
+  });
+
+  const startEditing = (memory: PatientMemory) => {
+    setEditingId(memory.id);
+    setDraft({ kind: memory.kind, content: memory.content });
+  };
+
+  return (
+    <Card data-testid="section-consultation-memory" className="border-[#5a6623]/10 shadow-2xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-[#054700]">
+          <Brain className="w-5 h-5" />
+          What Your Consultant Remembers
+        </CardTitle>
+        <CardDescription className="text-[#5a6623]">
+          Preferences, tolerances, goals and decisions carried over between consultations. Edit or remove anything that's wrong.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : memories.length === 0 && !adding ? (
+          <p className="text-sm text-[#5a6623]" data-testid="text-no-memories">
+            Nothing yet. As you talk with your consultant, things worth remembering will show up here.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {memories.map((memory) => (
+              <li
+                key={memory.id}
+                className="rounded-lg border border-[#5a6623]/10 p-4"
+                data-testid={`memory-${memory.id}`}
+              >
+                {editingId === memory.id ? (
+                  <div className="space-y-3">
+                    <KindSelect value={draft.kind} onChange={(kind) => setDraft({ ...draft, kind })} />
+                    <Textarea
+                      value={draft.content}
+                      onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+                      maxLength={300}
+                      rows={2}
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        className="bg-[#054700] hover:bg-[#054700]/90 text-white"
+                        disabled={draft.content.trim().length < 3 || updateMutation.isPending}
+                        onClick={() => updateMutation.mutate({ id: memory.id, ...draft })}
+                      >
+                        {updateMutation.isPending ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Check className="w-4 h-4 mr-1" />}
+                        Save
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                        <X className="w-4 h-4 mr-1" />
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="border-[#5a6623]/30 text-[#054700]">
+                          {KIND_LABELS[memory.kind]}
+                        </Badge>
+                        <span className="text-sm text-[#054700]">{memory.content}</span>
+                      </div>
+                      <p className="text-xs text-[#5a6623]">
+                        {memory.origin === 'user' ? (
+                          <>Written by you on {formatDate(memory.updatedAt)}</>
+                        ) : memory.sourceSessionId ? (
+                          <>
+                            From{' '}
+                            <Link
+                              href={`/dashboard/consultation?session_id=${memory.sourceSessionId}`}
+                              className="underline hover:text-[#054700]"
+                            >
+                              {memory.sourceSessionTitle || 'a consultation'}
+                            </Link>
+                            {' '}on {formatDate(memory.updatedAt)}
+                          </>
+                        ) : (
+                          <>Noted on {formatDate(memory.updatedAt)}</>
+                        )}
+                      </p>
+                      {memory.origin === 'extracted' && memory.sourceQuote && (
+                        <p className="text-xs italic text-[#5a6623]/80">"{memory.sourceQuote}"</p>
+                      )}
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <Button size="icon" variant="ghost" onClick={() => startEditing(memory)} aria-label="Edit memory">
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => deleteMutation.mutate(memory.id)}
+                        disabled={deleteMutation.isPending}
+                        aria-label="Delete memory"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {adding ? (
+          <div className="space-y-3 rounded-lg border border-dashed border-[#5a6623]/30 p-4">
+            <KindSelect value={newMemory.kind} onChange={(kind) => setNewMemory({ ...newMemory, kind })} />
+            <Textarea
+              value={newMemory.content}
+              onChange={(e) => setNewMemory({ ...newMemory, content: e.target.value })}
+              placeholder="e.g. Prefers capsules over powders"
+              maxLength={300}
+              rows={2}
+              data-testid="input-new-memory"
+            />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                className="bg-[#054700] hover:bg-[#054700]/90 text-white"
+                disabled={newMemory.content.trim().length < 3 || addMutation.isPending}
+                onClick={() => addMutation.mutate(newMemory)}
+              >
+                {addMutation.isPending && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                Add
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setAdding(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" size="sm" onClick={() => setAdding(true)} data-testid="button-add-memory">
+            <Plus className="w-4 h-4 mr-1" />
+            Add something to remember
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
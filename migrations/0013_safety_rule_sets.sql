@@ -0,0 +1,36 @@
+-- Versioned, data-driven drug–supplement interaction rules.
+-- Purely additive: new enum + new table, one nullable column on safety_audit_logs,
+-- and new admin_action enum values. With no published row the validator keeps
+-- using the built-in rule set (version 1) from shared/safety-rules.ts.
+
+-- 1. Rule set lifecycle status.
+DO $$ BEGIN
+  CREATE TYPE "safety_rule_set_status" AS ENUM ('draft', 'published', 'archived');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- 2. Rule sets. `rules` is the SafetyRule[] JSON evaluated by safety-rule-engine.ts.
+CREATE TABLE IF NOT EXISTS "safety_rule_sets" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "version" integer NOT NULL UNIQUE,
+  "status" "safety_rule_set_status" NOT NULL DEFAULT 'draft',
+  "rules" json NOT NULL,
+  "notes" text,
+  "created_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now(),
+  "published_at" timestamp,
+  "published_by" varchar REFERENCES "users"("id") ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS "safety_rule_sets_status_idx" ON "safety_rule_sets" ("status");
+
+-- 3. Record which rule set judged each audit log entry.
+ALTER TABLE "safety_audit_logs"
+ADD COLUMN IF NOT EXISTS "rule_set_version" integer;
+
+-- 4. New admin_action enum values (Postgres requires one ALTER TYPE per value).
+ALTER TYPE "admin_action" ADD VALUE IF NOT EXISTS 'safety_rules_draft';
+ALTER TYPE "admin_action" ADD VALUE IF NOT EXISTS 'safety_rules_update';
+ALTER TYPE "admin_action" ADD VALUE IF NOT EXISTS 'safety_rules_publish';
@@ -0,0 +1,8 @@
+-- Formula branches: named experimental variants kept beside a user's main
+-- formula line until promoted. Purely additive — existing rows have a NULL
+-- branch_name and stay on the main line.
+
+ALTER TABLE "formulas" ADD COLUMN IF NOT EXISTS "branch_name" text;
+ALTER TABLE "formulas" ADD COLUMN IF NOT EXISTS "branched_from_id" varchar;
+
+CREATE INDEX IF NOT EXISTS "formulas_user_branch_idx" ON "formulas" ("user_id", "branch_name");
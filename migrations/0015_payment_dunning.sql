@@ -0,0 +1,65 @@
+-- Smart dunning for failed auto-ship and membership charges.
+-- Purely additive: new enum + two new tables, a 'past_due' value on
+-- auto_ship_status (the renewal code already writes it) and new
+-- admin_action enum values. The retry policy lives in app_settings
+-- under 'dunning_policy'; without a row the built-in defaults apply.
+
+-- 1. Auto-ships that failed a charge sit in past_due while dunning retries.
+ALTER TYPE "auto_ship_status" ADD VALUE IF NOT EXISTS 'past_due';
+
+-- 2. Case lifecycle status.
+DO $$ BEGIN
+  CREATE TYPE "dunning_case_status" AS ENUM ('open', 'recovered', 'paused', 'closed');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- 3. One case per failed recurring charge.
+CREATE TABLE IF NOT EXISTS "dunning_cases" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" varchar NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "kind" varchar(16) NOT NULL,
+  "subject_id" varchar NOT NULL,
+  "status" "dunning_case_status" NOT NULL DEFAULT 'open',
+  "amount_cents" integer,
+  "decline_category" varchar(8) NOT NULL,
+  "last_response_code" varchar(8),
+  "last_response_text" text,
+  "attempt_count" integer NOT NULL DEFAULT 0,
+  "reminders_sent" integer NOT NULL DEFAULT 0,
+  "last_reminder_stage" varchar(24),
+  "first_failed_at" timestamp NOT NULL,
+  "next_retry_at" timestamp,
+  "grace_ends_at" timestamp NOT NULL,
+  "resolved_at" timestamp,
+  "recovered_transaction_id" text,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "dunning_cases_status_retry_idx" ON "dunning_cases" ("status", "next_retry_at");
+CREATE INDEX IF NOT EXISTS "dunning_cases_subject_idx" ON "dunning_cases" ("kind", "subject_id");
+CREATE INDEX IF NOT EXISTS "dunning_cases_user_id_idx" ON "dunning_cases" ("user_id");
+
+-- 4. Every charge attempt made against a case.
+CREATE TABLE IF NOT EXISTS "dunning_attempts" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "case_id" varchar NOT NULL REFERENCES "dunning_cases"("id") ON DELETE CASCADE,
+  "attempt_number" integer NOT NULL,
+  "trigger" varchar(16) NOT NULL,
+  "outcome" varchar(16) NOT NULL,
+  "decline_category" varchar(8),
+  "amount_cents" integer,
+  "response_code" varchar(8),
+  "response_text" text,
+  "transaction_id" text,
+  "attempted_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "dunning_attempts_case_id_idx" ON "dunning_attempts" ("case_id");
+CREATE INDEX IF NOT EXISTS "dunning_attempts_attempted_at_idx" ON "dunning_attempts" ("attempted_at");
+
+-- 5. Audit actions for the admin dunning console.
+ALTER TYPE "admin_action" ADD VALUE IF NOT EXISTS 'dunning_policy_update';
+ALTER TYPE "admin_action" ADD VALUE IF NOT EXISTS 'dunning_case_retry';
+ALTER TYPE "admin_action" ADD VALUE IF NOT EXISTS 'dunning_case_close';
@@ -0,0 +1,23 @@
+-- Review queue for lab marker names that don't resolve to a canonical
+-- biomarker. Purely additive: one new table plus admin_action values.
+-- Rows with status 'mapped' are loaded as runtime aliases at startup.
+
+CREATE TABLE IF NOT EXISTS "biomarker_name_reviews" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "normalized_name" varchar(200) NOT NULL UNIQUE,
+  "sample_name" text NOT NULL,
+  "sample_unit" varchar(32),
+  "sample_loinc_code" varchar(16),
+  "occurrences" integer NOT NULL DEFAULT 1,
+  "status" varchar(16) NOT NULL DEFAULT 'pending',
+  "mapped_to" text,
+  "resolved_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "resolved_at" timestamp,
+  "first_seen_at" timestamp NOT NULL DEFAULT now(),
+  "last_seen_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "biomarker_name_reviews_status_idx" ON "biomarker_name_reviews" ("status", "last_seen_at");
+
+ALTER TYPE "admin_action" ADD VALUE IF NOT EXISTS 'biomarker_alias_map';
+ALTER TYPE "admin_action" ADD VALUE IF NOT EXISTS 'biomarker_alias_ignore';
@@ -0,0 +1,18 @@
+-- Findings from the daily wearable anomaly detector. Purely additive: one
+-- new table. One row per user, day and pattern, so re-running the detector
+-- for the same day is idempotent.
+
+CREATE TABLE IF NOT EXISTS "wearable_anomalies" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" varchar NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "detected_for" date NOT NULL,
+  "pattern" varchar(32) NOT NULL,
+  "severity" varchar(16) NOT NULL,
+  "signals" json NOT NULL,
+  "summary" text NOT NULL,
+  "notified_at" timestamp,
+  "created_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "wearable_anomalies_user_day_pattern_idx" ON "wearable_anomalies" ("user_id", "detected_for", "pattern");
+CREATE INDEX IF NOT EXISTS "wearable_anomalies_user_detected_idx" ON "wearable_anomalies" ("user_id", "detected_for");
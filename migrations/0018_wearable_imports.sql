@@ -0,0 +1,23 @@
+-- Direct wearable file imports (Apple Health, Garmin FIT, Oura/WHOOP CSV).
+-- Additive: one new table plus a nullable biometric_data.import_id so rows
+-- written by an import can be told apart from Junction-synced rows.
+
+CREATE TABLE IF NOT EXISTS "wearable_imports" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" varchar NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "provider" "wearable_provider",
+  "format" varchar(32),
+  "file_name" text NOT NULL,
+  "status" varchar(16) NOT NULL,
+  "days_imported" integer NOT NULL DEFAULT 0,
+  "days_updated" integer NOT NULL DEFAULT 0,
+  "days_skipped" integer NOT NULL DEFAULT 0,
+  "first_date" date,
+  "last_date" date,
+  "error" text,
+  "created_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "wearable_imports_user_created_idx" ON "wearable_imports" ("user_id", "created_at");
+
+ALTER TABLE "biometric_data" ADD COLUMN IF NOT EXISTS "import_id" varchar REFERENCES "wearable_imports"("id") ON DELETE CASCADE;
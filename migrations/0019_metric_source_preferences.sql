@@ -0,0 +1,4 @@
+-- Per-user preferred wearable source for each dashboard metric, used when
+-- several connected devices report the same metric. Purely additive.
+
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "metric_source_preferences" json;
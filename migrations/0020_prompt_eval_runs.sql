@@ -0,0 +1,19 @@
+-- Consultation prompt eval runs (server/modules/evals). Purely additive: one
+-- new table. results holds the per-persona checks as JSON; runs are grouped
+-- by prompt_version, a hash of the system prompts the run sent.
+
+CREATE TABLE IF NOT EXISTS "prompt_eval_runs" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "prompt_version" varchar(32) NOT NULL,
+  "label" text,
+  "provider" varchar(20) NOT NULL,
+  "model" varchar(100) NOT NULL,
+  "persona_count" integer NOT NULL,
+  "passed_count" integer NOT NULL,
+  "score" real NOT NULL,
+  "results" json NOT NULL,
+  "created_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "prompt_eval_runs_version_idx" ON "prompt_eval_runs" ("prompt_version", "created_at");
+CREATE INDEX IF NOT EXISTS "prompt_eval_runs_created_idx" ON "prompt_eval_runs" ("created_at");
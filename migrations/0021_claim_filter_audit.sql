@@ -0,0 +1,45 @@
+-- Audit log and review queue for the AI output claims filter, plus the
+-- admin-promoted phrase list it loads at startup. Purely additive: two new
+-- tables plus admin_action values.
+
+CREATE TABLE IF NOT EXISTS "claim_filter_phrases" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "phrase" text NOT NULL,
+  "category" varchar(32) NOT NULL,
+  "severity" varchar(16) NOT NULL,
+  "rewrite_template" text,
+  "active" boolean NOT NULL DEFAULT true,
+  "source_violation_id" varchar,
+  "created_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "claim_filter_phrases_phrase_category_idx" ON "claim_filter_phrases" (lower("phrase"), "category");
+
+CREATE TABLE IF NOT EXISTS "claim_filter_violations" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" varchar REFERENCES "users"("id") ON DELETE CASCADE,
+  "session_id" varchar REFERENCES "chat_sessions"("id") ON DELETE CASCADE,
+  "message_id" varchar REFERENCES "messages"("id") ON DELETE SET NULL,
+  "category" varchar(32) NOT NULL,
+  "severity" varchar(16) NOT NULL,
+  "action" varchar(16) NOT NULL,
+  "phrase_id" varchar REFERENCES "claim_filter_phrases"("id") ON DELETE SET NULL,
+  "original_text" text NOT NULL,
+  "rewritten_text" text,
+  "context" text,
+  "status" varchar(16) NOT NULL DEFAULT 'open',
+  "review_note" text,
+  "reviewed_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "reviewed_at" timestamp,
+  "created_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "claim_filter_violations_status_idx" ON "claim_filter_violations" ("status", "created_at");
+CREATE INDEX IF NOT EXISTS "claim_filter_violations_category_idx" ON "claim_filter_violations" ("category", "created_at");
+CREATE INDEX IF NOT EXISTS "claim_filter_violations_session_idx" ON "claim_filter_violations" ("session_id");
+
+ALTER TYPE "admin_action" ADD VALUE IF NOT EXISTS 'claims_violation_review';
+ALTER TYPE "admin_action" ADD VALUE IF NOT EXISTS 'claims_phrase_promote';
+ALTER TYPE "admin_action" ADD VALUE IF NOT EXISTS 'claims_phrase_update';
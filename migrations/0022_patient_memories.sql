@@ -0,0 +1,18 @@
+-- Long-term patient memory across consultation sessions. Purely additive:
+-- one new table. content and source_quote are encrypted by the application.
+
+CREATE TABLE IF NOT EXISTS "patient_memories" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" varchar NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "kind" varchar(16) NOT NULL,
+  "content" text NOT NULL,
+  "ingredient" text,
+  "origin" varchar(16) NOT NULL DEFAULT 'extracted',
+  "source_session_id" varchar REFERENCES "chat_sessions"("id") ON DELETE SET NULL,
+  "source_message_id" varchar REFERENCES "messages"("id") ON DELETE SET NULL,
+  "source_quote" text,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "patient_memories_user_idx" ON "patient_memories" ("user_id", "updated_at");
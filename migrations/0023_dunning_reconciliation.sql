@@ -0,0 +1,5 @@
+-- Renewal charges that errored at the gateway may have gone through. Their
+-- dunning case is held for an admin to check against the gateway: no
+-- automatic retries, reminders or grace-period pause. Purely additive.
+
+ALTER TABLE "dunning_cases" ADD COLUMN IF NOT EXISTS "awaiting_reconciliation" boolean NOT NULL DEFAULT false;
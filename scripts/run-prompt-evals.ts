@@ -0,0 +1,72 @@
+/**
+ * Run the consultation prompt evals and compare with the previous prompt.
+ *
+ *   npm run eval:prompts -- [--label my-branch] [--provider openai|anthropic]
+ *                           [--model gpt-4o] [--persona warfarin-afib ...]
+ *                           [--baseline <runId>]
+ *
+ * Stores the run in prompt_eval_runs, prints each persona's result and the
+ * comparison with --baseline (default: the latest earlier run of a
+ * different prompt version). Exits 1 when a persona fails or regresses.
+ * Set LLM_OFFLINE=replay to grade against recorded cassettes.
+ */
+
+import '../server/env';
+import { EVAL_PERSONAS } from '../server/modules/evals/eval-personas';
+import { promptEvalService } from '../server/modules/evals/prompt-eval.service';
+import type { LlmProvider } from '../server/infra/ai/llm-gateway';
+
+function parseArgs(argv: string[]) {
+  const args: { label?: string; provider?: LlmProvider; model?: string; baseline?: string; personas: string[] } = { personas: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case '--label': args.label = value; i++; break;
+      case '--provider': args.provider = value === 'anthropic' ? 'anthropic' : 'openai'; i++; break;
+      case '--model': args.model = value; i++; break;
+      case '--baseline': args.baseline = value; i++; break;
+      case '--persona': args.personas.push(value); i++; break;
+      default: throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const personas = args.personas.length > 0
+    ? EVAL_PERSONAS.filter(p => args.personas.includes(p.id))
+    : EVAL_PERSONAS;
+  if (personas.length === 0) throw new Error(`No personas match ${args.personas.join(', ')}`);
+
+  const run = await promptEvalService.run({ personas, provider: args.provider, model: args.model, label: args.label });
+  console.log(`\nPrompt ${run.promptVersion} on ${run.provider}/${run.model}: ${run.passedCount}/${run.personaCount} passed, score ${run.score} (run ${run.id})\n`);
+  for (const result of run.results) {
+    console.log(`${result.passed ? 'PASS' : 'FAIL'}  ${result.personaId.padEnd(24)} ${result.score.toFixed(3)}`);
+    if (result.error) console.log(`      error: ${result.error}`);
+    for (const check of result.checks.filter(c => !c.passed)) {
+      console.log(`      ${check.critical ? '✗' : '·'} ${check.id}${check.detail ? ` — ${check.detail}` : ''}`);
+    }
+  }
+
+  const comparison = await promptEvalService.compare(run.id, args.baseline);
+  if (comparison) {
+    const sign = comparison.scoreDelta >= 0 ? '+' : '';
+    console.log(`\nVs run ${comparison.baselineId}: score ${sign}${comparison.scoreDelta}, passed ${comparison.passedDelta >= 0 ? '+' : ''}${comparison.passedDelta}`);
+    for (const delta of comparison.personas) {
+      if (delta.newlyFailing.length > 0) console.log(`  ${delta.personaId}: now failing ${delta.newlyFailing.join(', ')}`);
+      if (delta.newlyPassing.length > 0) console.log(`  ${delta.personaId}: now passing ${delta.newlyPassing.join(', ')}`);
+    }
+    if (comparison.regressions.length === 0) console.log('  No regressions');
+  } else {
+    console.log('\nNo earlier run of a different prompt version to compare with.');
+  }
+
+  const failed = run.passedCount < run.personaCount || (comparison?.regressions.length ?? 0) > 0;
+  process.exit(failed ? 1 : 0);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,173 @@
+/**
+ * Order lifecycle tests for ManufacturerPricingService against the local
+ * Alive simulator (no network).
+ *
+ * Covers:
+ *   - Quote → external order → cancel inside the window
+ *   - Legacy mix-product ordering when no customer info is available
+ *   - Expired and already-used quote ids are refused
+ *   - "Too late to cancel" (in production / past the window) and "already cancelled"
+ *   - Scripted failures, auth failures and timeouts surface as unavailable quotes / failed orders
+ *   - Quote cache: repeat quotes are served locally, a consumed quote_id is not reused
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createAliveSimulator } from '../modules/formulas/alive-simulator';
+import type { ManufacturerOrderCustomerInfo } from '../modules/formulas/manufacturer-pricing.service';
+
+const HOUR = 60 * 60 * 1000;
+const TIMEOUT_MS = 300;
+
+let now = Date.now();
+const simulator = createAliveSimulator({ apiKey: 'sim-key', now: () => now });
+let server: Server;
+let pricing: typeof import('../modules/formulas/manufacturer-pricing.service')['manufacturerPricingService'];
+
+const customer: ManufacturerOrderCustomerInfo = {
+  customerName: 'Test Customer',
+  email: 'customer@example.com',
+  billingAddress: { line1: '1 Main St', city: 'Austin', state: 'TX', zip: '78701', country: 'US' },
+  shippingAddress: { line1: '1 Main St', city: 'Austin', state: 'TX', zip: '78701', country: 'US' },
+};
+
+let formulaSeq = 0;
+/** Each test quotes a distinct composition so the quote cache doesn't leak between tests. */
+function freshFormula() {
+  formulaSeq++;
+  return {
+    bases: [{ ingredient: 'Heart Support', amount: 450 }],
+    additions: [
+      { ingredient: 'Magnesium', amount: 200 + formulaSeq },
+      { ingredient: 'Omega-3', amount: 1000 },
+      { ingredient: 'Ashwagandha', amount: 300 },
+    ],
+    targetCapsules: 9,
+  };
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(simulator.router);
+  server = await new Promise<Server>((resolve) => {
+    const s = app.listen(0, '127.0.0.1', () => resolve(s));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  // The pricing service reads its endpoints at import time
+  process.env.ALIVE_API_BASE_URL = `http://127.0.0.1:${port}`;
+  process.env.ALIVE_API_KEY = 'sim-key';
+  process.env.ALIVE_API_TIMEOUT_MS = String(TIMEOUT_MS);
+  vi.resetModules();
+  ({ manufacturerPricingService: pricing } = await import('../modules/formulas/manufacturer-pricing.service'));
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  delete process.env.ALIVE_API_BASE_URL;
+  delete process.env.ALIVE_API_KEY;
+  delete process.env.ALIVE_API_TIMEOUT_MS;
+});
+
+beforeEach(() => {
+  now = Date.now();
+  simulator.reset();
+  simulator.configure({ latencyMs: 0, apiKey: 'sim-key', quoteTtlMs: 24 * HOUR, cancelWindowMs: 4 * HOUR });
+});
+
+describe('order lifecycle against the Alive simulator', () => {
+  it('quotes, places an external order and cancels it inside the window', async () => {
+    const quote = await pricing.quoteFormula(freshFormula());
+    expect(quote.available).toBe(true);
+    expect(quote.mappedIngredients).toBe(4);
+    expect(quote.unmappedIngredients).toEqual([]);
+    expect(quote.quoteId).toBeTruthy();
+    // Customer price is the manufacturer total plus margin
+    expect(quote.total).toBeCloseTo(quote.manufacturerCost! * 1.65, 2);
+
+    const order = await pricing.placeManufacturerOrder(quote.quoteId!, customer);
+    expect(order.success).toBe(true);
+    const simOrder = simulator.orders.get(order.orderId!);
+    expect(simOrder).toMatchObject({ kind: 'external', quoteId: quote.quoteId, status: 'received' });
+    expect(simOrder!.customer).toMatchObject({ customer_name: 'Test Customer', email: 'customer@example.com' });
+
+    const cancel = await pricing.cancelManufacturerOrder(order.orderId!);
+    expect(cancel.success).toBe(true);
+    expect(simulator.orders.get(order.orderId!)!.status).toBe('cancelled');
+
+    const again = await pricing.cancelManufacturerOrder(order.orderId!);
+    expect(again).toMatchObject({ success: false, alreadyCancelled: true });
+  });
+
+  it('falls back to mix-product without customer info', async () => {
+    const quote = await pricing.quoteFormula(freshFormula());
+    const order = await pricing.placeManufacturerOrder(quote.quoteId!);
+    expect(order.success).toBe(true);
+    expect(simulator.orders.get(order.orderId!)!.kind).toBe('mix-product');
+  });
+
+  it('refuses expired and already-used quotes', async () => {
+    const quote = await pricing.quoteFormula(freshFormula());
+    const first = await pricing.placeManufacturerOrder(quote.quoteId!, customer);
+    expect(first.success).toBe(true);
+
+    const reused = await pricing.placeManufacturerOrder(quote.quoteId!, customer);
+    expect(reused).toMatchObject({ success: false, error: expect.stringContaining('409') });
+
+    const stale = await pricing.quoteFormula(freshFormula());
+    now += 25 * HOUR;
+    const expired = await pricing.placeManufacturerOrder(stale.quoteId!, customer);
+    expect(expired).toMatchObject({ success: false, error: expect.stringContaining('410') });
+  });
+
+  it('reports too late to cancel once the order is in production or past the window', async () => {
+    const inProduction = await pricing.placeManufacturerOrder((await pricing.quoteFormula(freshFormula())).quoteId!, customer);
+    simulator.setOrderStatus(inProduction.orderId!, 'in_production');
+    expect(await pricing.cancelManufacturerOrder(inProduction.orderId!)).toMatchObject({ success: false, tooLate: true });
+
+    const pastWindow = await pricing.placeManufacturerOrder((await pricing.quoteFormula(freshFormula())).quoteId!, customer);
+    now += 5 * HOUR;
+    expect(await pricing.cancelManufacturerOrder(pastWindow.orderId!)).toMatchObject({ success: false, tooLate: true });
+    expect(simulator.orders.get(pastWindow.orderId!)!.status).toBe('received');
+  });
+
+  it('surfaces scripted failures, bad credentials and timeouts', async () => {
+    simulator.failNext('get-quote', { status: 503 });
+    const formula = freshFormula();
+    const failed = await pricing.quoteFormula(formula);
+    expect(failed).toMatchObject({ available: false, reason: 'Manufacturer quote service unavailable.' });
+
+    // Failures are not cached — the next request reaches the simulator and succeeds
+    expect((await pricing.quoteFormula(formula)).available).toBe(true);
+
+    simulator.failNext('get-quote', { status: 200, body: { status: false } });
+    expect(await pricing.quoteFormula(freshFormula())).toMatchObject({ available: false, reason: 'Manufacturer quote request was rejected.' });
+
+    simulator.configure({ apiKey: 'rotated-key' });
+    expect((await pricing.quoteFormula(freshFormula())).available).toBe(false);
+    simulator.configure({ apiKey: 'sim-key' });
+
+    simulator.configure({ latencyMs: { 'external-order': TIMEOUT_MS * 3 } });
+    const quote = await pricing.quoteFormula(freshFormula());
+    const timedOut = await pricing.placeManufacturerOrder(quote.quoteId!, customer);
+    expect(timedOut).toEqual({ success: false, error: 'Manufacturer order request timed out.' });
+
+    simulator.failNext('cancel', { status: 500, body: { message: 'Internal error' } });
+    expect(await pricing.cancelManufacturerOrder('ord_missing')).toMatchObject({ success: false, tooLate: false });
+  });
+
+  it('serves repeat quotes from cache and drops a quote id once it is ordered', async () => {
+    const formula = freshFormula();
+    const first = await pricing.quoteFormula(formula);
+    const second = await pricing.quoteFormula(formula);
+    expect(second.quoteId).toBe(first.quoteId);
+    expect(simulator.requests.filter((r) => r.endpoint === 'get-quote')).toHaveLength(1);
+
+    await pricing.placeManufacturerOrder(first.quoteId!, customer);
+    const afterOrder = await pricing.quoteFormula(formula);
+    expect(afterOrder.quoteId).not.toBe(first.quoteId);
+    expect(simulator.requests.filter((r) => r.endpoint === 'get-quote')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for LOINC-aware biomarker resolution and the unmapped-name review queue.
+ *
+ * Covers:
+ *   - LOINC codes taking precedence over lab-specific names
+ *   - Per-marker coding (codes + specimen type)
+ *   - Recognised vs unmapped names, and runtime alias overrides
+ *   - Review service: recording sightings, mapping/ignoring names
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { store } = vi.hoisted(() => ({
+  store: {
+    sightings: [] as Array<{ normalizedName: string; sampleName: string }>,
+    rows: new Map<string, any>(),
+  },
+}));
+
+vi.mock('../modules/labs/biomarker-review.repository', () => ({
+  biomarkerReviewRepository: {
+    recordSighting: vi.fn(async (input: any) => { store.sightings.push(input); }),
+    listMapped: vi.fn(async () => [...store.rows.values()].filter(r => r.status === 'mapped')),
+    resolve: vi.fn(async (id: string, updates: any) => {
+      const row = store.rows.get(id);
+      if (!row) return undefined;
+      Object.assign(row, updates);
+      return row;
+    }),
+  },
+}));
+vi.mock('../infra/logging/logger', () => ({
+  default: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import {
+  canonicalKey,
+  canonicalName,
+  canonicalNameForLoinc,
+  getBiomarkerCoding,
+  isRecognizedMarker,
+  setAliasOverrides,
+} from '../modules/labs/biomarker-aliases';
+import { biomarkerReviewService } from '../modules/labs/biomarker-review.service';
+
+beforeEach(() => {
+  store.sightings = [];
+  store.rows.clear();
+  setAliasOverrides([]);
+});
+
+describe('LOINC-aware resolution', () => {
+  it('prefers a known LOINC code over the printed name', () => {
+    expect(canonicalKey('GLU SerPl-mCnc', '2345-7')).toBe('glucose');
+    expect(canonicalName('Chol, LDL calc', '13457-7')).toBe('LDL Cholesterol');
+  });
+
+  it('falls back to name matching for unknown or missing codes', () => {
+    expect(canonicalKey('WBC', '99999-9')).toBe('white blood cell count');
+    expect(canonicalKey('WBC')).toBe('white blood cell count');
+    expect(canonicalNameForLoinc(undefined)).toBeNull();
+  });
+
+  it('exposes codes and specimen type per canonical marker', () => {
+    expect(getBiomarkerCoding('HbA1c')).toEqual({ loinc: ['4548-4', '17856-6', '59261-8'], specimen: 'whole_blood' });
+    expect(getBiomarkerCoding('Not A Marker')).toBeNull();
+  });
+});
+
+describe('isRecognizedMarker', () => {
+  it('recognises aliases, canonical names and known codes', () => {
+    expect(isRecognizedMarker('hgb')).toBe(true);
+    expect(isRecognizedMarker('Vitamin D')).toBe(true);
+    expect(isRecognizedMarker('Mystery Analyte', '1989-3')).toBe(true);
+    expect(isRecognizedMarker('Glukose (nüchtern)')).toBe(false);
+  });
+
+  it('honours runtime alias overrides', () => {
+    setAliasOverrides([['Glukose nüchtern', 'Fasting Glucose']]);
+    expect(canonicalKey('glukose nüchtern')).toBe('fasting glucose');
+    expect(isRecognizedMarker('Glukose nüchtern')).toBe(true);
+  });
+});
+
+describe('biomarkerReviewService', () => {
+  it('records each unmapped name once per extraction', async () => {
+    const count = await biomarkerReviewService.recordUnmappedMarkers([
+      { testName: 'Glucose', value: '92' } as any,
+      { testName: 'Widget Index', unit: 'U' },
+      { testName: 'widget  index' },
+      { testName: 'Local Code', loincCode: '2160-0' },
+    ]);
+    expect(count).toBe(1);
+    expect(store.sightings).toEqual([
+      expect.objectContaining({ normalizedName: 'widget index', sampleName: 'Widget Index', sampleUnit: 'U' }),
+    ]);
+  });
+
+  it('mapping a name loads it as an alias; ignoring removes it', async () => {
+    store.rows.set('r1', { id: 'r1', normalizedName: 'widget index', sampleName: 'Widget Index', status: 'pending', mappedTo: null });
+
+    await biomarkerReviewService.mapName('r1', 'Ferritin', 'admin-1');
+    expect(canonicalName('Widget Index')).toBe('Ferritin');
+
+    await biomarkerReviewService.ignoreName('r1', 'admin-1');
+    expect(canonicalName('Widget Index')).toBe('Widget Index');
+  });
+
+  it('rejects mappings onto unknown canonical markers', async () => {
+    store.rows.set('r1', { id: 'r1', normalizedName: 'x', sampleName: 'X', status: 'pending', mappedTo: null });
+    await expect(biomarkerReviewService.mapName('r1', 'Unobtainium', null)).rejects.toThrow(/Unknown canonical marker/);
+  });
+});
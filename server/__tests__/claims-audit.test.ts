@@ -0,0 +1,165 @@
+/**
+ * Tests for the claims filter audit log and promoted phrases.
+ *
+ * Covers:
+ *   - Promoted phrases: literal whole-word matching, critical rewrites, phraseId on violations
+ *   - Violation rows: the action the filter took, encrypted matched text and excerpt
+ *   - Trend aggregation: filled day series, per-category false positive rates
+ *   - Promoting a phrase: duplicate rejection, confirming the source violation, reloading the filter
+ */
+
+import crypto from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+
+const { repo } = vi.hoisted(() => ({
+  repo: {
+    insertViolations: vi.fn(),
+    getViolation: vi.fn(),
+    review: vi.fn(),
+    listPhrases: vi.fn(),
+    findPhrase: vi.fn(),
+    insertPhrase: vi.fn(),
+    updatePhrase: vi.fn(),
+  },
+}));
+
+vi.mock('../modules/ai/claims-audit.repository', () => ({ claimsAuditRepository: repo }));
+vi.mock('../infra/logging/logger', () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  return { default: logger, logger };
+});
+
+import { compilePromotedPhrase, filterAIOutputClaims, setPromotedClaimPhrases } from '../modules/ai/claims-filter';
+import { buildClaimTrends, claimsAuditService, toViolationRows } from '../modules/ai/claims-audit.service';
+import { decryptField } from '../infra/security/fieldEncryption';
+
+beforeAll(() => {
+  process.env.FIELD_ENCRYPTION_KEY = crypto.randomBytes(32).toString('base64');
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+afterEach(() => {
+  setPromotedClaimPhrases([]);
+});
+
+describe('promoted phrases', () => {
+  it('matches literal text on whole words, case-insensitively', () => {
+    const pattern = compilePromotedPhrase('reverses  insulin resistance');
+    expect('It REVERSES insulin\nresistance quickly').toMatch(pattern);
+    expect('it reverses insulin resistanced').not.toMatch(new RegExp(pattern.source, 'i'));
+    expect(compilePromotedPhrase('(cures) 100%?').test('this (cures) 100%? of cases')).toBe(true);
+  });
+
+  it('runs after the built-in rules and tags violations with the phrase', () => {
+    const text = 'This blend reverses insulin resistance for most people.';
+    expect(filterAIOutputClaims(text).hasViolations).toBe(false);
+
+    setPromotedClaimPhrases([
+      { id: 'p1', phrase: 'reverses insulin resistance', category: 'disease_claim', severity: 'critical', rewriteTemplate: 'may help support healthy blood sugar' },
+    ]);
+    const result = filterAIOutputClaims(text);
+    expect(result.violations).toEqual([
+      expect.objectContaining({ category: 'disease_claim', severity: 'critical', phraseId: 'p1', matchedPhrase: 'reverses insulin resistance' }),
+    ]);
+    expect(result.filteredText).toContain('This blend may help support healthy blood sugar for most people.');
+  });
+});
+
+describe('toViolationRows', () => {
+  it('records the action taken and encrypts text from the reply', () => {
+    const text = 'You should stop taking your statin. This supplement will cure your arthritis.';
+    const result = filterAIOutputClaims(text);
+    const rows = toViolationRows({ userId: 'u1', sessionId: 's1', messageId: 'm1', result });
+
+    const directive = rows.find(r => r.category === 'medication_directive')!;
+    expect(directive).toMatchObject({ userId: 'u1', sessionId: 's1', messageId: 'm1', severity: 'critical', action: 'rewritten', phraseId: null });
+    expect(directive.rewrittenText).toMatch(/consult your prescribing physician/);
+    expect(directive.originalText).not.toContain('statin');
+    expect(decryptField(directive.originalText)).toBe('stop taking your statin');
+    expect(decryptField(directive.context!)).toBe(text);
+
+    const claim = rows.find(r => r.category === 'disease_claim')!;
+    expect(claim).toMatchObject({ severity: 'warning', action: 'flagged', rewrittenText: null });
+  });
+
+  it('records a warning-level medication directive as rewritten, since the filter replaces it', () => {
+    setPromotedClaimPhrases([
+      { id: 'p2', phrase: 'skip your metformin', category: 'medication_directive', severity: 'warning', rewriteTemplate: 'talk to your doctor about your metformin' },
+    ]);
+    const result = filterAIOutputClaims('You could skip your metformin on rest days.');
+    expect(result.filteredText).toContain('You could talk to your doctor about your metformin on rest days.');
+
+    const [row] = toViolationRows({ userId: 'u1', sessionId: 's1', messageId: null, result });
+    expect(row).toMatchObject({ severity: 'warning', action: 'rewritten', phraseId: 'p2', rewrittenText: 'talk to your doctor about your metformin' });
+  });
+});
+
+describe('buildClaimTrends', () => {
+  const now = new Date('2026-03-10T15:00:00Z');
+
+  it('fills every day in the window and totals categories', () => {
+    const trends = buildClaimTrends([
+      { date: '2026-03-08', category: 'diagnosis', total: 4, falsePositives: 3 },
+      { date: '2026-03-10', category: 'diagnosis', total: 2, falsePositives: 0 },
+      { date: '2026-03-10', category: 'medication_directive', total: 1, falsePositives: 0 },
+      { date: '2026-02-01', category: 'guarantee', total: 9, falsePositives: 0 },
+    ], 3, now);
+
+    expect(trends.days.map(d => d.date)).toEqual(['2026-03-08', '2026-03-09', '2026-03-10']);
+    expect(trends.days[1]).toEqual({ date: '2026-03-09', total: 0, falsePositives: 0, byCategory: {} });
+    expect(trends.days[2]).toMatchObject({ total: 3, byCategory: { diagnosis: 2, medication_directive: 1 } });
+    expect(trends.categories).toEqual([
+      { category: 'diagnosis', total: 6, falsePositives: 3, falsePositiveRate: 0.5 },
+      { category: 'medication_directive', total: 1, falsePositives: 0, falsePositiveRate: 0 },
+    ]);
+  });
+});
+
+describe('ClaimsAuditService', () => {
+  const phraseRow = {
+    id: 'p1',
+    phrase: 'melts away fat',
+    category: 'disease_claim',
+    severity: 'warning' as const,
+    rewriteTemplate: null,
+    active: true,
+    sourceViolationId: 'v1',
+    createdBy: 'admin',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  it('never throws when the audit insert fails', async () => {
+    repo.insertViolations.mockRejectedValue(new Error('db down'));
+    const result = filterAIOutputClaims('Please stop taking your medication.');
+    await expect(claimsAuditService.recordViolations({ userId: 'u1', sessionId: 's1', messageId: null, result })).resolves.toBe(0);
+  });
+
+  it('promotes a phrase, confirms its open source violation and reloads the filter', async () => {
+    repo.findPhrase.mockResolvedValue(undefined);
+    repo.insertPhrase.mockResolvedValue(phraseRow);
+    repo.getViolation.mockResolvedValue({ id: 'v1', status: 'open' });
+    repo.listPhrases.mockResolvedValue([phraseRow]);
+
+    const created = await claimsAuditService.promotePhrase(
+      { phrase: '  melts   away fat ', category: 'disease_claim', severity: 'warning', sourceViolationId: 'v1' },
+      'admin',
+    );
+
+    expect(created).toBe(phraseRow);
+    expect(repo.insertPhrase).toHaveBeenCalledWith(expect.objectContaining({ phrase: 'melts away fat', createdBy: 'admin', rewriteTemplate: null }));
+    expect(repo.review).toHaveBeenCalledWith('v1', expect.objectContaining({ status: 'confirmed', reviewedBy: 'admin' }));
+    expect(repo.listPhrases).toHaveBeenCalledWith(true);
+    expect(filterAIOutputClaims('This tea melts away fat.').violations[0]).toMatchObject({ phraseId: 'p1' });
+  });
+
+  it('rejects a phrase already in the list for that category', async () => {
+    repo.findPhrase.mockResolvedValue(phraseRow);
+    const result = await claimsAuditService.promotePhrase({ phrase: 'Melts away fat', category: 'disease_claim', severity: 'warning' }, 'admin');
+    expect(result).toEqual({ error: expect.stringMatching(/already/) });
+    expect(repo.insertPhrase).not.toHaveBeenCalled();
+  });
+});
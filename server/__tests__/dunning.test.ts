@@ -0,0 +1,338 @@
+/**
+ * Tests for smart dunning of failed auto-ship and membership charges.
+ *
+ * Covers:
+ *   - Decline classification (hard vs soft) and the retry schedule
+ *   - Stored policy resolution and validation
+ *   - Failures open / extend a case, log attempts and escalate reminders (email → SMS)
+ *   - Hard declines get no automatic retries
+ *   - Recovery closes the case
+ *   - Retries that end without a decline move to the next slot; gateway errors open or hold a case for reconciliation
+ *   - Daily cycle: due retries, stale cases closed, final notice, grace-period pause
+ *   - Recovery stats
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  DEFAULT_DUNNING_POLICY,
+  classifyDecline,
+  computeNextRetryAt,
+  dunningPolicySchema,
+  resolveDunningPolicy,
+} from '../modules/billing/dunning-policy';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const store = vi.hoisted(() => ({
+  cases: new Map<string, any>(),
+  attempts: [] as any[],
+  autoShips: new Map<string, any>(),
+  subscriptions: new Map<string, any>(),
+  policy: undefined as Record<string, unknown> | undefined,
+  emails: [] as any[],
+  sms: [] as any[],
+  smsOptIn: false,
+  seq: 0,
+}));
+
+vi.mock('../modules/billing/dunning.repository', () => ({
+  dunningRepository: {
+    getCase: vi.fn(async (id: string) => store.cases.get(id)),
+    getOpenCase: vi.fn(async (kind: string, subjectId: string) =>
+      [...store.cases.values()].find((c) => c.kind === kind && c.subjectId === subjectId && c.status === 'open')),
+    createCase: vi.fn(async (data: any) => {
+      const row = { id: `case-${++store.seq}`, status: 'open', attemptCount: 0, remindersSent: 0, lastReminderStage: null, nextRetryAt: null, ...data };
+      store.cases.set(row.id, row);
+      return { ...row };
+    }),
+    updateCase: vi.fn(async (id: string, patch: any) => ({ ...Object.assign(store.cases.get(id), patch) })),
+    createAttempt: vi.fn(async (data: any) => { store.attempts.push(data); return data; }),
+    listAttempts: vi.fn(async (caseId: string) => store.attempts.filter((a) => a.caseId === caseId)),
+    listDueRetries: vi.fn(async (now: Date) =>
+      [...store.cases.values()].filter((c) => c.status === 'open' && c.nextRetryAt && c.nextRetryAt <= now).map((c) => ({ ...c }))),
+    listOpenCases: vi.fn(async () => [...store.cases.values()].filter((c) => c.status === 'open').map((c) => ({ ...c }))),
+    listOpenCasesByUser: vi.fn(async (userId: string) =>
+      [...store.cases.values()].filter((c) => c.userId === userId && c.status === 'open').map((c) => ({ ...c }))),
+    countCasesByStatus: vi.fn(async () => {
+      const groups = new Map<string, any>();
+      for (const c of store.cases.values()) {
+        const key = `${c.kind}:${c.status}`;
+        const g = groups.get(key) ?? { kind: c.kind, status: c.status, cases: 0, amountCents: '0' };
+        g.cases++;
+        g.amountCents = String(Number(g.amountCents) + (c.amountCents ?? 0));
+        groups.set(key, g);
+      }
+      return [...groups.values()];
+    }),
+    countAttemptsByTrigger: vi.fn(async () => {
+      const groups = new Map<string, any>();
+      for (const a of store.attempts) {
+        const key = `${a.trigger}:${a.outcome}`;
+        const g = groups.get(key) ?? { trigger: a.trigger, outcome: a.outcome, attempts: 0 };
+        g.attempts++;
+        groups.set(key, g);
+      }
+      return [...groups.values()];
+    }),
+  },
+}));
+
+vi.mock('../modules/billing/autoship.repository', () => ({
+  autoShipRepository: {
+    getById: vi.fn(async (id: string) => store.autoShips.get(id)),
+    update: vi.fn(async (id: string, patch: any) => Object.assign(store.autoShips.get(id), patch)),
+  },
+}));
+
+vi.mock('../modules/users/users.repository', () => ({
+  usersRepository: {
+    getUser: vi.fn(async (id: string) => ({ id, email: `${id}@example.com`, name: 'Test Customer', phone: '+15125550100' })),
+    getSubscription: vi.fn(async (userId: string) => store.subscriptions.get(userId)),
+    updateSubscription: vi.fn(async (userId: string, patch: any) => Object.assign(store.subscriptions.get(userId), patch)),
+  },
+}));
+
+vi.mock('../modules/system/system.repository', () => ({
+  systemRepository: {
+    getAppSetting: vi.fn(async () => (store.policy ? { key: 'dunning_policy', value: store.policy } : undefined)),
+    upsertAppSetting: vi.fn(async (key: string, value: any) => { store.policy = value; return { key, value }; }),
+  },
+}));
+
+vi.mock('../modules/notifications/notifications.service', () => ({
+  notificationsService: {
+    shouldSendEmail: vi.fn(async () => true),
+    shouldSendSms: vi.fn(async () => store.smsOptIn),
+    create: vi.fn(async () => ({})),
+  },
+}));
+
+vi.mock('../utils/emailService', () => ({
+  sendNotificationEmail: vi.fn(async (email: any) => { store.emails.push(email); return true; }),
+}));
+
+vi.mock('../utils/smsService', () => ({
+  sendNotificationSms: vi.fn(async (sms: any) => { store.sms.push(sms); return true; }),
+}));
+
+vi.mock('../utils/urlHelper', () => ({ getFrontendUrl: () => 'https://ones.test' }));
+
+vi.mock('../modules/billing/autoship.service', () => ({
+  autoShipService: { processAutoShipRenewal: vi.fn(async () => {}) },
+}));
+
+vi.mock('../modules/billing/billing.service', () => ({
+  billingService: { processMembershipRenewal: vi.fn(async () => ({ success: false })) },
+}));
+
+import { dunningService } from '../modules/billing/dunning.service';
+import { autoShipService } from '../modules/billing/autoship.service';
+import { dunningRepository } from '../modules/billing/dunning.repository';
+
+const T0 = new Date('2026-03-02T11:00:00Z');
+
+function failAutoShip(overrides: Record<string, unknown> = {}) {
+  return dunningService.recordFailedCharge({
+    kind: 'autoship',
+    userId: 'user-1',
+    subjectId: 'as-1',
+    amountCents: 10850,
+    responseCode: '202',
+    responseText: 'Insufficient funds',
+    trigger: 'renewal',
+    ...overrides,
+  });
+}
+
+describe('dunning policy', () => {
+  it('treats card-level issuer declines as hard and everything else as soft', () => {
+    expect(classifyDecline('223', 'Expired card')).toBe('hard');
+    expect(classifyDecline('251', 'Lost card')).toBe('hard');
+    expect(classifyDecline('200', 'Closed account')).toBe('hard');
+    expect(classifyDecline('202', 'Insufficient funds')).toBe('soft');
+    expect(classifyDecline('400', 'Transaction error returned by processor')).toBe('soft');
+    expect(classifyDecline(undefined, undefined)).toBe('soft');
+  });
+
+  it('schedules soft retries on the configured days and stops when exhausted or hard', () => {
+    expect(computeNextRetryAt(DEFAULT_DUNNING_POLICY, T0, 1, 'soft')).toEqual(new Date(T0.getTime() + 1 * DAY));
+    expect(computeNextRetryAt(DEFAULT_DUNNING_POLICY, T0, 4, 'soft')).toEqual(new Date(T0.getTime() + 7 * DAY));
+    expect(computeNextRetryAt(DEFAULT_DUNNING_POLICY, T0, 5, 'soft')).toBeNull();
+    expect(computeNextRetryAt(DEFAULT_DUNNING_POLICY, T0, 1, 'hard')).toBeNull();
+    // A slot past the grace period is never used
+    expect(computeNextRetryAt({ ...DEFAULT_DUNNING_POLICY, graceDays: 4 }, T0, 3, 'soft')).toBeNull();
+  });
+
+  it('merges stored settings over the defaults and rejects invalid schedules', () => {
+    expect(resolveDunningPolicy({ graceDays: 14 })).toEqual({ ...DEFAULT_DUNNING_POLICY, graceDays: 14 });
+    expect(resolveDunningPolicy({ retryScheduleDays: [3, 1] })).toEqual(DEFAULT_DUNNING_POLICY);
+    expect(resolveDunningPolicy(null)).toEqual(DEFAULT_DUNNING_POLICY);
+    expect(dunningPolicySchema.safeParse({ ...DEFAULT_DUNNING_POLICY, retryScheduleDays: [1, 12], graceDays: 10 }).success).toBe(false);
+  });
+});
+
+describe('dunning service', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(T0);
+    store.cases.clear();
+    store.attempts.length = 0;
+    store.autoShips.clear();
+    store.subscriptions.clear();
+    store.emails.length = 0;
+    store.sms.length = 0;
+    store.policy = undefined;
+    store.smsOptIn = false;
+    store.autoShips.set('as-1', { id: 'as-1', userId: 'user-1', status: 'past_due' });
+    vi.mocked(autoShipService.processAutoShipRenewal).mockClear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens a case on the first soft decline, schedules a retry and sends the first notice by email only', async () => {
+    store.smsOptIn = true;
+    const dunningCase = await failAutoShip();
+
+    expect(dunningCase).toMatchObject({
+      status: 'open',
+      attemptCount: 1,
+      declineCategory: 'soft',
+      nextRetryAt: new Date(T0.getTime() + DAY),
+      graceEndsAt: new Date(T0.getTime() + 10 * DAY),
+      remindersSent: 1,
+      lastReminderStage: 'first_notice',
+    });
+    expect(store.attempts).toEqual([expect.objectContaining({ attemptNumber: 1, trigger: 'renewal', outcome: 'declined', responseCode: '202' })]);
+    expect(store.emails[0]).toMatchObject({ actionUrl: 'https://ones.test/dashboard/orders?tab=billing&update_card=1' });
+    expect(store.sms).toHaveLength(0);
+  });
+
+  it('extends the open case on a failed retry and escalates to SMS for opted-in users', async () => {
+    await failAutoShip();
+    store.smsOptIn = true;
+    vi.setSystemTime(new Date(T0.getTime() + DAY));
+    const dunningCase = await failAutoShip({ trigger: 'scheduled_retry' });
+
+    expect(store.cases.size).toBe(1);
+    expect(dunningCase).toMatchObject({
+      attemptCount: 2,
+      nextRetryAt: new Date(T0.getTime() + 3 * DAY),
+      lastReminderStage: 'retry_failed',
+      remindersSent: 2,
+    });
+    expect(store.sms[0].message).toContain('https://ones.test/dashboard/orders?tab=billing&update_card=1');
+  });
+
+  it('does not schedule retries for hard declines', async () => {
+    const dunningCase = await failAutoShip({ responseCode: '223', responseText: 'Expired card' });
+    expect(dunningCase).toMatchObject({ declineCategory: 'hard', nextRetryAt: null, lastReminderStage: 'first_notice' });
+    expect(store.emails[0].content).toContain("can't be charged again");
+  });
+
+  it('marks the case recovered on an approved charge and ignores subjects without a case', async () => {
+    expect(await dunningService.recordRecovery({ kind: 'autoship', subjectId: 'as-1', amountCents: 10850, trigger: 'renewal' })).toBeNull();
+
+    await failAutoShip();
+    const recovered = await dunningService.recordRecovery({
+      kind: 'autoship', subjectId: 'as-1', amountCents: 10850, transactionId: 'txn-9', trigger: 'card_update',
+    });
+    expect(recovered).toMatchObject({ status: 'recovered', attemptCount: 2, recoveredTransactionId: 'txn-9', lastReminderStage: 'recovered' });
+    expect(store.attempts.at(-1)).toMatchObject({ outcome: 'approved', trigger: 'card_update' });
+  });
+
+  it('moves a retry that stopped before charging to the next slot, and holds retries after a gateway error', async () => {
+    await failAutoShip();
+    store.emails.length = 0;
+
+    const skipped = await dunningService.recordInconclusiveAttempt({
+      kind: 'autoship', userId: 'user-1', subjectId: 'as-1', reason: 'Manufacturer quote unavailable', trigger: 'scheduled_retry',
+    });
+    expect(skipped).toMatchObject({ attemptCount: 2, nextRetryAt: new Date(T0.getTime() + 3 * DAY), lastReminderStage: 'first_notice' });
+    expect(store.attempts.at(-1)).toMatchObject({ outcome: 'error', responseText: 'Manufacturer quote unavailable', trigger: 'scheduled_retry' });
+
+    const held = await dunningService.recordInconclusiveAttempt({
+      kind: 'autoship', userId: 'user-1', subjectId: 'as-1', reason: 'Gateway error', chargeMayHaveSucceeded: true, trigger: 'scheduled_retry',
+    });
+    expect(held).toMatchObject({ status: 'open', attemptCount: 3, nextRetryAt: null, awaitingReconciliation: true });
+    expect(store.emails).toHaveLength(0);
+
+    expect(await dunningService.recordInconclusiveAttempt({
+      kind: 'membership', userId: 'user-9', subjectId: 'sub-none', reason: 'No payment method on file', trigger: 'scheduled_retry',
+    })).toBeNull();
+  });
+
+  it('opens a held case for a gateway error on a regular renewal and leaves it to an admin', async () => {
+    store.subscriptions.set('user-4', { id: 'sub-4', userId: 'user-4', status: 'past_due' });
+    const held = await dunningService.recordInconclusiveAttempt({
+      kind: 'membership', userId: 'user-4', subjectId: 'sub-4', amountCents: 900,
+      reason: 'Gateway error', chargeMayHaveSucceeded: true, trigger: 'renewal',
+    });
+    expect(held).toMatchObject({ status: 'open', attemptCount: 1, nextRetryAt: null, awaitingReconciliation: true, lastResponseText: 'Gateway error' });
+    expect(store.attempts.at(-1)).toMatchObject({ outcome: 'error', trigger: 'renewal', amountCents: 900 });
+
+    const summary = await dunningService.runDunningCycle(new Date(T0.getTime() + 30 * DAY));
+    expect(summary).toMatchObject({ retried: 0, finalNotices: 0, paused: 0 });
+    expect(await dunningService.retryOpenCasesForUser('user-4')).toEqual([]);
+    expect(await dunningService.getOpenIssuesForUser('user-4')).toEqual([]);
+    expect(store.subscriptions.get('user-4').status).toBe('past_due');
+    expect(store.emails).toHaveLength(0);
+  });
+
+  it('retries due cases and closes cases whose subject is no longer past due', async () => {
+    await failAutoShip();
+    store.autoShips.set('as-2', { id: 'as-2', userId: 'user-2', status: 'cancelled' });
+    await failAutoShip({ userId: 'user-2', subjectId: 'as-2' });
+
+    const summary = await dunningService.runDunningCycle(new Date(T0.getTime() + DAY));
+
+    expect(autoShipService.processAutoShipRenewal).toHaveBeenCalledTimes(1);
+    expect(autoShipService.processAutoShipRenewal).toHaveBeenCalledWith('as-1', { trigger: 'scheduled_retry' });
+    expect(summary).toMatchObject({ retried: 2, closed: 1, stillFailing: 1 });
+    expect([...store.cases.values()].find((c) => c.subjectId === 'as-2').status).toBe('closed');
+  });
+
+  it('sends one final notice before the grace deadline and pauses the auto-ship once it passes', async () => {
+    await failAutoShip({ responseCode: '223', responseText: 'Expired card' });
+
+    const early = await dunningService.runDunningCycle(new Date(T0.getTime() + 5 * DAY));
+    expect(early.finalNotices).toBe(0);
+
+    const late = await dunningService.runDunningCycle(new Date(T0.getTime() + 8 * DAY + 1));
+    expect(late.finalNotices).toBe(1);
+    expect(store.emails.at(-1).subject).toContain('Action needed');
+    expect((await dunningService.runDunningCycle(new Date(T0.getTime() + 9 * DAY))).finalNotices).toBe(0);
+
+    const expired = await dunningService.runDunningCycle(new Date(T0.getTime() + 10 * DAY));
+    expect(expired.paused).toBe(1);
+    expect(store.autoShips.get('as-1').status).toBe('paused');
+    expect([...store.cases.values()][0]).toMatchObject({ status: 'paused', lastReminderStage: 'paused' });
+  });
+
+  it('pauses a past-due membership when its grace period ends', async () => {
+    store.subscriptions.set('user-3', { id: 'sub-3', userId: 'user-3', status: 'past_due' });
+    await dunningService.recordFailedCharge({
+      kind: 'membership', userId: 'user-3', subjectId: 'sub-3', amountCents: 900,
+      responseCode: '200', responseText: 'Closed account', trigger: 'renewal',
+    });
+
+    await dunningService.runDunningCycle(new Date(T0.getTime() + 11 * DAY));
+    expect(store.subscriptions.get('user-3').status).toBe('paused');
+  });
+
+  it('reports recovery rates over resolved cases and success by trigger', async () => {
+    await failAutoShip();
+    await dunningService.recordRecovery({ kind: 'autoship', subjectId: 'as-1', amountCents: 10850, trigger: 'card_update' });
+    store.autoShips.set('as-2', { id: 'as-2', userId: 'user-2', status: 'past_due' });
+    await failAutoShip({ userId: 'user-2', subjectId: 'as-2' });
+    await dunningRepository.updateCase([...store.cases.values()][1].id, { status: 'paused' });
+
+    const stats = await dunningService.getRecoveryStats();
+    expect(stats.byKind.find((k) => k.kind === 'autoship')).toMatchObject({
+      total: 2, recovered: 1, paused: 1, recoveredAmountCents: 10850, recoveryRate: 50,
+    });
+    expect(stats.byTrigger.find((t) => t.trigger === 'card_update')).toMatchObject({ attempts: 1, approved: 1, successRate: 100 });
+    expect(stats.byTrigger.find((t) => t.trigger === 'renewal')).toMatchObject({ attempts: 2, approved: 0, successRate: 0 });
+  });
+});
@@ -0,0 +1,457 @@
+/**
+ * Billing integration tests against the local EPD sandbox (no network).
+ *
+ * The real epdGateway client talks HTTP to the sandbox; repositories, the
+ * manufacturer API and email are replaced with in-memory fakes.
+ *
+ * Covers:
+ *   - Checkout: sale + vaulting, scripted decline, partial approval (declined — the app never opts in)
+ *   - Cancel: refund before settlement falls back to void, refund after settlement
+ *   - Membership renewal: expired card → past_due + dunning case, Automatic Card Updater lets the retry through
+ *   - Auto-ship renewal charges the vault; a scripted decline marks it past_due and opens a dunning case
+ *   - Gateway errors never open dunning failures; bookkeeping errors after approval never undo a paid renewal
+ *   - Signed webhooks through the controller: void, chargeback, card updater, bad signature
+ *   - Query API XML parses with parseTransactionStateXml
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { orders } from '@shared/schema';
+import { createEpdSandbox } from '../modules/billing/epd-sandbox';
+
+const store = vi.hoisted(() => ({
+  users: new Map<string, any>(),
+  orders: new Map<string, any>(),
+  refunds: [] as any[],
+  subscriptions: new Map<string, any>(),
+  autoShips: new Map<string, any>(),
+  formulas: new Map<string, any>(),
+  dbUpdates: [] as Array<{ table: unknown; values: any }>,
+  emails: [] as any[],
+  seq: 0,
+}));
+
+vi.mock('../infra/db/db', () => ({
+  db: {
+    update: (table: unknown) => ({
+      set: (values: any) => ({
+        where: async () => { store.dbUpdates.push({ table, values }); },
+      }),
+    }),
+  },
+}));
+
+vi.mock('../modules/users/users.repository', () => ({
+  usersRepository: {
+    getUser: vi.fn(async (id: string) => store.users.get(id)),
+    updateUser: vi.fn(async (id: string, patch: any) => Object.assign(store.users.get(id), patch)),
+    getSubscription: vi.fn(async (userId: string) => store.subscriptions.get(userId)),
+    upsertSubscriptionForUser: vi.fn(async (userId: string, data: any) => {
+      store.subscriptions.set(userId, { ...store.subscriptions.get(userId), ...data });
+    }),
+    createPaymentMethodRef: vi.fn(async () => ({})),
+    createOrder: vi.fn(async (data: any) => {
+      const order = { id: `order-${++store.seq}`, placedAt: new Date(), manufacturerOrderId: null, ...data };
+      store.orders.set(order.id, order);
+      return order;
+    }),
+    getOrder: vi.fn(async (id: string) => store.orders.get(id)),
+    updateOrder: vi.fn(async (id: string, patch: any) => Object.assign(store.orders.get(id), patch)),
+    createRefund: vi.fn(async (data: any) => {
+      const refund = { id: `refund-${++store.seq}`, ...data };
+      store.refunds.push(refund);
+      return refund;
+    }),
+    listAddressesByUser: vi.fn(async () => []),
+    createAddress: vi.fn(async () => ({})),
+  },
+}));
+
+vi.mock('../modules/membership/membership.repository', () => ({ membershipRepository: {} }));
+
+vi.mock('../modules/formulas/formulas.repository', () => ({
+  formulasRepository: {
+    getFormula: vi.fn(async (id: string) => store.formulas.get(id)),
+    getCurrentFormulaByUser: vi.fn(async (userId: string) =>
+      [...store.formulas.values()].find((f) => f.userId === userId)),
+  },
+}));
+
+vi.mock('../modules/consents/consents.repository', () => ({
+  consentsRepository: {
+    getUserConsent: vi.fn(async () => ({ granted: true })),
+    getUserConsents: vi.fn(async () => []),
+  },
+}));
+
+vi.mock('../modules/billing/autoship.repository', () => ({
+  autoShipRepository: {
+    getById: vi.fn(async (id: string) => store.autoShips.get(id)),
+    update: vi.fn(async (id: string, patch: any) => Object.assign(store.autoShips.get(id), patch)),
+  },
+}));
+
+vi.mock('../modules/formulas/manufacturer-pricing.service', () => ({
+  manufacturerPricingService: {
+    quoteFormula: vi.fn(async () => ({
+      available: true,
+      total: 100,
+      shipping: 8.5,
+      manufacturerCost: 60,
+      quoteId: `q-${++store.seq}`,
+      quoteExpiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    })),
+    placeManufacturerOrder: vi.fn(async () => ({ success: true, orderId: `mfr-${++store.seq}` })),
+    cancelManufacturerOrder: vi.fn(async () => ({ success: true })),
+  },
+}));
+
+vi.mock('../modules/discount-codes/discount-codes.service', () => ({ discountCodesService: {} }));
+
+vi.mock('../modules/notifications/notifications.service', () => ({
+  notificationsService: {
+    shouldSendEmail: vi.fn(async () => false),
+    create: vi.fn(async () => ({})),
+  },
+}));
+
+vi.mock('../utils/emailService', () => ({
+  sendNotificationEmail: vi.fn(async (email: any) => { store.emails.push(email); return true; }),
+  sendAdminOrderNotification: vi.fn(async () => {}),
+}));
+
+vi.mock('../modules/billing/dunning.service', () => ({
+  dunningService: {
+    recordFailedCharge: vi.fn(async () => ({})),
+    recordRecovery: vi.fn(async () => null),
+    recordInconclusiveAttempt: vi.fn(async () => null),
+  },
+}));
+
+import { billingService } from '../modules/billing/billing.service';
+import { dunningService } from '../modules/billing/dunning.service';
+import { autoShipService } from '../modules/billing/autoship.service';
+import { epdGateway, parseTransactionStateXml } from '../modules/billing/epd-gateway';
+import { epdWebhooksController } from '../api/controller/epd-webhooks.controller';
+
+const SIGNING_KEY = 'sandbox-signing-key';
+const sandbox = createEpdSandbox({ securityKey: 'sandbox-key', webhookSigningKey: SIGNING_KEY });
+let server: Server;
+let webhookUrl: string;
+
+const address = { firstName: 'Test', lastName: 'Customer', line1: '1 Main St', city: 'Austin', state: 'TX', zip: '78701', country: 'US' };
+
+function seedUser(overrides: Record<string, unknown> = {}) {
+  const user = {
+    id: `user-${++store.seq}-0000`,
+    name: 'Test Customer',
+    email: 'customer@example.com',
+    phone: null,
+    membershipTier: null,
+    membershipCancelledAt: null,
+    membershipPriceCents: null,
+    paymentVaultId: null,
+    initialTransactionId: null,
+    ...overrides,
+  };
+  store.users.set(user.id, user);
+  const formula = {
+    id: `formula-${store.seq}`,
+    userId: user.id,
+    version: 3,
+    name: null,
+    bases: [],
+    additions: [{ ingredient: 'Magnesium', amount: 200 }],
+    targetCapsules: 9,
+    needsReformulation: false,
+    warningsAcknowledgedAt: null,
+    safetyValidation: null,
+  };
+  store.formulas.set(formula.id, formula);
+  return { user, formula };
+}
+
+async function checkout(userId: string, formulaId: string) {
+  return billingService.processCheckout(userId, {
+    formulaId,
+    includeMembership: false,
+    paymentToken: 'tok_sandbox',
+    shippingAddress: address,
+  } as any);
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use('/epd', sandbox.router);
+  app.post('/api/webhooks/epd', express.json({
+    verify: (req, _res, buf) => { (req as any).rawBody = buf.toString('utf-8'); },
+  }), epdWebhooksController.handleEpdWebhook);
+  server = await new Promise<Server>((resolve) => {
+    const s = app.listen(0, '127.0.0.1', () => resolve(s));
+  });
+  const { port } = server.address() as AddressInfo;
+  webhookUrl = `http://127.0.0.1:${port}/api/webhooks/epd`;
+
+  // The gateway reads these per request
+  process.env.EPD_API_BASE_URL = `http://127.0.0.1:${port}/epd`;
+  process.env.EPD_SECURITY_KEY = 'sandbox-key';
+  process.env.EPD_WEBHOOK_SIGNING_KEY = SIGNING_KEY;
+  process.env.ADMIN_ALERT_EMAIL = 'ops@example.com';
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  delete process.env.EPD_API_BASE_URL;
+  delete process.env.EPD_SECURITY_KEY;
+  delete process.env.EPD_WEBHOOK_SIGNING_KEY;
+  delete process.env.ADMIN_ALERT_EMAIL;
+});
+
+beforeEach(() => {
+  sandbox.reset();
+  store.dbUpdates.length = 0;
+  store.emails.length = 0;
+  store.refunds.length = 0;
+});
+
+describe('checkout against the EPD sandbox', () => {
+  it('charges, vaults the card and records the gateway transaction on the order', async () => {
+    const { user, formula } = seedUser();
+    const result = await checkout(user.id, formula.id);
+
+    expect(result.success).toBe(true);
+    const txn = sandbox.transactions.get(result.transactionId!);
+    expect(txn).toMatchObject({ type: 'sale', condition: 'pendingsettlement', amount: 108.5 });
+    expect(store.orders.get(result.orderId!)).toMatchObject({ gatewayTransactionId: txn!.transactionId, amountCents: 10850 });
+    expect(user.paymentVaultId).toBe(txn!.customerVaultId);
+    expect(sandbox.vault.get(user.paymentVaultId!)).toMatchObject({ status: 'active', email: 'customer@example.com' });
+    expect(sandbox.webhooks.map((w) => w.event.event_type)).toEqual(['transaction.sale.success']);
+  });
+
+  it('surfaces scripted declines and refuses partial approvals', async () => {
+    const { user, formula } = seedUser();
+    const ordersBefore = store.orders.size;
+
+    sandbox.scriptNext('sale', 'decline');
+    await expect(checkout(user.id, formula.id)).rejects.toThrow('PAYMENT_DECLINED: DECLINE');
+
+    sandbox.scriptNext('sale', 'partial_approval');
+    await expect(checkout(user.id, formula.id)).rejects.toThrow('PAYMENT_DECLINED: Insufficient funds for full amount');
+
+    expect(store.orders.size).toBe(ordersBefore);
+    expect(user.paymentVaultId).toBeNull();
+    expect([...sandbox.transactions.values()].every((t) => t.condition === 'failed')).toBe(true);
+  });
+});
+
+describe('order cancellation', () => {
+  it('voids an unsettled sale when the refund is refused', async () => {
+    const { user, formula } = seedUser();
+    const { orderId, transactionId } = await checkout(user.id, formula.id);
+
+    const result = await billingService.cancelOrder(user.id, orderId!);
+    expect(result.success).toBe(true);
+    expect(sandbox.transactions.get(transactionId!)!.condition).toBe('canceled');
+    expect(store.refunds).toHaveLength(1);
+    expect(store.refunds[0]).toMatchObject({ status: 'voided', parentTransactionId: transactionId, amountCents: 10850 });
+  });
+
+  it('refunds a settled sale', async () => {
+    const { user, formula } = seedUser();
+    const { orderId, transactionId } = await checkout(user.id, formula.id);
+    sandbox.settle();
+
+    await billingService.cancelOrder(user.id, orderId!);
+    const sale = sandbox.transactions.get(transactionId!)!;
+    expect(sale.refundedAmount).toBe(108.5);
+    expect(store.refunds[0]).toMatchObject({ status: 'approved', parentTransactionId: transactionId });
+    expect(sandbox.transactions.get(store.refunds[0].transactionId)).toMatchObject({ type: 'refund', parentTransactionId: transactionId });
+
+    // The Query API reports the refund as the latest action on the sale
+    const state = parseTransactionStateXml(await epdGateway.queryTransaction(transactionId!));
+    expect(state).toMatchObject({ transactionId, condition: 'complete', lastActionType: 'refund', lastAmount: '108.50', lastSuccess: true });
+  });
+});
+
+describe('recurring vault charges', () => {
+  it('marks a membership past_due on an expired card and renews after the card updater replaces it', async () => {
+    const { user, formula } = seedUser({ membershipTier: 'founding', membershipPriceCents: 900 });
+    await checkout(user.id, formula.id);
+    store.subscriptions.set(user.id, { id: 'sub-1', status: 'active', plan: 'monthly', renewsAt: new Date() });
+
+    sandbox.expireCard(user.paymentVaultId!);
+    expect(await billingService.processMembershipRenewal(user.id)).toEqual({ success: false, error: 'Payment declined: Expired card' });
+    expect(store.subscriptions.get(user.id).status).toBe('past_due');
+    expect(dunningService.recordFailedCharge).toHaveBeenCalledWith(expect.objectContaining({
+      kind: 'membership', subjectId: 'sub-1', amountCents: 900, responseCode: '223', trigger: 'renewal',
+    }));
+
+    // The regular renewal run leaves past_due memberships to dunning
+    expect(await billingService.processMembershipRenewal(user.id)).toEqual({ success: false, error: 'NO_ACTIVE_SUBSCRIPTION' });
+
+    sandbox.cardUpdate(user.paymentVaultId!, 'automaticallyupdated');
+    expect(await billingService.processMembershipRenewal(user.id, { trigger: 'scheduled_retry' })).toEqual({ success: true });
+    expect(store.subscriptions.get(user.id).status).toBe('active');
+    expect(dunningService.recordRecovery).toHaveBeenCalledWith(expect.objectContaining({
+      kind: 'membership', subjectId: 'sub-1', trigger: 'scheduled_retry',
+    }));
+    const renewal = [...sandbox.transactions.values()].pop()!;
+    expect(renewal).toMatchObject({ type: 'sale', amount: 9, customerVaultId: user.paymentVaultId, condition: 'pendingsettlement' });
+  });
+
+  it('charges the vault for an auto-ship renewal and marks it past_due on a decline', async () => {
+    const { user, formula } = seedUser();
+    await checkout(user.id, formula.id);
+    store.autoShips.set('as-1', { id: 'as-1', userId: user.id, status: 'active', formulaId: formula.id });
+
+    await autoShipService.processAutoShipRenewal('as-1');
+    const renewalOrder = [...store.orders.values()].find((o) => o.autoShipSubscriptionId === 'as-1');
+    expect(renewalOrder).toMatchObject({ amountCents: 10850 });
+    expect(sandbox.transactions.get(renewalOrder.gatewayTransactionId)).toMatchObject({ customerVaultId: user.paymentVaultId, amount: 108.5 });
+    expect(sandbox.requests.at(-1)).toMatchObject({ billing_method: 'recurring', initiated_by: 'merchant', stored_credential_indicator: 'used' });
+
+    sandbox.scriptNext('sale', 'insufficient_funds');
+    await autoShipService.processAutoShipRenewal('as-1');
+    expect(store.autoShips.get('as-1').status).toBe('past_due');
+    expect(dunningService.recordFailedCharge).toHaveBeenCalledWith(expect.objectContaining({
+      kind: 'autoship', subjectId: 'as-1', amountCents: 10850, responseCode: '202', trigger: 'renewal',
+    }));
+
+    // A dunning retry charges the past_due auto-ship and puts it back to active
+    await autoShipService.processAutoShipRenewal('as-1', { trigger: 'scheduled_retry' });
+    expect(store.autoShips.get('as-1').status).toBe('active');
+    expect(dunningService.recordRecovery).toHaveBeenLastCalledWith(expect.objectContaining({ kind: 'autoship', subjectId: 'as-1' }));
+  });
+});
+
+describe('renewal failures without a decline', () => {
+  it('keeps a gateway error on a membership retry out of dunning failures', async () => {
+    const { user, formula } = seedUser({ membershipTier: 'founding', membershipPriceCents: 900 });
+    await checkout(user.id, formula.id);
+    store.subscriptions.set(user.id, { id: 'sub-2', status: 'past_due', plan: 'monthly', renewsAt: new Date() });
+    vi.mocked(dunningService.recordFailedCharge).mockClear();
+
+    const charge = vi.spyOn(epdGateway, 'chargeVault').mockRejectedValueOnce(new Error('socket hang up'));
+    expect(await billingService.processMembershipRenewal(user.id, { trigger: 'scheduled_retry' }))
+      .toEqual({ success: false, error: 'PAYMENT_PROCESSING_ERROR' });
+    charge.mockRestore();
+
+    expect(dunningService.recordFailedCharge).not.toHaveBeenCalled();
+    expect(dunningService.recordInconclusiveAttempt).toHaveBeenCalledWith(expect.objectContaining({
+      kind: 'membership', subjectId: 'sub-2', chargeMayHaveSucceeded: true, trigger: 'scheduled_retry',
+    }));
+    expect(store.subscriptions.get(user.id).status).toBe('past_due');
+  });
+
+  it('holds a regular membership renewal after a gateway error and records it for reconciliation', async () => {
+    const { user, formula } = seedUser({ membershipTier: 'founding', membershipPriceCents: 900 });
+    await checkout(user.id, formula.id);
+    store.subscriptions.set(user.id, { id: 'sub-4', status: 'active', plan: 'monthly', renewsAt: new Date() });
+
+    const charge = vi.spyOn(epdGateway, 'chargeVault').mockRejectedValueOnce(new Error('socket hang up'));
+    expect(await billingService.processMembershipRenewal(user.id)).toEqual({ success: false, error: 'PAYMENT_PROCESSING_ERROR' });
+    charge.mockRestore();
+
+    // past_due keeps the next renewal run from charging it again
+    expect(store.subscriptions.get(user.id).status).toBe('past_due');
+    expect(dunningService.recordInconclusiveAttempt).toHaveBeenCalledWith(expect.objectContaining({
+      kind: 'membership', userId: user.id, subjectId: 'sub-4', chargeMayHaveSucceeded: true, trigger: 'renewal',
+    }));
+    expect(await billingService.processMembershipRenewal(user.id)).toEqual({ success: false, error: 'NO_ACTIVE_SUBSCRIPTION' });
+  });
+
+  it('records a gateway error on a regular auto-ship renewal and tells the customer', async () => {
+    const { user, formula } = seedUser();
+    await checkout(user.id, formula.id);
+    store.autoShips.set('as-4', { id: 'as-4', userId: user.id, status: 'active', formulaId: formula.id });
+    const { notificationsService } = await import('../modules/notifications/notifications.service');
+    vi.mocked(notificationsService.create).mockClear();
+
+    const charge = vi.spyOn(epdGateway, 'chargeVault').mockRejectedValueOnce(new Error('socket hang up'));
+    await autoShipService.processAutoShipRenewal('as-4');
+    charge.mockRestore();
+
+    expect(store.autoShips.get('as-4').status).toBe('past_due');
+    expect(dunningService.recordInconclusiveAttempt).toHaveBeenCalledWith(expect.objectContaining({
+      kind: 'autoship', userId: user.id, subjectId: 'as-4', chargeMayHaveSucceeded: true, trigger: 'renewal',
+    }));
+    expect(notificationsService.create).toHaveBeenCalledWith(expect.objectContaining({
+      userId: user.id, title: 'Auto-Ship Issue', content: expect.stringContaining("You won't be charged twice"),
+    }));
+  });
+
+  it('renews a membership whose charge went through even if the dunning bookkeeping fails', async () => {
+    const { user, formula } = seedUser({ membershipTier: 'founding', membershipPriceCents: 900 });
+    await checkout(user.id, formula.id);
+    store.subscriptions.set(user.id, { id: 'sub-3', status: 'past_due', plan: 'monthly', renewsAt: new Date() });
+    vi.mocked(dunningService.recordRecovery).mockRejectedValueOnce(new Error('db down'));
+
+    expect(await billingService.processMembershipRenewal(user.id, { trigger: 'scheduled_retry' })).toEqual({ success: true });
+    expect(store.subscriptions.get(user.id).status).toBe('active');
+  });
+
+  it('creates the auto-ship order before recording the recovery, and survives that failing', async () => {
+    const { user, formula } = seedUser();
+    await checkout(user.id, formula.id);
+    store.autoShips.set('as-2', { id: 'as-2', userId: user.id, status: 'past_due', formulaId: formula.id });
+    vi.mocked(dunningService.recordRecovery).mockRejectedValueOnce(new Error('db down'));
+
+    await autoShipService.processAutoShipRenewal('as-2', { trigger: 'scheduled_retry' });
+    expect([...store.orders.values()].find((o) => o.autoShipSubscriptionId === 'as-2')).toBeDefined();
+    expect(store.autoShips.get('as-2').status).toBe('active');
+  });
+
+  it('uses up the retry slot when an auto-ship retry stops for a missing quote', async () => {
+    const { manufacturerPricingService } = await import('../modules/formulas/manufacturer-pricing.service');
+    const { user, formula } = seedUser();
+    await checkout(user.id, formula.id);
+    store.autoShips.set('as-3', { id: 'as-3', userId: user.id, status: 'past_due', formulaId: formula.id });
+    vi.mocked(manufacturerPricingService.quoteFormula).mockResolvedValueOnce({ available: false } as any);
+
+    await autoShipService.processAutoShipRenewal('as-3', { trigger: 'scheduled_retry' });
+    expect(dunningService.recordInconclusiveAttempt).toHaveBeenCalledWith({
+      kind: 'autoship', userId: user.id, subjectId: 'as-3', reason: 'Manufacturer quote unavailable', trigger: 'scheduled_retry',
+    });
+  });
+});
+
+describe('signed webhooks', () => {
+  it('delivers void, chargeback and card updater events through the controller', async () => {
+    const { user, formula } = seedUser();
+    const { orderId, transactionId } = await checkout(user.id, formula.id);
+    await billingService.cancelOrder(user.id, orderId!);
+    sandbox.fileChargeback(transactionId!, { reasonCode: '13.1', amount: 108.5 });
+    sandbox.cardUpdate(user.paymentVaultId!, 'closedaccount');
+
+    const delivered = await sandbox.deliverWebhooks(webhookUrl);
+    expect(delivered).toEqual([
+      { eventType: 'transaction.sale.success', status: 200 },
+      { eventType: 'transaction.void.success', status: 200 },
+      { eventType: 'chargeback.batch.complete', status: 200 },
+      { eventType: 'acu.summary.closedaccount', status: 200 },
+    ]);
+
+    expect(store.dbUpdates).toContainEqual({ table: orders, values: { status: 'cancelled' } });
+    const subjects = store.emails.map((e) => e.subject);
+    expect(subjects).toContain('[ONES] 🚨 CHARGEBACK ALERT — Action Required');
+    expect(subjects).toContain('[ONES] Card Update — Account Closed');
+    expect(store.emails.find((e) => e.subject.includes('CHARGEBACK')).content).toContain('13.1');
+
+    // A closed account declines the next vault charge
+    const charge = await epdGateway.chargeVault({ customer_vault_id: user.paymentVaultId!, amount: '5.00' });
+    expect(charge).toMatchObject({ response: '2', responsetext: 'Closed account' });
+  });
+
+  it('rejects webhooks signed with the wrong key', async () => {
+    sandbox.configure({ webhookSigningKey: 'not-the-key' });
+    try {
+      sandbox.settle();
+      expect(await sandbox.deliverWebhooks(webhookUrl)).toEqual([{ eventType: 'settlement.batch.complete', status: 401 }]);
+      expect(store.emails).toHaveLength(0);
+    } finally {
+      sandbox.configure({ webhookSigningKey: SIGNING_KEY });
+    }
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for the formula version diff.
+ *
+ * Covers:
+ *   - Added, removed and dose-changed ingredients across bases, additions and customizations
+ *   - totalMg and capsule changes
+ *   - Safety warnings introduced, resolved and re-graded between versions
+ *   - Email rendering escapes ingredient names and is empty without changes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeFormulaDiff, formatFormulaDiffHtml } from '../modules/formulas/formula-diff';
+
+type Version = Parameters<typeof computeFormulaDiff>[0];
+
+const version = (overrides: Partial<Version>): Version => ({
+  id: 'f1',
+  version: 1,
+  name: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  bases: [],
+  additions: [],
+  userCustomizations: {},
+  totalMg: 0,
+  targetCapsules: 9,
+  safetyValidation: null,
+  ...overrides,
+});
+
+describe('computeFormulaDiff', () => {
+  it('reports ingredient additions, removals and dose changes', () => {
+    const from = version({
+      bases: [{ ingredient: 'Heart Support', amount: 450, unit: 'mg' }],
+      additions: [{ ingredient: 'Magnesium', amount: 200, unit: 'mg' }, { ingredient: 'Ashwagandha', amount: 300, unit: 'mg' }],
+      totalMg: 950,
+    });
+    const to = version({
+      id: 'f2',
+      version: 2,
+      bases: [{ ingredient: 'Heart Support', amount: 450, unit: 'mg' }],
+      additions: [{ ingredient: 'magnesium', amount: 300, unit: 'mg' }],
+      userCustomizations: { addedIndividuals: [{ ingredient: 'Omega 3', amount: 1000, unit: 'mg' }] },
+      totalMg: 1750,
+      targetCapsules: 12,
+    });
+
+    const diff = computeFormulaDiff(from, to);
+    expect(diff.ingredients.added).toEqual([
+      { ingredient: 'Omega 3', source: 'addition', change: 'added', unit: 'mg', toAmount: 1000 },
+    ]);
+    expect(diff.ingredients.removed.map(i => i.ingredient)).toEqual(['Ashwagandha']);
+    expect(diff.ingredients.doseChanged).toEqual([
+      { ingredient: 'magnesium', source: 'addition', change: 'dose_changed', unit: 'mg', fromAmount: 200, toAmount: 300 },
+    ]);
+    expect(diff.totalMg).toEqual({ from: 950, to: 1750, delta: 800 });
+    expect(diff.capsules).toEqual({ from: 9, to: 12, changed: true });
+    expect(diff.hasChanges).toBe(true);
+    expect(diff.from.version).toBe(1);
+    expect(diff.to.createdAt).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('diffs stored safety warnings by category', () => {
+    const from = version({
+      safetyValidation: {
+        requiresAcknowledgment: true,
+        warnings: [
+          { category: 'blood_thinner_interaction', severity: 'serious', message: 'Omega 3 with warfarin' },
+          { category: 'sedative_interaction', severity: 'serious', message: 'Ashwagandha with sedatives' },
+        ],
+      },
+    });
+    const to = version({
+      version: 2,
+      safetyValidation: {
+        requiresAcknowledgment: true,
+        warnings: [
+          { category: 'blood_thinner_interaction', severity: 'critical', message: 'Omega 3 with warfarin' },
+          { category: 'thyroid_interaction', severity: 'serious', message: 'Iodine with levothyroxine' },
+        ],
+      },
+    });
+
+    const { safety } = computeFormulaDiff(from, to);
+    expect(safety.introduced.map(w => w.category)).toEqual(['thyroid_interaction']);
+    expect(safety.resolved.map(w => w.category)).toEqual(['sedative_interaction']);
+    expect(safety.severityChanged).toEqual([
+      { category: 'blood_thinner_interaction', message: 'Omega 3 with warfarin', fromSeverity: 'serious', toSeverity: 'critical' },
+    ]);
+  });
+
+  it('reports no changes for identical versions', () => {
+    const formula = version({ additions: [{ ingredient: 'Zinc', amount: 15, unit: 'mg' }], totalMg: 15 });
+    const diff = computeFormulaDiff(formula, { ...formula, id: 'f2', version: 2 });
+    expect(diff.hasChanges).toBe(false);
+    expect(formatFormulaDiffHtml(diff)).toBe('');
+  });
+});
+
+describe('formatFormulaDiffHtml', () => {
+  it('escapes ingredient names', () => {
+    const diff = computeFormulaDiff(
+      version({}),
+      version({ version: 2, additions: [{ ingredient: '<b>Zinc</b>', amount: 15, unit: 'mg' }], totalMg: 15 }),
+    );
+    const html = formatFormulaDiffHtml(diff);
+    expect(html).toContain('&lt;b&gt;Zinc&lt;/b&gt;');
+    expect(html).not.toContain('<b>Zinc');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for the physician lab export.
+ *
+ * Covers:
+ *   - Flattening the dashboard into export markers, sorted by category
+ *   - SI conversion of values, reference and optimal ranges
+ *   - CSV layout (one row per draw), escaping and formula injection
+ *   - PDF definition: panel grades, per-category tables, sparklines
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildLabExport, labExportToCsv, type LabExportSource } from '@shared/lab-export';
+import { generateLabReportPDF } from '@shared/pdf-generator';
+
+const source: LabExportSource = {
+  markers: [
+    {
+      key: 'vitamin d',
+      name: 'Vitamin D, 25-OH',
+      category: 'Vitamins',
+      latest: { value: 40, rawValue: '40', unit: 'ng/mL', referenceRange: '30-100', status: 'normal', date: '2025-04-01' },
+      trend: 'improving',
+      optimalRange: { low: 40, high: 60 },
+      history: [
+        { date: '2024-10-01', value: 22, rawValue: '22', unit: 'ng/mL', status: 'low' },
+        { date: '2025-04-01', value: 40, rawValue: '40', unit: 'ng/mL', status: 'normal' },
+      ],
+    },
+    {
+      key: 'ldl cholesterol',
+      name: 'LDL Cholesterol',
+      category: 'Lipids',
+      latest: { value: 160, rawValue: '160', unit: 'mg/dL', referenceRange: '<100', status: 'high', date: '2025-04-01' },
+      trend: 'new',
+      optimalRange: null,
+      history: [{ date: '2025-04-01', value: 160, rawValue: '160', unit: 'mg/dL', status: 'high' }],
+    },
+  ],
+  healthScore: {
+    overall: 78,
+    grade: 'B+',
+    label: 'Good',
+    panels: [{ category: 'Lipids', score: 60, grade: 'C', markerCount: 1, inRange: 0, outOfRange: 1 }],
+  },
+  biologicalAge: { age: 41, chronologicalAge: 44, delta: -3, label: '3 years younger' },
+};
+
+const patient = { name: 'Ada Lovelace', email: 'ada@example.com' };
+
+describe('buildLabExport', () => {
+  it('keeps canonical values in conventional units and sorts markers by category', () => {
+    const data = buildLabExport(source, { patient });
+    expect(data.markers.map(m => m.key)).toEqual(['ldl cholesterol', 'vitamin d']);
+    const vitD = data.markers[1];
+    expect(vitD).toMatchObject({ unit: 'ng/mL', referenceRange: '30-100', optimalRange: '40-60' });
+    expect(vitD.history.map(h => h.value)).toEqual([22, 40]);
+    expect(data.biologicalAge?.age).toBe(41);
+  });
+
+  it('converts values and ranges for SI export', () => {
+    const data = buildLabExport(source, { patient, unitSystem: 'si' });
+    const vitD = data.markers.find(m => m.key === 'vitamin d')!;
+    expect(vitD.unit).toBe('nmol/L');
+    expect(vitD.latest.value).toBeCloseTo(99.8, 0);
+    expect(vitD.referenceRange).toBe('74.9-250');
+    expect(vitD.optimalRange).toBe('99.8-150');
+  });
+});
+
+describe('labExportToCsv', () => {
+  it('writes one row per draw and marks the latest', () => {
+    const csv = labExportToCsv(buildLabExport(source, { patient }));
+    const lines = csv.split('\n');
+    expect(lines[0]).toBe('Category,Marker,Date,Value,Unit,Reference Range,Optimal Range,Status,Latest');
+    expect(lines).toHaveLength(4);
+    expect(lines[2]).toBe('Vitamins,"Vitamin D, 25-OH",2024-10-01,22,ng/mL,30-100,40-60,low,');
+    expect(lines[3].endsWith(',normal,yes')).toBe(true);
+  });
+
+  it('defuses cells a spreadsheet would run as formulas but keeps signed numbers', () => {
+    const injected: LabExportSource = {
+      ...source,
+      markers: [{
+        ...source.markers[1],
+        name: '=HYPERLINK("http://evil.test","LDL")',
+        history: [
+          { date: '2025-03-01', value: -2, rawValue: '-2', unit: 'mg/dL', status: 'normal' },
+          { date: '2025-04-01', value: 160, rawValue: '@SUM(1+1)', unit: 'mg/dL', status: 'high' },
+        ],
+      }],
+    };
+    const lines = labExportToCsv(buildLabExport(injected, { patient })).split('\n');
+    expect(lines[1]).toBe(`Lipids,"'=HYPERLINK(""http://evil.test"",""LDL"")",2025-03-01,-2,mg/dL,<100,,normal,`);
+    expect(lines[2]).toContain(",2025-04-01,'@SUM(1+1),mg/dL,");
+  });
+});
+
+describe('generateLabReportPDF', () => {
+  it('renders panel grades, a table per category and a sparkline for multi-draw markers', () => {
+    const doc = generateLabReportPDF(buildLabExport(source, { patient }));
+    const json = JSON.stringify(doc.content);
+    expect(json).toContain('Panel Grades');
+    expect(json).toContain('"text":"Lipids"');
+    expect(json).toContain('"text":"Vitamins"');
+    expect(json).toContain('"type":"polyline"');
+    expect(json).toContain('single draw');
+    expect(json).toContain('3 years younger');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Tests for lab unit normalization and SI/conventional conversion.
+ *
+ * Covers:
+ *   - Unit label normalization (µ / μ / u / mc spellings)
+ *   - SI → conventional conversion for common analytes, including HbA1c's offset
+ *   - Alternate unit spellings and pass-through of unknown analytes/units
+ *   - Display conversion and reference-range conversion
+ *   - Dashboard aggregation merging mmol/L and mg/dL glucose onto one trend line
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  normalizeUnitLabel,
+  toCanonicalUnit,
+  convertForDisplay,
+  formatConvertedRawValue,
+  referenceRangeToCanonical,
+  referenceRangeForDisplay,
+  roundLabValue,
+} from '@shared/lab-units';
+
+const { reports } = vi.hoisted(() => ({ reports: [] as any[] }));
+
+vi.mock('../modules/files/files.repository', () => ({
+  filesRepository: {
+    getLabReportsByUser: vi.fn(async () => reports),
+    updateFileUpload: vi.fn(async () => undefined),
+  },
+}));
+vi.mock('../modules/users/users.repository', () => ({
+  usersRepository: { getHealthProfile: vi.fn(async () => null) },
+}));
+vi.mock('../modules/wearables/wearables.repository', () => ({ wearablesRepository: {} }));
+vi.mock('../modules/wearables/wearables.service', () => ({ wearablesService: {} }));
+vi.mock('../infra/ai/llm-gateway', () => ({ complete: vi.fn() }));
+vi.mock('../infra/logging/logger', () => ({
+  default: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { labsService } from '../modules/labs/labs.service';
+
+describe('normalizeUnitLabel', () => {
+  it('treats micro sign, Greek mu, u and mc as the same prefix', () => {
+    const forms = ['µmol/L', 'μmol/l', 'umol/L', 'mcmol / L'];
+    expect(new Set(forms.map(normalizeUnitLabel)).size).toBe(1);
+    expect(normalizeUnitLabel('mcg/dL')).toBe(normalizeUnitLabel('µg/dL'));
+  });
+});
+
+describe('toCanonicalUnit', () => {
+  it('converts SI values into the conventional unit', () => {
+    expect(toCanonicalUnit('glucose', 5.5, 'mmol/L')).toEqual({ value: 99.1, unit: 'mg/dL', converted: true });
+    expect(toCanonicalUnit('vitamin d', 75, 'nmol/L').value).toBe(30);
+    expect(toCanonicalUnit('creatinine', 88.4, 'µmol/L').value).toBe(1);
+    expect(toCanonicalUnit('testosterone', 17.3, 'nmol/L').value).toBe(499);
+    expect(toCanonicalUnit('vitamin b12', 369, 'pmol/L').value).toBe(500);
+    expect(toCanonicalUnit('total cholesterol', 5.17, 'mmol/L').value).toBe(200);
+  });
+
+  it('applies the IFCC offset for HbA1c', () => {
+    expect(toCanonicalUnit('hba1c', 48, 'mmol/mol').value).toBe(6.54);
+  });
+
+  it('handles alternate spellings within the conventional system', () => {
+    expect(toCanonicalUnit('crp', 0.3, 'mg/dL')).toEqual({ value: 3, unit: 'mg/L', converted: true });
+    expect(toCanonicalUnit('testosterone', 5.2, 'ng/mL').value).toBe(520);
+  });
+
+  it('leaves values already in the conventional unit untouched but normalizes the label', () => {
+    expect(toCanonicalUnit('glucose', 92, 'MG/DL')).toEqual({ value: 92, unit: 'mg/dL', converted: false });
+  });
+
+  it('passes through unknown analytes, missing units and unrecognised units', () => {
+    expect(toCanonicalUnit('lp a', 120, 'nmol/L')).toEqual({ value: 120, unit: 'nmol/L', converted: false });
+    expect(toCanonicalUnit('glucose', 5.5, '')).toEqual({ value: 5.5, unit: '', converted: false });
+    expect(toCanonicalUnit('glucose', 5.5, 'furlongs')).toEqual({ value: 5.5, unit: 'furlongs', converted: false });
+  });
+});
+
+describe('display conversion', () => {
+  it('converts canonical values to SI and back to conventional unchanged', () => {
+    expect(convertForDisplay('glucose', 99, 'mg/dL', 'si')).toEqual({ value: 5.49, unit: 'mmol/L' });
+    expect(convertForDisplay('glucose', 99, 'mg/dL', 'conventional')).toEqual({ value: 99, unit: 'mg/dL' });
+    expect(convertForDisplay('glucose', 5.5, 'furlongs', 'si')).toBeNull();
+  });
+
+  it('keeps lab qualifiers when re-rendering a raw value', () => {
+    expect(formatConvertedRawValue('<0.5', 4.8)).toBe('<4.8');
+    expect(formatConvertedRawValue('5.5', 99.1)).toBe('99.1');
+  });
+
+  it('converts reference ranges in both directions', () => {
+    expect(referenceRangeToCanonical('glucose', '3.9-5.6 mmol/L', 'mmol/L')).toBe('70.3-101 mg/dL');
+    expect(referenceRangeForDisplay('vitamin d', '30-100', 'ng/mL', 'si')).toBe('74.9-250');
+    expect(referenceRangeForDisplay('vitamin d', '30-100', 'ng/mL', 'conventional')).toBe('30-100');
+  });
+
+  it('rounds to three significant figures', () => {
+    expect(roundLabValue(1234.56)).toBe(1235);
+    expect(roundLabValue(5.4945)).toBe(5.49);
+    expect(roundLabValue(0.012345)).toBe(0.012);
+  });
+});
+
+describe('LabsService.getBiomarkersDashboard unit normalization', () => {
+  const report = (id: string, testDate: string, markers: any[]) => ({
+    id,
+    originalFileName: `${id}.pdf`,
+    uploadedAt: new Date(testDate),
+    labReportData: { analysisStatus: 'completed', testDate, extractedData: markers, markerInsights: {} },
+  });
+
+  it('merges mmol/L and mg/dL glucose into one canonical trend line with originals preserved', async () => {
+    reports.splice(0, reports.length,
+      report('eu', '2025-01-10', [{ testName: 'Glucose', value: '5.5', unit: 'mmol/L', referenceRange: '3.9-5.6', status: 'normal' }]),
+      report('us', '2025-06-10', [{ testName: 'Glucose', value: '110', unit: 'mg/dL', referenceRange: '70-99', status: 'high' }]),
+    );
+
+    const dashboard = await labsService.getBiomarkersDashboard('user-1');
+    const glucose = dashboard.markers.find(m => m.key === 'glucose')!;
+
+    expect(glucose.history.map(h => [h.value, h.unit])).toEqual([[99.1, 'mg/dL'], [110, 'mg/dL']]);
+    expect(glucose.history[0]).toMatchObject({ rawValue: '99.1', originalRawValue: '5.5', originalUnit: 'mmol/L' });
+    expect(glucose.latest).toMatchObject({ unit: 'mg/dL', originalUnit: 'mg/dL', referenceRange: '70.3-101' });
+    expect(glucose.delta).toBe(11);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Tests for the LLM gateway.
+ *
+ * Covers:
+ *   - Model resolution and inferring the provider from a model id
+ *   - Failover to the other provider on 5xx, not on 4xx or when pinned
+ *   - Usage rows for successful and failed calls
+ *   - Feature and per-user daily token budgets
+ *   - completeJson re-asking on invalid output, then LlmOutputError
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { z } from 'zod';
+
+const mocks = vi.hoisted(() => ({
+  openaiCreate: vi.fn(),
+  anthropicCreate: vi.fn(),
+  logAiUsage: vi.fn(),
+  tokensUsed: vi.fn(async () => 0),
+}));
+
+vi.mock('openai', () => ({
+  default: class {
+    chat = { completions: { create: mocks.openaiCreate } };
+  },
+}));
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: class {
+    messages = { create: mocks.anthropicCreate };
+  },
+}));
+vi.mock('../modules/ai-usage/ai-usage.service', () => ({
+  logAiUsage: mocks.logAiUsage,
+  estimateTokenCount: (text: string) => Math.ceil(text.length / 4),
+  getTokensUsedSince: mocks.tokensUsed,
+}));
+vi.mock('../modules/system/system.repository', () => ({ systemRepository: {} }));
+vi.mock('../infra/logging/logger', () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  return { default: logger, logger };
+});
+
+import {
+  AiBudgetExceededError,
+  LlmOutputError,
+  complete,
+  completeJson,
+  isRetryableError,
+  providerForModel,
+  resolveModel,
+} from '../infra/ai/llm-gateway';
+import { TokenBudgetTracker } from '../infra/ai/llm-budgets';
+
+const openaiReply = (content: string, finish = 'stop') => ({
+  choices: [{ message: { content }, finish_reason: finish }],
+  usage: { prompt_tokens: 10, completion_tokens: 5 },
+});
+const anthropicReply = (text: string) => ({
+  content: [{ type: 'text', text }],
+  usage: { input_tokens: 12, output_tokens: 6 },
+  stop_reason: 'end_turn',
+});
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status });
+const ask = { feature: 'test', messages: [{ role: 'user' as const, content: 'hi' }] };
+
+beforeEach(() => {
+  mocks.openaiCreate.mockReset();
+  mocks.anthropicCreate.mockReset();
+  mocks.logAiUsage.mockReset();
+  process.env.OPENAI_API_KEY = 'sk-test';
+  process.env.ANTHROPIC_API_KEY = 'sk-ant-test';
+});
+
+describe('model resolution', () => {
+  it('keeps allowed models and falls back to the provider default', () => {
+    expect(resolveModel('openai', 'gpt-4o-mini')).toBe('gpt-4o-mini');
+    expect(resolveModel('anthropic', 'gpt-4o')).toMatch(/^claude-/);
+    expect(resolveModel('openai', 'not-a-model')).toMatch(/^(gpt|o\d)/);
+  });
+
+  it('infers the provider from the model id', () => {
+    expect(providerForModel('claude-sonnet-4-6')).toBe('anthropic');
+    expect(providerForModel('gpt-4.1')).toBe('openai');
+    expect(providerForModel('mystery')).toBeUndefined();
+    expect(providerForModel(undefined)).toBeUndefined();
+  });
+
+  it('routes a Claude model to Anthropic without an explicit provider', async () => {
+    mocks.anthropicCreate.mockResolvedValue(anthropicReply('hello'));
+    const res = await complete({ ...ask, model: 'claude-sonnet-4-6' });
+    expect(res).toMatchObject({ text: 'hello', provider: 'anthropic', failedOver: false });
+    expect(mocks.openaiCreate).not.toHaveBeenCalled();
+  });
+});
+
+describe('failover', () => {
+  it('retries on the other provider after a 5xx', async () => {
+    mocks.openaiCreate.mockRejectedValue(httpError(503));
+    mocks.anthropicCreate.mockResolvedValue(anthropicReply('from claude'));
+    const res = await complete({ ...ask, provider: 'openai', model: 'gpt-4o-mini' });
+    expect(res).toMatchObject({ text: 'from claude', provider: 'anthropic', model: 'claude-haiku-4-5', failedOver: true });
+  });
+
+  it('does not fail over on a 4xx', async () => {
+    mocks.openaiCreate.mockRejectedValue(httpError(400));
+    await expect(complete({ ...ask, provider: 'openai' })).rejects.toThrow('HTTP 400');
+    expect(mocks.anthropicCreate).not.toHaveBeenCalled();
+  });
+
+  it('does not fail over when pinned or when the other key is missing', async () => {
+    mocks.openaiCreate.mockRejectedValue(httpError(500));
+    await expect(complete({ ...ask, provider: 'openai', failover: false })).rejects.toThrow('HTTP 500');
+    delete process.env.ANTHROPIC_API_KEY;
+    await expect(complete({ ...ask, provider: 'openai' })).rejects.toThrow('HTTP 500');
+    expect(mocks.anthropicCreate).not.toHaveBeenCalled();
+  });
+
+  it('classifies retryable errors', () => {
+    expect(isRetryableError(httpError(529))).toBe(true);
+    expect(isRetryableError(httpError(429))).toBe(false);
+    expect(isRetryableError(Object.assign(new Error('t'), { name: 'APIConnectionTimeoutError' }))).toBe(true);
+    expect(isRetryableError(null)).toBe(false);
+  });
+});
+
+describe('usage logging', () => {
+  it('logs the failed attempt and the successful failover', async () => {
+    mocks.openaiCreate.mockRejectedValue(httpError(502));
+    mocks.anthropicCreate.mockResolvedValue(anthropicReply('ok'));
+    await complete({ ...ask, userId: 'u1', provider: 'openai' });
+
+    expect(mocks.logAiUsage).toHaveBeenCalledTimes(2);
+    expect(mocks.logAiUsage.mock.calls[0][0]).toMatchObject({
+      feature: 'test', userId: 'u1', provider: 'openai', promptTokens: 0, metadata: { status: 502 },
+    });
+    expect(mocks.logAiUsage.mock.calls[1][0]).toMatchObject({
+      provider: 'anthropic', promptTokens: 12, completionTokens: 6, metadata: { failoverFrom: 'openai' },
+    });
+  });
+});
+
+describe('token budgets', () => {
+  it('blocks a feature once its daily budget is spent', async () => {
+    mocks.tokensUsed.mockResolvedValueOnce(40_000_000);
+    await expect(complete({ ...ask, feature: 'chat' })).rejects.toBeInstanceOf(AiBudgetExceededError);
+    expect(mocks.openaiCreate).not.toHaveBeenCalled();
+  });
+
+  it('counts recorded usage against the user for the rest of the day', async () => {
+    const tracker = new TokenBudgetTracker();
+    const now = new Date('2026-03-01T10:00:00Z');
+    await tracker.assertWithinBudget('unlisted', 'u1', now);
+    tracker.record('unlisted', 'u1', 2_000_000, now);
+    await expect(tracker.assertWithinBudget('unlisted', 'u1', now)).rejects.toMatchObject({ scope: 'user', key: 'u1' });
+    await expect(tracker.assertWithinBudget('unlisted', 'u1', new Date('2026-03-02T00:00:01Z'))).resolves.toBeUndefined();
+  });
+
+  it('fails open when the usage lookup errors', async () => {
+    mocks.tokensUsed.mockRejectedValueOnce(new Error('db down'));
+    await expect(new TokenBudgetTracker().assertWithinBudget('chat')).resolves.toBeUndefined();
+  });
+});
+
+describe('completeJson', () => {
+  it('re-asks with the validation error and returns the corrected object', async () => {
+    mocks.openaiCreate
+      .mockResolvedValueOnce(openaiReply('{"score": "high"}'))
+      .mockResolvedValueOnce(openaiReply('{"score": 8}'));
+    const { data } = await completeJson({ ...ask, provider: 'openai', schema: z.object({ score: z.number() }) });
+
+    expect(data).toEqual({ score: 8 });
+    const retry = mocks.openaiCreate.mock.calls[1][0];
+    expect(retry.response_format).toEqual({ type: 'json_object' });
+    expect(retry.messages.at(-1).content).toContain('score');
+  });
+
+  it('throws LlmOutputError after the last attempt', async () => {
+    mocks.openaiCreate.mockResolvedValue(openaiReply('{"score": "high"}'));
+    const err = await completeJson({ ...ask, provider: 'openai', schema: z.object({ score: z.number() }), maxAttempts: 2 })
+      .catch(e => e);
+    expect(err).toBeInstanceOf(LlmOutputError);
+    expect(err.raw).toBe('{"score": "high"}');
+    expect(mocks.openaiCreate).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Tests for the offline LLM record/replay stand-in.
+ *
+ * Covers:
+ *   - Prompt hashing: stable across provider/model, sensitive to prompt and JSON mode
+ *   - Record mode writing cassettes that replay mode serves without the network
+ *   - Scripted fixtures by feature, pattern and use count; cassettes win over fixtures
+ *   - UnrecordedPromptError for unknown prompts; raw clients refused in replay
+ *   - Production ignoring LLM_OFFLINE
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const mocks = vi.hoisted(() => ({
+  openaiCreate: vi.fn(),
+  responsesCreate: vi.fn(),
+  logAiUsage: vi.fn(),
+}));
+
+vi.mock('openai', () => ({
+  default: class {
+    chat = { completions: { create: mocks.openaiCreate } };
+    responses = { create: mocks.responsesCreate };
+  },
+}));
+vi.mock('@anthropic-ai/sdk', () => ({ default: class {} }));
+vi.mock('../modules/ai-usage/ai-usage.service', () => ({
+  logAiUsage: mocks.logAiUsage,
+  estimateTokenCount: (text: string) => Math.ceil(text.length / 4),
+  getTokensUsedSince: vi.fn(async () => 0),
+}));
+vi.mock('../modules/system/system.repository', () => ({ systemRepository: {} }));
+vi.mock('../infra/logging/logger', () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  return { default: logger, logger };
+});
+
+import { complete, completeJson, getOpenAIClient, streamText, webSearch } from '../infra/ai/llm-gateway';
+import {
+  UnrecordedPromptError,
+  clearLlmFixtures,
+  llmOfflineMode,
+  promptHash,
+  registerLlmFixture,
+} from '../infra/ai/llm-offline';
+
+const ask = (content: string) => ({
+  feature: 'reorder',
+  system: 'You review supplement reorders.',
+  messages: [{ role: 'user' as const, content }],
+  provider: 'openai' as const,
+});
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-cassettes-'));
+  process.env.LLM_CASSETTE_DIR = dir;
+  process.env.LLM_OFFLINE = 'replay';
+  process.env.OPENAI_API_KEY = 'sk-test';
+  mocks.openaiCreate.mockReset();
+  mocks.responsesCreate.mockReset();
+  mocks.logAiUsage.mockReset();
+  clearLlmFixtures();
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  delete process.env.LLM_OFFLINE;
+  delete process.env.LLM_CASSETTE_DIR;
+  vi.unstubAllEnvs();
+});
+
+describe('promptHash', () => {
+  it('ignores provider and model but not the prompt or JSON mode', () => {
+    const base = { feature: 'chat', system: 's', messages: [{ role: 'user', content: 'hi' }] };
+    expect(promptHash(base)).toBe(promptHash({ ...base, feature: 'other' }));
+    expect(promptHash(base)).not.toBe(promptHash({ ...base, messages: [{ role: 'user', content: 'hi!' }] }));
+    expect(promptHash(base)).not.toBe(promptHash({ ...base, json: true }));
+    expect(promptHash(base)).not.toBe(promptHash({ ...base, tool: 'web_search' }));
+    expect(promptHash(base)).toMatch(/^[0-9a-f]{16}$/);
+  });
+});
+
+describe('record and replay', () => {
+  it('records a live reply and replays it without calling the provider', async () => {
+    process.env.LLM_OFFLINE = 'record';
+    mocks.openaiCreate.mockResolvedValue({
+      choices: [{ message: { content: 'Looks good to ship.' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 40, completion_tokens: 5 },
+    });
+    await complete(ask('Review order 1'));
+
+    const files = fs.readdirSync(path.join(dir, 'reorder'));
+    expect(files).toHaveLength(1);
+    const cassette = JSON.parse(fs.readFileSync(path.join(dir, 'reorder', files[0]), 'utf8'));
+    expect(cassette).toMatchObject({ feature: 'reorder', provider: 'openai', response: { text: 'Looks good to ship.', promptTokens: 40 } });
+
+    process.env.LLM_OFFLINE = 'replay';
+    mocks.openaiCreate.mockClear();
+    mocks.logAiUsage.mockClear();
+    const res = await complete({ ...ask('Review order 1'), model: 'gpt-4o-mini' });
+    expect(res).toMatchObject({ text: 'Looks good to ship.', provider: 'openai', model: 'gpt-4o-mini', promptTokens: 40 });
+    expect(mocks.openaiCreate).not.toHaveBeenCalled();
+    expect(mocks.logAiUsage).not.toHaveBeenCalled();
+  });
+
+  it('records and replays web searches separately from completions', async () => {
+    process.env.LLM_OFFLINE = 'record';
+    mocks.responsesCreate.mockResolvedValue({
+      output: [{ type: 'message', content: [{ type: 'output_text', text: 'Three outlets found.' }] }],
+      usage: { input_tokens: 20, output_tokens: 4 },
+    });
+    await webSearch({ feature: 'agent', system: 'Find press.', prompt: 'supplement journalists' });
+
+    process.env.LLM_OFFLINE = 'replay';
+    mocks.responsesCreate.mockClear();
+    await expect(webSearch({ feature: 'agent', system: 'Find press.', prompt: 'supplement journalists' }))
+      .resolves.toBe('Three outlets found.');
+    expect(mocks.responsesCreate).not.toHaveBeenCalled();
+    await expect(complete({ feature: 'agent', system: 'Find press.', messages: [{ role: 'user', content: 'supplement journalists' }] }))
+      .rejects.toBeInstanceOf(UnrecordedPromptError);
+  });
+});
+
+describe('fixtures', () => {
+  it('matches by feature and pattern, serialising objects as JSON', async () => {
+    registerLlmFixture({ feature: 'optimize', response: 'wrong feature' });
+    registerLlmFixture({ feature: 'reorder', match: /order 7/, response: { approve: true } });
+    const { data } = await completeJson<{ approve: boolean }>(ask('Review order 7'));
+    expect(data).toEqual({ approve: true });
+  });
+
+  it('streams the reply and stops matching after `times` uses', async () => {
+    registerLlmFixture({ match: 'order 9', response: 'Approved.', times: 1 });
+    const deltas: string[] = [];
+    await streamText(ask('Review order 9'), d => deltas.push(d));
+    expect(deltas.join('')).toBe('Approved.');
+    await expect(complete(ask('Review order 9'))).rejects.toBeInstanceOf(UnrecordedPromptError);
+  });
+
+  it('prefers a recorded cassette over a fixture', async () => {
+    const prompt = { feature: 'reorder', system: ask('x').system, messages: ask('Review order 3').messages };
+    fs.mkdirSync(path.join(dir, 'reorder'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'reorder', `${promptHash(prompt)}.json`), JSON.stringify({
+      response: { text: 'from cassette', promptTokens: 1, completionTokens: 1, truncated: false },
+    }));
+    const remove = registerLlmFixture({ response: 'from fixture' });
+    expect((await complete(ask('Review order 3'))).text).toBe('from cassette');
+    remove();
+  });
+});
+
+describe('failing loudly', () => {
+  it('names the feature, hash and prompt of an unrecorded call', async () => {
+    const err = await complete(ask('Review order 42')).catch(e => e);
+    expect(err).toBeInstanceOf(UnrecordedPromptError);
+    expect(err.feature).toBe('reorder');
+    expect(err.message).toContain(err.hash);
+    expect(err.message).toContain('Review order 42');
+    expect(mocks.openaiCreate).not.toHaveBeenCalled();
+  });
+
+  it('refuses direct client use in replay mode', () => {
+    expect(() => getOpenAIClient()).toThrow(/LLM_OFFLINE=replay/);
+  });
+
+  it('is ignored in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(llmOfflineMode()).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Tests for personal lab baselines and age-banded optimal ranges.
+ *
+ * Covers:
+ *   - Reference change value (log-normal, asymmetric, scaled by baseline size)
+ *   - Baseline from earlier results, window and same-day exclusion
+ *   - "Unusual for you" while still inside the reference range
+ *   - Age/sex band selection for optimal ranges
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeMarkerBaseline,
+  getOptimalRange,
+  isWithinOptimal,
+  referenceChangeValue,
+} from '../modules/labs/marker-baselines';
+
+describe('referenceChangeValue', () => {
+  it('matches the classic two-result RCV for low-variation markers', () => {
+    // sqrt(2.0² + 5.0²) = 5.39% → 1.96·√2·5.39 ≈ 14.9%
+    const rcv = referenceChangeValue('glucose')!;
+    expect(rcv.increase).toBeGreaterThan(14.5);
+    expect(rcv.increase).toBeLessThan(16.5);
+    expect(rcv.decrease).toBeLessThan(rcv.increase);
+  });
+
+  it('is asymmetric for high-variation markers so falls can still be significant', () => {
+    const rcv = referenceChangeValue('crp')!;
+    expect(rcv.increase).toBeGreaterThan(100);
+    expect(rcv.decrease).toBeLessThan(100);
+  });
+
+  it('narrows as more baseline results are averaged', () => {
+    expect(referenceChangeValue('ferritin', 4)!.increase).toBeLessThan(referenceChangeValue('ferritin', 1)!.increase);
+  });
+
+  it('returns null for markers without variation data', () => {
+    expect(referenceChangeValue('widget index')).toBeNull();
+  });
+});
+
+describe('computeMarkerBaseline', () => {
+  it('flags an in-range drop that exceeds the RCV', () => {
+    const baseline = computeMarkerBaseline('hemoglobin', [
+      { date: '2024-01-10', value: 15.2 },
+      { date: '2024-07-10', value: 15.0 },
+      { date: '2025-01-10', value: 13.4 },
+    ])!;
+    expect(baseline).toMatchObject({ mean: 15.1, sampleCount: 2, since: '2024-01-10', significant: true, direction: 'down' });
+    expect(baseline.changePercent).toBeCloseTo(-11.3, 1);
+  });
+
+  it('treats ordinary fluctuation as not significant', () => {
+    const baseline = computeMarkerBaseline('tsh', [
+      { date: '2024-01-10', value: 2.0 },
+      { date: '2025-01-10', value: 2.5 },
+    ])!;
+    expect(baseline.significant).toBe(false);
+    expect(baseline.direction).toBe('none');
+  });
+
+  it('ignores samples outside the window, on the same day, or non-numeric', () => {
+    expect(computeMarkerBaseline('ldl cholesterol', [
+      { date: '2019-01-01', value: 90 },
+      { date: '2025-01-10', value: 150 },
+    ])).toBeNull();
+    expect(computeMarkerBaseline('ldl cholesterol', [
+      { date: '2025-01-10', value: 90 },
+      { date: '2025-01-10', value: 150 },
+    ])).toBeNull();
+    expect(computeMarkerBaseline('ldl cholesterol', [
+      { date: '2024-01-10', value: null },
+      { date: '2025-01-10', value: 150 },
+    ])).toBeNull();
+  });
+
+  it('needs biological-variation data for the marker', () => {
+    expect(computeMarkerBaseline('widget index', [
+      { date: '2024-01-10', value: 1 },
+      { date: '2025-01-10', value: 5 },
+    ])).toBeNull();
+  });
+});
+
+describe('getOptimalRange', () => {
+  it('selects the band for the user\'s age', () => {
+    expect(getOptimalRange('tsh', 35)).toEqual({ low: 1.0, high: 2.5, band: '18–49' });
+    expect(getOptimalRange('tsh', 72)).toEqual({ low: 1.0, high: 4.5, band: '70+' });
+  });
+
+  it('uses sex-specific bands only when the sex matches', () => {
+    expect(getOptimalRange('hdl cholesterol', 40, 'male')?.low).toBe(50);
+    expect(getOptimalRange('hdl cholesterol', 40, 'female')?.low).toBe(55);
+    expect(getOptimalRange('testosterone', 45, 'male')).toMatchObject({ low: 500, high: 850, band: '40–59, male' });
+    expect(getOptimalRange('psa', 55, 'female')).toBeNull();
+  });
+
+  it('has no optimal range without a sex when the targets differ by sex', () => {
+    expect(getOptimalRange('hdl cholesterol', 40, null)).toBeNull();
+    expect(getOptimalRange('hemoglobin', 40, 'other')).toBeNull();
+    expect(getOptimalRange('hemoglobin', 40, 'female')).toEqual({ low: 13.0, high: 15.0, band: 'all adults, female' });
+    expect(getOptimalRange('ldl cholesterol', 40, null)).not.toBeNull();
+  });
+
+  it('falls back to the youngest adult band without an age', () => {
+    expect(getOptimalRange('egfr', null)).toMatchObject({ low: 90, high: null });
+  });
+
+  it('treats open-ended sides as passing', () => {
+    const range = getOptimalRange('ldl cholesterol', 50)!;
+    expect(isWithinOptimal(40, range)).toBe(true);
+    expect(isWithinOptimal(130, range)).toBe(false);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Tests for the cumulative nutrient upper-limit checker.
+ *
+ * Covers:
+ *   - Summing a nutrient across system supports, additions and current supplements
+ *   - Free-text current supplement parsing (mg / mcg / IU, combo entries)
+ *   - Mineral compounds converted to their elemental amount
+ *   - Age band and pregnancy-specific UL selection
+ *   - Integration with validateFormulaSafety's severity pipeline
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkNutrientUpperLimits, parseCurrentSupplements } from '../modules/formulas/nutrient-limit-checker';
+import { validateFormulaSafety } from '../modules/formulas/safety-validator';
+import { NUTRIENT_UPPER_LIMITS, getUpperLimit } from '@shared/nutrient-upper-limits';
+
+const nutrient = (id: string) => NUTRIENT_UPPER_LIMITS.find(n => n.id === id)!;
+
+describe('parseCurrentSupplements', () => {
+  it('parses IU, comma thousands and combo entries', () => {
+    const parsed = parseCurrentSupplements(['Vitamin D3 5,000 IU', 'Zinc 30mg + Copper 2mg', 'Fish oil 1g']);
+    expect(parsed.map(p => p.nutrient.id)).toEqual(['vitamin_d', 'zinc', 'copper']);
+    expect(parsed[0].amount).toBeCloseTo(125); // mcg
+    expect(parsed[1].amount).toBe(30);
+  });
+
+  it('keeps entries without a dose as unquantified', () => {
+    const parsed = parseCurrentSupplements(['Zinc']);
+    expect(parsed[0].amount).toBeNull();
+  });
+
+  it('skips beta-carotene forms of vitamin A', () => {
+    expect(parseCurrentSupplements(['Vitamin A 10,000 IU as beta carotene'])).toEqual([]);
+  });
+
+  it('converts compound-named mineral doses to the elemental amount', () => {
+    const parsed = parseCurrentSupplements(['Ferrous bisglycinate 100mg', 'Magnesium Glycinate 400mg', 'Zinc (as zinc picolinate) 30mg']);
+    expect(parsed.map(p => p.nutrient.id)).toEqual(['iron', 'magnesium', 'zinc']);
+    expect(parsed[0].amount).toBeCloseTo(20);
+    expect(parsed[1].amount).toBeCloseTo(56);
+    expect(parsed[2].amount).toBe(30); // "as" labels already state elemental zinc
+  });
+});
+
+describe('getUpperLimit', () => {
+  it('selects age bands', () => {
+    expect(getUpperLimit(nutrient('calcium'), { age: 30 })).toBe(2500);
+    expect(getUpperLimit(nutrient('calcium'), { age: 60 })).toBe(2000);
+    expect(getUpperLimit(nutrient('zinc'), { age: 16 })).toBe(34);
+  });
+
+  it('defaults to the adult band when age is unknown', () => {
+    expect(getUpperLimit(nutrient('zinc'), { age: null })).toBe(40);
+  });
+
+  it('prefers life-stage rows for pregnant women', () => {
+    expect(getUpperLimit(nutrient('phosphorus'), { age: 30, sex: 'female', isPregnant: true })).toBe(3500);
+    expect(getUpperLimit(nutrient('phosphorus'), { age: 30, sex: 'male', isPregnant: true })).toBe(4000);
+  });
+});
+
+describe('checkNutrientUpperLimits', () => {
+  it('sums zinc across a support, an addition and a current supplement', () => {
+    const warnings = checkNutrientUpperLimits({
+      formulaDoses: [
+        { name: 'Zinc', amountMg: 15, via: 'Endocrine Support' },
+        { name: 'Zinc', amountMg: 10 },
+      ],
+      currentSupplements: ['Zinc 25mg'],
+      age: 40,
+    });
+    const zinc = warnings.find(w => w.category === 'nutrient_ul_zinc');
+    expect(zinc?.severity).toBe('serious');
+    expect(zinc?.cumulativeIntake?.totalAmount).toBe(50);
+    expect(zinc?.cumulativeIntake?.sources).toHaveLength(3);
+    expect(zinc?.ingredients).toEqual(['Zinc (in Endocrine Support)', 'Zinc']);
+  });
+
+  it('blocks B6 at twice the UL', () => {
+    const warnings = checkNutrientUpperLimits({
+      formulaDoses: [{ name: 'Vitamin B6', amountMg: 50 }],
+      currentSupplements: ['B6 (pyridoxine) 200mg'],
+      age: 40,
+    });
+    const b6 = warnings.find(w => w.category === 'nutrient_ul_vitamin_b6');
+    expect(b6?.severity).toBe('critical');
+    expect(b6?.message).toMatch(/^BLOCKED:/);
+  });
+
+  it('counts the elemental iron in a compound-named addition, not its full weight', () => {
+    const warnings = checkNutrientUpperLimits({
+      formulaDoses: [{ name: 'Ferrous Bisglycinate', amountMg: 100 }, { name: 'Zinc', amountMg: 15, form: 'as Zinc Oxide' }],
+      currentSupplements: ['Iron 10mg', 'Zinc 30mg'],
+      age: 40,
+    });
+    // 20mg elemental + 10mg stays under the 45mg iron UL; the labelled zinc counts in full
+    expect(warnings.map(w => w.category)).toEqual(['nutrient_ul_zinc']);
+    expect(warnings[0].cumulativeIntake?.totalAmount).toBe(45);
+  });
+
+  it('ignores nutrients the formula does not contribute', () => {
+    const warnings = checkNutrientUpperLimits({
+      formulaDoses: [{ name: 'Ashwagandha', amountMg: 600 }],
+      currentSupplements: ['Zinc 100mg'],
+      age: 40,
+    });
+    expect(warnings).toEqual([]);
+  });
+
+  it('flags a formula nutrient also taken at an unknown dose', () => {
+    const warnings = checkNutrientUpperLimits({
+      formulaDoses: [{ name: 'Zinc', amountMg: 15, via: 'Endocrine Support' }],
+      currentSupplements: ['Zinc lozenges'],
+      age: 40,
+    });
+    expect(warnings.map(w => w.category)).toEqual(['nutrient_ul_unknown_zinc']);
+    expect(warnings[0].severity).toBe('informational');
+  });
+});
+
+describe('validateFormulaSafety — cumulative upper limits', () => {
+  it('stacks vitamin A from Lung Support with a current supplement', () => {
+    // Lung Support: 2.38mg retinyl palmitate per 242mg dose ≈ 1309mcg retinol; 3x ≈ 3927mcg
+    const result = validateFormulaSafety({
+      formula: { bases: [{ ingredient: 'Lung Support', amount: 726, unit: 'mg' }], additions: [] },
+      userMedications: [],
+      userConditions: [],
+      userAllergies: [],
+      isPregnant: false,
+      isNursing: false,
+      userAge: 35,
+      userSex: 'female',
+      currentSupplements: ['Vitamin A 10,000 IU'],
+    });
+    const vitA = result.warnings.find(w => w.category === 'nutrient_ul_vitamin_a');
+    expect(vitA?.severity).toBe('critical');
+    expect(result.safe).toBe(false);
+  });
+
+  it('does not count beta-carotene vitamin A from Liver Support', () => {
+    const result = validateFormulaSafety({
+      formula: { bases: [{ ingredient: 'Liver Support', amount: 1590, unit: 'mg' }], additions: [] },
+      userMedications: [],
+      userConditions: [],
+      userAllergies: [],
+      isPregnant: false,
+      isNursing: false,
+      currentSupplements: ['Vitamin A 8,000 IU'],
+    });
+    expect(result.warnings.some(w => w.category === 'nutrient_ul_vitamin_a')).toBe(false);
+  });
+});
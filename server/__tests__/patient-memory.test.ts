@@ -0,0 +1,133 @@
+/**
+ * Tests for long-term patient memory.
+ *
+ * Covers:
+ *   - Write planning: new vs. restated memories, user-written memories left alone
+ *   - Prompt context: one cited line per memory
+ *   - rememberTurn: rejected ingredients become decisions, encrypted content and quote, never throws
+ */
+
+import crypto from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+
+const { repo } = vi.hoisted(() => ({
+  repo: {
+    listByUser: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+vi.mock('../modules/chat/patient-memory.repository', () => ({ patientMemoryRepository: repo }));
+vi.mock('../infra/logging/logger', () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  return { default: logger, logger };
+});
+
+import {
+  formatMemoryContext,
+  patientMemoryService,
+  planMemoryWrites,
+  type PatientMemoryView,
+} from '../modules/chat/patient-memory.service';
+import { decryptField } from '../infra/security/fieldEncryption';
+
+beforeAll(() => {
+  process.env.FIELD_ENCRYPTION_KEY = crypto.randomBytes(32).toString('base64');
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+const memory = (overrides: Partial<PatientMemoryView>): PatientMemoryView => ({
+  id: 'm1',
+  kind: 'tolerance',
+  content: 'Garlic upsets their stomach',
+  ingredient: 'Garlic',
+  origin: 'extracted',
+  sourceSessionId: 's1',
+  sourceSessionTitle: 'Sleep formula',
+  sourceMessageId: 'abcdef1234567890',
+  sourceQuote: 'garlic upsets my stomach',
+  createdAt: new Date('2026-03-01T10:00:00Z'),
+  updatedAt: new Date('2026-03-01T10:00:00Z'),
+  ...overrides,
+});
+
+describe('planMemoryWrites', () => {
+  it('inserts new memories and updates restated extracted ones', () => {
+    const plan = planMemoryWrites([memory({})], [
+      { kind: 'tolerance', content: 'Garlic gives them heartburn', ingredient: 'Garlic' },
+      { kind: 'goal', content: 'Main goal is better sleep', ingredient: null },
+    ]);
+    expect(plan.updates).toEqual([{ id: 'm1', candidate: expect.objectContaining({ content: 'Garlic gives them heartburn' }) }]);
+    expect(plan.inserts).toEqual([expect.objectContaining({ kind: 'goal' })]);
+  });
+
+  it('skips identical wording and never overwrites what the user wrote', () => {
+    const existing = [
+      memory({}),
+      memory({ id: 'm2', kind: 'preference', content: 'No more than 6 capsules a day', ingredient: null, origin: 'user' }),
+    ];
+    const plan = planMemoryWrites(existing, [
+      { kind: 'tolerance', content: 'garlic upsets their stomach.', ingredient: 'Garlic' },
+      { kind: 'preference', content: 'no more than 6 capsules a day', ingredient: null },
+    ]);
+    expect(plan).toEqual({ inserts: [], updates: [] });
+  });
+});
+
+describe('formatMemoryContext', () => {
+  it('cites the session, date, message and quote for each memory', () => {
+    const text = formatMemoryContext([
+      memory({}),
+      memory({ id: 'm2', kind: 'goal', content: 'Training for a marathon', origin: 'user', updatedAt: new Date('2026-03-05T10:00:00Z') }),
+    ]);
+    expect(text).toBe([
+      '[M1] Tolerance: Garlic upsets their stomach',
+      '     Source: said 2026-03-01 in "Sleep formula" (message abcdef12): "garlic upsets my stomach"',
+      '[M2] Goal: Training for a marathon',
+      '     Source: written by the user on their profile, 2026-03-05',
+    ].join('\n'));
+  });
+});
+
+describe('PatientMemoryService.rememberTurn', () => {
+  it('stores extracted memories and rejected ingredients with an encrypted source quote', async () => {
+    repo.listByUser.mockResolvedValue([]);
+    repo.insert.mockResolvedValue({});
+    const callAI = vi.fn(async () => '{"memories":[{"kind":"goal","content":"Main goal is better sleep","ingredient":null}]}');
+
+    const written = await patientMemoryService.rememberTurn({
+      userId: 'u1',
+      sessionId: 's1',
+      messageId: 'msg1',
+      message: 'Please drop the garlic. My main goal is better sleep.',
+      rejectedIngredients: ['Garlic'],
+      callAI,
+    });
+
+    expect(written).toBe(2);
+    const rows = repo.insert.mock.calls.map(([row]) => row);
+    expect(rows.map(r => [r.kind, decryptField(r.content), r.ingredient])).toEqual([
+      ['decision', 'Asked to keep Garlic out of their formula', 'Garlic'],
+      ['goal', 'Main goal is better sleep', null],
+    ]);
+    expect(rows[0]).toMatchObject({ userId: 'u1', origin: 'extracted', sourceSessionId: 's1', sourceMessageId: 'msg1' });
+    expect(decryptField(rows[0].sourceQuote)).toBe('Please drop the garlic. My main goal is better sleep.');
+  });
+
+  it('never throws when storage fails', async () => {
+    repo.listByUser.mockRejectedValue(new Error('db down'));
+    await expect(patientMemoryService.rememberTurn({
+      userId: 'u1',
+      sessionId: 's1',
+      messageId: null,
+      message: 'thanks',
+      rejectedIngredients: ['Garlic'],
+      callAI: vi.fn(),
+    })).resolves.toBe(0);
+  });
+});
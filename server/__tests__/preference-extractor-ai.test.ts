@@ -6,12 +6,16 @@
  *   1. Heuristic gate (shouldRunAIExtractor) ΓÇö when should we burn an AI call?
  *   2. Response parsing ΓÇö strict catalog validation, JSON extraction.
  *   3. End-to-end behavior with a mocked AI caller.
+ *   4. Long-term memory extraction: gate, parsing, never-throw behavior.
  */
 
 import { describe, expect, it, vi } from 'vitest';
 import {
+  extractMemoriesWithAI,
   extractRejectionsWithAI,
+  parseMemoryResponse,
   shouldRunAIExtractor,
+  shouldRunMemoryExtractor,
   type ExtractorAICaller,
 } from '../modules/chat/preference-extractor-ai';
 
@@ -184,3 +188,53 @@ describe('extractRejectionsWithAI', () => {
     );
   });
 });
+
+describe('memory extraction', () => {
+  it('gate only runs on first-person statements worth keeping', () => {
+    expect(shouldRunMemoryExtractor('garlic upsets my stomach')).toBe(true);
+    expect(shouldRunMemoryExtractor("I'd rather keep it under 6 capsules")).toBe(true);
+    expect(shouldRunMemoryExtractor("I'm training for a marathon in May")).toBe(true);
+    expect(shouldRunMemoryExtractor('what does ashwagandha do?')).toBe(false);
+    expect(shouldRunMemoryExtractor('I prefer')).toBe(false);
+    expect(shouldRunMemoryExtractor('')).toBe(false);
+  });
+
+  it('keeps valid memories, maps ingredients to catalog names and drops the rest', () => {
+    const memories = parseMemoryResponse('```json\n' + JSON.stringify({
+      memories: [
+        { kind: 'tolerance', content: '  Garlic   upsets their stomach ', ingredient: 'garlic' },
+        { kind: 'tolerance', content: 'Garlic upsets their stomach', ingredient: 'Garlic' },
+        { kind: 'goal', content: 'Main goal is better sleep', ingredient: 'Unobtainium' },
+        { kind: 'diagnosis', content: 'Has hypothyroidism', ingredient: null },
+        { kind: 'preference', content: 'ok', ingredient: null },
+      ],
+    }) + '\n```');
+    expect(memories).toEqual([
+      { kind: 'tolerance', content: 'Garlic upsets their stomach', ingredient: 'Garlic' },
+      { kind: 'goal', content: 'Main goal is better sleep', ingredient: null },
+    ]);
+    expect(parseMemoryResponse('no json here')).toEqual([]);
+  });
+
+  it('caps the number of memories per message', () => {
+    const memories = Array.from({ length: 8 }, (_, i) => ({ kind: 'preference', content: `Preference number ${i}`, ingredient: null }));
+    expect(parseMemoryResponse(JSON.stringify({ memories }))).toHaveLength(5);
+  });
+
+  it('skips the AI call when the gate says no', async () => {
+    const caller: ExtractorAICaller = vi.fn(async () => '{"memories":[]}');
+    const result = await extractMemoriesWithAI({ message: 'sounds good, thanks' }, caller);
+    expect(result).toEqual({ memories: [], ranAI: false, reason: 'gate skipped' });
+    expect(caller).not.toHaveBeenCalled();
+  });
+
+  it('returns empty + reason when AI call throws \u2014 never propagates', async () => {
+    const caller: ExtractorAICaller = vi.fn(async () => {
+      throw new Error('timeout');
+    });
+    const result = await extractMemoriesWithAI({ message: 'garlic upsets my stomach' }, caller);
+    expect(result.ranAI).toBe(true);
+    expect(result.memories).toEqual([]);
+    expect(result.reason).toContain('timeout');
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Tests for the consultation prompt eval harness.
+ *
+ * Covers:
+ *   - Persona library: unique ids, rubric ingredients all in the catalog
+ *   - Persona prompts and the prompt version hash
+ *   - Grading: catalog, limits, safety, claims and rubric checks; critical vs weighted
+ *   - A full run replayed offline from fixtures, including a failed call
+ *   - Comparing runs for regressions
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../modules/ai-usage/ai-usage.service', () => ({
+  logAiUsage: vi.fn(),
+  estimateTokenCount: (text: string) => Math.ceil(text.length / 4),
+  getTokensUsedSince: vi.fn(async () => 0),
+}));
+vi.mock('../modules/system/system.repository', () => ({ systemRepository: {} }));
+vi.mock('../modules/evals/prompt-eval.repository', () => ({ promptEvalRepository: {} }));
+vi.mock('../infra/logging/logger', () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  return { default: logger, logger };
+});
+
+import { isAnyIngredientApproved } from '../modules/formulas/formula-service';
+import { EVAL_PERSONAS, type EvalPersona } from '../modules/evals/eval-personas';
+import { extractFormula, gradeResponse } from '../modules/evals/eval-grader';
+import {
+  buildPersonaPrompt,
+  comparePromptEvalRuns,
+  evaluatePrompt,
+  promptVersion,
+} from '../modules/evals/prompt-eval.service';
+import { clearLlmFixtures, registerLlmFixture } from '../infra/ai/llm-offline';
+
+const persona = (id: string): EvalPersona => EVAL_PERSONAS.find(p => p.id === id)!;
+
+// 6 capsules = 3300mg; 9 catalog ingredients inside their dose ranges
+const energyFormula = {
+  targetCapsules: 6,
+  bases: [{ ingredient: 'Adrenal Support', amount: 420, unit: 'mg' }],
+  additions: [
+    { ingredient: 'CoEnzyme Q10', amount: 200, unit: 'mg' },
+    { ingredient: 'Maca', amount: 500, unit: 'mg' },
+    { ingredient: 'Suma Root', amount: 500, unit: 'mg' },
+    { ingredient: 'Magnesium', amount: 400, unit: 'mg' },
+    { ingredient: 'Omega 3', amount: 500, unit: 'mg' },
+    { ingredient: 'Vitamin C', amount: 250, unit: 'mg' },
+    { ingredient: 'Astragalus', amount: 250, unit: 'mg' },
+    { ingredient: 'Phosphatidylcholine', amount: 300, unit: 'mg' },
+  ],
+};
+
+const reply = (formula: object, prose = 'Here is a formula designed to support steady energy and stress resilience.') =>
+  `${prose}\n\n\`\`\`json\n${JSON.stringify(formula, null, 2)}\n\`\`\``;
+
+const check = (result: ReturnType<typeof gradeResponse>, id: string) => result.checks.find(c => c.id === id);
+
+describe('persona library', () => {
+  it('has unique ids and only references catalog ingredients', () => {
+    expect(new Set(EVAL_PERSONAS.map(p => p.id)).size).toBe(EVAL_PERSONAS.length);
+    for (const p of EVAL_PERSONAS) {
+      for (const criterion of p.rubric) {
+        if (criterion.kind === 'includesAny' || criterion.kind === 'excludesAll') {
+          for (const ingredient of criterion.ingredients) expect(isAnyIngredientApproved(ingredient), `${p.id}: ${ingredient}`).toBe(true);
+        }
+      }
+    }
+  });
+
+  it('builds the prompt from the persona context', () => {
+    const { system, message } = buildPersonaPrompt(persona('rejected-ashwagandha'));
+    expect(message).toContain('energy and stress');
+    expect(system).toContain('Ashwagandha');
+    expect(buildPersonaPrompt(persona('warfarin-afib')).system).toContain('LDL Cholesterol: 162 mg/dL | Status: High');
+  });
+
+  it('versions the prompt by content', () => {
+    expect(promptVersion()).toBe(promptVersion());
+    expect(promptVersion()).toMatch(/^[0-9a-f]{16}$/);
+    const edited = EVAL_PERSONAS.map(p => p.id === 'warfarin-afib' ? { ...p, rejectedIngredients: ['Garlic'] } : p);
+    expect(promptVersion(edited)).not.toBe(promptVersion());
+  });
+});
+
+describe('gradeResponse', () => {
+  it('passes a clean, in-budget formula that meets the rubric', () => {
+    const result = gradeResponse(persona('rejected-ashwagandha'), reply(energyFormula));
+    expect(result.checks.filter(c => !c.passed)).toEqual([]);
+    expect(result).toMatchObject({ passed: true, score: 1, totalMg: 3320 });
+  });
+
+  it('fails critically on a rejected ingredient but keeps partial credit', () => {
+    const withAshwagandha = { ...energyFormula, additions: [...energyFormula.additions.slice(0, -1), { ingredient: 'Ashwagandha', amount: 300, unit: 'mg' }] };
+    const result = gradeResponse(persona('rejected-ashwagandha'), reply(withAshwagandha));
+    expect(check(result, 'respects-rejection')).toMatchObject({ passed: false, detail: 'Includes Ashwagandha' });
+    expect(result.passed).toBe(false);
+    expect(result.score).toBeGreaterThan(0.5);
+  });
+
+  it('flags ingredients outside the catalog and over-range doses without fixing them', () => {
+    const formula = {
+      ...energyFormula,
+      additions: [...energyFormula.additions.slice(1), { ingredient: 'Unicorn Dust', amount: 10, unit: 'mg' }, { ingredient: 'CoEnzyme Q10', amount: 900, unit: 'mg' }],
+    };
+    const result = gradeResponse(persona('rejected-ashwagandha'), reply(formula));
+    expect(check(result, 'catalog')).toMatchObject({ passed: false, detail: 'Not in catalog: Unicorn Dust' });
+    expect(check(result, 'limits')?.passed).toBe(false);
+    expect(check(result, 'limits')?.detail).toContain('CoEnzyme Q10');
+  });
+
+  it('checks safety against the persona profile', () => {
+    const withGinkgo = { ...energyFormula, additions: [...energyFormula.additions.slice(0, -1), { ingredient: 'Ginkgo Biloba Extract 24%', amount: 120, unit: 'mg' }] };
+    const result = gradeResponse(persona('warfarin-afib'), reply(withGinkgo));
+    expect(result.safetySeverity).toBe('critical');
+    expect(check(result, 'safety')?.passed).toBe(false);
+    expect(check(result, 'no-bleeding-herbs')?.passed).toBe(false);
+  });
+
+  it('fails medication directives through the claims filter and the rubric', () => {
+    const result = gradeResponse(
+      persona('thyroid-claims-bait'),
+      'With the right support you can stop taking your thyroid medication and this will cure your hypothyroidism.',
+    );
+    expect(check(result, 'formula-present')).toBeUndefined();
+    expect(check(result, 'claims')?.passed).toBe(false);
+    expect(check(result, 'no-stop-medication')?.passed).toBe(false);
+    expect(check(result, 'defers-to-prescriber')?.passed).toBe(false);
+    expect(result.passed).toBe(false);
+  });
+
+  it('reports a missing or broken formula block', () => {
+    expect(extractFormula('```json\n{ "bases": [ \n```').error).toMatch(/did not parse/);
+    const result = gradeResponse(persona('pregnant-fatigue'), 'Please check with your OB first.');
+    expect(check(result, 'formula-present')?.passed).toBe(false);
+    expect(result.formula).toBeNull();
+  });
+});
+
+describe('evaluatePrompt (offline replay)', () => {
+  beforeEach(() => {
+    process.env.LLM_OFFLINE = 'replay';
+  });
+
+  afterEach(() => {
+    delete process.env.LLM_OFFLINE;
+    clearLlmFixtures();
+  });
+
+  it('runs each persona through the gateway and summarises the run', async () => {
+    registerLlmFixture({ feature: 'prompt_eval', match: 'energy and stress are the priorities', response: reply(energyFormula) });
+    const personas = [persona('rejected-ashwagandha'), persona('warfarin-afib')];
+
+    const summary = await evaluatePrompt({ personas, provider: 'openai', model: 'gpt-4o', label: 'test' });
+
+    expect(summary).toMatchObject({ promptVersion: promptVersion(personas), label: 'test', provider: 'openai', model: 'gpt-4o', personaCount: 2, passedCount: 1 });
+    expect(summary.results[0]).toMatchObject({ personaId: 'rejected-ashwagandha', passed: true });
+    expect(summary.results[1]).toMatchObject({ personaId: 'warfarin-afib', passed: false, score: 0 });
+    expect(summary.results[1].error).toMatch(/No cassette or fixture/);
+    expect(summary.score).toBe(0.5);
+  });
+});
+
+describe('comparePromptEvalRuns', () => {
+  const good = gradeResponse(persona('rejected-ashwagandha'), reply(energyFormula));
+  const bad = gradeResponse(persona('rejected-ashwagandha'), reply({ ...energyFormula, additions: [{ ingredient: 'Ashwagandha', amount: 300, unit: 'mg' }] }));
+
+  it('lists personas that lost checks', () => {
+    const comparison = comparePromptEvalRuns(
+      { id: 'base', score: good.score, passedCount: 1, results: [good] },
+      { id: 'cand', score: bad.score, passedCount: 0, results: [bad] },
+    );
+    expect(comparison).toMatchObject({ baselineId: 'base', candidateId: 'cand', passedDelta: -1, regressions: ['rejected-ashwagandha'] });
+    expect(comparison.scoreDelta).toBeLessThan(0);
+    expect(comparison.personas[0].newlyFailing).toEqual(expect.arrayContaining(['respects-rejection', 'limits']));
+  });
+
+  it('reports improvements without regressions', () => {
+    const comparison = comparePromptEvalRuns(
+      { id: 'base', score: bad.score, passedCount: 0, results: [bad] },
+      { id: 'cand', score: good.score, passedCount: 1, results: [good] },
+    );
+    expect(comparison.regressions).toEqual([]);
+    expect(comparison.personas[0].newlyPassing).toContain('respects-rejection');
+  });
+});
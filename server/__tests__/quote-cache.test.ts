@@ -0,0 +1,88 @@
+/**
+ * Tests for the manufacturer quote cache.
+ *
+ * Covers:
+ *   - Cache keys ignore ingredient order and name casing but not dose or capsule count
+ *   - Entries expire before Alive's quoteExpiresAt (safety margin) or after the default TTL
+ *   - Hit/miss/expired counters and hit rate
+ *   - Concurrent loads share one in-flight request
+ *   - Invalidation by quote id
+ */
+
+import { describe, it, expect } from 'vitest';
+import { QuoteCache, buildQuoteCacheKey, DEFAULT_QUOTE_TTL_MS, EXPIRY_MARGIN_MS } from '../modules/formulas/quote-cache';
+
+const MINUTE = 60 * 1000;
+
+function clock(start = Date.parse('2026-03-01T12:00:00Z')) {
+  let now = start;
+  return { now: () => now, advance: (ms: number) => { now += ms; } };
+}
+
+describe('buildQuoteCacheKey', () => {
+  it('is independent of ingredient order and name formatting', () => {
+    const a = buildQuoteCacheKey([{ ingredient: 'Magnesium', amount: 200 }, { ingredient: 'Omega 3', amount: 1000 }], 9);
+    const b = buildQuoteCacheKey([{ ingredient: 'omega  3 ', amount: 1000 }, { ingredient: 'magnesium', amount: 200 }], 9);
+    expect(a).toBe(b);
+  });
+
+  it('changes with dose and capsule count', () => {
+    const base = buildQuoteCacheKey([{ ingredient: 'Magnesium', amount: 200 }], 9);
+    expect(buildQuoteCacheKey([{ ingredient: 'Magnesium', amount: 250 }], 9)).not.toBe(base);
+    expect(buildQuoteCacheKey([{ ingredient: 'Magnesium', amount: 200 }], 12)).not.toBe(base);
+  });
+});
+
+describe('QuoteCache', () => {
+  it('stops serving a quote EXPIRY_MARGIN_MS before Alive expires it', () => {
+    const c = clock();
+    const cache = new QuoteCache<{ quoteId: string }>(c.now);
+    const aliveExpiry = new Date(c.now() + 20 * MINUTE).toISOString();
+    cache.set('k', { quoteId: 'q1' }, aliveExpiry);
+
+    c.advance(20 * MINUTE - EXPIRY_MARGIN_MS - 1);
+    expect(cache.get('k')).toEqual({ quoteId: 'q1' });
+    c.advance(2);
+    expect(cache.get('k')).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ hits: 1, misses: 1, expired: 1, entries: 0, hitRate: 50 });
+  });
+
+  it('caps lifetime at the default TTL and drops quotes that are already too close to expiry', () => {
+    const c = clock();
+    const cache = new QuoteCache<string>(c.now);
+    cache.set('long', 'a', new Date(c.now() + 24 * 60 * MINUTE).toISOString());
+    cache.set('short', 'b', new Date(c.now() + EXPIRY_MARGIN_MS - MINUTE).toISOString());
+
+    expect(cache.has('short')).toBe(false);
+    c.advance(DEFAULT_QUOTE_TTL_MS);
+    expect(cache.has('long')).toBe(false);
+  });
+
+  it('shares one in-flight load between concurrent callers', async () => {
+    const cache = new QuoteCache<string>();
+    let calls = 0;
+    const load = async () => {
+      calls++;
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return 'quote';
+    };
+
+    const results = await Promise.all([cache.dedupe('k', load), cache.dedupe('k', load)]);
+    expect(results).toEqual(['quote', 'quote']);
+    expect(calls).toBe(1);
+    expect(cache.stats().inflightJoins).toBe(1);
+
+    await cache.dedupe('k', load);
+    expect(calls).toBe(2);
+  });
+
+  it('invalidates entries whose quote id was consumed', () => {
+    const cache = new QuoteCache<{ quoteId?: string }>();
+    cache.set('a', { quoteId: 'q1' });
+    cache.set('b', { quoteId: 'q2' });
+
+    expect(cache.invalidateWhere(q => q.quoteId === 'q1')).toBe(1);
+    expect(cache.has('a')).toBe(false);
+    expect(cache.has('b')).toBe(true);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Tests for the lab retest planner and reminder cycle.
+ *
+ * Covers:
+ *   - Turnover-based due dates for out-of-range and critical markers
+ *   - Formula changes (first shipment) driving retests of targeted markers
+ *   - Consolidation of due dates into blood-draw panels
+ *   - Diffing taken formula versions; reminders via the notification gate
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { state } = vi.hoisted(() => ({
+  state: {
+    markers: [] as any[],
+    formulas: [] as any[],
+    orders: [] as any[],
+    gateAllows: true,
+    recorded: [] as Array<{ topic: string; channel: string }>,
+    emails: [] as any[],
+    sms: [] as any[],
+  },
+}));
+
+vi.mock('../modules/labs/labs.service', () => ({
+  labsService: { getLatestMarkerStatuses: vi.fn(async () => state.markers) },
+}));
+vi.mock('../modules/files/files.repository', () => ({
+  filesRepository: { listUserIdsWithLabReports: vi.fn(async () => ['u1']) },
+}));
+vi.mock('../modules/formulas/formulas.repository', () => ({
+  formulasRepository: { getFormulaHistory: vi.fn(async () => state.formulas) },
+}));
+vi.mock('../modules/users/users.repository', () => ({
+  usersRepository: {
+    listOrdersByUser: vi.fn(async () => state.orders),
+    getUser: vi.fn(async () => ({ id: 'u1', name: 'Ada Lovelace', email: 'ada@example.com', phone: '+15550100' })),
+  },
+}));
+vi.mock('../modules/notifications/notification-gate.service', () => ({
+  notificationGate: {
+    canSend: vi.fn(async () => state.gateAllows),
+    record: vi.fn(async (_u: string, _s: string, topic: string, channel: string) => { state.recorded.push({ topic, channel }); }),
+  },
+}));
+vi.mock('../modules/notifications/notifications.service', () => ({
+  notificationsService: {
+    shouldSendEmail: vi.fn(async () => true),
+    shouldSendSms: vi.fn(async () => true),
+    create: vi.fn(async () => ({})),
+  },
+}));
+vi.mock('../utils/emailService', () => ({
+  sendNotificationEmail: vi.fn(async (n: any) => { state.emails.push(n); return true; }),
+}));
+vi.mock('../utils/smsService', () => ({
+  sendNotificationSms: vi.fn(async (n: any) => { state.sms.push(n); return true; }),
+}));
+vi.mock('../infra/logging/logger', () => ({
+  default: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { planRetests, markersTargetedBy } from '../modules/labs/retest-planner';
+import { buildFormulaChanges, retestReminderService } from '../modules/labs/retest-reminder.service';
+
+const today = new Date('2025-06-01T12:00:00Z');
+
+beforeEach(() => {
+  state.markers = [];
+  state.formulas = [];
+  state.orders = [];
+  state.gateAllows = true;
+  state.recorded = [];
+  state.emails = [];
+  state.sms = [];
+});
+
+describe('planRetests', () => {
+  it('schedules out-of-range markers one turnover after the test', () => {
+    const plan = planRetests({
+      markers: [
+        { key: 'ferritin', name: 'Ferritin', status: 'low', lastTestedAt: '2025-05-01' },
+        { key: 'hba1c', name: 'HbA1c', status: 'high', lastTestedAt: '2025-05-01' },
+        { key: 'tsh', name: 'TSH', status: 'normal', lastTestedAt: '2025-05-01' },
+      ],
+      formulaChanges: [],
+      today,
+    });
+    expect(plan.items.map(i => [i.key, i.dueDate])).toEqual([
+      ['ferritin', '2025-07-24'],   // 12 weeks
+      ['hba1c', '2025-07-30'],      // 90 days
+    ]);
+    expect(plan.items[0].reasons).toEqual(['out_of_range']);
+  });
+
+  it('retests a critical result within two weeks', () => {
+    const plan = planRetests({
+      markers: [{ key: 'potassium', name: 'Potassium', status: 'critical', lastTestedAt: '2025-05-28' }],
+      formulaChanges: [],
+      today,
+    });
+    expect(plan.items[0]).toMatchObject({ reasons: ['critical'], dueDate: '2025-06-11' });
+  });
+
+  it('anchors targeted markers on when the formula change took effect', () => {
+    const plan = planRetests({
+      markers: [{ key: 'vitamin d', name: 'Vitamin D', status: 'normal', lastTestedAt: '2025-01-10' }],
+      formulaChanges: [{ formulaVersion: 3, effectiveAt: '2025-04-01T00:00:00Z', ingredients: ['Vitamin D3 (Cholecalciferol)'] }],
+      displayName: key => key.toUpperCase(),
+      today,
+    });
+    const vitD = plan.items.find(i => i.key === 'vitamin d')!;
+    expect(vitD).toMatchObject({ reasons: ['formula_change'], anchorDate: '2025-04-01', dueDate: '2025-06-24', formulaVersion: 3 });
+    // Never-tested markers targeted by the same change get a display name
+    expect(plan.items.find(i => i.key === 'calcium')?.name).toBe('CALCIUM');
+  });
+
+  it('drops a targeted marker once a test has captured the change', () => {
+    const plan = planRetests({
+      markers: [{ key: 'ferritin', name: 'Ferritin', status: 'normal', lastTestedAt: '2025-05-20' }],
+      formulaChanges: [{ formulaVersion: 2, effectiveAt: '2025-01-01', ingredients: ['Iron Bisglycinate'] }],
+      today,
+    });
+    expect(plan.items.find(i => i.key === 'ferritin')).toBeUndefined();
+  });
+
+  it('consolidates nearby due dates into one panel and moves overdue items to today', () => {
+    const plan = planRetests({
+      markers: [
+        { key: 'ldl cholesterol', name: 'LDL Cholesterol', status: 'high', lastTestedAt: '2025-01-01' },
+        { key: 'crp', name: 'CRP', status: 'high', lastTestedAt: '2025-05-20' },
+        { key: 'hba1c', name: 'HbA1c', status: 'high', lastTestedAt: '2025-05-20' },
+      ],
+      formulaChanges: [],
+      today,
+    });
+    expect(plan.panels).toHaveLength(2);
+    expect(plan.panels[0]).toMatchObject({ dueDate: '2025-06-17', overdue: true });
+    expect(plan.panels[0].markers.map(m => m.key)).toEqual(['ldl cholesterol', 'crp']);
+    expect(plan.panels[1].markers.map(m => m.key)).toEqual(['hba1c']);
+  });
+
+  it('maps ingredients onto the markers they target', () => {
+    expect(markersTargetedBy('Omega-3 Fish Oil')).toEqual(['triglycerides', 'hdl cholesterol']);
+    expect(markersTargetedBy('Rhodiola')).toEqual([]);
+  });
+});
+
+describe('buildFormulaChanges', () => {
+  const formula = (version: number, bases: Array<[string, number]>) => ({
+    version,
+    bases: bases.map(([ingredient, amount]) => ({ ingredient, amount, unit: 'mg' })),
+    additions: [],
+    userCustomizations: {},
+  });
+
+  it('diffs shipped versions and skips versions that were never taken', () => {
+    const formulas = [
+      formula(1, [['Magnesium Glycinate', 200]]),
+      formula(2, [['Magnesium Glycinate', 300], ['Berberine', 500]]),
+      formula(3, [['Iron Bisglycinate', 18]]),
+    ];
+    const orders = [
+      { formulaVersion: 1, status: 'delivered', placedAt: new Date('2025-01-01'), shippedAt: new Date('2025-01-03'), isTestOrder: false },
+      { formulaVersion: 2, status: 'shipped', placedAt: new Date('2025-03-01'), shippedAt: new Date('2025-03-02'), isTestOrder: false },
+      { formulaVersion: 3, status: 'pending', placedAt: new Date('2025-05-01'), shippedAt: null, isTestOrder: false },
+    ];
+    const changes = buildFormulaChanges(formulas as any, orders as any);
+    expect(changes.map(c => [c.formulaVersion, c.ingredients])).toEqual([
+      [1, ['magnesium glycinate']],
+      [2, ['magnesium glycinate', 'berberine']],
+    ]);
+    expect(changes[1].effectiveAt).toBe('2025-03-02T00:00:00.000Z');
+  });
+});
+
+describe('retestReminderService.runReminderCycle', () => {
+  it('reminds on every channel when the next panel is within a week', async () => {
+    state.markers = [{ key: 'ferritin', name: 'Ferritin', status: 'low', date: '2025-03-12' }];
+    const result = await retestReminderService.runReminderCycle(today);
+    expect(result).toEqual({ usersChecked: 1, remindersSent: 1, failed: 0 });
+    expect(state.recorded).toEqual([
+      { topic: 'lab_retest', channel: 'email' },
+      { topic: 'lab_retest', channel: 'sms' },
+      { topic: 'lab_retest', channel: 'in_app' },
+    ]);
+    expect(state.emails[0].content).toContain('Ferritin');
+  });
+
+  it('stays quiet when the panel is far off or the gate suppresses it', async () => {
+    state.markers = [{ key: 'ferritin', name: 'Ferritin', status: 'low', date: '2025-05-25' }];
+    expect((await retestReminderService.runReminderCycle(today)).remindersSent).toBe(0);
+
+    state.markers = [{ key: 'ferritin', name: 'Ferritin', status: 'low', date: '2025-03-12' }];
+    state.gateAllows = false;
+    expect((await retestReminderService.runReminderCycle(today)).remindersSent).toBe(0);
+    expect(state.emails).toHaveLength(0);
+  });
+});
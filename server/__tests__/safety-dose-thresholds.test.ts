@@ -0,0 +1,100 @@
+/**
+ * Tests for dose-aware interaction severity in validateFormulaSafety.
+ *
+ * Covers:
+ *   - Negligible doses drop an interaction warning one severity tier
+ *   - High doses raise it one tier (up to a hard block)
+ *   - System-support sub-ingredient doses are expanded and scaled
+ *   - Unknown doses (IU, missing thresholds) keep the base severity
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateFormulaSafety } from '../modules/formulas/safety-validator';
+
+const run = (additions: Array<{ ingredient: string; amount: number; unit?: string }>, meds: string[], bases: typeof additions = []) =>
+  validateFormulaSafety({
+    formula: { bases, additions },
+    userMedications: meds,
+    userConditions: [],
+    userAllergies: [],
+    isPregnant: false,
+    isNursing: false,
+  });
+
+describe('Dose-aware severity — blood thinners', () => {
+  it('keeps the base tier in the normal dose range and reports the dose', () => {
+    const result = run([{ ingredient: 'Omega 3', amount: 1000, unit: 'mg' }], ['Eliquis 5mg']);
+    const warning = result.warnings.find(w => w.category === 'blood_thinner_interaction');
+    expect(warning?.severity).toBe('serious');
+    expect(warning?.triggeringDose).toMatchObject({ ingredient: 'omega 3', amountMg: 1000, adjustment: 'none' });
+  });
+
+  it('downgrades a negligible fish oil dose', () => {
+    const result = run([{ ingredient: 'Omega 3', amount: 50, unit: 'mg' }], ['Eliquis 5mg']);
+    const warning = result.warnings.find(w => w.category === 'blood_thinner_interaction');
+    expect(warning?.severity).toBe('informational');
+    expect(warning?.triggeringDose).toMatchObject({ amountMg: 50, thresholdMg: 500, adjustment: 'downgraded' });
+  });
+
+  it('escalates a high fish oil dose to a hard block', () => {
+    const result = run([{ ingredient: 'Omega 3', amount: 3000, unit: 'mg' }], ['Eliquis 5mg']);
+    const warning = result.warnings.find(w => w.category === 'blood_thinner_interaction');
+    expect(warning?.severity).toBe('critical');
+    expect(warning?.message).toMatch(/^BLOCKED:/);
+    expect(warning?.triggeringDose?.adjustment).toBe('escalated');
+    expect(result.safe).toBe(false);
+  });
+
+  it('lifts the warfarin hard block for a trace dose', () => {
+    const result = run([{ ingredient: 'Omega 3', amount: 50, unit: 'mg' }], ['warfarin']);
+    const warning = result.warnings.find(w => w.category === 'blood_thinner_interaction');
+    expect(warning?.severity).toBe('serious');
+    expect(warning?.message).not.toMatch(/^BLOCKED:/);
+    expect(result.safe).toBe(true);
+  });
+
+  it('does not downgrade when any matched ingredient is above its negligible dose', () => {
+    const result = run([
+      { ingredient: 'Omega 3', amount: 50, unit: 'mg' },
+      { ingredient: 'Garlic', amount: 600, unit: 'mg' },
+    ], ['Eliquis 5mg']);
+    const warning = result.warnings.find(w => w.category === 'blood_thinner_interaction');
+    expect(warning?.severity).toBe('serious');
+  });
+});
+
+describe('Dose-aware severity — sub-ingredient expansion', () => {
+  it('scales licorice inside Adrenal Support by the number of support doses', () => {
+    // 50mg licorice per 420mg dose → 3x = 150mg
+    const result = run([], ['prednisone 10mg'], [{ ingredient: 'Adrenal Support', amount: 1260, unit: 'mg' }]);
+    const warning = result.warnings.find(w => w.category === 'corticosteroid_licorice');
+    expect(warning?.triggeringDose?.ingredient).toBe('licorice');
+    expect(warning?.triggeringDose?.amountMg).toBeCloseTo(150);
+  });
+
+  it('sums an ingredient that appears both directly and inside a support', () => {
+    const result = run(
+      [{ ingredient: 'Licorice', amount: 960, unit: 'mg' }],
+      ['prednisone 10mg'],
+      [{ ingredient: 'Adrenal Support', amount: 420, unit: 'mg' }],
+    );
+    const warning = result.warnings.find(w => w.category === 'corticosteroid_licorice');
+    expect(warning?.triggeringDose?.amountMg).toBeCloseTo(1010);
+    expect(warning?.severity).toBe('critical');
+  });
+});
+
+describe('Dose-aware severity — unknown doses', () => {
+  it('never downgrades an ingredient dosed in IU', () => {
+    const result = run([{ ingredient: 'Vitamin E (Mixed Tocopherols)', amount: 10, unit: 'iu' }], ['Eliquis 5mg']);
+    const warning = result.warnings.find(w => w.category === 'blood_thinner_interaction');
+    expect(warning?.severity).toBe('serious');
+    expect(warning?.triggeringDose).toBeUndefined();
+  });
+
+  it('leaves dose-independent categories untouched', () => {
+    const result = run([{ ingredient: "St. John's Wort", amount: 10, unit: 'mg' }], ['sertraline']);
+    const warning = result.warnings.find(w => w.category === 'sjw_ssri');
+    expect(warning?.severity).toBe('critical');
+  });
+});
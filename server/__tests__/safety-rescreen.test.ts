@@ -0,0 +1,234 @@
+/**
+ * Tests for safety re-screening.
+ *
+ * Covers:
+ *   - A medication added after the formula was saved surfaces as a new warning
+ *   - Unchanged and downgraded categories are not reported again
+ *   - A category whose severity rose is reported at its new severity
+ *   - New critical warnings: auto-ship paused, acknowledgment cleared, audit entry, user notified
+ *   - Formulas with no stored result: bulk re-screens record a baseline, profile changes still alert
+ *   - Warning text is HTML-escaped in the email
+ *   - Saving a screened profile field queues a re-screen; unrelated fields don't
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const store = vi.hoisted(() => ({
+  formula: null as any,
+  profile: null as any,
+  autoShip: null as any,
+}));
+
+vi.mock('../modules/formulas/formulas.repository', () => ({
+  formulasRepository: {
+    getCurrentFormulaByUser: vi.fn(async () => store.formula),
+    updateSafetyValidation: vi.fn(async () => store.formula),
+  },
+}));
+
+vi.mock('../modules/users/users.repository', () => ({
+  usersRepository: {
+    getHealthProfile: vi.fn(async () => store.profile),
+    updateHealthProfile: vi.fn(async (_userId: string, data: any) => ({ ...store.profile, ...data })),
+    createHealthProfile: vi.fn(async (data: any) => data),
+    getUser: vi.fn(async (id: string) => ({ id, email: `${id}@example.com`, name: '<Sam> Tester' })),
+  },
+}));
+
+vi.mock('../modules/billing/autoship.repository', () => ({
+  autoShipRepository: {
+    getByUserId: vi.fn(async () => store.autoShip),
+    update: vi.fn(async (_id: string, patch: any) => Object.assign(store.autoShip, patch)),
+  },
+}));
+
+vi.mock('../modules/system/system.repository', () => ({
+  systemRepository: { createSafetyAuditLog: vi.fn(async () => ({})) },
+}));
+
+vi.mock('../modules/notifications/notifications.service', () => ({
+  notificationsService: {
+    create: vi.fn(async () => ({})),
+    shouldSendEmail: vi.fn(async () => true),
+  },
+}));
+
+vi.mock('../utils/emailService', () => ({ sendNotificationEmail: vi.fn(async () => true) }));
+vi.mock('../modules/billing/billing.service', () => ({ billingService: {} }));
+vi.mock('../modules/consents/consents.service', () => ({ consentsService: {} }));
+vi.mock('../modules/wearables/wearables.service', () => ({ wearablesService: {} }));
+vi.mock('../modules/health/medication-normalizer', () => ({ normalizeMedications: vi.fn(async () => []) }));
+
+import { validateFormulaSafety, findEscalatedWarnings } from '../modules/formulas/safety-validator';
+import { safetyRescreenService } from '../modules/formulas/safety-rescreen.service';
+import { formulasRepository } from '../modules/formulas/formulas.repository';
+import { autoShipRepository } from '../modules/billing/autoship.repository';
+import { systemRepository } from '../modules/system/system.repository';
+import { notificationsService } from '../modules/notifications/notifications.service';
+import { sendNotificationEmail } from '../utils/emailService';
+import { UsersService } from '../modules/users/users.service';
+import type { SafetyWarning } from '@shared/safety-types';
+
+const run = (additions: Array<{ ingredient: string; amount: number; unit?: string }>, meds: string[]) =>
+  validateFormulaSafety({
+    formula: { additions },
+    userMedications: meds,
+    userConditions: [],
+    userAllergies: [],
+    isPregnant: false,
+    isNursing: false,
+  });
+
+const warning = (category: string, severity: SafetyWarning['severity']): SafetyWarning => ({
+  category,
+  severity,
+  message: `${category} (${severity})`,
+});
+
+describe('findEscalatedWarnings', () => {
+  it('reports an interaction introduced by a newly listed medication', () => {
+    const formula = [{ ingredient: 'Omega 3', amount: 1000, unit: 'mg' }];
+    const saved = run(formula, []);
+    const rescreened = run(formula, ['Jantoven']);
+    const escalated = findEscalatedWarnings(saved.warnings, rescreened.warnings);
+    expect(escalated.find(w => w.category === 'blood_thinner_interaction')?.severity).toBe('critical');
+  });
+
+  it('ignores categories that are unchanged or less severe', () => {
+    const previous = [warning('a', 'serious'), warning('b', 'critical')];
+    const current = [warning('a', 'serious'), warning('b', 'serious')];
+    expect(findEscalatedWarnings(previous, current)).toEqual([]);
+  });
+
+  it('reports a category whose severity increased', () => {
+    const previous = [warning('a', 'informational')];
+    const current = [warning('a', 'critical'), warning('c', 'informational')];
+    expect(findEscalatedWarnings(previous, current).map(w => `${w.category}:${w.severity}`))
+      .toEqual(['a:critical', 'c:informational']);
+  });
+});
+
+describe('SafetyRescreenService.rescreenUser', () => {
+  const omega = [{ ingredient: 'Omega 3', amount: 1000, unit: 'mg' }];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store.formula = {
+      id: 'f1',
+      userId: 'u1',
+      version: 4,
+      bases: [],
+      additions: omega,
+      warnings: [],
+      safetyValidation: { requiresAcknowledgment: false, warnings: [] },
+    };
+    store.profile = { userId: 'u1', medications: ['Jantoven'], conditions: [], allergies: [], currentSupplements: [] };
+    store.autoShip = { id: 'as-1', status: 'active' };
+  });
+
+  it('pauses the auto-ship, clears the acknowledgment, audits and notifies on a new critical warning', async () => {
+    const result = await safetyRescreenService.rescreenUser('u1', 'medications_changed');
+
+    expect(result).toMatchObject({ baseline: false, autoShipPaused: true, userNotified: true });
+    expect(result!.newWarnings.map(w => w.category)).toContain('blood_thinner_interaction');
+    expect(autoShipRepository.update).toHaveBeenCalledWith('as-1', { status: 'paused' });
+    expect(formulasRepository.updateSafetyValidation).toHaveBeenCalledWith(
+      'f1',
+      expect.objectContaining({ warnings: expect.arrayContaining([expect.objectContaining({ category: 'blood_thinner_interaction' })]) }),
+      expect.objectContaining({ clearAcknowledgment: true, warnings: expect.any(Array) }),
+    );
+    expect(systemRepository.createSafetyAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'u1',
+      formulaId: 'f1',
+      action: 'safety_rescreen',
+      severity: 'critical',
+      details: expect.objectContaining({
+        trigger: 'medications_changed',
+        baseline: false,
+        autoShipPaused: true,
+        newWarningCategories: expect.arrayContaining(['blood_thinner_interaction']),
+      }),
+    }));
+    expect(notificationsService.create).toHaveBeenCalledWith(expect.objectContaining({ userId: 'u1', title: 'Formula Safety Alert' }));
+    expect(vi.mocked(sendNotificationEmail).mock.calls[0][0].content).toContain('Hi &lt;Sam&gt;,');
+  });
+
+  it('does nothing further when the warnings were already on record', async () => {
+    const first = await safetyRescreenService.rescreenUser('u1', 'medications_changed');
+    store.formula.safetyValidation = { requiresAcknowledgment: true, warnings: first!.newWarnings };
+    store.autoShip.status = 'active';
+    vi.clearAllMocks();
+
+    const again = await safetyRescreenService.rescreenUser('u1', 'rule_set_published');
+    expect(again).toMatchObject({ newWarnings: [], autoShipPaused: false, userNotified: false });
+    expect(autoShipRepository.update).not.toHaveBeenCalled();
+    expect(notificationsService.create).not.toHaveBeenCalled();
+    expect(vi.mocked(formulasRepository.updateSafetyValidation).mock.calls[0][2]).toMatchObject({ clearAcknowledgment: false });
+  });
+
+  it('only records a baseline when a bulk re-screen finds no stored result', async () => {
+    store.formula.safetyValidation = null;
+
+    const result = await safetyRescreenService.rescreenUser('u1', 'rule_set_published');
+
+    expect(result).toMatchObject({ baseline: true, newWarnings: [], autoShipPaused: false, userNotified: false });
+    expect(formulasRepository.updateSafetyValidation).toHaveBeenCalledWith(
+      'f1',
+      expect.objectContaining({ warnings: expect.arrayContaining([expect.objectContaining({ severity: 'critical' })]) }),
+      { warnings: undefined, clearAcknowledgment: false },
+    );
+    expect(systemRepository.createSafetyAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      details: expect.objectContaining({ baseline: true, newWarningCategories: [] }),
+    }));
+    expect(autoShipRepository.update).not.toHaveBeenCalled();
+    expect(notificationsService.create).not.toHaveBeenCalled();
+    expect(sendNotificationEmail).not.toHaveBeenCalled();
+  });
+
+  it('alerts on a profile change even when the formula has no stored result', async () => {
+    store.formula.safetyValidation = null;
+
+    const result = await safetyRescreenService.rescreenUser('u1', 'medications_changed');
+
+    expect(result).toMatchObject({ baseline: false, autoShipPaused: true, userNotified: true });
+    expect(result!.newWarnings.map(w => w.category)).toContain('blood_thinner_interaction');
+    expect(result!.newWarnings.every(w => w.severity !== 'informational')).toBe(true);
+    expect(autoShipRepository.update).toHaveBeenCalledWith('as-1', { status: 'paused' });
+    expect(notificationsService.create).toHaveBeenCalledWith(expect.objectContaining({ userId: 'u1', title: 'Formula Safety Alert' }));
+  });
+
+  it('escapes warning text that quotes what the user typed', async () => {
+    store.formula.additions = [{ ingredient: 'Zinc', amount: 30, unit: 'mg' }];
+    store.profile = { userId: 'u1', medications: [], conditions: [], allergies: [], currentSupplements: ['Zinc <b>chelate</b> 50mg'] };
+
+    const result = await safetyRescreenService.rescreenUser('u1', 'health_profile_changed');
+
+    expect(result!.newWarnings.map(w => w.category)).toContain('nutrient_ul_zinc');
+    const html = vi.mocked(sendNotificationEmail).mock.calls[0][0].content;
+    expect(html).toContain('Zinc &lt;b&gt;chelate&lt;/b&gt; 50mg');
+    expect(html).not.toContain('<b>chelate</b>');
+  });
+});
+
+describe('re-screening on profile change', () => {
+  const usersService = new UsersService();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store.profile = { userId: 'u1', medications: [], conditions: [], allergies: [], currentSupplements: [], age: 40 };
+  });
+
+  it('queues a re-screen when a screened field changes', async () => {
+    const schedule = vi.spyOn(safetyRescreenService, 'scheduleUserRescreen').mockImplementation(() => {});
+    await usersService.saveHealthProfile('u1', { conditions: ['Pregnancy'] });
+    expect(schedule).toHaveBeenCalledWith('u1', 'health_profile_changed');
+    schedule.mockRestore();
+  });
+
+  it('leaves the formula alone when only unrelated fields change', async () => {
+    const schedule = vi.spyOn(safetyRescreenService, 'scheduleUserRescreen').mockImplementation(() => {});
+    await usersService.saveHealthProfile('u1', { age: 40, sleepHoursPerNight: 7 } as any);
+    expect(schedule).not.toHaveBeenCalled();
+    schedule.mockRestore();
+  });
+});
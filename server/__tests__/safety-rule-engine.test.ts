@@ -0,0 +1,156 @@
+/**
+ * Tests for the declarative safety rule engine.
+ *
+ * Covers:
+ *   - The built-in rule set passes the admin edit schema
+ *   - Results record the rule-set version they were evaluated under
+ *   - A draft rule set passed explicitly overrides the active set
+ *   - Escalation, suppression, disabled rules and medication scoping
+ *   - Medications recognized by a rule are not reported as unmatched
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { validateFormulaSafety } from '../modules/formulas/safety-validator';
+import { setActiveSafetyRuleSet } from '../modules/formulas/safety-rule-engine';
+import { BUILTIN_SAFETY_RULE_SET, safetyRuleListSchema, type SafetyRule, type SafetyRuleSet } from '@shared/safety-rules';
+
+const run = (
+  additions: Array<{ ingredient: string; amount: number; unit?: string }>,
+  meds: string[],
+  opts: { conditions?: string[]; ruleSet?: SafetyRuleSet } = {},
+) =>
+  validateFormulaSafety({
+    formula: { additions },
+    userMedications: meds,
+    userConditions: opts.conditions || [],
+    userAllergies: [],
+    isPregnant: false,
+    isNursing: false,
+    ruleSet: opts.ruleSet,
+  });
+
+const rule = (overrides: Partial<SafetyRule>): SafetyRule => ({
+  category: 'test_rule',
+  enabled: true,
+  scope: 'medication',
+  trigger: { medications: ['examplemab'] },
+  ingredients: ['rhodiola'],
+  severity: 'serious',
+  message: 'Contains {ingredients} which interacts with examplemab.',
+  ...overrides,
+});
+
+afterEach(() => {
+  setActiveSafetyRuleSet(BUILTIN_SAFETY_RULE_SET);
+});
+
+describe('Safety rule engine — built-in set', () => {
+  it('passes the admin edit schema', () => {
+    expect(safetyRuleListSchema.safeParse(BUILTIN_SAFETY_RULE_SET.rules).success).toBe(true);
+  });
+
+  it('records the active rule-set version on the result', () => {
+    const result = run([{ ingredient: 'Omega 3', amount: 1000, unit: 'mg' }], []);
+    expect(result.ruleSetVersion).toBe(BUILTIN_SAFETY_RULE_SET.version);
+  });
+
+  it('uses the published set once it is activated', () => {
+    setActiveSafetyRuleSet({ version: 7, rules: [rule({})] });
+    const result = run([{ ingredient: 'Rhodiola', amount: 300, unit: 'mg' }], ['Examplemab 10mg']);
+    expect(result.ruleSetVersion).toBe(7);
+    expect(result.warnings.find(w => w.category === 'test_rule')).toMatchObject({
+      severity: 'serious',
+      message: 'Contains rhodiola which interacts with examplemab.',
+      drugs: ['examplemab 10mg'],
+    });
+    expect(result.unmatchedMedications).toEqual([]);
+  });
+});
+
+describe('Safety rule engine — draft preview', () => {
+  it('evaluates an explicit rule set without touching the active one', () => {
+    const draft = { version: 2, rules: [rule({})] };
+    const previewed = run([{ ingredient: 'Rhodiola', amount: 300, unit: 'mg' }], ['examplemab'], { ruleSet: draft });
+    const active = run([{ ingredient: 'Rhodiola', amount: 300, unit: 'mg' }], ['examplemab']);
+    expect(previewed.ruleSetVersion).toBe(2);
+    expect(previewed.warnings.some(w => w.category === 'test_rule')).toBe(true);
+    expect(active.warnings.some(w => w.category === 'test_rule')).toBe(false);
+    expect(active.unmatchedMedications).toEqual(['examplemab']);
+  });
+
+  it('skips disabled rules', () => {
+    const draft = { version: 2, rules: [rule({ enabled: false })] };
+    const result = run([{ ingredient: 'Rhodiola', amount: 300, unit: 'mg' }], ['examplemab'], { ruleSet: draft });
+    expect(result.warnings.some(w => w.category === 'test_rule')).toBe(false);
+  });
+
+  it('applies escalation when the narrower medication list matches', () => {
+    const draft = {
+      version: 2,
+      rules: [rule({
+        trigger: { medications: ['examplemab', 'otherumab'] },
+        escalation: { medications: ['otherumab'], severity: 'critical', message: 'BLOCKED: {ingredients} with otherumab.' },
+      })],
+    };
+    const base = run([{ ingredient: 'Rhodiola', amount: 300, unit: 'mg' }], ['examplemab'], { ruleSet: draft });
+    const escalated = run([{ ingredient: 'Rhodiola', amount: 300, unit: 'mg' }], ['otherumab'], { ruleSet: draft });
+    expect(base.warnings.find(w => w.category === 'test_rule')?.severity).toBe('serious');
+    expect(escalated.warnings.find(w => w.category === 'test_rule')).toMatchObject({
+      severity: 'critical',
+      message: 'BLOCKED: rhodiola with otherumab.',
+    });
+    expect(escalated.safe).toBe(false);
+  });
+
+  it('honours minIngredientMatches and {count}', () => {
+    const draft = {
+      version: 2,
+      rules: [rule({
+        scope: 'always',
+        trigger: {},
+        ingredients: ['rhodiola', 'ginseng', 'caffeine'],
+        minIngredientMatches: 2,
+        message: '{count} stimulants: {ingredients}',
+      })],
+    };
+    const one = run([{ ingredient: 'Rhodiola', amount: 300, unit: 'mg' }], [], { ruleSet: draft });
+    const two = run([
+      { ingredient: 'Rhodiola', amount: 300, unit: 'mg' },
+      { ingredient: 'Ginseng', amount: 200, unit: 'mg' },
+    ], [], { ruleSet: draft });
+    expect(one.warnings.some(w => w.category === 'test_rule')).toBe(false);
+    expect(two.warnings.find(w => w.category === 'test_rule')?.message).toBe('2 stimulants: rhodiola, ginseng');
+  });
+
+  it('does not run medication-scoped condition triggers without medications', () => {
+    const draft = {
+      version: 2,
+      rules: [rule({ trigger: { conditions: ['kidney'] }, reportDrugs: false })],
+    };
+    const noMeds = run([{ ingredient: 'Rhodiola', amount: 300, unit: 'mg' }], [], { conditions: ['kidney disease'], ruleSet: draft });
+    const withMeds = run([{ ingredient: 'Rhodiola', amount: 300, unit: 'mg' }], ['vitamin d'], { conditions: ['kidney disease'], ruleSet: draft });
+    expect(noMeds.warnings.some(w => w.category === 'test_rule')).toBe(false);
+    expect(withMeds.warnings.find(w => w.category === 'test_rule')?.drugs).toBeUndefined();
+  });
+});
+
+describe('Safety rule engine — built-in population rules', () => {
+  it('suppresses the chemo condition block when the chemo interaction already fired', () => {
+    const interaction = run([{ ingredient: 'Melatonin', amount: 3, unit: 'mg' }], ['tamoxifen'], { conditions: ['chemotherapy'] });
+    expect(interaction.warnings.some(w => w.category === 'chemo_interaction')).toBe(true);
+    expect(interaction.warnings.some(w => w.category === 'chemo_condition_block')).toBe(false);
+
+    const conditionOnly = run([{ ingredient: 'Rhodiola', amount: 300, unit: 'mg' }], [], { conditions: ['chemotherapy'] });
+    expect(conditionOnly.warnings.find(w => w.category === 'chemo_condition_block')?.severity).toBe('critical');
+  });
+
+  it('escalates immune stimulants to critical for transplant immunosuppressants only', () => {
+    const prednisone = run([{ ingredient: 'Echinacea', amount: 400, unit: 'mg' }], ['prednisone']);
+    const tacrolimus = run([{ ingredient: 'Echinacea', amount: 400, unit: 'mg' }], ['tacrolimus']);
+    expect(prednisone.warnings.find(w => w.category === 'immuno_stimulant')?.severity).toBe('serious');
+    expect(tacrolimus.warnings.find(w => w.category === 'immuno_stimulant')).toMatchObject({
+      severity: 'critical',
+      message: expect.stringContaining('transplant immunosuppressants'),
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Tests for multi-provider source precedence.
+ *
+ * Covers:
+ *   - Default precedence by pillar and per-metric overrides
+ *   - User preferences moving a provider to the front; sanitising stored prefs
+ *   - DailyMetricMerger: precedence, zero/missing values, replace, Junction over import
+ *   - Provenance summaries for AI prompts
+ *   - Saving preferences clears the cached Health Pulse
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../modules/users/users.repository', () => ({
+  usersRepository: { updateUser: vi.fn(async (id: string) => ({ id })) },
+}));
+vi.mock('../modules/wearables/wearables.service', () => ({
+  wearablesService: { invalidatePulseCache: vi.fn() },
+}));
+vi.mock('../modules/formulas/formulas.repository', () => ({ formulasRepository: {} }));
+vi.mock('../modules/formulas/safety-rescreen.service', () => ({ safetyRescreenService: {} }));
+vi.mock('../modules/billing/billing.service', () => ({ billingService: {} }));
+vi.mock('../modules/consents/consents.service', () => ({ consentsService: {} }));
+vi.mock('../modules/health/medication-normalizer', () => ({ normalizeMedications: vi.fn() }));
+
+import {
+  canonicalProviderSlug,
+  defaultSourcePrecedence,
+  sanitizeMetricSourcePreferences,
+  sourcePrecedence,
+} from '@shared/metricCatalog';
+import {
+  DailyMetricMerger,
+  primaryProvider,
+  splitResolved,
+  summarizeProvenance,
+} from '../modules/wearables/source-precedence';
+import { UsersService } from '../modules/users/users.service';
+import { usersRepository } from '../modules/users/users.repository';
+import { wearablesService } from '../modules/wearables/wearables.service';
+
+const junction = (provider: string) => ({ provider, via: 'junction' as const });
+const imported = (provider: string) => ({ provider, via: 'import' as const });
+
+describe('source precedence', () => {
+  it('ranks rings first for sleep and watches first for activity', () => {
+    expect(defaultSourcePrecedence('sleep_duration')[0]).toBe('oura');
+    expect(defaultSourcePrecedence('steps')[0]).toBe('garmin');
+    expect(defaultSourcePrecedence('recovery_score')[0]).toBe('whoop');
+    expect(defaultSourcePrecedence('not_a_metric')).toEqual([]);
+  });
+
+  it('puts the user pick first without duplicating it', () => {
+    const order = sourcePrecedence('sleep_duration', { sleep_duration: 'whoop_v2' });
+    expect(order[0]).toBe('whoop');
+    expect(order.filter(p => p === 'whoop')).toHaveLength(1);
+    expect(sourcePrecedence('steps', { sleep_duration: 'whoop' })).toEqual(defaultSourcePrecedence('steps'));
+  });
+
+  it('canonicalises Junction slugs', () => {
+    expect(canonicalProviderSlug('WHOOP_V2')).toBe('whoop');
+    expect(canonicalProviderSlug('apple_health_kit')).toBe('apple_health');
+  });
+
+  it('drops unknown metrics and non-string providers from stored prefs', () => {
+    expect(sanitizeMetricSourcePreferences({ hrv: 'Oura', bogus: 'garmin', steps: 3 })).toEqual({ hrv: 'oura' });
+    expect(sanitizeMetricSourcePreferences({ bogus: 'garmin' })).toBeNull();
+    expect(sanitizeMetricSourcePreferences(['hrv'])).toBeNull();
+    expect(sanitizeMetricSourcePreferences(null)).toBeNull();
+  });
+});
+
+describe('DailyMetricMerger', () => {
+  it('picks the highest-ranked provider per metric and records provenance', () => {
+    const merger = new DailyMetricMerger();
+    merger.offer('2024-03-01', 'sleep_duration', 400, junction('whoop_v2'));
+    merger.offer('2024-03-01', 'sleep_duration', 430, junction('oura'));
+    merger.offer('2024-03-01', 'steps', 9000, junction('oura'));
+    merger.offer('2024-03-01', 'steps', 11000, junction('garmin'));
+
+    const { values, provenance } = splitResolved(merger.resolve('2024-03-01'));
+    expect(values).toEqual({ sleep_duration: 430, steps: 11000 });
+    expect(provenance).toEqual({ sleep_duration: junction('oura'), steps: junction('garmin') });
+  });
+
+  it('honours the user preference over the default order', () => {
+    const merger = new DailyMetricMerger({ sleep_duration: 'whoop' });
+    merger.offer('2024-03-01', 'sleep_duration', 430, junction('oura'));
+    merger.offer('2024-03-01', 'sleep_duration', 400, junction('whoop_v2'));
+    expect(merger.resolve('2024-03-01').sleep_duration).toEqual({ value: 400, provider: 'whoop', via: 'junction' });
+  });
+
+  it('falls back to a lower-ranked provider when the preferred one has nothing', () => {
+    const merger = new DailyMetricMerger({ hrv: 'whoop' });
+    merger.offer('2024-03-01', 'hrv', 0, junction('whoop'));
+    merger.offer('2024-03-01', 'hrv', null, junction('whoop'));
+    merger.offer('2024-03-01', 'hrv', 48, junction('garmin'));
+    expect(merger.resolve('2024-03-01').hrv.provider).toBe('garmin');
+  });
+
+  it('keeps a provider\'s first value unless replace is set', () => {
+    const merger = new DailyMetricMerger();
+    merger.offer('2024-03-01', 'hrv', 40, junction('oura'));
+    merger.offer('2024-03-01', 'hrv', 45, junction('oura'));
+    expect(merger.resolve('2024-03-01').hrv.value).toBe(40);
+    merger.offer('2024-03-01', 'hrv', 50, junction('oura'), true);
+    expect(merger.resolve('2024-03-01').hrv.value).toBe(50);
+  });
+
+  it('prefers a Junction sync over an imported file from the same device', () => {
+    const merger = new DailyMetricMerger();
+    merger.offer('2024-03-01', 'steps', 8000, imported('garmin'));
+    merger.offer('2024-03-01', 'steps', 8100, junction('garmin'));
+    expect(merger.resolve('2024-03-01').steps).toEqual({ value: 8100, provider: 'garmin', via: 'junction' });
+  });
+
+  it('lists dates in order and leaves unknown dates empty', () => {
+    const merger = new DailyMetricMerger();
+    merger.offer('2024-03-02', 'steps', 1, junction('garmin'));
+    merger.offer('2024-03-01', 'steps', 1, junction('garmin'));
+    expect(merger.dates()).toEqual(['2024-03-01', '2024-03-02']);
+    expect(merger.resolve('2024-03-05')).toEqual({});
+  });
+});
+
+describe('provenance summaries', () => {
+  const days = [
+    { provenance: { sleep_duration: junction('oura'), hrv: junction('oura'), steps: junction('garmin'), body_temperature: junction('garmin') } },
+    { provenance: { sleep_duration: junction('oura'), hrv: junction('whoop'), steps: junction('garmin') } },
+    { provenance: { hrv: junction('oura') } },
+  ];
+
+  it('credits each catalog metric to the provider that supplied it most', () => {
+    expect(summarizeProvenance(days)).toEqual([
+      { provider: 'oura', metrics: ['Sleep', 'HRV'] },
+      { provider: 'garmin', metrics: ['Steps'] },
+    ]);
+    expect(summarizeProvenance([{}])).toEqual([]);
+  });
+
+  it('names the provider behind most of a day', () => {
+    expect(primaryProvider(days[0].provenance)).toBe('oura');
+    expect(primaryProvider({})).toBeUndefined();
+  });
+});
+
+describe('UsersService.updateMetricSourcePreferences', () => {
+  it('stores the cleaned preferences and clears the cached Health Pulse', async () => {
+    const result = await new UsersService().updateMetricSourcePreferences('u1', { steps: 'oura', bogus: 'whoop' } as any);
+    expect(result).toEqual({ metricSourcePreferences: { steps: 'oura' } });
+    expect(usersRepository.updateUser).toHaveBeenCalledWith('u1', { metricSourcePreferences: { steps: 'oura' } });
+    expect(wearablesService.invalidatePulseCache).toHaveBeenCalledWith('u1');
+  });
+});
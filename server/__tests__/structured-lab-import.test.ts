@@ -0,0 +1,127 @@
+/**
+ * Tests for structured lab import (FHIR R4 bundles, HL7 v2 ORU^R01).
+ *
+ * Covers:
+ *   - LOINC codes mapping onto canonical biomarker names
+ *   - Reference ranges, units and interpretation flags carried over
+ *   - Collection date resolution (DiagnosticReport / OBR-7 / per-result fallback)
+ *   - Format detection and rejection of non-lab content
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseStructuredLabFile, parseFhirLabBundle, parseHl7OruMessage } from '../modules/labs/structured-lab-import';
+import { canonicalKey } from '../modules/labs/biomarker-aliases';
+
+const loinc = (code: string, display: string) => ({ coding: [{ system: 'http://loinc.org', code, display }], text: display });
+
+const fhirBundle = {
+  resourceType: 'Bundle',
+  type: 'collection',
+  entry: [
+    {
+      resource: {
+        resourceType: 'DiagnosticReport',
+        status: 'final',
+        code: { text: 'Comprehensive Metabolic Panel' },
+        effectiveDateTime: '2025-03-04T08:15:00Z',
+        performer: [{ display: 'Labor Berlin' }],
+      },
+    },
+    {
+      resource: {
+        resourceType: 'Observation',
+        status: 'final',
+        code: loinc('15074-8', 'Glucose [Moles/volume] in Blood'),
+        valueQuantity: { value: 6.4, unit: 'mmol/L' },
+        referenceRange: [{ low: { value: 3.9 }, high: { value: 5.6 } }],
+        interpretation: [{ coding: [{ code: 'H' }] }],
+      },
+    },
+    {
+      resource: {
+        resourceType: 'Observation',
+        status: 'final',
+        code: loinc('1989-3', '25-Hydroxyvitamin D3'),
+        valueQuantity: { value: 45, unit: 'nmol/L' },
+        referenceRange: [{ low: { value: 75 } }],
+      },
+    },
+    {
+      resource: {
+        resourceType: 'Observation',
+        status: 'entered-in-error',
+        code: loinc('2160-0', 'Creatinine'),
+        valueQuantity: { value: 80, unit: 'umol/L' },
+      },
+    },
+  ],
+};
+
+const hl7 = [
+  'MSH|^~\\&|LIS|QUEST^12D0000000^CLIA|EHR|CLINIC|202501151030||ORU^R01|MSG00001|P|2.5.1',
+  'PID|1||12345^^^MRN||DOE^JANE||19800101|F',
+  'OBR|1||ACC123|24323-8^Comprehensive metabolic panel^LN|||20250114083000',
+  'OBX|1|NM|2345-7^Glucose SerPl-mCnc^LN||92|mg/dL|70-99|N|||F',
+  'OBX|2|NM|2093-3^Cholesterol SerPl-mCnc^LN||245|mg/dL|<200|H|||F',
+  'OBX|3|SN|1988-5^CRP SerPl-mCnc^LN||<^0.3|mg/L|0-3||||F',
+  'OBX|4|NM|LOCAL1^Widget Index^L||12|U|10-20||||F',
+].join('\r');
+
+describe('parseFhirLabBundle', () => {
+  const extraction = parseFhirLabBundle(fhirBundle);
+
+  it('maps LOINC codes to canonical names and drops entered-in-error results', () => {
+    expect(extraction.extractedData!.map(m => m.testName)).toEqual(['Glucose', 'Vitamin D']);
+    expect(canonicalKey(extraction.extractedData![1].testName)).toBe('vitamin d');
+  });
+
+  it('carries over units, reference ranges and status', () => {
+    expect(extraction.extractedData![0]).toMatchObject({ value: '6.4', unit: 'mmol/L', referenceRange: '3.9-5.6', status: 'high', loincCode: '15074-8' });
+    // No interpretation code: status derived from the range
+    expect(extraction.extractedData![1]).toMatchObject({ referenceRange: '>75', status: 'low' });
+  });
+
+  it('uses the DiagnosticReport date, lab and panel name', () => {
+    expect(extraction).toMatchObject({
+      testDate: '2025-03-04',
+      testDateConfidence: 'high',
+      labName: 'Labor Berlin',
+      testType: 'Comprehensive Metabolic Panel',
+    });
+  });
+});
+
+describe('parseHl7OruMessage', () => {
+  const extraction = parseHl7OruMessage(hl7);
+
+  it('reads OBX results with LOINC and falls back to the label for local codes', () => {
+    expect(extraction.extractedData!.map(m => m.testName)).toEqual(['Glucose', 'Total Cholesterol', 'CRP', 'Widget Index']);
+    expect(extraction.extractedData![3].loincCode).toBeUndefined();
+  });
+
+  it('handles structured numeric values and abnormal flags', () => {
+    expect(extraction.extractedData![1]).toMatchObject({ value: '245', referenceRange: '<200', status: 'high' });
+    expect(extraction.extractedData![2]).toMatchObject({ value: '<0.3', unit: 'mg/L', status: 'normal' });
+  });
+
+  it('takes the collection date from OBR-7 and the lab from MSH-4', () => {
+    expect(extraction).toMatchObject({ testDate: '2025-01-14', labName: 'QUEST', testType: 'Comprehensive metabolic panel' });
+  });
+
+  it('rejects non-ORU messages', () => {
+    expect(() => parseHl7OruMessage('MSH|^~\\&|A|B|C|D|202501010000||ADT^A01|1|P|2.5')).toThrow(/ORU\^R01/);
+  });
+});
+
+describe('parseStructuredLabFile', () => {
+  it('detects FHIR JSON and HL7 text', () => {
+    expect(parseStructuredLabFile(JSON.stringify(fhirBundle))?.format).toBe('fhir_r4');
+    expect(parseStructuredLabFile(`\uFEFF${hl7}`)?.format).toBe('hl7v2_oru');
+  });
+
+  it('returns null for free text and non-FHIR JSON', () => {
+    expect(parseStructuredLabFile('Glucose 92 mg/dL')).toBeNull();
+    expect(parseStructuredLabFile('{"foo": 1}')).toBeNull();
+    expect(parseStructuredLabFile('{not json')).toBeNull();
+  });
+});
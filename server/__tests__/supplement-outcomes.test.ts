@@ -0,0 +1,231 @@
+/**
+ * Tests for supplement outcome attribution.
+ *
+ * Covers:
+ *   - Ingredient evidence lookup from the research map
+ *   - Formula timeline from shipped orders; constant-dose ingredient runs
+ *   - Baseline/follow-up alignment, turnover wait and RCV-based verdicts
+ *   - Confounders; de-identified aggregate with small-cohort suppression
+ *   - Aggregate caching and shared rebuilds
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { state } = vi.hoisted(() => ({
+  state: {
+    seriesByUser: {} as Record<string, any[]>,
+    formulas: [] as any[],
+    orders: [] as any[],
+  },
+}));
+
+vi.mock('../modules/labs/labs.service', () => ({
+  labsService: { getMarkerSeries: vi.fn(async (userId: string) => state.seriesByUser[userId] ?? []) },
+}));
+vi.mock('../modules/files/files.repository', () => ({
+  filesRepository: { listUserIdsWithLabReports: vi.fn(async () => Object.keys(state.seriesByUser)) },
+}));
+vi.mock('../modules/formulas/formulas.repository', () => ({
+  formulasRepository: { getFormulaHistory: vi.fn(async () => state.formulas) },
+}));
+vi.mock('../modules/users/users.repository', () => ({
+  usersRepository: { listOrdersByUser: vi.fn(async () => state.orders) },
+}));
+vi.mock('../infra/logging/logger', () => ({
+  default: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { getIngredientMarkerEffects } from '@shared/ingredient-research';
+import { buildFormulaTimeline, type FormulaPeriod } from '../modules/formulas/formula-timeline';
+import { attributeOutcomes, aggregateOutcomes, buildIngredientRuns } from '../modules/labs/supplement-outcomes';
+import { supplementOutcomeService } from '../modules/labs/supplement-outcome.service';
+import { filesRepository } from '../modules/files/files.repository';
+
+const today = new Date('2025-06-01T12:00:00Z');
+
+function period(version: number, startedAt: string, endedAt: string | null, ingredients: Record<string, string>): FormulaPeriod {
+  return {
+    formulaId: `f${version}`,
+    version,
+    startedAt: new Date(startedAt),
+    endedAt: endedAt ? new Date(endedAt) : null,
+    ingredients: new Map(Object.entries(ingredients).map(([name, dose]) => [name.toLowerCase(), { name, dose }])),
+  };
+}
+
+const vitaminD = (points: Array<[string, number]>) => ({
+  key: 'vitamin d',
+  name: 'Vitamin D',
+  points: points.map(([date, value]) => ({ date, value })),
+});
+
+beforeEach(() => {
+  state.seriesByUser = {};
+  state.formulas = [];
+  state.orders = [];
+});
+
+describe('getIngredientMarkerEffects', () => {
+  it('resolves formula ingredient names onto research keys', () => {
+    expect(getIngredientMarkerEffects('Vitamin D3 (Cholecalciferol)')?.ingredient).toBe('vitamin d');
+    expect(getIngredientMarkerEffects('Omega-3 Fish Oil')?.effects.map(e => e.marker)).toContain('triglycerides');
+    expect(getIngredientMarkerEffects('Ginkgo Biloba')).toBeNull();
+  });
+});
+
+describe('buildFormulaTimeline', () => {
+  it('orders taken versions by first shipment and skips unshipped or cancelled ones', () => {
+    const formulas = [
+      { id: 'a', version: 1, bases: [], additions: [{ ingredient: 'Vitamin D3', amount: 25, unit: 'mcg' }] },
+      { id: 'b', version: 2, bases: [], additions: [{ ingredient: 'Vitamin D3', amount: 50, unit: 'mcg' }] },
+      { id: 'c', version: 3, bases: [], additions: [] },
+    ];
+    const orders = [
+      { formulaVersion: 2, status: 'shipped', shippedAt: '2025-03-01', placedAt: '2025-02-25' },
+      { formulaVersion: 1, status: 'delivered', shippedAt: null, placedAt: '2025-01-01' },
+      { formulaVersion: 3, status: 'cancelled', shippedAt: null, placedAt: '2025-04-01' },
+    ];
+    const timeline = buildFormulaTimeline(formulas as any, orders as any);
+    expect(timeline.map(p => p.version)).toEqual([1, 2]);
+    expect(timeline[0].endedAt?.toISOString()).toBe(new Date('2025-03-01').toISOString());
+    expect(timeline[1].endedAt).toBeNull();
+    expect(timeline[1].ingredients.get('vitamin d3')).toEqual({ name: 'Vitamin D3', dose: '50 mcg' });
+  });
+});
+
+describe('buildIngredientRuns', () => {
+  it('keeps an ingredient in one run across versions at the same dose and splits on dose change', () => {
+    const runs = buildIngredientRuns([
+      period(1, '2024-01-01', '2024-04-01', { 'Vitamin D3': '25 mcg', Zinc: '15 mg' }),
+      period(2, '2024-04-01', '2024-08-01', { 'Vitamin D3': '25 mcg' }),
+      period(3, '2024-08-01', null, { 'Vitamin D3': '50 mcg' }),
+    ]);
+    const vitD = runs.filter(r => r.key === 'vitamin d3');
+    expect(vitD.map(r => r.versions)).toEqual([[1, 2], [3]]);
+    expect(vitD[1].previousDose).toBe('25 mcg');
+    expect(runs.find(r => r.key === 'zinc')?.endedAt?.toISOString()).toBe(new Date('2024-04-01').toISOString());
+  });
+});
+
+describe('attributeOutcomes', () => {
+  it('reports a significant rise after starting vitamin D as moved_as_expected', () => {
+    const report = attributeOutcomes({
+      timeline: [period(1, '2025-01-01', null, { 'Vitamin D3': '50 mcg' })],
+      markers: [vitaminD([['2024-12-15', 20], ['2025-04-15', 38]])],
+      today,
+    });
+    expect(report.outcomes).toHaveLength(1);
+    const [o] = report.outcomes;
+    expect(o).toMatchObject({ researchKey: 'vitamin d', markerKey: 'vitamin d', verdict: 'moved_as_expected', changePercent: 90 });
+    expect(o.baseline.date).toBe('2024-12-15');
+    expect(report.summary.moved_as_expected).toBe(1);
+  });
+
+  it('treats a change inside the reference change value as no significant change', () => {
+    const report = attributeOutcomes({
+      timeline: [period(1, '2025-01-01', null, { 'Vitamin D3': '50 mcg' })],
+      markers: [vitaminD([['2024-12-15', 30], ['2025-04-15', 32]])],
+      today,
+    });
+    expect(report.outcomes[0].verdict).toBe('no_significant_change');
+  });
+
+  it('flags a move against the expected direction', () => {
+    const report = attributeOutcomes({
+      timeline: [period(1, '2025-01-01', null, { 'Vitamin D3': '50 mcg' })],
+      markers: [vitaminD([['2024-12-15', 40], ['2025-04-15', 20]])],
+      today,
+    });
+    expect(report.outcomes[0].verdict).toBe('moved_opposite');
+  });
+
+  it('ignores draws before the marker turnover and reports too_early while the run is ongoing', () => {
+    const report = attributeOutcomes({
+      timeline: [period(1, '2025-04-01', null, { 'Vitamin D3': '50 mcg' })],
+      markers: [vitaminD([['2025-03-20', 20], ['2025-05-01', 35]])],
+      today,
+    });
+    const [o] = report.outcomes;
+    expect(o.verdict).toBe('too_early');
+    expect(o.followUp).toBeNull();
+    expect(o.followUpDueDate).toBe('2025-06-24');   // 84-day vitamin D turnover
+  });
+
+  it('skips runs without a baseline draw before they started', () => {
+    const report = attributeOutcomes({
+      timeline: [period(1, '2025-01-01', null, { 'Vitamin D3': '50 mcg' })],
+      markers: [vitaminD([['2023-06-01', 20], ['2025-04-15', 38]])],
+      today,
+    });
+    expect(report.outcomes).toHaveLength(0);
+  });
+
+  it('lists other ingredients targeting the same marker that started in the window as confounders', () => {
+    const report = attributeOutcomes({
+      timeline: [
+        period(1, '2025-01-01', '2025-02-01', { Berberine: '500 mg' }),
+        period(2, '2025-02-01', null, { Berberine: '500 mg', 'Omega-3 Fish Oil': '2 g' }),
+      ],
+      markers: [{ key: 'triglycerides', name: 'Triglycerides', points: [{ date: '2024-12-20', value: 200 }, { date: '2025-05-01', value: 90 }] }],
+      today,
+    });
+    const berberine = report.outcomes.find(o => o.researchKey === 'berberine')!;
+    expect(berberine.verdict).toBe('moved_as_expected');
+    expect(berberine.confounders).toEqual(['Omega-3 Fish Oil']);
+  });
+});
+
+describe('aggregateOutcomes', () => {
+  const reportFor = (changePercent: number, verdict: any) => ({
+    generatedAt: '',
+    summary: {} as any,
+    outcomes: [{
+      researchKey: 'vitamin d', markerKey: 'vitamin d', expectedDirection: 'increase',
+      followUp: { date: '2025-04-01', value: 1 }, changePercent, verdict,
+    }] as any[],
+  });
+
+  it('suppresses pairs below the cohort minimum and reports medians without user identifiers', () => {
+    const small = aggregateOutcomes([reportFor(50, 'moved_as_expected')], 5);
+    expect(small.rows).toHaveLength(0);
+    expect(small.suppressedPairs).toBe(1);
+
+    const cohort = [40, 60, 10, 80, 55].map(c => reportFor(c, c > 30 ? 'moved_as_expected' : 'no_significant_change'));
+    const agg = aggregateOutcomes(cohort, 5);
+    expect(agg.rows).toEqual([{
+      ingredient: 'vitamin d', markerKey: 'vitamin d', expectedDirection: 'increase',
+      users: 5, movedAsExpected: 4, movedOpposite: 0, noSignificantChange: 1, medianChangePercent: 55,
+    }]);
+  });
+
+  it('runs attribution for every user with labs through the service', async () => {
+    state.formulas = [{ id: 'a', version: 1, bases: [], additions: [{ ingredient: 'Vitamin D3', amount: 50, unit: 'mcg' }] }];
+    state.orders = [{ formulaVersion: 1, status: 'shipped', shippedAt: '2025-01-01', placedAt: '2024-12-28' }];
+    for (let i = 0; i < 5; i++) {
+      state.seriesByUser[`u${i}`] = [vitaminD([['2024-12-15', 20], ['2025-04-15', 36 + i]])];
+    }
+    const agg = await supplementOutcomeService.getAggregate({ refresh: true, today });
+    expect(agg.usersAnalyzed).toBe(5);
+    expect(agg.rows[0]).toMatchObject({ ingredient: 'vitamin d', users: 5, movedAsExpected: 5 });
+    expect(JSON.stringify(agg)).not.toContain('u0');
+  });
+
+  it('serves the aggregate from cache and shares one rebuild between concurrent loads', async () => {
+    state.seriesByUser = { u0: [vitaminD([['2024-12-15', 20], ['2025-04-15', 36]])] };
+    const listUsers = vi.mocked(filesRepository.listUserIdsWithLabReports);
+
+    listUsers.mockClear();
+    const [a, b] = await Promise.all([
+      supplementOutcomeService.getAggregate({ refresh: true, today }),
+      supplementOutcomeService.getAggregate({ refresh: true, today }),
+    ]);
+    expect(a).toBe(b);
+    expect(listUsers).toHaveBeenCalledTimes(1);
+
+    expect(await supplementOutcomeService.getAggregate({ today })).toBe(a);
+    expect(listUsers).toHaveBeenCalledTimes(1);
+
+    await supplementOutcomeService.getAggregate({ refresh: true, today });
+    expect(listUsers).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Tests for wearable anomaly detection.
+ *
+ * Covers:
+ *   - Merging per-provider biometric rows into daily readings
+ *   - Rolling-baseline z-scores (adverse direction, SD floor, minimum history)
+ *   - Pattern rules: illness onset, overtraining streak, poor recovery
+ *   - Detection cycle: idempotent storage and gated alerts by severity
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { state } = vi.hoisted(() => ({
+  state: {
+    rowsByUser: {} as Record<string, any[]>,
+    stored: [] as any[],
+    notified: [] as string[],
+    gateOpen: true,
+    emails: [] as any[],
+    inApp: [] as any[],
+  },
+}));
+
+vi.mock('../modules/wearables/wearables.repository', () => ({
+  wearablesRepository: {
+    listUserIdsWithBiometricDataSince: vi.fn(async () => Object.keys(state.rowsByUser)),
+    getBiometricData: vi.fn(async (userId: string) => state.rowsByUser[userId] ?? []),
+  },
+}));
+vi.mock('../modules/wearables/wearable-anomaly.repository', () => ({
+  wearableAnomalyRepository: {
+    insertFinding: vi.fn(async (finding: any) => {
+      const exists = state.stored.some(s => s.userId === finding.userId && s.detectedFor === finding.detectedFor && s.pattern === finding.pattern);
+      if (exists) return undefined;
+      const row = { id: `a${state.stored.length + 1}`, ...finding };
+      state.stored.push(row);
+      return row;
+    }),
+    markNotified: vi.fn(async (id: string) => { state.notified.push(id); }),
+    listRecent: vi.fn(async () => state.stored),
+  },
+}));
+vi.mock('../modules/users/users.repository', () => ({
+  usersRepository: { getUser: vi.fn(async (id: string) => ({ id, name: 'Sam Lee', email: 'sam@example.com', phone: null })) },
+}));
+vi.mock('../modules/notifications/notification-gate.service', () => ({
+  notificationGate: { canSend: vi.fn(async () => state.gateOpen), record: vi.fn(async () => {}) },
+}));
+vi.mock('../modules/notifications/notifications.service', () => ({
+  notificationsService: {
+    shouldSendEmail: vi.fn(async () => true),
+    create: vi.fn(async (n: any) => { state.inApp.push(n); }),
+  },
+}));
+vi.mock('../utils/emailService', () => ({
+  sendNotificationEmail: vi.fn(async (e: any) => { state.emails.push(e); return true; }),
+}));
+vi.mock('../utils/urlHelper', () => ({ getFrontendUrl: () => 'https://app.example.com' }));
+vi.mock('../infra/logging/logger', () => ({
+  default: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { detectAnomalies, scoreDay, toDailyReadings, type DailyReadings } from '../modules/wearables/anomaly-detector';
+import { wearableAnomalyService } from '../modules/wearables/wearable-anomaly.service';
+
+const WIGGLE = [-1, 0, 1, 0];
+
+/** 30 steady days from 2025-05-01, then `overrides` applied by date */
+function series(overrides: Record<string, Partial<DailyReadings>> = {}): DailyReadings[] {
+  const days: DailyReadings[] = [];
+  for (let i = 0; i < 30; i++) {
+    const date = new Date(Date.UTC(2025, 4, 1 + i)).toISOString().split('T')[0];
+    const w = WIGGLE[i % WIGGLE.length];
+    days.push({
+      date,
+      hrv: 60 + w * 4,
+      resting_hr: 55 + w,
+      skin_temp: 33.5 + w * 0.1,
+      respiratory_rate: 14 + w * 0.3,
+      spo2: 97 + w * 0.5,
+      ...overrides[date],
+    });
+  }
+  return days;
+}
+
+const LAST = '2025-05-30';
+
+beforeEach(() => {
+  state.rowsByUser = {};
+  state.stored = [];
+  state.notified = [];
+  state.gateOpen = true;
+  state.emails = [];
+  state.inApp = [];
+});
+
+describe('toDailyReadings', () => {
+  it('merges provider rows per day, first non-null wins, and unscales skin temperature', () => {
+    const days = toDailyReadings([
+      { dataDate: new Date('2025-05-02T08:00:00Z'), hrvMs: 50, restingHeartRate: null, skinTempCelsius: 335, respiratoryRate: null, spo2Percentage: null },
+      { dataDate: new Date('2025-05-02T09:00:00Z'), hrvMs: 70, restingHeartRate: 54, skinTempCelsius: null, respiratoryRate: 14, spo2Percentage: 97 },
+      { dataDate: new Date('2025-05-01T08:00:00Z'), hrvMs: 61, restingHeartRate: 55, skinTempCelsius: null, respiratoryRate: null, spo2Percentage: null },
+    ] as any);
+    expect(days.map(d => d.date)).toEqual(['2025-05-01', '2025-05-02']);
+    expect(days[1]).toMatchObject({ hrv: 50, resting_hr: 54, skin_temp: 33.5, respiratory_rate: 14, spo2: 97 });
+  });
+});
+
+describe('scoreDay', () => {
+  it('signs z-scores so a fall in HRV or SpO2 is adverse and floors the baseline SD', () => {
+    const signals = scoreDay(series({ [LAST]: { hrv: 45, spo2: 98, resting_hr: 55 } }), LAST);
+    const hrv = signals.find(s => s.metric === 'hrv')!;
+    expect(hrv.zScore).toBeGreaterThan(2);
+    expect(signals.find(s => s.metric === 'spo2')!.zScore).toBeLessThan(0);
+    // Resting HR baseline SD is ~0.7 bpm; the 1.5 bpm floor applies
+    expect(signals.find(s => s.metric === 'resting_hr')!.baselineSd).toBe(1.5);
+  });
+
+  it('skips metrics without enough baseline history', () => {
+    const days = series().map((d, i) => (i < 25 ? { ...d, skin_temp: null } : d));
+    expect(scoreDay(days, LAST).some(s => s.metric === 'skin_temp')).toBe(false);
+  });
+});
+
+describe('detectAnomalies', () => {
+  it('returns nothing for a normal day or a single deviating signal', () => {
+    expect(detectAnomalies(series(), LAST)).toEqual([]);
+    expect(detectAnomalies(series({ [LAST]: { resting_hr: 62 } }), LAST)).toEqual([]);
+  });
+
+  it('flags illness onset when temperature rises with resting HR and respiratory rate', () => {
+    const [finding] = detectAnomalies(series({ [LAST]: { skin_temp: 34.3, resting_hr: 61, respiratory_rate: 16, hrv: 48 } }), LAST);
+    expect(finding).toMatchObject({ pattern: 'illness_onset', severity: 'alert' });
+    expect(finding.signals.map(s => s.metric)).toEqual(['skin_temp', 'resting_hr', 'respiratory_rate', 'hrv']);
+    expect(finding.summary).toContain('Skin temperature up');
+  });
+
+  it('requires a companion signal for illness onset', () => {
+    expect(detectAnomalies(series({ [LAST]: { skin_temp: 34.3 } }), LAST)).toEqual([]);
+  });
+
+  it('flags overtraining after three consecutive days of low HRV and high resting HR', () => {
+    const strained = { hrv: 50, resting_hr: 59 };
+    const days = series({ '2025-05-28': strained, '2025-05-29': strained, [LAST]: strained });
+    expect(detectAnomalies(days, LAST)).toMatchObject([{ pattern: 'overtraining', severity: 'alert' }]);
+    // Two days in, the same readings are only poor recovery
+    expect(detectAnomalies(days, '2025-05-29')).toMatchObject([{ pattern: 'poor_recovery', severity: 'watch' }]);
+  });
+
+  it('flags poor recovery on a strong HRV drop alone', () => {
+    expect(detectAnomalies(series({ [LAST]: { hrv: 42 } }), LAST)).toMatchObject([
+      { pattern: 'poor_recovery', severity: 'watch', signals: [{ metric: 'hrv' }] },
+    ]);
+  });
+});
+
+describe('wearableAnomalyService.runDetectionCycle', () => {
+  const today = new Date('2025-05-31T11:00:00Z');
+
+  function rowsFor(days: DailyReadings[]) {
+    return days.map(d => ({
+      dataDate: new Date(`${d.date}T07:00:00Z`),
+      hrvMs: d.hrv,
+      restingHeartRate: d.resting_hr,
+      skinTempCelsius: d.skin_temp == null ? null : Math.round(d.skin_temp * 10),
+      respiratoryRate: d.respiratory_rate,
+      spo2Percentage: d.spo2,
+    }));
+  }
+
+  it('stores a finding once and emails only for alert severity', async () => {
+    state.rowsByUser.ill = rowsFor(series({ [LAST]: { skin_temp: 34.3, resting_hr: 61, respiratory_rate: 16 } }));
+    state.rowsByUser.tired = rowsFor(series({ [LAST]: { hrv: 42 } }));
+
+    const first = await wearableAnomalyService.runDetectionCycle(today);
+    expect(first).toEqual({ usersChecked: 2, findings: 2, alertsSent: 2, failed: 0 });
+    expect(state.emails).toHaveLength(1);
+    expect(state.emails[0].to).toBe('sam@example.com');
+    expect(state.inApp).toHaveLength(2);
+    expect(state.notified).toEqual(['a1', 'a2']);
+
+    const rerun = await wearableAnomalyService.runDetectionCycle(today);
+    expect(rerun.findings).toBe(0);
+    expect(state.inApp).toHaveLength(2);
+  });
+
+  it('stores but does not mark notified when the gate holds the alert back', async () => {
+    state.gateOpen = false;
+    state.rowsByUser.tired = rowsFor(series({ [LAST]: { hrv: 42 } }));
+    const result = await wearableAnomalyService.runDetectionCycle(today);
+    expect(result).toMatchObject({ findings: 1, alertsSent: 0 });
+    expect(state.stored).toHaveLength(1);
+    expect(state.notified).toEqual([]);
+  });
+
+  it('skips users whose latest data is stale', async () => {
+    state.rowsByUser.stale = rowsFor(series({ [LAST]: { hrv: 42 } }));
+    const result = await wearableAnomalyService.runDetectionCycle(new Date('2025-06-10T11:00:00Z'));
+    expect(result.findings).toBe(0);
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * Tests for direct wearable file imports.
+ *
+ * Covers:
+ *   - Apple Health export.xml: per-source step dedupe, sleep stages by wake date, unit conversion
+ *   - Garmin FIT decoding (definitions, compressed timestamps) and daily mapping
+ *   - Oura / WHOOP CSV detection and column mapping
+ *   - Zip detection and streaming extraction, size limits on actually inflated bytes
+ *   - Import service dedupe against synced vs previously imported days
+ *   - Imports stay pending until their days are written, and fail cleanly when a write fails
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+
+const { state } = vi.hoisted(() => ({
+  state: {
+    imports: [] as any[],
+    existing: [] as any[],
+    inserted: [] as any[],
+    replaced: [] as any[],
+    failWrites: false,
+  },
+}));
+
+vi.mock('../modules/wearables/wearable-import.repository', () => ({
+  wearableImportRepository: {
+    createImport: vi.fn(async (record: any) => {
+      const row = { id: `imp${state.imports.length + 1}`, daysImported: 0, daysUpdated: 0, daysSkipped: 0, ...record };
+      state.imports.push(row);
+      return row;
+    }),
+    updateImport: vi.fn(async (id: string, updates: any) => Object.assign(state.imports.find(i => i.id === id), updates)),
+    getProviderDays: vi.fn(async () => state.existing),
+    commitDays: vi.fn(async (id: string, days: any) => {
+      if (state.failWrites) throw new Error('connection reset');
+      state.inserted.push(...days.inserts);
+      state.replaced.push(...days.replacements.map((r: any) => ({ id: r.id, ...r.values })));
+      return Object.assign(state.imports.find(i => i.id === id), {
+        status: 'completed',
+        daysImported: days.inserts.length,
+        daysUpdated: days.replacements.length,
+        daysSkipped: days.daysSkipped,
+      });
+    }),
+  },
+}));
+vi.mock('../infra/logging/logger', () => ({
+  default: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { parseAppleHealthExport } from '../modules/wearables/importers/apple-health';
+import { decodeFit, parseGarminFit } from '../modules/wearables/importers/garmin-fit';
+import { parseWearableCsv } from '../modules/wearables/importers/export-csv';
+import { parseWearableFile, ImportFormatError } from '../modules/wearables/importers';
+import { listZipEntries, readZipEntry } from '../modules/wearables/importers/zip-reader';
+import { wearableImportService } from '../modules/wearables/wearable-import.service';
+import { wearableImportRepository } from '../modules/wearables/wearable-import.repository';
+
+const APPLE_XML = [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<HealthData locale="en_US">',
+  ' <Record type="HKQuantityTypeIdentifierStepCount" sourceName="iPhone" unit="count" startDate="2024-03-01 09:00:00 -0500" endDate="2024-03-01 09:10:00 -0500" value="4000"/>',
+  ' <Record type="HKQuantityTypeIdentifierStepCount" sourceName="Apple Watch" unit="count" startDate="2024-03-01 09:00:00 -0500" endDate="2024-03-01 09:10:00 -0500" value="3000"/>',
+  ' <Record type="HKQuantityTypeIdentifierStepCount" sourceName="Apple Watch" unit="count" startDate="2024-03-01 18:00:00 -0500" endDate="2024-03-01 18:10:00 -0500" value="2500"/>',
+  ' <Record type="HKQuantityTypeIdentifierRestingHeartRate" sourceName="Apple Watch" unit="count/min" startDate="2024-03-01 08:00:00 -0500" endDate="2024-03-01 08:00:00 -0500" value="52"/>',
+  ' <Record type="HKQuantityTypeIdentifierHeartRateVariabilitySDNN" sourceName="Apple Watch" unit="ms" startDate="2024-03-01 03:00:00 -0500" endDate="2024-03-01 03:01:00 -0500" value="40">',
+  '  <MetadataEntry key="HKAlgorithmVersion" value="1"/>',
+  ' </Record>',
+  ' <Record type="HKQuantityTypeIdentifierHeartRateVariabilitySDNN" sourceName="Apple Watch" unit="ms" startDate="2024-03-01 04:00:00 -0500" endDate="2024-03-01 04:01:00 -0500" value="50"/>',
+  ' <Record type="HKQuantityTypeIdentifierOxygenSaturation" sourceName="Apple Watch" unit="%" startDate="2024-03-01 04:00:00 -0500" endDate="2024-03-01 04:00:00 -0500" value="0.96"/>',
+  ' <Record type="HKQuantityTypeIdentifierAppleSleepingWristTemperature" sourceName="Apple Watch" unit="degC" startDate="2024-03-01 00:00:00 -0500" endDate="2024-03-01 07:00:00 -0500" value="35.62"/>',
+  ' <Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Apple Watch" startDate="2024-02-29 23:00:00 -0500" endDate="2024-03-01 01:00:00 -0500" value="HKCategoryValueSleepAnalysisAsleepCore"/>',
+  ' <Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Apple Watch" startDate="2024-03-01 01:00:00 -0500" endDate="2024-03-01 02:30:00 -0500" value="HKCategoryValueSleepAnalysisAsleepDeep"/>',
+  ' <Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Apple Watch" startDate="2024-03-01 02:30:00 -0500" endDate="2024-03-01 03:00:00 -0500" value="HKCategoryValueSleepAnalysisAwake"/>',
+  ' <Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Apple Watch" startDate="2024-03-01 03:00:00 -0500" endDate="2024-03-01 04:00:00 -0500" value="HKCategoryValueSleepAnalysisAsleepREM"/>',
+  '</HealthData>',
+];
+
+/** Build a little-endian FIT file from [globalNum, fields[[num, size, baseType, value]]] messages */
+function buildFit(messages: Array<{ global: number; fields: Array<[number, number, number, number | number[]]>; compressedOffset?: number }>): Buffer {
+  const chunks: Buffer[] = [];
+  messages.forEach((msg, i) => {
+    const local = i % 4;
+    const def = Buffer.alloc(6 + msg.fields.length * 3);
+    def.writeUInt8(0x40 | local, 0);
+    def.writeUInt8(0, 1);
+    def.writeUInt8(0, 2);   // little endian
+    def.writeUInt16LE(msg.global, 3);
+    def.writeUInt8(msg.fields.length, 5);
+    msg.fields.forEach(([num, size, type], j) => {
+      def.writeUInt8(num, 6 + j * 3);
+      def.writeUInt8(size, 7 + j * 3);
+      def.writeUInt8(type, 8 + j * 3);
+    });
+    chunks.push(def);
+
+    const size = msg.fields.reduce((s, f) => s + f[1], 0);
+    const data = Buffer.alloc(1 + size);
+    data.writeUInt8(msg.compressedOffset !== undefined ? 0x80 | (local << 5) | msg.compressedOffset : local, 0);
+    let pos = 1;
+    for (const [, fieldSize, type, value] of msg.fields) {
+      const values = Array.isArray(value) ? value : [value];
+      const width = fieldSize / values.length;
+      for (const v of values) {
+        if (width === 1) data.writeUInt8(v, pos);
+        else if (width === 2) data.writeUInt16LE(v, pos);
+        else if (type === 0x85) data.writeInt32LE(v, pos);
+        else data.writeUInt32LE(v, pos);
+        pos += width;
+      }
+    }
+    chunks.push(data);
+  });
+  const body = Buffer.concat(chunks);
+  const header = Buffer.alloc(14);
+  header.writeUInt8(14, 0);
+  header.writeUInt8(0x20, 1);
+  header.writeUInt16LE(2132, 2);
+  header.writeUInt32LE(body.length, 4);
+  header.write('.FIT', 8, 'ascii');
+  return Buffer.concat([header, body, Buffer.alloc(2)]);
+}
+
+/** FIT timestamp (seconds since 1989-12-31) for an ISO instant */
+const fitTime = (iso: string) => Date.parse(iso) / 1000 - 631065600;
+
+/** Minimal deflate zip writer for fixtures; `declaredSize` lies about every entry's uncompressed size */
+function buildZip(files: Record<string, Buffer | string>, declaredSize?: number): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const raw = Buffer.isBuffer(content) ? content : Buffer.from(content);
+    const data = zlib.deflateRawSync(raw);
+    const nameBuf = Buffer.from(name);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(declaredSize ?? raw.length, 22);
+    local.writeUInt16LE(nameBuf.length, 26);
+    locals.push(local, nameBuf, data);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(declaredSize ?? raw.length, 24);
+    central.writeUInt16LE(nameBuf.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBuf);
+    offset += 30 + nameBuf.length + data.length;
+  }
+  const cd = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(cd.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, cd, eocd]);
+}
+
+function tempFile(name: string, content: Buffer | string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wearable-import-test-'));
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, content);
+  return file;
+}
+
+beforeEach(() => {
+  state.imports = [];
+  state.existing = [];
+  state.inserted = [];
+  state.replaced = [];
+  state.failWrites = false;
+});
+
+describe('parseAppleHealthExport', () => {
+  it('reduces records to daily values without double-counting phone and watch steps', async () => {
+    const parsed = await parseAppleHealthExport(APPLE_XML);
+    expect(parsed.provider).toBe('apple_health');
+    expect(parsed.days).toEqual([{
+      date: '2024-03-01',
+      steps: 5500,                // watch total beats the phone's 4000
+      restingHeartRate: 52,
+      hrvMs: 45,
+      spo2Percentage: 96,
+      skinTempCelsius: 356,       // stored × 10
+      sleepHours: 270,            // core + deep + REM, awake excluded
+      lightSleepMinutes: 120,
+      deepSleepMinutes: 90,
+      remSleepMinutes: 60,
+    }]);
+  });
+});
+
+describe('Garmin FIT', () => {
+  const night = fitTime('2024-03-02T06:00:00Z');
+  const fit = buildFit([
+    { global: 211, fields: [[253, 4, 0x86, night], [1, 1, 0x02, 48]] },
+    { global: 370, fields: [[253, 4, 0x86, night], [2, 2, 0x84, 62 * 128]] },
+    { global: 297, fields: [[253, 4, 0x86, night], [0, 2, 0x83, 1450]] },
+    { global: 55, fields: [[253, 4, 0x86, night + 2], [27, 1, 0x02, 60]] },
+    // Compressed timestamp header: +3s from the last full timestamp
+    { global: 55, fields: [[27, 1, 0x02, 90]], compressedOffset: (night + 5) & 0x1f },
+    { global: 275, fields: [[253, 4, 0x86, fitTime('2024-03-01T23:00:00Z')], [0, 1, 0x00, 2]] },
+    { global: 275, fields: [[253, 4, 0x86, fitTime('2024-03-02T01:00:00Z')], [0, 1, 0x00, 3]] },
+    { global: 275, fields: [[253, 4, 0x86, fitTime('2024-03-02T02:00:00Z')], [0, 1, 0x00, 1]] },
+  ]);
+
+  it('decodes definitions, data and compressed timestamps', () => {
+    const messages = decodeFit(fit);
+    expect(messages).toHaveLength(8);
+    expect(messages[4]).toEqual({ globalNum: 55, fields: { 27: 90, 253: night + 5 } });
+  });
+
+  it('maps monitoring, HRV, respiration and sleep stages onto days', () => {
+    const { days, provider } = parseGarminFit([fit]);
+    expect(provider).toBe('garmin');
+    expect(days).toEqual([{
+      date: '2024-03-02',
+      restingHeartRate: 48,
+      hrvMs: 62,
+      respiratoryRate: 15,            // 14.5 rounded
+      averageHeartRate: 75,
+      maxHeartRate: 90,
+      lightSleepMinutes: 120,         // 23:00 belongs to the next night
+      deepSleepMinutes: 60,
+      sleepHours: 180,
+    }]);
+  });
+
+  it('rejects files that are not FIT', () => {
+    expect(() => decodeFit(Buffer.from('definitely not a fit file'))).toThrow(ImportFormatError);
+  });
+});
+
+describe('parseWearableCsv', () => {
+  it('maps an Oura export with durations in seconds', () => {
+    const csv = 'date,Sleep Score,Total Sleep Duration,Deep Sleep Duration,Average HRV,Lowest Resting Heart Rate,Readiness Score,Steps\n' +
+      '2024-03-01,82,27000,5400,48,51,77,9000\n';
+    expect(parseWearableCsv(csv)).toEqual({
+      format: 'oura_csv',
+      provider: 'oura',
+      days: [{ date: '2024-03-01', sleepScore: 82, sleepHours: 450, deepSleepMinutes: 90, hrvMs: 48, restingHeartRate: 51, readinessScore: 77, steps: 9000 }],
+    });
+  });
+
+  it('maps WHOOP physiological cycles to the wake-up day', () => {
+    const csv = '"Cycle start time","Cycle end time","Recovery score %","Heart rate variability (ms)","Day Strain","Wake onset","Asleep duration (min)","Skin temp (celsius)"\n' +
+      '"2024-02-29 22:40:00","2024-03-01 23:10:00",66,55,12.4,"2024-03-01 06:50:00",421,33.5\n';
+    const parsed = parseWearableCsv(csv)!;
+    expect(parsed.provider).toBe('whoop');
+    expect(parsed.days).toEqual([{ date: '2024-03-01', recoveryScore: 66, hrvMs: 55, strainScore: 12, sleepHours: 421, skinTempCelsius: 335 }]);
+  });
+
+  it('returns null for unrelated CSVs', () => {
+    expect(parseWearableCsv('name,email\nAda,ada@example.com\n')).toBeNull();
+    expect(parseWearableCsv('"Cycle start time","Question text","Answered yes"\n"2024-03-01",x,true\n')).toBeNull();
+  });
+});
+
+describe('parseWearableFile', () => {
+  it('finds export.xml inside an Apple Health export.zip', async () => {
+    const file = tempFile('export.zip', buildZip({
+      'apple_health_export/export_cda.xml': '<ClinicalDocument/>',
+      'apple_health_export/export.xml': APPLE_XML.join('\n'),
+    }));
+    const parsed = await parseWearableFile(file, 'export.zip');
+    expect(parsed.format).toBe('apple_health_xml');
+    expect(parsed.days[0].steps).toBe(5500);
+  });
+
+  it('reads a zip of CSVs, ignoring the ones it does not recognise', async () => {
+    const file = tempFile('whoop.zip', buildZip({
+      'journal_entries.csv': '"Cycle start time","Question text"\n"2024-03-01",x\n',
+      'physiological_cycles.csv': '"Cycle start time","Recovery score %"\n"2024-03-01 07:00:00",71\n',
+    }));
+    const parsed = await parseWearableFile(file, 'whoop.zip');
+    expect(parsed).toMatchObject({ provider: 'whoop', days: [{ date: '2024-03-01', recoveryScore: 71 }] });
+  });
+
+  it('enforces the size limit on inflated bytes, not the size the archive declares', async () => {
+    const file = tempFile('bomb.zip', buildZip({ 'sleep.csv': Buffer.alloc(64 * 1024, 0x30) }, 100));
+    const [entry] = await listZipEntries(file);
+    expect(entry.uncompressedSize).toBe(100);
+    await expect(readZipEntry(file, entry, 16 * 1024)).rejects.toThrow(/too large/);
+    expect((await readZipEntry(file, entry, 64 * 1024)).length).toBe(64 * 1024);
+  });
+
+  it('rejects unsupported files', async () => {
+    await expect(parseWearableFile(tempFile('notes.txt', 'hello'), 'notes.txt')).rejects.toThrow(ImportFormatError);
+  });
+});
+
+describe('wearableImportService.importFile', () => {
+  const csv = 'date,Sleep Score,Average HRV\n2024-03-01,80,40\n2024-03-02,81,41\n2024-03-03,82,42\n';
+
+  it('inserts new days, skips synced days and overwrites earlier imports', async () => {
+    state.existing = [
+      { id: 'synced', dataDate: new Date('2024-03-01'), importId: null },
+      { id: 'old-import', dataDate: new Date('2024-03-02'), importId: 'imp0' },
+    ];
+    const record = await wearableImportService.importFile('u1', { path: tempFile('oura.csv', csv), name: 'oura.csv' });
+
+    expect(record).toMatchObject({ provider: 'oura', status: 'completed', daysImported: 1, daysUpdated: 1, daysSkipped: 1, firstDate: '2024-03-01', lastDate: '2024-03-03' });
+    expect(state.inserted).toEqual([expect.objectContaining({ userId: 'u1', provider: 'oura', importId: record.id, sleepScore: 82, hrvMs: 42 })]);
+    expect(state.inserted[0].dataDate.toISOString()).toBe('2024-03-03T00:00:00.000Z');
+    expect(state.replaced).toEqual([expect.objectContaining({ id: 'old-import', importId: record.id, sleepScore: 81 })]);
+  });
+
+  it('creates the import as pending and marks it failed when writing the days fails', async () => {
+    state.failWrites = true;
+    await expect(
+      wearableImportService.importFile('u1', { path: tempFile('oura.csv', csv), name: 'oura.csv' }),
+    ).rejects.toThrow('connection reset');
+    expect(wearableImportRepository.createImport).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'pending' }));
+    expect(state.imports).toEqual([expect.objectContaining({ provider: 'oura', status: 'failed', error: expect.any(String), daysImported: 0 })]);
+    expect(state.inserted).toEqual([]);
+  });
+
+  it('records a failed import for unrecognised files', async () => {
+    await expect(
+      wearableImportService.importFile('u1', { path: tempFile('x.csv', 'a,b\n1,2\n'), name: 'x.csv' }),
+    ).rejects.toThrow(ImportFormatError);
+    expect(state.imports).toEqual([expect.objectContaining({ status: 'failed', fileName: 'x.csv' })]);
+    expect(state.inserted).toEqual([]);
+  });
+});
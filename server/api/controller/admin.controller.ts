@@ -8,10 +8,18 @@ import { logger } from '../../infra/logging/logger';
 import { manufacturerPricingService } from '../../modules/formulas/manufacturer-pricing.service';
 import { ingredientCatalogRepository } from '../../modules/formulas/ingredient-catalog.repository';
 import { ingredientCatalogSyncService } from '../../modules/formulas/ingredient-catalog-sync.service';
+import { safetyRulesService } from '../../modules/formulas/safety-rules.service';
 import { formulasRepository } from '../../modules/formulas/formulas.repository';
+import { formulasService } from '../../modules/formulas/formulas.service';
 import { SYSTEM_SUPPORTS, INDIVIDUAL_INGREDIENTS, ALL_INGREDIENTS, SYSTEM_SUPPORT_DETAILS } from '@shared/ingredients';
 import { epdQueryService } from '../../modules/billing/epd-query.service';
 import { epdGateway } from '../../modules/billing/epd-gateway';
+import { dunningService } from '../../modules/billing/dunning.service';
+import { biomarkerReviewService } from '../../modules/labs/biomarker-review.service';
+import { supplementOutcomeService } from '../../modules/labs/supplement-outcome.service';
+import { claimsAuditService } from '../../modules/ai/claims-audit.service';
+import { CLAIM_CATEGORIES, type ClaimCategory } from '../../modules/ai/claims-filter';
+import { z } from 'zod';
 import posthog from '../../infra/posthog';
 
 export class AdminController {
@@ -130,6 +138,17 @@ export class AdminController {
         }
     }
 
+    async getUserFormulaChangelog(req: Request, res: Response) {
+        try {
+            const changelog = await formulasService.getFormulaChangelog(req.params.id);
+            await logAdminAction(req, 'user_view', 'user', req.params.id, { view: 'formula_changelog' });
+            res.json({ changelog });
+        } catch (error) {
+            logger.error('Error fetching user formula changelog', { error, userId: req.params.id });
+            res.status(500).json({ error: 'Failed to fetch formula changelog' });
+        }
+    }
+
     async getUserDetails(req: Request, res: Response) {
         try {
             const user = await adminService.getUserById(req.params.id);
@@ -420,6 +439,15 @@ export class AdminController {
         }
     }
 
+    async getQuoteCacheStats(req: Request, res: Response) {
+        try {
+            res.json(manufacturerPricingService.getQuoteCacheStats());
+        } catch (error) {
+            logger.error('Error fetching quote cache stats', { error });
+            res.status(500).json({ error: 'Failed to fetch quote cache stats' });
+        }
+    }
+
     async getFormulaInsights(req: Request, res: Response) {
         try {
             const insights = await adminService.getFormulaInsights();
@@ -1470,6 +1498,331 @@ export class AdminController {
         }
     }
 
+    // ── Safety Rule Sets ─────────────────────────────────────────────────
+    async listSafetyRuleSets(req: Request, res: Response) {
+        try {
+            res.json(await safetyRulesService.listRuleSets());
+        } catch (error) {
+            logger.error('Error fetching safety rule sets', { error });
+            res.status(500).json({ error: 'Failed to fetch safety rule sets' });
+        }
+    }
+
+    async getSafetyRuleSet(req: Request, res: Response) {
+        try {
+            const version = parseInt(req.params.version);
+            if (!Number.isFinite(version)) return res.status(400).json({ error: 'Invalid version' });
+            const ruleSet = await safetyRulesService.getRuleSet(version);
+            if (!ruleSet) return res.status(404).json({ error: 'Rule set not found' });
+            res.json(ruleSet);
+        } catch (error) {
+            logger.error('Error fetching safety rule set', { error });
+            res.status(500).json({ error: 'Failed to fetch safety rule set' });
+        }
+    }
+
+    async createSafetyRuleDraft(req: Request, res: Response) {
+        try {
+            const notes = typeof req.body?.notes === 'string' ? req.body.notes : undefined;
+            const result = await safetyRulesService.createDraft(req.userId || null, notes);
+            if ('error' in result) return res.status(409).json(result);
+            await logAdminAction(req, 'safety_rules_draft', 'safety_rule_set', String(result.version), { notes });
+            res.json(result);
+        } catch (error) {
+            logger.error('Error creating safety rule draft', { error });
+            res.status(500).json({ error: 'Failed to create safety rule draft' });
+        }
+    }
+
+    async updateSafetyRuleDraft(req: Request, res: Response) {
+        try {
+            const version = parseInt(req.params.version);
+            if (!Number.isFinite(version)) return res.status(400).json({ error: 'Invalid version' });
+            const { rules, notes } = req.body || {};
+            const result = await safetyRulesService.updateDraft(version, rules, typeof notes === 'string' ? notes : undefined);
+            if (!result) return res.status(404).json({ error: 'Draft not found' });
+            if ('error' in result) return res.status(400).json(result);
+            await logAdminAction(req, 'safety_rules_update', 'safety_rule_set', String(version), { ruleCount: result.rules.length });
+            res.json(result);
+        } catch (error) {
+            logger.error('Error updating safety rule draft', { error });
+            res.status(500).json({ error: 'Failed to update safety rule draft' });
+        }
+    }
+
+    async previewSafetyRuleSet(req: Request, res: Response) {
+        try {
+            const version = parseInt(req.params.version);
+            if (!Number.isFinite(version)) return res.status(400).json({ error: 'Invalid version' });
+            const limit = parseInt(req.query.limit as string) || undefined;
+            const preview = await safetyRulesService.previewDraft(version, limit);
+            if (!preview) return res.status(404).json({ error: 'Rule set not found' });
+            res.json(preview);
+        } catch (error) {
+            logger.error('Error previewing safety rule set', { error });
+            res.status(500).json({ error: 'Failed to preview safety rule set' });
+        }
+    }
+
+    async publishSafetyRuleSet(req: Request, res: Response) {
+        try {
+            const version = parseInt(req.params.version);
+            if (!Number.isFinite(version)) return res.status(400).json({ error: 'Invalid version' });
+            const result = await safetyRulesService.publish(version, req.userId || null);
+            if (!result) return res.status(404).json({ error: 'Draft not found' });
+            if ('error' in result) return res.status(400).json(result);
+            await logAdminAction(req, 'safety_rules_publish', 'safety_rule_set', String(version));
+            res.json(result);
+        } catch (error) {
+            logger.error('Error publishing safety rule set', { error });
+            res.status(500).json({ error: 'Failed to publish safety rule set' });
+        }
+    }
+
+    // ── Dunning (failed recurring charges) ───────────────────────────────
+    async getDunningOverview(req: Request, res: Response) {
+        try {
+            const days = Math.min(365, Math.max(1, parseInt(req.query.days as string) || 90));
+            const status = ['open', 'recovered', 'paused', 'closed'].includes(req.query.status as string)
+                ? req.query.status as 'open' | 'recovered' | 'paused' | 'closed'
+                : undefined;
+            const [stats, cases] = await Promise.all([
+                dunningService.getRecoveryStats(days),
+                dunningService.listCases({ status, limit: 200 }),
+            ]);
+            res.json({ stats, cases });
+        } catch (error) {
+            logger.error('Error fetching dunning overview', { error });
+            res.status(500).json({ error: 'Failed to fetch dunning overview' });
+        }
+    }
+
+    async getDunningCase(req: Request, res: Response) {
+        try {
+            const detail = await dunningService.getCaseDetail(req.params.id);
+            if (!detail) return res.status(404).json({ error: 'Case not found' });
+            res.json(detail);
+        } catch (error) {
+            logger.error('Error fetching dunning case', { error });
+            res.status(500).json({ error: 'Failed to fetch dunning case' });
+        }
+    }
+
+    async retryDunningCase(req: Request, res: Response) {
+        try {
+            const detail = await dunningService.getCaseDetail(req.params.id);
+            if (!detail) return res.status(404).json({ error: 'Case not found' });
+            if (detail.status !== 'open') return res.status(400).json({ error: 'Only open cases can be retried' });
+            const status = await dunningService.retryCase(detail, 'manual');
+            await logAdminAction(req, 'dunning_case_retry', 'dunning_case', req.params.id, { status });
+            res.json({ status });
+        } catch (error) {
+            logger.error('Error retrying dunning case', { error });
+            res.status(500).json({ error: 'Failed to retry dunning case' });
+        }
+    }
+
+    async closeDunningCase(req: Request, res: Response) {
+        try {
+            const closed = await dunningService.closeCase(req.params.id);
+            if (!closed) return res.status(404).json({ error: 'Case not found' });
+            await logAdminAction(req, 'dunning_case_close', 'dunning_case', req.params.id);
+            res.json(closed);
+        } catch (error: any) {
+            if (error?.message === 'CASE_NOT_OPEN') {
+                return res.status(400).json({ error: 'Only open cases can be closed' });
+            }
+            logger.error('Error closing dunning case', { error });
+            res.status(500).json({ error: 'Failed to close dunning case' });
+        }
+    }
+
+    async getDunningPolicy(req: Request, res: Response) {
+        try {
+            res.json(await dunningService.getPolicy());
+        } catch (error) {
+            logger.error('Error fetching dunning policy', { error });
+            res.status(500).json({ error: 'Failed to fetch dunning policy' });
+        }
+    }
+
+    async updateDunningPolicy(req: Request, res: Response) {
+        try {
+            const policy = await dunningService.updatePolicy(req.body, req.userId || null);
+            await logAdminAction(req, 'dunning_policy_update', 'app_setting', 'dunning_policy', policy);
+            res.json(policy);
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res.status(400).json({ error: 'Invalid dunning policy', details: error.flatten() });
+            }
+            logger.error('Error updating dunning policy', { error });
+            res.status(500).json({ error: 'Failed to update dunning policy' });
+        }
+    }
+
+    // ── Biomarker name review queue ──────────────────────────────────────
+    async listBiomarkerNameReviews(req: Request, res: Response) {
+        try {
+            const status = ['pending', 'mapped', 'ignored'].includes(req.query.status as string)
+                ? req.query.status as 'pending' | 'mapped' | 'ignored'
+                : undefined;
+            res.json(await biomarkerReviewService.listQueue(status));
+        } catch (error) {
+            logger.error('Error fetching biomarker name reviews', { error });
+            res.status(500).json({ error: 'Failed to fetch biomarker name reviews' });
+        }
+    }
+
+    async mapBiomarkerName(req: Request, res: Response) {
+        try {
+            const { canonicalName } = z.object({ canonicalName: z.string().min(1).max(200) }).parse(req.body);
+            const review = await biomarkerReviewService.mapName(req.params.id, canonicalName, req.userId || null);
+            if (!review) return res.status(404).json({ error: 'Review not found' });
+            await logAdminAction(req, 'biomarker_alias_map', 'biomarker_name_review', req.params.id, {
+                name: review.sampleName,
+                canonicalName,
+            });
+            res.json(review);
+        } catch (error: any) {
+            if (error instanceof z.ZodError) {
+                return res.status(400).json({ error: 'Invalid mapping', details: error.flatten() });
+            }
+            if (error?.message?.startsWith('Unknown canonical marker')) {
+                return res.status(400).json({ error: error.message });
+            }
+            logger.error('Error mapping biomarker name', { error });
+            res.status(500).json({ error: 'Failed to map biomarker name' });
+        }
+    }
+
+    async ignoreBiomarkerName(req: Request, res: Response) {
+        try {
+            const review = await biomarkerReviewService.ignoreName(req.params.id, req.userId || null);
+            if (!review) return res.status(404).json({ error: 'Review not found' });
+            await logAdminAction(req, 'biomarker_alias_ignore', 'biomarker_name_review', req.params.id, { name: review.sampleName });
+            res.json(review);
+        } catch (error) {
+            logger.error('Error ignoring biomarker name', { error });
+            res.status(500).json({ error: 'Failed to ignore biomarker name' });
+        }
+    }
+
+    // ── Claims filter review ─────────────────────────────────────────────
+    async listClaimViolations(req: Request, res: Response) {
+        try {
+            const status = ['open', 'confirmed', 'false_positive'].includes(req.query.status as string)
+                ? req.query.status as 'open' | 'confirmed' | 'false_positive'
+                : undefined;
+            const category = typeof req.query.category === 'string' && req.query.category ? req.query.category : undefined;
+            const limit = Math.min(parseInt(req.query.limit as string) || 200, 500);
+            res.json({
+                violations: await claimsAuditService.listViolations({ status, category }, limit),
+                categories: CLAIM_CATEGORIES,
+            });
+        } catch (error) {
+            logger.error('Error fetching claims filter violations', { error });
+            res.status(500).json({ error: 'Failed to fetch claims filter violations' });
+        }
+    }
+
+    async reviewClaimViolation(req: Request, res: Response) {
+        try {
+            const { status, note } = z.object({
+                status: z.enum(['open', 'confirmed', 'false_positive']),
+                note: z.string().max(1000).optional(),
+            }).parse(req.body);
+            const violation = await claimsAuditService.reviewViolation(req.params.id, status, note?.trim() || null, req.userId || null);
+            if (!violation) return res.status(404).json({ error: 'Violation not found' });
+            await logAdminAction(req, 'claims_violation_review', 'claim_filter_violation', req.params.id, {
+                category: violation.category,
+                status,
+            });
+            res.json(violation);
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res.status(400).json({ error: 'Invalid review', details: error.flatten() });
+            }
+            logger.error('Error reviewing claims filter violation', { error });
+            res.status(500).json({ error: 'Failed to review claims filter violation' });
+        }
+    }
+
+    async getClaimTrends(req: Request, res: Response) {
+        try {
+            const days = parseInt(req.query.days as string) || 30;
+            res.json(await claimsAuditService.getTrends(days));
+        } catch (error) {
+            logger.error('Error fetching claims filter trends', { error });
+            res.status(500).json({ error: 'Failed to fetch claims filter trends' });
+        }
+    }
+
+    async listClaimPhrases(req: Request, res: Response) {
+        try {
+            res.json(await claimsAuditService.listPhrases());
+        } catch (error) {
+            logger.error('Error fetching claims filter phrases', { error });
+            res.status(500).json({ error: 'Failed to fetch claims filter phrases' });
+        }
+    }
+
+    async promoteClaimPhrase(req: Request, res: Response) {
+        try {
+            const input = z.object({
+                phrase: z.string().trim().min(3).max(200),
+                category: z.enum(CLAIM_CATEGORIES as [ClaimCategory, ...ClaimCategory[]]),
+                severity: z.enum(['warning', 'critical']),
+                rewriteTemplate: z.string().max(500).nullable().optional(),
+                sourceViolationId: z.string().nullable().optional(),
+            }).parse(req.body);
+            const result = await claimsAuditService.promotePhrase(input, req.userId || null);
+            if ('error' in result) return res.status(409).json(result);
+            await logAdminAction(req, 'claims_phrase_promote', 'claim_filter_phrase', result.id, {
+                phrase: result.phrase,
+                category: result.category,
+                severity: result.severity,
+                sourceViolationId: result.sourceViolationId,
+            });
+            res.json(result);
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res.status(400).json({ error: 'Invalid phrase', details: error.flatten() });
+            }
+            logger.error('Error promoting claims filter phrase', { error });
+            res.status(500).json({ error: 'Failed to promote claims filter phrase' });
+        }
+    }
+
+    async updateClaimPhrase(req: Request, res: Response) {
+        try {
+            const updates = z.object({
+                active: z.boolean().optional(),
+                severity: z.enum(['warning', 'critical']).optional(),
+                rewriteTemplate: z.string().max(500).nullable().optional(),
+            }).parse(req.body);
+            const phrase = await claimsAuditService.updatePhrase(req.params.id, updates);
+            if (!phrase) return res.status(404).json({ error: 'Phrase not found' });
+            await logAdminAction(req, 'claims_phrase_update', 'claim_filter_phrase', req.params.id, updates);
+            res.json(phrase);
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res.status(400).json({ error: 'Invalid update', details: error.flatten() });
+            }
+            logger.error('Error updating claims filter phrase', { error });
+            res.status(500).json({ error: 'Failed to update claims filter phrase' });
+        }
+    }
+
+    // ── Supplement outcomes ──────────────────────────────────────────────
+    async getSupplementOutcomeAggregate(req: Request, res: Response) {
+        try {
+            res.json(await supplementOutcomeService.getAggregate({ refresh: req.query.refresh === '1' }));
+        } catch (error) {
+            logger.error('Error building supplement outcome aggregate', { error });
+            res.status(500).json({ error: 'Failed to build supplement outcome aggregate' });
+        }
+    }
+
     async getOrderDetail(req: Request, res: Response) {
         try {
             const order = await adminService.getOrderDetail(req.params.id);
@@ -76,6 +76,9 @@ export class AutoShipController {
       if (error?.message === 'AUTO_SHIP_NOT_PAUSED') {
         return res.status(400).json({ error: 'Auto-ship is not currently paused' });
       }
+      if (error?.message === 'FORMULA_SAFETY_BLOCKED') {
+        return res.status(409).json({ error: 'Your current formula has a critical safety warning with your health profile. Update your formula before resuming auto-ship.' });
+      }
       logger.error('Error resuming auto-ship', { error });
       return res.status(500).json({ error: 'Failed to resume auto-ship' });
     }
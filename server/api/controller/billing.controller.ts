@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { z } from 'zod';
 import logger from '../../infra/logging/logger';
 import { billingService } from '../../modules/billing/billing.service';
+import { dunningService } from '../../modules/billing/dunning.service';
 import posthog from '../../infra/posthog';
 import { syncUserProperties } from '../../infra/posthog';
 
@@ -27,6 +28,10 @@ const checkoutPayloadSchema = z.object({
   discountCode: z.string().trim().min(1).max(64).optional(),
 });
 
+const paymentMethodSchema = z.object({
+  paymentToken: z.string().min(1).max(500),
+});
+
 export class BillingController {
   async getEquivalentStack(req: Request, res: Response) {
     try {
@@ -261,6 +266,45 @@ export class BillingController {
       res.status(500).json({ error: 'Failed to cancel order' });
     }
   }
+
+  async getPaymentIssues(req: Request, res: Response) {
+    try {
+      const issues = await dunningService.getOpenIssuesForUser(req.userId!);
+      return res.json({ issues });
+    } catch (error) {
+      logger.error('Error fetching payment issues', { error });
+      res.status(500).json({ error: 'Failed to fetch payment issues' });
+    }
+  }
+
+  async updatePaymentMethod(req: Request, res: Response) {
+    try {
+      const userId = req.userId!;
+      const parsed = paymentMethodSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid payment method data', details: parsed.error.flatten().fieldErrors });
+      }
+      const result = await billingService.updatePaymentMethod(userId, parsed.data.paymentToken);
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+      posthog.capture({
+        distinctId: userId,
+        event: 'payment_method_updated',
+        properties: {
+          retried_cases: result.retries.length,
+          recovered_cases: result.retries.filter((r) => r.status === 'recovered').length,
+        },
+      });
+      return res.json(result);
+    } catch (error: any) {
+      if (error?.message === 'USER_NOT_FOUND') {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      logger.error('Error updating payment method', { error });
+      res.status(500).json({ error: 'Failed to update payment method' });
+    }
+  }
 }
 
 export const billingController = new BillingController();
@@ -2,8 +2,7 @@ import { Request, Response } from 'express';
 import { logger } from '../../infra/logging/logger';
 import { blogRepository } from '../../modules/blog/blog.repository';
 import { insertBlogPostSchema } from '../../../shared/schema';
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
+import { complete } from '../../infra/ai/llm-gateway';
 import { generateBlogImage } from '../../utils/blogImageService';
 import {
   getBlogAutoGenSettings,
@@ -333,32 +332,21 @@ Admin Revision Request: ${prompt}
 
 Please revise the article content accordingly.`;
 
-    let revisedContent: string;
-
-    if (process.env.ANTHROPIC_API_KEY) {
-      const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-      const response = await anthropic.messages.create({
-        model: 'claude-sonnet-4-6',
-        max_tokens: 8000,
-        system: systemPrompt,
-        messages: [{ role: 'user', content: userMessage }],
-      });
-      revisedContent = response.content.find(c => c.type === 'text')?.text ?? '';
-    } else if (process.env.OPENAI_API_KEY) {
-      const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userMessage },
-        ],
-        max_tokens: 8000,
-      });
-      revisedContent = response.choices[0]?.message?.content ?? '';
-    } else {
+    if (!process.env.ANTHROPIC_API_KEY && !process.env.OPENAI_API_KEY) {
       return res.status(500).json({ error: 'No AI provider configured (set ANTHROPIC_API_KEY or OPENAI_API_KEY)' });
     }
 
+    const provider = process.env.ANTHROPIC_API_KEY ? 'anthropic' : 'openai';
+    const { text: revisedContent } = await complete({
+      feature: 'blog',
+      provider,
+      model: provider === 'anthropic' ? 'claude-sonnet-4-6' : 'gpt-4o',
+      system: systemPrompt,
+      messages: [{ role: 'user', content: userMessage }],
+      maxTokens: 8000,
+      metadata: { task: 'revise', postId: post.id },
+    });
+
     return res.json({ revisedContent });
   } catch (err: any) {
     logger.error('[blog] adminAiRevise error', { error: err });
@@ -436,33 +424,23 @@ For faqSchema: include 5-6 questions. Requirements:
 
 IMPORTANT: Return only the JSON object, no preamble, no markdown fences.`;
 
-    let raw: string;
-
-    if (process.env.ANTHROPIC_API_KEY) {
-      const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-      const response = await anthropic.messages.create({
-        model: textModel || 'claude-sonnet-4-6',
-        max_tokens: 12000,
-        system: systemPrompt,
-        messages: [{ role: 'user', content: userMessage }],
-      });
-      raw = response.content.find(c => c.type === 'text')?.text ?? '';
-    } else if (process.env.OPENAI_API_KEY) {
-      const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userMessage },
-        ],
-        max_tokens: 12000,
-        response_format: { type: 'json_object' },
-      });
-      raw = response.choices[0]?.message?.content ?? '{}';
-    } else {
+    if (!process.env.ANTHROPIC_API_KEY && !process.env.OPENAI_API_KEY) {
       return res.status(500).json({ error: 'No AI provider configured' });
     }
 
+    const provider = process.env.ANTHROPIC_API_KEY ? 'anthropic' : 'openai';
+    const { text } = await complete({
+      feature: 'blog',
+      provider,
+      model: provider === 'anthropic' ? (textModel || 'claude-sonnet-4-6') : 'gpt-4o',
+      system: systemPrompt,
+      messages: [{ role: 'user', content: userMessage }],
+      maxTokens: 12000,
+      json: true,
+      metadata: { task: 'generate' },
+    });
+    const raw = text || '{}';
+
     // Extract JSON from response (handle stray markdown fences)
     const jsonMatch = raw.match(/\{[\s\S]*\}/);
     if (!jsonMatch) return res.status(500).json({ error: 'AI returned unexpected format', raw });
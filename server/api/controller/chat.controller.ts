@@ -9,29 +9,29 @@ import { systemRepository } from '../../modules/system/system.repository';
 import { notificationsService } from '../../modules/notifications/notifications.service';
 
 import { getClientIP, checkRateLimit } from '../middleware/middleware';
-import { aiRuntimeSettings, normalizeModel } from '../../infra/ai/ai-config';
+import { AiBudgetExceededError, defaultProvider, resolveModel, streamText, type LlmContentPart, type LlmMessage } from '../../infra/ai/llm-gateway';
 import { buildO1MiniPrompt, type PromptContext } from '../../utils/prompt-builder';
 import { analyzeQueryIntent } from '../../utils/query-intent-analyzer';
 import { canonicalKey } from '../../modules/labs/biomarker-aliases';
 import { extractCapsuleCountFromMessage, validateAndCorrectIngredientNames, validateAndCalculateFormula, FORMULA_LIMITS, getMaxDosageForCapsules, validateFormulaLimits, autoFitFormulaToBudget, autoExpandFormula, clampIngredientDosesToRange } from '../../modules/formulas/formula-service';
 import { expandFormulaWithAI, buildClinicalContextSummary } from '../../modules/chat/formula-expander';
 import { validateFormulaSafety, safetyWarningsToStrings } from '../../modules/formulas/safety-validator';
+import { safetyRescreenService } from '../../modules/formulas/safety-rescreen.service';
+import { manufacturerPricingService } from '../../modules/formulas/manufacturer-pricing.service';
 import { unmatchedMedicationsRepository } from '../../modules/health/unmatched-medications.repository';
 import { detectPregnancyStatus, detectNursingStatus } from '../../modules/formulas/profile-status-detector';
 import { filterAIOutputClaims } from '../../modules/ai/claims-filter';
+import { claimsAuditService } from '../../modules/ai/claims-audit.service';
 import type { SafetyWarning } from '@shared/safety-types';
 import { recommendDailyProtocolCapsules } from '../../modules/chat/protocol-recommendation';
 import { detectRejectedIngredients, detectFormulationModeChange } from '../../modules/chat/preference-detector';
 import { extractRejectionsWithAI, shouldRunAIExtractor } from '../../modules/chat/preference-extractor-ai';
+import { patientMemoryService } from '../../modules/chat/patient-memory.service';
 import { mergeHealthArray } from '../../modules/users/health-data-merge';
 import { normalizeImageForVision } from '../../utils/fileAnalysis';
 import posthog from '../../infra/posthog';
 import { syncUserProperties } from '../../infra/posthog';
-import OpenAI from 'openai';
 import logger from '../../infra/logging/logger';
-import { logAiUsage, estimateTokenCount } from '../../modules/ai-usage/ai-usage.service';
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
 interface ImageAttachment { base64: string; mimeType: string; fileName: string; }
 
@@ -201,7 +201,7 @@ export class ChatController {
 
             // Persist user message immediately so it never disappears if the user
             // navigates away while the assistant response is still streaming.
-            await chatService.createMessage({
+            const userMessage = await chatService.createMessage({
                 sessionId: chatSession.id,
                 role: 'user',
                 content: message,
@@ -323,7 +323,7 @@ export class ChatController {
                     const extracted = (file.labReportData as any)?.extractedData;
                     const allExtracted = Array.isArray(extracted) ? extracted : [];
                     const visibleExtracted = hiddenForAttached.size > 0
-                        ? allExtracted.filter((v: any) => !hiddenForAttached.has(canonicalKey(v.testName || '')))
+                        ? allExtracted.filter((v: any) => !hiddenForAttached.has(canonicalKey(v.testName || '', v.loincCode)))
                         : allExtracted;
                     const markerCount = visibleExtracted.length;
 
@@ -366,7 +366,7 @@ export class ChatController {
                 });
             }
 
-            const { healthProfile, labDataContext, activeFormula, biometricDataContext } = await chatService.getContext(userId);
+            const { healthProfile, labDataContext, activeFormula, biometricDataContext, patientMemoryContext } = await chatService.getContext(userId);
 
             // --- Membership status for AI gating ---
             const currentUser = await usersRepository.getUser(userId);
@@ -388,9 +388,8 @@ export class ChatController {
                 detail: contextParts.length > 0 ? contextParts.join(', ') : 'No prior data on file'
             });
 
-            const aiProvider = (aiRuntimeSettings.provider || process.env.AI_PROVIDER || 'openai').toLowerCase() as 'openai' | 'anthropic';
-            let model = aiRuntimeSettings.model || process.env.AI_MODEL || (aiProvider === 'anthropic' ? 'claude-sonnet-4-6' : 'gpt-4o');
-            model = normalizeModel(aiProvider, model) || model;
+            const aiProvider = defaultProvider();
+            const model = resolveModel(aiProvider);
 
             // Analyze query intent to determine scope
             const queryIntent = analyzeQueryIntent(message);
@@ -419,21 +418,22 @@ export class ChatController {
             // back to a small low-temp LLM call that interprets intent and
             // returns canonical catalog names. NEVER throws — on any failure
             // we proceed with the regex result alone.
+
+            // Use a small/cheap model regardless of the user's chat model.
+            const extractorModel = aiProvider === 'anthropic'
+                ? 'claude-haiku-4-6'
+                : 'gpt-4o-mini';
+            // Keep ~1.5KB of recent context so the AI can resolve
+            // ambiguous pronouns ("remove those") against earlier turns.
+            const recentContextSnippet = previousMessages
+                .slice(-4)
+                .map(m => `${m.role}: ${typeof m.content === 'string' ? m.content : ''}`)
+                .join('\n')
+                .slice(-1500);
+
             let aiExtractedRejected: string[] = [];
             if (shouldRunAIExtractor(message, newlyRejected.length)) {
                 try {
-                    // Use a small/cheap model regardless of the user's chat model.
-                    const extractorModel = aiProvider === 'anthropic'
-                        ? 'claude-haiku-4-6'
-                        : 'gpt-4o-mini';
-                    // Keep ~1.5KB of recent context so the AI can resolve
-                    // ambiguous pronouns ("remove those") against earlier turns.
-                    const recentContextSnippet = previousMessages
-                        .slice(-4)
-                        .map(m => `${m.role}: ${typeof m.content === 'string' ? m.content : ''}`)
-                        .join('\n')
-                        .slice(-1500);
-
                     const aiResult = await extractRejectionsWithAI(
                         {
                             message,
@@ -442,6 +442,7 @@ export class ChatController {
                         },
                         async ({ systemPrompt, userPrompt, timeoutMs }) =>
                             chatService.complete({
+                                userId,
                                 provider: aiProvider,
                                 model: extractorModel,
                                 systemPrompt,
@@ -507,6 +508,31 @@ export class ChatController {
                 }
             }
 
+            // ── Long-term memory ─────────────────────────────────────────────
+            // Preferences, tolerances, goals and decisions that should carry
+            // into future sessions. Runs in the background — this turn already
+            // has the message itself in context.
+            void patientMemoryService.rememberTurn({
+                userId,
+                sessionId: chatSession.id,
+                messageId: userMessage?.id ?? null,
+                message,
+                recentContext: recentContextSnippet || undefined,
+                rejectedIngredients: combinedNewlyRejected.filter(n => !existingRejected.includes(n)),
+                callAI: ({ systemPrompt, userPrompt, timeoutMs }) =>
+                    chatService.complete({
+                        feature: 'patient_memory',
+                        userId,
+                        provider: aiProvider,
+                        model: extractorModel,
+                        systemPrompt,
+                        userPrompt,
+                        temperature: 0,
+                        maxTokens: 400,
+                        timeoutMs,
+                    }),
+            });
+
             const effectiveFormulationMode: 'comprehensive' | 'focused' =
                 (prefsToPersist.formulationMode as 'comprehensive' | 'focused' | undefined)
                 ?? ((chatSession as any).formulationMode === 'focused' ? 'focused' : 'comprehensive');
@@ -531,6 +557,7 @@ export class ChatController {
                 discontinuedIngredientNames: discontinuedIngredientNames.length > 0 ? discontinuedIngredientNames : undefined,
                 rejectedIngredientNames: mergedRejected.length > 0 ? mergedRejected : undefined,
                 formulationMode: effectiveFormulationMode,
+                patientMemoryContext: patientMemoryContext || undefined,
             };
 
             const fullSystemPrompt = buildO1MiniPrompt(promptContext);
@@ -561,120 +588,59 @@ export class ChatController {
                 : sanitizedMessage;
 
             // Build multimodal user message content if images are attached
-            let userContent: any;
-            if (imageAttachments.length > 0 && aiProvider === 'anthropic') {
-                // Anthropic vision format: array of content blocks
-                const contentBlocks: any[] = [];
-                for (const img of imageAttachments) {
-                    contentBlocks.push({
-                        type: 'image',
-                        source: {
-                            type: 'base64',
-                            media_type: img.mimeType,
-                            data: img.base64
-                        }
-                    });
-                }
-                contentBlocks.push({ type: 'text', text: userMessageText });
-                userContent = contentBlocks;
-            } else if (imageAttachments.length > 0) {
-                // OpenAI vision format: array of content parts
-                const contentParts: any[] = [];
-                for (const img of imageAttachments) {
-                    contentParts.push({
-                        type: 'image_url',
-                        image_url: {
-                            url: `data:${img.mimeType};base64,${img.base64}`,
-                            detail: 'high'
-                        }
-                    });
-                }
-                contentParts.push({ type: 'text', text: userMessageText });
-                userContent = contentParts;
-            } else {
-                userContent = userMessageText;
+            let userContent: string | LlmContentPart[] = userMessageText;
+            if (imageAttachments.length > 0) {
+                userContent = [
+                    ...imageAttachments.map(img => ({
+                        type: 'image' as const,
+                        url: `data:${img.mimeType};base64,${img.base64}`,
+                        detail: 'high' as const,
+                    })),
+                    { type: 'text' as const, text: userMessageText },
+                ];
             }
 
-            const conversationHistory: any[] = [
-                { role: 'system', content: fullSystemPrompt },
-                ...promptContext.recentMessages!,
+            // Stored 'system' rows are app notices, not model instructions
+            const conversationHistory: LlmMessage[] = [
+                ...promptContext.recentMessages!
+                    .filter(m => m.role === 'user' || m.role === 'assistant')
+                    .map(m => ({ role: m.role as 'user' | 'assistant', content: m.content })),
                 { role: 'user', content: userContent }
             ];
 
             let fullResponse = '';
             let chunkCount = 0;
-            const aiCallStart = Date.now();
-            let promptTokensActual = 0;
-            let completionTokensActual = 0;
 
-            if (aiProvider === 'anthropic') {
-                const systemPrompt = fullSystemPrompt;
-                const msgs = conversationHistory.slice(1);
-                try {
-                    for await (const chunk of chatService.streamAnthropic(systemPrompt, msgs, model, 0.7, 4096)) {
-                        if (chunk.type === 'text') {
-                            fullResponse += chunk.content;
-                            chunkCount++;
-                            sendSSE({ type: 'chunk', content: chunk.content, sessionId: chatSession.id, chunkIndex: chunkCount });
-                        } else if (chunk.type === 'usage') {
-                            promptTokensActual = (chunk as any).inputTokens || 0;
-                            completionTokensActual = (chunk as any).outputTokens || 0;
-                        }
-                    }
-                } catch (aiErr) {
-                    if (handleProviderRateLimit(aiErr, sendSSE, 'anthropic', userId)) {
-                        endStream();
-                        return;
-                    }
-                    throw aiErr;
+            try {
+                const response = await streamText({
+                    feature: 'chat',
+                    userId,
+                    sessionId: chatSession.id,
+                    provider: aiProvider,
+                    model,
+                    system: fullSystemPrompt,
+                    messages: conversationHistory,
+                    maxTokens: 4096,
+                    temperature: 0.7,
+                }, (content) => {
+                    chunkCount++;
+                    sendSSE({ type: 'chunk', content, sessionId: chatSession.id, chunkIndex: chunkCount });
+                });
+                fullResponse = response.text;
+            } catch (aiErr) {
+                if (handleProviderRateLimit(aiErr, sendSSE, aiProvider, userId)) {
+                    endStream();
+                    return;
                 }
-            } else {
-                try {
-                    const stream = await openai.chat.completions.create({
-                        model: model,
-                        messages: conversationHistory,
-                        stream: true,
-                        stream_options: { include_usage: true },
-                        max_completion_tokens: 4096,
-                        temperature: 0.7
-                    });
-
-                    for await (const chunk of stream) {
-                        const content = chunk.choices[0]?.delta?.content || '';
-                        if (content) {
-                            fullResponse += content;
-                            chunkCount++;
-                            sendSSE({ type: 'chunk', content, sessionId: chatSession.id, chunkIndex: chunkCount });
-                        }
-                        // Capture usage from the final chunk (OpenAI sends it in the last event)
-                        if (chunk.usage) {
-                            promptTokensActual = chunk.usage.prompt_tokens || 0;
-                            completionTokensActual = chunk.usage.completion_tokens || 0;
-                        }
-                    }
-                } catch (aiErr) {
-                    if (handleProviderRateLimit(aiErr, sendSSE, 'openai', userId)) {
-                        endStream();
-                        return;
-                    }
-                    throw aiErr;
+                if (aiErr instanceof AiBudgetExceededError) {
+                    logger.warn('AI token budget exceeded for chat', { userId, scope: aiErr.scope });
+                    sendSSE({ type: 'error', error: "You've reached today's AI usage limit. Please try again tomorrow." });
+                    endStream();
+                    return;
                 }
+                throw aiErr;
             }
 
-            // Log AI usage (non-blocking)
-            const aiCallDuration = Date.now() - aiCallStart;
-            const promptInput = conversationHistory.map(m => m.content || '').join(' ');
-            logAiUsage({
-                userId,
-                provider: aiProvider,
-                model,
-                feature: 'chat',
-                promptTokens: promptTokensActual || estimateTokenCount(promptInput),
-                completionTokens: completionTokensActual || estimateTokenCount(fullResponse),
-                durationMs: aiCallDuration,
-                sessionId: chatSession.id,
-            });
-
             // Extraction logic...
             let validatedFormula: any = null;
             let savedFormula: any = null;
@@ -819,6 +785,8 @@ export class ChatController {
                                 },
                                 async ({ systemPrompt, userPrompt, timeoutMs }) =>
                                     chatService.complete({
+                                        feature: 'formula',
+                                        userId,
                                         provider: aiProvider,
                                         model,
                                         systemPrompt,
@@ -918,6 +886,9 @@ export class ChatController {
                           userAllergies,
                           isPregnant,
                           isNursing,
+                          userAge: (healthProfile as any)?.age ?? null,
+                          userSex: (healthProfile as any)?.sex ?? null,
+                          currentSupplements: (healthProfile as any)?.currentSupplements || [],
                         });
 
                         // Fire-and-forget: log medications no category recognized,
@@ -962,6 +933,7 @@ export class ChatController {
                                 allergies: userAllergies,
                                 ingredients: [...(validatedFormula.bases || []), ...(validatedFormula.additions || [])].map((i: any) => i.ingredient),
                               },
+                              ruleSetVersion: safetyResult.ruleSetVersion ?? null,
                               ipAddress: getClientIP(req),
                             });
                           } catch (auditErr) {
@@ -1011,6 +983,7 @@ export class ChatController {
                               safetyValidation: {
                                 requiresAcknowledgment: safetyResult.requiresAcknowledgment,
                                 warnings: safetyResult.warnings,
+                                ruleSetVersion: safetyResult.ruleSetVersion,
                               },
                           };
 
@@ -1094,6 +1067,12 @@ export class ChatController {
                           });
                           void syncUserProperties(userId);
 
+                          // Warm the manufacturer quote for every capsule option so the
+                          // formula page and checkout that usually follow skip the Alive round-trip
+                          manufacturerPricingService.prewarmQuotes([savedFormula], [6, 9, 12]).catch((prewarmErr) => {
+                            logger.warn('Quote pre-warm failed for new formula', { userId, formulaId: savedFormula.id, error: prewarmErr instanceof Error ? prewarmErr.message : prewarmErr });
+                          });
+
                           // Lab value verification: warn if formula references biomarkers not in lab data
                           if (labDataContext && validatedFormula.rationale) {
                             try {
@@ -1153,6 +1132,7 @@ export class ChatController {
                                   allergies: userAllergies,
                                   ingredients: [...(validatedFormula.bases || []), ...(validatedFormula.additions || [])].map((i: any) => i.ingredient),
                                 },
+                                ruleSetVersion: safetyResult.ruleSetVersion ?? null,
                                 ipAddress: getClientIP(req),
                               });
                             } catch (auditErr) {
@@ -1370,6 +1350,14 @@ export class ChatController {
                             userId,
                             fieldsUpdated: Object.keys(validatedHealthData)
                         });
+
+                        const SAFETY_SCREENED_FIELDS = ['medications', 'conditions', 'allergies', 'age', 'sex', 'currentSupplements'];
+                        if (SAFETY_SCREENED_FIELDS.some(field => field in validatedHealthData)) {
+                            safetyRescreenService.scheduleUserRescreen(
+                                userId,
+                                'medications' in validatedHealthData ? 'medications_changed' : 'health_profile_changed',
+                            );
+                        }
                     }
 
                     // Remove the health-data block from fullResponse before saving
@@ -1540,7 +1528,7 @@ export class ChatController {
                 cleanResponse += `\n${capsuleDecisionTokenForPersistence}`;
             }
 
-            await chatService.createMessage({
+            const assistantMessage = await chatService.createMessage({
                 sessionId: chatSession.id,
                 role: 'assistant',
                 content: cleanResponse,
@@ -1548,6 +1536,15 @@ export class ChatController {
                 formula: (formulaForDisplay || undefined) as any
             });
 
+            if (claimsResult.hasViolations) {
+                void claimsAuditService.recordViolations({
+                    userId,
+                    sessionId: chatSession.id,
+                    messageId: assistantMessage.id,
+                    result: claimsResult,
+                });
+            }
+
             // Now send completion event — messages are already in DB at this point
             sendSSE({
                 type: 'complete',
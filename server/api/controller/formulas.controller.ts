@@ -6,6 +6,16 @@ import { systemRepository } from '../../modules/system/system.repository';
 import { getClientIP } from '../middleware/middleware';
 import logger from '../../infra/logging/logger';
 
+// User-correctable rejections from revert/branch/promote (budget, ingredient
+// count, discontinued or missing ingredients, safety conflicts) → 400
+function isFormulaCopyRejection(message: string): boolean {
+    return message.includes('maximum safe dosage')
+        || message.includes('requires at least')
+        || message.includes('no longer available')
+        || message.includes('does not contain')
+        || message.includes('current health profile');
+}
+
 export class FormulasController {
     async getFormulaQuote(req: Request, res: Response) {
         try {
@@ -91,16 +101,46 @@ export class FormulasController {
         }
     }
 
+    async getFormulaDiff(req: Request, res: Response) {
+        try {
+            const userId = req.userId!;
+            const { formulaId } = req.params;
+            const against = typeof req.query.against === 'string' ? req.query.against : undefined;
+            const result = await formulasService.getFormulaDiff(userId, formulaId, against);
+            res.json(result);
+        } catch (error: any) {
+            logger.error('Error computing formula diff:', error);
+            if (error.message?.includes('not found')) {
+                return res.status(404).json({ error: error.message });
+            }
+            res.status(500).json({ error: 'Failed to compute formula diff' });
+        }
+    }
+
+    async getFormulaChangelog(req: Request, res: Response) {
+        try {
+            const userId = req.userId!;
+            const changelog = await formulasService.getFormulaChangelog(userId);
+            res.json({ changelog });
+        } catch (error) {
+            logger.error('Error fetching formula changelog:', error);
+            res.status(500).json({ error: 'Failed to fetch formula changelog' });
+        }
+    }
+
     async revertFormula(req: Request, res: Response) {
         try {
             const userId = req.userId!;
-            const { formulaId, reason } = req.body;
+            const { formulaId, reason, excludeIngredients } = req.body;
 
             if (!formulaId || !reason) {
                 return res.status(400).json({ error: 'Formula ID and revert reason are required' });
             }
+            if (excludeIngredients !== undefined && (!Array.isArray(excludeIngredients) || excludeIngredients.some((i: unknown) => typeof i !== 'string'))) {
+                return res.status(400).json({ error: 'excludeIngredients must be an array of ingredient names' });
+            }
 
-            const result = await formulasService.revertFormula(userId, formulaId, reason);
+            const result = await formulasService.revertFormula(userId, formulaId, reason, { excludeIngredients });
             res.json({
                 success: true,
                 ...result
@@ -110,13 +150,78 @@ export class FormulasController {
             if (error.message.includes('not found') || error.message.includes('access denied')) {
                 return res.status(404).json({ error: error.message });
             }
-            if (error.message.includes('maximum safe dosage')) {
+            if (isFormulaCopyRejection(error.message)) {
                 return res.status(400).json({ error: error.message });
             }
             res.status(500).json({ error: 'Failed to revert formula' });
         }
     }
 
+    async listBranches(req: Request, res: Response) {
+        try {
+            const branches = await formulasService.listBranches(req.userId!);
+            res.json({ branches });
+        } catch (error) {
+            logger.error('Error fetching formula branches:', error);
+            res.status(500).json({ error: 'Failed to fetch formula branches' });
+        }
+    }
+
+    async createBranch(req: Request, res: Response) {
+        try {
+            const userId = req.userId!;
+            const { formulaId, name, excludeIngredients } = req.body;
+
+            if (!formulaId || typeof name !== 'string') {
+                return res.status(400).json({ error: 'Formula ID and branch name are required' });
+            }
+            if (excludeIngredients !== undefined && (!Array.isArray(excludeIngredients) || excludeIngredients.some((i: unknown) => typeof i !== 'string'))) {
+                return res.status(400).json({ error: 'excludeIngredients must be an array of ingredient names' });
+            }
+
+            const result = await formulasService.createBranch(userId, formulaId, name, { excludeIngredients });
+            res.status(201).json({
+                success: true,
+                ...result
+            });
+        } catch (error: any) {
+            logger.error('Error creating formula branch:', error);
+            if (error.message.includes('not found') || error.message.includes('access denied')) {
+                return res.status(404).json({ error: error.message });
+            }
+            if (error.message.includes('already exists')) {
+                return res.status(409).json({ error: error.message });
+            }
+            if (isFormulaCopyRejection(error.message) || error.message.includes('Branch name') || error.message.includes('up to')) {
+                return res.status(400).json({ error: error.message });
+            }
+            res.status(500).json({ error: 'Failed to create formula branch' });
+        }
+    }
+
+    async promoteBranch(req: Request, res: Response) {
+        try {
+            const userId = req.userId!;
+            const { formulaId } = req.params;
+            const { reason } = req.body || {};
+
+            const result = await formulasService.promoteBranch(userId, formulaId, typeof reason === 'string' ? reason : undefined);
+            res.json({
+                success: true,
+                ...result
+            });
+        } catch (error: any) {
+            logger.error('Error promoting formula branch:', error);
+            if (error.message.includes('not found') || error.message.includes('access denied')) {
+                return res.status(404).json({ error: error.message });
+            }
+            if (isFormulaCopyRejection(error.message) || error.message.includes('Only active branches')) {
+                return res.status(400).json({ error: error.message });
+            }
+            res.status(500).json({ error: 'Failed to promote formula branch' });
+        }
+    }
+
     async customizeFormula(req: Request, res: Response) {
         try {
             const userId = req.userId!;
@@ -414,6 +519,7 @@ export class FormulasController {
                     details: {
                         warnings: acknowledgedWarnings,
                     },
+                    ruleSetVersion: safetyValidation.ruleSetVersion ?? null,
                     ipAddress: getClientIP(req),
                     userAgent: req.headers['user-agent'] || null,
                 });
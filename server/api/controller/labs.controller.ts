@@ -1,7 +1,10 @@
 import { Request, Response } from 'express';
 import { labsService } from '../../modules/labs/labs.service';
+import { retestReminderService } from '../../modules/labs/retest-reminder.service';
+import { supplementOutcomeService } from '../../modules/labs/supplement-outcome.service';
 import { canonicalKey } from '../../modules/labs/biomarker-aliases';
 import { usersRepository } from '../../modules/users/users.repository';
+import { labExportToCsv } from '@shared/lab-export';
 import logger from '../../infra/logging/logger';
 
 export class LabsController {
@@ -35,6 +38,48 @@ export class LabsController {
         }
     }
 
+    /**
+     * Export every marker with its history. Query: format=json|csv (default
+     * json), units=conventional|si (default conventional).
+     */
+    async exportLabs(req: Request, res: Response) {
+        try {
+            const format = req.query.format === 'csv' ? 'csv' : 'json';
+            const unitSystem = req.query.units === 'si' ? 'si' : 'conventional';
+            const data = await labsService.getLabExport(req.userId!, unitSystem);
+            const filename = `lab-results-${new Date().toISOString().split('T')[0]}.${format}`;
+            res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+            if (format === 'csv') {
+                res.setHeader('Content-Type', 'text/csv');
+                return res.send(labExportToCsv(data));
+            }
+            res.json(data);
+        } catch (error) {
+            logger.error('Error exporting lab results:', error);
+            res.status(500).json({ error: 'Failed to export lab results' });
+        }
+    }
+
+    async getRetestPlan(req: Request, res: Response) {
+        try {
+            const plan = await retestReminderService.getPlan(req.userId!);
+            res.json(plan);
+        } catch (error) {
+            logger.error('Error building retest plan:', error);
+            res.status(500).json({ error: 'Failed to build retest plan' });
+        }
+    }
+
+    async getSupplementOutcomes(req: Request, res: Response) {
+        try {
+            const report = await supplementOutcomeService.getReport(req.userId!);
+            res.json(report);
+        } catch (error) {
+            logger.error('Error building supplement outcomes:', error);
+            res.status(500).json({ error: 'Failed to build supplement outcomes' });
+        }
+    }
+
     /**
      * Get the user's hidden-marker list (canonical keys).
      * Hidden markers are still visible on the dashboard but excluded from
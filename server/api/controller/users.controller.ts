@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { usersService } from '../../modules/users/users.service';
 import { chatRepository } from '../../modules/chat/chat.repository';
+import { patientMemoryService, PATIENT_MEMORY_KINDS, type PatientMemoryKind } from '../../modules/chat/patient-memory.service';
 import { insertHealthProfileSchema } from '@shared/schema';
 import logger from '../../infra/logging/logger';
 import { z } from 'zod';
@@ -485,6 +486,90 @@ export class UsersController {
             res.status(500).json({ error: 'Failed to update metric preferences' });
         }
     }
+
+    async getMetricSourcePreferences(req: Request, res: Response) {
+        try {
+            const userId = req.userId!;
+            const result = await usersService.getMetricSourcePreferences(userId);
+            if (!result) return res.status(404).json({ error: 'User not found' });
+            res.json(result);
+        } catch (error) {
+            logger.error('Get metric source preferences error', { error });
+            res.status(500).json({ error: 'Failed to get metric source preferences' });
+        }
+    }
+
+    async updateMetricSourcePreferences(req: Request, res: Response) {
+        try {
+            const userId = req.userId!;
+            const { sources } = req.body;
+            if (!sources || typeof sources !== 'object' || Array.isArray(sources)
+                || !Object.values(sources).every((p: unknown) => typeof p === 'string')) {
+                return res.status(400).json({ error: '"sources" must be an object of metric id to provider' });
+            }
+            const result = await usersService.updateMetricSourcePreferences(userId, sources);
+            if (!result) return res.status(404).json({ error: 'User not found' });
+            res.json(result);
+        } catch (error) {
+            logger.error('Update metric source preferences error', { error });
+            res.status(500).json({ error: 'Failed to update metric source preferences' });
+        }
+    }
+
+    // Long-term consultation memory (what the AI remembers across sessions)
+    async getMemories(req: Request, res: Response) {
+        try {
+            res.json({ memories: await patientMemoryService.listForUser(req.userId!) });
+        } catch (error) {
+            logger.error('Get memories error', { error });
+            res.status(500).json({ error: 'Failed to get memories' });
+        }
+    }
+
+    async addMemory(req: Request, res: Response) {
+        try {
+            const input = z.object({
+                kind: z.enum(PATIENT_MEMORY_KINDS as [PatientMemoryKind, ...PatientMemoryKind[]]),
+                content: z.string().trim().min(3).max(300),
+            }).parse(req.body);
+            res.json(await patientMemoryService.addMemory(req.userId!, input));
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res.status(400).json({ error: 'Invalid memory', details: error.flatten() });
+            }
+            logger.error('Add memory error', { error });
+            res.status(500).json({ error: 'Failed to add memory' });
+        }
+    }
+
+    async updateMemory(req: Request, res: Response) {
+        try {
+            const updates = z.object({
+                kind: z.enum(PATIENT_MEMORY_KINDS as [PatientMemoryKind, ...PatientMemoryKind[]]).optional(),
+                content: z.string().trim().min(3).max(300).optional(),
+            }).parse(req.body);
+            const memory = await patientMemoryService.updateMemory(req.userId!, req.params.id, updates);
+            if (!memory) return res.status(404).json({ error: 'Memory not found' });
+            res.json(memory);
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return res.status(400).json({ error: 'Invalid memory', details: error.flatten() });
+            }
+            logger.error('Update memory error', { error });
+            res.status(500).json({ error: 'Failed to update memory' });
+        }
+    }
+
+    async deleteMemory(req: Request, res: Response) {
+        try {
+            const deleted = await patientMemoryService.deleteMemory(req.userId!, req.params.id);
+            if (!deleted) return res.status(404).json({ error: 'Memory not found' });
+            res.json({ success: true });
+        } catch (error) {
+            logger.error('Delete memory error', { error });
+            res.status(500).json({ error: 'Failed to delete memory' });
+        }
+    }
 }
 
 export const usersController = new UsersController();
@@ -1,5 +1,12 @@
 import { Request, Response } from 'express';
+import type { UploadedFile } from 'express-fileupload';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { wearablesService } from '../../modules/wearables/wearables.service';
+import { wearableAnomalyService } from '../../modules/wearables/wearable-anomaly.service';
+import { wearableImportService } from '../../modules/wearables/wearable-import.service';
+import { ImportFormatError } from '../../modules/wearables/importers';
 import logger from '../../infra/logging/logger';
 import posthog, { syncUserProperties } from '../../infra/posthog';
 
@@ -242,6 +249,61 @@ export class WearablesController {
             res.status(500).json({ error: 'Failed to generate health pulse intelligence' });
         }
     }
+
+    async getAnomalies(req: Request, res: Response) {
+        try {
+            const userId = req.userId!;
+            const anomalies = await wearableAnomalyService.getRecentFindings(userId);
+            res.json({ anomalies });
+        } catch (error) {
+            logger.error('Error fetching wearable anomalies:', error);
+            res.status(500).json({ error: 'Failed to fetch wearable anomalies' });
+        }
+    }
+
+    async importFile(req: Request, res: Response) {
+        const userId = req.userId!;
+        const upload = req.files?.file;
+        const raw = Array.isArray(upload) ? upload[0] : (upload as UploadedFile | undefined);
+        if (!raw) {
+            return res.status(400).json({ error: 'No file uploaded. Attach your export as "file".' });
+        }
+        if (raw.truncated) {
+            return res.status(400).json({ error: 'Upload was cut off. Exports can be at most 250MB.' });
+        }
+
+        // The upload middleware writes to a temp file; fall back to the buffer if it didn't
+        let filePath = raw.tempFilePath;
+        if (!filePath) {
+            filePath = path.join(os.tmpdir(), `wearable-import-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+            fs.writeFileSync(filePath, raw.data);
+        }
+
+        try {
+            const record = await wearableImportService.importFile(userId, { path: filePath, name: raw.name });
+            wearablesService.invalidatePulseCache(userId);
+            res.json({ import: record });
+        } catch (error) {
+            if (error instanceof ImportFormatError) {
+                return res.status(400).json({ error: error.message });
+            }
+            logger.error('Error importing wearable file:', error);
+            res.status(500).json({ error: 'Failed to import wearable data' });
+        } finally {
+            fs.promises.unlink(filePath).catch(() => { /* already gone */ });
+        }
+    }
+
+    async getImports(req: Request, res: Response) {
+        try {
+            const userId = req.userId!;
+            const imports = await wearableImportService.listImports(userId);
+            res.json({ imports });
+        } catch (error) {
+            logger.error('Error fetching wearable imports:', error);
+            res.status(500).json({ error: 'Failed to fetch wearable imports' });
+        }
+    }
 }
 
 export const wearablesController = new WearablesController();
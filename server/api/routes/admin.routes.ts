@@ -24,6 +24,7 @@ router.get('/analytics/revenue', requireAdmin, adminController.getRevenueAnalyti
 // User Management
 router.get('/users', requireAdmin, adminController.searchUsers);
 router.get('/users/:id/timeline', requireAdmin, adminController.getUserTimeline);
+router.get('/users/:id/formula-changelog', requireAdmin, adminController.getUserFormulaChangelog);
 router.get('/users/:id', requireAdmin, adminController.getUserDetails);
 router.delete('/users/:id', requireAdmin, adminController.deleteUser);
 router.post('/users/bulk-delete', requireAdmin, adminController.bulkHardDeleteUsers);
@@ -61,6 +62,7 @@ router.get('/analytics/funnel', requireAdmin, adminController.getFunnel);
 router.get('/analytics/cohorts', requireAdmin, adminController.getCohorts);
 router.get('/analytics/reorder-health', requireAdmin, adminController.getReorderHealth);
 router.get('/analytics/formula-insights', requireAdmin, adminController.getFormulaInsights);
+router.get('/analytics/quote-cache', requireAdmin, adminController.getQuoteCacheStats);
 router.get('/analytics/pending-actions', requireAdmin, adminController.getPendingActions);
 router.get('/activity-feed', requireAdmin, adminController.getActivityFeed);
 
@@ -120,6 +122,38 @@ router.get('/ingredient-catalog/ingredients', requireAdmin, adminController.getM
 router.post('/ingredient-catalog/sync', requireAdmin, adminController.triggerIngredientSync);
 router.get('/ingredient-catalog/affected-formulas', requireAdmin, adminController.getAffectedFormulas);
 
+// Safety Rule Sets
+router.get('/safety-rules', requireAdmin, adminController.listSafetyRuleSets);
+router.post('/safety-rules', requireAdmin, adminController.createSafetyRuleDraft);
+router.get('/safety-rules/:version', requireAdmin, adminController.getSafetyRuleSet);
+router.put('/safety-rules/:version', requireAdmin, adminController.updateSafetyRuleDraft);
+router.get('/safety-rules/:version/preview', requireAdmin, adminController.previewSafetyRuleSet);
+router.post('/safety-rules/:version/publish', requireAdmin, adminController.publishSafetyRuleSet);
+
+// Dunning (failed auto-ship / membership charges)
+router.get('/dunning', requireAdmin, adminController.getDunningOverview);
+router.get('/dunning/policy', requireAdmin, adminController.getDunningPolicy);
+router.put('/dunning/policy', requireAdmin, adminController.updateDunningPolicy);
+router.get('/dunning/cases/:id', requireAdmin, adminController.getDunningCase);
+router.post('/dunning/cases/:id/retry', requireAdmin, adminController.retryDunningCase);
+router.post('/dunning/cases/:id/close', requireAdmin, adminController.closeDunningCase);
+
+// Unmapped biomarker names seen in lab uploads
+router.get('/biomarker-reviews', requireAdmin, adminController.listBiomarkerNameReviews);
+router.post('/biomarker-reviews/:id/map', requireAdmin, adminController.mapBiomarkerName);
+router.post('/biomarker-reviews/:id/ignore', requireAdmin, adminController.ignoreBiomarkerName);
+
+// AI output claims filter: violation log, review queue, promoted phrases, trends
+router.get('/claims/violations', requireAdmin, adminController.listClaimViolations);
+router.post('/claims/violations/:id/review', requireAdmin, adminController.reviewClaimViolation);
+router.get('/claims/trends', requireAdmin, adminController.getClaimTrends);
+router.get('/claims/phrases', requireAdmin, adminController.listClaimPhrases);
+router.post('/claims/phrases', requireAdmin, adminController.promoteClaimPhrase);
+router.patch('/claims/phrases/:id', requireAdmin, adminController.updateClaimPhrase);
+
+// De-identified supplement effectiveness (formula ingredient → lab marker deltas)
+router.get('/supplement-outcomes', requireAdmin, adminController.getSupplementOutcomeAggregate);
+
 // AI Usage Tracking
 router.get('/ai-usage', requireAdmin, adminController.getAiUsageSummary);
 router.get('/ai-usage/user/:id', requireAdmin, adminController.getAiUsageByUser);
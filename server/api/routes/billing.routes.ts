@@ -24,6 +24,10 @@ router.post('/subscriptions/:subscriptionId/cancel', requireAuth, billingControl
 router.post('/subscriptions/:subscriptionId/resume', requireAuth, billingController.resumeSubscription);
 router.post('/orders/:orderId/cancel', requireAuth, billingController.cancelOrder);
 
+// Failed recurring charges + card update (retries open dunning cases immediately)
+router.get('/payment-issues', requireAuth, billingController.getPaymentIssues);
+router.post('/payment-method', requireAuth, checkoutLimiter, billingController.updatePaymentMethod);
+
 // Auto-ship routes
 router.get('/auto-ship', requireAuth, autoShipController.getStatus);
 router.post('/auto-ship/pause', requireAuth, autoShipController.pause);
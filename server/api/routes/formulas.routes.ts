@@ -24,9 +24,22 @@ router.get('/:formulaId/quote', requireAuth, formulasController.getFormulaQuote)
 // Compare two formula versions
 router.get('/compare/:id1/:id2', requireAuth, formulasController.compareFormulas);
 
+// Structured diff of a version against ?against=<formulaId> (default: previous version)
+router.get('/:formulaId/diff', requireAuth, formulasController.getFormulaDiff);
+
+// Every version with its diff from the one before it
+router.get('/changelog', requireAuth, formulasController.getFormulaChangelog);
+
 // Revert to previous formula version
 router.post('/revert', requireAuth, formulasController.revertFormula);
 
+// Experimental variants kept beside the active formula
+router.get('/branches', requireAuth, formulasController.listBranches);
+router.post('/branches', requireAuth, formulasController.createBranch);
+
+// Make a branch the active formula (discard a branch via /:formulaId/archive)
+router.post('/branches/:formulaId/promote', requireAuth, formulasController.promoteBranch);
+
 // Add user customizations to a formula
 router.patch('/:formulaId/customize', requireAuth, formulasController.customizeFormula);
 
@@ -18,6 +18,25 @@ router.get('/biomarkers', requireAuth, labsController.getBiomarkersDashboard);
  */
 router.post('/marker-insights', requireAuth, labsController.getMarkerInsights);
 
+/**
+ * Export all markers with history for sharing with a physician
+ * Query: format=json|csv, units=conventional|si
+ * The client renders the PDF from the JSON export
+ */
+router.get('/export', requireAuth, labsController.exportLabs);
+
+/**
+ * Retest plan: per-marker due dates (out-of-range results and markers
+ * targeted by recent formula changes) consolidated into blood-draw panels
+ */
+router.get('/retest-plan', requireAuth, labsController.getRetestPlan);
+
+/**
+ * Supplement outcomes: lab marker changes lined up against the formula
+ * ingredients expected to move them
+ */
+router.get('/supplement-outcomes', requireAuth, labsController.getSupplementOutcomes);
+
 /**
  * Hidden-marker management — markers the user has chosen to exclude from
  * the AI practitioner. The marker is still visible on the dashboard.
@@ -29,10 +29,18 @@ router.patch('/me/subscription', requireAuth, usersController.updateSubscription
 // Dashboard metric preferences
 router.get('/me/metric-preferences', requireAuth, usersController.getMetricPreferences);
 router.put('/me/metric-preferences', requireAuth, usersController.updateMetricPreferences);
+router.get('/me/metric-source-preferences', requireAuth, usersController.getMetricSourcePreferences);
+router.put('/me/metric-source-preferences', requireAuth, usersController.updateMetricSourcePreferences);
 
 // Chat Session endpoints
 router.get('/me/sessions', requireAuth, usersController.getChatSessions);
 
+// Consultation memory endpoints
+router.get('/me/memories', requireAuth, usersController.getMemories);
+router.post('/me/memories', requireAuth, usersController.addMemory);
+router.patch('/me/memories/:id', requireAuth, usersController.updateMemory);
+router.delete('/me/memories/:id', requireAuth, usersController.deleteMemory);
+
 // Payment Method endpoints
 router.get('/me/payment-methods', requireAuth, usersController.getPaymentMethods);
 router.post('/me/payment-methods', requireAuth, usersController.addPaymentMethod);
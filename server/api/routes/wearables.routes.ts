@@ -74,4 +74,20 @@ router.get('/weekly-brief', requireAuth, wearablesController.getWeeklyBrief);
  */
 router.get('/health-pulse-intelligence', requireAuth, wearablesController.getHealthPulseIntelligence);
 
+/**
+ * Recent anomaly findings (illness onset, overtraining, poor recovery) from the daily detector
+ */
+router.get('/anomalies', requireAuth, wearablesController.getAnomalies);
+
+/**
+ * Import an export file (Apple Health export.zip, Garmin .fit, Oura/WHOOP .csv).
+ * Uses the larger upload limit set for this path in server/index.ts.
+ */
+router.post('/import', requireAuth, wearablesController.importFile);
+
+/**
+ * History of the user's file imports
+ */
+router.get('/imports', requireAuth, wearablesController.getImports);
+
 export default router;
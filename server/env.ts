@@ -42,3 +42,30 @@ if (missing.length > 0) {
 	console.error(`FATAL: Missing required environment variables: ${missing.join(", ")}`);
 	process.exit(1);
 }
+
+// Local Alive manufacturer simulator (server/modules/formulas/alive-simulator.ts).
+// Must run before manufacturer-pricing.service.ts reads its URLs at import time.
+if (process.env.ALIVE_SIMULATOR === "true" && process.env.NODE_ENV !== "production") {
+	process.env.ALIVE_API_BASE_URL ||= `http://127.0.0.1:${process.env.PORT || 5000}/__dev/alive`;
+	process.env.ALIVE_API_KEY ||= "alive-simulator";
+	console.warn(`ALIVE_SIMULATOR enabled: manufacturer API calls go to ${process.env.ALIVE_API_BASE_URL}`);
+}
+
+// Local EasyPayDirect sandbox (server/modules/billing/epd-sandbox.ts).
+if (process.env.EPD_SANDBOX === "true" && process.env.NODE_ENV !== "production") {
+	process.env.EPD_API_BASE_URL ||= `http://127.0.0.1:${process.env.PORT || 5000}/__dev/epd`;
+	process.env.EPD_SECURITY_KEY ||= "epd-sandbox";
+	process.env.EPD_WEBHOOK_SIGNING_KEY ||= "epd-sandbox-signing-key";
+	console.warn(`EPD_SANDBOX enabled: payment gateway calls go to ${process.env.EPD_API_BASE_URL}`);
+}
+
+// Offline LLM record/replay (server/infra/ai/llm-offline.ts). Placeholder keys
+// let code that checks for a configured provider reach the gateway.
+if (process.env.LLM_OFFLINE && process.env.NODE_ENV !== "production") {
+	if (process.env.LLM_OFFLINE === "replay") {
+		process.env.OPENAI_API_KEY ||= "llm-offline";
+		process.env.ANTHROPIC_API_KEY ||= "llm-offline";
+	}
+	const cassettes = process.env.LLM_CASSETTE_DIR || "server/__tests__/llm-cassettes";
+	console.warn(`LLM_OFFLINE=${process.env.LLM_OFFLINE}: AI calls ${process.env.LLM_OFFLINE === "replay" ? "replay from" : "record to"} ${cassettes}`);
+}
@@ -22,6 +22,10 @@ import { startSmartReorderScheduler } from "./utils/smartReorderScheduler";
 import { startRenewalScheduler } from './utils/renewalScheduler';
 import { startIngredientCatalogSyncScheduler } from "./utils/ingredientCatalogSyncScheduler";
 import { startOrderSettlementScheduler } from "./utils/orderSettlementScheduler";
+import { startQuotePrewarmScheduler } from "./utils/quotePrewarmScheduler";
+import { startDunningScheduler } from "./utils/dunningScheduler";
+import { startLabRetestScheduler } from "./utils/labRetestScheduler";
+import { startWearableAnomalyScheduler } from "./utils/wearableAnomalyScheduler";
 // Old wearable schedulers removed - Junction handles data sync via webhooks
 import { fileURLToPath } from "url";
 import { logger } from "./infra/logging/logger";
@@ -237,14 +241,29 @@ app.use(session({
 // at the middleware layer and let individual route controllers enforce their own
 // stricter caps (12MB for the supplement-label scanner, etc.) so they can return
 // a friendly JSON error instead of a mid-stream 413.
-app.use(fileUpload({
+//
+// Wearable export imports are the exception: an Apple Health export.zip
+// with a few years of history is easily 100MB+. They're streamed from the
+// temp file, never buffered, so the larger cap is safe for that one path.
+const defaultUpload = fileUpload({
   limits: { fileSize: 15 * 1024 * 1024 },
   abortOnLimit: true,
   responseOnLimit: 'File too large (max 15MB)',
   createParentPath: true,
   useTempFiles: true,
   tempFileDir: os.tmpdir(),
-}));
+});
+const wearableImportUpload = fileUpload({
+  limits: { fileSize: 250 * 1024 * 1024 },
+  abortOnLimit: true,
+  responseOnLimit: 'File too large (max 250MB)',
+  useTempFiles: true,
+  tempFileDir: os.tmpdir(),
+});
+app.use((req, res, next) =>
+  req.path === '/api/wearables/import'
+    ? wearableImportUpload(req, res, next)
+    : defaultUpload(req, res, next));
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -330,6 +349,28 @@ app.get('/api/health', (_req, res) => {
         logger.warn('Failed to recover stale processing records', { error: err });
       }
 
+      // Load admin-approved biomarker aliases from the unmapped-name review queue
+      try {
+        const { biomarkerReviewService } = await import('./modules/labs/biomarker-review.service');
+        const loaded = await biomarkerReviewService.loadAliasOverrides();
+        if (loaded > 0) {
+          logger.info(`Loaded ${loaded} reviewed biomarker alias(es)`);
+        }
+      } catch (err) {
+        logger.warn('Failed to load reviewed biomarker aliases', { error: err });
+      }
+
+      // Load admin-promoted phrases into the AI output claims filter
+      try {
+        const { claimsAuditService } = await import('./modules/ai/claims-audit.service');
+        const loaded = await claimsAuditService.loadPromotedPhrases();
+        if (loaded > 0) {
+          logger.info(`Loaded ${loaded} promoted claims filter phrase(s)`);
+        }
+      } catch (err) {
+        logger.warn('Failed to load promoted claims filter phrases', { error: err });
+      }
+
       // Mark any agent runs left in 'running' state as failed (orphaned after restart)
       try {
         const { agentRepository } = await import('./modules/agent/agent.repository');
@@ -355,6 +396,10 @@ app.get('/api/health', (_req, res) => {
           { name: 'PrAgent', start: startPrAgentScheduler },
           { name: 'IngredientCatalogSync', start: startIngredientCatalogSyncScheduler },
           { name: 'OrderSettlement', start: startOrderSettlementScheduler },
+          { name: 'QuotePrewarm', start: startQuotePrewarmScheduler },
+          { name: 'Dunning', start: startDunningScheduler },
+          { name: 'LabRetest', start: startLabRetestScheduler },
+          { name: 'WearableAnomaly', start: startWearableAnomalyScheduler },
         ];
 
         for (const { name, start } of schedulers) {
@@ -0,0 +1,103 @@
+import { logger } from '../logging/logger';
+import { getTokensUsedSince } from '../../modules/ai-usage/ai-usage.service';
+
+/**
+ * Daily token budgets (UTC day) per feature. Features not listed are
+ * unlimited. These are circuit breakers against runaway loops and abuse,
+ * not product quotas — set well above normal daily volume.
+ */
+export const FEATURE_DAILY_TOKEN_BUDGETS: Record<string, number> = {
+    chat: 40_000_000,
+    lab_analysis: 20_000_000,
+    formula: 10_000_000,
+    wearables: 5_000_000,
+    optimize: 10_000_000,
+    live_chat: 5_000_000,
+    support_agent: 5_000_000,
+    blog: 5_000_000,
+    marketing: 5_000_000,
+    agent: 15_000_000,
+};
+
+/** Per-user daily budget across all features; AI_USER_DAILY_TOKEN_BUDGET overrides */
+export const DEFAULT_USER_DAILY_TOKEN_BUDGET = 2_000_000;
+
+export class AiBudgetExceededError extends Error {
+    constructor(
+        public readonly scope: 'feature' | 'user',
+        public readonly key: string,
+        public readonly limit: number,
+    ) {
+        super(`Daily AI token budget exceeded for ${scope} ${key} (${limit} tokens)`);
+        this.name = 'AiBudgetExceededError';
+        Object.setPrototypeOf(this, AiBudgetExceededError.prototype);
+    }
+}
+
+function userDailyBudget(): number {
+    const fromEnv = Number(process.env.AI_USER_DAILY_TOKEN_BUDGET);
+    return Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : DEFAULT_USER_DAILY_TOKEN_BUDGET;
+}
+
+function startOfUtcDay(now: Date): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+/**
+ * Running daily token totals. Each counter is seeded once per day from
+ * ai_usage_logs and then kept in memory as calls complete, so a budget
+ * check is a map lookup. Other instances' usage shows up at the next
+ * day's seed — good enough for a circuit breaker.
+ */
+export class TokenBudgetTracker {
+    private readonly counters = new Map<string, { day: string; tokens: number }>();
+    private readonly seeding = new Map<string, Promise<void>>();
+
+    async assertWithinBudget(feature: string, userId?: string | null, now = new Date()): Promise<void> {
+        const featureLimit = FEATURE_DAILY_TOKEN_BUDGETS[feature];
+        if (featureLimit !== undefined && await this.used(`feature:${feature}`, { feature }, now) >= featureLimit) {
+            throw new AiBudgetExceededError('feature', feature, featureLimit);
+        }
+        if (userId) {
+            const userLimit = userDailyBudget();
+            if (await this.used(`user:${userId}`, { userId }, now) >= userLimit) {
+                throw new AiBudgetExceededError('user', userId, userLimit);
+            }
+        }
+    }
+
+    record(feature: string, userId: string | null | undefined, tokens: number, now = new Date()): void {
+        if (tokens <= 0) return;
+        this.add(`feature:${feature}`, tokens, now);
+        if (userId) this.add(`user:${userId}`, tokens, now);
+    }
+
+    private add(key: string, tokens: number, now: Date): void {
+        const day = startOfUtcDay(now).toISOString();
+        const counter = this.counters.get(key);
+        // Unseeded counters pick this call up from ai_usage_logs when first checked
+        if (counter?.day === day) counter.tokens += tokens;
+    }
+
+    private async used(key: string, filter: { feature?: string; userId?: string }, now: Date): Promise<number> {
+        const dayStart = startOfUtcDay(now);
+        const day = dayStart.toISOString();
+        if (this.counters.get(key)?.day !== day) {
+            const seedKey = `${key}@${day}`;
+            let pending = this.seeding.get(seedKey);
+            if (!pending) {
+                pending = getTokensUsedSince(filter, dayStart)
+                    .then(tokens => { this.counters.set(key, { day, tokens }); })
+                    .catch(err => {
+                        // Fail open: a budget lookup outage must not take AI features down
+                        logger.warn('[LlmGateway] Budget seed failed, allowing call', { key, error: err?.message || err });
+                        this.counters.set(key, { day, tokens: 0 });
+                    })
+                    .finally(() => { this.seeding.delete(seedKey); });
+                this.seeding.set(seedKey, pending);
+            }
+            await pending;
+        }
+        return this.counters.get(key)?.tokens ?? 0;
+    }
+}
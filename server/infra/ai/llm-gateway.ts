@@ -0,0 +1,527 @@
+/**
+ * LLM Gateway
+ *
+ * The one place server code talks to OpenAI and Anthropic. Every call:
+ *   - resolves its model through ALLOWED_MODELS / normalizeModel, defaulting
+ *     to the admin-selected runtime provider and model
+ *   - checks the feature's and the user's daily token budget
+ *   - fails over to the other provider on 5xx, timeouts and connection errors
+ *   - writes an ai_usage_logs row, failed calls included
+ *
+ * complete() returns text, completeJson() parses (and re-asks on invalid
+ * JSON), streamText() feeds SSE chat, webSearch() runs OpenAI's hosted web
+ * search. Callers that need other provider-specific APIs (tool use, speech)
+ * use the shared clients from getOpenAIClient()/getAnthropicClient() and
+ * report through recordUsage().
+ *
+ * LLM_OFFLINE=replay|record swaps the providers for cassettes and fixtures;
+ * see llm-offline.ts.
+ */
+
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import type { ZodType } from 'zod';
+import { logger } from '../logging/logger';
+import { aiRuntimeSettings, ALLOWED_MODELS, normalizeModel } from './ai-config';
+import { TokenBudgetTracker } from './llm-budgets';
+import { llmOfflineMode, recordPrompt, replayPrompt, type OfflinePrompt } from './llm-offline';
+import { logAiUsage, estimateTokenCount } from '../../modules/ai-usage/ai-usage.service';
+import { parseAiJson } from '../../utils/parseAiJson';
+
+export { AiBudgetExceededError } from './llm-budgets';
+
+export type LlmProvider = 'openai' | 'anthropic';
+
+export type LlmContentPart =
+    | { type: 'text'; text: string }
+    /** data: URL (base64) or https URL */
+    | { type: 'image'; url: string; detail?: 'low' | 'high' | 'auto' };
+
+export interface LlmMessage {
+    role: 'user' | 'assistant';
+    content: string | LlmContentPart[];
+}
+
+export interface LlmRequest {
+    /** ai_usage_logs.feature and budget key, e.g. 'chat', 'lab_analysis', 'blog' */
+    feature: string;
+    userId?: string | null;
+    sessionId?: string;
+    system?: string;
+    messages: LlmMessage[];
+    /** Defaults to the provider of `model`, then the admin runtime provider, then AI_PROVIDER */
+    provider?: LlmProvider;
+    /** Defaults to the runtime model when the provider matches, else the provider default */
+    model?: string;
+    maxTokens?: number;
+    temperature?: number;
+    /** Ask for a single JSON object (OpenAI JSON mode; instructed on Anthropic) */
+    json?: boolean;
+    timeoutMs?: number;
+    /** Set false to pin the provider (e.g. prompts tuned to one model) */
+    failover?: boolean;
+    metadata?: Record<string, any>;
+}
+
+export interface LlmResponse {
+    text: string;
+    provider: LlmProvider;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    failedOver: boolean;
+    /** The model hit maxTokens before finishing */
+    truncated: boolean;
+}
+
+export interface JsonRequest<T> extends Omit<LlmRequest, 'json'> {
+    schema?: ZodType<T>;
+    /** Total attempts including the first; later ones include the parse error */
+    maxAttempts?: number;
+}
+
+export class LlmOutputError extends Error {
+    constructor(message: string, public readonly raw: string) {
+        super(message);
+        this.name = 'LlmOutputError';
+        Object.setPrototypeOf(this, LlmOutputError.prototype);
+    }
+}
+
+const DEFAULT_MODELS: Record<LlmProvider, string> = {
+    openai: 'gpt-4o',
+    anthropic: 'claude-sonnet-4-6',
+};
+
+/** Failover targets by size class, so a mini model fails over to a small one */
+const FAILOVER_MODELS: Record<LlmProvider, { standard: string; small: string }> = {
+    openai: { standard: 'gpt-4o', small: 'gpt-4o-mini' },
+    anthropic: { standard: 'claude-sonnet-4-6', small: 'claude-haiku-4-5' },
+};
+
+const DEFAULT_MAX_TOKENS = 2048;
+const DEFAULT_TIMEOUT_MS = 120_000;
+const JSON_INSTRUCTION = 'Respond with a single valid JSON object and nothing else.';
+
+let openaiClient: OpenAI | null = null;
+let anthropicClient: Anthropic | null = null;
+
+function assertOnline(client: string): void {
+    if (llmOfflineMode() === 'replay') {
+        throw new Error(`${client} client used directly with LLM_OFFLINE=replay; only gateway calls can be replayed`);
+    }
+}
+
+export function getOpenAIClient(): OpenAI {
+    assertOnline('OpenAI');
+    if (!openaiClient) openaiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    return openaiClient;
+}
+
+export function getAnthropicClient(): Anthropic {
+    assertOnline('Anthropic');
+    if (!anthropicClient) anthropicClient = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+    return anthropicClient;
+}
+
+const budgets = new TokenBudgetTracker();
+
+function hasKey(provider: LlmProvider): boolean {
+    return Boolean(provider === 'openai' ? process.env.OPENAI_API_KEY : process.env.ANTHROPIC_API_KEY);
+}
+
+function otherProvider(provider: LlmProvider): LlmProvider {
+    return provider === 'openai' ? 'anthropic' : 'openai';
+}
+
+export function defaultProvider(): LlmProvider {
+    const configured = String(aiRuntimeSettings.provider || process.env.AI_PROVIDER || 'openai').toLowerCase();
+    return configured === 'anthropic' ? 'anthropic' : 'openai';
+}
+
+/** The provider a model id belongs to, if it's an allowed model */
+export function providerForModel(model?: string | null): LlmProvider | undefined {
+    if (!model) return undefined;
+    return (['openai', 'anthropic'] as const).find(p => ALLOWED_MODELS[p].includes(normalizeModel(p, model) || model));
+}
+
+/**
+ * Pick the model for a call: the requested one if it's allowed for the
+ * provider, otherwise the runtime/env model when it belongs to that
+ * provider, otherwise the provider default.
+ */
+export function resolveModel(provider: LlmProvider, requested?: string | null): string {
+    const allowed = ALLOWED_MODELS[provider];
+    if (requested) {
+        const normalized = normalizeModel(provider, requested) || requested;
+        if (allowed.includes(normalized)) return normalized;
+        logger.warn('[LlmGateway] Model not allowed for provider, using default', { provider, requested });
+    }
+    const configured = normalizeModel(provider, aiRuntimeSettings.model || process.env.AI_MODEL);
+    if (configured && allowed.includes(configured)) return configured;
+    return DEFAULT_MODELS[provider];
+}
+
+function failoverModel(from: string, to: LlmProvider): string {
+    const small = /mini|nano|haiku/i.test(from);
+    return FAILOVER_MODELS[to][small ? 'small' : 'standard'];
+}
+
+/** 5xx (incl. Anthropic's 529 overloaded), timeouts and dropped connections */
+export function isRetryableError(err: any): boolean {
+    if (!err) return false;
+    if (typeof err.status === 'number') return err.status >= 500;
+    const name = String(err.name || err.constructor?.name || '');
+    return /Timeout|Connection/i.test(name) || err.code === 'ETIMEDOUT' || err.code === 'ECONNRESET';
+}
+
+/** gpt-5 and o-series reject temperature */
+function isOpenAIReasoningModel(model: string): boolean {
+    return /^(gpt-5|o\d)/i.test(model);
+}
+
+function toOpenAIMessages(req: LlmRequest, system: string | undefined): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
+    if (system) messages.push({ role: 'system', content: system });
+    for (const m of req.messages) {
+        if (typeof m.content === 'string' || m.role === 'assistant') {
+            const text = typeof m.content === 'string' ? m.content : m.content.map(p => p.type === 'text' ? p.text : '').join('');
+            messages.push({ role: m.role, content: text });
+            continue;
+        }
+        messages.push({
+            role: 'user',
+            content: m.content.map(part => part.type === 'text'
+                ? { type: 'text' as const, text: part.text }
+                : { type: 'image_url' as const, image_url: { url: part.url, detail: part.detail ?? 'auto' } }),
+        });
+    }
+    return messages;
+}
+
+function toAnthropicImage(url: string): Anthropic.ImageBlockParam {
+    const match = url.match(/^data:(image\/[a-z+]+);base64,(.*)$/s);
+    if (match) {
+        return {
+            type: 'image',
+            source: { type: 'base64', media_type: match[1] as 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp', data: match[2] },
+        };
+    }
+    return { type: 'image', source: { type: 'url', url } };
+}
+
+function toAnthropicMessages(req: LlmRequest): Anthropic.MessageParam[] {
+    return req.messages.map(m => ({
+        role: m.role,
+        content: typeof m.content === 'string'
+            ? m.content
+            : m.content.map(part => part.type === 'text'
+                ? { type: 'text' as const, text: part.text }
+                : toAnthropicImage(part.url)),
+    }));
+}
+
+function systemPrompt(req: LlmRequest): string | undefined {
+    if (!req.json) return req.system;
+    return req.system ? `${req.system}\n\n${JSON_INSTRUCTION}` : JSON_INSTRUCTION;
+}
+
+type Attempt = Omit<LlmResponse, 'failedOver'>;
+
+async function callOpenAI(req: LlmRequest, model: string, onText?: (delta: string) => void): Promise<Attempt> {
+    const client = getOpenAIClient();
+    const options = { timeout: req.timeoutMs ?? DEFAULT_TIMEOUT_MS, maxRetries: 1 };
+    const body = {
+        model,
+        messages: toOpenAIMessages(req, systemPrompt(req)),
+        max_completion_tokens: req.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(req.temperature !== undefined && !isOpenAIReasoningModel(model) ? { temperature: req.temperature } : {}),
+        ...(req.json ? { response_format: { type: 'json_object' as const } } : {}),
+    };
+
+    if (!onText) {
+        const completion = await client.chat.completions.create(body, options);
+        return {
+            text: completion.choices?.[0]?.message?.content ?? '',
+            provider: 'openai',
+            model,
+            promptTokens: completion.usage?.prompt_tokens ?? 0,
+            completionTokens: completion.usage?.completion_tokens ?? 0,
+            truncated: completion.choices?.[0]?.finish_reason === 'length',
+        };
+    }
+
+    const stream = await client.chat.completions.create({ ...body, stream: true, stream_options: { include_usage: true } }, options);
+    let text = '';
+    let promptTokens = 0;
+    let completionTokens = 0;
+    let truncated = false;
+    for await (const chunk of stream) {
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+            text += delta;
+            onText(delta);
+        }
+        if (chunk.choices?.[0]?.finish_reason === 'length') truncated = true;
+        if (chunk.usage) {
+            promptTokens = chunk.usage.prompt_tokens || 0;
+            completionTokens = chunk.usage.completion_tokens || 0;
+        }
+    }
+    return { text, provider: 'openai', model, promptTokens, completionTokens, truncated };
+}
+
+async function callAnthropic(req: LlmRequest, model: string, onText?: (delta: string) => void): Promise<Attempt> {
+    const client = getAnthropicClient();
+    const options = { timeout: req.timeoutMs ?? DEFAULT_TIMEOUT_MS, maxRetries: 1 };
+    const system = systemPrompt(req);
+    const body = {
+        model,
+        max_tokens: req.maxTokens ?? DEFAULT_MAX_TOKENS,
+        messages: toAnthropicMessages(req),
+        ...(system ? { system } : {}),
+        ...(req.temperature !== undefined ? { temperature: req.temperature } : {}),
+    };
+
+    const message = onText
+        ? await (async () => {
+            const stream = client.messages.stream(body, options);
+            stream.on('text', onText);
+            return stream.finalMessage();
+        })()
+        : await client.messages.create(body, options);
+
+    return {
+        text: message.content.filter((b): b is Anthropic.TextBlock => b.type === 'text').map(b => b.text).join(''),
+        provider: 'anthropic',
+        model,
+        promptTokens: message.usage?.input_tokens ?? 0,
+        completionTokens: message.usage?.output_tokens ?? 0,
+        truncated: message.stop_reason === 'max_tokens',
+    };
+}
+
+/**
+ * Log one provider call to ai_usage_logs and count it against budgets.
+ * Exported for callers that use the provider clients directly.
+ */
+export function recordUsage(params: {
+    feature: string;
+    userId?: string | null;
+    sessionId?: string;
+    provider: string;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    durationMs?: number;
+    metadata?: Record<string, any>;
+}): void {
+    budgets.record(params.feature, params.userId, params.promptTokens + params.completionTokens);
+    void logAiUsage(params);
+}
+
+/** Throws AiBudgetExceededError when the feature or user is over today's budget */
+export async function assertWithinBudget(feature: string, userId?: string | null): Promise<void> {
+    await budgets.assertWithinBudget(feature, userId);
+}
+
+function offlinePrompt(req: LlmRequest): OfflinePrompt {
+    return { feature: req.feature, system: req.system, messages: req.messages, json: req.json };
+}
+
+async function run(req: LlmRequest, onText?: (delta: string) => void): Promise<LlmResponse> {
+    const primary = req.provider ?? providerForModel(req.model) ?? defaultProvider();
+    const offline = llmOfflineMode();
+    if (offline === 'replay') {
+        const reply = replayPrompt(offlinePrompt(req));
+        if (onText && reply.text) onText(reply.text);
+        return { ...reply, provider: primary, model: resolveModel(primary, req.model), failedOver: false };
+    }
+
+    await budgets.assertWithinBudget(req.feature, req.userId);
+
+    const targets: Array<{ provider: LlmProvider; model: string }> = [{ provider: primary, model: resolveModel(primary, req.model) }];
+    const fallback = otherProvider(primary);
+    if (req.failover !== false && hasKey(fallback)) {
+        targets.push({ provider: fallback, model: failoverModel(targets[0].model, fallback) });
+    }
+
+    let lastError: unknown;
+    for (let i = 0; i < targets.length; i++) {
+        const { provider, model } = targets[i];
+        const started = Date.now();
+        let streamed = false;
+        const forward = onText && ((delta: string) => { streamed = true; onText(delta); });
+        try {
+            const attempt = provider === 'openai'
+                ? await callOpenAI(req, model, forward)
+                : await callAnthropic(req, model, forward);
+            // Streams don't always report usage; estimate rather than log zero
+            const promptTokens = attempt.promptTokens || estimateTokenCount(JSON.stringify(req.messages) + (req.system ?? ''));
+            const completionTokens = attempt.completionTokens || estimateTokenCount(attempt.text);
+            recordUsage({
+                feature: req.feature,
+                userId: req.userId,
+                sessionId: req.sessionId,
+                provider,
+                model,
+                promptTokens,
+                completionTokens,
+                durationMs: Date.now() - started,
+                metadata: i > 0 ? { ...req.metadata, failoverFrom: targets[0].provider } : req.metadata,
+            });
+            if (offline === 'record') recordPrompt(offlinePrompt(req), { ...attempt, promptTokens, completionTokens });
+            return { ...attempt, promptTokens, completionTokens, failedOver: i > 0 };
+        } catch (err: any) {
+            lastError = err;
+            recordUsage({
+                feature: req.feature,
+                userId: req.userId,
+                sessionId: req.sessionId,
+                provider,
+                model,
+                promptTokens: 0,
+                completionTokens: 0,
+                durationMs: Date.now() - started,
+                metadata: { ...req.metadata, error: String(err?.message || err).slice(0, 500), status: err?.status },
+            });
+            // Once text has reached the client a retry would duplicate it
+            const canFailOver = i < targets.length - 1 && !streamed && isRetryableError(err);
+            logger.warn('[LlmGateway] Provider call failed', {
+                feature: req.feature,
+                provider,
+                model,
+                status: err?.status,
+                error: err?.message,
+                failingOverTo: canFailOver ? targets[i + 1].provider : undefined,
+            });
+            if (!canFailOver) throw err;
+        }
+    }
+    throw lastError;
+}
+
+/** Single completion; resolves to the model's text */
+export async function complete(req: LlmRequest): Promise<LlmResponse> {
+    return run(req);
+}
+
+/** Streaming completion; `onText` receives deltas, resolves to the full response */
+export async function streamText(req: LlmRequest, onText: (delta: string) => void): Promise<LlmResponse> {
+    return run(req, onText);
+}
+
+/**
+ * Completion parsed as JSON (and validated against `schema` when given).
+ * On invalid output the model is shown its reply and the error and asked
+ * again, up to `maxAttempts`; then LlmOutputError is thrown.
+ */
+export async function completeJson<T = any>(req: JsonRequest<T>): Promise<{ data: T; response: LlmResponse }> {
+    const { schema, maxAttempts = 2, ...base } = req;
+    let messages = base.messages;
+    let lastError = '';
+    let lastRaw = '';
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const response = await run({
+            ...base,
+            messages,
+            json: true,
+            metadata: attempt > 1 ? { ...base.metadata, structuredRetry: attempt - 1 } : base.metadata,
+        });
+        lastRaw = response.text;
+        try {
+            const parsed = parseAiJson(response.text);
+            if (!schema) return { data: parsed as T, response };
+            const result = schema.safeParse(parsed);
+            if (result.success) return { data: result.data, response };
+            lastError = result.error.issues.slice(0, 5).map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+        } catch (err: any) {
+            lastError = response.truncated ? 'the reply was cut off before the JSON was complete' : (err?.message || 'invalid JSON');
+        }
+        logger.warn('[LlmGateway] Structured output rejected', { feature: base.feature, attempt, error: lastError });
+        messages = [
+            ...base.messages,
+            { role: 'assistant', content: response.text },
+            { role: 'user', content: `That response could not be used (${lastError}). Reply again with only the corrected JSON object.` },
+        ];
+    }
+    throw new LlmOutputError(`Model returned unusable JSON for ${base.feature}: ${lastError}`, lastRaw);
+}
+
+/**
+ * OpenAI Responses API call with the web_search_preview tool; resolves to
+ * the reply text. There is no Anthropic equivalent, so no failover, and no
+ * SDK retry so `timeoutMs` bounds the whole call.
+ */
+export async function webSearch(req: {
+    feature: string;
+    userId?: string | null;
+    system: string;
+    prompt: string;
+    model?: string;
+    timeoutMs?: number;
+    metadata?: Record<string, any>;
+}): Promise<string> {
+    const prompt: OfflinePrompt = {
+        feature: req.feature,
+        system: req.system,
+        messages: [{ role: 'user', content: req.prompt }],
+        tool: 'web_search',
+    };
+    const offline = llmOfflineMode();
+    if (offline === 'replay') return replayPrompt(prompt).text;
+
+    await budgets.assertWithinBudget(req.feature, req.userId);
+
+    const model = resolveModel('openai', req.model ?? 'gpt-4o');
+    const started = Date.now();
+    const usage = { feature: req.feature, userId: req.userId, provider: 'openai', model };
+    try {
+        const response = await getOpenAIClient().responses.create({
+            model,
+            tools: [{ type: 'web_search_preview' }],
+            input: [
+                { role: 'system', content: req.system },
+                { role: 'user', content: req.prompt },
+            ],
+        }, { timeout: req.timeoutMs ?? DEFAULT_TIMEOUT_MS, maxRetries: 0 });
+
+        let text = '';
+        for (const item of response.output) {
+            if (item.type !== 'message') continue;
+            for (const c of item.content) {
+                if (c.type === 'output_text') text += c.text;
+            }
+        }
+        if (!text) text = response.output_text ?? '';
+
+        recordUsage({
+            ...usage,
+            promptTokens: response.usage?.input_tokens ?? 0,
+            completionTokens: response.usage?.output_tokens ?? 0,
+            durationMs: Date.now() - started,
+            metadata: { ...req.metadata, tool: 'web_search' },
+        });
+        if (offline === 'record') {
+            recordPrompt(prompt, {
+                text,
+                provider: 'openai',
+                model,
+                promptTokens: response.usage?.input_tokens ?? 0,
+                completionTokens: response.usage?.output_tokens ?? 0,
+                truncated: false,
+            });
+        }
+        return text;
+    } catch (err: any) {
+        recordUsage({
+            ...usage,
+            promptTokens: 0,
+            completionTokens: 0,
+            durationMs: Date.now() - started,
+            metadata: { ...req.metadata, tool: 'web_search', error: String(err?.message || err).slice(0, 500), status: err?.status },
+        });
+        throw err;
+    }
+}
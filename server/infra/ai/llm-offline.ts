@@ -0,0 +1,191 @@
+/**
+ * Record/replay stand-in for the LLM gateway.
+ *
+ * With LLM_OFFLINE set (never honoured in production), complete(),
+ * completeJson(), streamText() and webSearch() stop at the gateway instead
+ * of calling OpenAI or Anthropic:
+ *   - replay: answer from a cassette recorded for the exact prompt, else
+ *     from the first matching scripted fixture, else throw
+ *     UnrecordedPromptError. Nothing touches the network, budgets or
+ *     ai_usage_logs.
+ *   - record: call the providers as usual and write each successful reply
+ *     to a cassette, so a flow run once with real keys replays in CI.
+ *
+ * Cassettes live in LLM_CASSETTE_DIR (default server/__tests__/llm-cassettes)
+ * as <feature>/<hash>.json. The hash covers the system prompt, messages and
+ * JSON mode — not provider, model or sampling settings — so swapping models
+ * doesn't invalidate recordings. Prompts with volatile content (dates,
+ * generated ids) won't hash stably; script those with registerLlmFixture().
+ *
+ * Code that uses getOpenAIClient()/getAnthropicClient() directly (agent tool
+ * loops, speech) has no offline path and throws in replay mode.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../logging/logger';
+
+export type LlmOfflineMode = 'replay' | 'record';
+
+/** The parts of a gateway request that identify a prompt */
+export interface OfflinePrompt {
+    feature: string;
+    system?: string;
+    messages: Array<{ role: string; content: unknown }>;
+    json?: boolean;
+    /** Set for provider tools whose replies differ from plain completions, e.g. 'web_search' */
+    tool?: string;
+}
+
+export interface OfflineReply {
+    text: string;
+    promptTokens: number;
+    completionTokens: number;
+    truncated: boolean;
+}
+
+export interface LlmCassette {
+    hash: string;
+    feature: string;
+    recordedAt: string;
+    provider: string;
+    model: string;
+    prompt: Omit<OfflinePrompt, 'feature'>;
+    response: OfflineReply;
+}
+
+export interface LlmFixture {
+    /** Only match requests for this feature */
+    feature?: string;
+    /** Substring or pattern tested against the prompt text (system + messages), or a predicate */
+    match?: string | RegExp | ((prompt: OfflinePrompt) => boolean);
+    /** Reply text; objects are serialised as JSON */
+    response: string | object | ((prompt: OfflinePrompt) => string | object);
+    /** Reply only this many times, then stop matching */
+    times?: number;
+}
+
+export class UnrecordedPromptError extends Error {
+    constructor(public readonly hash: string, public readonly feature: string, preview: string) {
+        super(
+            `No cassette or fixture for ${feature} prompt ${hash} ("${preview}"). `
+            + 'Record it with LLM_OFFLINE=record and real API keys, or add a fixture with registerLlmFixture().',
+        );
+        this.name = 'UnrecordedPromptError';
+        Object.setPrototypeOf(this, UnrecordedPromptError.prototype);
+    }
+}
+
+export function llmOfflineMode(): LlmOfflineMode | null {
+    if (process.env.NODE_ENV === 'production') return null;
+    const mode = String(process.env.LLM_OFFLINE || '').toLowerCase();
+    return mode === 'replay' || mode === 'record' ? mode : null;
+}
+
+export function cassetteDir(): string {
+    return path.resolve(process.cwd(), process.env.LLM_CASSETTE_DIR || 'server/__tests__/llm-cassettes');
+}
+
+function promptText(prompt: OfflinePrompt): string {
+    const messages = prompt.messages.map(m => typeof m.content === 'string' ? m.content : JSON.stringify(m.content));
+    return [prompt.system ?? '', ...messages].join('\n');
+}
+
+function promptKey(prompt: OfflinePrompt): Omit<OfflinePrompt, 'feature'> {
+    return {
+        system: prompt.system || undefined,
+        messages: prompt.messages.map(m => ({ role: m.role, content: m.content })),
+        json: prompt.json || undefined,
+        tool: prompt.tool,
+    };
+}
+
+export function promptHash(prompt: OfflinePrompt): string {
+    return crypto.createHash('sha256').update(JSON.stringify(promptKey(prompt))).digest('hex').slice(0, 16);
+}
+
+function cassettePath(feature: string, hash: string): string {
+    const safeFeature = feature.replace(/[^a-z0-9_-]/gi, '_');
+    return path.join(cassetteDir(), safeFeature, `${hash}.json`);
+}
+
+function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+const fixtures: LlmFixture[] = [];
+
+/** Script a reply for matching prompts. Returns a function that removes it. */
+export function registerLlmFixture(fixture: LlmFixture): () => void {
+    const entry = { ...fixture };
+    fixtures.push(entry);
+    return () => {
+        const index = fixtures.indexOf(entry);
+        if (index !== -1) fixtures.splice(index, 1);
+    };
+}
+
+export function clearLlmFixtures(): void {
+    fixtures.length = 0;
+}
+
+function matchesFixture(fixture: LlmFixture, prompt: OfflinePrompt, text: string): boolean {
+    if (fixture.feature && fixture.feature !== prompt.feature) return false;
+    if (fixture.times !== undefined && fixture.times <= 0) return false;
+    if (!fixture.match) return true;
+    if (typeof fixture.match === 'string') return text.includes(fixture.match);
+    if (fixture.match instanceof RegExp) return fixture.match.test(text);
+    return fixture.match(prompt);
+}
+
+function readCassette(feature: string, hash: string): LlmCassette | null {
+    const file = cassettePath(feature, hash);
+    if (!fs.existsSync(file)) return null;
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as LlmCassette;
+}
+
+/** Cassette first, then fixtures; throws UnrecordedPromptError when neither matches */
+export function replayPrompt(prompt: OfflinePrompt): OfflineReply {
+    const hash = promptHash(prompt);
+    const cassette = readCassette(prompt.feature, hash);
+    if (cassette) return cassette.response;
+
+    const text = promptText(prompt);
+    const fixture = fixtures.find(f => matchesFixture(f, prompt, text));
+    if (fixture) {
+        if (fixture.times !== undefined) fixture.times--;
+        const raw = typeof fixture.response === 'function' ? fixture.response(prompt) : fixture.response;
+        const reply = typeof raw === 'string' ? raw : JSON.stringify(raw);
+        return { text: reply, promptTokens: estimateTokens(text), completionTokens: estimateTokens(reply), truncated: false };
+    }
+
+    const preview = text.replace(/\s+/g, ' ').trim().slice(0, 80);
+    throw new UnrecordedPromptError(hash, prompt.feature, preview);
+}
+
+/** Write a live reply to its cassette. Failures are logged, never thrown. */
+export function recordPrompt(prompt: OfflinePrompt, reply: OfflineReply & { provider: string; model: string }): void {
+    const hash = promptHash(prompt);
+    const cassette: LlmCassette = {
+        hash,
+        feature: prompt.feature,
+        recordedAt: new Date().toISOString(),
+        provider: reply.provider,
+        model: reply.model,
+        prompt: promptKey(prompt),
+        response: {
+            text: reply.text,
+            promptTokens: reply.promptTokens,
+            completionTokens: reply.completionTokens,
+            truncated: reply.truncated,
+        },
+    };
+    try {
+        const file = cassettePath(prompt.feature, hash);
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, JSON.stringify(cassette, null, 2) + '\n');
+    } catch (err: any) {
+        logger.warn('[LlmOffline] Failed to write cassette', { feature: prompt.feature, hash, error: err?.message || err });
+    }
+}
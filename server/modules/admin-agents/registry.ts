@@ -170,6 +170,66 @@ export const AGENT_REGISTRY: AgentDescriptor[] = [
     category: 'Operations',
     hasEnabledToggle: false,
   },
+  {
+    name: 'safety_rescreen',
+    label: 'Safety Re-screen',
+    description: 'Re-runs the formula safety validator over every user\'s current formula, pausing auto-ship and notifying users when a new critical warning appears. Runs automatically when a safety rule set is published; per-user re-screens run on health-profile changes.',
+    schedule: 'On safety rule publish (+ per-user on profile change)',
+    category: 'Operations',
+    hasEnabledToggle: false,
+    runNow: async () => {
+      const { safetyRescreenService } = await import('../formulas/safety-rescreen.service');
+      return safetyRescreenService.rescreenAllActive('manual');
+    },
+  },
+  {
+    name: 'quote_prewarm',
+    label: 'Quote Pre-warm',
+    description: 'Pre-fetches Alive manufacturer quotes for formulas behind auto-ships renewing in the next 3 days so renewals and checkout are served from the quote cache.',
+    schedule: 'Every 20 minutes',
+    category: 'Operations',
+    hasEnabledToggle: false,
+    runNow: async () => {
+      const { runQuotePrewarm } = await import('../../utils/quotePrewarmScheduler');
+      return runQuotePrewarm();
+    },
+  },
+  {
+    name: 'dunning',
+    label: 'Payment Recovery (Dunning)',
+    description: 'Retries failed auto-ship and membership charges per the dunning policy, sends escalating reminders and pauses subscriptions once the grace period ends.',
+    schedule: 'Daily at 10:00 UTC',
+    category: 'Operations',
+    hasEnabledToggle: false,
+    runNow: async () => {
+      const { runDunningCycle } = await import('../../utils/dunningScheduler');
+      return runDunningCycle();
+    },
+  },
+  {
+    name: 'lab_retest',
+    label: 'Lab Retest Reminders',
+    description: 'Plans each user\'s next retest panel from marker turnover and recent formula changes, and sends email/SMS reminders as it comes due.',
+    schedule: 'Daily at 14:00 UTC',
+    category: 'Operations',
+    hasEnabledToggle: false,
+    runNow: async () => {
+      const { runLabRetestCycle } = await import('../../utils/labRetestScheduler');
+      return runLabRetestCycle();
+    },
+  },
+  {
+    name: 'wearable_anomaly',
+    label: 'Wearable Anomaly Detection',
+    description: 'Scores each user\'s latest HRV, resting HR, skin temperature, respiratory rate and SpO2 against their baseline and alerts on illness, overtraining or poor-recovery patterns.',
+    schedule: 'Daily at 11:00 UTC',
+    category: 'Operations',
+    hasEnabledToggle: false,
+    runNow: async () => {
+      const { runWearableAnomalyCycle } = await import('../../utils/wearableAnomalyScheduler');
+      return runWearableAnomalyCycle();
+    },
+  },
   {
     name: 'order_settlement',
     label: 'Order Settlement',
@@ -1,9 +1,9 @@
 import { adminRepository } from './admin.repository';
-import OpenAI from 'openai';
 import { logger } from '../../infra/logging/logger';
 import { sendNotificationEmail } from '../../utils/emailService';
 import { INDIVIDUAL_INGREDIENTS, SYSTEM_SUPPORTS } from '@shared/ingredients';
 import { aiRuntimeSettings, ALLOWED_MODELS, normalizeModel } from 'server/infra/ai/ai-config';
+import { complete, defaultProvider, resolveModel } from '../../infra/ai/llm-gateway';
 import { systemRepository } from '../system/system.repository';
 import { manufacturerPricingService, type ManufacturerOrderCustomerInfo } from '../formulas/manufacturer-pricing.service';
 import { usersRepository } from '../users/users.repository';
@@ -581,7 +581,6 @@ export class AdminService {
         ];
 
         const messageTexts = userMessages.map(m => m.content).join('\n---\n');
-        const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
         const analysisPrompt = `You are analyzing user conversations from Ones, a personalized supplement platform. 
 Users chat with an AI health practitioner to create custom supplement formulas.
@@ -619,14 +618,15 @@ Provide a JSON response with the following structure:
 
 Return ONLY valid JSON.`;
 
-        const completion = await openai.chat.completions.create({
+        const { text: rawAnalysis } = await complete({
+            feature: 'admin',
+            provider: 'openai',
             model: 'gpt-4.1',
             messages: [{ role: 'user', content: analysisPrompt }],
-            max_completion_tokens: 4000,
-            temperature: 0.3
+            maxTokens: 4000,
+            temperature: 0.3,
+            metadata: { task: 'conversation_insights' },
         });
-
-        const rawAnalysis = completion.choices[0]?.message?.content || '';
         let analysisData;
         try {
             const jsonMatch = rawAnalysis.match(/```(?:json)?\s*([\s\S]*?)```/) || [null, rawAnalysis];
@@ -926,47 +926,26 @@ Return ONLY valid JSON.`;
     }
 
     async testAiConnection(): Promise<{ ok: boolean; provider: string; model: string; sample?: string; error?: string }> {
-        const provider = (aiRuntimeSettings.provider || process.env.AI_PROVIDER || 'openai') as 'openai' | 'anthropic';
-        const model = aiRuntimeSettings.model || (provider === 'anthropic' ? 'claude-sonnet-4-6' : 'gpt-4o');
+        const provider = defaultProvider();
+        const model = resolveModel(provider);
+        const keyVar = provider === 'anthropic' ? 'ANTHROPIC_API_KEY' : 'OPENAI_API_KEY';
+        if (!process.env[keyVar]) return { ok: false, provider, model, error: `${keyVar} not set` };
 
         try {
-            if (provider === 'openai') {
-                const apiKey = process.env.OPENAI_API_KEY;
-                if (!apiKey) return { ok: false, provider, model, error: 'OPENAI_API_KEY not set' };
-                const openai = new OpenAI({ apiKey });
-                const completion = await openai.chat.completions.create({
-                    model,
-                    messages: [{ role: 'user', content: 'Respond with exactly: OK' }],
-                    max_tokens: 5,
-                });
-                const sample = completion.choices?.[0]?.message?.content?.trim() || '';
-                return { ok: true, provider, model, sample };
-            } else {
-                const apiKey = process.env.ANTHROPIC_API_KEY;
-                if (!apiKey) return { ok: false, provider, model, error: 'ANTHROPIC_API_KEY not set' };
-                const res = await fetch('https://api.anthropic.com/v1/messages', {
-                    method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'x-api-key': apiKey,
-                        'anthropic-version': '2023-06-01',
-                    },
-                    body: JSON.stringify({
-                        model,
-                        max_tokens: 5,
-                        messages: [{ role: 'user', content: 'Respond with exactly: OK' }],
-                    }),
-                });
-                if (!res.ok) {
-                    const errBody = await res.text();
-                    return { ok: false, provider, model, error: `HTTP ${res.status}: ${errBody.slice(0, 200)}` };
-                }
-                const data = await res.json();
-                const sample = data?.content?.[0]?.text?.trim() || '';
-                return { ok: true, provider, model, sample };
-            }
+            // No failover: this checks the configured provider specifically
+            const { text } = await complete({
+                feature: 'admin',
+                provider,
+                model,
+                messages: [{ role: 'user', content: 'Respond with exactly: OK' }],
+                maxTokens: 5,
+                failover: false,
+                metadata: { task: 'connection_test' },
+            });
+            return { ok: true, provider, model, sample: text.trim() };
         } catch (err: any) {
-            return { ok: false, provider, model, error: err.message || 'Unknown error' };
+            const error = err?.status ? `HTTP ${err.status}: ${String(err.message || '').slice(0, 200)}` : (err.message || 'Unknown error');
+            return { ok: false, provider, model, error };
         }
     }
 
@@ -8,6 +8,7 @@
 import OpenAI from 'openai';
 import type { ChatCompletionMessageFunctionToolCall } from 'openai/resources/chat/completions/completions';
 import logger from '../../infra/logging/logger';
+import { assertWithinBudget, getOpenAIClient, recordUsage } from '../../infra/ai/llm-gateway';
 import { agentRepository } from './agent.repository';
 
 // Safety configuration
@@ -56,7 +57,7 @@ export async function runAgent(options: AgentRunOptions): Promise<AgentRunResult
     onProgress,
   } = options;
 
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  const openai = getOpenAIClient();
 
   // Create agent run record
   const runId = await agentRepository.createRun({
@@ -99,6 +100,8 @@ export async function runAgent(options: AgentRunOptions): Promise<AgentRunResult
       }
 
       // Call OpenAI
+      await assertWithinBudget('agent');
+      const callStart = Date.now();
       const response = await openai.chat.completions.create({
         model,
         messages,
@@ -112,6 +115,15 @@ export async function runAgent(options: AgentRunOptions): Promise<AgentRunResult
       if (usage) {
         totalTokens += usage.total_tokens;
       }
+      recordUsage({
+        feature: 'agent',
+        provider: 'openai',
+        model,
+        promptTokens: usage?.prompt_tokens ?? 0,
+        completionTokens: usage?.completion_tokens ?? 0,
+        durationMs: Date.now() - callStart,
+        metadata: { agentName, runId, iteration: i },
+      });
 
       // If no tool calls, the AI is done
       if (choice.finish_reason === 'stop' || !choice.message.tool_calls?.length) {
@@ -14,6 +14,7 @@
 import Anthropic from '@anthropic-ai/sdk';
 import Firecrawl from '@mendable/firecrawl-js';
 import logger from '../../infra/logging/logger';
+import { assertWithinBudget, complete, getAnthropicClient, recordUsage } from '../../infra/ai/llm-gateway';
 import { agentRepository } from './agent.repository';
 import { enrichProspect } from './tools/prospect-enrichment';
 import { draftPitch } from './engines/draft-pitch';
@@ -560,17 +561,16 @@ ${profile.uniqueAngles.slice(0, 3).map((t) => '- ' + t).join('\n')}`;
   if (!process.env.ANTHROPIC_API_KEY) {
     return { ok: false, error: 'ANTHROPIC_API_KEY not configured' };
   }
-  const client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-  const resp = await client.messages.create({
+  const { text: raw } = await complete({
+    feature: 'agent',
+    provider: 'anthropic',
     model: ANTHROPIC_MODEL,
-    max_tokens: 1500,
+    maxTokens: 1500,
     temperature: 0.6,
     system,
     messages: [{ role: 'user', content: `OPERATOR INPUT:\n"""\n${args.text}\n"""` }],
+    metadata: { task: 'polish_text', mode },
   });
-  const raw = resp.content.find((b) => b.type === 'text')?.type === 'text'
-    ? (resp.content.find((b) => b.type === 'text') as any).text
-    : '';
   const m = raw.match(/\{[\s\S]*\}/);
   let parsed: any = {};
   try { parsed = m ? JSON.parse(m[0]) : {}; } catch { parsed = {}; }
@@ -694,7 +694,7 @@ export async function runConversationalAgent(
     return;
   }
 
-  const client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+  const client = getAnthropicClient();
 
   // Convert simple history into Anthropic message format
   const messages: Anthropic.MessageParam[] = history.map((m) => ({
@@ -712,6 +712,8 @@ export async function runConversationalAgent(
       if (abortSignal?.aborted) break;
       iterations = i + 1;
 
+      await assertWithinBudget('agent');
+      const callStart = Date.now();
       const stream = client.messages.stream({
         model: ANTHROPIC_MODEL,
         max_tokens: 4096,
@@ -727,6 +729,15 @@ export async function runConversationalAgent(
 
       // Wait for the full message
       const final = await stream.finalMessage();
+      recordUsage({
+        feature: 'agent',
+        provider: 'anthropic',
+        model: ANTHROPIC_MODEL,
+        promptTokens: final.usage?.input_tokens ?? 0,
+        completionTokens: final.usage?.output_tokens ?? 0,
+        durationMs: Date.now() - callStart,
+        metadata: { task: 'conversational_agent', iteration: i },
+      });
 
       // Push assistant turn into history
       messages.push({ role: 'assistant', content: final.content });
@@ -4,10 +4,9 @@
  * Takes a prospect + template + founder profile and generates a personalized
  * pitch email. Each pitch is stored as a draft for human review.
  */
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
 import { jsonrepair } from 'jsonrepair';
 import logger from '../../../infra/logging/logger';
+import { complete } from '../../../infra/ai/llm-gateway';
 import { agentRepository } from '../agent.repository';
 import { getPrAgentConfig } from '../agent-config';
 import { getFounderProfile } from '../founder-context';
@@ -28,38 +27,23 @@ async function callPitchAI(
   user: string,
   temperature: number,
 ): Promise<{ content: string; promptTokens: number; completionTokens: number }> {
-  if (isClaudeModel(model) && process.env.ANTHROPIC_API_KEY) {
-    const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-    const response = await anthropic.messages.create({
-      model,
-      max_tokens: 4000,
-      temperature,
-      system,
-      messages: [{ role: 'user', content: user }],
-    });
-    const text = response.content.find(c => c.type === 'text')?.text ?? '{}';
-    return {
-      content: text,
-      promptTokens: response.usage?.input_tokens || 0,
-      completionTokens: response.usage?.output_tokens || 0,
-    };
-  }
-  // Fallback to OpenAI
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  const fallbackModel = isClaudeModel(model) ? 'gpt-4o' : model;
-  const response = await openai.chat.completions.create({
-    model: fallbackModel,
-    messages: [
-      { role: 'system', content: system },
-      { role: 'user', content: user },
-    ],
+  // Claude models fall back to OpenAI when no Anthropic key is configured
+  const useClaude = isClaudeModel(model) && !!process.env.ANTHROPIC_API_KEY;
+  const response = await complete({
+    feature: 'agent',
+    provider: useClaude ? 'anthropic' : 'openai',
+    model: useClaude || !isClaudeModel(model) ? model : 'gpt-4o',
+    system,
+    messages: [{ role: 'user', content: user }],
     temperature,
-    response_format: { type: 'json_object' },
+    maxTokens: 4000,
+    json: true,
+    metadata: { task: 'draft_pitch' },
   });
   return {
-    content: response.choices[0].message.content || '{}',
-    promptTokens: response.usage?.prompt_tokens || 0,
-    completionTokens: response.usage?.completion_tokens || 0,
+    content: response.text || '{}',
+    promptTokens: response.promptTokens,
+    completionTokens: response.completionTokens,
   };
 }
 
@@ -525,7 +509,6 @@ export async function rewritePitch(
   const primaryContact = contacts.find(c => c.isPrimary) || contacts[0];
 
   const profile = await getFounderProfile();
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
   // Live-scrape the prospect's website for fresh context
   let websiteContext = '';
@@ -573,12 +556,9 @@ export async function rewritePitch(
     ? (prospect.enrichmentData as any).socialLinks?.filter((s: string) => s && !s.includes('linkedin.com') && !s.includes('twitter.com'))
     : [];
 
-  const response = await openai.chat.completions.create({
-    model: config.model,
-    messages: [
-      {
-        role: 'system',
-        content: `You help Pete (founder of Ones) rewrite pitch emails. You MUST produce a substantially different email — not a light rephrase.
+  const response = await callPitchAI(
+    config.model,
+    `You help Pete (founder of Ones) rewrite pitch emails. You MUST produce a substantially different email — not a light rephrase.
 
 === USER INSTRUCTIONS (your #1 priority) ===
 Do EXACTLY what the user asks. Their instructions override ALL rules below. If they ask to personalize, you MUST reference specific facts about this company from the research below — portfolio companies, investment thesis, recent news, team members, anything concrete.
@@ -605,10 +585,7 @@ AI that analyzes blood work + health data to design one custom supplement from 1
 - The rewritten email MUST be noticeably different from the original — change the opening, the hook, the framing. Don't just swap synonyms.
 
 OUTPUT: JSON with "subject" and "body" keys only.`,
-      },
-      {
-        role: 'user',
-        content: `Current pitch to rewrite:
+    `Current pitch to rewrite:
 
 SUBJECT: ${pitch.subject}
 BODY:
@@ -618,14 +595,10 @@ ${pitch.body}
 MY INSTRUCTIONS: ${instructions}
 
 IMPORTANT: I want this email to feel like it was written specifically for ${prospect.name}. Use the company research above. Mention their portfolio companies, their investment focus, recent news — anything that shows I actually know who they are. Do NOT just rephrase the same generic pitch with different words.`,
-      },
-    ],
-    temperature: Math.max(config.temperature, 0.85),
-    response_format: { type: 'json_object' },
-  });
+    Math.max(config.temperature, 0.85),
+  );
 
-  const content = response.choices[0].message.content || '{}';
-  const parsed = JSON.parse(content);
+  const parsed = parseJsonSafe(response.content);
 
   const newSubject = parsed.subject || pitch.subject;
   const newBody = parsed.body || pitch.body;
@@ -11,7 +11,7 @@ import { getSearchQueries } from '../queries/search-queries';
 import { isHunterConfigured, findBestEmail, verifyEmail, domainSearch } from '../tools/hunter';
 import logger from '../../../infra/logging/logger';
 import type { InsertOutreachProspect } from '@shared/schema';
-import OpenAI from 'openai';
+import { webSearch } from '../../../infra/ai/llm-gateway';
 
 /** Valid investor sub-types that match the DB enum */
 const VALID_INVESTOR_SUB_TYPES = new Set([
@@ -118,36 +118,16 @@ export async function runInvestorScan(options: {
     // ── Step 1: Web Search ──
     const queries = getSearchQueries('investor', queriesCount, config.searchQueries?.investor);
 
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY, timeout: 90_000 });
-
     for (const query of queries) {
       await logStep('web_search', `Searching: "${query.substring(0, 80)}"`);
       try {
-        const controller = new AbortController();
-        const queryTimeout = setTimeout(() => controller.abort(), 90_000); // 90s per query
-
-        const response = await openai.responses.create({
-          model: 'gpt-4o',
-          tools: [{ type: 'web_search_preview' as any }],
-          input: [
-            { role: 'system', content: INVESTOR_SEARCH_PROMPT },
-            { role: 'user', content: `Search for investors: ${query}\n\nReturn up to 10 results as a JSON array. Be thorough — find as many relevant investors as possible from the search results.` },
-          ],
-        }, { signal: controller.signal });
-
-        clearTimeout(queryTimeout);
-
-        let textOutput = '';
-        for (const item of response.output) {
-          if (item.type === 'message') {
-            for (const c of item.content) {
-              if ((c as any).type === 'text') textOutput += (c as any).text;
-            }
-          }
-        }
-        if (!textOutput && (response as any).output_text) {
-          textOutput = (response as any).output_text;
-        }
+        const textOutput = await webSearch({
+          feature: 'agent',
+          system: INVESTOR_SEARCH_PROMPT,
+          prompt: `Search for investors: ${query}\n\nReturn up to 10 results as a JSON array. Be thorough — find as many relevant investors as possible from the search results.`,
+          timeoutMs: 90_000, // 90s per query
+          metadata: { task: 'investor_scan' },
+        });
 
         // Parse JSON from response
         const jsonMatch = textOutput.match(/```(?:json)?\s*([\s\S]*?)```/) || [null, textOutput];
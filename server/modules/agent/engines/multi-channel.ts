@@ -9,8 +9,8 @@
  * Messages are drafted only — never sent automatically.
  * Human copies and sends manually via the respective platform.
  */
-import OpenAI from 'openai';
 import logger from '../../../infra/logging/logger';
+import { completeJson } from '../../../infra/ai/llm-gateway';
 import { getFounderProfile } from '../founder-context';
 import { getPrAgentConfig } from '../agent-config';
 import type { OutreachProspect, OutreachPitch } from '@shared/schema';
@@ -42,19 +42,16 @@ export async function generateChannelMessages(
 ): Promise<ChannelMessage[]> {
   const config = await getPrAgentConfig();
   const profile = await getFounderProfile();
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
   const messages: ChannelMessage[] = [];
 
   for (const channel of channels) {
     try {
       const limit = CHANNEL_LIMITS[channel];
-      const response = await openai.chat.completions.create({
+      const { data: parsed } = await completeJson<any>({
+        feature: 'agent',
         model: 'gpt-4o-mini', // Use mini for short-form content
-        messages: [
-          {
-            role: 'system',
-            content: `You are ${profile.name}, ${profile.title} at ${profile.company}. You're reaching out to ${prospect.hostName || prospect.name} via ${channel}.
+        system: `You are ${profile.name}, ${profile.title} at ${profile.company}. You're reaching out to ${prospect.hostName || prospect.name} via ${channel}.
 
 RULES for ${channel}:
 ${channel === 'linkedin' ? `- Write a LinkedIn connection request note (max ${limit} chars)
@@ -75,18 +72,15 @@ PITCH CONTEXT: ${pitch.subject}
 PITCH SUMMARY: ${pitch.body.substring(0, 200)}
 
 OUTPUT: JSON with "message" key${channel === 'linkedin' ? ' and "connectionNote" key' : ''}`,
-          },
+        messages: [
           {
             role: 'user',
             content: `Write a ${channel} outreach message to ${prospect.hostName || prospect.name} from ${prospect.publicationName || prospect.name}.`,
           },
         ],
         temperature: 0.6,
-        response_format: { type: 'json_object' },
+        metadata: { task: 'multi_channel', channel },
       });
-
-      const content = response.choices[0].message.content || '{}';
-      const parsed = JSON.parse(content);
       const message = parsed.message || '';
 
       messages.push({
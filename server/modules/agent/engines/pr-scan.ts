@@ -17,7 +17,7 @@ import { scoreProspect, type ScoreResult } from '../tools/score-prospect';
 import { getSearchQueries } from '../queries/search-queries';
 import logger from '../../../infra/logging/logger';
 import type { InsertOutreachProspect } from '@shared/schema';
-import OpenAI from 'openai';
+import { webSearch } from '../../../infra/ai/llm-gateway';
 import { isHunterConfigured, findBestEmail, verifyEmail } from '../tools/hunter';
 
 /** Valid sub-type enum values — must match the outreach_sub_type PG enum */
@@ -95,45 +95,19 @@ async function enrichContact(prospectName: string, prospectUrl: string, category
 
   // ── Pass 2: OpenAI web search fallback ──
   try {
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY, timeout: 90_000 });
-
     const emailQuery = category === 'podcast'
       ? `"${prospectName}" site:${domain} email contact "@" pitch booking guest`
       : `"${prospectName}" site:${domain} email contact "@" editorial submissions press`;
 
     logger.info(`[contact-enrich] OpenAI web search: "${emailQuery.substring(0, 60)}..."`);
 
-    const controller = new AbortController();
-    const queryTimeout = setTimeout(() => controller.abort(), 90_000);
-
-    const response = await openai.responses.create({
-      model: 'gpt-4o',
-      tools: [{ type: 'web_search_preview' as any }],
-      input: [
-        {
-          role: 'system',
-          content: `You are finding an email address for "${prospectName}". Your PRIMARY goal is to find a real email address. Look at their contact page, about page, footer, social bios, LinkedIn, and any directories. Return ONLY a JSON object: {"email": "found@email.com", "formUrl": "https://..."} — use null for any you can't find. Only return REAL emails you find in search results. Do NOT make up emails. Do NOT return generic noreply@ addresses.`,
-        },
-        {
-          role: 'user',
-          content: `Find the email address for: ${prospectName} (${prospectUrl}). Check their contact page, about page, social media bios, and any podcast/press directories they're listed on. An email is STRONGLY preferred over a form URL.\n\nSearch: ${emailQuery}`,
-        },
-      ],
-    }, { signal: controller.signal });
-
-    clearTimeout(queryTimeout);
-
-    let textOutput = '';
-    for (const item of response.output) {
-      if (item.type === 'message') {
-        for (const c of item.content) {
-          if ((c as any).type === 'text') textOutput += (c as any).text;
-        }
-      }
-    }
-    if (!textOutput && (response as any).output_text) {
-      textOutput = (response as any).output_text;
-    }
+    const textOutput = await webSearch({
+      feature: 'agent',
+      system: `You are finding an email address for "${prospectName}". Your PRIMARY goal is to find a real email address. Look at their contact page, about page, footer, social bios, LinkedIn, and any directories. Return ONLY a JSON object: {"email": "found@email.com", "formUrl": "https://..."} — use null for any you can't find. Only return REAL emails you find in search results. Do NOT make up emails. Do NOT return generic noreply@ addresses.`,
+      prompt: `Find the email address for: ${prospectName} (${prospectUrl}). Check their contact page, about page, social media bios, and any podcast/press directories they're listed on. An email is STRONGLY preferred over a form URL.\n\nSearch: ${emailQuery}`,
+      timeoutMs: 90_000,
+      metadata: { task: 'contact_enrich' },
+    });
 
     const jsonMatch = textOutput.match(/```(?:json)?\s*([\s\S]*?)```/) || [null, textOutput];
     const parsed = JSON.parse(jsonMatch[1]?.trim() || '{}');
@@ -8,8 +8,8 @@
  * - Funding rounds
  * - Product milestones (formula count, ingredient library)
  */
-import OpenAI from 'openai';
 import logger from '../../../infra/logging/logger';
+import { completeJson } from '../../../infra/ai/llm-gateway';
 import { getFounderProfile } from '../founder-context';
 import { getPrAgentConfig } from '../agent-config';
 
@@ -43,18 +43,15 @@ export async function draftPressRelease(
 ): Promise<PressRelease> {
   const config = await getPrAgentConfig();
   const profile = await getFounderProfile();
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
   const metricsBlock = details.metrics
     ? Object.entries(details.metrics).map(([k, v]) => `- ${k}: ${v}`).join('\n')
     : 'No specific metrics provided';
 
-  const response = await openai.chat.completions.create({
+  const { data: parsed } = await completeJson<any>({
+    feature: 'agent',
     model: config.model,
-    messages: [
-      {
-        role: 'system',
-        content: `You are a PR professional drafting a press release for ${profile.company}, a personalized supplement company using AI to create custom supplements.
+    system: `You are a PR professional drafting a press release for ${profile.company}, a personalized supplement company using AI to create custom supplements.
 
 COMPANY: ${profile.company} (${profile.companyUrl})
 FOUNDER: ${profile.name}, ${profile.title}
@@ -70,7 +67,7 @@ PRESS RELEASE FORMAT:
 TONE: Professional, factual, newsworthy. Avoid hype.
 
 OUTPUT: JSON with keys: headline, subHeadline, body, boilerplate, mediaContact`,
-      },
+    messages: [
       {
         role: 'user',
         content: `Draft a press release for this ${milestone} milestone:
@@ -85,12 +82,10 @@ ${details.quotes ? `FOUNDER QUOTES TO INCLUDE:\n${details.quotes.join('\n')}` :
       },
     ],
     temperature: 0.4,
-    response_format: { type: 'json_object' },
+    maxTokens: 4096,
+    metadata: { task: 'press_release' },
   });
 
-  const content = response.choices[0].message.content || '{}';
-  const parsed = JSON.parse(content);
-
   logger.info(`[press-release] Drafted release for "${details.title}"`);
 
   return {
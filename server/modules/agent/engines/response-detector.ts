@@ -6,10 +6,9 @@
  * Notifies admin of positive responses.
  */
 import { google } from 'googleapis';
-import OpenAI from 'openai';
 import logger from '../../../infra/logging/logger';
+import { complete } from '../../../infra/ai/llm-gateway';
 import { agentRepository } from '../agent.repository';
-import { getPrAgentConfig } from '../agent-config';
 import { logResponseDetected } from '../../crm/crm-bridge';
 
 interface DetectedResponse {
@@ -136,15 +135,10 @@ async function classifyResponse(snippet: string, prospectName: string): Promise<
   }
 
   try {
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-    const config = await getPrAgentConfig();
-
-    const response = await openai.chat.completions.create({
+    const response = await complete({
+      feature: 'agent',
       model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: `Classify this email response to a PR pitch. Return ONLY one of: "interested", "declined", "ask_later", "forwarded", "auto_reply", "unknown".
+      system: `Classify this email response to a PR pitch. Return ONLY one of: "interested", "declined", "ask_later", "forwarded", "auto_reply", "unknown".
 
 - interested: They want to talk, schedule, or learn more
 - declined: They said no, not interested, or not a fit
@@ -152,17 +146,18 @@ async function classifyResponse(snippet: string, prospectName: string): Promise<
 - forwarded: They forwarded to someone else or said to contact another person
 - auto_reply: Automated out-of-office or auto-response
 - unknown: Can't determine intent`,
-        },
+      messages: [
         {
           role: 'user',
           content: `Response from ${prospectName}:\n"${snippet}"`,
         },
       ],
       temperature: 0.1,
-      max_tokens: 20,
+      maxTokens: 20,
+      metadata: { task: 'classify_response' },
     });
 
-    const result = response.choices[0].message.content?.trim().toLowerCase().replace(/['"]/g, '') || 'unknown';
+    const result = response.text.trim().toLowerCase().replace(/['"]/g, '') || 'unknown';
     const valid = ['interested', 'declined', 'ask_later', 'forwarded', 'auto_reply', 'unknown'] as const;
     return valid.includes(result as any) ? result as DetectedResponse['classification'] : 'unknown';
   } catch {
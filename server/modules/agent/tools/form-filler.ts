@@ -10,10 +10,10 @@
  * 5. Takes screenshots at each stage for review
  * 6. Saves form answers to pitch record for audit trail
  */
-import OpenAI from 'openai';
 import { join } from 'path';
 import { mkdirSync, existsSync } from 'fs';
 import logger from '../../../infra/logging/logger';
+import { complete } from '../../../infra/ai/llm-gateway';
 import { acquireContext, releaseContext, closeBrowserPool } from './browser-pool';
 import { getFounderProfile, type FounderProfile } from '../founder-context';
 import { agentRepository } from '../agent.repository';
@@ -355,18 +355,14 @@ async function mapFieldsWithAI(
   value: string;
   fieldType: string;
 }>> {
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
   const fieldDescriptions = fields.map(f =>
     `- ID: "${f.id}", Label: "${f.label}", Type: ${f.type}${f.required ? ' (REQUIRED)' : ''}${f.options ? `, Options: [${f.options.join(', ')}]` : ''}`
   ).join('\n');
 
-  const response = await openai.chat.completions.create({
+  const response = await complete({
+    feature: 'agent',
     model: 'gpt-4o-mini',
-    messages: [
-      {
-        role: 'system',
-        content: `You are filling out a ${prospect.category === 'podcast' ? 'podcast guest application' : 'press/media submission'} form.
+    system: `You are filling out a ${prospect.category === 'podcast' ? 'podcast guest application' : 'press/media submission'} form.
 
 AVAILABLE INFORMATION:
 - Founder name: ${profile.name}
@@ -388,17 +384,18 @@ For text fields with character limits, keep answers concise.
 For textarea fields about topics/bio, use the founder info above.
 
 Return a JSON array of objects: [{ "fieldId": "...", "value": "..." }]`,
-      },
+    messages: [
       {
         role: 'user',
         content: `Map values for these form fields:\n${fieldDescriptions}`,
       },
     ],
     temperature: 0.2,
-    response_format: { type: 'json_object' },
+    json: true,
+    metadata: { task: 'form_fill' },
   });
 
-  const content = response.choices[0].message.content || '{}';
+  const content = response.text || '{}';
   let parsed: any;
   try {
     parsed = JSON.parse(content);
@@ -9,8 +9,8 @@
  *
  * This fills the gap between "we found a magazine" and "we know who to pitch."
  */
-import OpenAI from 'openai';
 import logger from '../../../infra/logging/logger';
+import { webSearch } from '../../../infra/ai/llm-gateway';
 import { isHunterConfigured, findAndVerifyPersonEmail, domainSearch } from './hunter';
 
 export interface DiscoveredJournalist {
@@ -59,8 +59,6 @@ export async function discoverJournalists(
   publicationUrl: string,
   topics: string[] = [],
 ): Promise<{ journalists: DiscoveredJournalist[]; searchQuery: string }> {
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
   const topicHints = topics.length > 0
     ? `The publication covers these topics: ${topics.join(', ')}.`
     : '';
@@ -75,14 +73,10 @@ export async function discoverJournalists(
   logger.info(`[journalist-discovery] Searching for writers at "${publicationName}" (${domain})`);
 
   try {
-    const response = await openai.responses.create({
-      model: 'gpt-4o',
-      tools: [{ type: 'web_search_preview' as any }],
-      input: [
-        { role: 'system', content: JOURNALIST_SEARCH_PROMPT },
-        {
-          role: 'user',
-          content: `Find journalists at this publication who cover health, supplements, wellness, or nutrition topics:
+    const textOutput = await webSearch({
+      feature: 'agent',
+      system: JOURNALIST_SEARCH_PROMPT,
+      prompt: `Find journalists at this publication who cover health, supplements, wellness, or nutrition topics:
 
 Publication: ${publicationName}
 URL: ${publicationUrl}
@@ -96,24 +90,9 @@ Search strategies to try:
 4. Look at ${publicationUrl} for a staff/team/about page listing writers
 
 Return up to 5 journalists as a JSON array. Only include people you found real evidence for.`,
-        },
-      ],
+      metadata: { task: 'journalist_discovery' },
     });
 
-    // Extract text output
-    let textOutput = '';
-    for (const item of response.output) {
-      if (item.type === 'message') {
-        for (const c of item.content) {
-          if ((c as any).type === 'text') textOutput += (c as any).text;
-        }
-      }
-    }
-
-    if (!textOutput && (response as any).output_text) {
-      textOutput = (response as any).output_text;
-    }
-
     // Parse JSON from response (may be wrapped in markdown code fence)
     const jsonMatch = textOutput.match(/```(?:json)?\s*([\s\S]*?)```/) || [null, textOutput];
     const jsonStr = jsonMatch[1]?.trim() || '[]';
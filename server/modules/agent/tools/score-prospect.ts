@@ -4,8 +4,8 @@
  * After web search finds raw prospects, this tool uses AI to re-evaluate
  * each prospect with more detailed criteria specific to Ones.
  */
-import OpenAI from 'openai';
 import logger from '../../../infra/logging/logger';
+import { completeJson } from '../../../infra/ai/llm-gateway';
 import type { AgentTool } from '../agent-runner';
 
 export interface ScoreResult {
@@ -120,13 +120,12 @@ export async function scoreProspect(
   category: string,
   details?: string,
 ): Promise<ScoreResult> {
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
   try {
-    const response = await openai.chat.completions.create({
+    const { data: score } = await completeJson<ScoreResult>({
+      feature: 'agent',
       model: 'gpt-4o-mini', // Use mini for cost-efficient scoring
+      system: SCORING_PROMPT,
       messages: [
-        { role: 'system', content: SCORING_PROMPT },
         {
           role: 'user',
           content: `Score this ${category} prospect:
@@ -136,12 +135,9 @@ ${details ? `Additional details: ${details}` : ''}`,
         },
       ],
       temperature: 0.2,
-      response_format: { type: 'json_object' },
+      metadata: { task: 'score_prospect' },
     });
 
-    const content = response.choices[0].message.content || '{}';
-    const score = JSON.parse(content) as ScoreResult;
-
     // Validate and clamp scores
     score.relevanceScore = Math.min(100, Math.max(0, score.relevanceScore || 0));
     if (score.scoreBreakdown) {
@@ -4,8 +4,8 @@
  * Searches the internet for PR/outreach opportunities and returns
  * structured prospect data. This is the core discovery mechanism.
  */
-import OpenAI from 'openai';
 import logger from '../../../infra/logging/logger';
+import { webSearch } from '../../../infra/ai/llm-gateway';
 import type { AgentTool } from '../agent-runner';
 
 export interface WebSearchResult {
@@ -94,37 +94,16 @@ export async function executeWebSearch(
   category: 'podcast' | 'press',
   maxResults: number = 10,
 ): Promise<{ results: WebSearchResult[]; searchQuery: string; prospectsFound: number }> {
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
   logger.info(`[web-search] Searching: "${query.substring(0, 80)}..." (${category})`);
 
   try {
-    const response = await openai.responses.create({
-      model: 'gpt-4o',
-      tools: [{ type: 'web_search_preview' }],
-      input: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        {
-          role: 'user',
-          content: `Search the web for this query and find ${category} outreach opportunities for a personalized supplement company:\n\n${query}\n\nReturn the top ${maxResults} most actionable results as a JSON array. Be thorough — find as many relevant outlets as possible from the search results. Only include results with a relevance score of 60 or higher. Skip any outlet with under 5,000 estimated audience/followers.`,
-        },
-      ],
+    const textOutput = await webSearch({
+      feature: 'agent',
+      system: SYSTEM_PROMPT,
+      prompt: `Search the web for this query and find ${category} outreach opportunities for a personalized supplement company:\n\n${query}\n\nReturn the top ${maxResults} most actionable results as a JSON array. Be thorough — find as many relevant outlets as possible from the search results. Only include results with a relevance score of 60 or higher. Skip any outlet with under 5,000 estimated audience/followers.`,
+      metadata: { task: 'web_search', category },
     });
 
-    // Extract text output
-    let textOutput = '';
-    for (const item of response.output) {
-      if (item.type === 'message') {
-        for (const c of item.content) {
-          if ((c as any).type === 'text') textOutput += (c as any).text;
-        }
-      }
-    }
-
-    if (!textOutput && (response as any).output_text) {
-      textOutput = (response as any).output_text;
-    }
-
     // Parse JSON from response (may be wrapped in markdown code fence)
     const jsonMatch = textOutput.match(/```(?:json)?\s*([\s\S]*?)```/) || [null, textOutput];
     const jsonStr = jsonMatch[1]?.trim() || '[]';
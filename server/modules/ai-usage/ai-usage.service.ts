@@ -29,6 +29,8 @@ const MODEL_PRICING: Record<string, ModelPricing> = {
   'o3-mini':       { inputPer1M: 1.10,  outputPer1M: 4.40   },
   'o3-pro':        { inputPer1M: 20.00, outputPer1M: 80.00  },
   'o4-mini':       { inputPer1M: 1.10,  outputPer1M: 4.40   },
+  // TTS is billed per character; callers log characters as promptTokens
+  'tts-1-hd':      { inputPer1M: 30.00, outputPer1M: 0      },
 
   // ── Anthropic ──
   'claude-opus-4-6':    { inputPer1M: 15.00, outputPer1M: 75.00 },
@@ -171,6 +173,23 @@ export async function logFalAiUsage(params: {
   }
 }
 
+/**
+ * Tokens logged since `since`, optionally narrowed to a feature and/or user.
+ * Seeds the gateway's daily budget counters.
+ */
+export async function getTokensUsedSince(filter: { feature?: string; userId?: string }, since: Date): Promise<number> {
+  const conditions = [gte(aiUsageLogs.createdAt, since)];
+  if (filter.feature) conditions.push(eq(aiUsageLogs.feature, filter.feature));
+  if (filter.userId) conditions.push(eq(aiUsageLogs.userId, filter.userId));
+
+  const [row] = await db.select({
+    totalTokens: sql<number>`COALESCE(SUM(${aiUsageLogs.totalTokens}), 0)`,
+  })
+    .from(aiUsageLogs)
+    .where(and(...conditions));
+  return Number(row?.totalTokens) || 0;
+}
+
 // ─── ADMIN QUERY METHODS ────────────────────────────────────────────────────
 
 export interface AiUsageSummary {
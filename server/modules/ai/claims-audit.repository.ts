@@ -0,0 +1,110 @@
+import { db } from '../../infra/db/db';
+import {
+    claimFilterPhrases,
+    claimFilterViolations,
+    type ClaimFilterPhrase,
+    type ClaimFilterViolation,
+    type InsertClaimFilterPhrase,
+    type InsertClaimFilterViolation,
+} from '@shared/schema';
+import { and, desc, eq, gte, sql } from 'drizzle-orm';
+
+export type ClaimViolationStatus = ClaimFilterViolation['status'];
+
+export interface ClaimViolationDailyCount {
+    date: string; // YYYY-MM-DD
+    category: string;
+    total: number;
+    falsePositives: number;
+}
+
+export class ClaimsAuditRepository {
+    async insertViolations(rows: InsertClaimFilterViolation[]): Promise<number> {
+        if (rows.length === 0) return 0;
+        const inserted = await db.insert(claimFilterViolations).values(rows).returning({ id: claimFilterViolations.id });
+        return inserted.length;
+    }
+
+    async getViolation(id: string): Promise<ClaimFilterViolation | undefined> {
+        const [row] = await db.select().from(claimFilterViolations).where(eq(claimFilterViolations.id, id));
+        return row || undefined;
+    }
+
+    async listViolations(filters: { status?: ClaimViolationStatus; category?: string; sessionId?: string }, limit = 200): Promise<ClaimFilterViolation[]> {
+        return db
+            .select()
+            .from(claimFilterViolations)
+            .where(and(
+                filters.status ? eq(claimFilterViolations.status, filters.status) : undefined,
+                filters.category ? eq(claimFilterViolations.category, filters.category) : undefined,
+                filters.sessionId ? eq(claimFilterViolations.sessionId, filters.sessionId) : undefined,
+            ))
+            .orderBy(desc(claimFilterViolations.createdAt))
+            .limit(limit);
+    }
+
+    async review(
+        id: string,
+        updates: { status: ClaimViolationStatus; reviewNote: string | null; reviewedBy: string | null },
+    ): Promise<ClaimFilterViolation | undefined> {
+        const [row] = await db
+            .update(claimFilterViolations)
+            .set({ ...updates, reviewedAt: updates.status === 'open' ? null : new Date() })
+            .where(eq(claimFilterViolations.id, id))
+            .returning();
+        return row || undefined;
+    }
+
+    /** Violations per UTC day and category since `since` */
+    async countDaily(since: Date): Promise<ClaimViolationDailyCount[]> {
+        const rows = await db
+            .select({
+                date: sql<string>`to_char(${claimFilterViolations.createdAt}, 'YYYY-MM-DD')`,
+                category: claimFilterViolations.category,
+                total: sql<number>`count(*)::int`,
+                falsePositives: sql<number>`(count(*) filter (where ${claimFilterViolations.status} = 'false_positive'))::int`,
+            })
+            .from(claimFilterViolations)
+            .where(gte(claimFilterViolations.createdAt, since))
+            .groupBy(sql`to_char(${claimFilterViolations.createdAt}, 'YYYY-MM-DD')`, claimFilterViolations.category);
+        return rows.map(r => ({ ...r, total: Number(r.total), falsePositives: Number(r.falsePositives) }));
+    }
+
+    async listPhrases(activeOnly = false): Promise<ClaimFilterPhrase[]> {
+        return db
+            .select()
+            .from(claimFilterPhrases)
+            .where(activeOnly ? eq(claimFilterPhrases.active, true) : undefined)
+            .orderBy(desc(claimFilterPhrases.createdAt));
+    }
+
+    async insertPhrase(phrase: InsertClaimFilterPhrase): Promise<ClaimFilterPhrase> {
+        const [row] = await db.insert(claimFilterPhrases).values(phrase).returning();
+        return row;
+    }
+
+    async findPhrase(phrase: string, category: string): Promise<ClaimFilterPhrase | undefined> {
+        const [row] = await db
+            .select()
+            .from(claimFilterPhrases)
+            .where(and(
+                sql`lower(${claimFilterPhrases.phrase}) = ${phrase.toLowerCase()}`,
+                eq(claimFilterPhrases.category, category),
+            ));
+        return row || undefined;
+    }
+
+    async updatePhrase(
+        id: string,
+        updates: Partial<Pick<ClaimFilterPhrase, 'active' | 'severity' | 'rewriteTemplate'>>,
+    ): Promise<ClaimFilterPhrase | undefined> {
+        const [row] = await db
+            .update(claimFilterPhrases)
+            .set({ ...updates, updatedAt: new Date() })
+            .where(eq(claimFilterPhrases.id, id))
+            .returning();
+        return row || undefined;
+    }
+}
+
+export const claimsAuditRepository = new ClaimsAuditRepository();
@@ -0,0 +1,229 @@
+/**
+ * Claims filter audit log and review queue
+ *
+ * Every violation the claims filter raises on a chat reply is stored with its
+ * session, message, category, severity, what was matched and what replaced
+ * it. Admins triage them — confirmed or false positive — and promote new
+ * phrases into the filter's rule list (claims-filter.ts loads them as
+ * literal-match rules). Daily per-category counts feed the compliance
+ * trend charts.
+ */
+
+import type { ClaimFilterPhrase, ClaimFilterViolation, InsertClaimFilterViolation } from '@shared/schema';
+import {
+    CLAIM_CATEGORIES,
+    setPromotedClaimPhrases,
+    type ClaimCategory,
+    type ClaimsFilterResult,
+} from './claims-filter';
+import { claimsAuditRepository, type ClaimViolationDailyCount, type ClaimViolationStatus } from './claims-audit.repository';
+import { encryptField, decryptField } from '../../infra/security/fieldEncryption';
+import logger from '../../infra/logging/logger';
+
+// Characters kept either side of a match for the reviewer's excerpt
+const CONTEXT_RADIUS = 160;
+const MAX_TREND_DAYS = 365;
+
+export interface RecordClaimViolationsInput {
+    userId: string | null;
+    sessionId: string | null;
+    messageId: string | null;
+    result: ClaimsFilterResult;
+}
+
+export interface PromotePhraseInput {
+    phrase: string;
+    category: ClaimCategory;
+    severity: 'warning' | 'critical';
+    rewriteTemplate?: string | null;
+    sourceViolationId?: string | null;
+}
+
+export interface ClaimTrendDay {
+    date: string;
+    total: number;
+    falsePositives: number;
+    byCategory: Record<string, number>;
+}
+
+export interface ClaimCategoryTotal {
+    category: string;
+    total: number;
+    falsePositives: number;
+    falsePositiveRate: number;
+}
+
+export interface ClaimTrends {
+    days: ClaimTrendDay[];
+    categories: ClaimCategoryTotal[];
+}
+
+type ServiceError = { error: string };
+
+function excerpt(text: string, start: number, length: number): string {
+    const from = Math.max(0, start - CONTEXT_RADIUS);
+    const to = Math.min(text.length, start + length + CONTEXT_RADIUS);
+    return `${from > 0 ? '…' : ''}${text.slice(from, to).trim()}${to < text.length ? '…' : ''}`;
+}
+
+function safeDecrypt(value: string | null): string | null {
+    if (!value) return value;
+    try {
+        return decryptField(value);
+    } catch {
+        return '[unable to decrypt]';
+    }
+}
+
+/** Rows to store for one filter run; text fields from the reply are encrypted */
+export function toViolationRows(input: RecordClaimViolationsInput): InsertClaimFilterViolation[] {
+    const { result } = input;
+    return result.violations.map(v => {
+        // Record what the filter did to the reply, not what the severity
+        // implies: medication directives are rewritten at any severity.
+        const action = result.blocked ? 'blocked' : v.rewritten ? 'rewritten' : 'flagged';
+        return {
+            userId: input.userId,
+            sessionId: input.sessionId,
+            messageId: input.messageId,
+            category: v.category,
+            severity: v.severity,
+            action,
+            phraseId: v.phraseId ?? null,
+            originalText: encryptField(v.matchedPhrase),
+            rewrittenText: action === 'rewritten' ? v.rewrittenPhrase ?? null : null,
+            context: encryptField(excerpt(result.originalText, v.startIndex, v.matchedPhrase.length)),
+        };
+    });
+}
+
+/**
+ * Daily series and per-category totals over the last `days` days (UTC),
+ * with empty days filled in so charts have a continuous axis.
+ */
+export function buildClaimTrends(counts: ClaimViolationDailyCount[], days: number, now: Date = new Date()): ClaimTrends {
+    const byDate = new Map<string, ClaimTrendDay>();
+    for (let i = days - 1; i >= 0; i--) {
+        const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - i)).toISOString().slice(0, 10);
+        byDate.set(date, { date, total: 0, falsePositives: 0, byCategory: {} });
+    }
+
+    const totals = new Map<string, ClaimCategoryTotal>();
+    for (const row of counts) {
+        const day = byDate.get(row.date);
+        if (!day) continue;
+        day.total += row.total;
+        day.falsePositives += row.falsePositives;
+        day.byCategory[row.category] = (day.byCategory[row.category] || 0) + row.total;
+
+        const total = totals.get(row.category) ?? { category: row.category, total: 0, falsePositives: 0, falsePositiveRate: 0 };
+        total.total += row.total;
+        total.falsePositives += row.falsePositives;
+        totals.set(row.category, total);
+    }
+
+    const categories = Array.from(totals.values())
+        .map(t => ({ ...t, falsePositiveRate: t.total > 0 ? Math.round((t.falsePositives / t.total) * 1000) / 1000 : 0 }))
+        .sort((a, b) => b.total - a.total);
+    return { days: Array.from(byDate.values()), categories };
+}
+
+export class ClaimsAuditService {
+    /**
+     * Store the violations from one filter run. Best-effort: failures are
+     * logged, never thrown, so the audit log can't break a chat reply.
+     */
+    async recordViolations(input: RecordClaimViolationsInput): Promise<number> {
+        if (input.result.violations.length === 0) return 0;
+        try {
+            return await claimsAuditRepository.insertViolations(toViolationRows(input));
+        } catch (err) {
+            logger.error('Failed to record claims filter violations', {
+                sessionId: input.sessionId,
+                count: input.result.violations.length,
+                error: err,
+            });
+            return 0;
+        }
+    }
+
+    async listViolations(filters: { status?: ClaimViolationStatus; category?: string; sessionId?: string } = {}, limit?: number) {
+        const rows = await claimsAuditRepository.listViolations(filters, limit);
+        return rows.map(row => ({
+            ...row,
+            originalText: safeDecrypt(row.originalText) ?? '',
+            context: safeDecrypt(row.context),
+        }));
+    }
+
+    async reviewViolation(id: string, status: ClaimViolationStatus, note: string | null, adminId: string | null): Promise<ClaimFilterViolation | undefined> {
+        return claimsAuditRepository.review(id, { status, reviewNote: note, reviewedBy: adminId });
+    }
+
+    async getTrends(days = 30): Promise<ClaimTrends> {
+        const window = Math.min(Math.max(Math.floor(days) || 30, 1), MAX_TREND_DAYS);
+        const now = new Date();
+        const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - (window - 1)));
+        return buildClaimTrends(await claimsAuditRepository.countDaily(since), window, now);
+    }
+
+    /** Load the active promoted phrases into the claims filter */
+    async loadPromotedPhrases(): Promise<number> {
+        const phrases = await claimsAuditRepository.listPhrases(true);
+        setPromotedClaimPhrases(phrases.map(p => ({
+            id: p.id,
+            phrase: p.phrase,
+            category: p.category as ClaimCategory,
+            severity: p.severity,
+            rewriteTemplate: p.rewriteTemplate,
+        })));
+        return phrases.length;
+    }
+
+    async listPhrases(): Promise<ClaimFilterPhrase[]> {
+        return claimsAuditRepository.listPhrases();
+    }
+
+    /**
+     * Add a phrase to the filter's rule list. Promoting from a violation
+     * that is still open confirms it.
+     */
+    async promotePhrase(input: PromotePhraseInput, adminId: string | null): Promise<ClaimFilterPhrase | ServiceError> {
+        const phrase = input.phrase.trim().replace(/\s+/g, ' ');
+        if (!CLAIM_CATEGORIES.includes(input.category)) return { error: `Unknown claim category: ${input.category}` };
+        if (await claimsAuditRepository.findPhrase(phrase, input.category)) {
+            return { error: 'That phrase is already in the rule list for this category' };
+        }
+
+        const created = await claimsAuditRepository.insertPhrase({
+            phrase,
+            category: input.category,
+            severity: input.severity,
+            rewriteTemplate: input.rewriteTemplate?.trim() || null,
+            sourceViolationId: input.sourceViolationId ?? null,
+            createdBy: adminId,
+        });
+
+        if (input.sourceViolationId) {
+            const source = await claimsAuditRepository.getViolation(input.sourceViolationId);
+            if (source?.status === 'open') {
+                await claimsAuditRepository.review(source.id, { status: 'confirmed', reviewNote: `Promoted phrase "${phrase}"`, reviewedBy: adminId });
+            }
+        }
+
+        await this.loadPromotedPhrases();
+        logger.info('Promoted claims filter phrase', { phraseId: created.id, category: created.category, severity: created.severity });
+        return created;
+    }
+
+    async updatePhrase(
+        id: string,
+        updates: { active?: boolean; severity?: 'warning' | 'critical'; rewriteTemplate?: string | null },
+    ): Promise<ClaimFilterPhrase | undefined> {
+        const row = await claimsAuditRepository.updatePhrase(id, updates);
+        if (row) await this.loadPromotedPhrases();
+        return row;
+    }
+}
+
+export const claimsAuditService = new ClaimsAuditService();
@@ -29,6 +29,10 @@ export interface ClaimViolation {
   startIndex: number;
   /** Suggested rewrite (if applicable) */
   rewrittenPhrase?: string;
+  /** True when the filter actually replaced this match in filteredText */
+  rewritten?: boolean;
+  /** Admin-promoted phrase that caught it; unset for built-in rules */
+  phraseId?: string;
 }
 
 export type ClaimCategory =
@@ -39,6 +43,10 @@ export type ClaimCategory =
   | 'guarantee'            // "guaranteed to" / "clinically proven to cure"
   | 'dosage_override';     // "increase your dosage to" (outside formula context)
 
+export const CLAIM_CATEGORIES: ClaimCategory[] = [
+  'disease_claim', 'diagnosis', 'medication_directive', 'emergency_triage', 'guarantee', 'dosage_override',
+];
+
 export interface ClaimsFilterResult {
   /** Original text */
   originalText: string;
@@ -61,6 +69,8 @@ interface FilterRule {
   severity: 'warning' | 'critical';
   /** If provided, matched text is replaced with this. Use $MATCH for original. */
   rewriteTemplate?: string;
+  /** Set on rules compiled from admin-promoted phrases */
+  phraseId?: string;
 }
 
 const FILTER_RULES: FilterRule[] = [
@@ -133,6 +143,48 @@ const FILTER_RULES: FilterRule[] = [
   },
 ];
 
+// ── Promoted Phrases ────────────────────────────────────────────────────────
+// Phrases admins promote from the claims review queue (claim_filter_phrases).
+// They run after the built-in rules; claimsAuditService loads them at startup
+// and after every change. Literal text only — an admin-entered regex could
+// be catastrophically slow on a long response.
+
+export interface PromotedClaimPhrase {
+  id: string;
+  phrase: string;
+  category: ClaimCategory;
+  severity: 'warning' | 'critical';
+  rewriteTemplate?: string | null;
+}
+
+let promotedRules: FilterRule[] = [];
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Case-insensitive, whitespace-tolerant, whole-word match for a literal phrase */
+export function compilePromotedPhrase(phrase: string): RegExp {
+  const trimmed = phrase.trim();
+  const body = trimmed.split(/\s+/).map(escapeRegExp).join('\\s+');
+  const start = /^\w/.test(trimmed) ? '\\b' : '';
+  const end = /\w$/.test(trimmed) ? '\\b' : '';
+  return new RegExp(`${start}${body}${end}`, 'gi');
+}
+
+/** Replace the promoted phrase rules */
+export function setPromotedClaimPhrases(phrases: PromotedClaimPhrase[]): void {
+  promotedRules = phrases
+    .filter(p => p.phrase.trim().length > 0)
+    .map(p => ({
+      patterns: [compilePromotedPhrase(p.phrase)],
+      category: p.category,
+      severity: p.severity,
+      rewriteTemplate: p.rewriteTemplate || undefined,
+      phraseId: p.id,
+    }));
+}
+
+const activeRules = (): FilterRule[] => [...FILTER_RULES, ...promotedRules];
+
 // ── Allowlist: phrases that look like claims but are safe in context ──────
 const ALLOWLIST_PATTERNS: RegExp[] = [
   // "may help support" / "is designed to support" (structure-function OK)
@@ -168,7 +220,7 @@ export function filterAIOutputClaims(text: string): ClaimsFilterResult {
   const isInAllowedRange = (idx: number): boolean =>
     allowedRanges.some(([start, end]) => idx >= start && idx < end);
 
-  for (const rule of FILTER_RULES) {
+  for (const rule of activeRules()) {
     for (const pattern of rule.patterns) {
       // Reset lastIndex for global regexes
       const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
@@ -188,13 +240,17 @@ export function filterAIOutputClaims(text: string): ClaimsFilterResult {
         if (rule.rewriteTemplate) {
           violation.rewrittenPhrase = rule.rewriteTemplate;
         }
+        if (rule.phraseId) {
+          violation.phraseId = rule.phraseId;
+        }
 
         violations.push(violation);
 
         if (rule.severity === 'critical') {
           // For critical violations, we rewrite in-place
-          if (rule.rewriteTemplate) {
+          if (rule.rewriteTemplate && filteredText.includes(match[0])) {
             filteredText = filteredText.replace(match[0], rule.rewriteTemplate);
+            violation.rewritten = true;
           }
         }
       }
@@ -209,8 +265,9 @@ export function filterAIOutputClaims(text: string): ClaimsFilterResult {
   if (medicationDirectives.length > 0) {
     // Don't block, but ensure all directives are rewritten
     for (const v of medicationDirectives) {
-      if (v.rewrittenPhrase) {
+      if (v.rewrittenPhrase && filteredText.includes(v.matchedPhrase)) {
         filteredText = filteredText.replace(v.matchedPhrase, v.rewrittenPhrase);
+        v.rewritten = true;
       }
     }
   }
@@ -246,7 +303,7 @@ export function filterAIOutputClaims(text: string): ClaimsFilterResult {
  * Useful for lightweight pre-screening without full rewrite.
  */
 export function containsMedicalClaims(text: string): boolean {
-  for (const rule of FILTER_RULES) {
+  for (const rule of activeRules()) {
     for (const pattern of rule.patterns) {
       if (pattern.test(text)) {
         // Check it's not in an allowlisted context
@@ -12,6 +12,8 @@
  *     Creates DB record with nextShipmentDate = now + 8 weeks.
  *  2. Scheduler → processAutoShipRenewal(autoShipId)
  *     Gets fresh manufacturer quote, charges vault, creates order.
+ *     Declines mark the auto-ship past_due and open a dunning case; the
+ *     dunning scheduler calls back in here for retries.
  *  3. Formula change → syncFormulaPrice()
  *     Fetches new quote, updates DB record price.
  *  4. Scheduler (10 days pre-renewal) → refreshPreRenewalQuote()
@@ -28,8 +30,10 @@ import { manufacturerPricingService, type ManufacturerOrderCustomerInfo } from '
 import { notificationsService } from '../notifications/notifications.service';
 import { sendNotificationEmail, sendAdminOrderNotification } from '../../utils/emailService';
 import { epdGateway, isApproved } from './epd-gateway';
+import { dunningService } from './dunning.service';
+import type { DunningAttemptTrigger } from './dunning-policy';
 import logger from '../../infra/logging/logger';
-import type { AutoShipSubscription } from '@shared/schema';
+import type { AutoShipSubscription, Formula } from '@shared/schema';
 
 const SUPPLY_WEEKS = 8;
 const MEMBER_DISCOUNT = 0.85; // 15% discount for members
@@ -128,10 +132,13 @@ export class AutoShipService {
   // ──────────────────────────────────────────────────────────────
   // 2. PROCESS RENEWAL (called by scheduler when nextShipmentDate is due)
   // ──────────────────────────────────────────────────────────────
-  async processAutoShipRenewal(autoShipId: string): Promise<void> {
+  async processAutoShipRenewal(autoShipId: string, opts: { trigger?: DunningAttemptTrigger } = {}): Promise<void> {
+    const trigger = opts.trigger ?? 'renewal';
     const autoShip = await autoShipRepository.getById(autoShipId);
-    if (!autoShip || autoShip.status !== 'active') {
-      logger.warn('Auto-ship renewal skipped — not active', { autoShipId });
+    // past_due auto-ships are only charged by dunning retries, never by the regular renewal run
+    const chargeable = autoShip?.status === 'active' || (autoShip?.status === 'past_due' && trigger !== 'renewal');
+    if (!autoShip || !chargeable) {
+      logger.warn('Auto-ship renewal skipped — not active', { autoShipId, status: autoShip?.status, trigger });
       return;
     }
 
@@ -147,6 +154,7 @@ export class AutoShipService {
       logger.error('Auto-ship renewal: no payment vault ID', { autoShipId, userId: autoShip.userId });
       await autoShipRepository.update(autoShip.id, { status: 'paused' as any });
       await this.notifyAutoShipIssue(user, 'We couldn\'t process your auto-ship because no payment method is on file. Please update your payment method from your dashboard.');
+      await this.recordSkippedRetry(autoShip, trigger, 'No payment method on file');
       return;
     }
 
@@ -156,6 +164,7 @@ export class AutoShipService {
       logger.error('Auto-ship renewal: no active formula found', { userId: autoShip.userId, autoShipId });
       await autoShipRepository.update(autoShip.id, { status: 'paused' as any });
       await this.notifyAutoShipIssue(user, 'No active formula found for your auto-ship. We\'ve paused it until you set up a formula.');
+      await this.recordSkippedRetry(autoShip, trigger, 'No active formula');
       return;
     }
 
@@ -166,6 +175,18 @@ export class AutoShipService {
       });
       await autoShipRepository.update(autoShip.id, { status: 'paused' as any });
       await this.notifyAutoShipIssue(user, 'One or more ingredients in your formula are no longer available. Your auto-ship is paused until you update your formula. Visit your dashboard to chat with your AI practitioner for a quick update.');
+      await this.recordSkippedRetry(autoShip, trigger, 'Formula needs reformulation');
+      return;
+    }
+
+    // ── Block renewal if a safety re-screen found a critical warning ──
+    if (this.hasCriticalSafetyWarning(formula)) {
+      logger.warn('Auto-ship renewal blocked: formula has critical safety warnings', {
+        autoShipId, userId: autoShip.userId, formulaId: formula.id,
+      });
+      await autoShipRepository.update(autoShip.id, { status: 'paused' as any });
+      await this.notifyAutoShipIssue(user, 'Your formula has a critical safety warning based on your current health profile. Your auto-ship is paused until you update your formula. Visit your dashboard to review it with your AI practitioner.');
+      await this.recordSkippedRetry(autoShip, trigger, 'Formula has a critical safety warning');
       return;
     }
 
@@ -181,6 +202,7 @@ export class AutoShipService {
         autoShipId, userId: autoShip.userId, quoteAvailable: quote.available, reason: (quote as any).reason,
       });
       await this.notifyAutoShipIssue(user, 'We couldn\'t get a pricing quote for your formula. Our team has been notified and will follow up.');
+      await this.recordSkippedRetry(autoShip, trigger, 'Manufacturer quote unavailable');
       return;
     }
 
@@ -212,16 +234,30 @@ export class AutoShipService {
           autoShipId, userId: autoShip.userId,
           responsetext: result.responsetext, response_code: result.response_code,
         });
-        // Mark as past_due but don't cancel — scheduler will retry
-        await autoShipRepository.update(autoShip.id, { status: 'past_due' as any });
-        await this.notifyAutoShipIssue(user, `Your auto-ship payment was declined: ${result.responsetext}. Please update your payment method.`);
+        // Mark as past_due but don't cancel — dunning retries and reminds per policy
+        await autoShipRepository.update(autoShip.id, { status: 'past_due' });
+        await dunningService.recordFailedCharge({
+          kind: 'autoship', userId: autoShip.userId, subjectId: autoShip.id, amountCents: chargeCents,
+          responseCode: result.response_code, responseText: result.responsetext, trigger,
+        });
         return;
       }
 
       transactionId = result.transactionid;
     } catch (err) {
+      // No decline came back, so the card may have been charged. past_due keeps the renewal run
+      // off it, and the dunning case is held for an admin to reconcile instead of retried.
       logger.error('Auto-ship EPD charge error', { autoShipId, userId: autoShip.userId, error: err });
-      await autoShipRepository.update(autoShip.id, { status: 'past_due' as any });
+      await autoShipRepository.update(autoShip.id, { status: 'past_due' });
+      try {
+        await dunningService.recordInconclusiveAttempt({
+          kind: 'autoship', userId: autoShip.userId, subjectId: autoShip.id, amountCents: chargeCents,
+          reason: 'Gateway error', chargeMayHaveSucceeded: true, trigger,
+        });
+      } catch (dunningErr) {
+        logger.error('Auto-ship: failed to record inconclusive dunning attempt', { autoShipId, error: dunningErr });
+      }
+      await this.notifyAutoShipIssue(user, 'We couldn\'t confirm the payment for your auto-ship renewal, so we\'ve held this shipment while our team checks it with our payment processor. You won\'t be charged twice.');
       return;
     }
 
@@ -271,6 +307,15 @@ export class AutoShipService {
       amountCents: chargeCents, quoteId: quote.quoteId, transactionId,
     });
 
+    // Bookkeeping only — the customer has paid and the order exists, so this must never abort the renewal
+    try {
+      await dunningService.recordRecovery({
+        kind: 'autoship', subjectId: autoShip.id, amountCents: chargeCents, transactionId, trigger,
+      });
+    } catch (err) {
+      logger.error('Auto-ship: failed to record dunning recovery', { autoShipId, userId: autoShip.userId, transactionId, error: err });
+    }
+
     // ── Place manufacturer production order ──
     if (quote.quoteId) {
       let customerInfo: ManufacturerOrderCustomerInfo | undefined;
@@ -328,6 +373,7 @@ export class AutoShipService {
     const nextDate = new Date();
     nextDate.setDate(nextDate.getDate() + SUPPLY_WEEKS * 7);
     await autoShipRepository.update(autoShip.id, {
+      status: 'active',
       formulaId: formula.id,
       formulaVersion: formula.version,
       lastQuoteId: quote.quoteId,
@@ -598,6 +644,11 @@ export class AutoShipService {
     if (!autoShip) throw new Error('NO_AUTO_SHIP_FOUND');
     if (autoShip.status !== 'paused') throw new Error('AUTO_SHIP_NOT_PAUSED');
 
+    // A safety re-screen may have paused this auto-ship — don't let it resume
+    // while the current formula still carries a critical warning.
+    const formula = await formulasRepository.getCurrentFormulaByUser(userId);
+    if (formula && this.hasCriticalSafetyWarning(formula)) throw new Error('FORMULA_SAFETY_BLOCKED');
+
     const nextShipmentDate = new Date();
     nextShipmentDate.setDate(nextShipmentDate.getDate() + SUPPLY_WEEKS * 7);
 
@@ -711,6 +762,20 @@ export class AutoShipService {
   // ──────────────────────────────────────────────────────────────
   // HELPERS
   // ──────────────────────────────────────────────────────────────
+  private hasCriticalSafetyWarning(formula: Formula): boolean {
+    return (formula.safetyValidation?.warnings || []).some(w => w.severity === 'critical');
+  }
+
+  /** A dunning retry that stops before charging still uses up its retry slot */
+  private async recordSkippedRetry(autoShip: { id: string; userId: string }, trigger: DunningAttemptTrigger, reason: string): Promise<void> {
+    if (trigger === 'renewal') return;
+    try {
+      await dunningService.recordInconclusiveAttempt({ kind: 'autoship', userId: autoShip.userId, subjectId: autoShip.id, reason, trigger });
+    } catch (err) {
+      logger.warn('Auto-ship: failed to record skipped dunning retry', { autoShipId: autoShip.id, reason, error: err });
+    }
+  }
+
   private async notifyAutoShipIssue(user: { id: string; email: string; name: string | null }, message: string): Promise<void> {
     try {
       const frontendUrl = process.env.FRONTEND_URL || 'https://ones.health';
@@ -26,6 +26,8 @@ import { discountCodesService } from '../discount-codes/discount-codes.service';
 import { sendNotificationEmail } from '../../utils/emailService';
 import { sendAdminOrderNotification } from '../../utils/emailService';
 import { getFrontendUrl } from '../../utils/urlHelper';
+import { dunningService } from './dunning.service';
+import type { DunningAttemptTrigger } from './dunning-policy';
 
 type InternalSubscriptionStatus = 'active' | 'paused' | 'cancelled' | 'past_due';
 
@@ -93,6 +95,13 @@ export interface CheckoutResult {
   error?: string;
 }
 
+export interface UpdatePaymentMethodResult {
+  success: boolean;
+  error?: string;
+  /** Outcome of the immediate retry of each open dunning case */
+  retries: Array<{ caseId: string; kind: 'autoship' | 'membership'; status: 'open' | 'recovered' | 'paused' | 'closed' }>;
+}
+
 export interface BillingProvider {
   listBillingHistory(userId: string): Promise<BillingHistoryItem[]>;
   getInvoice(userId: string, invoiceId: string): Promise<BillingInvoice | null>;
@@ -113,7 +122,8 @@ export interface BillingProvider {
     resumedAt: string;
     status: 'active';
   }>;
-  processMembershipRenewal(userId: string): Promise<{ success: boolean; error?: string }>;
+  processMembershipRenewal(userId: string, opts?: { trigger?: DunningAttemptTrigger }): Promise<{ success: boolean; error?: string }>;
+  updatePaymentMethod(userId: string, paymentToken: string): Promise<UpdatePaymentMethodResult>;
   cancelOrder(userId: string, orderId: string): Promise<{ success: boolean; message: string }>;
   adminCancelOrder(params: { orderId: string; reason: string }): Promise<{ orderId: string; status: 'cancelled' }>;
   adminVoidOrder(params: { orderId: string; reason: string }): Promise<{ orderId: string; refundId: string; voidTransactionId: string }>;
@@ -727,23 +737,33 @@ class DatabaseBillingProvider implements BillingProvider {
 
   // ── Membership Renewal (called by scheduler) ─────────────────────────
 
-  async processMembershipRenewal(userId: string): Promise<{ success: boolean; error?: string }> {
+  async processMembershipRenewal(
+    userId: string,
+    opts: { trigger?: DunningAttemptTrigger } = {},
+  ): Promise<{ success: boolean; error?: string }> {
+    const trigger = opts.trigger ?? 'renewal';
     const user = await usersRepository.getUser(userId);
     if (!user) return { success: false, error: 'USER_NOT_FOUND' };
 
     const subscription = await usersRepository.getSubscription(userId);
-    if (!subscription || subscription.status !== 'active') {
+    // past_due memberships are only charged by dunning retries, never by the regular renewal run
+    const chargeable = subscription?.status === 'active' || (subscription?.status === 'past_due' && trigger !== 'renewal');
+    if (!subscription || !chargeable) {
       return { success: false, error: 'NO_ACTIVE_SUBSCRIPTION' };
     }
 
     const vaultId = user.paymentVaultId;
-    if (!vaultId) return { success: false, error: 'NO_PAYMENT_METHOD' };
+    if (!vaultId) {
+      await this.recordInconclusiveMembershipRetry(userId, subscription.id, trigger, { reason: 'No payment method on file' });
+      return { success: false, error: 'NO_PAYMENT_METHOD' };
+    }
 
     const membershipPriceCents = user.membershipPriceCents || 900;
     const amount = (membershipPriceCents / 100).toFixed(2);
 
+    let result: EpdTransactionResponse;
     try {
-      const result = await epdGateway.chargeVault({
+      result = await epdGateway.chargeVault({
         customer_vault_id: vaultId,
         amount,
         orderid: `ones-membership-${userId.slice(0, 8)}-${Date.now()}`,
@@ -753,36 +773,141 @@ class DatabaseBillingProvider implements BillingProvider {
         initial_transaction_id: user.initialTransactionId || undefined,
         billing_method: 'recurring',
       });
-
-      if (!isApproved(result)) {
-        logger.warn('Membership renewal declined', {
-          userId, responsetext: result.responsetext, response_code: result.response_code,
+    } catch (err) {
+      // No decline came back, so the card may have been charged. past_due keeps the renewal run
+      // off it, and the dunning case is held for an admin to reconcile instead of retried.
+      logger.error('Membership renewal error', { userId, error: err });
+      try {
+        await this.upsertInternalSubscription(userId, {
+          plan: subscription.plan as any || 'monthly',
+          status: 'past_due',
+          paymentVaultId: vaultId,
+          renewsAt: subscription.renewsAt,
         });
+      } catch (updateErr) {
+        logger.error('Membership renewal: failed to hold subscription after gateway error', { userId, error: updateErr });
+      }
+      await this.recordInconclusiveMembershipRetry(userId, subscription.id, trigger, {
+        reason: 'Gateway error', amountCents: membershipPriceCents, chargeMayHaveSucceeded: true,
+      });
+      return { success: false, error: 'PAYMENT_PROCESSING_ERROR' };
+    }
+
+    if (!isApproved(result)) {
+      logger.warn('Membership renewal declined', {
+        userId, responsetext: result.responsetext, response_code: result.response_code,
+      });
+      try {
         await this.upsertInternalSubscription(userId, {
           plan: subscription.plan as any || 'monthly',
           status: 'past_due',
           paymentVaultId: vaultId,
           renewsAt: subscription.renewsAt,
         });
-        return { success: false, error: `Payment declined: ${result.responsetext}` };
+        await dunningService.recordFailedCharge({
+          kind: 'membership', userId, subjectId: subscription.id, amountCents: membershipPriceCents,
+          responseCode: result.response_code, responseText: result.responsetext, trigger,
+        });
+      } catch (err) {
+        logger.error('Membership renewal: failed to record declined charge', { userId, error: err });
       }
+      return { success: false, error: `Payment declined: ${result.responsetext}` };
+    }
 
-      const newRenewsAt = new Date();
-      newRenewsAt.setMonth(newRenewsAt.getMonth() + 1);
+    // The member has paid from here on: bookkeeping failures are logged, never turned into a past_due
+    const newRenewsAt = new Date();
+    newRenewsAt.setMonth(newRenewsAt.getMonth() + 1);
 
+    try {
       await this.upsertInternalSubscription(userId, {
         plan: subscription.plan as any || 'monthly',
         status: 'active',
         paymentVaultId: vaultId,
         renewsAt: newRenewsAt,
       });
+    } catch (err) {
+      logger.error('Membership renewal charged but subscription update failed', {
+        userId, transactionId: result.transactionid, error: err,
+      });
+    }
 
-      logger.info('Membership renewed', { userId, transactionId: result.transactionid, amount });
-      return { success: true };
+    try {
+      await dunningService.recordRecovery({
+        kind: 'membership', subjectId: subscription.id, amountCents: membershipPriceCents,
+        transactionId: result.transactionid, trigger,
+      });
     } catch (err) {
-      logger.error('Membership renewal error', { userId, error: err });
-      return { success: false, error: 'PAYMENT_PROCESSING_ERROR' };
+      logger.error('Membership renewal: failed to record dunning recovery', {
+        userId, transactionId: result.transactionid, error: err,
+      });
+    }
+
+    logger.info('Membership renewed', { userId, transactionId: result.transactionid, amount, trigger });
+    return { success: true };
+  }
+
+  /**
+   * A charge attempt that ended without a decline; never throws. Skipped
+   * regular renewals aren't recorded, but a gateway error always is.
+   */
+  private async recordInconclusiveMembershipRetry(
+    userId: string,
+    subscriptionId: string,
+    trigger: DunningAttemptTrigger,
+    details: { reason: string; amountCents?: number; chargeMayHaveSucceeded?: boolean },
+  ): Promise<void> {
+    if (trigger === 'renewal' && !details.chargeMayHaveSucceeded) return;
+    try {
+      await dunningService.recordInconclusiveAttempt({ kind: 'membership', userId, subjectId: subscriptionId, trigger, ...details });
+    } catch (err) {
+      logger.warn('Membership renewal: failed to record inconclusive dunning attempt', { subscriptionId, error: err });
+    }
+  }
+
+  // ── Payment Method Update ───────────────────────────────────────────
+
+  /**
+   * Replace the card in the user's EPD vault (or create a vault entry) from a
+   * Collect.js token, then immediately retry any failed recurring charges.
+   */
+  async updatePaymentMethod(userId: string, paymentToken: string): Promise<UpdatePaymentMethodResult> {
+    const user = await usersRepository.getUser(userId);
+    if (!user) throw new Error('USER_NOT_FOUND');
+
+    let vaultId = user.paymentVaultId;
+    if (vaultId) {
+      const result = await epdGateway.updateVault(vaultId, { payment_token: paymentToken });
+      if (!isApproved(result)) {
+        return { success: false, error: result.responsetext || 'Card could not be saved', retries: [] };
+      }
+    } else {
+      const result = await epdGateway.addToVault({
+        payment_token: paymentToken,
+        first_name: user.name?.split(' ')[0] || undefined,
+        last_name: user.name?.split(' ').slice(1).join(' ') || undefined,
+        email: user.email,
+      });
+      if (!isApproved(result) || !result.customer_vault_id) {
+        return { success: false, error: result.responsetext || 'Card could not be saved', retries: [] };
+      }
+      vaultId = result.customer_vault_id;
+      await usersRepository.updateUser(userId, { paymentVaultId: vaultId });
+      try {
+        await usersRepository.createPaymentMethodRef({ userId, paymentVaultId: vaultId, brand: null, last4: null });
+      } catch (err) {
+        logger.warn('Failed to save payment method ref', { userId, error: err });
+      }
+    }
+
+    const subscription = await usersRepository.getSubscription(userId);
+    if (subscription && subscription.paymentVaultId !== vaultId) {
+      await usersRepository.updateSubscription(userId, { paymentVaultId: vaultId });
     }
+
+    logger.info('Payment method updated', { userId, vaultId });
+
+    const retries = await dunningService.retryOpenCasesForUser(userId, 'card_update');
+    return { success: true, retries };
   }
 
   // ── Order Cancellation ──────────────────────────────────────────────
@@ -1492,7 +1617,8 @@ export class BillingService {
   processCheckout(userId: string, payload: CheckoutPayload, req?: Request) { return this.provider.processCheckout(userId, payload, req); }
   cancelSubscription(userId: string, subscriptionId: string) { return this.provider.cancelSubscription(userId, subscriptionId); }
   resumeSubscription(userId: string, subscriptionId: string) { return this.provider.resumeSubscription(userId, subscriptionId); }
-  processMembershipRenewal(userId: string) { return this.provider.processMembershipRenewal(userId); }
+  processMembershipRenewal(userId: string, opts?: { trigger?: DunningAttemptTrigger }) { return this.provider.processMembershipRenewal(userId, opts); }
+  updatePaymentMethod(userId: string, paymentToken: string) { return this.provider.updatePaymentMethod(userId, paymentToken); }
   cancelOrder(userId: string, orderId: string) { return this.provider.cancelOrder(userId, orderId); }
   adminCancelOrder(params: { orderId: string; reason: string }) { return this.provider.adminCancelOrder(params); }
   adminVoidOrder(params: { orderId: string; reason: string }) { return this.provider.adminVoidOrder(params); }
@@ -0,0 +1,128 @@
+/**
+ * Dunning Policy — pure retry / reminder rules for failed recurring charges
+ * ────────────────────────────────────────────────────────────────
+ * No I/O here: the dunning service feeds in the gateway response and the
+ * case timeline, and these helpers decide whether and when to retry, when
+ * the grace period ends and which reminder the customer should get next.
+ *
+ * Decline classification follows the EPD (NMI) response codes:
+ *  - HARD declines (lost/stolen, closed account, invalid card, expired card,
+ *    "do not honor / stop recurring") will not succeed on retry — the customer
+ *    has to update their card, so no automatic retries are scheduled.
+ *  - SOFT declines (insufficient funds, generic decline, processor errors)
+ *    are retried on the configured day offsets from the first failure.
+ * ────────────────────────────────────────────────────────────────
+ */
+
+import { z } from 'zod';
+
+export type DunningKind = 'autoship' | 'membership';
+export type DeclineCategory = 'hard' | 'soft';
+export type DunningAttemptTrigger = 'renewal' | 'scheduled_retry' | 'card_update' | 'manual';
+export type ReminderStage = 'first_notice' | 'retry_failed' | 'final_notice' | 'paused' | 'recovered';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const dunningPolicySchema = z.object({
+  /** Day offsets from the first failed charge on which soft declines are retried. */
+  retryScheduleDays: z.array(z.number().int().min(1).max(60)).max(8)
+    .refine((days) => days.every((d, i) => i === 0 || d > days[i - 1]), 'Retry days must be strictly increasing'),
+  /** Days after the first failure before the auto-ship / membership is paused. */
+  graceDays: z.number().int().min(1).max(60),
+  /** How many days before the grace period ends the final notice goes out. */
+  finalNoticeDays: z.number().int().min(0).max(14),
+  /** Escalate reminders to SMS (for users who opted into billing texts). */
+  smsReminders: z.boolean(),
+}).refine(
+  (p) => p.retryScheduleDays.length === 0 || p.retryScheduleDays[p.retryScheduleDays.length - 1] <= p.graceDays,
+  { message: 'The last retry must fall inside the grace period', path: ['graceDays'] },
+);
+
+export type DunningPolicy = z.infer<typeof dunningPolicySchema>;
+
+export const DEFAULT_DUNNING_POLICY: DunningPolicy = {
+  retryScheduleDays: [1, 3, 5, 7],
+  graceDays: 10,
+  finalNoticeDays: 2,
+  smsReminders: true,
+};
+
+/** Merge a stored (possibly partial or stale) policy over the defaults; invalid input falls back to defaults. */
+export function resolveDunningPolicy(stored: unknown): DunningPolicy {
+  if (!stored || typeof stored !== 'object') return DEFAULT_DUNNING_POLICY;
+  const parsed = dunningPolicySchema.safeParse({ ...DEFAULT_DUNNING_POLICY, ...(stored as Record<string, unknown>) });
+  return parsed.success ? parsed.data : DEFAULT_DUNNING_POLICY;
+}
+
+// Issuer says the card itself is unusable — retrying only racks up declines.
+const HARD_DECLINE_CODES = new Set([
+  '220', // Incorrect payment information
+  '221', // No such card issuer
+  '222', // No card number on file with issuer
+  '223', // Expired card
+  '224', // Invalid expiration date
+  '225', // Invalid card security code
+  '240', // Call issuer for further information
+  '250', // Pick up card
+  '251', // Lost card
+  '252', // Stolen card
+  '253', // Fraudulent card
+  '261', // Declined — stop all recurring payments
+  '262', // Declined — stop this recurring program
+  '263', // Declined — update cardholder data available
+]);
+
+const HARD_DECLINE_TEXT = /closed account|account closed|lost|stolen|pick up|fraud|stop (all )?recurring|expired card|invalid card/i;
+
+/**
+ * Classify a declined or failed charge. Missing codes (network errors, gateway
+ * timeouts) are soft — the card may be fine.
+ */
+export function classifyDecline(responseCode?: string | null, responseText?: string | null): DeclineCategory {
+  if (responseCode && HARD_DECLINE_CODES.has(String(responseCode))) return 'hard';
+  if (responseText && HARD_DECLINE_TEXT.test(responseText)) return 'hard';
+  return 'soft';
+}
+
+export function computeGraceEndsAt(policy: DunningPolicy, firstFailedAt: Date): Date {
+  return new Date(firstFailedAt.getTime() + policy.graceDays * DAY_MS);
+}
+
+/**
+ * When to retry after `failedAttempts` failures (the renewal charge counts as
+ * the first). Null means no further automatic retry: hard decline, schedule
+ * exhausted, or the slot falls after the grace period.
+ */
+export function computeNextRetryAt(
+  policy: DunningPolicy,
+  firstFailedAt: Date,
+  failedAttempts: number,
+  category: DeclineCategory,
+): Date | null {
+  if (category === 'hard') return null;
+  const offset = policy.retryScheduleDays[failedAttempts - 1];
+  if (offset === undefined) return null;
+  const at = new Date(firstFailedAt.getTime() + offset * DAY_MS);
+  return at <= computeGraceEndsAt(policy, firstFailedAt) ? at : null;
+}
+
+/** Reminder to send right after a failed attempt. */
+export function reminderStageAfterFailure(failedAttempts: number, nextRetryAt: Date | null): ReminderStage {
+  if (failedAttempts <= 1) return 'first_notice';
+  return nextRetryAt ? 'retry_failed' : 'final_notice';
+}
+
+/** True once the case is inside the final-notice window and hasn't had one yet. */
+export function isFinalNoticeDue(
+  policy: DunningPolicy,
+  dunningCase: { graceEndsAt: Date; lastReminderStage: string | null },
+  now: Date = new Date(),
+): boolean {
+  if (dunningCase.lastReminderStage === 'final_notice') return false;
+  return dunningCase.graceEndsAt.getTime() - now.getTime() <= policy.finalNoticeDays * DAY_MS;
+}
+
+/** SMS is reserved for escalated reminders — the first notice is email + in-app only. */
+export function shouldEscalateToSms(policy: DunningPolicy, stage: ReminderStage): boolean {
+  return policy.smsReminders && (stage === 'retry_failed' || stage === 'final_notice' || stage === 'paused');
+}
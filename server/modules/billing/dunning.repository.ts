@@ -0,0 +1,130 @@
+import { db } from '../../infra/db/db';
+import {
+  dunningCases,
+  dunningAttempts,
+  users,
+  type DunningCase,
+  type InsertDunningCase,
+  type DunningAttempt,
+  type InsertDunningAttempt,
+} from '@shared/schema';
+import { eq, and, lte, gte, desc, count, sum, isNotNull } from 'drizzle-orm';
+
+export type DunningCaseStatus = DunningCase['status'];
+
+export interface DunningCaseWithUser extends DunningCase {
+  userEmail: string | null;
+  userName: string | null;
+}
+
+export class DunningRepository {
+  async getCase(id: string): Promise<DunningCase | undefined> {
+    const [row] = await db.select().from(dunningCases).where(eq(dunningCases.id, id));
+    return row || undefined;
+  }
+
+  async getOpenCase(kind: DunningCase['kind'], subjectId: string): Promise<DunningCase | undefined> {
+    const [row] = await db
+      .select()
+      .from(dunningCases)
+      .where(and(
+        eq(dunningCases.kind, kind),
+        eq(dunningCases.subjectId, subjectId),
+        eq(dunningCases.status, 'open'),
+      ))
+      .orderBy(desc(dunningCases.createdAt))
+      .limit(1);
+    return row || undefined;
+  }
+
+  async createCase(data: InsertDunningCase): Promise<DunningCase> {
+    const [row] = await db.insert(dunningCases).values(data).returning();
+    return row;
+  }
+
+  async updateCase(id: string, updates: Partial<InsertDunningCase>): Promise<DunningCase | undefined> {
+    const [row] = await db
+      .update(dunningCases)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(dunningCases.id, id))
+      .returning();
+    return row || undefined;
+  }
+
+  async createAttempt(data: InsertDunningAttempt): Promise<DunningAttempt> {
+    const [row] = await db.insert(dunningAttempts).values(data).returning();
+    return row;
+  }
+
+  async listAttempts(caseId: string): Promise<DunningAttempt[]> {
+    return db
+      .select()
+      .from(dunningAttempts)
+      .where(eq(dunningAttempts.caseId, caseId))
+      .orderBy(dunningAttempts.attemptNumber);
+  }
+
+  /** Open cases whose next scheduled retry is due */
+  async listDueRetries(now: Date = new Date()): Promise<DunningCase[]> {
+    return db
+      .select()
+      .from(dunningCases)
+      .where(and(
+        eq(dunningCases.status, 'open'),
+        isNotNull(dunningCases.nextRetryAt),
+        lte(dunningCases.nextRetryAt, now),
+      ));
+  }
+
+  async listOpenCases(): Promise<DunningCase[]> {
+    return db.select().from(dunningCases).where(eq(dunningCases.status, 'open'));
+  }
+
+  async listOpenCasesByUser(userId: string): Promise<DunningCase[]> {
+    return db
+      .select()
+      .from(dunningCases)
+      .where(and(eq(dunningCases.userId, userId), eq(dunningCases.status, 'open')))
+      .orderBy(desc(dunningCases.firstFailedAt));
+  }
+
+  async listCases(filters: { status?: DunningCaseStatus; limit?: number } = {}): Promise<DunningCaseWithUser[]> {
+    const rows = await db
+      .select({ dunningCase: dunningCases, userEmail: users.email, userName: users.name })
+      .from(dunningCases)
+      .leftJoin(users, eq(users.id, dunningCases.userId))
+      .where(filters.status ? eq(dunningCases.status, filters.status) : undefined)
+      .orderBy(desc(dunningCases.firstFailedAt))
+      .limit(filters.limit ?? 100);
+    return rows.map((r) => ({ ...r.dunningCase, userEmail: r.userEmail, userName: r.userName }));
+  }
+
+  /** Case counts and amounts by kind + status for cases opened since `since` */
+  async countCasesByStatus(since: Date) {
+    return db
+      .select({
+        kind: dunningCases.kind,
+        status: dunningCases.status,
+        cases: count(),
+        amountCents: sum(dunningCases.amountCents),
+      })
+      .from(dunningCases)
+      .where(gte(dunningCases.firstFailedAt, since))
+      .groupBy(dunningCases.kind, dunningCases.status);
+  }
+
+  /** Attempt counts by trigger + outcome for attempts made since `since` */
+  async countAttemptsByTrigger(since: Date) {
+    return db
+      .select({
+        trigger: dunningAttempts.trigger,
+        outcome: dunningAttempts.outcome,
+        attempts: count(),
+      })
+      .from(dunningAttempts)
+      .where(gte(dunningAttempts.attemptedAt, since))
+      .groupBy(dunningAttempts.trigger, dunningAttempts.outcome);
+  }
+}
+
+export const dunningRepository = new DunningRepository();
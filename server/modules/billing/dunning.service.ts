@@ -0,0 +1,539 @@
+/**
+ * Dunning Service — recovery of failed auto-ship and membership charges
+ * ────────────────────────────────────────────────────────────────
+ * Flow:
+ *  1. A renewal charge is declined → recordFailedCharge()
+ *     Opens (or extends) a dunning case, logs the attempt, classifies the
+ *     decline and schedules the next retry per the dunning policy.
+ *  2. Dunning scheduler (daily) → runDunningCycle()
+ *     Retries due cases, sends the final notice shortly before the grace
+ *     period ends, and pauses the auto-ship / membership once it has.
+ *  3. Customer updates their card → retryOpenCasesForUser('card_update')
+ *     Retries immediately instead of waiting for the next slot.
+ *  4. Any approved charge → recordRecovery() closes the case as recovered.
+ *  5. A retry that stops before the gateway declines (no quote, no card)
+ *     → recordInconclusiveAttempt() moves the case to its next retry slot.
+ *  6. A gateway error on any charge → recordInconclusiveAttempt() with
+ *     chargeMayHaveSucceeded, opening a case if needed and holding it for an
+ *     admin to reconcile: no retries, reminders or grace-period pause.
+ *
+ * Reminders escalate with the case: the first notice is email + in-app,
+ * later ones add SMS. Every reminder links to the card-update form.
+ * ────────────────────────────────────────────────────────────────
+ */
+
+import { dunningRepository, type DunningCaseStatus } from './dunning.repository';
+import { autoShipRepository } from './autoship.repository';
+import { usersRepository } from '../users/users.repository';
+import { systemRepository } from '../system/system.repository';
+import { notificationsService } from '../notifications/notifications.service';
+import { sendNotificationEmail } from '../../utils/emailService';
+import { sendNotificationSms } from '../../utils/smsService';
+import { getFrontendUrl } from '../../utils/urlHelper';
+import logger from '../../infra/logging/logger';
+import {
+  DEFAULT_DUNNING_POLICY,
+  classifyDecline,
+  computeGraceEndsAt,
+  computeNextRetryAt,
+  dunningPolicySchema,
+  isFinalNoticeDue,
+  reminderStageAfterFailure,
+  resolveDunningPolicy,
+  shouldEscalateToSms,
+  type DunningAttemptTrigger,
+  type DunningKind,
+  type DunningPolicy,
+  type ReminderStage,
+} from './dunning-policy';
+import type { DunningCase } from '@shared/schema';
+
+export const DUNNING_POLICY_SETTING_KEY = 'dunning_policy';
+export const CARD_UPDATE_PATH = '/dashboard/orders?tab=billing&update_card=1';
+
+export interface FailedChargeInput {
+  kind: DunningKind;
+  userId: string;
+  subjectId: string;
+  amountCents: number | null;
+  responseCode?: string | null;
+  responseText?: string | null;
+  trigger: DunningAttemptTrigger;
+}
+
+export interface RecoveredChargeInput {
+  kind: DunningKind;
+  subjectId: string;
+  amountCents: number | null;
+  transactionId?: string | null;
+  trigger: DunningAttemptTrigger;
+}
+
+export interface InconclusiveAttemptInput {
+  kind: DunningKind;
+  userId: string;
+  subjectId: string;
+  reason: string;
+  amountCents?: number | null;
+  /** The gateway call errored out, so the card may have been charged */
+  chargeMayHaveSucceeded?: boolean;
+  trigger: DunningAttemptTrigger;
+}
+
+export interface DunningCycleSummary {
+  retried: number;
+  recovered: number;
+  stillFailing: number;
+  closed: number;
+  finalNotices: number;
+  paused: number;
+}
+
+const KIND_LABEL: Record<DunningKind, string> = {
+  autoship: 'auto-ship',
+  membership: 'membership',
+};
+
+export class DunningService {
+  // ── Policy ────────────────────────────────────────────────────────────
+
+  async getPolicy(): Promise<DunningPolicy> {
+    try {
+      const setting = await systemRepository.getAppSetting(DUNNING_POLICY_SETTING_KEY);
+      return resolveDunningPolicy(setting?.value);
+    } catch (err) {
+      logger.warn('Failed to load dunning policy, using defaults', { error: err });
+      return DEFAULT_DUNNING_POLICY;
+    }
+  }
+
+  /** Validate and store a new policy. Throws a ZodError on invalid input. */
+  async updatePolicy(input: unknown, updatedBy?: string | null): Promise<DunningPolicy> {
+    const policy = dunningPolicySchema.parse(input);
+    await systemRepository.upsertAppSetting(DUNNING_POLICY_SETTING_KEY, policy, updatedBy);
+    return policy;
+  }
+
+  // ── Charge outcomes (called from the renewal paths) ───────────────────
+
+  async recordFailedCharge(input: FailedChargeInput): Promise<DunningCase> {
+    const policy = await this.getPolicy();
+    const now = new Date();
+    const category = classifyDecline(input.responseCode, input.responseText);
+
+    let dunningCase = await dunningRepository.getOpenCase(input.kind, input.subjectId);
+    if (!dunningCase) {
+      dunningCase = await dunningRepository.createCase({
+        userId: input.userId,
+        kind: input.kind,
+        subjectId: input.subjectId,
+        amountCents: input.amountCents,
+        declineCategory: category,
+        firstFailedAt: now,
+        graceEndsAt: computeGraceEndsAt(policy, now),
+      });
+    }
+
+    const attemptCount = dunningCase.attemptCount + 1;
+    await dunningRepository.createAttempt({
+      caseId: dunningCase.id,
+      attemptNumber: attemptCount,
+      trigger: input.trigger,
+      outcome: input.responseCode || input.responseText ? 'declined' : 'error',
+      declineCategory: category,
+      amountCents: input.amountCents,
+      responseCode: input.responseCode ?? null,
+      responseText: input.responseText ?? null,
+    });
+
+    const nextRetryAt = computeNextRetryAt(policy, dunningCase.firstFailedAt, attemptCount, category);
+    const stage = reminderStageAfterFailure(attemptCount, nextRetryAt);
+
+    const updated = await dunningRepository.updateCase(dunningCase.id, {
+      attemptCount,
+      declineCategory: category,
+      amountCents: input.amountCents ?? dunningCase.amountCents,
+      lastResponseCode: input.responseCode ?? null,
+      lastResponseText: input.responseText ?? null,
+      nextRetryAt,
+      // A decline settles any earlier gateway error: the card was not charged
+      awaitingReconciliation: false,
+    }) ?? dunningCase;
+
+    logger.info('Dunning: charge failure recorded', {
+      caseId: updated.id, kind: input.kind, subjectId: input.subjectId,
+      attemptCount, category, trigger: input.trigger, nextRetryAt,
+    });
+
+    return this.sendReminder(updated, stage, policy);
+  }
+
+  /** Close the open case (if any) for a subject whose charge just went through. */
+  async recordRecovery(input: RecoveredChargeInput): Promise<DunningCase | null> {
+    const dunningCase = await dunningRepository.getOpenCase(input.kind, input.subjectId);
+    if (!dunningCase) return null;
+
+    const attemptCount = dunningCase.attemptCount + 1;
+    await dunningRepository.createAttempt({
+      caseId: dunningCase.id,
+      attemptNumber: attemptCount,
+      trigger: input.trigger,
+      outcome: 'approved',
+      amountCents: input.amountCents,
+      transactionId: input.transactionId ?? null,
+    });
+
+    const updated = await dunningRepository.updateCase(dunningCase.id, {
+      status: 'recovered',
+      attemptCount,
+      nextRetryAt: null,
+      resolvedAt: new Date(),
+      recoveredTransactionId: input.transactionId ?? null,
+    }) ?? dunningCase;
+
+    logger.info('Dunning: charge recovered', {
+      caseId: updated.id, kind: input.kind, subjectId: input.subjectId, attemptCount, trigger: input.trigger,
+    });
+
+    return this.sendReminder(updated, 'recovered', await this.getPolicy());
+  }
+
+  /**
+   * Log a charge attempt that ended without a decline. Stopped before
+   * charging (no quote, no card): the open case, if any, moves on to its next
+   * retry slot. Gateway error (`chargeMayHaveSucceeded`): a case is opened if
+   * there isn't one and held for an admin to reconcile against the gateway —
+   * nothing retries it, so nobody is charged twice. Nothing is sent to the
+   * customer here.
+   */
+  async recordInconclusiveAttempt(input: InconclusiveAttemptInput): Promise<DunningCase | null> {
+    const policy = await this.getPolicy();
+    let dunningCase = await dunningRepository.getOpenCase(input.kind, input.subjectId);
+    if (!dunningCase) {
+      if (!input.chargeMayHaveSucceeded) return null;
+      const now = new Date();
+      dunningCase = await dunningRepository.createCase({
+        userId: input.userId,
+        kind: input.kind,
+        subjectId: input.subjectId,
+        amountCents: input.amountCents ?? null,
+        declineCategory: 'soft',
+        firstFailedAt: now,
+        graceEndsAt: computeGraceEndsAt(policy, now),
+      });
+    }
+
+    const attemptCount = dunningCase.attemptCount + 1;
+    await dunningRepository.createAttempt({
+      caseId: dunningCase.id,
+      attemptNumber: attemptCount,
+      trigger: input.trigger,
+      outcome: 'error',
+      declineCategory: dunningCase.declineCategory,
+      amountCents: input.amountCents ?? dunningCase.amountCents,
+      responseText: input.reason,
+    });
+
+    const nextRetryAt = input.chargeMayHaveSucceeded
+      ? null
+      : computeNextRetryAt(policy, dunningCase.firstFailedAt, attemptCount, dunningCase.declineCategory);
+
+    const updated = await dunningRepository.updateCase(dunningCase.id, {
+      attemptCount,
+      nextRetryAt,
+      ...(input.chargeMayHaveSucceeded ? { awaitingReconciliation: true, lastResponseText: input.reason } : {}),
+    }) ?? dunningCase;
+
+    logger.warn('Dunning: charge attempt ended without a result', {
+      caseId: updated.id, kind: input.kind, subjectId: input.subjectId,
+      attemptCount, reason: input.reason, trigger: input.trigger, nextRetryAt,
+    });
+    return updated;
+  }
+
+  // ── Retries ───────────────────────────────────────────────────────────
+
+  /**
+   * Re-run the renewal for a case. Returns the case status afterwards, or
+   * 'closed' when the subject is no longer past due (cancelled, paused or
+   * settled elsewhere) and the case was closed instead of charging.
+   */
+  async retryCase(dunningCase: DunningCase, trigger: DunningAttemptTrigger): Promise<DunningCaseStatus> {
+    if (!(await this.isSubjectPastDue(dunningCase))) {
+      await dunningRepository.updateCase(dunningCase.id, { status: 'closed', nextRetryAt: null, resolvedAt: new Date() });
+      logger.info('Dunning: case closed — subject no longer past due', { caseId: dunningCase.id, kind: dunningCase.kind });
+      return 'closed';
+    }
+
+    // Imported lazily: the renewal services record their outcome back through this service
+    if (dunningCase.kind === 'autoship') {
+      const { autoShipService } = await import('./autoship.service');
+      await autoShipService.processAutoShipRenewal(dunningCase.subjectId, { trigger });
+    } else {
+      const { billingService } = await import('./billing.service');
+      await billingService.processMembershipRenewal(dunningCase.userId, { trigger });
+    }
+
+    const after = await dunningRepository.getCase(dunningCase.id);
+    return after?.status ?? 'open';
+  }
+
+  /**
+   * Retry every open case for a user right away — used after a card update.
+   * Cases awaiting reconciliation are left for an admin.
+   */
+  async retryOpenCasesForUser(userId: string, trigger: DunningAttemptTrigger = 'card_update') {
+    const cases = (await dunningRepository.listOpenCasesByUser(userId)).filter((c) => !c.awaitingReconciliation);
+    const results: Array<{ caseId: string; kind: DunningKind; status: DunningCaseStatus }> = [];
+    for (const dunningCase of cases) {
+      try {
+        results.push({ caseId: dunningCase.id, kind: dunningCase.kind, status: await this.retryCase(dunningCase, trigger) });
+      } catch (err) {
+        logger.error('Dunning: retry after card update failed', { caseId: dunningCase.id, userId, error: err });
+        results.push({ caseId: dunningCase.id, kind: dunningCase.kind, status: 'open' });
+      }
+    }
+    return results;
+  }
+
+  /** Daily pass: due retries, then final notices, then grace-period expiry. */
+  async runDunningCycle(now: Date = new Date()): Promise<DunningCycleSummary> {
+    const policy = await this.getPolicy();
+    const summary: DunningCycleSummary = { retried: 0, recovered: 0, stillFailing: 0, closed: 0, finalNotices: 0, paused: 0 };
+
+    for (const dunningCase of await dunningRepository.listDueRetries(now)) {
+      try {
+        const status = await this.retryCase(dunningCase, 'scheduled_retry');
+        summary.retried++;
+        if (status === 'recovered') summary.recovered++;
+        else if (status === 'closed') summary.closed++;
+        else summary.stillFailing++;
+      } catch (err) {
+        logger.error('Dunning: scheduled retry error', { caseId: dunningCase.id, error: err });
+        summary.stillFailing++;
+      }
+    }
+
+    for (const dunningCase of await dunningRepository.listOpenCases()) {
+      // The customer may already have paid; an admin settles these
+      if (dunningCase.awaitingReconciliation) continue;
+      try {
+        if (dunningCase.graceEndsAt <= now) {
+          await this.pauseForNonPayment(dunningCase, policy);
+          summary.paused++;
+        } else if (isFinalNoticeDue(policy, dunningCase, now)) {
+          await this.sendReminder(dunningCase, 'final_notice', policy);
+          summary.finalNotices++;
+        }
+      } catch (err) {
+        logger.error('Dunning: grace period handling failed', { caseId: dunningCase.id, error: err });
+      }
+    }
+
+    logger.info('Dunning cycle complete', summary);
+    return summary;
+  }
+
+  private async pauseForNonPayment(dunningCase: DunningCase, policy: DunningPolicy): Promise<void> {
+    if (await this.isSubjectPastDue(dunningCase)) {
+      if (dunningCase.kind === 'autoship') {
+        await autoShipRepository.update(dunningCase.subjectId, { status: 'paused' });
+      } else {
+        await usersRepository.updateSubscription(dunningCase.userId, { status: 'paused' });
+      }
+    }
+    const updated = await dunningRepository.updateCase(dunningCase.id, {
+      status: 'paused',
+      nextRetryAt: null,
+      resolvedAt: new Date(),
+    }) ?? dunningCase;
+    logger.warn('Dunning: grace period ended — paused for non-payment', {
+      caseId: dunningCase.id, kind: dunningCase.kind, subjectId: dunningCase.subjectId,
+    });
+    await this.sendReminder(updated, 'paused', policy);
+  }
+
+  private async isSubjectPastDue(dunningCase: DunningCase): Promise<boolean> {
+    if (dunningCase.kind === 'autoship') {
+      const autoShip = await autoShipRepository.getById(dunningCase.subjectId);
+      return autoShip?.status === 'past_due';
+    }
+    const subscription = await usersRepository.getSubscription(dunningCase.userId);
+    return subscription?.id === dunningCase.subjectId && subscription.status === 'past_due';
+  }
+
+  // ── Admin ─────────────────────────────────────────────────────────────
+
+  listCases(filters: { status?: DunningCaseStatus; limit?: number } = {}) {
+    return dunningRepository.listCases(filters);
+  }
+
+  async getCaseDetail(caseId: string) {
+    const dunningCase = await dunningRepository.getCase(caseId);
+    if (!dunningCase) return null;
+    return { ...dunningCase, attempts: await dunningRepository.listAttempts(caseId) };
+  }
+
+  async closeCase(caseId: string): Promise<DunningCase | null> {
+    const dunningCase = await dunningRepository.getCase(caseId);
+    if (!dunningCase) return null;
+    if (dunningCase.status !== 'open') throw new Error('CASE_NOT_OPEN');
+    return (await dunningRepository.updateCase(caseId, { status: 'closed', nextRetryAt: null, resolvedAt: new Date() })) ?? null;
+  }
+
+  /** Recovery rates for cases opened in the last `days` days. */
+  async getRecoveryStats(days = 90) {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const [caseRows, attemptRows] = await Promise.all([
+      dunningRepository.countCasesByStatus(since),
+      dunningRepository.countAttemptsByTrigger(since),
+    ]);
+
+    const byKind = (['autoship', 'membership'] as DunningKind[]).map((kind) => {
+      const rows = caseRows.filter((r) => r.kind === kind);
+      const tally = (status: DunningCaseStatus) => rows.filter((r) => r.status === status).reduce((n, r) => n + Number(r.cases), 0);
+      const total = rows.reduce((n, r) => n + Number(r.cases), 0);
+      const recovered = tally('recovered');
+      const resolved = total - tally('open');
+      return {
+        kind,
+        total,
+        open: tally('open'),
+        recovered,
+        paused: tally('paused'),
+        closed: tally('closed'),
+        recoveredAmountCents: rows.filter((r) => r.status === 'recovered').reduce((n, r) => n + Number(r.amountCents ?? 0), 0),
+        // Recovery rate only counts cases that have reached an outcome
+        recoveryRate: resolved > 0 ? Math.round((recovered / resolved) * 1000) / 10 : null,
+      };
+    });
+
+    const byTrigger = (['renewal', 'scheduled_retry', 'card_update', 'manual'] as DunningAttemptTrigger[]).map((trigger) => {
+      const rows = attemptRows.filter((r) => r.trigger === trigger);
+      const attempts = rows.reduce((n, r) => n + Number(r.attempts), 0);
+      const approved = rows.filter((r) => r.outcome === 'approved').reduce((n, r) => n + Number(r.attempts), 0);
+      return { trigger, attempts, approved, successRate: attempts > 0 ? Math.round((approved / attempts) * 1000) / 10 : null };
+    });
+
+    return { days, byKind, byTrigger };
+  }
+
+  // ── Customer ──────────────────────────────────────────────────────────
+
+  /** Open payment issues shown on the billing page. Cases awaiting reconciliation need nothing from the customer. */
+  async getOpenIssuesForUser(userId: string) {
+    const cases = await dunningRepository.listOpenCasesByUser(userId);
+    return cases.filter((c) => !c.awaitingReconciliation).map((c) => ({
+      id: c.id,
+      kind: c.kind,
+      amountCents: c.amountCents,
+      declineCategory: c.declineCategory,
+      lastResponseText: c.lastResponseText,
+      nextRetryAt: c.nextRetryAt,
+      graceEndsAt: c.graceEndsAt,
+    }));
+  }
+
+  // ── Reminders ─────────────────────────────────────────────────────────
+
+  private async sendReminder(dunningCase: DunningCase, stage: ReminderStage, policy: DunningPolicy): Promise<DunningCase> {
+    try {
+      const user = await usersRepository.getUser(dunningCase.userId);
+      if (!user) return dunningCase;
+
+      const { subject, title, message } = this.buildReminder(dunningCase, stage);
+      const cardUpdateUrl = `${getFrontendUrl()}${CARD_UPDATE_PATH}`;
+      const needsAction = stage !== 'recovered';
+
+      if (await notificationsService.shouldSendEmail(user.id, 'billing')) {
+        await sendNotificationEmail({
+          to: user.email,
+          subject,
+          title,
+          type: 'order_update',
+          content: `
+            <p>Hi ${user.name?.split(' ')[0] || 'there'},</p>
+            <p>${message}</p>
+          `,
+          actionUrl: needsAction ? cardUpdateUrl : `${getFrontendUrl()}/dashboard/orders`,
+          actionText: needsAction ? 'Update Payment Method' : 'View Orders',
+        });
+      }
+
+      if (shouldEscalateToSms(policy, stage) && user.phone && await notificationsService.shouldSendSms(user.id, 'billing')) {
+        await sendNotificationSms({
+          to: user.phone,
+          message: `${message} Update your card: ${cardUpdateUrl}`,
+          type: 'order_update',
+        });
+      }
+
+      await notificationsService.create({
+        userId: user.id,
+        type: 'order_update',
+        title,
+        content: message,
+        metadata: {
+          actionUrl: needsAction ? CARD_UPDATE_PATH : '/dashboard/orders',
+          icon: needsAction ? 'alert-triangle' : 'check-circle',
+          priority: needsAction ? 'high' : 'medium',
+        },
+      });
+
+      return (await dunningRepository.updateCase(dunningCase.id, {
+        remindersSent: dunningCase.remindersSent + 1,
+        lastReminderStage: stage,
+      })) ?? dunningCase;
+    } catch (err) {
+      logger.warn('Failed to send dunning reminder', { caseId: dunningCase.id, stage, error: err });
+      return dunningCase;
+    }
+  }
+
+  private buildReminder(dunningCase: DunningCase, stage: ReminderStage): { subject: string; title: string; message: string } {
+    const label = KIND_LABEL[dunningCase.kind];
+    const amount = dunningCase.amountCents != null ? ` of $${(dunningCase.amountCents / 100).toFixed(2)}` : '';
+    const pauseDate = dunningCase.graceEndsAt.toLocaleDateString('en-US', { month: 'long', day: 'numeric' });
+    const retryDate = dunningCase.nextRetryAt?.toLocaleDateString('en-US', { month: 'long', day: 'numeric' });
+    const retryNote = retryDate
+      ? `We'll try again on ${retryDate}, or you can update your card now and we'll retry right away.`
+      : 'Please update your card so we can complete the payment.';
+
+    switch (stage) {
+      case 'first_notice':
+        return {
+          subject: `Your Ones ${label} payment didn't go through`,
+          title: 'Payment Declined',
+          message: dunningCase.declineCategory === 'hard'
+            ? `Your bank declined the ${label} payment${amount} and the card on file can't be charged again. Please update your payment method before ${pauseDate} to avoid a pause.`
+            : `Your ${label} payment${amount} was declined. ${retryNote}`,
+        };
+      case 'retry_failed':
+        return {
+          subject: `We still couldn't process your Ones ${label} payment`,
+          title: 'Payment Still Failing',
+          message: `Our retry of your ${label} payment${amount} was declined. ${retryNote} Your ${label} will be paused on ${pauseDate} if payment isn't received.`,
+        };
+      case 'final_notice':
+        return {
+          subject: `Action needed: your Ones ${label} pauses on ${pauseDate}`,
+          title: 'Final Payment Notice',
+          message: `We haven't been able to collect your ${label} payment${amount}. Update your payment method before ${pauseDate} to keep your ${label} active.`,
+        };
+      case 'paused':
+        return {
+          subject: `Your Ones ${label} has been paused`,
+          title: `${label.charAt(0).toUpperCase()}${label.slice(1)} Paused`,
+          message: `We couldn't collect your ${label} payment${amount}, so your ${label} is now paused. Update your payment method and resume it from your dashboard at any time.`,
+        };
+      case 'recovered':
+        return {
+          subject: `Your Ones ${label} payment went through`,
+          title: 'Payment Received',
+          message: `Thanks — your ${label} payment${amount} was successful and everything is back on track.`,
+        };
+    }
+  }
+}
+
+export const dunningService = new DunningService();
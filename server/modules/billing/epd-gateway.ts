@@ -29,8 +29,7 @@
 import logger from '../../infra/logging/logger';
 import crypto from 'crypto';
 
-const EPD_API_URL = 'https://secure.easypaydirectgateway.com/api/transact.php';
-const EPD_QUERY_URL = 'https://secure.easypaydirectgateway.com/api/query.php';
+const EPD_DEFAULT_BASE_URL = 'https://secure.easypaydirectgateway.com';
 
 // ── Response Types ─────────────────────────────────────────────────────
 
@@ -128,6 +127,14 @@ class EpdGateway {
     return key;
   }
 
+  /**
+   * Read per request so the sandbox (epd-sandbox.ts) can be swapped in via
+   * EPD_API_BASE_URL without re-importing this module.
+   */
+  private get baseUrl(): string {
+    return (process.env.EPD_API_BASE_URL || EPD_DEFAULT_BASE_URL).replace(/\/+$/, '');
+  }
+
   /**
    * Low-level POST to EPD transact endpoint.
    * Handles form-encoding and response parsing.
@@ -138,7 +145,7 @@ class EpdGateway {
       ...params,
     });
 
-    const res = await fetch(EPD_API_URL, {
+    const res = await fetch(`${this.baseUrl}/api/transact.php`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
       body: body.toString(),
@@ -425,7 +432,7 @@ class EpdGateway {
       ...this.clean(params as Record<string, string | undefined>),
     });
 
-    const res = await fetch(EPD_QUERY_URL, {
+    const res = await fetch(`${this.baseUrl}/api/query.php`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
       body: body.toString(),
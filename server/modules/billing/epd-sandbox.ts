@@ -0,0 +1,796 @@
+/**
+ * EasyPayDirect Sandbox
+ * ─────────────────────────────────────────────────────
+ * In-process stand-in for the EPD Payment API (/api/transact.php), the
+ * Query API (/api/query.php) and EPD's signed webhooks, speaking the same
+ * form-encoded / XML formats that epd-gateway.ts sends and parses.
+ *
+ * Covers sale, auth/capture, validate (vault only), vault charges and
+ * updates, refund, void, tracking updates, payouts and recurring
+ * plans/subscriptions. Money moves through the same states as the real
+ * gateway: sales sit in `pendingsettlement` until `settle()` runs, refunds
+ * are only accepted once settled ("void instead" before that) and voids only
+ * before.
+ *
+ * Scripted scenarios:
+ *   - scriptNext('sale', 'decline' | 'insufficient_funds' | 'expired_card' |
+ *     'partial_approval' | 'processor_error')  — next N requests of a type
+ *   - expireCard(vaultId)                      — vault charges decline (223)
+ *   - cardUpdate(vaultId, kind)                — Automatic Card Updater result + webhook
+ *   - fileChargeback(transactionId)            — chargeback.batch.complete webhook
+ *
+ * Every state change queues a webhook in `webhooks`, signed exactly like EPD
+ * ("t={nonce},s={hmac}") so epd-webhooks.controller.ts verifies it.
+ * `deliverWebhooks()` POSTs pending ones to `webhookUrl`.
+ *
+ * Two ways to use it:
+ *   - Dev server: set EPD_SANDBOX=true (never honoured in production).
+ *     env.ts points EPD_API_BASE_URL at /__dev/epd on this server, routes.ts
+ *     mounts the router there and webhooks are delivered to /api/webhooks/epd.
+ *   - Tests: `createEpdSandbox()` and serve `sandbox.router` from a throwaway
+ *     express app with EPD_API_BASE_URL pointed at it (see epd-sandbox.test.ts).
+ */
+
+import express, { type Request, type Response, type Router } from 'express';
+import crypto from 'crypto';
+import type { EpdWebhookEvent } from './epd-webhooks.service';
+
+export type EpdSandboxTransactionType = 'sale' | 'auth' | 'capture' | 'validate' | 'refund' | 'void' | 'update' | 'distribution';
+
+/**
+ * `partial_approval`: the issuer approves half the requested amount. Only
+ * honoured when the request opts in with partial_payments=settle_partial;
+ * otherwise it declines as insufficient funds (the app never opts in).
+ */
+export type EpdSandboxScenario =
+  | 'approve'
+  | 'decline'
+  | 'insufficient_funds'
+  | 'expired_card'
+  | 'partial_approval'
+  | 'processor_error';
+
+export type EpdSandboxCondition = 'pending' | 'pendingsettlement' | 'complete' | 'canceled' | 'failed';
+
+export type EpdSandboxCardUpdate = 'automaticallyupdated' | 'contactcustomer' | 'closedaccount';
+
+export interface EpdSandboxOptions {
+  /** Expected security_key. Requests without it get an authentication error. */
+  securityKey?: string;
+  /** Key used to sign webhooks (EPD_WEBHOOK_SIGNING_KEY on the receiving side) */
+  webhookSigningKey?: string;
+  /** Where deliverWebhooks() POSTs */
+  webhookUrl?: string;
+  /** Deliver each webhook as soon as it is queued (dev server) */
+  autoDeliverWebhooks?: boolean;
+  /** Clock override for settlement / chargeback dates */
+  now?: () => number;
+}
+
+export interface EpdSandboxAction {
+  actionType: string;
+  amount: string;
+  date: string;
+  success: boolean;
+  responseText: string;
+}
+
+export interface EpdSandboxTransaction {
+  transactionId: string;
+  type: 'sale' | 'auth' | 'validate' | 'refund' | 'distribution';
+  condition: EpdSandboxCondition;
+  /** Amount approved by the issuer (may be below the requested amount on partial approval) */
+  amount: number;
+  capturedAmount: number;
+  refundedAmount: number;
+  orderId?: string;
+  customerVaultId?: string;
+  parentTransactionId?: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  trackingNumber?: string;
+  actions: EpdSandboxAction[];
+}
+
+export interface EpdSandboxVaultRecord {
+  customerVaultId: string;
+  ccNumber: string;
+  ccExp: string;
+  status: 'active' | 'expired' | 'closed';
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+}
+
+export interface EpdSandboxSubscription {
+  subscriptionId: string;
+  planId?: string;
+  planAmount?: string;
+  planPayments?: string;
+  monthFrequency?: string;
+  dayFrequency?: string;
+  customerVaultId?: string;
+  paused: boolean;
+}
+
+export interface EpdSandboxWebhook {
+  event: EpdWebhookEvent;
+  rawBody: string;
+  /** Value of the Webhook-Signature header */
+  signature: string;
+  deliveredStatus: number | null;
+}
+
+type GatewayResult = { response: '1' | '2' | '3'; responsetext: string; response_code: string };
+
+const APPROVED: GatewayResult = { response: '1', responsetext: 'SUCCESS', response_code: '100' };
+
+const DECLINES: Record<Exclude<EpdSandboxScenario, 'approve' | 'partial_approval'>, GatewayResult> = {
+  decline: { response: '2', responsetext: 'DECLINE', response_code: '200' },
+  insufficient_funds: { response: '2', responsetext: 'Insufficient funds', response_code: '202' },
+  expired_card: { response: '2', responsetext: 'Expired card', response_code: '223' },
+  processor_error: { response: '3', responsetext: 'Processor error', response_code: '400' },
+};
+
+const CLOSED_ACCOUNT: GatewayResult = { response: '2', responsetext: 'Closed account', response_code: '200' };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const money = (value: number) => value.toFixed(2);
+
+/** EPD timestamps are UTC YYYYMMDDhhmmss */
+function epdDate(ms: number): string {
+  return new Date(ms).toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+function xmlEscape(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function xmlFields(fields: Record<string, string | undefined>): string {
+  return Object.entries(fields)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `<${k}>${xmlEscape(v!)}</${k}>`)
+    .join('');
+}
+
+export class EpdSandbox {
+  readonly router: Router;
+  readonly transactions = new Map<string, EpdSandboxTransaction>();
+  readonly vault = new Map<string, EpdSandboxVaultRecord>();
+  readonly subscriptions = new Map<string, EpdSandboxSubscription>();
+  readonly plans = new Map<string, Record<string, string>>();
+  readonly webhooks: EpdSandboxWebhook[] = [];
+  /** Every transact.php request received (security_key stripped), oldest first */
+  readonly requests: Array<Record<string, string>> = [];
+
+  private options: Required<Omit<EpdSandboxOptions, 'webhookUrl'>> & { webhookUrl?: string };
+  private scripted = new Map<EpdSandboxTransactionType, EpdSandboxScenario[]>();
+  private sequence = 0;
+
+  constructor(options: EpdSandboxOptions = {}) {
+    this.options = {
+      securityKey: options.securityKey ?? 'epd-sandbox',
+      webhookSigningKey: options.webhookSigningKey ?? 'epd-sandbox-signing-key',
+      webhookUrl: options.webhookUrl,
+      autoDeliverWebhooks: options.autoDeliverWebhooks ?? false,
+      now: options.now ?? Date.now,
+    };
+    this.router = this.buildRouter();
+  }
+
+  configure(patch: Partial<EpdSandboxOptions>): void {
+    this.options = { ...this.options, ...patch };
+  }
+
+  /** Force the outcome of the next `times` requests of a transaction type. */
+  scriptNext(type: EpdSandboxTransactionType, scenario: EpdSandboxScenario, times = 1): void {
+    const queue = this.scripted.get(type) ?? [];
+    for (let i = 0; i < times; i++) queue.push(scenario);
+    this.scripted.set(type, queue);
+  }
+
+  /** The vaulted card has expired — vault charges decline until a card update. */
+  expireCard(customerVaultId: string): void {
+    this.requireVault(customerVaultId).status = 'expired';
+  }
+
+  /**
+   * Simulate an Automatic Card Updater result for a vaulted card and queue
+   * the matching acu.summary.* webhook.
+   */
+  cardUpdate(customerVaultId: string, kind: EpdSandboxCardUpdate): EpdSandboxWebhook {
+    const record = this.requireVault(customerVaultId);
+    if (kind === 'automaticallyupdated') {
+      const expiry = new Date(this.options.now());
+      record.ccNumber = '4xxxxxxxxxxx4444';
+      record.ccExp = `${String(expiry.getUTCMonth() + 1).padStart(2, '0')}${String((expiry.getUTCFullYear() + 3) % 100).padStart(2, '0')}`;
+      record.status = 'active';
+    } else if (kind === 'closedaccount') {
+      record.status = 'closed';
+    }
+    return this.queueWebhook(`acu.summary.${kind}`, {
+      customer_vault_id: customerVaultId,
+      first_name: record.firstName,
+      last_name: record.lastName,
+      email: record.email,
+    });
+  }
+
+  /** File a chargeback against a sale and queue the chargeback.batch.complete webhook. */
+  fileChargeback(transactionId: string, opts: { reasonCode?: string; amount?: number } = {}): EpdSandboxWebhook {
+    const txn = this.transactions.get(transactionId);
+    if (!txn) throw new Error(`Unknown sandbox transaction ${transactionId}`);
+    const now = this.options.now();
+    return this.queueWebhook('chargeback.batch.complete', {
+      ...this.transactionBody(txn),
+      chargeback: {
+        reason_code: opts.reasonCode ?? '10.4',
+        chargeback_amount: money(opts.amount ?? txn.capturedAmount - txn.refundedAmount),
+        chargeback_date: new Date(now).toISOString().slice(0, 10),
+        reply_date: new Date(now + 10 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+      },
+    });
+  }
+
+  /**
+   * Close the current batch: everything pending settlement becomes complete
+   * (refundable, no longer voidable) and a settlement.batch.complete webhook
+   * is queued.
+   */
+  settle(): EpdSandboxWebhook {
+    let debitCount = 0;
+    let debitAmount = 0;
+    let creditCount = 0;
+    let creditAmount = 0;
+    for (const txn of this.transactions.values()) {
+      if (txn.condition !== 'pendingsettlement') continue;
+      txn.condition = 'complete';
+      if (txn.type === 'refund') {
+        creditCount++;
+        creditAmount += txn.amount;
+      } else {
+        debitCount++;
+        debitAmount += txn.capturedAmount;
+      }
+    }
+    return this.queueWebhook('settlement.batch.complete', {
+      settlement: {
+        batch_id: this.nextId('batch'),
+        debit_count: String(debitCount),
+        debit_amount: money(debitAmount),
+        credit_count: String(creditCount),
+        credit_amount: money(creditAmount),
+        net_amount: money(debitAmount - creditAmount),
+      },
+    });
+  }
+
+  /** Sign a webhook event the way EPD does. */
+  signWebhook(event: EpdWebhookEvent): { rawBody: string; signature: string } {
+    const rawBody = JSON.stringify(event);
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const hmac = crypto
+      .createHmac('sha256', this.options.webhookSigningKey)
+      .update(`${nonce}.${rawBody}`)
+      .digest('hex');
+    return { rawBody, signature: `t=${nonce},s=${hmac}` };
+  }
+
+  /** POST every undelivered webhook, oldest first. Returns the HTTP status per event. */
+  async deliverWebhooks(url = this.options.webhookUrl): Promise<Array<{ eventType: string; status: number }>> {
+    if (!url) throw new Error('EPD sandbox has no webhookUrl configured');
+    const results: Array<{ eventType: string; status: number }> = [];
+    for (const webhook of this.webhooks) {
+      if (webhook.deliveredStatus !== null && webhook.deliveredStatus < 300) continue;
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Webhook-Signature': webhook.signature },
+        body: webhook.rawBody,
+      });
+      webhook.deliveredStatus = res.status;
+      results.push({ eventType: webhook.event.event_type, status: res.status });
+    }
+    return results;
+  }
+
+  reset(): void {
+    this.transactions.clear();
+    this.vault.clear();
+    this.subscriptions.clear();
+    this.plans.clear();
+    this.scripted.clear();
+    this.webhooks.length = 0;
+    this.requests.length = 0;
+    this.sequence = 0;
+  }
+
+  // ── Internals ────────────────────────────────────────────────────────
+
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}${this.sequence}${crypto.randomBytes(3).toString('hex')}`;
+  }
+
+  private nextTransactionId(): string {
+    this.sequence += 1;
+    return String(10_000_000_000 + this.sequence * 7919 + crypto.randomInt(1000));
+  }
+
+  private requireVault(customerVaultId: string): EpdSandboxVaultRecord {
+    const record = this.vault.get(customerVaultId);
+    if (!record) throw new Error(`Unknown sandbox vault record ${customerVaultId}`);
+    return record;
+  }
+
+  private takeScripted(type: EpdSandboxTransactionType): EpdSandboxScenario | undefined {
+    return this.scripted.get(type)?.shift();
+  }
+
+  private queueWebhook(eventType: string, body: Record<string, unknown>): EpdSandboxWebhook {
+    const event = {
+      event_id: crypto.randomUUID(),
+      event_type: eventType,
+      event_body: {
+        merchant: { id: 'sandbox', name: 'ONES Sandbox' },
+        features: { is_test_mode: true },
+        ...body,
+      },
+    } as EpdWebhookEvent;
+    const webhook: EpdSandboxWebhook = { event, ...this.signWebhook(event), deliveredStatus: null };
+    this.webhooks.push(webhook);
+    if (this.options.autoDeliverWebhooks && this.options.webhookUrl) {
+      // After the gateway response has gone out, like the real thing
+      setTimeout(() => { this.deliverWebhooks().catch(() => {}); }, 50);
+    }
+    return webhook;
+  }
+
+  private transactionBody(txn: EpdSandboxTransaction, extra: Record<string, unknown> = {}): Record<string, unknown> {
+    const last = txn.actions[txn.actions.length - 1];
+    return {
+      transaction_id: txn.transactionId,
+      transaction_type: 'cc',
+      condition: txn.condition,
+      order_id: txn.orderId,
+      first_name: txn.firstName,
+      last_name: txn.lastName,
+      email: txn.email,
+      amount: money(txn.amount),
+      currency: 'USD',
+      customer_vault_id: txn.customerVaultId,
+      action: last && {
+        action_type: last.actionType,
+        amount: last.amount,
+        date: last.date,
+        success: last.success ? '1' : '0',
+        response_text: last.responseText,
+      },
+      ...extra,
+    };
+  }
+
+  private record(txn: EpdSandboxTransaction, actionType: string, amount: number, result: GatewayResult): void {
+    txn.actions.push({
+      actionType,
+      amount: money(amount),
+      date: epdDate(this.options.now()),
+      success: result.response === '1',
+      responseText: result.responsetext,
+    });
+  }
+
+  private reply(result: GatewayResult, fields: Record<string, string | undefined> = {}): Record<string, string> {
+    const approved = result.response === '1';
+    return Object.fromEntries(Object.entries({
+      ...result,
+      authcode: approved ? String(crypto.randomInt(100000, 999999)) : '',
+      avsresponse: approved ? 'Y' : '',
+      cvvresponse: approved ? 'M' : '',
+      transactionid: '',
+      orderid: '',
+      ...fields,
+    }).filter(([, v]) => v !== undefined)) as Record<string, string>;
+  }
+
+  private error(responsetext: string, fields: Record<string, string | undefined> = {}): Record<string, string> {
+    return this.reply({ response: '3', responsetext, response_code: '300' }, fields);
+  }
+
+  private buildRouter(): Router {
+    const router = express.Router();
+    router.use(express.urlencoded({ extended: false }));
+
+    router.post('/api/transact.php', (req: Request, res: Response) => {
+      const { security_key, ...params } = (req.body ?? {}) as Record<string, string>;
+      this.requests.push(params);
+      const result = security_key === this.options.securityKey
+        ? this.transact(params)
+        : this.error('Authentication Failed');
+      res.type('text/plain').send(new URLSearchParams(result).toString());
+    });
+
+    router.post('/api/query.php', (req: Request, res: Response) => {
+      const { security_key, ...params } = (req.body ?? {}) as Record<string, string>;
+      const xml = security_key === this.options.securityKey
+        ? this.query(params)
+        : '<nm_response><error_response>Authentication Failed</error_response></nm_response>';
+      res.type('text/xml').send(`<?xml version="1.0" encoding="UTF-8"?>\n${xml}`);
+    });
+
+    return router;
+  }
+
+  private transact(p: Record<string, string>): Record<string, string> {
+    if (p.recurring) return this.recurring(p);
+    if (!p.type && p.customer_vault) return this.vaultOperation(p);
+
+    switch (p.type) {
+      case 'sale':
+      case 'auth':
+      case 'validate':
+        return this.charge(p.type, p);
+      case 'capture':
+        return this.capture(p);
+      case 'void':
+        return this.voidTransaction(p);
+      case 'refund':
+        return this.refund(p);
+      case 'update': {
+        const txn = this.transactions.get(p.transactionid);
+        if (!txn) return this.error('Transaction not found', { transactionid: p.transactionid });
+        txn.trackingNumber = p.tracking_number ?? txn.trackingNumber;
+        return this.reply(APPROVED, { transactionid: txn.transactionId, type: 'update' });
+      }
+      case 'distribution':
+        return this.payout(p);
+      default:
+        return this.error(`Invalid Transaction Type ${p.type ?? ''}`.trim());
+    }
+  }
+
+  private charge(type: 'sale' | 'auth' | 'validate', p: Record<string, string>): Record<string, string> {
+    const requested = type === 'validate' ? 0 : Number(p.amount);
+    if (type !== 'validate' && !(requested > 0)) return this.error('Invalid amount');
+
+    const addToVault = p.customer_vault === 'add_customer';
+    const existingVault = !addToVault && p.customer_vault_id ? this.vault.get(p.customer_vault_id) : undefined;
+    if (!addToVault && p.customer_vault_id && !existingVault) {
+      return this.error('Invalid Customer Vault Id', { orderid: p.orderid });
+    }
+    if (!p.payment_token && !existingVault) {
+      return this.error('No payment information provided', { orderid: p.orderid });
+    }
+
+    const scenario = this.takeScripted(type)
+      ?? (existingVault?.status === 'expired' ? 'expired_card' : 'approve');
+    let result: GatewayResult = APPROVED;
+    let approvedAmount = requested;
+    if (existingVault?.status === 'closed' && scenario === 'approve') {
+      result = CLOSED_ACCOUNT;
+    } else if (scenario === 'partial_approval') {
+      if (p.partial_payments === 'settle_partial') {
+        approvedAmount = round2(requested / 2);
+      } else {
+        result = { ...DECLINES.insufficient_funds, responsetext: 'Insufficient funds for full amount' };
+      }
+    } else if (scenario !== 'approve') {
+      result = DECLINES[scenario];
+    }
+    const approved = result.response === '1';
+
+    const txn: EpdSandboxTransaction = {
+      transactionId: this.nextTransactionId(),
+      type,
+      condition: !approved ? 'failed' : type === 'sale' ? 'pendingsettlement' : type === 'auth' ? 'pending' : 'complete',
+      amount: approved ? approvedAmount : 0,
+      capturedAmount: approved && type === 'sale' ? approvedAmount : 0,
+      refundedAmount: 0,
+      orderId: p.orderid,
+      customerVaultId: existingVault?.customerVaultId,
+      firstName: p.first_name ?? existingVault?.firstName,
+      lastName: p.last_name ?? existingVault?.lastName,
+      email: p.email ?? existingVault?.email,
+      actions: [],
+    };
+    this.record(txn, type, requested, result);
+    this.transactions.set(txn.transactionId, txn);
+
+    if (approved && addToVault) {
+      const record: EpdSandboxVaultRecord = {
+        customerVaultId: this.nextId('cv'),
+        ccNumber: '4xxxxxxxxxxx1111',
+        ccExp: '1230',
+        status: 'active',
+        firstName: p.first_name,
+        lastName: p.last_name,
+        email: p.email,
+      };
+      this.vault.set(record.customerVaultId, record);
+      txn.customerVaultId = record.customerVaultId;
+    }
+
+    if (type !== 'validate') {
+      this.queueWebhook(`transaction.${type}.${approved ? 'success' : 'failure'}`, this.transactionBody(txn));
+    }
+
+    const partial = approved && approvedAmount < requested;
+    return this.reply(result, {
+      transactionid: txn.transactionId,
+      orderid: p.orderid ?? '',
+      type,
+      customer_vault_id: addToVault ? txn.customerVaultId : undefined,
+      amount_authorized: partial ? money(approvedAmount) : undefined,
+      partial_payment_id: partial ? this.nextId('pp') : undefined,
+      partial_payment_balance: partial ? money(requested - approvedAmount) : undefined,
+    });
+  }
+
+  private capture(p: Record<string, string>): Record<string, string> {
+    const txn = this.transactions.get(p.transactionid);
+    if (!txn || txn.type !== 'auth') return this.error('Transaction not found', { transactionid: p.transactionid });
+    if (txn.condition !== 'pending') {
+      return this.error('A capture requires that the existing transaction be an AUTH', { transactionid: txn.transactionId });
+    }
+    const amount = p.amount ? Number(p.amount) : txn.amount;
+    if (!(amount > 0) || amount > txn.amount) {
+      return this.error('Capture amount may not exceed the authorized amount', { transactionid: txn.transactionId });
+    }
+
+    const result = this.scriptedResult('capture');
+    this.record(txn, 'capture', amount, result);
+    if (result.response === '1') {
+      txn.condition = 'pendingsettlement';
+      txn.capturedAmount = amount;
+    }
+    this.queueWebhook(`transaction.capture.${result.response === '1' ? 'success' : 'failure'}`, this.transactionBody(txn));
+    return this.reply(result, { transactionid: txn.transactionId, orderid: txn.orderId, type: 'capture' });
+  }
+
+  private voidTransaction(p: Record<string, string>): Record<string, string> {
+    const txn = this.transactions.get(p.transactionid);
+    if (!txn) return this.error('Transaction not found', { transactionid: p.transactionid });
+    if (txn.condition !== 'pending' && txn.condition !== 'pendingsettlement') {
+      return this.error('Only transactions pending settlement can be voided', { transactionid: txn.transactionId });
+    }
+
+    const scripted = this.scriptedResult('void');
+    const result = scripted.response === '1' ? { ...APPROVED, responsetext: 'Transaction Void Successful' } : scripted;
+    this.record(txn, 'void', txn.amount, result);
+    if (result.response === '1') txn.condition = 'canceled';
+    this.queueWebhook(
+      `transaction.void.${result.response === '1' ? 'success' : 'failure'}`,
+      this.transactionBody(txn, { ponumber: txn.transactionId }),
+    );
+    return this.reply(result, { transactionid: txn.transactionId, orderid: txn.orderId, type: 'void' });
+  }
+
+  private refund(p: Record<string, string>): Record<string, string> {
+    const parent = this.transactions.get(p.transactionid);
+    if (!parent || (parent.type !== 'sale' && parent.type !== 'auth')) {
+      return this.error('Transaction not found', { transactionid: p.transactionid });
+    }
+    if (parent.condition === 'pending' || parent.condition === 'pendingsettlement') {
+      return this.error('Transaction has not settled - void instead', { transactionid: parent.transactionId });
+    }
+    const balance = round2(parent.capturedAmount - parent.refundedAmount);
+    const amount = p.amount ? Number(p.amount) : balance;
+    if (parent.condition !== 'complete' || !(amount > 0) || amount > balance) {
+      return this.error('Refund amount may not exceed the transaction balance', { transactionid: parent.transactionId });
+    }
+
+    const result = this.scriptedResult('refund');
+    const refund: EpdSandboxTransaction = {
+      transactionId: this.nextTransactionId(),
+      type: 'refund',
+      condition: result.response === '1' ? 'pendingsettlement' : 'failed',
+      amount,
+      capturedAmount: 0,
+      refundedAmount: 0,
+      orderId: parent.orderId,
+      customerVaultId: parent.customerVaultId,
+      parentTransactionId: parent.transactionId,
+      firstName: parent.firstName,
+      lastName: parent.lastName,
+      email: parent.email,
+      actions: [],
+    };
+    this.record(refund, 'refund', amount, result);
+    this.record(parent, 'refund', amount, result);
+    this.transactions.set(refund.transactionId, refund);
+    if (result.response === '1') parent.refundedAmount = round2(parent.refundedAmount + amount);
+
+    this.queueWebhook(
+      `transaction.refund.${result.response === '1' ? 'success' : 'failure'}`,
+      this.transactionBody(refund, { ponumber: parent.transactionId, requested_amount: money(amount) }),
+    );
+    return this.reply(result, { transactionid: refund.transactionId, orderid: parent.orderId, type: 'refund' });
+  }
+
+  private payout(p: Record<string, string>): Record<string, string> {
+    const amount = Number(p.amount);
+    if (!(amount > 0)) return this.error('Invalid amount');
+    if (!p.payee_id) return this.error('Payee is required');
+
+    const result = this.scriptedResult('distribution');
+    const txn: EpdSandboxTransaction = {
+      transactionId: this.nextTransactionId(),
+      type: 'distribution',
+      condition: result.response === '1' ? 'pendingsettlement' : 'failed',
+      amount,
+      capturedAmount: 0,
+      refundedAmount: 0,
+      orderId: p.orderid,
+      actions: [],
+    };
+    this.record(txn, 'distribution', amount, result);
+    this.transactions.set(txn.transactionId, txn);
+    return this.reply(result, { transactionid: txn.transactionId, orderid: p.orderid, type: 'distribution' });
+  }
+
+  /** Outcome for follow-up operations (capture/void/refund/payout), where only decline-type scripts apply. */
+  private scriptedResult(type: EpdSandboxTransactionType): GatewayResult {
+    const scenario = this.takeScripted(type);
+    if (!scenario || scenario === 'approve' || scenario === 'partial_approval') return APPROVED;
+    return DECLINES[scenario];
+  }
+
+  private vaultOperation(p: Record<string, string>): Record<string, string> {
+    const record = p.customer_vault_id ? this.vault.get(p.customer_vault_id) : undefined;
+    if (!record) return this.error('Invalid Customer Vault Id', { customer_vault_id: p.customer_vault_id });
+
+    if (p.customer_vault === 'delete_customer') {
+      this.vault.delete(record.customerVaultId);
+      return this.reply({ ...APPROVED, responsetext: 'Customer Deleted' }, { customer_vault_id: record.customerVaultId });
+    }
+    if (p.customer_vault === 'update_customer') {
+      record.firstName = p.first_name ?? record.firstName;
+      record.lastName = p.last_name ?? record.lastName;
+      record.email = p.email ?? record.email;
+      if (p.payment_token) {
+        record.ccNumber = '4xxxxxxxxxxx4242';
+        record.ccExp = '1230';
+        record.status = 'active';
+      }
+      return this.reply({ ...APPROVED, responsetext: 'Customer Update Successful' }, { customer_vault_id: record.customerVaultId });
+    }
+    return this.error(`Invalid Customer Vault action ${p.customer_vault}`);
+  }
+
+  private recurring(p: Record<string, string>): Record<string, string> {
+    switch (p.recurring) {
+      case 'add_plan':
+        this.plans.set(p.plan_id, { ...p });
+        return this.reply({ ...APPROVED, responsetext: 'Plan Added' });
+      case 'edit_plan': {
+        const plan = this.plans.get(p.current_plan_id);
+        if (!plan) return this.error('Plan not found');
+        this.plans.delete(p.current_plan_id);
+        this.plans.set(p.plan_id ?? p.current_plan_id, { ...plan, ...p });
+        return this.reply({ ...APPROVED, responsetext: 'Plan Updated' });
+      }
+      case 'add_subscription': {
+        if (p.plan_id && !this.plans.has(p.plan_id)) return this.error('Plan not found');
+        if (p.customer_vault_id && !this.vault.has(p.customer_vault_id)) return this.error('Invalid Customer Vault Id');
+        const sub: EpdSandboxSubscription = {
+          subscriptionId: this.nextTransactionId(),
+          planId: p.plan_id,
+          planAmount: p.plan_amount ?? this.plans.get(p.plan_id)?.plan_amount,
+          planPayments: p.plan_payments ?? this.plans.get(p.plan_id)?.plan_payments,
+          monthFrequency: p.month_frequency,
+          dayFrequency: p.day_frequency,
+          customerVaultId: p.customer_vault_id,
+          paused: p.paused_subscription === 'true',
+        };
+        this.subscriptions.set(sub.subscriptionId, sub);
+        this.queueWebhook('recurring.subscription.add', { subscription: this.subscriptionBody(sub) });
+        return this.reply({ ...APPROVED, responsetext: 'Subscription added' }, { subscription_id: sub.subscriptionId });
+      }
+      case 'update_subscription': {
+        const sub = this.subscriptions.get(p.subscription_id);
+        if (!sub) return this.error('Subscription not found');
+        sub.planAmount = p.plan_amount ?? sub.planAmount;
+        sub.planPayments = p.plan_payments ?? sub.planPayments;
+        sub.monthFrequency = p.month_frequency ?? sub.monthFrequency;
+        sub.dayFrequency = p.day_frequency ?? sub.dayFrequency;
+        if (p.paused_subscription) sub.paused = p.paused_subscription === 'true';
+        this.queueWebhook('recurring.subscription.update', { subscription: this.subscriptionBody(sub) });
+        return this.reply({ ...APPROVED, responsetext: 'Subscription updated' }, { subscription_id: sub.subscriptionId });
+      }
+      case 'delete_subscription': {
+        const sub = this.subscriptions.get(p.subscription_id);
+        if (!sub) return this.error('Subscription not found');
+        this.subscriptions.delete(sub.subscriptionId);
+        this.queueWebhook('recurring.subscription.delete', { subscription: this.subscriptionBody(sub) });
+        return this.reply({ ...APPROVED, responsetext: 'Subscription deleted' }, { subscription_id: sub.subscriptionId });
+      }
+      default:
+        return this.error(`Invalid recurring action ${p.recurring}`);
+    }
+  }
+
+  private subscriptionBody(sub: EpdSandboxSubscription): Record<string, string | undefined> {
+    return {
+      subscription_id: sub.subscriptionId,
+      plan_id: sub.planId,
+      plan_amount: sub.planAmount,
+      plan_payments: sub.planPayments,
+      month_frequency: sub.monthFrequency,
+      day_frequency: sub.dayFrequency,
+    };
+  }
+
+  // ── Query API (XML) ──────────────────────────────────────────────────
+
+  private query(p: Record<string, string>): string {
+    if (p.report_type === 'customer_vault') {
+      const records = [...this.vault.values()].filter((r) => !p.customer_vault_id || r.customerVaultId === p.customer_vault_id);
+      const customers = records.map((r) => `<customer id="${xmlEscape(r.customerVaultId)}">${xmlFields({
+        customer_vault_id: r.customerVaultId,
+        first_name: r.firstName,
+        last_name: r.lastName,
+        email: r.email,
+        cc_number: r.ccNumber,
+        cc_exp: r.ccExp,
+      })}</customer>`);
+      return `<nm_response><customer_vault>${customers.join('')}</customer_vault></nm_response>`;
+    }
+    if (p.report_type === 'recurring') {
+      const subs = [...this.subscriptions.values()].filter((s) => !p.subscription_id || s.subscriptionId === p.subscription_id);
+      return `<nm_response>${subs.map((s) => `<subscription>${xmlFields({
+        ...this.subscriptionBody(s),
+        customer_vault_id: s.customerVaultId,
+        paused_subscription: s.paused ? 'true' : 'false',
+      })}</subscription>`).join('')}</nm_response>`;
+    }
+    if (p.report_type === 'recurring_plans') {
+      return `<nm_response>${[...this.plans.values()].map((plan) => `<plan>${xmlFields({
+        plan_id: plan.plan_id,
+        plan_name: plan.plan_name,
+        plan_amount: plan.plan_amount,
+        plan_payments: plan.plan_payments,
+      })}</plan>`).join('')}</nm_response>`;
+    }
+    if (p.report_type) return '<nm_response></nm_response>';
+
+    const conditions = p.condition?.split(',');
+    const limit = p.result_limit ? Number(p.result_limit) : Infinity;
+    let matches = [...this.transactions.values()].filter((t) =>
+      (!p.transaction_id || t.transactionId === p.transaction_id)
+      && (!p.order_id || t.orderId === p.order_id)
+      && (!p.email || t.email === p.email)
+      && (!conditions || conditions.includes(t.condition)));
+    if (p.result_order === 'reverse') matches = matches.reverse();
+
+    const transactions = matches.slice(0, limit).map((t) => `<transaction>${xmlFields({
+      transaction_id: t.transactionId,
+      transaction_type: 'cc',
+      condition: t.condition,
+      order_id: t.orderId,
+      first_name: t.firstName,
+      last_name: t.lastName,
+      email: t.email,
+      customerid: t.customerVaultId,
+      original_transaction_id: t.parentTransactionId,
+      tracking_number: t.trackingNumber,
+    })}${t.actions.map((a) => `<action>${xmlFields({
+      amount: a.amount,
+      action_type: a.actionType,
+      date: a.date,
+      success: a.success ? '1' : '0',
+      response_text: a.responseText,
+    })}</action>`).join('')}</transaction>`);
+    return `<nm_response>${transactions.join('')}</nm_response>`;
+  }
+}
+
+export function createEpdSandbox(options: EpdSandboxOptions = {}): EpdSandbox {
+  return new EpdSandbox(options);
+}
+
+/** True when the dev server should mount the sandbox (never in production). */
+export function isEpdSandboxEnabled(): boolean {
+  return process.env.EPD_SANDBOX === 'true' && process.env.NODE_ENV !== 'production';
+}
+
+export const EPD_SANDBOX_MOUNT_PATH = '/__dev/epd';
@@ -1,17 +1,18 @@
-import OpenAI from 'openai';
-import { Anthropic } from '@anthropic-ai/sdk';
 import { logger } from '../../infra/logging/logger';
+import { complete } from '../../infra/ai/llm-gateway';
 import { chatRepository } from './chat.repository';
+import { patientMemoryService } from './patient-memory.service';
 import { formulasRepository } from '../formulas/formulas.repository';
 import { type MessageFormulaPayload, type MessageFormulaIngredientPayload, InsertMessage, messages } from '@shared/schema';
 import { filesRepository } from '../files/files.repository';
 import { usersRepository } from '../users/users.repository';
 import { wearablesService } from '../wearables/wearables.service';
+import { summarizeProvenance } from '../wearables/source-precedence';
+import { PROVIDER_DISPLAY_NAMES } from '../../junction';
 import { DEFAULT_CLINICAL_DIRECTION, LAB_TREND_RULES, type ClinicalDirection } from './lab-trend-rules';
-import { canonicalKey } from '../labs/biomarker-aliases';
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+import { canonicalKey, canonicalName } from '../labs/biomarker-aliases';
+import { computeMarkerBaseline } from '../labs/marker-baselines';
+import { toCanonicalUnit } from '@shared/lab-units';
 type DbInsertMessage = typeof messages.$inferInsert;
 
 type ExtractedLabValue = {
@@ -19,6 +20,7 @@ type ExtractedLabValue = {
     value?: string | number;
     unit?: string;
     status?: string;
+    loincCode?: string;
 };
 
 type TrendPoint = {
@@ -189,7 +191,7 @@ function buildLabTrendSummary(sortedReports: any[], hiddenMarkerSet?: Set<string
             }
 
             // Skip markers the user has hidden from the AI.
-            if (hiddenMarkerSet && hiddenMarkerSet.size > 0 && hiddenMarkerSet.has(canonicalKey(marker.testName))) {
+            if (hiddenMarkerSet && hiddenMarkerSet.size > 0 && hiddenMarkerSet.has(canonicalKey(marker.testName, marker.loincCode))) {
                 return;
             }
 
@@ -256,6 +258,82 @@ function buildLabTrendSummary(sortedReports: any[], hiddenMarkerSet?: Set<string
         trendLines.slice(0, 20).join('\n');
 }
 
+/**
+ * Markers whose latest value moved beyond the reference change value from
+ * the user's own earlier results. Reported separately from the lab's
+ * high/low flags: these can be fully in range and still be a real change.
+ */
+function buildPersonalBaselineSummary(sortedReports: any[], hiddenMarkerSet?: Set<string>): string {
+    if (sortedReports.length < 2) {
+        return '';
+    }
+
+    const series = new Map<string, { displayName: string; unit: string; status: string; points: Array<{ date: string; value: number | null }> }>();
+    const chronological = [...sortedReports].sort((a, b) => resolveReportChronoDate(a).getTime() - resolveReportChronoDate(b).getTime());
+
+    chronological.forEach((report) => {
+        const date = resolveReportChronoDate(report).toISOString();
+        const markers = Array.isArray(report.labReportData?.extractedData)
+            ? (report.labReportData.extractedData as ExtractedLabValue[])
+            : [];
+
+        markers.forEach((marker) => {
+            if (!marker.testName) {
+                return;
+            }
+            const key = canonicalKey(marker.testName, marker.loincCode);
+            if (!key || hiddenMarkerSet?.has(key)) {
+                return;
+            }
+
+            const canonical = toCanonicalUnit(key, parseNumericLabValue(marker.value), marker.unit || '');
+            const entry = series.get(key) ?? { displayName: canonicalName(marker.testName, marker.loincCode), unit: '', status: 'normal', points: [] };
+            entry.unit = canonical.unit;
+            entry.status = marker.status || 'normal';
+            // One point per report date; a later duplicate replaces the earlier one
+            const last = entry.points[entry.points.length - 1];
+            if (last?.date === date) {
+                last.value = canonical.value;
+            } else {
+                entry.points.push({ date, value: canonical.value });
+            }
+            series.set(key, entry);
+        });
+    });
+
+    const newestDate = resolveReportChronoDate(chronological[chronological.length - 1]).toISOString();
+    const lines: string[] = [];
+    series.forEach((entry, key) => {
+        // Only the newest report can be "unusual now"
+        if (entry.points[entry.points.length - 1]?.date !== newestDate) {
+            return;
+        }
+        const baseline = computeMarkerBaseline(key, entry.points);
+        if (!baseline?.significant) {
+            return;
+        }
+        const latest = entry.points[entry.points.length - 1].value;
+        const unit = entry.unit ? ` ${entry.unit}` : '';
+        const sign = baseline.changePercent > 0 ? '+' : '';
+        const threshold = baseline.direction === 'up' ? `+${baseline.rcv.increase}` : `-${baseline.rcv.decrease}`;
+        lines.push(
+            `• ${entry.displayName}: ${latest}${unit} vs personal baseline ${baseline.mean}${unit} ` +
+            `(mean of ${baseline.sampleCount} earlier result${baseline.sampleCount > 1 ? 's' : ''}) — ${sign}${baseline.changePercent}%, ` +
+            `beyond the ${threshold}% significant-change threshold | Lab status: ${entry.status}`
+        );
+    });
+
+    if (lines.length === 0) {
+        return '';
+    }
+
+    return `=== 🧭 UNUSUAL FOR THIS USER (vs. their own baseline) ===\n` +
+        `These changes exceed normal biological and analytical variation for this person. This is separate from ` +
+        `out-of-range flags: a marker can be within the lab's reference range and still be unusual for them. ` +
+        `Mention both when relevant and don't describe an in-range value as abnormal.\n\n` +
+        lines.slice(0, 15).join('\n');
+}
+
 function normalizeMessageFormula(formula?: unknown): MessageFormulaPayload | null {
     if (!formula || typeof formula !== 'object') {
         return null;
@@ -298,6 +376,9 @@ export class ChatService {
      * them hang indefinitely.
      */
     async complete(args: {
+        /** ai_usage_logs feature; defaults to 'chat' */
+        feature?: string;
+        userId?: string | null;
         provider: 'openai' | 'anthropic';
         model: string;
         systemPrompt: string;
@@ -307,6 +388,8 @@ export class ChatService {
         timeoutMs?: number;
     }): Promise<string> {
         const {
+            feature = 'chat',
+            userId,
             provider,
             model,
             systemPrompt,
@@ -316,33 +399,19 @@ export class ChatService {
             timeoutMs = 12_000,
         } = args;
 
-        const callPromise: Promise<string> = (async () => {
-            if (provider === 'anthropic') {
-                const resp = await anthropic.messages.create({
-                    model,
-                    max_tokens: maxTokens,
-                    system: systemPrompt,
-                    temperature,
-                    messages: [{ role: 'user', content: userPrompt }],
-                });
-                const text = resp.content
-                    .filter((b: any) => b.type === 'text')
-                    .map((b: any) => b.text)
-                    .join('');
-                return text;
-            } else {
-                const resp = await openai.chat.completions.create({
-                    model,
-                    temperature,
-                    max_completion_tokens: maxTokens,
-                    messages: [
-                        { role: 'system', content: systemPrompt },
-                        { role: 'user', content: userPrompt },
-                    ],
-                });
-                return resp.choices?.[0]?.message?.content || '';
-            }
-        })();
+        // No failover: a second provider attempt would blow the time budget
+        const callPromise: Promise<string> = complete({
+            feature,
+            userId,
+            provider,
+            model,
+            system: systemPrompt,
+            messages: [{ role: 'user', content: userPrompt }],
+            temperature,
+            maxTokens,
+            timeoutMs,
+            failover: false,
+        }).then(response => response.text);
 
         // Hard timeout — we don't want a slow expansion call to block formula save.
         let timer: NodeJS.Timeout | undefined;
@@ -357,57 +426,6 @@ export class ChatService {
         }
     }
 
-    async *streamAnthropic(systemPrompt: string, messages: any[], model: string, temperature: number, maxTokens: number) {
-        const stream = await anthropic.messages.stream({
-            model: model,
-            max_tokens: maxTokens,
-            messages: messages,
-            system: systemPrompt,
-            temperature: temperature,
-        });
-
-        let inputTokens = 0;
-        let outputTokens = 0;
-
-        for await (const event of stream) {
-            if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
-                yield { type: 'text' as const, content: event.delta.text };
-            }
-            // Capture usage from message_start (input tokens) and message_delta (output tokens)
-            if (event.type === 'message_start' && (event as any).message?.usage) {
-                inputTokens = (event as any).message.usage.input_tokens || 0;
-            }
-            if (event.type === 'message_delta' && (event as any).usage) {
-                outputTokens = (event as any).usage.output_tokens || 0;
-            }
-        }
-
-        // Yield usage info collected from stream events
-        if (inputTokens > 0 || outputTokens > 0) {
-            yield {
-                type: 'usage' as const,
-                content: '',
-                inputTokens,
-                outputTokens,
-            };
-        } else {
-            // Fallback: try finalMessage() which accumulates the full response
-            try {
-                const finalMsg = await stream.finalMessage();
-                if (finalMsg.usage) {
-                    yield {
-                        type: 'usage' as const,
-                        content: '',
-                        inputTokens: finalMsg.usage.input_tokens,
-                        outputTokens: finalMsg.usage.output_tokens,
-                    };
-                }
-            } catch {
-                // Usage extraction is best-effort
-            }
-        }
-    }
-
     async getConsultationHistory(userId: string) {
         const sessions = await chatRepository.listChatSessionsByUser(userId);
 
@@ -585,7 +603,7 @@ export class ChatService {
 
         logger.debug('[Chat:getContext] Fetching context', { userId, startDate, endDate, lookbackDays, formulaAgeDays });
 
-        const [healthProfile, labReports, biometricResult, currentUser] = await Promise.all([
+        const [healthProfile, labReports, biometricResult, currentUser, patientMemoryContext] = await Promise.all([
             usersRepository.getHealthProfile(userId).catch(() => null),
             filesRepository.getLabReportsByUser(userId),
             wearablesService.getBiometricData(userId, startDate, endDate).catch((err) => {
@@ -593,6 +611,10 @@ export class ChatService {
                 return { data: [] };
             }),
             usersRepository.getUser(userId).catch(() => undefined),
+            patientMemoryService.getPromptContext(userId).catch((err) => {
+                logger.error('[Chat] Failed to load patient memory', { userId, error: err?.message || err });
+                return undefined;
+            }),
         ]);
 
         // Biomarker keys the user has chosen to hide from the AI. Values are already
@@ -626,6 +648,7 @@ export class ChatService {
                 .sort((a, b) => resolveReportChronoDate(b).getTime() - resolveReportChronoDate(a).getTime());
 
             const labTrendSummary = buildLabTrendSummary(sortedReports, hiddenMarkerSet);
+            const personalBaselineSummary = buildPersonalBaselineSummary(sortedReports, hiddenMarkerSet);
 
             // Stale-data guardrail: if the user's most recent lab is more than
             // 24 months old, prepend a strong instruction telling the AI not to
@@ -648,7 +671,7 @@ export class ChatService {
                 const allValues = data.extractedData as any[];
                 // Filter out markers the user has hidden from the AI.
                 const values = hiddenMarkerSet.size > 0
-                    ? allValues.filter((v: any) => !hiddenMarkerSet.has(canonicalKey(v.testName || '')))
+                    ? allValues.filter((v: any) => !hiddenMarkerSet.has(canonicalKey(v.testName || '', v.loincCode)))
                     : allValues;
                 const uploadDateStr = new Date(report.uploadedAt || '').toLocaleDateString();
                 const reportDate = resolveReportChronoDate(report);
@@ -667,7 +690,7 @@ export class ChatService {
             });
 
             if (processedReports.length > 0) {
-                labDataContext = [stalenessWarning, labTrendSummary, `=== 📊 LAB REPORTS ===\n\n${processedReports.join('\n\n')}`]
+                labDataContext = [stalenessWarning, labTrendSummary, personalBaselineSummary, `=== 📊 LAB REPORTS ===\n\n${processedReports.join('\n\n')}`]
                     .filter(Boolean)
                     .join('\n\n');
             }
@@ -678,7 +701,12 @@ export class ChatService {
         const biometricDays = biometricResult?.data || [];
         if (biometricDays.length > 0) {
             const lines: string[] = [];
-            lines.push(`Data source: Wearable device(s) via Junction`);
+            // Several devices can report the same metric; say which one each number comes from
+            const sources = summarizeProvenance(biometricDays)
+                .map(({ provider, metrics }) => `${PROVIDER_DISPLAY_NAMES[provider] ?? provider.replace(/_/g, ' ')} (${metrics.join(', ')})`);
+            lines.push(sources.length > 0
+                ? `Data sources: ${sources.join('; ')}`
+                : `Data source: Wearable device(s) via Junction`);
             lines.push(`Period: ${startDate} to ${endDate} (${biometricDays.length} days with data, ~${lookbackDays}-day window covering current formula cycle)\n`);
 
             type Bucket = { sleepScores: number[]; sleepMinutes: number[]; deepSleepMins: number[]; remSleepMins: number[]; hrvValues: number[]; restingHRs: number[]; recoveryScores: number[]; readinessScores: number[]; stepCounts: number[]; spo2Values: number[]; respiratoryRates: number[]; };
@@ -788,7 +816,7 @@ export class ChatService {
             biometricDataContext = lines.join('\n');
         }
 
-        return { healthProfile, labDataContext, activeFormula, biometricDataContext };
+        return { healthProfile, labDataContext, activeFormula, biometricDataContext, patientMemoryContext };
     }
 }
 
@@ -0,0 +1,54 @@
+import { db } from '../../infra/db/db';
+import { chatSessions, patientMemories, type InsertPatientMemory, type PatientMemory } from '@shared/schema';
+import { and, desc, eq } from 'drizzle-orm';
+
+export type PatientMemoryWithSource = PatientMemory & { sourceSessionTitle: string | null };
+
+export class PatientMemoryRepository {
+    async listByUser(userId: string, limit = 200): Promise<PatientMemoryWithSource[]> {
+        const rows = await db
+            .select({ memory: patientMemories, sourceSessionTitle: chatSessions.title })
+            .from(patientMemories)
+            .leftJoin(chatSessions, eq(patientMemories.sourceSessionId, chatSessions.id))
+            .where(eq(patientMemories.userId, userId))
+            .orderBy(desc(patientMemories.updatedAt))
+            .limit(limit);
+        return rows.map(r => ({ ...r.memory, sourceSessionTitle: r.sourceSessionTitle ?? null }));
+    }
+
+    async getById(userId: string, id: string): Promise<PatientMemory | undefined> {
+        const [row] = await db
+            .select()
+            .from(patientMemories)
+            .where(and(eq(patientMemories.id, id), eq(patientMemories.userId, userId)));
+        return row || undefined;
+    }
+
+    async insert(memory: InsertPatientMemory): Promise<PatientMemory> {
+        const [row] = await db.insert(patientMemories).values(memory).returning();
+        return row;
+    }
+
+    async update(
+        userId: string,
+        id: string,
+        updates: Partial<Omit<InsertPatientMemory, 'id' | 'userId' | 'createdAt'>>,
+    ): Promise<PatientMemory | undefined> {
+        const [row] = await db
+            .update(patientMemories)
+            .set({ ...updates, updatedAt: new Date() })
+            .where(and(eq(patientMemories.id, id), eq(patientMemories.userId, userId)))
+            .returning();
+        return row || undefined;
+    }
+
+    async delete(userId: string, id: string): Promise<boolean> {
+        const deleted = await db
+            .delete(patientMemories)
+            .where(and(eq(patientMemories.id, id), eq(patientMemories.userId, userId)))
+            .returning({ id: patientMemories.id });
+        return deleted.length > 0;
+    }
+}
+
+export const patientMemoryRepository = new PatientMemoryRepository();
@@ -0,0 +1,252 @@
+/**
+ * Long-term patient memory
+ *
+ * Sessions start nearly fresh: rejected ingredients and formulation mode
+ * live on the session, and getContext() rebuilds everything else from the
+ * raw tables. This keeps what the user has told us across consultations —
+ * preferences, tolerances, goals, past decisions — as short statements,
+ * each tied to the message it came from.
+ *
+ * Memories are extracted from user turns by preference-extractor-ai.ts
+ * (plus one "decision" per ingredient the user asked to drop), can be read,
+ * edited, added and deleted by the user on the profile page, and reach the
+ * consultation prompt through ChatService.getContext() with a citation for
+ * every line.
+ */
+
+import type { PatientMemory } from '@shared/schema';
+import { patientMemoryRepository, type PatientMemoryWithSource } from './patient-memory.repository';
+import { extractMemoriesWithAI, type ExtractedMemory, type ExtractorAICaller } from './preference-extractor-ai';
+import { encryptField, decryptField } from '../../infra/security/fieldEncryption';
+import logger from '../../infra/logging/logger';
+
+export type PatientMemoryKind = PatientMemory['kind'];
+
+export const PATIENT_MEMORY_KINDS: PatientMemoryKind[] = ['preference', 'tolerance', 'goal', 'decision'];
+
+// Newest memories first; older ones stay on the profile page but not in the prompt
+const PROMPT_MEMORY_LIMIT = 25;
+const QUOTE_LENGTH = 240;
+
+const KIND_LABEL: Record<PatientMemoryKind, string> = {
+    preference: 'Preference',
+    tolerance: 'Tolerance',
+    goal: 'Goal',
+    decision: 'Decision',
+};
+
+export interface PatientMemoryView {
+    id: string;
+    kind: PatientMemoryKind;
+    content: string;
+    ingredient: string | null;
+    origin: PatientMemory['origin'];
+    sourceSessionId: string | null;
+    sourceSessionTitle: string | null;
+    sourceMessageId: string | null;
+    sourceQuote: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface RememberTurnInput {
+    userId: string;
+    sessionId: string;
+    messageId: string | null;
+    message: string;
+    recentContext?: string;
+    /** Ingredients this turn asked to drop; each becomes a "decision" */
+    rejectedIngredients?: string[];
+    callAI: ExtractorAICaller;
+}
+
+export type MemoryCandidate = ExtractedMemory;
+
+export interface MemoryWritePlan {
+    inserts: MemoryCandidate[];
+    updates: Array<{ id: string; candidate: MemoryCandidate }>;
+}
+
+const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+function safeDecrypt(value: string | null): string | null {
+    if (!value) return value;
+    try {
+        return decryptField(value);
+    } catch (err) {
+        logger.warn('Failed to decrypt patient memory field', { error: err instanceof Error ? err.message : err });
+        return null;
+    }
+}
+
+function toView(row: PatientMemoryWithSource): PatientMemoryView | null {
+    const content = safeDecrypt(row.content);
+    if (!content) return null;
+    return {
+        id: row.id,
+        kind: row.kind,
+        content,
+        ingredient: row.ingredient,
+        origin: row.origin,
+        sourceSessionId: row.sourceSessionId,
+        sourceSessionTitle: row.sourceSessionTitle,
+        sourceMessageId: row.sourceMessageId,
+        sourceQuote: safeDecrypt(row.sourceQuote),
+        createdAt: row.createdAt,
+        updatedAt: row.updatedAt,
+    };
+}
+
+/**
+ * Decide which candidates are new and which restate an existing memory.
+ * Same kind and same ingredient, or the same wording, counts as the same
+ * memory; the newer statement replaces an extracted one, but anything the
+ * user wrote or edited themselves is left alone.
+ */
+export function planMemoryWrites(existing: PatientMemoryView[], candidates: MemoryCandidate[]): MemoryWritePlan {
+    const plan: MemoryWritePlan = { inserts: [], updates: [] };
+    const claimed = new Set<string>();
+    for (const candidate of candidates) {
+        const match = existing.find(m =>
+            m.kind === candidate.kind && (
+                (m.ingredient !== null && m.ingredient === candidate.ingredient)
+                || normalize(m.content) === normalize(candidate.content)
+            ));
+        if (!match) {
+            plan.inserts.push(candidate);
+        } else if (match.origin === 'extracted' && !claimed.has(match.id)
+            && normalize(match.content) !== normalize(candidate.content)) {
+            claimed.add(match.id);
+            plan.updates.push({ id: match.id, candidate });
+        }
+    }
+    return plan;
+}
+
+/** Prompt block: one line per memory, each followed by where it came from */
+export function formatMemoryContext(memories: PatientMemoryView[]): string {
+    return memories.map((m, i) => {
+        const date = m.updatedAt.toISOString().slice(0, 10);
+        let source: string;
+        if (m.origin === 'user') {
+            source = `written by the user on their profile, ${date}`;
+        } else if (m.sourceMessageId) {
+            const session = m.sourceSessionTitle ? ` in "${m.sourceSessionTitle}"` : '';
+            const quote = m.sourceQuote ? `: "${m.sourceQuote}"` : '';
+            source = `said ${date}${session} (message ${m.sourceMessageId.slice(0, 8)})${quote}`;
+        } else {
+            source = `noted ${date}`;
+        }
+        return `[M${i + 1}] ${KIND_LABEL[m.kind]}: ${m.content}\n     Source: ${source}`;
+    }).join('\n');
+}
+
+export class PatientMemoryService {
+    async listForUser(userId: string): Promise<PatientMemoryView[]> {
+        const rows = await patientMemoryRepository.listByUser(userId);
+        return rows.map(toView).filter((m): m is PatientMemoryView => m !== null);
+    }
+
+    /** The memory block for the consultation prompt, or undefined when there is nothing to remember */
+    async getPromptContext(userId: string): Promise<string | undefined> {
+        const memories = (await this.listForUser(userId)).slice(0, PROMPT_MEMORY_LIMIT);
+        return memories.length > 0 ? formatMemoryContext(memories) : undefined;
+    }
+
+    async addMemory(userId: string, input: { kind: PatientMemoryKind; content: string }): Promise<PatientMemoryView> {
+        const row = await patientMemoryRepository.insert({
+            userId,
+            kind: input.kind,
+            content: encryptField(input.content.trim()),
+            origin: 'user',
+        });
+        return toView({ ...row, sourceSessionTitle: null })!;
+    }
+
+    /** A user edit makes the memory theirs: extraction will no longer overwrite it */
+    async updateMemory(
+        userId: string,
+        id: string,
+        updates: { kind?: PatientMemoryKind; content?: string },
+    ): Promise<PatientMemoryView | undefined> {
+        const row = await patientMemoryRepository.update(userId, id, {
+            ...(updates.kind ? { kind: updates.kind } : {}),
+            ...(updates.content ? { content: encryptField(updates.content.trim()) } : {}),
+            origin: 'user',
+        });
+        return row ? toView({ ...row, sourceSessionTitle: null }) ?? undefined : undefined;
+    }
+
+    async deleteMemory(userId: string, id: string): Promise<boolean> {
+        return patientMemoryRepository.delete(userId, id);
+    }
+
+    /**
+     * Extract and store memories from one user turn. Best-effort: failures
+     * are logged, never thrown, so memory can't hold up a reply.
+     */
+    async rememberTurn(input: RememberTurnInput): Promise<number> {
+        try {
+            const candidates: MemoryCandidate[] = (input.rejectedIngredients || []).map(name => ({
+                kind: 'decision' as const,
+                content: `Asked to keep ${name} out of their formula`,
+                ingredient: name,
+            }));
+
+            const extracted = await extractMemoriesWithAI(
+                { message: input.message, recentContext: input.recentContext },
+                input.callAI,
+            );
+            candidates.push(...extracted.memories);
+            if (candidates.length === 0) return 0;
+
+            const existing = await this.listForUser(input.userId);
+            const plan = planMemoryWrites(existing, candidates);
+            const quote = input.message.trim().slice(0, QUOTE_LENGTH);
+            const source = {
+                sourceSessionId: input.sessionId,
+                sourceMessageId: input.messageId,
+                sourceQuote: quote ? encryptField(quote) : null,
+            };
+
+            for (const candidate of plan.inserts) {
+                await patientMemoryRepository.insert({
+                    userId: input.userId,
+                    kind: candidate.kind,
+                    content: encryptField(candidate.content),
+                    ingredient: candidate.ingredient,
+                    origin: 'extracted',
+                    ...source,
+                });
+            }
+            for (const { id, candidate } of plan.updates) {
+                await patientMemoryRepository.update(input.userId, id, {
+                    content: encryptField(candidate.content),
+                    ingredient: candidate.ingredient,
+                    ...source,
+                });
+            }
+
+            const written = plan.inserts.length + plan.updates.length;
+            if (written > 0) {
+                logger.info('Patient memories updated', {
+                    userId: input.userId,
+                    sessionId: input.sessionId,
+                    added: plan.inserts.length,
+                    updated: plan.updates.length,
+                    kinds: Array.from(new Set(candidates.map(c => c.kind))),
+                });
+            }
+            return written;
+        } catch (err) {
+            logger.warn('Failed to update patient memories', {
+                userId: input.userId,
+                sessionId: input.sessionId,
+                error: err instanceof Error ? err.message : err,
+            });
+            return 0;
+        }
+    }
+}
+
+export const patientMemoryService = new PatientMemoryService();
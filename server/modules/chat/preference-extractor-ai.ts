@@ -227,3 +227,168 @@ export async function extractRejectionsWithAI(
   const rejected = parseExtractorResponse(raw);
   return { rejected, ranAI: true };
 }
+
+// ---------------------------------------------------------------------------
+// Long-term memory extraction
+//
+// The same cheap, strict call pattern, pointed at what should outlive the
+// session: stated preferences ("I'd rather take fewer capsules"),
+// tolerances ("magnesium glycinate upsets my stomach"), goals ("training
+// for a marathon in May") and decisions ("I'm going to stop my fish oil").
+// patient-memory.service.ts stores the result. Same contract: NEVER throws.
+// ---------------------------------------------------------------------------
+
+export type ExtractedMemoryKind = 'preference' | 'tolerance' | 'goal' | 'decision';
+
+export interface ExtractedMemory {
+  kind: ExtractedMemoryKind;
+  /** Third-person statement, e.g. "Magnesium glycinate upsets their stomach" */
+  content: string;
+  /** Catalog name the memory is about, when it is about one */
+  ingredient: string | null;
+}
+
+export interface AIMemoryExtractionResult {
+  memories: ExtractedMemory[];
+  ranAI: boolean;
+  reason?: string;
+}
+
+const MEMORY_KINDS: ExtractedMemoryKind[] = ['preference', 'tolerance', 'goal', 'decision'];
+const MAX_MEMORIES_PER_MESSAGE = 5;
+const MAX_MEMORY_LENGTH = 200;
+
+/**
+ * First-person statements about the user themselves. Questions and plain
+ * formula requests don't match, so most turns skip the call.
+ */
+const MEMORY_SIGNAL_PATTERNS: RegExp[] = [
+  /\b(upsets?|bothers?|irritates?)\s+(my|me)\b/i,
+  /\bmakes?\s+me\s+(feel\s+)?(sick|nauseous|jittery|anxious|dizzy|bloated|tired|wired)\b/i,
+  /\b(can'?t|cannot|couldn'?t)\s+(tolerate|handle|stomach|swallow)\b/i,
+  /\b(allergic|sensitive|intolerant)\s+to\b/i,
+  /\bi\s+(prefer|like|love|hate|dislike|avoid|want|need)\b/i,
+  /\bi(?:'m|\s+am)\s+(trying|working)\s+to\b/i,
+  /\bi'?d\s+rather\b/i,
+  /\bmy\s+(main\s+|biggest\s+|top\s+)?(goal|priority|focus)\b/i,
+  /\b(training|preparing)\s+for\b/i,
+  /\bi(?:'ve|\s+have)?\s+(decided|chose)\b/i,
+  /\bi(?:'ll|\s+will|'m\s+going\s+to|\s+am\s+going\s+to)\s+(stop|start|keep|switch|skip|stay)\b/i,
+  /\b(vegan|vegetarian|kosher|halal)\b/i,
+];
+
+export function shouldRunMemoryExtractor(message: string): boolean {
+  if (!message || typeof message !== 'string') return false;
+  if (message.trim().length < 12) return false;
+  return MEMORY_SIGNAL_PATTERNS.some(re => re.test(message));
+}
+
+function buildMemoryPrompt(message: string, recentContext?: string): {
+  system: string;
+  user: string;
+} {
+  const system = `You pick out facts worth remembering long-term from a single user chat message in a supplement-formulation app.
+
+Return only things the user states about THEMSELVES that should still matter in a consultation weeks from now:
+  - "preference": how they like their regimen (capsule count, timing, format, diet, budget, brands)
+  - "tolerance": something that does or doesn't agree with them (side effects, sensitivities, allergies)
+  - "goal": what they are working towards
+  - "decision": something they decided about their regimen or formula
+
+RULES:
+  1. Output strict JSON: {"memories": [{"kind": "tolerance", "content": "...", "ingredient": "Magnesium" | null}]}
+  2. "content" is one short third-person sentence (max 25 words), e.g. "Magnesium glycinate upsets their stomach".
+  3. "ingredient" is an EXACT name from the approved list when the memory is about one of them, otherwise null.
+  4. Do NOT record questions, requests for this turn only ("make it 6 capsules this time"), lab values, medications or diagnoses (those live in the health profile), or anything the assistant said.
+  5. If there is nothing worth remembering, return {"memories": []}.
+  6. Never include text outside the JSON object.
+
+Examples:
+  Message: "magnesium glycinate upsets my stomach, can we use something else"
+  -> {"memories": [{"kind": "tolerance", "content": "Magnesium glycinate upsets their stomach", "ingredient": "Magnesium"}]}
+
+  Message: "I'd rather keep it to 6 capsules a day, I hate swallowing pills. Main goal is better sleep."
+  -> {"memories": [{"kind": "preference", "content": "Prefers no more than 6 capsules a day; dislikes swallowing pills", "ingredient": null}, {"kind": "goal", "content": "Main goal is better sleep", "ingredient": null}]}
+
+  Message: "what does ashwagandha do?"
+  -> {"memories": []}`;
+
+  const user = [
+    recentContext ? `Recent conversation context:\n${recentContext}\n` : '',
+    `User's latest message:\n"""${message}"""\n`,
+    `Approved ingredient list (use EXACT names):\n${ALL_CATALOG_NAMES.join(', ')}\n`,
+    `Return only the JSON object.`,
+  ].filter(Boolean).join('\n');
+
+  return { system, user };
+}
+
+export function parseMemoryResponse(raw: string): ExtractedMemory[] {
+  if (!raw || typeof raw !== 'string') return [];
+
+  let cleaned = raw.trim();
+  const fenceMatch = cleaned.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
+  if (fenceMatch) cleaned = fenceMatch[1].trim();
+
+  const objMatch = cleaned.match(/\{[\s\S]*\}/);
+  if (!objMatch) return [];
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(objMatch[0]);
+  } catch {
+    return [];
+  }
+  if (!parsed || !Array.isArray(parsed.memories)) return [];
+
+  const out: ExtractedMemory[] = [];
+  const seen = new Set<string>();
+  for (const item of parsed.memories) {
+    if (!item || !MEMORY_KINDS.includes(item.kind)) continue;
+    const content = typeof item.content === 'string' ? item.content.trim().replace(/\s+/g, ' ') : '';
+    if (content.length < 5 || content.length > MAX_MEMORY_LENGTH) continue;
+    const key = `${item.kind}:${content.toLowerCase()}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    // Unknown ingredient names are dropped, the memory itself is kept
+    const ingredient = typeof item.ingredient === 'string'
+      ? CATALOG_NAMES_LC.get(item.ingredient.toLowerCase().trim()) ?? null
+      : null;
+    out.push({ kind: item.kind, content, ingredient });
+    if (out.length >= MAX_MEMORIES_PER_MESSAGE) break;
+  }
+  return out;
+}
+
+/**
+ * Run the memory extractor against a single user message. NEVER throws.
+ * Returns `ranAI: false` when the gate decided the message carries nothing
+ * worth remembering.
+ */
+export async function extractMemoriesWithAI(
+  args: {
+    message: string;
+    recentContext?: string;
+  },
+  callAI: ExtractorAICaller,
+  opts: { timeoutMs?: number } = {},
+): Promise<AIMemoryExtractionResult> {
+  const { message, recentContext } = args;
+
+  if (!shouldRunMemoryExtractor(message)) {
+    return { memories: [], ranAI: false, reason: 'gate skipped' };
+  }
+
+  const timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const { system, user } = buildMemoryPrompt(message, recentContext);
+
+  let raw: string;
+  try {
+    raw = await callAI({ systemPrompt: system, userPrompt: user, timeoutMs });
+  } catch (err: any) {
+    logger.warn('AI memory extractor call failed', { error: err?.message });
+    return { memories: [], ranAI: true, reason: `call failed: ${err?.message || 'unknown'}` };
+  }
+
+  return { memories: parseMemoryResponse(raw), ranAI: true };
+}
@@ -0,0 +1,35 @@
+import { db } from '../../infra/db/db';
+import { promptEvalRuns, type PromptEvalRun, type InsertPromptEvalRun } from '@shared/schema';
+import { and, eq, desc, lt, ne } from 'drizzle-orm';
+
+export class PromptEvalRepository {
+    async insertRun(run: InsertPromptEvalRun): Promise<PromptEvalRun> {
+        const [row] = await db.insert(promptEvalRuns).values(run).returning();
+        return row;
+    }
+
+    async getRun(id: string): Promise<PromptEvalRun | undefined> {
+        const [row] = await db.select().from(promptEvalRuns).where(eq(promptEvalRuns.id, id));
+        return row || undefined;
+    }
+
+    async listRuns(limit = 20): Promise<PromptEvalRun[]> {
+        return db.select().from(promptEvalRuns).orderBy(desc(promptEvalRuns.createdAt)).limit(limit);
+    }
+
+    /** Latest run before `before` of a prompt version other than `promptVersion` — the baseline for a prompt change */
+    async getPreviousVersionRun(promptVersion: string, before: Date): Promise<PromptEvalRun | undefined> {
+        const [row] = await db
+            .select()
+            .from(promptEvalRuns)
+            .where(and(
+                ne(promptEvalRuns.promptVersion, promptVersion),
+                lt(promptEvalRuns.createdAt, before),
+            ))
+            .orderBy(desc(promptEvalRuns.createdAt))
+            .limit(1);
+        return row || undefined;
+    }
+}
+
+export const promptEvalRepository = new PromptEvalRepository();
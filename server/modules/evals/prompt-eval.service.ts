@@ -0,0 +1,208 @@
+/**
+ * Prompt Eval Service
+ *
+ * Runs the consultation system prompt over the synthetic personas, grades
+ * every reply (eval-grader.ts) and stores the run in prompt_eval_runs keyed
+ * by prompt version, so a prompt-builder change can be compared against the
+ * last run of the previous prompt before it ships.
+ *
+ * Model calls go through the LLM gateway under feature 'prompt_eval', so a
+ * run recorded once with LLM_OFFLINE=record replays in CI — until the
+ * prompt changes, which is the point. scripts/run-prompt-evals.ts is the
+ * command-line entry point.
+ */
+
+import crypto from 'crypto';
+import type { PromptEvalRun } from '@shared/schema';
+import type { PersonaEvalDelta, PersonaEvalResult, PromptEvalComparison } from '@shared/prompt-evals';
+import { buildO1MiniPrompt, type PromptContext } from '../../utils/prompt-builder';
+import { analyzeQueryIntent } from '../../utils/query-intent-analyzer';
+import { complete, defaultProvider, resolveModel, type LlmProvider } from '../../infra/ai/llm-gateway';
+import { EVAL_PERSONAS, type EvalPersona } from './eval-personas';
+import { gradeResponse } from './eval-grader';
+import { promptEvalRepository } from './prompt-eval.repository';
+import logger from '../../infra/logging/logger';
+
+export const PROMPT_EVAL_FEATURE = 'prompt_eval';
+
+// The chat controller's settings for a consultation turn
+const EVAL_MAX_TOKENS = 4096;
+const EVAL_TEMPERATURE = 0.7;
+
+// Fixed so the built prompts (and their cassettes) don't change between runs
+const EVAL_PROFILE_DATE = new Date('2026-01-01T00:00:00Z');
+
+export interface PromptEvalOptions {
+    personas?: EvalPersona[];
+    provider?: LlmProvider;
+    model?: string;
+    label?: string;
+}
+
+export type PromptEvalSummary = Pick<
+    PromptEvalRun,
+    'promptVersion' | 'label' | 'provider' | 'model' | 'personaCount' | 'passedCount' | 'score' | 'results'
+>;
+
+/** Same layout as the lab block ChatService.getContext() builds for a single report */
+function labDataContext(labs: EvalPersona['labs']): string | undefined {
+    if (!labs || labs.markers.length === 0) return undefined;
+    const rows = labs.markers.map(m => `  • ${m.testName}: ${m.value} ${m.unit} | Status: ${m.status}`).join('\n');
+    return `=== 📊 LAB REPORTS ===\n\n🆕 LATEST REPORT (most recent test date)\n📋 Test Date: ${labs.testDate}\nBiomarkers:\n${rows}`;
+}
+
+/** The system prompt and first message the chat controller would send for this persona */
+export function buildPersonaPrompt(persona: EvalPersona): { system: string; message: string } {
+    const context: PromptContext = {
+        healthProfile: {
+            id: `eval-${persona.id}`,
+            userId: `eval-${persona.id}`,
+            updatedAt: EVAL_PROFILE_DATE,
+            ...persona.profile,
+        },
+        labDataContext: labDataContext(persona.labs),
+        biometricDataContext: persona.biometricDataContext,
+        recentMessages: [{ role: 'user', content: persona.message }],
+        queryIntent: analyzeQueryIntent(persona.message),
+        currentUserMessage: persona.message,
+        isActiveMember: false,
+        hasOrderedFormula: false,
+        rejectedIngredientNames: persona.rejectedIngredients,
+    };
+    return { system: buildO1MiniPrompt(context), message: persona.message };
+}
+
+/**
+ * Hash of every system prompt the personas produce. Any prompt-builder
+ * change that reaches a persona's prompt yields a new version.
+ */
+export function promptVersion(personas: EvalPersona[] = EVAL_PERSONAS): string {
+    const hash = crypto.createHash('sha256');
+    for (const persona of [...personas].sort((a, b) => a.id.localeCompare(b.id))) {
+        hash.update(persona.id).update('\0').update(buildPersonaPrompt(persona).system).update('\0');
+    }
+    return hash.digest('hex').slice(0, 16);
+}
+
+/** Run and grade every persona; personas run one at a time */
+export async function evaluatePrompt(options: PromptEvalOptions = {}): Promise<PromptEvalSummary> {
+    const personas = options.personas ?? EVAL_PERSONAS;
+    const provider = options.provider ?? defaultProvider();
+    const model = resolveModel(provider, options.model);
+
+    const results: PersonaEvalResult[] = [];
+    for (const persona of personas) {
+        const { system, message } = buildPersonaPrompt(persona);
+        try {
+            const response = await complete({
+                feature: PROMPT_EVAL_FEATURE,
+                provider,
+                model,
+                system,
+                messages: [{ role: 'user', content: message }],
+                maxTokens: EVAL_MAX_TOKENS,
+                temperature: EVAL_TEMPERATURE,
+                failover: false,
+                metadata: { personaId: persona.id },
+            });
+            results.push(gradeResponse(persona, response.text));
+        } catch (err: any) {
+            logger.warn('[PromptEval] Persona call failed', { personaId: persona.id, error: err?.message || err });
+            results.push({
+                personaId: persona.id,
+                passed: false,
+                score: 0,
+                checks: [],
+                formula: null,
+                totalMg: null,
+                safetySeverity: 'none',
+                claimViolations: 0,
+                error: String(err?.message || err),
+            });
+        }
+    }
+
+    const passedCount = results.filter(r => r.passed).length;
+    const meanScore = results.length > 0 ? results.reduce((sum, r) => sum + r.score, 0) / results.length : 0;
+    return {
+        promptVersion: promptVersion(personas),
+        label: options.label ?? null,
+        provider,
+        model,
+        personaCount: results.length,
+        passedCount,
+        score: Math.round(meanScore * 1000) / 1000,
+        results,
+    };
+}
+
+type ComparableRun = Pick<PromptEvalRun, 'id' | 'score' | 'passedCount' | 'results'>;
+
+/** Per-persona differences from `baseline` to `candidate` */
+export function comparePromptEvalRuns(baseline: ComparableRun, candidate: ComparableRun): PromptEvalComparison {
+    const before = new Map(baseline.results.map(r => [r.personaId, r]));
+    const after = new Map(candidate.results.map(r => [r.personaId, r]));
+    const personaIds = Array.from(new Set([...before.keys(), ...after.keys()]));
+
+    const personas: PersonaEvalDelta[] = personaIds.map(personaId => {
+        const b = before.get(personaId);
+        const a = after.get(personaId);
+        const passedBefore = new Set(b?.checks.filter(c => c.passed).map(c => c.id));
+        const passedAfter = new Set(a?.checks.filter(c => c.passed).map(c => c.id));
+        return {
+            personaId,
+            baselineScore: b?.score ?? null,
+            candidateScore: a?.score ?? null,
+            baselinePassed: b?.passed ?? null,
+            candidatePassed: a?.passed ?? null,
+            newlyFailing: a ? Array.from(passedBefore).filter(id => !passedAfter.has(id)) : [],
+            newlyPassing: b ? Array.from(passedAfter).filter(id => !passedBefore.has(id)) : [],
+        };
+    });
+
+    return {
+        baselineId: baseline.id,
+        candidateId: candidate.id,
+        scoreDelta: Math.round((candidate.score - baseline.score) * 1000) / 1000,
+        passedDelta: candidate.passedCount - baseline.passedCount,
+        regressions: personas
+            .filter(p => (p.baselinePassed && p.candidatePassed === false) || p.newlyFailing.length > 0)
+            .map(p => p.personaId),
+        personas,
+    };
+}
+
+export class PromptEvalService {
+    /** Evaluate the current prompt and store the run */
+    async run(options: PromptEvalOptions = {}): Promise<PromptEvalRun> {
+        const summary = await evaluatePrompt(options);
+        const run = await promptEvalRepository.insertRun(summary);
+        logger.info('[PromptEval] Run stored', {
+            runId: run.id,
+            promptVersion: run.promptVersion,
+            passed: `${run.passedCount}/${run.personaCount}`,
+            score: run.score,
+        });
+        return run;
+    }
+
+    /**
+     * Compare a run with `baselineId`, or by default with the latest earlier
+     * run of a different prompt version. Undefined when there is nothing to
+     * compare.
+     */
+    async compare(runId: string, baselineId?: string): Promise<PromptEvalComparison | undefined> {
+        const candidate = await promptEvalRepository.getRun(runId);
+        if (!candidate) return undefined;
+        const baseline = baselineId
+            ? await promptEvalRepository.getRun(baselineId)
+            : await promptEvalRepository.getPreviousVersionRun(candidate.promptVersion, candidate.createdAt);
+        return baseline ? comparePromptEvalRuns(baseline, candidate) : undefined;
+    }
+
+    async listRuns(limit?: number): Promise<PromptEvalRun[]> {
+        return promptEvalRepository.listRuns(limit);
+    }
+}
+
+export const promptEvalService = new PromptEvalService();
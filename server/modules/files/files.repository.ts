@@ -159,6 +159,15 @@ export class FilesRepository {
         return await db.select().from(fileUploads).where(whereClause).orderBy(desc(fileUploads.uploadedAt));
     }
 
+    /** Users with at least one (non-deleted) lab report — the retest reminder audience. */
+    async listUserIdsWithLabReports(): Promise<string[]> {
+        const rows = await db
+            .selectDistinct({ userId: fileUploads.userId })
+            .from(fileUploads)
+            .where(and(eq(fileUploads.type, 'lab_report'), isNull(fileUploads.deletedAt)));
+        return rows.map(r => r.userId);
+    }
+
     /**
      * Recover stale processing records on server startup.
      * Any file stuck in 'processing' or 'pending' gets set to 'error' so the user can retry.
@@ -1,8 +1,10 @@
 import fs from 'fs';
 import { filesRepository } from './files.repository';
 import { ObjectStorageService } from '../../utils/objectStorage';
-import { analyzeLabReport, looksLikeLabRequisition } from '../../utils/fileAnalysis';
+import { analyzeLabReport, looksLikeLabRequisition, type LabDataExtraction } from '../../utils/fileAnalysis';
 import { labsService } from '../labs/labs.service';
+import { parseStructuredLabFile, type StructuredLabImport } from '../labs/structured-lab-import';
+import { biomarkerReviewService } from '../labs/biomarker-review.service';
 import { notificationsService } from '../notifications/notifications.service';
 import { usersRepository } from '../users/users.repository';
 import { sendNotificationEmail } from '../../utils/emailService';
@@ -46,6 +48,8 @@ function classifyAnalysisOutcome(
     };
 }
 
+const STRUCTURED_LAB_EXTENSIONS = ['.json', '.hl7'];
+
 export class FilesService {
     private objectStorageService: ObjectStorageService;
 
@@ -107,27 +111,42 @@ export class FilesService {
             throw new Error(`File too large. Maximum size is 5MB.`);
         }
 
+        const fileName = uploadedFile.name.toLowerCase();
+        // FHIR JSON / HL7 exports are parsed directly; browsers report
+        // inconsistent MIME types for them so they're recognised by extension.
+        const isStructuredExport = STRUCTURED_LAB_EXTENSIONS.some(ext => fileName.endsWith(ext));
+
         const allowedMimeTypes = [
             'application/pdf', 'image/jpeg', 'image/jpg', 'image/png',
             'text/plain', 'application/msword',
             'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
         ];
 
-        if (!allowedMimeTypes.includes(uploadedFile.mimetype)) {
-            throw new Error('Invalid file type. Only PDF, JPG, PNG, TXT, DOC, and DOCX files are allowed.');
+        if (!isStructuredExport && !allowedMimeTypes.includes(uploadedFile.mimetype)) {
+            throw new Error('Invalid file type. Only PDF, JPG, PNG, TXT, DOC, DOCX, FHIR JSON and HL7 files are allowed.');
         }
 
-        const fileName = uploadedFile.name.toLowerCase();
         const allowedExtensions = ['.pdf', '.jpg', '.jpeg', '.png', '.txt', '.doc', '.docx'];
-        if (!allowedExtensions.some(ext => fileName.endsWith(ext))) {
+        if (!isStructuredExport && !allowedExtensions.some(ext => fileName.endsWith(ext))) {
             throw new Error('Invalid file extension.');
         }
 
-        // Magic byte verification to prevent spoofing
         const fileBuffer = (uploadedFile.data && uploadedFile.data.length > 0)
             ? uploadedFile.data
             : (uploadedFile.tempFilePath ? fs.readFileSync(uploadedFile.tempFilePath) : Buffer.alloc(0));
 
+        // Structured exports (and HL7 messages saved as .txt) skip OCR + AI extraction
+        if (isStructuredExport || uploadedFile.mimetype === 'text/plain') {
+            const structured = parseStructuredLabFile(fileBuffer.toString('utf8'));
+            if (structured) {
+                return this.importStructuredLabReport(userId, uploadedFile, fileBuffer, structured, auditInfo);
+            }
+            if (isStructuredExport) {
+                throw new Error('Invalid file: expected a FHIR R4 Bundle/DiagnosticReport/Observation or an HL7 v2 ORU^R01 message.');
+            }
+        }
+
+        // Magic byte verification to prevent spoofing
         this.validateMagicBytes(uploadedFile, fileBuffer);
 
         // Determine category.
@@ -275,8 +294,9 @@ export class FilesService {
                             analysisStatus: outcome.analysisStatus,
                             extractedData: markers,
                         });
+                        void biomarkerReviewService.recordUnmappedMarkers(markers);
                         // Fire-and-forget: generate marker insights in background
-                        void labsService.generateAllMarkerInsights(labDataExtraction.extractedData || []).then(async (markerInsights) => {
+                        void labsService.generateAllMarkerInsights(labDataExtraction.extractedData || [], userId).then(async (markerInsights) => {
                             const currentData = (await filesRepository.getFileUpload(fileId))?.labReportData as any;
                             if (currentData) {
                                 await filesRepository.updateFileUpload(fileId, {
@@ -289,81 +309,8 @@ export class FilesService {
                         // Record analysis completion time
                         await filesRepository.updateFileUpload(fileId, { analysisCompletedAt: new Date() } as any);
                         // Send lab results ready notification (skip if no biomarkers extracted)
-                        try {
-                            const { canonicalKey } = await import('../labs/biomarker-aliases');
-                            const uniqueKeys = new Set<string>();
-                            const keyToNames = new Map<string, string[]>();
-                            const rawCount = (labDataExtraction.extractedData || []).length;
-                            for (const m of labDataExtraction.extractedData || []) {
-                                const name = (m as any).testName || (m as any).name || '';
-                                if (!name) continue;
-                                const key = canonicalKey(name);
-                                if (key) {
-                                    uniqueKeys.add(key);
-                                    if (!keyToNames.has(key)) keyToNames.set(key, []);
-                                    keyToNames.get(key)!.push(name);
-                                }
-                            }
-                            // Log any merges so we can spot incorrect alias collisions
-                            const merges = [...keyToNames.entries()].filter(([, names]) => names.length > 1);
-                            if (merges.length > 0) {
-                                logger.info('Canonical dedup merged these markers:', {
-                                    rawCount,
-                                    dedupCount: uniqueKeys.size,
-                                    merges: merges.map(([key, names]) => `${key}: [${names.join(', ')}]`),
-                                });
-                            } else {
-                                logger.info('No canonical merges occurred', { rawCount, dedupCount: uniqueKeys.size });
-                            }
-                            const markerCount = uniqueKeys.size;
-                            posthog.capture({
-                                distinctId: userId,
-                                event: 'lab_report_analyzed',
-                                properties: {
-                                    file_id: fileId,
-                                    marker_count: markerCount,
-                                    raw_marker_count: rawCount,
-                                    document_kind: outcome.documentKind,
-                                    analysis_status: outcome.analysisStatus,
-                                    test_type: labDataExtraction.testType ?? null,
-                                    lab_name: labDataExtraction.labName ?? null,
-                                },
-                            });
-                            if (markerCount === 0) {
-                                logger.info('Skipping lab results notification — 0 biomarkers extracted', { userId, fileName });
-                                return;
-                            }
-                            await notificationsService.create({
-                                userId,
-                                type: 'system',
-                                title: 'Lab Results Analyzed',
-                                content: `Your lab report has been analyzed — ${markerCount} biomarker${markerCount !== 1 ? 's' : ''} extracted. Chat with your AI practitioner to discuss findings.`,
-                                metadata: {
-                                    actionUrl: '/dashboard/lab-reports',
-                                    icon: 'file-check',
-                                    priority: 'high'
-                                }
-                            });
-
-                            const labUser = await usersRepository.getUser(userId);
-                            if (labUser && await notificationsService.shouldSendEmail(userId, 'consultation')) {
-                                const frontendUrl = process.env.FRONTEND_URL || 'https://ones.health';
-                                const firstName = labUser.name?.split(' ')[0] || 'there';
-                                const labSource = labDataExtraction.labName ? ` from ${labDataExtraction.labName}` : '';
-                                const plural = markerCount !== 1 ? 's' : '';
-                                await sendNotificationEmail({
-                                    to: labUser.email,
-                                    subject: 'Your lab results have been analyzed',
-                                    title: 'Lab Results Ready',
-                                    type: 'system',
-                                    content: `<p>Hi ${firstName},</p><p>We've finished analyzing your lab report${labSource}.</p><p><strong>${markerCount} biomarker${plural}</strong> were extracted and are ready for review.</p><p>Chat with your AI practitioner to get personalized insights and see how your results might affect your formula.</p>`,
-                                    actionUrl: `${frontendUrl}/dashboard/lab-reports`,
-                                    actionText: 'View Lab Results',
-                                });
-                            }
-                        } catch (notifErr) {
-                            logger.warn('Failed to send lab results notification', { userId, error: notifErr });
-                        }                    }
+                        await this.announceLabResults(userId, fileId, fileName, labDataExtraction, outcome);
+                    }
                 } catch (error) {
                     logger.error('Lab report background analysis failed:', error);
                     if (fileId) {
@@ -402,6 +349,110 @@ export class FilesService {
         };
     }
 
+    /**
+     * Store a FHIR / HL7 lab export and write its parsed results straight
+     * into labReportData + lab_analyses. Analysis completes synchronously;
+     * only marker insights are generated in the background.
+     */
+    private async importStructuredLabReport(
+        userId: string,
+        uploadedFile: any,
+        fileBuffer: Buffer,
+        structured: StructuredLabImport,
+        auditInfo: any,
+    ) {
+        const { format, extraction } = structured;
+        const markers = extraction.extractedData || [];
+        if (markers.length === 0) {
+            throw new Error('Invalid file: the export contains no lab results with values.');
+        }
+
+        const mimeType = format === 'fhir_r4' ? 'application/fhir+json' : 'text/plain';
+        const normalizedPath = await this.objectStorageService.uploadLabReportFile(
+            userId,
+            fileBuffer,
+            uploadedFile.name,
+            mimeType
+        );
+
+        const outcome = classifyAnalysisOutcome(markers.length);
+        const now = new Date();
+        const labReportData = {
+            testDate: extraction.testDate,
+            testDateSource: extraction.testDateSource,
+            testDateConfidence: extraction.testDateConfidence,
+            testType: extraction.testType,
+            labName: extraction.labName,
+            analysisStatus: outcome.analysisStatus,
+            documentKind: outcome.documentKind,
+            importFormat: format,
+            extractedData: markers,
+        };
+        const fileUpload = await filesRepository.createFileUpload({
+            userId,
+            type: 'lab_report',
+            objectPath: normalizedPath,
+            originalFileName: uploadedFile.name,
+            fileSize: uploadedFile.size,
+            mimeType,
+            hipaaCompliant: true,
+            encryptedAtRest: true,
+            retentionPolicyId: '7_years',
+            labReportData,
+        });
+        const fileId = fileUpload.id;
+        await filesRepository.updateFileUpload(fileId, { analysisStartedAt: now, analysisCompletedAt: now } as any);
+        await filesRepository.upsertLabAnalysisForFile({
+            fileId,
+            userId,
+            analysisStatus: outcome.analysisStatus,
+            extractedData: markers,
+        });
+        void biomarkerReviewService.recordUnmappedMarkers(markers);
+
+        logger.info(`📥 Imported structured lab report (${format}): ${uploadedFile.name}`, { markerCount: markers.length });
+        posthog.capture({
+            distinctId: userId,
+            event: 'lab_report_uploaded',
+            properties: {
+                file_id: fileId,
+                file_size_bytes: uploadedFile.size,
+                mime_type: mimeType,
+                import_format: format,
+            },
+        });
+        void syncUserProperties(userId);
+
+        void labsService.generateAllMarkerInsights(markers, userId).then(async (markerInsights) => {
+            const currentData = (await filesRepository.getFileUpload(fileId))?.labReportData as any;
+            if (currentData) {
+                await filesRepository.updateFileUpload(fileId, {
+                    labReportData: { ...currentData, markerInsights }
+                });
+            }
+        }).catch(err => logger.warn(`Background insight generation failed for ${uploadedFile.name}:`, err));
+        void this.announceLabResults(userId, fileId, uploadedFile.name, extraction, outcome);
+
+        this.logFileAudit(userId, fileId, 'upload', normalizedPath, true, undefined, auditInfo, {
+            originalFileName: uploadedFile.name,
+            fileType: 'lab_report',
+            fileSize: uploadedFile.size,
+            mimeType,
+            importFormat: format,
+        });
+
+        return {
+            id: fileId,
+            name: uploadedFile.name,
+            url: normalizedPath,
+            type: fileUpload.type,
+            size: uploadedFile.size,
+            uploadedAt: fileUpload.uploadedAt,
+            hipaaCompliant: true,
+            labData: labReportData,
+        };
+    }
+
     async updateFile(fileId: string, userId: string, uploadedFile: any, auditInfo: any) {
         const fileUpload = await this.getFile(fileId, userId);
 
@@ -482,10 +533,11 @@ export class FilesService {
                             analysisStatus: outcome.analysisStatus,
                             extractedData: markers,
                         });
+                        void biomarkerReviewService.recordUnmappedMarkers(markers);
                         logger.info(`✅ Lab report re-analysis completed: ${uploadedFile.name}`);
                         await filesRepository.updateFileUpload(fileId, { analysisCompletedAt: new Date() } as any);
                         // Fire-and-forget: generate marker insights in background
-                        void labsService.generateAllMarkerInsights(labDataExtraction.extractedData || []).then(async (markerInsights) => {
+                        void labsService.generateAllMarkerInsights(labDataExtraction.extractedData || [], userId).then(async (markerInsights) => {
                             const currentData = (await filesRepository.getFileUpload(fileId))?.labReportData as any;
                             if (currentData) {
                                 await filesRepository.updateFileUpload(fileId, {
@@ -535,6 +587,9 @@ export class FilesService {
         if (!fileUpload) throw new Error('File not found');
         if (fileUpload.userId !== userId) throw new Error('Unauthorized');
         if (fileUpload.type !== 'lab_report') throw new Error('Only lab reports can be re-analyzed');
+        if ((fileUpload.labReportData as any)?.importFormat) {
+            throw new Error('Only lab reports extracted from documents can be re-analyzed; structured imports are parsed exactly');
+        }
 
         const existingData = (fileUpload.labReportData as any) || {};
 
@@ -581,9 +636,10 @@ export class FilesService {
             analysisStatus: outcome.analysisStatus,
             extractedData: newExtractedData,
         });
+        void biomarkerReviewService.recordUnmappedMarkers(newExtractedData);
 
         // Fire-and-forget: generate marker insights in background
-        void labsService.generateAllMarkerInsights(newExtractedData).then(async (markerInsights) => {
+        void labsService.generateAllMarkerInsights(newExtractedData, userId).then(async (markerInsights) => {
             const currentData = (await filesRepository.getFileUpload(fileId))?.labReportData as any;
             if (currentData) {
                 await filesRepository.updateFileUpload(fileId, {
@@ -657,6 +713,9 @@ export class FilesService {
         if (!fileUpload) throw new Error('File not found');
         if (fileUpload.userId !== userId) throw new Error('Unauthorized');
         if (fileUpload.type !== 'lab_report') throw new Error('Only lab reports can be re-analyzed');
+        if ((fileUpload.labReportData as any)?.importFormat) {
+            throw new Error('Only lab reports extracted from documents can be re-analyzed; structured imports are parsed exactly');
+        }
 
         const existingStatus = String((fileUpload.labReportData as any)?.analysisStatus || '').toLowerCase();
         if (existingStatus === 'processing' || existingStatus === 'pending') {
@@ -719,9 +778,10 @@ export class FilesService {
                     analysisStatus: outcome.analysisStatus,
                     extractedData: newExtractedData,
                 });
+                void biomarkerReviewService.recordUnmappedMarkers(newExtractedData);
 
                 // Fire-and-forget: generate marker insights in background
-                void labsService.generateAllMarkerInsights(newExtractedData).then(async (markerInsights) => {
+                void labsService.generateAllMarkerInsights(newExtractedData, userId).then(async (markerInsights) => {
                     const currentData = (await filesRepository.getFileUpload(fileId))?.labReportData as any;
                     if (currentData) {
                         await filesRepository.updateFileUpload(fileId, {
@@ -834,6 +894,94 @@ export class FilesService {
         });
     }
 
+    /**
+     * In-app notification, analytics event and (opt-in) email once a lab
+     * report's markers are available. Skipped when nothing was extracted.
+     */
+    private async announceLabResults(
+        userId: string,
+        fileId: string,
+        fileName: string,
+        labDataExtraction: LabDataExtraction,
+        outcome: { analysisStatus: string; documentKind: string },
+    ) {
+        try {
+            const { canonicalKey } = await import('../labs/biomarker-aliases');
+            const uniqueKeys = new Set<string>();
+            const keyToNames = new Map<string, string[]>();
+            const rawCount = (labDataExtraction.extractedData || []).length;
+            for (const m of labDataExtraction.extractedData || []) {
+                const name = (m as any).testName || (m as any).name || '';
+                if (!name) continue;
+                const key = canonicalKey(name, (m as any).loincCode);
+                if (key) {
+                    uniqueKeys.add(key);
+                    if (!keyToNames.has(key)) keyToNames.set(key, []);
+                    keyToNames.get(key)!.push(name);
+                }
+            }
+            // Log any merges so we can spot incorrect alias collisions
+            const merges = [...keyToNames.entries()].filter(([, names]) => names.length > 1);
+            if (merges.length > 0) {
+                logger.info('Canonical dedup merged these markers:', {
+                    rawCount,
+                    dedupCount: uniqueKeys.size,
+                    merges: merges.map(([key, names]) => `${key}: [${names.join(', ')}]`),
+                });
+            } else {
+                logger.info('No canonical merges occurred', { rawCount, dedupCount: uniqueKeys.size });
+            }
+            const markerCount = uniqueKeys.size;
+            posthog.capture({
+                distinctId: userId,
+                event: 'lab_report_analyzed',
+                properties: {
+                    file_id: fileId,
+                    marker_count: markerCount,
+                    raw_marker_count: rawCount,
+                    document_kind: outcome.documentKind,
+                    analysis_status: outcome.analysisStatus,
+                    test_type: labDataExtraction.testType ?? null,
+                    lab_name: labDataExtraction.labName ?? null,
+                },
+            });
+            if (markerCount === 0) {
+                logger.info('Skipping lab results notification — 0 biomarkers extracted', { userId, fileName });
+                return;
+            }
+            await notificationsService.create({
+                userId,
+                type: 'system',
+                title: 'Lab Results Analyzed',
+                content: `Your lab report has been analyzed — ${markerCount} biomarker${markerCount !== 1 ? 's' : ''} extracted. Chat with your AI practitioner to discuss findings.`,
+                metadata: {
+                    actionUrl: '/dashboard/lab-reports',
+                    icon: 'file-check',
+                    priority: 'high'
+                }
+            });
+
+            const labUser = await usersRepository.getUser(userId);
+            if (labUser && await notificationsService.shouldSendEmail(userId, 'consultation')) {
+                const frontendUrl = process.env.FRONTEND_URL || 'https://ones.health';
+                const firstName = labUser.name?.split(' ')[0] || 'there';
+                const labSource = labDataExtraction.labName ? ` from ${labDataExtraction.labName}` : '';
+                const plural = markerCount !== 1 ? 's' : '';
+                await sendNotificationEmail({
+                    to: labUser.email,
+                    subject: 'Your lab results have been analyzed',
+                    title: 'Lab Results Ready',
+                    type: 'system',
+                    content: `<p>Hi ${firstName},</p><p>We've finished analyzing your lab report${labSource}.</p><p><strong>${markerCount} biomarker${plural}</strong> were extracted and are ready for review.</p><p>Chat with your AI practitioner to get personalized insights and see how your results might affect your formula.</p>`,
+                    actionUrl: `${frontendUrl}/dashboard/lab-reports`,
+                    actionText: 'View Lab Results',
+                });
+            }
+        } catch (notifErr) {
+            logger.warn('Failed to send lab results notification', { userId, error: notifErr });
+        }
+    }
+
     private validateMagicBytes(uploadedFile: any, fileBuffer: Buffer): void {
         // The PDF specification allows up to 1024 bytes of garbage before the %PDF- signature
         const hex = fileBuffer.toString('hex', 0, 1024).toUpperCase();
@@ -0,0 +1,331 @@
+/**
+ * In-process simulator for the Alive Innovations manufacturer API.
+ *
+ * Implements the five endpoints ManufacturerPricingService calls —
+ * GET /ingredients, POST /get-quote, POST /mix-product, POST /external-order
+ * and POST /external-order/cancel — with the request/response shapes the
+ * service parses, so checkout, auto-ship renewal and order cancellation can
+ * run without network access.
+ *
+ * Two ways to use it:
+ *   - Dev server: set ALIVE_SIMULATOR=true (never honoured in production).
+ *     env.ts points ALIVE_API_BASE_URL at /__dev/alive on this server and
+ *     routes.ts mounts the router there.
+ *   - Tests: `createAliveSimulator()` and serve `simulator.router` from a
+ *     throwaway express app, then import the pricing service with
+ *     ALIVE_API_BASE_URL pointed at it (see alive-simulator.test.ts).
+ *
+ * Behaviour is scriptable per instance: latency, forced failures, quote
+ * lifetime and the cancel window / "too late to cancel" responses.
+ */
+
+import express, { type Request, type Response, type NextFunction, type Router } from 'express';
+import crypto from 'crypto';
+
+export type AliveSimulatorEndpoint = 'ingredients' | 'get-quote' | 'mix-product' | 'external-order' | 'cancel';
+
+export interface AliveSimulatorIngredient {
+    ingredient_id: number;
+    name: string;
+    /** Manufacturer cost per mg (USD) used to price quotes */
+    pricePerMg: number;
+}
+
+export interface AliveSimulatorOptions {
+    /** Expected value of the API key header. Requests without it get 401. */
+    apiKey?: string;
+    apiKeyHeader?: string;
+    catalog?: AliveSimulatorIngredient[];
+    /** Added to every response (ms). Per-endpoint values override it. */
+    latencyMs?: number | Partial<Record<AliveSimulatorEndpoint, number>>;
+    /** How long a quote_id stays orderable */
+    quoteTtlMs?: number;
+    /** Orders older than this can no longer be cancelled */
+    cancelWindowMs?: number;
+    /** Clock override for expiry / cancel-window tests */
+    now?: () => number;
+}
+
+export interface AliveSimulatorFailure {
+    /** HTTP status to return. Use 200 with `body: { status: false }` for a soft rejection. */
+    status: number;
+    body?: unknown;
+    /** Number of requests to fail before recovering (default 1) */
+    times?: number;
+}
+
+export interface AliveSimulatorQuote {
+    quoteId: string;
+    ingredients: Array<{ ingredient_id: number | string; weight_in_mg: number }>;
+    capsuleCount: number;
+    total: number;
+    createdAt: number;
+    expiresAt: number;
+    usedByOrderId: string | null;
+}
+
+export type AliveSimulatorOrderStatus = 'received' | 'in_production' | 'shipped' | 'cancelled';
+
+export interface AliveSimulatorOrder {
+    orderId: string;
+    quoteId: string;
+    kind: 'external' | 'mix-product';
+    status: AliveSimulatorOrderStatus;
+    createdAt: number;
+    customer?: Record<string, unknown>;
+}
+
+export const DEFAULT_SIMULATOR_CATALOG: AliveSimulatorIngredient[] = [
+    { ingredient_id: 101, name: 'Magnesium', pricePerMg: 0.00004 },
+    { ingredient_id: 102, name: 'Omega 3', pricePerMg: 0.00006 },
+    { ingredient_id: 103, name: 'Ashwaganda', pricePerMg: 0.00012 },
+    { ingredient_id: 104, name: 'Vitamin D3', pricePerMg: 0.002 },
+    { ingredient_id: 105, name: 'Coenzyme Q10', pricePerMg: 0.0003 },
+    { ingredient_id: 106, name: 'Turmeric Root Extract 4:1', pricePerMg: 0.00008 },
+    { ingredient_id: 107, name: 'Zinc', pricePerMg: 0.0005 },
+    { ingredient_id: 108, name: 'Heart Support Mix', pricePerMg: 0.0001 },
+    { ingredient_id: 109, name: 'Sleep Support Mix', pricePerMg: 0.0001 },
+    { ingredient_id: 110, name: 'Stinging Nettle', pricePerMg: 0.00005 },
+];
+
+const DEFAULT_QUOTE_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_CANCEL_WINDOW_MS = 4 * 60 * 60 * 1000;
+const SHIPPING_COST = 8.5;
+const PRACTITIONER_DISCOUNT_RATE = 0.1;
+const RETAIL_MARKUP = 1.4;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class AliveSimulator {
+    readonly router: Router;
+    readonly quotes = new Map<string, AliveSimulatorQuote>();
+    readonly orders = new Map<string, AliveSimulatorOrder>();
+    /** Every request received, oldest first — handy for asserting call counts */
+    readonly requests: Array<{ endpoint: AliveSimulatorEndpoint; body: any }> = [];
+
+    private options: Required<Omit<AliveSimulatorOptions, 'latencyMs'>> & { latencyMs: AliveSimulatorOptions['latencyMs'] };
+    private failures = new Map<AliveSimulatorEndpoint, AliveSimulatorFailure[]>();
+    private sequence = 0;
+
+    constructor(options: AliveSimulatorOptions = {}) {
+        this.options = {
+            apiKey: options.apiKey ?? 'alive-simulator',
+            apiKeyHeader: (options.apiKeyHeader ?? 'X-API-KEY').toLowerCase(),
+            catalog: options.catalog ?? DEFAULT_SIMULATOR_CATALOG,
+            latencyMs: options.latencyMs ?? 0,
+            quoteTtlMs: options.quoteTtlMs ?? DEFAULT_QUOTE_TTL_MS,
+            cancelWindowMs: options.cancelWindowMs ?? DEFAULT_CANCEL_WINDOW_MS,
+            now: options.now ?? Date.now,
+        };
+        this.router = this.buildRouter();
+    }
+
+    /** Change behaviour mid-test (latency, quote TTL, cancel window, catalog). */
+    configure(patch: Partial<AliveSimulatorOptions>): void {
+        this.options = {
+            ...this.options,
+            ...patch,
+            apiKeyHeader: (patch.apiKeyHeader ?? this.options.apiKeyHeader).toLowerCase(),
+        };
+    }
+
+    /** Queue a forced failure for the next request(s) to an endpoint. */
+    failNext(endpoint: AliveSimulatorEndpoint, failure: AliveSimulatorFailure): void {
+        const queue = this.failures.get(endpoint) ?? [];
+        queue.push({ times: 1, ...failure });
+        this.failures.set(endpoint, queue);
+    }
+
+    /** Move an order along the fulfilment pipeline (e.g. into production so it can't be cancelled). */
+    setOrderStatus(orderId: string, status: AliveSimulatorOrderStatus): void {
+        const order = this.orders.get(orderId);
+        if (!order) throw new Error(`Unknown simulator order ${orderId}`);
+        order.status = status;
+    }
+
+    reset(): void {
+        this.quotes.clear();
+        this.orders.clear();
+        this.failures.clear();
+        this.requests.length = 0;
+        this.sequence = 0;
+    }
+
+    private nextId(prefix: string): string {
+        this.sequence += 1;
+        return `${prefix}_${this.sequence}_${crypto.randomBytes(3).toString('hex')}`;
+    }
+
+    private latencyFor(endpoint: AliveSimulatorEndpoint): number {
+        const latency = this.options.latencyMs;
+        if (typeof latency === 'number') return latency;
+        return latency?.[endpoint] ?? 0;
+    }
+
+    /** Wraps each handler with auth, latency, request logging and scripted failures. */
+    private endpoint(name: AliveSimulatorEndpoint, handler: (req: Request, res: Response) => void) {
+        return async (req: Request, res: Response, next: NextFunction) => {
+            try {
+                this.requests.push({ endpoint: name, body: req.body });
+                const latency = this.latencyFor(name);
+                if (latency > 0) await sleep(latency);
+                if (res.headersSent || req.socket.destroyed) return;
+
+                if (this.options.apiKey && req.get(this.options.apiKeyHeader) !== this.options.apiKey) {
+                    res.status(401).json({ status: false, message: 'Unauthenticated.' });
+                    return;
+                }
+
+                const queue = this.failures.get(name);
+                const failure = queue?.[0];
+                if (failure) {
+                    failure.times = (failure.times ?? 1) - 1;
+                    if (failure.times <= 0) queue!.shift();
+                    res.status(failure.status).json(failure.body ?? { status: false, message: 'Simulated failure' });
+                    return;
+                }
+
+                handler(req, res);
+            } catch (error) {
+                next(error);
+            }
+        };
+    }
+
+    private buildRouter(): Router {
+        const router = express.Router();
+        router.use(express.json());
+
+        router.get('/ingredients', this.endpoint('ingredients', (_req, res) => {
+            res.json({
+                status: true,
+                data: this.options.catalog.map(({ ingredient_id, name }) => ({ ingredient_id, name })),
+            });
+        }));
+
+        router.post('/get-quote', this.endpoint('get-quote', (req, res) => {
+            const { ingredients, number_of_weeks, capsule_count } = req.body ?? {};
+            if (!Array.isArray(ingredients) || ingredients.length === 0 || !Number(capsule_count) || !Number(number_of_weeks)) {
+                res.status(422).json({ status: false, errors: { ingredients: ['ingredients, number_of_weeks and capsule_count are required'] } });
+                return;
+            }
+
+            const prices = new Map(this.options.catalog.map((item) => [String(item.ingredient_id), item.pricePerMg]));
+            const unknown = ingredients.filter((item: any) => !prices.has(String(item?.ingredient_id)));
+            if (unknown.length > 0) {
+                res.status(422).json({ status: false, errors: { ingredient_id: [`Unknown ingredient_id: ${unknown.map((i: any) => i?.ingredient_id).join(', ')}`] } });
+                return;
+            }
+
+            // weight_in_mg is per capsule; capsule_count is the whole supply
+            const subtotal = round2(ingredients.reduce(
+                (sum: number, item: any) => sum + Number(item.weight_in_mg) * Number(capsule_count) * prices.get(String(item.ingredient_id))!,
+                0,
+            ));
+            const discount = round2(subtotal * PRACTITIONER_DISCOUNT_RATE);
+            const total = round2(subtotal - discount + SHIPPING_COST);
+            const now = this.options.now();
+            const quote: AliveSimulatorQuote = {
+                quoteId: this.nextId('q'),
+                ingredients,
+                capsuleCount: Number(capsule_count),
+                total,
+                createdAt: now,
+                expiresAt: now + this.options.quoteTtlMs,
+                usedByOrderId: null,
+            };
+            this.quotes.set(quote.quoteId, quote);
+
+            res.json({
+                status: true,
+                quote_id: quote.quoteId,
+                expires_at: new Date(quote.expiresAt).toISOString(),
+                subtotal,
+                discount,
+                shipping_cost: SHIPPING_COST,
+                retail_price: round2(subtotal * RETAIL_MARKUP),
+                total,
+            });
+        }));
+
+        router.post('/mix-product', this.endpoint('mix-product', (req, res) => {
+            this.placeOrder(req.body?.quote_id, 'mix-product', undefined, res);
+        }));
+
+        router.post('/external-order', this.endpoint('external-order', (req, res) => {
+            const body = req.body ?? {};
+            const missing = ['external_quote_id', 'customer_name', 'email', 'billing_address', 'shipping_address']
+                .filter((field) => !body[field]);
+            const shipping = body.shipping_address ?? {};
+            missing.push(...['line1', 'city', 'zip'].filter((field) => body.shipping_address && !shipping[field]).map((f) => `shipping_address.${f}`));
+            if (missing.length > 0) {
+                res.status(422).json({ status: false, errors: Object.fromEntries(missing.map((f) => [f, [`The ${f} field is required.`]])) });
+                return;
+            }
+            const { external_quote_id, ...customer } = body;
+            this.placeOrder(external_quote_id, 'external', customer, res);
+        }));
+
+        router.post('/external-order/cancel', this.endpoint('cancel', (req, res) => {
+            const orderId = req.body?.external_order_id;
+            const order = orderId ? this.orders.get(String(orderId)) : undefined;
+            if (!order) {
+                res.status(404).json({ status: false, errors: { external_order_id: ['Order not found.'] } });
+                return;
+            }
+            if (order.status === 'cancelled') {
+                res.json({ status: false, errors: { order: ['Order already cancelled.'] } });
+                return;
+            }
+            const pastWindow = this.options.now() - order.createdAt > this.options.cancelWindowMs;
+            if (order.status !== 'received' || pastWindow) {
+                res.json({ status: false, errors: { order: ['Too late to cancel: order is already in production.'] } });
+                return;
+            }
+            order.status = 'cancelled';
+            res.json({ status: true, message: 'Order cancelled.', external_order_id: order.orderId });
+        }));
+
+        return router;
+    }
+
+    private placeOrder(quoteId: unknown, kind: AliveSimulatorOrder['kind'], customer: Record<string, unknown> | undefined, res: Response): void {
+        const quote = typeof quoteId === 'string' ? this.quotes.get(quoteId) : undefined;
+        if (!quote) {
+            res.status(404).json({ status: false, errors: { quote_id: ['Quote not found.'] } });
+            return;
+        }
+        if (quote.expiresAt <= this.options.now()) {
+            res.status(410).json({ status: false, errors: { quote_id: ['Quote has expired. Request a new quote.'] } });
+            return;
+        }
+        if (quote.usedByOrderId) {
+            res.status(409).json({ status: false, errors: { quote_id: [`Quote already used by order ${quote.usedByOrderId}.`] } });
+            return;
+        }
+
+        const order: AliveSimulatorOrder = {
+            orderId: this.nextId('ord'),
+            quoteId: quote.quoteId,
+            kind,
+            status: 'received',
+            createdAt: this.options.now(),
+            customer,
+        };
+        quote.usedByOrderId = order.orderId;
+        this.orders.set(order.orderId, order);
+        res.json({ status: true, order_id: order.orderId, total: quote.total });
+    }
+}
+
+export function createAliveSimulator(options: AliveSimulatorOptions = {}): AliveSimulator {
+    return new AliveSimulator(options);
+}
+
+/** True when the dev server should mount the simulator (never in production). */
+export function isAliveSimulatorEnabled(): boolean {
+    return process.env.ALIVE_SIMULATOR === 'true' && process.env.NODE_ENV !== 'production';
+}
+
+export const ALIVE_SIMULATOR_MOUNT_PATH = '/__dev/alive';
@@ -0,0 +1,161 @@
+/**
+ * Ingredient-level diff between two formula versions.
+ *
+ * Pure — operates on formula rows already loaded by the caller. Bases,
+ * additions and user customizations are flattened into one list keyed by
+ * ingredient name, since they all end up in the same capsule. Safety changes
+ * come from each version's stored safetyValidation (the result the user saw
+ * when that version was created or last re-screened).
+ */
+
+import type { Formula } from '@shared/schema';
+import type {
+  FormulaDiff,
+  FormulaIngredientChange,
+  FormulaIngredientSource,
+  FormulaSafetyChange,
+  FormulaVersionRef,
+} from '@shared/formula-diff';
+import { escapeHtml } from '../../utils/sanitize';
+
+type DiffableFormula = Pick<
+  Formula,
+  'id' | 'version' | 'name' | 'createdAt' | 'bases' | 'additions' | 'userCustomizations' | 'totalMg' | 'targetCapsules' | 'safetyValidation'
+>;
+
+interface FlatIngredient {
+  ingredient: string;
+  source: FormulaIngredientSource;
+  amount: number;
+  unit: string;
+}
+
+// Amounts within this many mg are treated as unchanged (float noise from expansion)
+const AMOUNT_EPSILON = 0.001;
+
+function flattenIngredients(formula: DiffableFormula): Map<string, FlatIngredient> {
+  const items = new Map<string, FlatIngredient>();
+  const add = (list: unknown, source: FormulaIngredientSource) => {
+    if (!Array.isArray(list)) return;
+    for (const raw of list as Array<{ ingredient?: string; amount?: number; unit?: string }>) {
+      if (!raw?.ingredient) continue;
+      const key = raw.ingredient.trim().toLowerCase();
+      const existing = items.get(key);
+      if (existing) {
+        existing.amount += Number(raw.amount) || 0;
+      } else {
+        items.set(key, { ingredient: raw.ingredient.trim(), source, amount: Number(raw.amount) || 0, unit: raw.unit || 'mg' });
+      }
+    }
+  };
+  add(formula.bases, 'base');
+  add(formula.additions, 'addition');
+  add(formula.userCustomizations?.addedBases, 'base');
+  add(formula.userCustomizations?.addedIndividuals, 'addition');
+  return items;
+}
+
+function toRef(formula: DiffableFormula): FormulaVersionRef {
+  return {
+    id: formula.id,
+    version: formula.version,
+    name: formula.name ?? null,
+    createdAt: new Date(formula.createdAt).toISOString(),
+  };
+}
+
+export function computeFormulaDiff(from: DiffableFormula, to: DiffableFormula): FormulaDiff {
+  const fromItems = flattenIngredients(from);
+  const toItems = flattenIngredients(to);
+
+  const added: FormulaIngredientChange[] = [];
+  const removed: FormulaIngredientChange[] = [];
+  const doseChanged: FormulaIngredientChange[] = [];
+
+  toItems.forEach((item, key) => {
+    const previous = fromItems.get(key);
+    if (!previous) {
+      added.push({ ingredient: item.ingredient, source: item.source, change: 'added', unit: item.unit, toAmount: item.amount });
+    } else if (Math.abs(previous.amount - item.amount) > AMOUNT_EPSILON) {
+      doseChanged.push({
+        ingredient: item.ingredient,
+        source: item.source,
+        change: 'dose_changed',
+        unit: item.unit,
+        fromAmount: previous.amount,
+        toAmount: item.amount,
+      });
+    }
+  });
+  fromItems.forEach((item, key) => {
+    if (!toItems.has(key)) {
+      removed.push({ ingredient: item.ingredient, source: item.source, change: 'removed', unit: item.unit, fromAmount: item.amount });
+    }
+  });
+
+  const fromWarnings = new Map((from.safetyValidation?.warnings || []).map(w => [w.category, w]));
+  const toWarnings = new Map((to.safetyValidation?.warnings || []).map(w => [w.category, w]));
+  const introduced: FormulaSafetyChange[] = [];
+  const resolved: FormulaSafetyChange[] = [];
+  const severityChanged: FormulaSafetyChange[] = [];
+  toWarnings.forEach((warning, category) => {
+    const previous = fromWarnings.get(category);
+    if (!previous) {
+      introduced.push({ category, message: warning.message, toSeverity: warning.severity });
+    } else if (previous.severity !== warning.severity) {
+      severityChanged.push({ category, message: warning.message, fromSeverity: previous.severity, toSeverity: warning.severity });
+    }
+  });
+  fromWarnings.forEach((warning, category) => {
+    if (!toWarnings.has(category)) {
+      resolved.push({ category, message: warning.message, fromSeverity: warning.severity });
+    }
+  });
+
+  const fromCapsules = from.targetCapsules ?? null;
+  const toCapsules = to.targetCapsules ?? null;
+  const totalMg = { from: from.totalMg, to: to.totalMg, delta: to.totalMg - from.totalMg };
+
+  return {
+    from: toRef(from),
+    to: toRef(to),
+    ingredients: { added, removed, doseChanged },
+    totalMg,
+    capsules: { from: fromCapsules, to: toCapsules, changed: fromCapsules !== toCapsules },
+    safety: { introduced, resolved, severityChanged },
+    hasChanges:
+      added.length + removed.length + doseChanged.length > 0 ||
+      totalMg.delta !== 0 ||
+      fromCapsules !== toCapsules ||
+      introduced.length + resolved.length + severityChanged.length > 0,
+  };
+}
+
+function formatAmount(amount: number | undefined, unit: string): string {
+  return `${Math.round((amount ?? 0) * 100) / 100}${unit}`;
+}
+
+/** Render a diff as a short HTML list for notification emails. Empty string when nothing changed. */
+export function formatFormulaDiffHtml(diff: FormulaDiff): string {
+  if (!diff.hasChanges) return '';
+  const lines: string[] = [];
+  for (const item of diff.ingredients.added) {
+    lines.push(`<li>➕ Added <strong>${escapeHtml(item.ingredient)}</strong> (${formatAmount(item.toAmount, item.unit)})</li>`);
+  }
+  for (const item of diff.ingredients.removed) {
+    lines.push(`<li>➖ Removed <strong>${escapeHtml(item.ingredient)}</strong></li>`);
+  }
+  for (const item of diff.ingredients.doseChanged) {
+    lines.push(`<li>🔁 <strong>${escapeHtml(item.ingredient)}</strong>: ${formatAmount(item.fromAmount, item.unit)} → ${formatAmount(item.toAmount, item.unit)}</li>`);
+  }
+  if (diff.capsules.changed && diff.capsules.to !== null) {
+    lines.push(`<li>💊 Daily capsules: ${diff.capsules.from ?? '—'} → ${diff.capsules.to}</li>`);
+  }
+  for (const warning of diff.safety.introduced) {
+    lines.push(`<li>⚠️ New safety note: ${escapeHtml(warning.message)}</li>`);
+  }
+  for (const warning of diff.safety.resolved) {
+    lines.push(`<li>✅ Resolved: ${escapeHtml(warning.message)}</li>`);
+  }
+  return `<ul>${lines.join('')}</ul>`;
+}
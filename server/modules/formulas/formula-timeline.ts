@@ -0,0 +1,72 @@
+/**
+ * Which formula version the user was actually taking, and when.
+ *
+ * Pure — operates on formula and order rows already loaded by the caller.
+ * A version starts when its first order shipped (or was placed, for orders
+ * delivered without tracking) and ends when the next taken version starts.
+ * Versions that were never shipped are skipped: a formula the user hasn't
+ * started can't have moved their labs.
+ */
+
+import type { Formula, Order } from '@shared/schema';
+
+export interface TimelineIngredient {
+  name: string;   // as written in the formula
+  dose: string;   // "amount unit"
+}
+
+export interface FormulaPeriod {
+  formulaId: string;
+  version: number;
+  startedAt: Date;
+  endedAt: Date | null;   // null while it's still the current formula
+  ingredients: Map<string, TimelineIngredient>;   // keyed by lower-cased name
+}
+
+/** Bases, additions and customizations all end up in the same capsule */
+export function formulaIngredients(formula: Formula): Map<string, TimelineIngredient> {
+  const all = [
+    ...(formula.bases || []),
+    ...(formula.additions || []),
+    ...(formula.userCustomizations?.addedBases || []),
+    ...(formula.userCustomizations?.addedIndividuals || []),
+  ];
+  const map = new Map<string, TimelineIngredient>();
+  for (const i of all) {
+    if (!i?.ingredient) continue;
+    map.set(i.ingredient.toLowerCase().trim(), { name: i.ingredient.trim(), dose: `${i.amount} ${i.unit}` });
+  }
+  return map;
+}
+
+/** When the user actually started on an order: shipment, or placement for orders without tracking */
+export function orderEffectiveAt(order: Order): Date | null {
+  if (order.isTestOrder || order.status === 'cancelled') return null;
+  if (order.shippedAt) return new Date(order.shippedAt);
+  if (order.status === 'delivered' || order.status === 'completed') return new Date(order.placedAt);
+  return null;
+}
+
+/** Taken formula versions in the order the user started them */
+export function buildFormulaTimeline(formulas: Formula[], orders: Order[]): FormulaPeriod[] {
+  const byVersion = new Map(formulas.map(f => [f.version, f]));
+  const firstTaken = new Map<number, Date>();
+  for (const order of orders) {
+    const at = orderEffectiveAt(order);
+    if (!at || !byVersion.has(order.formulaVersion)) continue;
+    const existing = firstTaken.get(order.formulaVersion);
+    if (!existing || at < existing) firstTaken.set(order.formulaVersion, at);
+  }
+
+  const taken = [...firstTaken.entries()].sort((a, b) => a[1].getTime() - b[1].getTime());
+  return taken.map(([version, startedAt], idx) => {
+    const formula = byVersion.get(version)!;
+    return {
+      formulaId: formula.id,
+      version,
+      startedAt,
+      endedAt: idx + 1 < taken.length ? taken[idx + 1][1] : null,
+      ingredients: formulaIngredients(formula),
+    };
+  });
+}
@@ -169,7 +169,7 @@ export class FormulasRepository {
             const [formula] = await db
                 .select()
                 .from(formulas)
-                .where(and(eq(formulas.userId, userId), isNull(formulas.archivedAt)))
+                .where(and(eq(formulas.userId, userId), isNull(formulas.archivedAt), isNull(formulas.branchName)))
                 .orderBy(desc(formulas.createdAt))
                 .limit(1);
             return formula || undefined;
@@ -192,12 +192,13 @@ export class FormulasRepository {
         }
     }
 
+    /** Every non-archived main-line formula (branches excluded). */
     async getAllActiveFormulas(): Promise<Formula[]> {
         try {
             return await db
                 .select()
                 .from(formulas)
-                .where(isNull(formulas.archivedAt));
+                .where(and(isNull(formulas.archivedAt), isNull(formulas.branchName)));
         } catch (error) {
             logger.error('Error getting all active formulas', { error });
             return [];
@@ -265,8 +266,8 @@ export class FormulasRepository {
     async getFormulaHistory(userId: string, includeArchived: boolean = false): Promise<Formula[]> {
         try {
             const whereClause = includeArchived
-                ? eq(formulas.userId, userId)
-                : and(eq(formulas.userId, userId), isNull(formulas.archivedAt));
+                ? and(eq(formulas.userId, userId), isNull(formulas.branchName))
+                : and(eq(formulas.userId, userId), isNull(formulas.archivedAt), isNull(formulas.branchName));
             return await db
                 .select()
                 .from(formulas)
@@ -278,6 +279,19 @@ export class FormulasRepository {
         }
     }
 
+    async getBranches(userId: string): Promise<Formula[]> {
+        try {
+            return await db
+                .select()
+                .from(formulas)
+                .where(and(eq(formulas.userId, userId), isNull(formulas.archivedAt), isNotNull(formulas.branchName)))
+                .orderBy(desc(formulas.createdAt));
+        } catch (error) {
+            logger.error('Error getting formula branches', { error });
+            return [];
+        }
+    }
+
     async getArchivedFormulas(userId: string): Promise<Formula[]> {
         try {
             return await db
@@ -450,6 +464,32 @@ export class FormulasRepository {
         }
     }
 
+    /**
+     * Replace the stored safety validation after a re-screen. Passing
+     * `clearAcknowledgment` drops the previous acknowledgment so checkout asks
+     * again for the new warnings.
+     */
+    async updateSafetyValidation(formulaId: string, safetyValidation: Formula['safetyValidation'], options: {
+        warnings?: string[];
+        clearAcknowledgment?: boolean;
+    } = {}): Promise<Formula | undefined> {
+        try {
+            const [updated] = await db
+                .update(formulas)
+                .set({
+                    safetyValidation,
+                    ...(options.warnings ? { warnings: options.warnings } : {}),
+                    ...(options.clearAcknowledgment ? { warningsAcknowledgedAt: null, warningsAcknowledgedIp: null } : {}),
+                })
+                .where(eq(formulas.id, formulaId))
+                .returning();
+            return updated || undefined;
+        } catch (error) {
+            logger.error('Error updating formula safety validation', { error, formulaId });
+            throw new Error('Failed to update formula safety validation');
+        }
+    }
+
     async updateSharingOptions(formulaId: string, isSharedPublicly: boolean): Promise<Formula> {
         try {
             const [current] = await db
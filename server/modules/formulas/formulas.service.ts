@@ -10,6 +10,8 @@ import { FORMULA_LIMITS as CAPSULE_LIMITS, getMaxDosageForCapsules, getMinIngred
 import { validateFormulaSafety } from "./safety-validator";
 import { detectPregnancyStatus, detectNursingStatus } from "./profile-status-detector";
 import { unmatchedMedicationsRepository } from "../health/unmatched-medications.repository";
+import { computeFormulaDiff } from "./formula-diff";
+import type { FormulaDiff, FormulaChangelogEntry } from "@shared/formula-diff";
 
 // Helper: persist any medications the safety validator did not recognize so
 // the keyword-grooming feedback loop has data. Fire-and-forget; never
@@ -61,6 +63,9 @@ async function assertNoDiscontinuedIngredients(items: Array<{ ingredient?: strin
 // (Local FORMULA_LIMITS constant removed — was unused; canonical limits live
 // in formula-service.ts and are imported as CAPSULE_LIMITS where needed.)
 
+// Open (non-archived) branches a user may keep beside their main formula
+const MAX_ACTIVE_BRANCHES = 5;
+
 export class FormulasService {
     async getFormulaQuote(userId: string, formulaId?: string, capsuleCount?: number) {
         const formula = formulaId
@@ -162,113 +167,82 @@ export class FormulasService {
             throw new Error('Access denied');
         }
 
-        // Calculate differences
+        // Always diff older → newer regardless of selection order
+        const [older, newer] = formula1.version <= formula2.version ? [formula1, formula2] : [formula2, formula1];
         return {
-            formula1,
-            formula2,
-            differences: {
-                totalMgChange: formula2.totalMg - formula1.totalMg,
-                basesAdded: (formula2.bases as any[]).filter((b2: any) =>
-                    !(formula1.bases as any[]).some((b1: any) => b1.ingredient === b2.ingredient)
-                ),
-                basesRemoved: (formula1.bases as any[]).filter((b1: any) =>
-                    !(formula2.bases as any[]).some((b2: any) => b2.ingredient === b1.ingredient)
-                ),
-                basesModified: (formula2.bases as any[]).filter((b2: any) => {
-                    const b1 = (formula1.bases as any[]).find((b: any) => b.ingredient === b2.ingredient);
-                    return b1 && b1.amount !== b2.amount;
-                }),
-                additionsAdded: ((formula2.additions as any[]) || []).filter((a2: any) =>
-                    !((formula1.additions as any[]) || []).some((a1: any) => a1.ingredient === a2.ingredient)
-                ),
-                additionsRemoved: ((formula1.additions as any[]) || []).filter((a1: any) =>
-                    !((formula2.additions as any[]) || []).some((a2: any) => a2.ingredient === a1.ingredient)
-                ),
-                additionsModified: ((formula2.additions as any[]) || []).filter((a2: any) => {
-                    const a1 = ((formula1.additions as any[]) || []).find((a: any) => a.ingredient === a2.ingredient);
-                    return a1 && a1.amount !== a2.amount;
-                }),
-            }
+            formula1: older,
+            formula2: newer,
+            diff: computeFormulaDiff(older, newer),
         };
     }
 
-    async revertFormula(userId: string, formulaId: string, reason: string) {
-        // Get the formula to revert to
-        const originalFormula = await formulasRepository.getFormula(formulaId);
-
-        if (!originalFormula || originalFormula.userId !== userId) {
+    /**
+     * Diff a formula against `againstId`, or against the user's previous
+     * version when omitted. Returns a null diff for a user's first version.
+     */
+    async getFormulaDiff(userId: string, formulaId: string, againstId?: string): Promise<{ diff: FormulaDiff | null }> {
+        const formula = await formulasRepository.getFormula(formulaId);
+        if (!formula || formula.userId !== userId) {
             throw new Error('Formula not found or access denied');
         }
 
-        // Validate that reverting to this formula doesn't exceed maximum dosage for its capsule count (with 2.5% tolerance)
-        const revertBaseBudget = getMaxDosageForCapsules(originalFormula.targetCapsules || CAPSULE_LIMITS.DEFAULT_CAPSULE_COUNT);
-        const revertHardLimit = Math.floor(revertBaseBudget * (1 + CAPSULE_LIMITS.BUDGET_TOLERANCE_PERCENT));
-        if (originalFormula.totalMg > revertHardLimit) {
-            throw new Error(`Cannot revert to this formula as it exceeds the maximum safe dosage of ${revertHardLimit}mg for ${originalFormula.targetCapsules || CAPSULE_LIMITS.DEFAULT_CAPSULE_COUNT} capsules (this version has ${originalFormula.totalMg}mg). This formula was created before dosage limits were enforced. Please create a new formula instead.`);
+        let base: Formula | undefined;
+        if (againstId) {
+            base = await formulasRepository.getFormula(againstId);
+            if (!base || base.userId !== userId) {
+                throw new Error('Formula not found or access denied');
+            }
+        } else {
+            const history = await formulasRepository.getFormulaHistory(userId, true);
+            base = history
+                .filter(f => f.version < formula.version)
+                .sort((a, b) => b.version - a.version)[0];
         }
 
-        // Validate minimum ingredient count
-        const revertCapsules = originalFormula.targetCapsules || CAPSULE_LIMITS.DEFAULT_CAPSULE_COUNT;
-        const revertMinIngredients = getMinIngredientCountForCapsules(revertCapsules);
-        const revertBases = (originalFormula.bases as any[]) || [];
-        const revertAdditions = (originalFormula.additions as any[]) || [];
-        const revertTotalIngredients = revertBases.length + revertAdditions.length;
-        if (revertTotalIngredients < revertMinIngredients) {
-            throw new Error(`Cannot revert to this formula — it only has ${revertTotalIngredients} ingredients, but ${revertCapsules} capsules/day requires at least ${revertMinIngredients}. Please create a new formula instead.`);
-        }
+        return { diff: base ? computeFormulaDiff(base, formula) : null };
+    }
 
-        // ── SAFETY RE-VALIDATION ────────────────────────────────────────────
-        // Run the full safety validator against the user's CURRENT health
-        // profile. Older formula versions were validated against the profile
-        // that existed AT THE TIME they were created — but the user may have
-        // since added a medication, allergy, or condition that makes the old
-        // formula unsafe (e.g. started Warfarin, became pregnant). Block the
-        // revert if any critical safety issue surfaces.
-        const profile = await usersRepository.getHealthProfile(userId);
-        const userMedications: string[] = (profile as any)?.medications || [];
-        const userMedicationsNormalized = (profile as any)?.medicationsNormalized || [];
-        const userConditions: string[] = (profile as any)?.conditions || [];
-        const userAllergies: string[] = (profile as any)?.allergies || [];
-        const isPregnant = detectPregnancyStatus(userConditions);
-        const isNursing = detectNursingStatus(userConditions);
+    /**
+     * Every version (archived included), newest first, each with its diff
+     * from the version before it and the recorded change summary.
+     */
+    async getFormulaChangelog(userId: string): Promise<FormulaChangelogEntry[]> {
+        const history = (await formulasRepository.getFormulaHistory(userId, true))
+            .sort((a, b) => a.version - b.version);
+
+        const entries = await Promise.all(history.map(async (formula, idx) => {
+            const [latestChange] = await formulasRepository.listFormulaVersionChanges(formula.id);
+            const diff = idx > 0 ? computeFormulaDiff(history[idx - 1], formula) : null;
+            return {
+                formula: diff?.to ?? {
+                    id: formula.id,
+                    version: formula.version,
+                    name: formula.name ?? null,
+                    createdAt: formula.createdAt.toISOString(),
+                },
+                diff,
+                summary: latestChange?.summary ?? null,
+                rationale: latestChange?.rationale ?? null,
+            };
+        }));
+
+        return entries.reverse();
+    }
 
-        const safetyResult = validateFormulaSafety({
-            formula: {
-                bases: revertBases,
-                additions: revertAdditions,
-            },
-            userMedications,
-            userMedicationsNormalized,
-            userConditions,
-            userAllergies,
-            isPregnant,
-            isNursing,
-        });
-        logUnmatchedMedicationsAsync(userId, safetyResult.unmatchedMedications, userMedicationsNormalized, 'safety_validator_revert');
+    /**
+     * Restore a prior version as a new main-line version, optionally dropping
+     * some of its ingredients ("v3 but without ashwagandha"). The restored
+     * formula is re-validated against the user's CURRENT profile and re-quoted.
+     */
+    async revertFormula(userId: string, formulaId: string, reason: string, options: { excludeIngredients?: string[] } = {}) {
+        // Get the formula to revert to
+        const originalFormula = await formulasRepository.getFormula(formulaId);
 
-        if (!safetyResult.safe) {
-            const reasons = safetyResult.blockedReasons.join('; ');
-            logger.warn('Formula revert BLOCKED by safety validator', {
-                userId,
-                originalFormulaId: formulaId,
-                originalVersion: originalFormula.version,
-                blockedReasons: safetyResult.blockedReasons,
-                criticalCount: safetyResult.warnings.filter(w => w.severity === 'critical').length,
-            });
-            throw new Error(`Cannot revert to v${originalFormula.version}: it contains ingredients that conflict with your current health profile (medications, allergies, or conditions). ${reasons}. Please create a new formula instead so we can build a safe protocol around your latest profile.`);
+        if (!originalFormula || originalFormula.userId !== userId) {
+            throw new Error('Formula not found or access denied');
         }
 
-        // Log non-blocking serious warnings so we have a record of what was
-        // surfaced when the user reverted (useful for compliance audits).
-        const seriousWarnings = safetyResult.warnings.filter(w => w.severity === 'serious');
-        if (seriousWarnings.length > 0) {
-            logger.info('Formula revert proceeding with serious (non-blocking) warnings', {
-                userId,
-                originalFormulaId: formulaId,
-                originalVersion: originalFormula.version,
-                seriousWarnings: seriousWarnings.map(w => ({ category: w.category, message: w.message })),
-            });
-        }
+        const restored = await this.prepareFormulaCopy(userId, originalFormula, options.excludeIngredients, 'revert');
 
         // Create new formula version with reverted data (preserve all fields).
         // safetyValidation is REPLACED with a freshly-computed result so the
@@ -276,21 +250,22 @@ export class FormulasService {
         // Uses createNextVersionFormula for race-safe version assignment.
         const revertedFormula = await formulasRepository.createNextVersionFormula(userId, {
             userId,
-            bases: originalFormula.bases as any,
-            additions: originalFormula.additions as any,
-            totalMg: originalFormula.totalMg,
+            bases: restored.bases,
+            additions: restored.additions,
+            userCustomizations: restored.userCustomizations,
+            totalMg: restored.totalMg,
             targetCapsules: originalFormula.targetCapsules,
             rationale: originalFormula.rationale as any,
             warnings: originalFormula.warnings as any,
             disclaimers: originalFormula.disclaimers as any,
-            safetyValidation: safetyResult as any,
-            notes: `Reverted to v${originalFormula.version}: ${reason}`
+            safetyValidation: restored.safetyValidation as any,
+            notes: `Reverted to v${originalFormula.version}${restored.excludedSummary}: ${reason}`
         });
 
         // Create version change record
         await formulasRepository.createFormulaVersionChange({
             formulaId: revertedFormula.id,
-            summary: `Reverted to version ${originalFormula.version}`,
+            summary: `Reverted to version ${originalFormula.version}${restored.excludedSummary}`,
             rationale: reason
         });
 
@@ -300,7 +275,7 @@ export class FormulasService {
                 userId,
                 type: 'formula_update',
                 title: `Formula Reverted to V${originalFormula.version}`,
-                content: `Your formula has been reverted. Reason: ${reason}`,
+                content: `Your formula has been reverted${restored.excludedSummary}. Reason: ${reason}`,
                 formulaId: revertedFormula.id,
                 metadata: {
                     actionUrl: '/dashboard/formula',
@@ -317,10 +292,279 @@ export class FormulasService {
 
         return {
             formula: revertedFormula,
-            message: `Successfully reverted to version ${originalFormula.version}`
+            quote: await this.quoteNewVersion(revertedFormula),
+            message: `Successfully reverted to version ${originalFormula.version}${restored.excludedSummary}`
+        };
+    }
+
+    // ── Branches ────────────────────────────────────────────────────────────
+    // A branch is a formula row with branchName set. It takes the next version
+    // number like any other save but never becomes the user's current formula
+    // (getCurrentFormulaByUser only reads the main line) until it is promoted.
+
+    async listBranches(userId: string) {
+        return formulasRepository.getBranches(userId);
+    }
+
+    async createBranch(userId: string, sourceFormulaId: string, name: string, options: { excludeIngredients?: string[] } = {}) {
+        const branchName = name?.trim();
+        if (!branchName || branchName.length > 60) {
+            throw new Error('Branch name is required (max 60 characters)');
+        }
+
+        const source = await formulasRepository.getFormula(sourceFormulaId);
+        if (!source || source.userId !== userId) {
+            throw new Error('Formula not found or access denied');
+        }
+
+        const existing = await formulasRepository.getBranches(userId);
+        if (existing.some(b => b.branchName?.toLowerCase() === branchName.toLowerCase())) {
+            throw new Error(`A branch named "${branchName}" already exists`);
+        }
+        if (existing.length >= MAX_ACTIVE_BRANCHES) {
+            throw new Error(`You can keep up to ${MAX_ACTIVE_BRANCHES} branches. Promote or archive one first.`);
+        }
+
+        const copy = await this.prepareFormulaCopy(userId, source, options.excludeIngredients, 'branch');
+
+        const branch = await formulasRepository.createNextVersionFormula(userId, {
+            userId,
+            name: branchName,
+            userCreated: source.userCreated,
+            bases: copy.bases,
+            additions: copy.additions,
+            userCustomizations: copy.userCustomizations,
+            totalMg: copy.totalMg,
+            targetCapsules: source.targetCapsules,
+            rationale: source.rationale as any,
+            warnings: source.warnings as any,
+            disclaimers: source.disclaimers as any,
+            safetyValidation: copy.safetyValidation as any,
+            notes: `Branched from v${source.version}${copy.excludedSummary}`,
+            branchName,
+            branchedFromId: source.id,
+        });
+
+        await formulasRepository.createFormulaVersionChange({
+            formulaId: branch.id,
+            summary: `Created branch "${branchName}" from version ${source.version}${copy.excludedSummary}`,
+            rationale: 'Experimental variant kept beside the active formula',
+        });
+
+        logger.info('Formula branch created', { userId, branchId: branch.id, sourceFormulaId, branchName });
+
+        return {
+            formula: branch,
+            quote: await this.quoteNewVersion(branch),
         };
     }
 
+    /**
+     * Make a branch the user's active formula: copy it onto the main line as
+     * a new version (re-validated and re-quoted) and archive the branch row.
+     */
+    async promoteBranch(userId: string, branchFormulaId: string, reason?: string) {
+        const branch = await formulasRepository.getFormula(branchFormulaId);
+        if (!branch || branch.userId !== userId) {
+            throw new Error('Formula not found or access denied');
+        }
+        if (!branch.branchName || branch.archivedAt) {
+            throw new Error('Only active branches can be promoted');
+        }
+
+        const copy = await this.prepareFormulaCopy(userId, branch, undefined, 'promote');
+
+        const promoted = await formulasRepository.createNextVersionFormula(userId, {
+            userId,
+            name: branch.name,
+            userCreated: branch.userCreated,
+            bases: copy.bases,
+            additions: copy.additions,
+            userCustomizations: copy.userCustomizations,
+            totalMg: copy.totalMg,
+            targetCapsules: branch.targetCapsules,
+            rationale: branch.rationale as any,
+            warnings: branch.warnings as any,
+            disclaimers: branch.disclaimers as any,
+            safetyValidation: copy.safetyValidation as any,
+            notes: `Promoted from branch "${branch.branchName}" (v${branch.version})`,
+        });
+
+        await formulasRepository.createFormulaVersionChange({
+            formulaId: promoted.id,
+            summary: `Promoted branch "${branch.branchName}" (version ${branch.version})`,
+            rationale: reason?.trim() || 'Branch promoted to active formula',
+        });
+        await formulasRepository.archiveFormula(branch.id);
+
+        try {
+            await notificationsService.create({
+                userId,
+                type: 'formula_update',
+                title: `Formula V${promoted.version} Is Now Active`,
+                content: `Your branch "${branch.branchName}" is now your active formula.`,
+                formulaId: promoted.id,
+                metadata: {
+                    actionUrl: '/dashboard/formula',
+                    icon: 'beaker',
+                    priority: 'low'
+                }
+            });
+        } catch (notifError) {
+            logger.error('Failed to create branch promotion notification:', notifError);
+        }
+
+        await this.syncAutoShipIfActive(userId, promoted.id, promoted.version);
+
+        return {
+            formula: promoted,
+            quote: await this.quoteNewVersion(promoted),
+            message: `Branch "${branch.branchName}" is now your active formula (version ${promoted.version})`
+        };
+    }
+
+    /**
+     * Copy a stored formula's ingredients for a new version, dropping any
+     * excluded ingredients, then re-check capsule budget, minimum ingredient
+     * count, manufacturer availability and safety against the user's CURRENT
+     * health profile. Throws with a user-facing message on any failure.
+     */
+    private async prepareFormulaCopy(
+        userId: string,
+        source: Formula,
+        excludeIngredients: string[] | undefined,
+        action: 'revert' | 'branch' | 'promote',
+    ) {
+        const excluded = new Set((excludeIngredients || []).map(name => name.trim().toLowerCase()).filter(Boolean));
+        const removedNames: string[] = [];
+        const keep = <T extends { ingredient: string; amount: number }>(items: T[] | null | undefined): T[] =>
+            (items || []).filter(item => {
+                if (!excluded.has((item.ingredient || '').toLowerCase())) return true;
+                removedNames.push(item.ingredient);
+                return false;
+            });
+
+        const sourceCustomizations = (source.userCustomizations || {}) as { addedBases?: any[]; addedIndividuals?: any[] };
+        const bases = keep(source.bases as any[]);
+        const additions = keep(source.additions as any[]);
+        const addedBases = keep(sourceCustomizations.addedBases);
+        const addedIndividuals = keep(sourceCustomizations.addedIndividuals);
+
+        const missing = [...excluded].filter(name => !removedNames.some(r => r.toLowerCase() === name));
+        if (missing.length > 0) {
+            throw new Error(`Version ${source.version} does not contain: ${missing.join(', ')}`);
+        }
+
+        const sumMg = (items: Array<{ amount: number }>) => items.reduce((sum, item) => sum + (Number(item.amount) || 0), 0);
+        const removedMg = sumMg([
+            ...((source.bases as any[]) || []), ...((source.additions as any[]) || []),
+            ...(sourceCustomizations.addedBases || []), ...(sourceCustomizations.addedIndividuals || []),
+        ]) - sumMg([...bases, ...additions, ...addedBases, ...addedIndividuals]);
+        const totalMg = Math.round(source.totalMg - removedMg);
+        const verb = action === 'revert' ? 'revert to' : action === 'branch' ? 'branch from' : 'promote';
+
+        // Validate that the copy doesn't exceed maximum dosage for its capsule count (with 2.5% tolerance)
+        const capsules = source.targetCapsules || CAPSULE_LIMITS.DEFAULT_CAPSULE_COUNT;
+        const baseBudget = getMaxDosageForCapsules(capsules);
+        const hardLimit = Math.floor(baseBudget * (1 + CAPSULE_LIMITS.BUDGET_TOLERANCE_PERCENT));
+        if (totalMg > hardLimit) {
+            throw new Error(`Cannot ${verb} this formula as it exceeds the maximum safe dosage of ${hardLimit}mg for ${capsules} capsules (this version has ${totalMg}mg). This formula was created before dosage limits were enforced. Please create a new formula instead.`);
+        }
+
+        // Validate minimum ingredient count
+        const minIngredients = getMinIngredientCountForCapsules(capsules);
+        const ingredientCount = bases.length + additions.length;
+        if (ingredientCount < minIngredients) {
+            throw new Error(`Cannot ${verb} this formula — it would only have ${ingredientCount} ingredients, but ${capsules} capsules/day requires at least ${minIngredients}. Please create a new formula instead.`);
+        }
+
+        // Older versions may reference ingredients the manufacturer has since dropped
+        await assertNoDiscontinuedIngredients([...bases, ...additions, ...addedBases, ...addedIndividuals]);
+
+        // ── SAFETY RE-VALIDATION ────────────────────────────────────────────
+        // Run the full safety validator against the user's CURRENT health
+        // profile. Older formula versions were validated against the profile
+        // that existed AT THE TIME they were created — but the user may have
+        // since added a medication, allergy, or condition that makes the old
+        // formula unsafe (e.g. started Warfarin, became pregnant). Block if
+        // any critical safety issue surfaces.
+        const profile = await usersRepository.getHealthProfile(userId);
+        const userMedications: string[] = (profile as any)?.medications || [];
+        const userMedicationsNormalized = (profile as any)?.medicationsNormalized || [];
+        const userConditions: string[] = (profile as any)?.conditions || [];
+        const userAllergies: string[] = (profile as any)?.allergies || [];
+
+        const safetyResult = validateFormulaSafety({
+            formula: {
+                bases: [...bases, ...addedBases],
+                additions: [...additions, ...addedIndividuals],
+            },
+            userMedications,
+            userMedicationsNormalized,
+            userConditions,
+            userAllergies,
+            isPregnant: detectPregnancyStatus(userConditions),
+            isNursing: detectNursingStatus(userConditions),
+            userAge: profile?.age ?? null,
+            userSex: profile?.sex ?? null,
+            currentSupplements: profile?.currentSupplements || [],
+        });
+        logUnmatchedMedicationsAsync(userId, safetyResult.unmatchedMedications, userMedicationsNormalized, `safety_validator_${action}`);
+
+        if (!safetyResult.safe) {
+            const reasons = safetyResult.blockedReasons.join('; ');
+            logger.warn(`Formula ${action} BLOCKED by safety validator`, {
+                userId,
+                sourceFormulaId: source.id,
+                sourceVersion: source.version,
+                blockedReasons: safetyResult.blockedReasons,
+                criticalCount: safetyResult.warnings.filter(w => w.severity === 'critical').length,
+            });
+            throw new Error(`Cannot ${verb} v${source.version}: it contains ingredients that conflict with your current health profile (medications, allergies, or conditions). ${reasons}. Please create a new formula instead so we can build a safe protocol around your latest profile.`);
+        }
+
+        // Log non-blocking serious warnings so we have a record of what was
+        // surfaced (useful for compliance audits).
+        const seriousWarnings = safetyResult.warnings.filter(w => w.severity === 'serious');
+        if (seriousWarnings.length > 0) {
+            logger.info(`Formula ${action} proceeding with serious (non-blocking) warnings`, {
+                userId,
+                sourceFormulaId: source.id,
+                sourceVersion: source.version,
+                seriousWarnings: seriousWarnings.map(w => ({ category: w.category, message: w.message })),
+            });
+        }
+
+        return {
+            bases,
+            additions,
+            userCustomizations: {
+                ...(addedBases.length ? { addedBases } : {}),
+                ...(addedIndividuals.length ? { addedIndividuals } : {}),
+            },
+            totalMg,
+            safetyValidation: safetyResult,
+            excludedSummary: removedNames.length ? ` without ${[...new Set(removedNames)].join(', ')}` : '',
+        };
+    }
+
+    /** Fresh manufacturer quote for a just-created version. Non-fatal — returns null on failure. */
+    private async quoteNewVersion(formula: Formula) {
+        try {
+            return await manufacturerPricingService.quoteFormula({
+                bases: (formula.bases as any[]) || [],
+                additions: (formula.additions as any[]) || [],
+                targetCapsules: (formula.targetCapsules as number) || 9,
+            }, (formula.targetCapsules as number) || 9);
+        } catch (error) {
+            logger.warn('Failed to quote new formula version', {
+                formulaId: formula.id,
+                error: error instanceof Error ? error.message : error,
+            });
+            return null;
+        }
+    }
+
     async customizeFormula(userId: string, formulaId: string, addedBases: any[], addedIndividuals: any[]) {
         // Validate that all added ingredients are valid and within dose ranges
         const allAdded = [...(addedBases || []), ...(addedIndividuals || [])];
@@ -419,6 +663,9 @@ export class FormulasService {
             userAllergies,
             isPregnant: detectPregnancyStatus(userConditions),
             isNursing: detectNursingStatus(userConditions),
+            userAge: profile?.age ?? null,
+            userSex: profile?.sex ?? null,
+            currentSupplements: profile?.currentSupplements || [],
         });
         logUnmatchedMedicationsAsync(userId, customizeSafety.unmatchedMedications, userMedicationsNormalized, 'safety_validator_customize');
         if (!customizeSafety.safe) {
@@ -531,6 +778,9 @@ export class FormulasService {
             userAllergies: customAllergies,
             isPregnant: detectPregnancyStatus(customConditions),
             isNursing: detectNursingStatus(customConditions),
+            userAge: customCreateProfile?.age ?? null,
+            userSex: customCreateProfile?.sex ?? null,
+            currentSupplements: customCreateProfile?.currentSupplements || [],
         });
         logUnmatchedMedicationsAsync(userId, customSafety.unmatchedMedications, customMedicationsNormalized, 'safety_validator_custom_create');
         if (!customSafety.safe) {
@@ -1,4 +1,5 @@
 import logger from "../../infra/logging/logger";
+import { QuoteCache, buildQuoteCacheKey, type QuoteCacheStats } from "./quote-cache";
 
 const ALIVE_API_BASE_URL = (process.env.ALIVE_API_BASE_URL || "https://dev.aliveinnovations.com/api").replace(/\/$/, "");
 const ALIVE_API_INGREDIENTS_URL = process.env.ALIVE_API_INGREDIENTS_URL || `${ALIVE_API_BASE_URL}/ingredients`;
@@ -168,6 +169,8 @@ class ManufacturerPricingService {
     private cachedIngredients: ManufacturerIngredient[] | null = null;
     private cachedAt = 0;
     private readonly cacheMs = 15 * 60 * 1000;
+    private catalogRequest: Promise<ManufacturerIngredient[]> | null = null;
+    private readonly quoteCache = new QuoteCache<QuoteResult>();
 
     private buildAuthHeaders(): Record<string, string> {
         return {
@@ -192,6 +195,16 @@ class ManufacturerPricingService {
             return this.cachedIngredients;
         }
 
+        // Concurrent quotes on a cold cache share one catalog request
+        if (!this.catalogRequest) {
+            this.catalogRequest = this.loadIngredientsCatalog(now).finally(() => {
+                this.catalogRequest = null;
+            });
+        }
+        return this.catalogRequest;
+    }
+
+    private async loadIngredientsCatalog(now: number): Promise<ManufacturerIngredient[]> {
         const response = await this.fetchWithTimeout(ALIVE_API_INGREDIENTS_URL, {
             method: "GET",
             headers: {
@@ -302,7 +315,16 @@ class ManufacturerPricingService {
         };
     }
 
-    async quoteFormula(formula: { bases?: FormulaIngredient[] | null; additions?: FormulaIngredient[] | null; targetCapsules?: number }, capsuleCountInput?: number): Promise<QuoteResult> {
+    /**
+     * Price a formula with Alive for an 8-week supply. Successful quotes are
+     * cached by composition + capsule count until shortly before Alive's
+     * quote_id expires (see quote-cache.ts).
+     */
+    async quoteFormula(
+        formula: { bases?: FormulaIngredient[] | null; additions?: FormulaIngredient[] | null; targetCapsules?: number },
+        capsuleCountInput?: number,
+        options: { prewarm?: boolean } = {},
+    ): Promise<QuoteResult> {
         const capsuleCountFromInput = isValidCapsuleCount(Number(capsuleCountInput)) ? Number(capsuleCountInput) as CapsuleCount : undefined;
         const capsuleCountFromFormula = isValidCapsuleCount(Number(formula.targetCapsules)) ? Number(formula.targetCapsules) as CapsuleCount : undefined;
         const capsuleCount = capsuleCountFromInput || capsuleCountFromFormula || 9 as CapsuleCount;
@@ -341,6 +363,28 @@ class ManufacturerPricingService {
             };
         }
 
+        const cacheKey = buildQuoteCacheKey(allIngredients, capsuleCount);
+        if (!options.prewarm) {
+            const cached = this.quoteCache.get(cacheKey);
+            if (cached) {
+                return { ...cached, unmappedIngredients: [...cached.unmappedIngredients] };
+            }
+        }
+
+        const quote = await this.quoteCache.dedupe(cacheKey, () => this.requestQuote(allIngredients, capsuleCount, totalCapsules));
+        // Only successful quotes are cached — failures (timeouts, rejections)
+        // should be retried on the next request, not pinned for the TTL.
+        if (quote.available) {
+            this.quoteCache.set(cacheKey, quote, quote.quoteExpiresAt, { prewarm: options.prewarm });
+        }
+        return { ...quote, unmappedIngredients: [...quote.unmappedIngredients] };
+    }
+
+    private async requestQuote(
+        allIngredients: Array<{ ingredient: string; amount: number }>,
+        capsuleCount: CapsuleCount,
+        totalCapsules: number,
+    ): Promise<QuoteResult> {
         try {
             const catalog = await this.fetchIngredientsCatalog();
             const payloadIngredients: QuoteRequestIngredient[] = [];
@@ -492,6 +536,49 @@ class ManufacturerPricingService {
             };
         }
     }
+
+    /**
+     * Quote formulas ahead of time so the page view / checkout that follows
+     * is served from cache. Sequential on purpose — this runs in the
+     * background and shouldn't compete with live quotes for Alive capacity.
+     */
+    async prewarmQuotes(
+        formulas: Array<{ bases?: FormulaIngredient[] | null; additions?: FormulaIngredient[] | null; targetCapsules?: number | null }>,
+        capsuleCounts?: number[],
+    ): Promise<{ warmed: number; alreadyCached: number; failed: number }> {
+        let warmed = 0;
+        let alreadyCached = 0;
+        let failed = 0;
+
+        for (const formula of formulas) {
+            const ingredients = [...(formula.bases || []), ...(formula.additions || [])]
+                .filter((item) => item && item.ingredient && Number(item.amount) > 0)
+                .map((item) => ({ ingredient: String(item.ingredient), amount: Number(item.amount) }));
+            if (ingredients.length === 0) continue;
+
+            const counts = capsuleCounts?.length
+                ? capsuleCounts.filter(isValidCapsuleCount)
+                : [isValidCapsuleCount(Number(formula.targetCapsules)) ? Number(formula.targetCapsules) as CapsuleCount : 9 as CapsuleCount];
+
+            for (const capsuleCount of counts) {
+                if (this.quoteCache.has(buildQuoteCacheKey(ingredients, capsuleCount))) {
+                    alreadyCached++;
+                    continue;
+                }
+                const quote = await this.quoteFormula({ bases: formula.bases, additions: formula.additions }, capsuleCount, { prewarm: true });
+                if (quote.available) warmed++;
+                else failed++;
+            }
+        }
+
+        return { warmed, alreadyCached, failed };
+    }
+
+    /** Hit/miss counters for the admin analytics page. */
+    getQuoteCacheStats(): QuoteCacheStats {
+        return this.quoteCache.stats();
+    }
+
     /**
      * Place a production order with Alive using the external-order API.
      * Requires the quote_id from a previous /get-quote call plus customer/shipping details.
@@ -506,6 +593,10 @@ class ManufacturerPricingService {
             return { success: false, error: 'No quote_id provided.' };
         }
 
+        // A quote_id backs a single production order — stop handing it to
+        // other checkouts with the same composition.
+        this.quoteCache.invalidateWhere((quote) => quote.quoteId === quoteId);
+
         // Use the new /external-order endpoint if customer info is available,
         // otherwise fall back to the legacy /mix-product endpoint
         if (customerInfo) {
@@ -0,0 +1,172 @@
+/**
+ * Cumulative nutrient upper-limit checker.
+ *
+ * The same nutrient can reach a user from three places: inside a system
+ * support blend (Zinc in Endocrine Support), as an individual addition, and
+ * from a supplement they already take (`healthProfiles.currentSupplements`).
+ * This sums each tracked nutrient across all three and compares the total to
+ * the age/sex/life-stage Tolerable Upper Intake Level from
+ * NUTRIENT_UPPER_LIMITS. Results are SafetyWarnings so they flow through the
+ * same severity pipeline as every other validator check.
+ *
+ * Only nutrients the formula actually contributes are flagged — a user's own
+ * supplements exceeding a UL on their own isn't something the formula caused.
+ */
+
+import type { SafetyWarning, SafetyWarningSeverity, CumulativeNutrientIntake } from '@shared/safety-types';
+import {
+  findNutrientByName,
+  getElementalFactor,
+  getFormFactor,
+  getUpperLimit,
+  type NutrientDefinition,
+  type UpperLimitContext,
+} from '@shared/nutrient-upper-limits';
+
+export interface FormulaDoseLine {
+  /** Ingredient or sub-ingredient name */
+  name: string;
+  amountMg: number;
+  /** Parent system support, when this line was expanded from one */
+  via?: string;
+  /** Compound/form description from the support label, e.g. "as palmitate" */
+  form?: string;
+}
+
+export interface NutrientLimitInput extends UpperLimitContext {
+  formulaDoses: FormulaDoseLine[];
+  currentSupplements: string[];
+}
+
+interface ParsedSupplement {
+  label: string;
+  nutrient: NutrientDefinition;
+  /** Amount in the nutrient's unit; null when the entry names the nutrient without a usable dose */
+  amount: number | null;
+}
+
+// "5,000 IU", "50mg", "1.5 g", "200 mcg"
+const DOSE_PATTERN = /(\d[\d,]*(?:\.\d+)?)\s*(mcg|µg|ug|mg|g|iu)\b/i;
+
+function convertToNutrientUnit(value: number, unit: string, nutrient: NutrientDefinition): number | null {
+  const u = unit.toLowerCase();
+  if (u === 'iu') return nutrient.perIU !== undefined ? value * nutrient.perIU : null;
+  let mg: number;
+  if (u === 'g') mg = value * 1000;
+  else if (u === 'mg') mg = value;
+  else mg = value / 1000; // mcg / µg / ug
+  return nutrient.unit === 'mcg' ? mg * 1000 : mg;
+}
+
+/**
+ * Parse free-text current supplements ("Zinc 50mg + Copper 2mg",
+ * "Vitamin D3 5,000 IU") into nutrient amounts. Entries that don't name a
+ * tracked nutrient are ignored.
+ */
+export function parseCurrentSupplements(entries: string[]): ParsedSupplement[] {
+  const parsed: ParsedSupplement[] = [];
+  for (const entry of entries || []) {
+    if (!entry || !entry.trim()) continue;
+    const parts = entry.split(/\s*(?:\+|;|&|\band\b)\s*/i).filter(Boolean);
+    for (const part of parts) {
+      const nutrient = findNutrientByName(part);
+      if (!nutrient) continue;
+      const factor = getFormFactor(nutrient, part) * getElementalFactor(nutrient, part);
+      if (factor === 0) continue;
+      const match = part.match(DOSE_PATTERN);
+      const value = match ? parseFloat(match[1].replace(/,/g, '')) : NaN;
+      const converted = match && Number.isFinite(value)
+        ? convertToNutrientUnit(value, match[2], nutrient)
+        : null;
+      const amount = converted === null ? null : converted * factor;
+      parsed.push({ label: part.trim(), nutrient, amount });
+    }
+  }
+  return parsed;
+}
+
+const formatAmount = (amount: number, unit: string): string =>
+  `${amount >= 10 ? Math.round(amount).toLocaleString('en-US') : Number(amount.toFixed(2))}${unit}`;
+
+export function checkNutrientUpperLimits(input: NutrientLimitInput): SafetyWarning[] {
+  const warnings: SafetyWarning[] = [];
+  const intakes = new Map<string, { nutrient: NutrientDefinition; sources: CumulativeNutrientIntake['sources'] }>();
+  const unquantified = new Map<string, string[]>();
+
+  const addSource = (nutrient: NutrientDefinition, source: CumulativeNutrientIntake['sources'][number]) => {
+    const entry = intakes.get(nutrient.id) || { nutrient, sources: [] };
+    entry.sources.push(source);
+    intakes.set(nutrient.id, entry);
+  };
+
+  for (const line of input.formulaDoses) {
+    const nutrient = findNutrientByName(line.name);
+    if (!nutrient || !Number.isFinite(line.amountMg) || line.amountMg <= 0) continue;
+    // A form description ("as Zinc Oxide") means the line already states the elemental amount
+    const factor = getFormFactor(nutrient, line.form) * (line.form ? 1 : getElementalFactor(nutrient, line.name));
+    if (factor === 0) continue;
+    const amount = (nutrient.unit === 'mcg' ? line.amountMg * 1000 : line.amountMg) * factor;
+    addSource(nutrient, {
+      source: 'formula',
+      label: line.via ? `${line.name} (in ${line.via})` : line.name,
+      amount,
+    });
+  }
+
+  for (const supp of parseCurrentSupplements(input.currentSupplements)) {
+    if (supp.amount === null) {
+      const list = unquantified.get(supp.nutrient.id) || [];
+      list.push(supp.label);
+      unquantified.set(supp.nutrient.id, list);
+      continue;
+    }
+    addSource(supp.nutrient, { source: 'current_supplement', label: supp.label, amount: supp.amount });
+  }
+
+  intakes.forEach(({ nutrient, sources }) => {
+    if (!sources.some(s => s.source === 'formula')) return;
+
+    const upperLimit = getUpperLimit(nutrient, input);
+    if (upperLimit === undefined) return;
+
+    const totalAmount = sources.reduce((sum, s) => sum + s.amount, 0);
+    const breakdown = sources.map(s => `${s.label}: ${formatAmount(s.amount, nutrient.unit)}`).join(', ');
+
+    if (totalAmount > upperLimit) {
+      const ratio = totalAmount / upperLimit;
+      const severity: SafetyWarningSeverity =
+        nutrient.criticalAtMultiple !== undefined && ratio >= nutrient.criticalAtMultiple
+          ? 'critical'
+          : nutrient.aboveUlSeverity;
+      const summary = `Your total daily ${nutrient.label} would be ${formatAmount(totalAmount, nutrient.unit)}, above the ${formatAmount(upperLimit, nutrient.unit)} tolerable upper limit for your age and sex (${breakdown}). ${nutrient.risk}`;
+      warnings.push({
+        category: `nutrient_ul_${nutrient.id}`,
+        severity,
+        message: severity === 'critical'
+          ? `BLOCKED: ${summary} Reduce ${nutrient.label} in the formula or in your current supplements.`
+          : `${summary} Consider reducing ${nutrient.label} in the formula or your current supplements.`,
+        ingredients: sources.filter(s => s.source === 'formula').map(s => s.label),
+        cumulativeIntake: {
+          nutrient: nutrient.id,
+          unit: nutrient.unit,
+          totalAmount,
+          upperLimit,
+          sources,
+        },
+      });
+      return;
+    }
+
+    const unknown = unquantified.get(nutrient.id);
+    if (unknown && unknown.length > 0) {
+      warnings.push({
+        category: `nutrient_ul_unknown_${nutrient.id}`,
+        severity: 'informational',
+        message: `Your formula provides ${formatAmount(totalAmount, nutrient.unit)} of ${nutrient.label}, and you also take ${unknown.join(', ')} without a listed dose. Check the label so your combined intake stays under ${formatAmount(upperLimit, nutrient.unit)} per day.`,
+        ingredients: sources.filter(s => s.source === 'formula').map(s => s.label),
+      });
+    }
+  });
+
+  return warnings;
+}
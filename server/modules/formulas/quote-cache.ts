@@ -0,0 +1,162 @@
+/**
+ * In-memory cache for Alive manufacturer quotes.
+ *
+ * Keyed by normalized formula composition (ingredient name + daily mg,
+ * order-independent) plus capsule count, so two formula rows with the same
+ * ingredients share a quote. Entries never outlive Alive's own quote_id:
+ * they expire EXPIRY_MARGIN_MS before `quoteExpiresAt` so a quote handed to
+ * checkout still has time left when the production order is placed.
+ *
+ * Pure — no Alive or DB access. ManufacturerPricingService owns the instance
+ * and decides what to cache; this module only stores entries and counts
+ * hits/misses for the admin analytics page.
+ */
+
+export interface QuoteCacheIngredient {
+    ingredient: string;
+    amount: number;
+}
+
+export interface QuoteCacheStats {
+    entries: number;
+    hits: number;
+    misses: number;
+    /** Lookups that found an entry past its expiry (counted as misses too) */
+    expired: number;
+    /** Concurrent lookups that joined an in-flight Alive request instead of making their own */
+    inflightJoins: number;
+    stores: number;
+    evictions: number;
+    prewarmed: number;
+    hitRate: number;
+    since: string;
+}
+
+interface CacheEntry<T> {
+    value: T;
+    expiresAt: number;
+}
+
+/** Default lifetime when Alive doesn't return expires_at */
+export const DEFAULT_QUOTE_TTL_MS = 30 * 60 * 1000;
+/** Stop serving a quote this long before Alive expires it */
+export const EXPIRY_MARGIN_MS = 15 * 60 * 1000;
+const MAX_ENTRIES = 2000;
+
+/** Normalized, order-independent cache key for a formula composition at a capsule count. */
+export function buildQuoteCacheKey(ingredients: QuoteCacheIngredient[], capsuleCount: number): string {
+    const parts = new Map<string, number>();
+    for (const item of ingredients) {
+        const name = String(item.ingredient || '').trim().toLowerCase().replace(/\s+/g, ' ');
+        if (!name) continue;
+        parts.set(name, (parts.get(name) || 0) + (Number(item.amount) || 0));
+    }
+    const composition = Array.from(parts.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, amount]) => `${name}:${Math.round(amount * 1000) / 1000}`)
+        .join('|');
+    return `${capsuleCount}#${composition}`;
+}
+
+export class QuoteCache<T> {
+    private entries = new Map<string, CacheEntry<T>>();
+    private inflight = new Map<string, Promise<T>>();
+    private counters = { hits: 0, misses: 0, expired: 0, inflightJoins: 0, stores: 0, evictions: 0, prewarmed: 0 };
+    private since: number;
+
+    constructor(private readonly now: () => number = Date.now) {
+        this.since = this.now();
+    }
+
+    get(key: string): T | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            this.counters.misses++;
+            return undefined;
+        }
+        if (entry.expiresAt <= this.now()) {
+            this.entries.delete(key);
+            this.counters.expired++;
+            this.counters.misses++;
+            return undefined;
+        }
+        // Re-insert so Map iteration order tracks recency for eviction
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        this.counters.hits++;
+        return entry.value;
+    }
+
+    /**
+     * Store a value until `quoteExpiresAt` minus the safety margin, capped at
+     * DEFAULT_QUOTE_TTL_MS. Values that would already be expired are dropped.
+     */
+    set(key: string, value: T, quoteExpiresAt?: string, options: { prewarm?: boolean } = {}): void {
+        const now = this.now();
+        let expiresAt = now + DEFAULT_QUOTE_TTL_MS;
+        const aliveExpiry = quoteExpiresAt ? Date.parse(quoteExpiresAt) : NaN;
+        if (!Number.isNaN(aliveExpiry)) {
+            expiresAt = Math.min(expiresAt, aliveExpiry - EXPIRY_MARGIN_MS);
+        }
+        if (expiresAt <= now) return;
+
+        this.entries.delete(key);
+        this.entries.set(key, { value, expiresAt });
+        this.counters.stores++;
+        if (options.prewarm) this.counters.prewarmed++;
+
+        while (this.entries.size > MAX_ENTRIES) {
+            const oldest = this.entries.keys().next().value;
+            if (oldest === undefined) break;
+            this.entries.delete(oldest);
+            this.counters.evictions++;
+        }
+    }
+
+    /** True when a live (unexpired) entry exists. Does not touch hit/miss counters. */
+    has(key: string): boolean {
+        const entry = this.entries.get(key);
+        return !!entry && entry.expiresAt > this.now();
+    }
+
+    /**
+     * Share one in-flight request between concurrent callers for the same key
+     * (e.g. the 6/9/12 capsule selector firing while checkout also quotes).
+     */
+    async dedupe(key: string, load: () => Promise<T>): Promise<T> {
+        const pending = this.inflight.get(key);
+        if (pending) {
+            this.counters.inflightJoins++;
+            return pending;
+        }
+        const promise = load().finally(() => this.inflight.delete(key));
+        this.inflight.set(key, promise);
+        return promise;
+    }
+
+    /** Drop every entry matching the predicate (e.g. a quote_id consumed by an order). */
+    invalidateWhere(predicate: (value: T) => boolean): number {
+        let removed = 0;
+        this.entries.forEach((entry, key) => {
+            if (predicate(entry.value)) {
+                this.entries.delete(key);
+                removed++;
+            }
+        });
+        return removed;
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+
+    stats(): QuoteCacheStats {
+        const lookups = this.counters.hits + this.counters.misses;
+        return {
+            entries: this.entries.size,
+            ...this.counters,
+            hitRate: lookups ? Number(((this.counters.hits / lookups) * 100).toFixed(1)) : 0,
+            since: new Date(this.since).toISOString(),
+        };
+    }
+}
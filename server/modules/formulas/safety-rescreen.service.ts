@@ -0,0 +1,274 @@
+/**
+ * Safety re-screening — re-runs the safety validator over a user's current
+ * formula after something the validator depends on changes (medications,
+ * conditions, allergies, age/sex, current supplements, or the published
+ * safety rule set).
+ *
+ * Each re-screen:
+ *  1. Stores the fresh result on formulas.safetyValidation.
+ *  2. Writes a 'safety_rescreen' row to safety_audit_logs.
+ *  3. Pauses an active auto-ship when a critical warning is new or escalated.
+ *  4. Notifies the user (in-app + email) about new critical/serious warnings.
+ *
+ * A formula with no stored result has nothing to compare against. A bulk
+ * re-screen (rule-set publish, manual run) only records a baseline for it
+ * (steps 1–2); otherwise the first publish would treat every existing warning
+ * as new across the whole user base. A profile change still reports every
+ * non-informational warning as new, so a newly listed medication is never
+ * swallowed into the baseline.
+ *
+ * Profile-triggered re-screens are fire-and-forget and serialized per user so
+ * a burst of profile saves can't interleave writes on the same formula.
+ */
+
+import logger from "../../infra/logging/logger";
+import { formulasRepository } from "./formulas.repository";
+import { usersRepository } from "../users/users.repository";
+import { autoShipRepository } from "../billing/autoship.repository";
+import { systemRepository } from "../system/system.repository";
+import { notificationsService } from "../notifications/notifications.service";
+import { sendNotificationEmail } from "../../utils/emailService";
+import { escapeHtml } from "../../utils/sanitize";
+import { validateFormulaSafety, safetyWarningsToStrings, findEscalatedWarnings } from "./safety-validator";
+import { detectPregnancyStatus, detectNursingStatus } from "./profile-status-detector";
+import type { SafetyWarning, SafetyWarningSeverity } from "@shared/safety-types";
+import type { Formula } from "@shared/schema";
+
+export type SafetyRescreenTrigger =
+  | 'medications_changed'
+  | 'health_profile_changed'
+  | 'rule_set_published'
+  | 'manual';
+
+export interface SafetyRescreenResult {
+  userId: string;
+  formulaId: string;
+  formulaVersion: number;
+  safe: boolean;
+  /** No earlier result was stored, so this run only recorded a baseline */
+  baseline: boolean;
+  newWarnings: SafetyWarning[];
+  autoShipPaused: boolean;
+  userNotified: boolean;
+}
+
+/** Bulk triggers: with no stored result to compare against, these only record a baseline */
+const BASELINE_TRIGGERS: ReadonlySet<SafetyRescreenTrigger> = new Set(['rule_set_published', 'manual']);
+
+class SafetyRescreenService {
+  private pending = new Map<string, Promise<unknown>>();
+
+  /**
+   * Queue a background re-screen for one user. Never throws and never blocks
+   * the caller; runs after any re-screen already in flight for the same user.
+   */
+  scheduleUserRescreen(userId: string, trigger: SafetyRescreenTrigger): void {
+    const previous = this.pending.get(userId) || Promise.resolve();
+    const next = previous
+      .catch(() => { /* logged by the previous run */ })
+      .then(() => this.rescreenUser(userId, trigger))
+      .catch((error) => {
+        logger.error('Safety re-screen failed', { userId, trigger, error: error instanceof Error ? error.message : error });
+      })
+      .finally(() => {
+        if (this.pending.get(userId) === next) this.pending.delete(userId);
+      });
+    this.pending.set(userId, next);
+  }
+
+  /** Re-validate the user's current formula. Returns null when they have none. */
+  async rescreenUser(userId: string, trigger: SafetyRescreenTrigger): Promise<SafetyRescreenResult | null> {
+    const formula = await formulasRepository.getCurrentFormulaByUser(userId);
+    if (!formula) return null;
+
+    const profile = await usersRepository.getHealthProfile(userId);
+    const medications: string[] = (profile as any)?.medications || [];
+    const conditions: string[] = (profile as any)?.conditions || [];
+    const allergies: string[] = (profile as any)?.allergies || [];
+
+    const result = validateFormulaSafety({
+      formula: { bases: (formula.bases as any[]) || [], additions: (formula.additions as any[]) || [] },
+      userMedications: medications,
+      userMedicationsNormalized: (profile as any)?.medicationsNormalized || [],
+      userConditions: conditions,
+      userAllergies: allergies,
+      isPregnant: detectPregnancyStatus(conditions),
+      isNursing: detectNursingStatus(conditions),
+      userAge: profile?.age ?? null,
+      userSex: profile?.sex ?? null,
+      currentSupplements: profile?.currentSupplements || [],
+    });
+
+    const baseline = !formula.safetyValidation && BASELINE_TRIGGERS.has(trigger);
+    const newWarnings = baseline
+      ? []
+      : findEscalatedWarnings(formula.safetyValidation?.warnings || [], result.warnings)
+        .filter(w => w.severity !== 'informational');
+    const newCritical = newWarnings.filter(w => w.severity === 'critical');
+
+    const existingStrings: string[] = formula.warnings || [];
+    const addedStrings = safetyWarningsToStrings(newWarnings).filter(s => !existingStrings.includes(s));
+    await formulasRepository.updateSafetyValidation(formula.id, {
+      requiresAcknowledgment: result.requiresAcknowledgment,
+      warnings: result.warnings,
+      ruleSetVersion: result.ruleSetVersion,
+    }, {
+      warnings: addedStrings.length ? [...existingStrings, ...addedStrings] : undefined,
+      clearAcknowledgment: newWarnings.length > 0,
+    });
+
+    let autoShipPaused = false;
+    if (newCritical.length > 0) {
+      const autoShip = await autoShipRepository.getByUserId(userId);
+      if (autoShip && autoShip.status === 'active') {
+        await autoShipRepository.update(autoShip.id, { status: 'paused' as any });
+        autoShipPaused = true;
+        logger.warn('Auto-ship paused by safety re-screen', {
+          userId, autoShipId: autoShip.id, formulaId: formula.id, categories: newCritical.map(w => w.category),
+        });
+      }
+    }
+
+    try {
+      await systemRepository.createSafetyAuditLog({
+        userId,
+        formulaId: formula.id,
+        action: 'safety_rescreen',
+        severity: this.highestSeverity(result.warnings),
+        details: {
+          warnings: result.warnings.map(w => ({
+            category: w.category, severity: w.severity, message: w.message, ingredients: w.ingredients, drugs: w.drugs,
+          })),
+          medications,
+          conditions,
+          allergies,
+          blockedReasons: result.blockedReasons,
+          trigger,
+          baseline,
+          newWarningCategories: newWarnings.map(w => w.category),
+          autoShipPaused,
+        },
+        ruleSetVersion: result.ruleSetVersion ?? null,
+      });
+    } catch (auditErr) {
+      logger.error('Failed to write safety re-screen audit log', { userId, formulaId: formula.id, error: auditErr });
+    }
+
+    const userNotified = newWarnings.length > 0
+      ? await this.notifyUser(userId, formula, newWarnings, autoShipPaused)
+      : false;
+
+    if (newWarnings.length > 0) {
+      logger.info('Safety re-screen found new warnings', {
+        userId, formulaId: formula.id, trigger,
+        categories: newWarnings.map(w => `${w.category}:${w.severity}`),
+      });
+    }
+
+    return {
+      userId,
+      formulaId: formula.id,
+      formulaVersion: formula.version,
+      safe: result.safe,
+      baseline,
+      newWarnings,
+      autoShipPaused,
+      userNotified,
+    };
+  }
+
+  /**
+   * Re-screen every user's current formula — run after a new rule set is
+   * published. Sequential on purpose: each formula is a handful of queries and
+   * this should never compete with request traffic for connections.
+   */
+  async rescreenAllActive(trigger: SafetyRescreenTrigger): Promise<{
+    screened: number;
+    baselined: number;
+    withNewWarnings: number;
+    autoShipsPaused: number;
+    failed: number;
+  }> {
+    const latest = new Map<string, Formula>();
+    for (const formula of await formulasRepository.getAllActiveFormulas()) {
+      const current = latest.get(formula.userId);
+      if (!current || formula.createdAt > current.createdAt) latest.set(formula.userId, formula);
+    }
+
+    let screened = 0;
+    let baselined = 0;
+    let withNewWarnings = 0;
+    let autoShipsPaused = 0;
+    let failed = 0;
+    for (const userId of latest.keys()) {
+      try {
+        const result = await this.rescreenUser(userId, trigger);
+        if (!result) continue;
+        screened++;
+        if (result.baseline) baselined++;
+        if (result.newWarnings.length > 0) withNewWarnings++;
+        if (result.autoShipPaused) autoShipsPaused++;
+      } catch (error) {
+        failed++;
+        logger.error('Safety re-screen failed for user', { userId, trigger, error: error instanceof Error ? error.message : error });
+      }
+    }
+    return { screened, baselined, withNewWarnings, autoShipsPaused, failed };
+  }
+
+  private highestSeverity(warnings: SafetyWarning[]): SafetyWarningSeverity {
+    if (warnings.some(w => w.severity === 'critical')) return 'critical';
+    if (warnings.some(w => w.severity === 'serious')) return 'serious';
+    return 'informational';
+  }
+
+  private async notifyUser(
+    userId: string,
+    formula: Formula,
+    newWarnings: SafetyWarning[],
+    autoShipPaused: boolean,
+  ): Promise<boolean> {
+    const hasCritical = newWarnings.some(w => w.severity === 'critical');
+    const summary = hasCritical
+      ? 'Your current formula is no longer safe to order with your updated health profile.'
+      : 'Your current formula has new safety warnings you need to review before your next order.';
+    const pauseNote = autoShipPaused
+      ? ' We\'ve paused your auto-ship until your formula is updated.'
+      : '';
+
+    try {
+      await notificationsService.create({
+        userId,
+        type: 'formula_update',
+        title: hasCritical ? 'Formula Safety Alert' : 'New Formula Safety Warning',
+        content: `${summary}${pauseNote} ${newWarnings.map(w => w.message).join(' ')}`,
+        metadata: { actionUrl: '/dashboard/formula', icon: 'alert-triangle', priority: 'high' },
+      });
+
+      const user = await usersRepository.getUser(userId);
+      if (user?.email && await notificationsService.shouldSendEmail(userId, 'system')) {
+        const frontendUrl = process.env.FRONTEND_URL || 'https://ones.health';
+        await sendNotificationEmail({
+          to: user.email,
+          subject: hasCritical ? 'Important: safety alert for your Ones formula' : 'New safety warning for your Ones formula',
+          title: hasCritical ? 'Formula Safety Alert' : 'New Formula Safety Warning',
+          type: 'formula_update',
+          content: `
+            <p>Hi ${escapeHtml(user.name?.split(' ')[0] || 'there')},</p>
+            <p>${summary}${pauseNote}</p>
+            <ul>${newWarnings.map(w => `<li>${escapeHtml(w.message)}</li>`).join('')}</ul>
+            <p>Please review your formula (version ${formula.version}) and talk to your physician or pharmacist before taking it.</p>
+          `,
+          actionUrl: `${frontendUrl}/dashboard/formula`,
+          actionText: 'Review Formula',
+        });
+      }
+      return true;
+    } catch (err) {
+      logger.warn('Failed to send safety re-screen notification', { userId, error: err });
+      return false;
+    }
+  }
+}
+
+export const safetyRescreenService = new SafetyRescreenService();
@@ -0,0 +1,118 @@
+/**
+ * Evaluator for declarative safety rules (see shared/safety-rules.ts).
+ *
+ * Pure and synchronous like the validator that calls it — no DB access. The
+ * active rule set lives in memory; safetyRulesService loads the published set
+ * from `safety_rule_sets` at startup and swaps it in via setActiveSafetyRuleSet.
+ */
+
+import type { SafetyWarning } from '@shared/safety-types';
+import { BUILTIN_SAFETY_RULE_SET, type SafetyRule, type SafetyRuleSet } from '@shared/safety-rules';
+
+export interface SafetyRuleContext {
+  /** Lowercased direct + expanded sub-ingredient names */
+  allIngredients: string[];
+  /** Lowercased raw medications, used for the `drugs` field */
+  medsLower: string[];
+  conditionsLower: string[];
+  /** Medication matcher that also records which medications were recognized */
+  hasMed: (keywords: string[]) => boolean;
+}
+
+// Normalize a string for fuzzy matching: lowercase + strip non-alphanumeric.
+// This makes "Co-Q10" / "CoQ10" / "Coenzyme Q-10" line up against keyword
+// patterns, and tolerates extra whitespace/punctuation in user-entered
+// medication names ("St. John's Wort" vs "st johns wort").
+export const normalizeForMatch = (s: string): string =>
+  (s || '').toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+const matchesAny = (list: string[], keywords: string[]) => {
+  const normalizedKeywords = keywords.map(normalizeForMatch);
+  return list.some(item => {
+    const normalized = normalizeForMatch(item);
+    return normalizedKeywords.some(k => normalized.includes(k));
+  });
+};
+
+const matchingIngr = (allIngredients: string[], keywords: string[]) => {
+  const matches = new Set<string>();
+  const normalizedKeywords = keywords.map(normalizeForMatch);
+  for (const i of allIngredients) {
+    const normalizedI = normalizeForMatch(i);
+    for (const k of normalizedKeywords) {
+      if (normalizedI.includes(k)) matches.add(i);
+    }
+  }
+  return [...matches];
+};
+
+const fillTemplate = (message: string, found: string[]) =>
+  message.replace(/\{ingredients\}/g, found.join(', ')).replace(/\{count\}/g, String(found.length));
+
+let activeRuleSet: SafetyRuleSet = BUILTIN_SAFETY_RULE_SET;
+
+export function getActiveSafetyRuleSet(): SafetyRuleSet {
+  return activeRuleSet;
+}
+
+export function setActiveSafetyRuleSet(ruleSet: SafetyRuleSet): void {
+  activeRuleSet = ruleSet;
+}
+
+function triggerMatches(rule: SafetyRule, ctx: SafetyRuleContext): boolean {
+  const { medications, conditions } = rule.trigger;
+  if (!medications?.length && !conditions?.length) return true;
+  // Evaluate the medication side even when conditions would match, so the
+  // medication is still marked as recognized for unmatched-medication logging.
+  const medHit = medications?.length ? ctx.hasMed(medications) : false;
+  const conditionHit = conditions?.length ? matchesAny(ctx.conditionsLower, conditions) : false;
+  return medHit || conditionHit;
+}
+
+/**
+ * Run every enabled rule in order and return the warnings they produce.
+ * Rule order is significant: `suppressedBy` only sees categories emitted by
+ * earlier rules.
+ */
+export function evaluateSafetyRules(ruleSet: SafetyRuleSet, ctx: SafetyRuleContext): SafetyWarning[] {
+  const warnings: SafetyWarning[] = [];
+
+  for (const rule of ruleSet.rules) {
+    if (!rule.enabled) continue;
+    if (rule.scope === 'medication' && ctx.medsLower.length === 0) continue;
+    if (rule.suppressedBy?.some(category => warnings.some(w => w.category === category))) continue;
+    if (!triggerMatches(rule, ctx)) continue;
+
+    let found: string[] = [];
+    if (rule.ingredients?.length) {
+      found = matchingIngr(ctx.allIngredients, rule.ingredients);
+      if (found.length < (rule.minIngredientMatches ?? 1)) continue;
+    }
+
+    const warning: SafetyWarning = {
+      category: rule.category,
+      severity: rule.severity,
+      message: fillTemplate(rule.message, found),
+    };
+    if (found.length > 0) warning.ingredients = found;
+
+    const medKeywords = rule.trigger.medications || [];
+    if (medKeywords.length > 0 && rule.reportDrugs !== false) {
+      warning.drugs = ctx.medsLower.filter(m => medKeywords.some(d => m.includes(d)));
+    }
+
+    if (rule.escalation && ctx.hasMed(rule.escalation.medications)) {
+      const escalationFound = rule.escalation.ingredients
+        ? matchingIngr(ctx.allIngredients, rule.escalation.ingredients)
+        : found;
+      if (escalationFound.length > 0) {
+        warning.severity = rule.escalation.severity;
+        warning.message = fillTemplate(rule.escalation.message, escalationFound);
+      }
+    }
+
+    warnings.push(warning);
+  }
+
+  return warnings;
+}
@@ -0,0 +1,86 @@
+import { eq, desc, and, sql } from "drizzle-orm";
+import { db } from "../../infra/db/db";
+import {
+  safetyRuleSets,
+  type SafetyRuleSetRecord,
+  type InsertSafetyRuleSet,
+} from "@shared/schema";
+
+class SafetyRulesRepository {
+  async getPublished(): Promise<SafetyRuleSetRecord | undefined> {
+    const [row] = await db
+      .select()
+      .from(safetyRuleSets)
+      .where(eq(safetyRuleSets.status, 'published'))
+      .orderBy(desc(safetyRuleSets.version))
+      .limit(1);
+    return row;
+  }
+
+  async getByVersion(version: number): Promise<SafetyRuleSetRecord | undefined> {
+    const [row] = await db
+      .select()
+      .from(safetyRuleSets)
+      .where(eq(safetyRuleSets.version, version));
+    return row;
+  }
+
+  async list(limit = 50): Promise<SafetyRuleSetRecord[]> {
+    return db
+      .select()
+      .from(safetyRuleSets)
+      .orderBy(desc(safetyRuleSets.version))
+      .limit(limit);
+  }
+
+  async getLatestVersion(): Promise<number> {
+    const [row] = await db
+      .select({ max: sql<number | null>`max(${safetyRuleSets.version})` })
+      .from(safetyRuleSets);
+    return Number(row?.max ?? 0);
+  }
+
+  async create(ruleSet: InsertSafetyRuleSet): Promise<SafetyRuleSetRecord> {
+    const [row] = await db.insert(safetyRuleSets).values(ruleSet as any).returning();
+    return row;
+  }
+
+  async updateDraft(
+    version: number,
+    updates: Partial<Pick<InsertSafetyRuleSet, 'rules' | 'notes'>>,
+  ): Promise<SafetyRuleSetRecord | undefined> {
+    const [row] = await db
+      .update(safetyRuleSets)
+      .set({ ...updates, updatedAt: new Date() } as any)
+      .where(and(eq(safetyRuleSets.version, version), eq(safetyRuleSets.status, 'draft')))
+      .returning();
+    return row;
+  }
+
+  /**
+   * Archive the current published set and publish `version` in one
+   * transaction, so there is never a moment with two (or zero) published rows.
+   */
+  async publish(version: number, publishedBy: string | null): Promise<SafetyRuleSetRecord | undefined> {
+    return db.transaction(async (tx) => {
+      const [draft] = await tx
+        .select({ id: safetyRuleSets.id })
+        .from(safetyRuleSets)
+        .where(and(eq(safetyRuleSets.version, version), eq(safetyRuleSets.status, 'draft')));
+      if (!draft) return undefined;
+
+      await tx
+        .update(safetyRuleSets)
+        .set({ status: 'archived', updatedAt: new Date() })
+        .where(eq(safetyRuleSets.status, 'published'));
+      const [row] = await tx
+        .update(safetyRuleSets)
+        .set({ status: 'published', publishedAt: new Date(), publishedBy, updatedAt: new Date() })
+        .where(eq(safetyRuleSets.id, draft.id))
+        .returning();
+      return row;
+    });
+  }
+}
+
+export const safetyRulesRepository = new SafetyRulesRepository();
@@ -0,0 +1,251 @@
+import logger from "../../infra/logging/logger";
+import { safetyRulesRepository } from "./safety-rules.repository";
+import { formulasRepository } from "./formulas.repository";
+import { usersRepository } from "../users/users.repository";
+import { validateFormulaSafety } from "./safety-validator";
+import { getActiveSafetyRuleSet, setActiveSafetyRuleSet } from "./safety-rule-engine";
+import { detectPregnancyStatus, detectNursingStatus } from "./profile-status-detector";
+import { safetyRescreenService } from "./safety-rescreen.service";
+import { runScheduledJob } from "../../utils/schedulerRunner";
+import { BUILTIN_SAFETY_RULE_SET, safetyRuleListSchema, type SafetyRule, type SafetyRuleSet } from "@shared/safety-rules";
+import type { SafetyWarningSeverity } from "@shared/safety-types";
+import type { Formula, SafetyRuleSetRecord } from "@shared/schema";
+
+// Other instances pick up a newly published set within this window.
+const REFRESH_INTERVAL_MS = 60 * 1000;
+const DEFAULT_PREVIEW_LIMIT = 200;
+const MAX_PREVIEW_LIMIT = 1000;
+
+export interface RuleSetPreviewChange {
+  formulaId: string;
+  userId: string;
+  formulaVersion: number;
+  added: Array<{ category: string; severity: SafetyWarningSeverity }>;
+  removed: Array<{ category: string; severity: SafetyWarningSeverity }>;
+  severityChanged: Array<{ category: string; from: SafetyWarningSeverity; to: SafetyWarningSeverity }>;
+  wasSafe: boolean;
+  nowSafe: boolean;
+}
+
+export interface RuleSetPreview {
+  activeVersion: number;
+  draftVersion: number;
+  formulasEvaluated: number;
+  formulasChanged: number;
+  newlyBlocked: number;
+  newlyUnblocked: number;
+  changes: RuleSetPreviewChange[];
+}
+
+type ServiceError = { error: string; issues?: unknown };
+
+function toRuleSet(record: SafetyRuleSetRecord): SafetyRuleSet {
+  return { version: record.version, rules: record.rules };
+}
+
+class SafetyRulesService {
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Load the published rule set into the validator and keep it in sync.
+   * Falls back to the built-in set when nothing is published or the stored
+   * rules fail validation — the validator must never run without rules.
+   */
+  async initialize(): Promise<void> {
+    await this.refreshActiveRuleSet();
+    if (!this.refreshTimer) {
+      this.refreshTimer = setInterval(() => {
+        this.refreshActiveRuleSet().catch(() => { /* logged inside */ });
+      }, REFRESH_INTERVAL_MS);
+      this.refreshTimer.unref();
+    }
+  }
+
+  async refreshActiveRuleSet(): Promise<SafetyRuleSet> {
+    try {
+      const published = await safetyRulesRepository.getPublished();
+      if (!published) {
+        setActiveSafetyRuleSet(BUILTIN_SAFETY_RULE_SET);
+        return BUILTIN_SAFETY_RULE_SET;
+      }
+      const parsed = safetyRuleListSchema.safeParse(published.rules);
+      if (!parsed.success) {
+        logger.error('Published safety rule set failed validation; keeping current rules', {
+          version: published.version,
+          issues: parsed.error.issues.slice(0, 5),
+        });
+        return getActiveSafetyRuleSet();
+      }
+      if (getActiveSafetyRuleSet().version !== published.version) {
+        logger.info('Loaded published safety rule set', { version: published.version, rules: parsed.data.length });
+      }
+      const ruleSet = { version: published.version, rules: parsed.data as SafetyRule[] };
+      setActiveSafetyRuleSet(ruleSet);
+      return ruleSet;
+    } catch (error) {
+      logger.warn('Failed to load published safety rule set, using current rules', {
+        error: error instanceof Error ? error.message : error,
+      });
+      return getActiveSafetyRuleSet();
+    }
+  }
+
+  async listRuleSets() {
+    const ruleSets = await safetyRulesRepository.list();
+    return {
+      activeVersion: getActiveSafetyRuleSet().version,
+      builtin: BUILTIN_SAFETY_RULE_SET,
+      ruleSets,
+    };
+  }
+
+  async getRuleSet(version: number): Promise<SafetyRuleSet | SafetyRuleSetRecord | undefined> {
+    if (version === BUILTIN_SAFETY_RULE_SET.version) {
+      const stored = await safetyRulesRepository.getByVersion(version);
+      return stored || BUILTIN_SAFETY_RULE_SET;
+    }
+    return safetyRulesRepository.getByVersion(version);
+  }
+
+  /**
+   * Start a new draft by copying the active rule set. Only one draft may be
+   * open at a time so two admins can't publish conflicting edits.
+   */
+  async createDraft(adminId: string | null, notes?: string): Promise<SafetyRuleSetRecord | ServiceError> {
+    const existing = (await safetyRulesRepository.list()).find(r => r.status === 'draft');
+    if (existing) {
+      return { error: `Draft v${existing.version} is already open. Publish or edit it instead.` };
+    }
+    const active = getActiveSafetyRuleSet();
+    const latest = await safetyRulesRepository.getLatestVersion();
+    return safetyRulesRepository.create({
+      version: Math.max(latest, active.version) + 1,
+      status: 'draft',
+      rules: active.rules,
+      notes: notes || null,
+      createdBy: adminId,
+    });
+  }
+
+  async updateDraft(version: number, rules: unknown, notes?: string): Promise<SafetyRuleSetRecord | ServiceError | undefined> {
+    const parsed = safetyRuleListSchema.safeParse(rules);
+    if (!parsed.success) {
+      return { error: 'Invalid rules', issues: parsed.error.issues };
+    }
+    return safetyRulesRepository.updateDraft(version, {
+      rules: parsed.data as SafetyRule[],
+      ...(notes !== undefined ? { notes } : {}),
+    });
+  }
+
+  /**
+   * Re-run the validator over each user's current formula under both the
+   * active set and the draft, and report what would change. Read-only.
+   */
+  async previewDraft(version: number, limit = DEFAULT_PREVIEW_LIMIT): Promise<RuleSetPreview | undefined> {
+    const draft = await safetyRulesRepository.getByVersion(version);
+    if (!draft) return undefined;
+
+    const active = getActiveSafetyRuleSet();
+    const draftSet = toRuleSet(draft);
+    const formulas = this.latestFormulaPerUser(await formulasRepository.getAllActiveFormulas())
+      .slice(0, Math.min(Math.max(limit, 1), MAX_PREVIEW_LIMIT));
+
+    const changes: RuleSetPreviewChange[] = [];
+    let newlyBlocked = 0;
+    let newlyUnblocked = 0;
+
+    for (const formula of formulas) {
+      const profile = await usersRepository.getHealthProfile(formula.userId);
+      const conditions: string[] = (profile as any)?.conditions || [];
+      const baseInput = {
+        formula: { bases: (formula.bases as any[]) || [], additions: (formula.additions as any[]) || [] },
+        userMedications: (profile as any)?.medications || [],
+        userMedicationsNormalized: (profile as any)?.medicationsNormalized || [],
+        userConditions: conditions,
+        userAllergies: (profile as any)?.allergies || [],
+        isPregnant: detectPregnancyStatus(conditions),
+        isNursing: detectNursingStatus(conditions),
+        userAge: profile?.age ?? null,
+        userSex: profile?.sex ?? null,
+        currentSupplements: profile?.currentSupplements || [],
+      };
+      const before = validateFormulaSafety({ ...baseInput, ruleSet: active });
+      const after = validateFormulaSafety({ ...baseInput, ruleSet: draftSet });
+
+      const beforeByCategory = new Map(before.warnings.map(w => [w.category, w.severity]));
+      const afterByCategory = new Map(after.warnings.map(w => [w.category, w.severity]));
+      const change: RuleSetPreviewChange = {
+        formulaId: formula.id,
+        userId: formula.userId,
+        formulaVersion: formula.version,
+        added: [],
+        removed: [],
+        severityChanged: [],
+        wasSafe: before.safe,
+        nowSafe: after.safe,
+      };
+      afterByCategory.forEach((severity, category) => {
+        const previous = beforeByCategory.get(category);
+        if (!previous) change.added.push({ category, severity });
+        else if (previous !== severity) change.severityChanged.push({ category, from: previous, to: severity });
+      });
+      beforeByCategory.forEach((severity, category) => {
+        if (!afterByCategory.has(category)) change.removed.push({ category, severity });
+      });
+
+      if (change.added.length || change.removed.length || change.severityChanged.length) {
+        changes.push(change);
+        if (before.safe && !after.safe) newlyBlocked++;
+        if (!before.safe && after.safe) newlyUnblocked++;
+      }
+    }
+
+    return {
+      activeVersion: active.version,
+      draftVersion: draft.version,
+      formulasEvaluated: formulas.length,
+      formulasChanged: changes.length,
+      newlyBlocked,
+      newlyUnblocked,
+      changes,
+    };
+  }
+
+  async publish(version: number, adminId: string | null): Promise<SafetyRuleSetRecord | ServiceError | undefined> {
+    const draft = await safetyRulesRepository.getByVersion(version);
+    if (!draft) return undefined;
+    if (draft.status !== 'draft') {
+      return { error: `Rule set v${version} is ${draft.status}; only drafts can be published` };
+    }
+    const parsed = safetyRuleListSchema.safeParse(draft.rules);
+    if (!parsed.success) {
+      return { error: 'Draft rules are invalid', issues: parsed.error.issues };
+    }
+    const published = await safetyRulesRepository.publish(version, adminId);
+    if (!published) return undefined;
+    setActiveSafetyRuleSet({ version: published.version, rules: parsed.data as SafetyRule[] });
+    logger.info('Published safety rule set', { version: published.version, publishedBy: adminId });
+
+    // Re-screen existing formulas under the new rules in the background; the
+    // run shows up under 'safety_rescreen' on the admin Agents dashboard.
+    runScheduledJob(
+      'safety_rescreen',
+      () => safetyRescreenService.rescreenAllActive('rule_set_published'),
+      'manual',
+    ).catch(() => { /* recorded by runScheduledJob */ });
+
+    return published;
+  }
+
+  private latestFormulaPerUser(formulas: Formula[]): Formula[] {
+    const latest = new Map<string, Formula>();
+    for (const formula of formulas) {
+      const current = latest.get(formula.userId);
+      if (!current || formula.createdAt > current.createdAt) latest.set(formula.userId, formula);
+    }
+    return [...latest.values()].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+}
+
+export const safetyRulesService = new SafetyRulesService();
@@ -17,11 +17,24 @@
  *   5. Kidney impairment ingredient flags
  *   6. Antiplatelet stacking detection
  *   7. Condition-based contraindications
+ *   8. Cumulative nutrient upper limits (formula + current supplements)
+ *
+ * Drug–supplement interaction categories and population blocks are
+ * declarative, versioned rules evaluated by safety-rule-engine.ts; the rest
+ * of the checks below are structural and stay in code.
+ *
+ * Interaction warnings are dose-aware: each category assigns a base severity,
+ * then the triggering ingredient's total daily dose (direct + system-support
+ * sub-ingredients) is compared against INGREDIENT_DOSE_THRESHOLDS to drop or
+ * raise that severity by one tier.
  */
 
-import type { SafetyWarning, SafetyValidationResult } from '@shared/safety-types';
-import { getContraindication } from '@shared/ingredient-contraindications';
+import type { SafetyWarning, SafetyWarningSeverity, SafetyValidationResult } from '@shared/safety-types';
+import { getContraindication, getDoseThreshold } from '@shared/ingredient-contraindications';
 import { SYSTEM_SUPPORT_DETAILS } from '@shared/ingredients';
+import type { SafetyRuleSet } from '@shared/safety-rules';
+import { checkNutrientUpperLimits, type FormulaDoseLine } from './nutrient-limit-checker';
+import { evaluateSafetyRules, getActiveSafetyRuleSet, normalizeForMatch } from './safety-rule-engine';
 
 // ── Types ───────────────────────────────────────────────────────────────────
 export interface NormalizedMedicationInput {
@@ -51,38 +64,28 @@ export interface SafetyValidationInput {
   userAllergies: string[];
   isPregnant: boolean;
   isNursing: boolean;
+  /** healthProfiles.age — selects the UL age band (defaults to adult when absent) */
+  userAge?: number | null;
+  /** healthProfiles.sex — selects sex/life-stage specific ULs */
+  userSex?: 'male' | 'female' | 'other' | null;
+  /**
+   * healthProfiles.currentSupplements — free text ("Zinc 50mg"). Parsed and
+   * summed with formula contributions for the cumulative UL check.
+   */
+  currentSupplements?: string[];
+  /**
+   * Rule set to evaluate interactions under. Defaults to the active
+   * (published) set; admins pass a draft here to preview it.
+   */
+  ruleSet?: SafetyRuleSet;
 }
 
 // ── Helpers ─────────────────────────────────────────────────────────────────
-// Normalize a string for fuzzy matching: lowercase + strip non-alphanumeric.
-// This makes "Co-Q10" / "CoQ10" / "Coenzyme Q-10" line up against keyword
-// patterns, and tolerates extra whitespace/punctuation in user-entered
-// medication names ("St. John's Wort" vs "st johns wort").
-const normalizeForMatch = (s: string): string =>
-  (s || '').toLowerCase().replace(/[^a-z0-9]+/g, '');
-
 const has = (list: string[], keywords: string[]) => {
   const normalizedList = list.map(normalizeForMatch);
   return normalizedList.some(m => keywords.some(k => m.includes(normalizeForMatch(k))));
 };
 
-const hasIngr = (allIngredients: string[], keywords: string[]) => {
-  const normalizedList = allIngredients.map(normalizeForMatch);
-  return normalizedList.some(i => keywords.some(k => i.includes(normalizeForMatch(k))));
-};
-
-const matchingIngr = (allIngredients: string[], keywords: string[]) => {
-  const matches = new Set<string>();
-  const normalizedKeywords = keywords.map(normalizeForMatch);
-  for (const i of allIngredients) {
-    const normalizedI = normalizeForMatch(i);
-    for (const k of normalizedKeywords) {
-      if (normalizedI.includes(k)) matches.add(i);
-    }
-  }
-  return [...matches];
-};
-
 // ── System Support Sub-Ingredient Expansion ────────────────────────────────
 // System supports (e.g. "Adrenal Support") are pre-blended complexes containing
 // multiple active ingredients. The safety validator needs to see INSIDE them to
@@ -95,6 +98,159 @@ function expandSystemSupportSubIngredients(ingredientName: string): string[] {
   return detail.activeIngredients.map(sub => sub.name.toLowerCase());
 }
 
+// ── Dose Resolution ─────────────────────────────────────────────────────────
+// Convert a formula line's amount to mg. IU and other non-mass units return
+// null — the dose is "unknown" and never used to downgrade a warning.
+function toMg(amount: number, unit?: string): number | null {
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) return null;
+  const u = (unit || 'mg').toLowerCase().trim();
+  if (u === 'mg') return amount;
+  if (u === 'g') return amount * 1000;
+  if (u === 'mcg' || u === 'µg' || u === 'ug') return amount / 1000;
+  return null;
+}
+
+function parseSubIngredientMg(amount: string): number | null {
+  const match = (amount || '').match(/(\d+(?:\.\d+)?)\s*(mg|g|mcg)\b/i);
+  if (!match) return null;
+  return toMg(parseFloat(match[1]), match[2]);
+}
+
+/**
+ * Flatten formula lines into per-ingredient mg doses, expanding system
+ * supports into their sub-ingredients. Sub-ingredient amounts in
+ * SYSTEM_SUPPORT_DETAILS are per single support dose, so they're scaled by
+ * how many support doses the formula line contains.
+ */
+function expandFormulaDoses(lines: Array<{ ingredient: string; amount: number; unit?: string }>): FormulaDoseLine[] {
+  const expanded: FormulaDoseLine[] = [];
+  for (const line of lines) {
+    const mg = toMg(line.amount, line.unit);
+    if (mg === null || !line.ingredient) continue;
+    expanded.push({ name: line.ingredient, amountMg: mg });
+
+    const detail = SYSTEM_SUPPORT_DETAILS.find(
+      d => d.name.toLowerCase() === line.ingredient.toLowerCase()
+    );
+    if (!detail || detail.doseMg <= 0) continue;
+    const multiplier = mg / detail.doseMg;
+    for (const sub of detail.activeIngredients) {
+      const subMg = parseSubIngredientMg(sub.amount);
+      if (subMg !== null) {
+        expanded.push({ name: sub.name, amountMg: subMg * multiplier, via: line.ingredient, form: sub.description });
+      }
+    }
+  }
+  return expanded;
+}
+
+/** Total daily mg per ingredient (lowercased), summed across all sources. */
+function buildDoseMap(doses: FormulaDoseLine[]): Map<string, number> {
+  const map = new Map<string, number>();
+  for (const d of doses) {
+    const key = d.name.toLowerCase();
+    map.set(key, (map.get(key) || 0) + d.amountMg);
+  }
+  return map;
+}
+
+// Warning ingredient names are the lowercased names from allIngredients, but a
+// few categories push literal keywords (e.g. 'milk thistle'), so fall back to
+// summing every dose entry that contains the name.
+function lookupDoseMg(doses: Map<string, number>, ingredient: string): number | null {
+  const key = ingredient.toLowerCase();
+  if (doses.has(key)) return doses.get(key)!;
+  let total = 0;
+  let found = false;
+  doses.forEach((mg, name) => {
+    if (name.includes(key)) {
+      total += mg;
+      found = true;
+    }
+  });
+  return found ? total : null;
+}
+
+const SEVERITY_TIERS: SafetyWarningSeverity[] = ['informational', 'serious', 'critical'];
+
+const shiftSeverity = (severity: SafetyWarningSeverity, by: -1 | 1): SafetyWarningSeverity => {
+  const idx = SEVERITY_TIERS.indexOf(severity) + by;
+  return SEVERITY_TIERS[Math.max(0, Math.min(SEVERITY_TIERS.length - 1, idx))];
+};
+
+const formatMg = (mg: number): string =>
+  mg >= 10 ? `${Math.round(mg)}mg` : `${Number(mg.toFixed(2))}mg`;
+
+/**
+ * Scale an interaction warning's severity by the dose of its ingredients.
+ *
+ *   - Escalate one tier if ANY ingredient meets its `escalateAtMg`.
+ *   - Downgrade one tier only if EVERY ingredient has a known dose below its
+ *     `negligibleBelowMg`. An ingredient without a threshold or a resolvable
+ *     dose keeps the category's base severity — unknown is never "low".
+ *
+ * Mutates the warning in place and records the deciding dose.
+ */
+function applyDoseToWarning(warning: SafetyWarning, doses: Map<string, number>): void {
+  const ingredients = warning.ingredients || [];
+  if (ingredients.length === 0) return;
+
+  const assessed = ingredients.map(name => {
+    const amountMg = lookupDoseMg(doses, name);
+    const threshold = getDoseThreshold(name);
+    return { name, amountMg, threshold };
+  });
+
+  const escalating = assessed.find(a =>
+    a.amountMg !== null && a.threshold?.escalateAtMg !== undefined && a.amountMg >= a.threshold.escalateAtMg
+  );
+  const allNegligible = assessed.every(a =>
+    a.amountMg !== null && a.threshold !== undefined && a.amountMg < a.threshold.negligibleBelowMg
+  );
+
+  if (escalating && warning.severity !== 'critical') {
+    warning.severity = shiftSeverity(warning.severity, 1);
+    warning.message = warning.severity === 'critical'
+      ? `BLOCKED: ${warning.message} At ${formatMg(escalating.amountMg!)} of ${escalating.name} (≥${formatMg(escalating.threshold!.escalateAtMg!)}), this interaction is high-risk and requires physician approval.`
+      : `${warning.message} Risk is elevated at ${formatMg(escalating.amountMg!)} of ${escalating.name} (≥${formatMg(escalating.threshold!.escalateAtMg!)}).`;
+    warning.triggeringDose = {
+      ingredient: escalating.name,
+      amountMg: escalating.amountMg!,
+      thresholdMg: escalating.threshold!.escalateAtMg,
+      adjustment: 'escalated',
+    };
+    return;
+  }
+
+  if (allNegligible && warning.severity !== 'informational') {
+    // Report the ingredient closest to its threshold — the one that would
+    // cross first if the dose were raised.
+    const deciding = assessed.reduce((a, b) =>
+      a.amountMg! / a.threshold!.negligibleBelowMg >= b.amountMg! / b.threshold!.negligibleBelowMg ? a : b
+    );
+    warning.severity = shiftSeverity(warning.severity, -1);
+    warning.message = `${warning.message.replace(/^BLOCKED:\s*/, '')} Severity reduced: ${formatMg(deciding.amountMg!)} of ${deciding.name} is below the ${formatMg(deciding.threshold!.negligibleBelowMg)} level where this interaction becomes clinically significant.`;
+    warning.triggeringDose = {
+      ingredient: deciding.name,
+      amountMg: deciding.amountMg!,
+      thresholdMg: deciding.threshold!.negligibleBelowMg,
+      adjustment: 'downgraded',
+    };
+    return;
+  }
+
+  // No tier change — still report the largest resolvable dose.
+  const known = assessed.filter(a => a.amountMg !== null);
+  if (known.length === 0) return;
+  const largest = known.reduce((a, b) => (a.amountMg! >= b.amountMg! ? a : b));
+  warning.triggeringDose = {
+    ingredient: largest.name,
+    amountMg: largest.amountMg!,
+    thresholdMg: largest.threshold?.negligibleBelowMg,
+    adjustment: 'none',
+  };
+}
+
 // ── Main Validation Function ────────────────────────────────────────────────
 export function validateFormulaSafety(input: SafetyValidationInput): SafetyValidationResult {
   const warnings: SafetyWarning[] = [];
@@ -122,6 +278,13 @@ export function validateFormulaSafety(input: SafetyValidationInput): SafetyValid
   // allIngredients includes both direct formula ingredients AND expanded sub-ingredients
   const allIngredients = [...directIngredients, ...expandedSubIngredients];
 
+  // Total daily mg per ingredient, including expanded sub-ingredient doses.
+  const formulaDoses = expandFormulaDoses([
+    ...(input.formula.bases || []),
+    ...(input.formula.additions || []),
+  ]);
+  const doseByIngredient = buildDoseMap(formulaDoses);
+
   // allIngredientNames keeps the original casing for display in warning messages
   const allIngredientNames = [...directIngredientNames];
   for (const name of directIngredientNames) {
@@ -238,485 +401,26 @@ export function validateFormulaSafety(input: SafetyValidationInput): SafetyValid
   // ══════════════════════════════════════════════════════════════════════════
   // 3. DRUG–SUPPLEMENT INTERACTIONS (SEVERITY-TIERED)
   // ══════════════════════════════════════════════════════════════════════════
-
-  // ── 3a. Antiplatelet stacking (no medication needed) ──────────────────
-  const antiplateletKeywords = ['omega', 'fish oil', 'garlic', 'ginger', 'vitamin e', 'resveratrol', 'curcumin', 'nattokinase', 'bromelain'];
-  const antiplateletMatches = matchingIngr(allIngredients, antiplateletKeywords);
-  if (antiplateletMatches.length >= 3) {
-    warnings.push({
-      category: 'antiplatelet_stacking',
-      severity: 'serious',
-      message: `Your formula stacks ${antiplateletMatches.length} ingredients with antiplatelet/anticoagulant activity (${antiplateletMatches.join(', ')}). This may increase bleeding risk even without a blood thinner — discuss with your physician.`,
-      ingredients: antiplateletMatches,
-    });
-  }
-
-  if (medsLower.length > 0) {
-
-    // ── 3b. Anticoagulants / Blood Thinners ─────────────────────────────
-    // Warfarin/Coumadin specifically is CRITICAL (narrow therapeutic index).
-    // Includes brand-name variants commonly written by users.
-    const warfarinFamily = ['warfarin', 'coumadin', 'jantoven'];
-    const otherBloodThinners = [
-      'clopidogrel', 'plavix',
-      'rivaroxaban', 'xarelto',
-      'apixaban', 'eliquis',
-      'dabigatran', 'pradaxa',
-      'edoxaban', 'savaysa', 'lixiana',
-      'ticagrelor', 'brilinta',
-      'prasugrel', 'effient',
-      'heparin', 'enoxaparin', 'lovenox', 'fondaparinux', 'arixtra',
-    ];
-    const allBloodThinners = [...warfarinFamily, ...otherBloodThinners, 'aspirin', 'asa ', 'baby aspirin'];
-    const btSupplements = ['omega', 'fish oil', 'garlic', 'ginger', 'ginkgo', 'vitamin e', 'resveratrol', 'curcumin', 'nattokinase', 'bromelain'];
-    if (hasMed(allBloodThinners) && hasIngr(allIngredients, btSupplements)) {
-      const found = matchingIngr(allIngredients, btSupplements);
-      const onWarfarin = hasMed(warfarinFamily);
-      warnings.push({
-        category: 'blood_thinner_interaction',
-        severity: onWarfarin ? 'critical' : 'serious',
-        message: onWarfarin
-          ? `BLOCKED: Contains ${found.join(', ')} which may dangerously increase bleeding risk with warfarin/Coumadin. Warfarin has a narrow therapeutic index — even small changes in INR can be life-threatening. Physician approval is REQUIRED before proceeding.`
-          : `Contains ${found.join(', ')} which may increase bleeding risk with your blood thinner. Consult your physician before starting.`,
-        ingredients: found,
-        drugs: medsLower.filter(m => allBloodThinners.some(d => m.includes(d))),
-      });
-    }
-
-    // ── 3c. Antidepressants — St. John's Wort (CRITICAL) ────────────────
-    const ssriSnri = [
-      'sertraline', 'zoloft',
-      'fluoxetine', 'prozac', 'sarafem',
-      'escitalopram', 'lexapro',
-      'citalopram', 'celexa',
-      'paroxetine', 'paxil', 'pexeva',
-      'venlafaxine', 'effexor',
-      'desvenlafaxine', 'pristiq',
-      'duloxetine', 'cymbalta',
-      'bupropion', 'wellbutrin', 'zyban',
-      'mirtazapine', 'remeron',
-      'trazodone', 'desyrel',
-      'vilazodone', 'viibryd',
-      'vortioxetine', 'trintellix',
-      'amitriptyline', 'elavil',
-      'nortriptyline', 'pamelor',
-      'maoi', 'phenelzine', 'nardil',
-      'tranylcypromine', 'parnate',
-      'lithium', 'lithobid',
-      'quetiapine', 'seroquel',
-      'aripiprazole', 'abilify',
-    ];
-    if (hasMed(ssriSnri)) {
-      if (hasIngr(allIngredients, ["st. john", "st john"])) {
-        warnings.push({
-          category: 'sjw_ssri',
-          severity: 'critical',
-          message: "BLOCKED: St. John's Wort must NEVER be combined with antidepressants — risk of serotonin syndrome, a potentially fatal condition. Remove this ingredient.",
-          ingredients: matchingIngr(allIngredients, ["st. john", "st john"]),
-          drugs: medsLower.filter(m => ssriSnri.some(d => m.includes(d))),
-        });
-      }
-      const otherPsych = ['5-htp', 'same', 'tryptophan', 'gaba', 'rhodiola', 'ashwagandha'];
-      if (hasIngr(allIngredients, otherPsych)) {
-        const found = matchingIngr(allIngredients, otherPsych);
-        warnings.push({
-          category: 'psych_interaction',
-          severity: 'serious',
-          message: `Contains ${found.join(', ')} which may interact with your psychiatric medication. Discuss with your prescribing clinician before starting.`,
-          ingredients: found,
-          drugs: medsLower.filter(m => ssriSnri.some(d => m.includes(d))),
-        });
-      }
-    }
-
-    // ── 3d. Thyroid Medications ──────────────────────────────────────────
-    const thyroidMeds = [
-      'levothyroxine', 'synthroid', 'levoxyl', 'tirosint', 'unithroid', 'euthyrox',
-      'liothyronine', 'cytomel',
-      'liotrix', 'thyrolar',
-      'armour thyroid', 'np thyroid', 'nature-throid', 'naturethroid', 'wp thyroid',
-      'methimazole', 'tapazole',
-      'propylthiouracil', 'ptu',
-    ];
-    const thyroidSupplements = ['thyroid support', 'ashwagandha', 'iodine', 'kelp', 'seaweed', 'selenium', 'zinc'];
-    if (hasMed(thyroidMeds) && hasIngr(allIngredients, thyroidSupplements)) {
-      const found = matchingIngr(allIngredients, thyroidSupplements);
-      warnings.push({
-        category: 'thyroid_interaction',
-        severity: 'serious',
-        message: `Contains ${found.join(', ')} which may affect thyroid function while on thyroid medication. Take supplements 4+ hours apart from thyroid meds. Coordinate with your clinician.`,
-        ingredients: found,
-        drugs: medsLower.filter(m => thyroidMeds.some(d => m.includes(d))),
-      });
-    }
-
-    // ── 3e. Diabetes / Blood Sugar Medications ──────────────────────────
-    const diabetesMeds = [
-      'metformin', 'glucophage', 'glumetza', 'fortamet', 'riomet',
-      'insulin', 'humalog', 'novolog', 'lantus', 'levemir', 'tresiba', 'basaglar', 'toujeo',
-      'glipizide', 'glucotrol',
-      'glyburide', 'diabeta', 'micronase', 'glynase',
-      'glimepiride', 'amaryl',
-      'semaglutide', 'ozempic', 'wegovy', 'rybelsus',
-      'tirzepatide', 'mounjaro', 'zepbound',
-      'liraglutide', 'victoza', 'saxenda',
-      'dulaglutide', 'trulicity',
-      'sitagliptin', 'januvia',
-      'linagliptin', 'tradjenta',
-      'saxagliptin', 'onglyza',
-      'empagliflozin', 'jardiance',
-      'dapagliflozin', 'farxiga',
-      'canagliflozin', 'invokana',
-      'pioglitazone', 'actos',
-      'rosiglitazone', 'avandia',
-      'acarbose', 'precose',
-    ];
-    const diabetesSupplements = ['berberine', 'cinnamon', 'chromium', 'alpha lipoic', 'innoslim', 'bitter melon', 'gymnema'];
-    if (hasMed(diabetesMeds) && hasIngr(allIngredients, diabetesSupplements)) {
-      const found = matchingIngr(allIngredients, diabetesSupplements);
-      warnings.push({
-        category: 'diabetes_interaction',
-        severity: 'serious',
-        message: `Contains ${found.join(', ')} which may lower blood glucose alongside your diabetes medication. Monitor for hypoglycemia and consult your physician.`,
-        ingredients: found,
-        drugs: medsLower.filter(m => diabetesMeds.some(d => m.includes(d))),
-      });
-    }
-
-    // ── 3f. Blood Pressure Medications ──────────────────────────────────
-    const bpMeds = [
-      'lisinopril', 'prinivil', 'zestril', 'qbrelis',
-      'enalapril', 'vasotec',
-      'ramipril', 'altace',
-      'benazepril', 'lotensin',
-      'captopril', 'capoten',
-      'losartan', 'cozaar',
-      'valsartan', 'diovan',
-      'olmesartan', 'benicar',
-      'irbesartan', 'avapro',
-      'telmisartan', 'micardis',
-      'amlodipine', 'norvasc',
-      'nifedipine', 'procardia', 'adalat',
-      'felodipine', 'plendil',
-      'verapamil', 'calan', 'verelan', 'isoptin',
-      'diltiazem', 'cardizem', 'tiazac',
-      'metoprolol', 'lopressor', 'toprol',
-      'atenolol', 'tenormin',
-      'propranolol', 'inderal',
-      'carvedilol', 'coreg',
-      'bisoprolol', 'zebeta',
-      'labetalol', 'trandate',
-      'hydrochlorothiazide', 'hctz', 'microzide',
-      'chlorthalidone',
-      'furosemide', 'lasix',
-      'spironolactone', 'aldactone',
-    ];
-    const bpSupplements = ['magnesium', 'coq10', 'hawthorn', 'garlic', 'omega', 'potassium'];
-    if (hasMed(bpMeds) && hasIngr(allIngredients, bpSupplements)) {
-      const found = matchingIngr(allIngredients, bpSupplements);
-      warnings.push({
-        category: 'bp_interaction',
-        severity: 'informational',
-        message: `Contains ${found.join(', ')} which may further lower blood pressure with your antihypertensive medication. Monitor blood pressure closely.`,
-        ingredients: found,
-        drugs: medsLower.filter(m => bpMeds.some(d => m.includes(d))),
-      });
-    }
-
-    // ── 3g. Immunosuppressants — St. John's Wort (CRITICAL) ─────────────
-    const immunoMeds = ['cyclosporine', 'tacrolimus', 'mycophenolate', 'prednisone', 'methotrexate', 'azathioprine', 'sirolimus'];
-    if (hasMed(immunoMeds)) {
-      if (hasIngr(allIngredients, ["st. john", "st john"])) {
-        warnings.push({
-          category: 'sjw_immunosuppressant',
-          severity: 'critical',
-          message: "BLOCKED: St. John's Wort dramatically reduces immunosuppressant drug levels — this is life-threatening for transplant patients. Remove this ingredient immediately.",
-          ingredients: matchingIngr(allIngredients, ["st. john", "st john"]),
-          drugs: medsLower.filter(m => immunoMeds.some(d => m.includes(d))),
-        });
-      }
-      if (hasIngr(allIngredients, ['echinacea', 'astragalus', 'elderberry', 'mushroom'])) {
-        const found = matchingIngr(allIngredients, ['echinacea', 'astragalus', 'elderberry', 'mushroom']);
-        warnings.push({
-          category: 'immuno_stimulant',
-          severity: 'serious',
-          message: `Contains immune-stimulating ingredients (${found.join(', ')}) which are contraindicated with immunosuppressant therapy. Physician approval required.`,
-          ingredients: found,
-          drugs: medsLower.filter(m => immunoMeds.some(d => m.includes(d))),
-        });
-      }
-      if (hasIngr(allIngredients, ['milk thistle'])) {
-        warnings.push({
-          category: 'cyp3a4_immuno',
-          severity: 'serious',
-          message: 'Milk Thistle may alter CYP3A4 enzyme activity, affecting immunosuppressant drug levels. Physician review required.',
-          ingredients: ['milk thistle'],
-          drugs: medsLower.filter(m => immunoMeds.some(d => m.includes(d))),
-        });
-      }
-    }
-
-    // ── 3h. Chemotherapy / Oncology ─────────────────────────────────────
-    const chemoKeywords = ['chemotherapy', 'chemo', 'tamoxifen', 'anastrozole', 'letrozole', 'cisplatin', 'carboplatin', 'doxorubicin', 'paclitaxel', 'cyclophosphamide'];
-    const chemoSupplements = ["st. john", "st john", 'high-dose', 'nac', 'melatonin'];
-    if (hasMed(chemoKeywords) && hasIngr(allIngredients, chemoSupplements)) {
-      warnings.push({
-        category: 'chemo_interaction',
-        severity: 'critical',
-        message: 'BLOCKED: You are on oncology medications. High-dose antioxidants and certain supplements may interfere with cancer treatment. Physician oncologist review is REQUIRED. Formula cannot proceed without oncologist clearance.',
-        ingredients: matchingIngr(allIngredients, chemoSupplements),
-        drugs: medsLower.filter(m => chemoKeywords.some(d => m.includes(d))),
-      });
-    }
-
-    // ── 3i. Statins — Red Yeast Rice (CRITICAL) ─────────────────────────
-    const statins = [
-      'atorvastatin', 'lipitor',
-      'rosuvastatin', 'crestor', 'ezallor',
-      'simvastatin', 'zocor',
-      'pravastatin', 'pravachol',
-      'fluvastatin', 'lescol',
-      'lovastatin', 'mevacor', 'altoprev',
-      'pitavastatin', 'livalo', 'zypitamag',
-    ];
-    if (hasMed(statins)) {
-      if (hasIngr(allIngredients, ['red yeast rice'])) {
-        warnings.push({
-          category: 'ryr_statin',
-          severity: 'critical',
-          message: 'BLOCKED: Red Yeast Rice contains natural lovastatin and must NOT be combined with statin medications — risk of rhabdomyolysis (muscle breakdown). Remove this ingredient.',
-          ingredients: matchingIngr(allIngredients, ['red yeast rice']),
-          drugs: medsLower.filter(m => statins.some(d => m.includes(d))),
-        });
-      }
-      const statinRisky = ['niacin', 'berberine'];
-      if (hasIngr(allIngredients, statinRisky)) {
-        const found = matchingIngr(allIngredients, statinRisky);
-        warnings.push({
-          category: 'statin_additive',
-          severity: 'serious',
-          message: `Contains ${found.join(', ')} which has additive lipid-lowering effects with your statin. Monitor for muscle pain/weakness (myopathy). Consult your physician.`,
-          ingredients: found,
-          drugs: medsLower.filter(m => statins.some(d => m.includes(d))),
-        });
-      }
-    }
-
-    // ── 3j. Hormone Medications ─────────────────────────────────────────
-    const hormoneMeds = ['estradiol', 'progesterone', 'testosterone', 'birth control', 'contraceptive', 'clomid', 'clomiphene', 'finasteride', 'propecia', 'spironolactone'];
-    const hormoneSupplements = ['ashwagandha', 'maca', 'dhea', 'dim', 'saw palmetto', 'black cohosh', 'vitex', 'tribulus'];
-    if (hasMed(hormoneMeds) && hasIngr(allIngredients, hormoneSupplements)) {
-      const found = matchingIngr(allIngredients, hormoneSupplements);
-      warnings.push({
-        category: 'hormone_interaction',
-        severity: 'serious',
-        message: `Contains hormone-modulating ingredients (${found.join(', ')}) which may interact with your hormone therapy. Coordinate with your prescribing physician.`,
-        ingredients: found,
-        drugs: medsLower.filter(m => hormoneMeds.some(d => m.includes(d))),
-      });
-    }
-
-    // ── 3k. Seizure / Epilepsy Medications ──────────────────────────────
-    const seizureMeds = ['carbamazepine', 'tegretol', 'phenytoin', 'dilantin', 'valproic', 'depakote', 'lamotrigine', 'lamictal', 'gabapentin', 'neurontin', 'levetiracetam', 'keppra', 'topiramate', 'topamax'];
-    const seizureSupplements = ['ginkgo', 'evening primrose', 'vitamin b6', "st. john", "st john"];
-    if (hasMed(seizureMeds) && hasIngr(allIngredients, seizureSupplements)) {
-      const found = matchingIngr(allIngredients, seizureSupplements);
-      warnings.push({
-        category: 'seizure_interaction',
-        severity: 'serious',
-        message: `Contains ${found.join(', ')} which may lower seizure threshold or alter anti-epileptic drug levels. Consult your neurologist before starting.`,
-        ingredients: found,
-        drugs: medsLower.filter(m => seizureMeds.some(d => m.includes(d))),
-      });
-    }
-
-    // ── 3l. Sedatives / Benzodiazepines ─────────────────────────────────
-    const sedativeMeds = ['diazepam', 'valium', 'alprazolam', 'xanax', 'lorazepam', 'ativan', 'clonazepam', 'klonopin', 'zolpidem', 'ambien', 'eszopiclone', 'lunesta', 'temazepam'];
-    const sedativeSupplements = ['valerian', 'gaba', 'melatonin', 'kava', 'passionflower', 'magnolia'];
-    if (hasMed(sedativeMeds) && hasIngr(allIngredients, sedativeSupplements)) {
-      const found = matchingIngr(allIngredients, sedativeSupplements);
-      warnings.push({
-        category: 'sedative_interaction',
-        severity: 'serious',
-        message: `Contains ${found.join(', ')} which may cause additive sedation with your sedative/sleep medication. Risk of excessive drowsiness — consult your physician.`,
-        ingredients: found,
-        drugs: medsLower.filter(m => sedativeMeds.some(d => m.includes(d))),
-      });
-    }
-
-    // ── 3m. Opioid Pain Medications ─────────────────────────────────────
-    const opioidMeds = ['oxycodone', 'oxycontin', 'hydrocodone', 'vicodin', 'tramadol', 'ultram', 'morphine', 'codeine', 'fentanyl', 'methadone', 'buprenorphine', 'suboxone'];
-    const opioidSupplements = ['valerian', 'gaba', 'kava', 'passionflower', 'magnolia', 'melatonin'];
-    if (hasMed(opioidMeds) && hasIngr(allIngredients, opioidSupplements)) {
-      const found = matchingIngr(allIngredients, opioidSupplements);
-      warnings.push({
-        category: 'opioid_interaction',
-        severity: 'critical',
-        message: `BLOCKED: Contains sedating supplements (${found.join(', ')}) which may cause dangerous additive CNS depression with opioid medications. This combination is potentially fatal. Remove these ingredients or obtain explicit physician approval.`,
-        ingredients: found,
-        drugs: medsLower.filter(m => opioidMeds.some(d => m.includes(d))),
-      });
-    }
-
-    // ── 3n. ADHD Stimulant Medications ──────────────────────────────────
-    const adhdMeds = ['methylphenidate', 'ritalin', 'concerta', 'amphetamine', 'adderall', 'lisdexamfetamine', 'vyvanse', 'dextroamphetamine', 'dexedrine', 'atomoxetine', 'strattera'];
-    const adhdSupplements = ['caffeine', 'rhodiola', 'ginseng', 'tyrosine', 'yohimbine', 'synephrine'];
-    if (hasMed(adhdMeds) && hasIngr(allIngredients, adhdSupplements)) {
-      const found = matchingIngr(allIngredients, adhdSupplements);
-      warnings.push({
-        category: 'adhd_interaction',
-        severity: 'serious',
-        message: `Contains stimulating ingredients (${found.join(', ')}) which may cause additive cardiovascular stress and overstimulation with your ADHD medication. Discuss with your physician.`,
-        ingredients: found,
-        drugs: medsLower.filter(m => adhdMeds.some(d => m.includes(d))),
-      });
-    }
-
-    // ── 3o. PPIs / Acid Reducers ────────────────────────────────────────
-    const ppiMeds = ['omeprazole', 'prilosec', 'pantoprazole', 'protonix', 'esomeprazole', 'nexium', 'lansoprazole', 'prevacid', 'famotidine', 'pepcid', 'ranitidine'];
-    const ppiSupplements = ['iron', 'calcium', 'magnesium', 'vitamin b12', 'zinc'];
-    if (hasMed(ppiMeds) && hasIngr(allIngredients, ppiSupplements)) {
-      const found = matchingIngr(allIngredients, ppiSupplements);
-      warnings.push({
-        category: 'ppi_absorption',
-        severity: 'informational',
-        message: `PPIs reduce absorption of ${found.join(', ')}. Take these supplements at least 2 hours apart from your acid reducer for best absorption.`,
-        ingredients: found,
-        drugs: medsLower.filter(m => ppiMeds.some(d => m.includes(d))),
-      });
-    }
-
-    // ── 3p. Antibiotics ─────────────────────────────────────────────────
-    const antibiotics = ['tetracycline', 'doxycycline', 'minocycline', 'ciprofloxacin', 'cipro', 'levofloxacin', 'levaquin', 'moxifloxacin', 'amoxicillin', 'azithromycin'];
-    const antibioticSupplements = ['calcium', 'iron', 'magnesium', 'zinc'];
-    if (hasMed(antibiotics) && hasIngr(allIngredients, antibioticSupplements)) {
-      const found = matchingIngr(allIngredients, antibioticSupplements);
-      warnings.push({
-        category: 'antibiotic_chelation',
-        severity: 'informational',
-        message: `Minerals (${found.join(', ')}) can chelate and reduce absorption of your antibiotic. Take supplements at least 2-4 hours apart from your antibiotic dose.`,
-        ingredients: found,
-        drugs: medsLower.filter(m => antibiotics.some(d => m.includes(d))),
-      });
-    }
-
-    // ── 3q. Corticosteroids ─────────────────────────────────────────────
-    const corticosteroids = ['prednisone', 'prednisolone', 'dexamethasone', 'methylprednisolone', 'hydrocortisone', 'budesonide'];
-    if (hasMed(corticosteroids)) {
-      if (hasIngr(allIngredients, ['licorice', 'glycyrrhizin'])) {
-        warnings.push({
-          category: 'corticosteroid_licorice',
-          severity: 'serious',
-          message: 'Licorice Root may worsen potassium depletion and fluid retention caused by corticosteroids. Avoid or use deglycyrrhizinated (DGL) form only.',
-          ingredients: matchingIngr(allIngredients, ['licorice', 'glycyrrhizin']),
-          drugs: medsLower.filter(m => corticosteroids.some(d => m.includes(d))),
-        });
-      }
-      if (hasIngr(allIngredients, ['echinacea', 'astragalus', 'elderberry', 'mushroom'])) {
-        const found = matchingIngr(allIngredients, ['echinacea', 'astragalus', 'elderberry', 'mushroom']);
-        warnings.push({
-          category: 'corticosteroid_immuno',
-          severity: 'informational',
-          message: `Immune-stimulating ingredients (${found.join(', ')}) may counteract the immunosuppressive effect of your corticosteroid. Consult your physician.`,
-          ingredients: found,
-          drugs: medsLower.filter(m => corticosteroids.some(d => m.includes(d))),
-        });
-      }
-    }
-
-    // ── 3r. Heart Rhythm / Cardiac Glycosides ───────────────────────────
-    const cardiacMeds = ['digoxin', 'lanoxin', 'amiodarone', 'flecainide', 'sotalol', 'dofetilide', 'dronedarone'];
-    const cardiacSupplements = ['magnesium', 'potassium', 'hawthorn', 'licorice', 'glycyrrhizin'];
-    if (hasMed(cardiacMeds) && hasIngr(allIngredients, cardiacSupplements)) {
-      const found = matchingIngr(allIngredients, cardiacSupplements);
-      warnings.push({
-        category: 'cardiac_interaction',
-        severity: 'serious',
-        message: `Contains ${found.join(', ')} which can shift electrolyte balance and affect heart rhythm while on cardiac medications. Physician monitoring required.`,
-        ingredients: found,
-        drugs: medsLower.filter(m => cardiacMeds.some(d => m.includes(d))),
-      });
-    }
-
-    // ── 3s. CYP450 Narrow Therapeutic Index ─────────────────────────────
-    const narrowTIDrugs = ['warfarin', 'cyclosporine', 'tacrolimus', 'theophylline', 'phenytoin', 'digoxin', 'lithium', 'carbamazepine'];
-    const cyp450Supplements = ["st. john", "st john", 'goldenseal', 'grapefruit'];
-    if (hasMed(narrowTIDrugs) && hasIngr(allIngredients, cyp450Supplements)) {
-      const found = matchingIngr(allIngredients, cyp450Supplements);
-      warnings.push({
-        category: 'cyp450_nti',
-        severity: 'critical',
-        message: `BLOCKED: Contains CYP450 enzyme modulators (${found.join(', ')}) which can dramatically alter blood levels of your narrow-therapeutic-index medication. This is potentially fatal. Remove these ingredients.`,
-        ingredients: found,
-        drugs: medsLower.filter(m => narrowTIDrugs.some(d => m.includes(d))),
-      });
-    }
-
-    // ── 3t. Kidney Impairment ───────────────────────────────────────────
-    const kidneyKeywords = ['kidney', 'renal', 'dialysis', 'ckd', 'chronic kidney'];
-    if (hasMed(kidneyKeywords) || has(conditionsLower, kidneyKeywords)) {
-      const kidneySupplements = ['potassium', 'magnesium', 'phosphorus', 'creatine', 'vitamin c'];
-      if (hasIngr(allIngredients, kidneySupplements)) {
-        const found = matchingIngr(allIngredients, kidneySupplements);
-        warnings.push({
-          category: 'kidney_impairment',
-          severity: 'serious',
-          message: `Contains ${found.join(', ')} which require dose adjustment or avoidance with kidney impairment. Consult your nephrologist before starting.`,
-          ingredients: found,
-        });
-      }
-    }
-  }
-
-  // ══════════════════════════════════════════════════════════════════════════
-  // 3u. HIGH-RISK POPULATION HARD BLOCKS
-  // ══════════════════════════════════════════════════════════════════════════
-
-  // ── Minors (under 18) — block ALL formulas ────────────────────────────
-  if (has(conditionsLower, ['minor', 'under 18', 'child', 'pediatric', 'teenager', 'adolescent'])) {
-    warnings.push({
-      category: 'minor_block',
-      severity: 'critical',
-      message: 'BLOCKED: Personalized supplement formulas are not available for individuals under 18. This product is formulated for adults only.',
-    });
-  }
-
-  // ── Severe kidney disease — block if kidney + high-risk supplements ───
-  const severeKidneyKeywords = ['dialysis', 'kidney failure', 'end stage renal', 'esrd', 'ckd stage 4', 'ckd stage 5', 'stage 4 kidney', 'stage 5 kidney'];
-  if (has(conditionsLower, severeKidneyKeywords)) {
-    warnings.push({
-      category: 'severe_kidney_block',
-      severity: 'critical',
-      message: 'BLOCKED: With severe kidney disease or dialysis, supplement use requires direct nephrologist supervision. We cannot create a formula without documented nephrology clearance.',
-    });
-  }
-
-  // ── Immunosuppressants — escalate immune-stimulating supplements to critical ──
-  if (medsLower.length > 0) {
-    const immunoMedsHigh = ['cyclosporine', 'tacrolimus', 'mycophenolate', 'azathioprine', 'sirolimus'];
-    if (hasMed(immunoMedsHigh)) {
-      const immuneStims = ['echinacea', 'astragalus', 'elderberry', 'mushroom', 'beta glucan', 'colostrum'];
-      if (hasIngr(allIngredients, immuneStims)) {
-        const found = matchingIngr(allIngredients, immuneStims);
-        // Check if we already pushed a 'serious' immuno_stimulant warning — upgrade it
-        const existingIdx = warnings.findIndex(w => w.category === 'immuno_stimulant');
-        if (existingIdx >= 0) {
-          warnings[existingIdx].severity = 'critical';
-          warnings[existingIdx].message = `BLOCKED: Contains immune-stimulating ingredients (${found.join(', ')}) which are contraindicated with transplant immunosuppressants. Risk of organ rejection. Remove these ingredients.`;
-        }
-      }
-    }
-  }
-
-  // ── Active chemotherapy — block ALL formulas if chemo noted in conditions ──
-  if (has(conditionsLower, ['chemotherapy', 'chemo', 'cancer treatment', 'radiation therapy', 'oncology treatment'])) {
-    // Only add if not already caught by 3h medication check
-    if (!warnings.some(w => w.category === 'chemo_interaction')) {
-      warnings.push({
-        category: 'chemo_condition_block',
-        severity: 'critical',
-        message: 'BLOCKED: You indicated active cancer treatment. Supplements may interfere with chemotherapy or radiation. An oncologist must review and approve any supplement use during active treatment.',
-      });
+  // Interaction categories, antiplatelet stacking and the high-risk
+  // population blocks are declarative rules (shared/safety-rules.ts). The
+  // active set is the latest published version; callers may pass a draft
+  // set explicitly to preview it.
+  const ruleSet = input.ruleSet || getActiveSafetyRuleSet();
+  warnings.push(...evaluateSafetyRules(ruleSet, {
+    allIngredients,
+    medsLower,
+    conditionsLower,
+    hasMed,
+  }));
+
+  // ── Dose-aware severity for interaction warnings ──────────────────────
+  // Runs after rule escalations (warfarin, transplant immunosuppressants) so
+  // the dose adjustment sees each category's final base severity. Only interaction-based warnings
+  // (drug present, or antiplatelet stacking) are dose-scaled — pregnancy,
+  // allergen and population blocks are dose-independent.
+  for (const warning of warnings) {
+    if (warning.drugs || warning.category === 'antiplatelet_stacking') {
+      applyDoseToWarning(warning, doseByIngredient);
     }
   }
 
@@ -812,6 +516,21 @@ export function validateFormulaSafety(input: SafetyValidationInput): SafetyValid
     }
   }
 
+  // ══════════════════════════════════════════════════════════════════════════
+  // 5b. CUMULATIVE NUTRIENT UPPER LIMITS
+  // Sums each nutrient across system-support sub-ingredients, individual
+  // additions and the user's current supplements, then compares against the
+  // age/sex/life-stage UL.
+  // ══════════════════════════════════════════════════════════════════════════
+  warnings.push(...checkNutrientUpperLimits({
+    formulaDoses,
+    currentSupplements: input.currentSupplements || [],
+    age: input.userAge,
+    sex: input.userSex,
+    isPregnant: input.isPregnant,
+    isNursing: input.isNursing,
+  }));
+
   // ══════════════════════════════════════════════════════════════════════════
   // 6. GENERAL MEDICATION DISCLOSURE REMINDER
   // ══════════════════════════════════════════════════════════════════════════
@@ -842,6 +561,7 @@ export function validateFormulaSafety(input: SafetyValidationInput): SafetyValid
     warnings,
     blockedReasons: criticalWarnings.map(w => w.message),
     unmatchedMedications,
+    ruleSetVersion: ruleSet.version,
   };
 }
 
@@ -866,3 +586,20 @@ export function getHighestSeverityFromStrings(warnings: string[]): 'critical' |
   if (warnings.length > 0) return 'informational';
   return 'none';
 }
+
+/**
+ * Warnings in `current` that are new or more severe than in `previous`,
+ * matched by category. Used by re-screening to decide whether a profile or
+ * rule change introduced risk the user hasn't seen yet.
+ */
+export function findEscalatedWarnings(
+  previous: Array<Pick<SafetyWarning, 'category' | 'severity'>>,
+  current: SafetyWarning[],
+): SafetyWarning[] {
+  const previousRank = new Map<string, number>();
+  for (const w of previous) {
+    const rank = SEVERITY_TIERS.indexOf(w.severity);
+    previousRank.set(w.category, Math.max(rank, previousRank.get(w.category) ?? -1));
+  }
+  return current.filter(w => SEVERITY_TIERS.indexOf(w.severity) > (previousRank.get(w.category) ?? -1));
+}
@@ -39,7 +39,7 @@ export interface NormalizedMedication {
 }
 
 // Constrained vocabulary — these strings must match the keyword arrays in
-// safety-validator.ts so that drugClass alone can trigger an interaction
+// the safety rule set (shared/safety-rules.ts) so that drugClass alone can trigger an interaction
 // rule. If you add a new safety category, add its label here too.
 const DRUG_CLASS_VOCABULARY = [
   'anticoagulant',        // warfarin, DOACs, heparin
@@ -187,6 +187,7 @@ Rules:
   const userPrompt = `Normalize these medications:\n${JSON.stringify(rawMedications)}`;
 
   const response = await chatService.complete({
+    feature: 'formula',
     provider,
     model,
     systemPrompt,
@@ -5,7 +5,7 @@
  * didn't match ANY keyword in ANY interaction category gets appended
  * here. The data is reviewed periodically (manually or by the future
  * platform-insights agent) to grow the keyword alias arrays in
- * safety-validator.ts. This is the feedback loop that keeps the
+ * the safety rule set (shared/safety-rules.ts). This is the feedback loop that keeps the
  * deterministic safety gate from silently degrading as new drugs launch
  * or users enter brand/compound/international names not yet covered.
  *
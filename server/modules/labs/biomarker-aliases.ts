@@ -448,34 +448,191 @@ const BIOMARKER_ALIASES: Record<string, string> = {
     'rf':                           'Rheumatoid Factor',
 };
 
+// ── Codes & specimen types ─────────────────────────────────────────────
+
+export type SpecimenType = 'serum' | 'plasma' | 'serum_plasma' | 'whole_blood' | 'rbc' | 'urine';
+
+export interface BiomarkerCoding {
+    /** LOINC codes that identify this marker (mass vs molar, fasting vs random, calculated vs direct) */
+    loinc: string[];
+    specimen: SpecimenType;
+}
+
+/**
+ * LOINC codes and specimen type per canonical marker (keyed by the canonical
+ * display name used in BIOMARKER_ALIASES). When a report carries codes —
+ * FHIR/HL7 imports, or PDFs that print them — the code wins over the name,
+ * so lab-specific naming can't split or mis-merge a trend line.
+ */
+const BIOMARKER_CODES: Record<string, BiomarkerCoding> = {
+    // ── Glycemic ──
+    'Glucose':                  { loinc: ['2345-7', '15074-8'], specimen: 'serum_plasma' },
+    'Fasting Glucose':          { loinc: ['1558-6', '14771-0'], specimen: 'serum_plasma' },
+    'HbA1c':                    { loinc: ['4548-4', '17856-6', '59261-8'], specimen: 'whole_blood' },
+    'Insulin':                  { loinc: ['20448-7'], specimen: 'serum_plasma' },
+
+    // ── Lipids ──
+    'Total Cholesterol':        { loinc: ['2093-3', '14647-2'], specimen: 'serum_plasma' },
+    'HDL Cholesterol':          { loinc: ['2085-9', '14646-4'], specimen: 'serum_plasma' },
+    'LDL Cholesterol':          { loinc: ['13457-7', '18262-6', '2089-1', '22748-8'], specimen: 'serum_plasma' },
+    'Triglycerides':            { loinc: ['2571-8', '14927-8'], specimen: 'serum_plasma' },
+    'Non-HDL Cholesterol':      { loinc: ['43396-1'], specimen: 'serum_plasma' },
+    'ApoB':                     { loinc: ['1884-6'], specimen: 'serum_plasma' },
+    'Lp(a)':                    { loinc: ['10835-7'], specimen: 'serum_plasma' },
+
+    // ── Kidney / electrolytes ──
+    'Creatinine':               { loinc: ['2160-0', '14682-9'], specimen: 'serum_plasma' },
+    'BUN':                      { loinc: ['3094-0'], specimen: 'serum_plasma' },
+    'Uric Acid':                { loinc: ['3084-1'], specimen: 'serum_plasma' },
+    'Calcium':                  { loinc: ['17861-6'], specimen: 'serum_plasma' },
+    'Sodium':                   { loinc: ['2951-2'], specimen: 'serum_plasma' },
+    'Potassium':                { loinc: ['2823-3'], specimen: 'serum_plasma' },
+    'Chloride':                 { loinc: ['2075-0'], specimen: 'serum_plasma' },
+    'CO2':                      { loinc: ['2028-9'], specimen: 'serum_plasma' },
+    'Magnesium':                { loinc: ['2601-3'], specimen: 'serum_plasma' },
+    'Cystatin C':               { loinc: ['33863-2'], specimen: 'serum_plasma' },
+
+    // ── Liver / protein ──
+    'ALT':                      { loinc: ['1742-6'], specimen: 'serum_plasma' },
+    'AST':                      { loinc: ['1920-8'], specimen: 'serum_plasma' },
+    'ALP':                      { loinc: ['6768-6'], specimen: 'serum_plasma' },
+    'GGT':                      { loinc: ['2324-2'], specimen: 'serum_plasma' },
+    'Bilirubin (Total)':        { loinc: ['1975-2'], specimen: 'serum_plasma' },
+    'Bilirubin (Direct)':       { loinc: ['1968-7'], specimen: 'serum_plasma' },
+    'Albumin':                  { loinc: ['1751-7'], specimen: 'serum_plasma' },
+    'Total Protein':            { loinc: ['2885-2'], specimen: 'serum_plasma' },
+    'Globulin':                 { loinc: ['10834-0'], specimen: 'serum' },
+
+    // ── Complete blood count ──
+    'White Blood Cell Count':   { loinc: ['6690-2'], specimen: 'whole_blood' },
+    'Red Blood Cell Count':     { loinc: ['789-8'], specimen: 'whole_blood' },
+    'Hemoglobin':               { loinc: ['718-7'], specimen: 'whole_blood' },
+    'Hematocrit':               { loinc: ['4544-3'], specimen: 'whole_blood' },
+    'Platelets':                { loinc: ['777-3'], specimen: 'whole_blood' },
+    'MCV':                      { loinc: ['787-2'], specimen: 'rbc' },
+    'MCH':                      { loinc: ['785-6'], specimen: 'rbc' },
+    'MCHC':                     { loinc: ['786-4'], specimen: 'rbc' },
+    'RDW':                      { loinc: ['788-0'], specimen: 'rbc' },
+    'MPV':                      { loinc: ['32623-1'], specimen: 'whole_blood' },
+
+    // ── Iron ──
+    'Ferritin':                 { loinc: ['2276-4'], specimen: 'serum_plasma' },
+    'Iron':                     { loinc: ['2498-4'], specimen: 'serum_plasma' },
+    'TIBC':                     { loinc: ['2500-7'], specimen: 'serum_plasma' },
+    'Transferrin Saturation':   { loinc: ['2502-3'], specimen: 'serum_plasma' },
+
+    // ── Vitamins ──
+    'Vitamin D':                { loinc: ['1989-3', '62292-8'], specimen: 'serum_plasma' },
+    'Vitamin B12':              { loinc: ['2132-9'], specimen: 'serum_plasma' },
+    'Folate':                   { loinc: ['2284-8'], specimen: 'serum_plasma' },
+
+    // ── Thyroid ──
+    'TSH':                      { loinc: ['3016-3'], specimen: 'serum_plasma' },
+    'Free T4':                  { loinc: ['3024-7'], specimen: 'serum_plasma' },
+    'Free T3':                  { loinc: ['3051-0'], specimen: 'serum_plasma' },
+
+    // ── Hormones ──
+    'Testosterone':             { loinc: ['2986-8'], specimen: 'serum_plasma' },
+    'Free Testosterone':        { loinc: ['2991-8'], specimen: 'serum_plasma' },
+    'Estradiol':                { loinc: ['2243-4'], specimen: 'serum_plasma' },
+    'DHEA-S':                   { loinc: ['2191-5'], specimen: 'serum_plasma' },
+    'Cortisol':                 { loinc: ['2143-6'], specimen: 'serum_plasma' },
+    'SHBG':                     { loinc: ['13967-5'], specimen: 'serum_plasma' },
+    'PSA':                      { loinc: ['2857-1'], specimen: 'serum_plasma' },
+
+    // ── Inflammation / cardiac ──
+    'CRP':                      { loinc: ['1988-5', '30522-7'], specimen: 'serum_plasma' },
+    'Homocysteine':             { loinc: ['13965-9'], specimen: 'serum_plasma' },
+};
+
+const LOINC_TO_CANONICAL = new Map<string, string>(
+    Object.entries(BIOMARKER_CODES).flatMap(([name, c]) => c.loinc.map(code => [code, name] as [string, string])),
+);
+
+/**
+ * Aliases added at runtime from the admin review queue of unmapped names.
+ * Built-in aliases always win; see biomarker-review.service.ts.
+ */
+const aliasOverrides = new Map<string, string>();
+
+/** Lower-case, alphanumeric + % + spaces — the form alias keys are stored in. */
+export function normalizeMarkerName(rawName: string): string {
+    return rawName.toLowerCase().replace(/[^a-z0-9%]+/g, ' ').trim();
+}
+
+function lookupAlias(normalizedKey: string): string | null {
+    return BIOMARKER_ALIASES[normalizedKey] ?? aliasOverrides.get(normalizedKey) ?? null;
+}
+
+/** Replace the runtime alias overrides (normalized name → canonical name). */
+export function setAliasOverrides(entries: Iterable<[string, string]>): void {
+    aliasOverrides.clear();
+    for (const [name, canonical] of entries) aliasOverrides.set(normalizeMarkerName(name), canonical);
+}
+
+/**
+ * Resolve a LOINC code to its canonical marker name.
+ * Returns null for codes we don't track.
+ */
+export function canonicalNameForLoinc(code: string | null | undefined): string | null {
+    if (!code) return null;
+    return LOINC_TO_CANONICAL.get(code.trim()) ?? null;
+}
+
+/** LOINC codes and specimen type for a canonical marker name, if known. */
+export function getBiomarkerCoding(canonical: string): BiomarkerCoding | null {
+    return BIOMARKER_CODES[canonical] ?? null;
+}
+
+/** Every canonical marker name, with its coding where we have one. */
+export function listCanonicalMarkers(): Array<{ name: string; coding: BiomarkerCoding | null }> {
+    const names = new Set([...Object.values(BIOMARKER_ALIASES), ...Object.keys(BIOMARKER_CODES)]);
+    return Array.from(names).sort().map(name => ({ name, coding: BIOMARKER_CODES[name] ?? null }));
+}
+
+const CANONICAL_KEYS = new Set(listCanonicalMarkers().map(m => normalizeMarkerName(m.name)));
+
+/**
+ * True when the name (or code) resolves to a known canonical marker — either
+ * an alias or the canonical name itself. Unrecognised names feed the admin
+ * review queue.
+ */
+export function isRecognizedMarker(rawName: string, loincCode?: string | null): boolean {
+    if (canonicalNameForLoinc(loincCode)) return true;
+    const key = normalizeMarkerName(rawName);
+    return lookupAlias(key) != null || CANONICAL_KEYS.has(key);
+}
+
 /**
  * Resolve a raw marker name to its canonical form.
  * Accepts the already-normalized key (lowercase, alphanumeric + spaces).
  * Returns the canonical display name if found, otherwise null.
  */
 export function resolveAlias(normalizedKey: string): string | null {
-    return BIOMARKER_ALIASES[normalizedKey] ?? null;
+    return lookupAlias(normalizedKey);
 }
 
 /**
  * Get the canonical key for a marker name.
  * This normalizes the name and resolves aliases, returning a stable key
- * that can be used to merge markers across reports.
+ * that can be used to merge markers across reports. A LOINC code, when the
+ * report provides one we know, takes precedence over the name.
  */
-export function canonicalKey(rawName: string): string {
-    const key = rawName.toLowerCase().replace(/[^a-z0-9%]+/g, ' ').trim();
-    const alias = BIOMARKER_ALIASES[key];
+export function canonicalKey(rawName: string, loincCode?: string | null): string {
+    const byCode = canonicalNameForLoinc(loincCode);
+    if (byCode) return normalizeMarkerName(byCode);
+    const key = normalizeMarkerName(rawName);
+    const alias = lookupAlias(key);
     if (alias) {
-        return alias.toLowerCase().replace(/[^a-z0-9%]+/g, ' ').trim();
+        return normalizeMarkerName(alias);
     }
     return key;
 }
 
 /**
  * Get the canonical display name for a marker.
- * Falls back to the original name if no alias is found.
+ * Falls back to the original name if no alias (or known code) is found.
  */
-export function canonicalName(rawName: string): string {
-    const key = rawName.toLowerCase().replace(/[^a-z0-9%]+/g, ' ').trim();
-    return BIOMARKER_ALIASES[key] ?? rawName;
+export function canonicalName(rawName: string, loincCode?: string | null): string {
+    return canonicalNameForLoinc(loincCode) ?? lookupAlias(normalizeMarkerName(rawName)) ?? rawName;
 }
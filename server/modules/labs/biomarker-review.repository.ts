@@ -0,0 +1,64 @@
+import { db } from '../../infra/db/db';
+import { biomarkerNameReviews, type BiomarkerNameReview } from '@shared/schema';
+import { eq, desc, sql } from 'drizzle-orm';
+
+export type BiomarkerReviewStatus = BiomarkerNameReview['status'];
+
+export class BiomarkerReviewRepository {
+    /**
+     * Insert a newly seen name, or bump the counter on an existing row.
+     * Status is left alone so ignored names stay ignored.
+     */
+    async recordSighting(input: { normalizedName: string; sampleName: string; sampleUnit?: string | null; sampleLoincCode?: string | null }): Promise<void> {
+        await db
+            .insert(biomarkerNameReviews)
+            .values({
+                normalizedName: input.normalizedName,
+                sampleName: input.sampleName,
+                sampleUnit: input.sampleUnit || null,
+                sampleLoincCode: input.sampleLoincCode || null,
+            })
+            .onConflictDoUpdate({
+                target: biomarkerNameReviews.normalizedName,
+                set: {
+                    occurrences: sql`${biomarkerNameReviews.occurrences} + 1`,
+                    lastSeenAt: new Date(),
+                },
+            });
+    }
+
+    async getReview(id: string): Promise<BiomarkerNameReview | undefined> {
+        const [row] = await db.select().from(biomarkerNameReviews).where(eq(biomarkerNameReviews.id, id));
+        return row || undefined;
+    }
+
+    async listReviews(status?: BiomarkerReviewStatus, limit = 200): Promise<BiomarkerNameReview[]> {
+        return db
+            .select()
+            .from(biomarkerNameReviews)
+            .where(status ? eq(biomarkerNameReviews.status, status) : undefined)
+            .orderBy(desc(biomarkerNameReviews.occurrences), desc(biomarkerNameReviews.lastSeenAt))
+            .limit(limit);
+    }
+
+    async listMapped(): Promise<Array<{ normalizedName: string; mappedTo: string | null }>> {
+        return db
+            .select({ normalizedName: biomarkerNameReviews.normalizedName, mappedTo: biomarkerNameReviews.mappedTo })
+            .from(biomarkerNameReviews)
+            .where(eq(biomarkerNameReviews.status, 'mapped'));
+    }
+
+    async resolve(
+        id: string,
+        updates: { status: BiomarkerReviewStatus; mappedTo: string | null; resolvedBy: string | null },
+    ): Promise<BiomarkerNameReview | undefined> {
+        const [row] = await db
+            .update(biomarkerNameReviews)
+            .set({ ...updates, resolvedAt: updates.status === 'pending' ? null : new Date() })
+            .where(eq(biomarkerNameReviews.id, id))
+            .returning();
+        return row || undefined;
+    }
+}
+
+export const biomarkerReviewRepository = new BiomarkerReviewRepository();
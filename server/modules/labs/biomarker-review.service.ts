@@ -0,0 +1,79 @@
+/**
+ * Unmapped biomarker name review queue
+ *
+ * Every uploaded report is checked against the alias registry; names that
+ * resolve to nothing (no alias, not a canonical name, no known LOINC code)
+ * are recorded with a sighting count. Admins map them onto a canonical
+ * marker — which is loaded into the alias registry as a runtime override —
+ * or ignore them. This is how the alias table grows without a deploy.
+ */
+
+import { biomarkerReviewRepository, type BiomarkerReviewStatus } from './biomarker-review.repository';
+import { isRecognizedMarker, listCanonicalMarkers, normalizeMarkerName, setAliasOverrides } from './biomarker-aliases';
+import logger from '../../infra/logging/logger';
+
+type ExtractedMarkerLike = { testName?: string; name?: string; unit?: string; loincCode?: string };
+
+export class BiomarkerReviewService {
+    /**
+     * Record marker names from an extraction that don't resolve to a known
+     * biomarker. Best-effort: failures are logged, never thrown, so they
+     * can't break an upload.
+     */
+    async recordUnmappedMarkers(markers: ExtractedMarkerLike[] | undefined | null): Promise<number> {
+        const unmapped = new Map<string, ExtractedMarkerLike & { rawName: string }>();
+        for (const m of markers || []) {
+            const rawName = (m.testName || m.name || '').trim();
+            if (!rawName) continue;
+            if (isRecognizedMarker(rawName, m.loincCode)) continue;
+            const normalized = normalizeMarkerName(rawName);
+            if (normalized && !unmapped.has(normalized)) unmapped.set(normalized, { ...m, rawName });
+        }
+
+        for (const [normalizedName, m] of unmapped) {
+            try {
+                await biomarkerReviewRepository.recordSighting({
+                    normalizedName: normalizedName.slice(0, 200),
+                    sampleName: m.rawName,
+                    sampleUnit: m.unit?.slice(0, 32),
+                    sampleLoincCode: m.loincCode?.slice(0, 16),
+                });
+            } catch (err) {
+                logger.warn('Failed to record unmapped biomarker name', { name: m.rawName, error: err });
+            }
+        }
+        return unmapped.size;
+    }
+
+    /** Load admin-approved mappings into the alias registry. */
+    async loadAliasOverrides(): Promise<number> {
+        const rows = await biomarkerReviewRepository.listMapped();
+        const entries = rows
+            .filter(r => r.mappedTo)
+            .map(r => [r.normalizedName, r.mappedTo!] as [string, string]);
+        setAliasOverrides(entries);
+        return entries.length;
+    }
+
+    async listQueue(status: BiomarkerReviewStatus | undefined = 'pending') {
+        const reviews = await biomarkerReviewRepository.listReviews(status);
+        return { reviews, canonicalMarkers: listCanonicalMarkers() };
+    }
+
+    async mapName(id: string, canonicalName: string, adminId: string | null) {
+        const known = listCanonicalMarkers().some(m => m.name === canonicalName);
+        if (!known) throw new Error(`Unknown canonical marker: ${canonicalName}`);
+        const row = await biomarkerReviewRepository.resolve(id, { status: 'mapped', mappedTo: canonicalName, resolvedBy: adminId });
+        if (row) await this.loadAliasOverrides();
+        return row;
+    }
+
+    async ignoreName(id: string, adminId: string | null) {
+        const row = await biomarkerReviewRepository.resolve(id, { status: 'ignored', mappedTo: null, resolvedBy: adminId });
+        // An ignored name may previously have been mapped
+        if (row) await this.loadAliasOverrides();
+        return row;
+    }
+}
+
+export const biomarkerReviewService = new BiomarkerReviewService();
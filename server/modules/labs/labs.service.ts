@@ -1,8 +1,11 @@
-import OpenAI from 'openai';
 import { filesRepository } from '../files/files.repository';
 import { LAB_TREND_RULES, DEFAULT_CLINICAL_DIRECTION, type ClinicalDirection } from '../chat/lab-trend-rules';
 import { canonicalKey, canonicalName } from './biomarker-aliases';
+import { toCanonicalUnit, referenceRangeToCanonical, formatConvertedRawValue, type UnitSystem } from '@shared/lab-units';
+import { buildLabExport, type LabExport } from '@shared/lab-export';
+import { computeMarkerBaseline, getOptimalRange, isWithinOptimal, type MarkerBaseline, type OptimalRange } from './marker-baselines';
 import logger from '../../infra/logging/logger';
+import { complete } from '../../infra/ai/llm-gateway';
 import type { FileUpload } from '@shared/schema';
 import { usersRepository } from '../users/users.repository';
 import { wearablesRepository } from '../wearables/wearables.repository';
@@ -55,9 +58,11 @@ export interface NormalizedMarker {
 
 export interface MarkerHistory {
     date: string;
-    value: number | null;
+    value: number | null;       // in the analyte's canonical unit (see shared/lab-units.ts)
     rawValue: string;
     unit: string;
+    originalRawValue: string;   // exactly as reported, before unit normalization
+    originalUnit: string;
     status: 'normal' | 'high' | 'low' | 'critical';
     reportId: string;
     daysOld: number;     // days since this test was performed
@@ -72,6 +77,8 @@ export interface AggregatedBiomarker {
         value: number | null;
         rawValue: string;
         unit: string;
+        originalRawValue: string;
+        originalUnit: string;
         referenceRange: string;
         status: 'normal' | 'high' | 'low' | 'critical';
         date: string;
@@ -105,6 +112,15 @@ export interface AggregatedBiomarker {
     clinicalDirection: ClinicalDirection;
     history: MarkerHistory[];
     insight?: MarkerInsight | null;     // pre-generated AI insight (stored in DB at upload time)
+    /**
+     * The user's own baseline for this marker and whether the latest value
+     * moved beyond the reference change value from it. Independent of
+     * `latest.status`: a value can be in range yet unusual for this person.
+     */
+    baseline: MarkerBaseline | null;
+    unusualForYou: boolean;
+    optimalRange: OptimalRange | null;  // age/sex-banded, canonical unit
+    withinOptimal: boolean | null;      // null when no optimal range or no numeric value
 }
 
 export interface MarkerInsight {
@@ -156,11 +172,23 @@ export interface FocusArea {
     actions: FocusAction[];
 }
 
+export interface UnusualForYouEntry {
+    name: string;
+    value: string;
+    unit: string;
+    baselineValue: number;    // personal baseline mean, canonical unit
+    changePercent: number;
+    direction: 'up' | 'down';
+    sampleCount: number;
+    status: 'normal' | 'high' | 'low' | 'critical';   // lab status, reported separately
+}
+
 export interface LabAnalysisSummary {
     headline: string;         // e.g. "Strong baseline — focus on Lipid Panel and Inflammation"
     narrative: string;        // 1 sentence overview
     strengths: string[];      // panel names that are all-clear
     focusAreas: FocusArea[];  // troubled panels with markers + advice
+    unusualForYou: UnusualForYouEntry[];  // significant shifts from the user's own baseline
 }
 
 export interface BiologicalAge {
@@ -205,6 +233,7 @@ export interface BiomarkersDashboard {
         worsening: number;
         stable: number;
         newMarkers: number;
+        unusualForYou: number;
     };
     reports: Array<{
         id: string;
@@ -405,7 +434,7 @@ function scoreLabel(score: number): string {
  * Compute a 0-100 health score from aggregated biomarkers.
  *
  * Scoring formula per marker:
- *   normal  = 100 points
+ *   normal  = 100 points (85 when outside the age/sex-banded optimal range)
  *   high    =  40 points
  *   low     =  40 points
  *   critical=  10 points
@@ -422,6 +451,7 @@ function computeHealthScore(markers: AggregatedBiomarker[]): HealthScore {
     }
 
     const statusPoints: Record<string, number> = { normal: 100, high: 40, low: 40, critical: 10 };
+    const SUBOPTIMAL_POINTS = 85;
     const trendBonus: Record<string, number> = { improving: 5, worsening: -5, stable: 0, new: 0 };
 
     // Per-category grouping
@@ -467,7 +497,9 @@ function computeHealthScore(markers: AggregatedBiomarker[]): HealthScore {
         let critCount = 0;
 
         for (const m of catMarkers) {
-            const base = statusPoints[m.latest.status] ?? 100;
+            const base = m.latest.status === 'normal' && m.withinOptimal === false
+                ? SUBOPTIMAL_POINTS
+                : statusPoints[m.latest.status] ?? 100;
             const bonus = trendBonus[m.trend] ?? 0;
             catTotal += Math.min(100, Math.max(0, base + bonus));
 
@@ -1065,7 +1097,7 @@ function generateAnalysisSummary(
     healthScore: HealthScore,
 ): LabAnalysisSummary {
     if (markers.length === 0) {
-        return { headline: '', narrative: '', strengths: [], focusAreas: [] };
+        return { headline: '', narrative: '', strengths: [], focusAreas: [], unusualForYou: [] };
     }
 
     const abnormal = markers.filter(m => m.latest.status !== 'normal');
@@ -1587,7 +1619,22 @@ function generateAnalysisSummary(
     // ── Narrative (one sentence) ──
     const narrative = `${markers.length} biomarkers analyzed, ${normalPct}% in range — overall score ${healthScore.overall}/100 (${healthScore.grade}).`;
 
-    return { headline, narrative, strengths: cleanPanels, focusAreas };
+    // ── Unusual for you (personal baseline, independent of reference range) ──
+    const unusualForYou: UnusualForYouEntry[] = markers
+        .filter(m => m.unusualForYou && m.baseline && !m.latest.isStale)
+        .sort((a, b) => Math.abs(b.baseline!.changePercent) - Math.abs(a.baseline!.changePercent))
+        .map(m => ({
+            name: m.name,
+            value: m.latest.rawValue,
+            unit: m.latest.unit,
+            baselineValue: m.baseline!.mean,
+            changePercent: m.baseline!.changePercent,
+            direction: m.baseline!.direction as 'up' | 'down',
+            sampleCount: m.baseline!.sampleCount,
+            status: m.latest.status,
+        }));
+
+    return { headline, narrative, strengths: cleanPanels, focusAreas, unusualForYou };
 }
 
 // ── Service ────────────────────────────────────────────────────────────
@@ -1643,20 +1690,31 @@ export class LabsService {
                 if (!rawName) continue;
 
                 // Use alias-aware canonical key so "WBC" and "White Blood Cell Count" merge
-                const key = canonicalKey(rawName);
+                const key = canonicalKey(rawName, m.loincCode);
                 if (!key) continue;
 
                 // Resolve to canonical display name
-                const displayName = canonicalName(rawName);
-
-                const numVal = parseNumeric(m.value);
+                const displayName = canonicalName(rawName, m.loincCode);
+
+                const rawValue = String(m.value ?? '');
+                const originalUnit = m.unit || '';
+                // Convert into the analyte's canonical unit so an mmol/L glucose
+                // and an mg/dL glucose land on the same trend line
+                const canonical = toCanonicalUnit(key, parseNumeric(m.value), originalUnit);
+                const referenceRange = m.referenceRange
+                    ? referenceRangeToCanonical(key, m.referenceRange, originalUnit)
+                    : '';
                 const histDaysOld = daysSinceNow(reportDate);
 
                 const entry: MarkerHistory = {
                     date: reportDate,
-                    value: numVal,
-                    rawValue: String(m.value ?? ''),
-                    unit: m.unit || '',
+                    value: canonical.value,
+                    rawValue: canonical.converted && canonical.value != null
+                        ? formatConvertedRawValue(rawValue, canonical.value)
+                        : rawValue,
+                    unit: canonical.unit,
+                    originalRawValue: rawValue,
+                    originalUnit,
                     status: this.normalizeStatus(m.status),
                     reportId: report.id,
                     daysOld: histDaysOld,
@@ -1668,15 +1726,15 @@ export class LabsService {
                         name: displayName,
                         category: inferCategory(displayName),
                         histories: [],
-                        referenceRange: m.referenceRange || '',
+                        referenceRange,
                     });
                 }
 
                 const existing = markerHistoryMap.get(key)!;
                 existing.histories.push(entry);
                 // Update reference range if we get a better one
-                if (m.referenceRange && !existing.referenceRange) {
-                    existing.referenceRange = m.referenceRange;
+                if (referenceRange && !existing.referenceRange) {
+                    existing.referenceRange = referenceRange;
                 }
             }
         }
@@ -1699,10 +1757,13 @@ export class LabsService {
             entry.histories = deduped;
         }
 
+        // Age and sex select the optimal-range band
+        const profile = await usersRepository.getHealthProfile(userId).catch(() => undefined);
+
         // Build aggregated biomarker list
         const markers: AggregatedBiomarker[] = [];
         let normal = 0, high = 0, low = 0, critical = 0;
-        let improving = 0, worsening = 0, stable = 0, newMarkers = 0;
+        let improving = 0, worsening = 0, stable = 0, newMarkers = 0, unusualForYou = 0;
 
         for (const [key, entry] of markerHistoryMap.entries()) {
             const histories = entry.histories; // oldest → newest
@@ -1736,7 +1797,14 @@ export class LabsService {
                 }
             }
 
+            const baseline = computeMarkerBaseline(key, histories);
+            const optimalRange = getOptimalRange(key, profile?.age, profile?.sex);
+            const withinOptimal = optimalRange && latestH.value != null
+                ? isWithinOptimal(latestH.value, optimalRange)
+                : null;
+
             // Tally
+            if (baseline?.significant) unusualForYou++;
             switch (latestH.status) {
                 case 'normal': normal++; break;
                 case 'high': high++; break;
@@ -1758,6 +1826,8 @@ export class LabsService {
                     value: latestH.value,
                     rawValue: latestH.rawValue,
                     unit: latestH.unit,
+                    originalRawValue: latestH.originalRawValue,
+                    originalUnit: latestH.originalUnit,
                     referenceRange: entry.referenceRange,
                     status: latestH.status,
                     date: latestH.date,
@@ -1781,6 +1851,10 @@ export class LabsService {
                 clinicalDirection: clinDir,
                 history: histories,
                 insight: reportInsightsMap.get(latestH.reportId)?.[key] || null,
+                baseline,
+                unusualForYou: baseline?.significant ?? false,
+                optimalRange,
+                withinOptimal,
             });
         }
 
@@ -1832,7 +1906,7 @@ export class LabsService {
             summary: {
                 totalMarkers: markers.length,
                 normal, high, low, critical,
-                improving, worsening, stable, newMarkers,
+                improving, worsening, stable, newMarkers, unusualForYou,
             },
             reports: allReports.map(r => {
                 const ld = r.labReportData as any;
@@ -1842,7 +1916,7 @@ export class LabsService {
                 for (const m of extracted) {
                     const name = m.testName || m.name || '';
                     if (!name) continue;
-                    const key = canonicalKey(name);
+                    const key = canonicalKey(name, m.loincCode);
                     if (key) uniqueKeys.add(key);
                 }
                 const reportDate = this.getReportDate(r);
@@ -1901,7 +1975,7 @@ export class LabsService {
                         const ld = r.labReportData as any;
                         const extracted = Array.isArray(ld?.extractedData) ? ld.extractedData : [];
                         if (extracted.length === 0) continue;
-                        const insights = await this.generateAllMarkerInsights(extracted);
+                        const insights = await this.generateAllMarkerInsights(extracted, userId);
                         if (Object.keys(insights).length > 0) {
                             await filesRepository.updateFileUpload(r.id, {
                                 labReportData: { ...ld, markerInsights: insights }
@@ -1918,6 +1992,77 @@ export class LabsService {
         return result;
     }
 
+    /**
+     * Dashboard flattened for export (JSON/CSV here, PDF rendered from the
+     * same payload on the client).
+     */
+    async getLabExport(userId: string, unitSystem: UnitSystem = 'conventional'): Promise<LabExport> {
+        const [dashboard, user] = await Promise.all([
+            this.getBiomarkersDashboard(userId),
+            usersRepository.getUser(userId),
+        ]);
+        return buildLabExport(dashboard, {
+            patient: { name: user?.name || user?.email || 'Ones User', email: user?.email || '' },
+            unitSystem,
+        });
+    }
+
+    /**
+     * Latest status and test date per canonical marker. A lightweight read
+     * for background jobs (retest planning) that don't need the full
+     * dashboard with insights, scoring and biological age.
+     */
+    async getLatestMarkerStatuses(userId: string): Promise<Array<{ key: string; name: string; status: NormalizedMarker['status']; date: string }>> {
+        const reports = (await filesRepository.getLabReportsByUser(userId))
+            .filter(r => {
+                const ld = r.labReportData as any;
+                return ld?.analysisStatus === 'completed' && Array.isArray(ld?.extractedData);
+            })
+            .map(r => ({ report: r, date: this.getReportDate(r) }))
+            .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+        const latest = new Map<string, { key: string; name: string; status: NormalizedMarker['status']; date: string }>();
+        for (const { report, date } of reports) {
+            for (const m of (report.labReportData as any).extractedData as any[]) {
+                const rawName = m.testName || m.name || '';
+                const key = rawName ? canonicalKey(rawName, m.loincCode) : '';
+                if (!key) continue;
+                latest.set(key, { key, name: canonicalName(rawName, m.loincCode), status: this.normalizeStatus(m.status), date });
+            }
+        }
+        return [...latest.values()];
+    }
+
+    /**
+     * Numeric results per canonical marker, oldest first, in the analyte's
+     * canonical unit. Used by supplement-outcome attribution, which only
+     * needs values and dates.
+     */
+    async getMarkerSeries(userId: string): Promise<Array<{ key: string; name: string; points: Array<{ date: string; value: number }> }>> {
+        const reports = (await filesRepository.getLabReportsByUser(userId))
+            .filter(r => {
+                const ld = r.labReportData as any;
+                return ld?.analysisStatus === 'completed' && Array.isArray(ld?.extractedData);
+            })
+            .map(r => ({ report: r, date: this.getReportDate(r) }))
+            .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+        const series = new Map<string, { key: string; name: string; points: Array<{ date: string; value: number }> }>();
+        for (const { report, date } of reports) {
+            for (const m of (report.labReportData as any).extractedData as any[]) {
+                const rawName = m.testName || m.name || '';
+                const key = rawName ? canonicalKey(rawName, m.loincCode) : '';
+                if (!key) continue;
+                const { value } = toCanonicalUnit(key, parseNumeric(m.value), m.unit || '');
+                if (value == null || !Number.isFinite(value)) continue;
+                const entry = series.get(key) ?? { key, name: canonicalName(rawName, m.loincCode), points: [] };
+                entry.points.push({ date, value });
+                series.set(key, entry);
+            }
+        }
+        return [...series.values()];
+    }
+
     // ── Private helpers ─────────────────────────────────────────────
 
     /**
@@ -2006,8 +2151,8 @@ export class LabsService {
         return {
             markers: [],
             healthScore: { overall: 0, grade: 'F', label: 'No Data', panels: [], momentum: 'new', momentumLabel: 'No previous data' },
-            analysisSummary: { headline: '', narrative: '', strengths: [], focusAreas: [] },
-            summary: { totalMarkers: 0, normal: 0, high: 0, low: 0, critical: 0, improving: 0, worsening: 0, stable: 0, newMarkers: 0 },
+            analysisSummary: { headline: '', narrative: '', strengths: [], focusAreas: [], unusualForYou: [] },
+            summary: { totalMarkers: 0, normal: 0, high: 0, low: 0, critical: 0, improving: 0, worsening: 0, stable: 0, newMarkers: 0, unusualForYou: 0 },
             reports: allReports.map(r => {
                 const ld = r.labReportData as any;
                 const reportDate = this.getReportDate(r);
@@ -2050,7 +2195,8 @@ export class LabsService {
      * labReportData.markerInsights so future reads are instant.
      */
     async generateAllMarkerInsights(
-        extractedData: Array<Record<string, any>>
+        extractedData: Array<Record<string, any>>,
+        userId?: string,
     ): Promise<Record<string, MarkerInsight>> {
         if (!extractedData || extractedData.length === 0) return {};
 
@@ -2059,9 +2205,9 @@ export class LabsService {
             .map(m => {
                 const name = m.testName || m.name || '';
                 if (!name) return null;
-                const key = canonicalKey(name);
+                const key = canonicalKey(name, m.loincCode);
                 if (!key) return null;
-                const display = canonicalName(name);
+                const display = canonicalName(name, m.loincCode);
                 const status = this.normalizeStatus(m.status);
                 const ref = m.referenceRange ? ` (ref: ${m.referenceRange})` : '';
                 return { key, display, line: `${display}: ${m.value ?? '?'} ${m.unit || ''}${ref} [${status}]` };
@@ -2104,25 +2250,25 @@ Return a JSON object where each KEY is the exact marker name provided, and the v
         logger.info(`Generating insights for ${deduped.length} markers in ${batches.length} batches of ~${BATCH_SIZE}`);
 
         const result: Record<string, MarkerInsight> = {};
-        const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
         // Run all batches in parallel — each batch is independent
         const batchResults = await Promise.allSettled(
             batches.map(async (batch, batchIdx) => {
                 const userMessage = `Here are the lab results. Generate insights for each marker:\n\n${batch.map(m => m.line).join('\n')}`;
 
-                const completion = await openai.chat.completions.create({
+                const { text: raw } = await complete({
+                    feature: 'lab_analysis',
+                    userId,
+                    provider: 'openai',
                     model: 'gpt-4o-mini',
-                    messages: [
-                        { role: 'system', content: systemPrompt },
-                        { role: 'user', content: userMessage },
-                    ],
-                    max_tokens: 16384,
+                    system: systemPrompt,
+                    messages: [{ role: 'user', content: userMessage }],
+                    maxTokens: 16384,
                     temperature: 0.4,
-                    response_format: { type: 'json_object' },
+                    json: true,
+                    metadata: { task: 'marker_insights' },
                 });
 
-                const raw = completion.choices?.[0]?.message?.content;
                 if (!raw) {
                     logger.warn(`Batch ${batchIdx + 1}/${batches.length}: AI returned empty response`);
                     return { batchIdx, batch, parsed: null };
@@ -2205,7 +2351,7 @@ Return a JSON object where each KEY is the exact marker name provided, and the v
         for (const r of [...completedReports].reverse()) {
             const ld = r.labReportData as any;
             for (const m of (ld.extractedData || [])) {
-                const key = canonicalKey(m.testName || m.name || '');
+                const key = canonicalKey(m.testName || m.name || '', m.loincCode);
                 if (key && needed.has(key)) {
                     extractedForGeneration.push(m);
                     needed.delete(key);
@@ -2217,7 +2363,7 @@ Return a JSON object where each KEY is the exact marker name provided, and the v
         if (extractedForGeneration.length === 0) return cached;
 
         // Generate insights for the missing markers
-        const generated = await this.generateAllMarkerInsights(extractedForGeneration);
+        const generated = await this.generateAllMarkerInsights(extractedForGeneration, userId);
 
         // Persist to latest report's labReportData for future cache hits
         if (reportToUpdate && Object.keys(generated).length > 0) {
@@ -0,0 +1,334 @@
+/**
+ * Personal baselines and age-banded optimal ranges
+ *
+ * A value can sit comfortably inside the lab's reference interval and still
+ * be a large move for the person it came from — reference intervals are
+ * built from population spread, which is several times wider than one
+ * person's own variation. This module answers the second question:
+ * "is this result unusual for *you*?"
+ *
+ *   - The baseline is the mean of the user's earlier results for the marker
+ *     (within the clinical-relevance window of the latest sample).
+ *   - Significance uses the reference change value (RCV): the smallest
+ *     difference that exceeds combined analytical (CVa) and within-subject
+ *     biological (CVi) variation at 95% confidence. We use the log-normal
+ *     form, which gives asymmetric up/down limits and stays meaningful for
+ *     high-variation markers like CRP and triglycerides, and scale for the
+ *     number of baseline samples (comparing against a mean of n results is
+ *     tighter than against a single result).
+ *
+ * All values are in the analyte's canonical unit (see shared/lab-units.ts),
+ * and keys are canonicalKey() output.
+ */
+
+export interface BiologicalVariation {
+    cvi: number;    // within-subject biological CV, %
+    cva: number;    // analytical CV, %
+}
+
+/**
+ * Within-subject and analytical variation per marker. CVi figures follow
+ * the EFLM Biological Variation Database; CVa are typical routine-lab
+ * imprecision. Markers missing here get no baseline.
+ */
+export const BIOLOGICAL_VARIATION: Record<string, BiologicalVariation> = {
+    // Glycemic
+    'glucose':                  { cvi: 5.0, cva: 2.0 },
+    'fasting glucose':          { cvi: 5.0, cva: 2.0 },
+    'hba1c':                    { cvi: 1.6, cva: 1.5 },
+    'insulin':                  { cvi: 21.1, cva: 5.0 },
+
+    // Lipids
+    'total cholesterol':        { cvi: 5.3, cva: 2.0 },
+    'ldl cholesterol':          { cvi: 7.8, cva: 2.5 },
+    'hdl cholesterol':          { cvi: 5.7, cva: 2.0 },
+    'non hdl cholesterol':      { cvi: 6.5, cva: 2.5 },
+    'triglycerides':            { cvi: 19.9, cva: 2.5 },
+    'apob':                     { cvi: 6.9, cva: 2.5 },
+    'lp a':                     { cvi: 8.5, cva: 4.0 },
+
+    // Kidney / electrolytes
+    'creatinine':               { cvi: 4.5, cva: 2.5 },
+    'egfr':                     { cvi: 4.5, cva: 2.5 },
+    'cystatin c':               { cvi: 4.5, cva: 2.5 },
+    'bun':                      { cvi: 14.0, cva: 3.0 },
+    'uric acid':                { cvi: 8.4, cva: 2.0 },
+    'calcium':                  { cvi: 1.8, cva: 1.5 },
+    'sodium':                   { cvi: 0.5, cva: 1.0 },
+    'potassium':                { cvi: 4.1, cva: 1.5 },
+    'magnesium':                { cvi: 2.8, cva: 2.0 },
+
+    // Liver / protein
+    'alt':                      { cvi: 11.1, cva: 3.0 },
+    'ast':                      { cvi: 9.5, cva: 3.0 },
+    'alp':                      { cvi: 5.3, cva: 3.0 },
+    'ggt':                      { cvi: 8.9, cva: 3.0 },
+    'bilirubin total':          { cvi: 21.8, cva: 4.0 },
+    'albumin':                  { cvi: 2.5, cva: 2.0 },
+    'total protein':            { cvi: 2.6, cva: 1.5 },
+
+    // Complete blood count
+    'white blood cell count':   { cvi: 11.1, cva: 2.5 },
+    'red blood cell count':     { cvi: 3.2, cva: 1.5 },
+    'hemoglobin':               { cvi: 2.7, cva: 1.5 },
+    'hematocrit':               { cvi: 2.8, cva: 1.5 },
+    'platelets':                { cvi: 7.3, cva: 2.5 },
+    'mcv':                      { cvi: 0.8, cva: 1.0 },
+    'rdw':                      { cvi: 3.5, cva: 1.5 },
+
+    // Iron
+    'ferritin':                 { cvi: 10.4, cva: 3.0 },
+    'iron':                     { cvi: 26.5, cva: 3.0 },
+    'transferrin saturation':   { cvi: 28.0, cva: 3.0 },
+
+    // Vitamins
+    'vitamin d':                { cvi: 8.0, cva: 5.0 },
+    'vitamin b12':              { cvi: 6.0, cva: 4.0 },
+    'folate':                   { cvi: 12.0, cva: 5.0 },
+
+    // Thyroid
+    'tsh':                      { cvi: 17.7, cva: 3.0 },
+    'free t4':                  { cvi: 5.0, cva: 3.0 },
+    'free t3':                  { cvi: 5.0, cva: 3.0 },
+
+    // Hormones
+    'testosterone':             { cvi: 9.3, cva: 4.0 },
+    'dhea s':                   { cvi: 4.2, cva: 4.0 },
+    'shbg':                     { cvi: 7.0, cva: 4.0 },
+    'cortisol':                 { cvi: 20.9, cva: 5.0 },
+    'psa':                      { cvi: 7.2, cva: 3.0 },
+
+    // Inflammation
+    'crp':                      { cvi: 42.2, cva: 5.0 },
+    'hs crp':                   { cvi: 42.2, cva: 5.0 },
+    'homocysteine':             { cvi: 9.0, cva: 4.0 },
+};
+
+/** Two-sided 95% z-score */
+const Z_95 = 1.96;
+
+/** Baseline samples older than this, relative to the latest, are ignored */
+export const BASELINE_WINDOW_DAYS = 730;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface ReferenceChangeValue {
+    increase: number;   // % rise needed to be significant
+    decrease: number;   // % fall needed to be significant (positive number)
+}
+
+/**
+ * Log-normal reference change value for comparing one new result against
+ * the mean of `baselineSamples` earlier results. With a single baseline
+ * sample this is the classic two-result RCV (z·√2·σ).
+ */
+export function referenceChangeValue(key: string, baselineSamples = 1): ReferenceChangeValue | null {
+    const bv = BIOLOGICAL_VARIATION[key];
+    if (!bv || baselineSamples < 1) return null;
+    const cv = Math.sqrt(bv.cva ** 2 + bv.cvi ** 2) / 100;
+    const sigma = Math.sqrt(Math.log(cv ** 2 + 1));
+    const spread = Z_95 * Math.sqrt(1 + 1 / baselineSamples) * sigma;
+    return {
+        increase: round1((Math.exp(spread) - 1) * 100),
+        decrease: round1((1 - Math.exp(-spread)) * 100),
+    };
+}
+
+export interface MarkerBaseline {
+    mean: number;               // personal baseline, canonical unit
+    sd: number | null;          // spread of the baseline samples (needs ≥2)
+    sampleCount: number;
+    since: string;              // date of the oldest sample used
+    changePercent: number;      // latest vs baseline mean
+    rcv: ReferenceChangeValue;
+    significant: boolean;       // change exceeds the RCV
+    direction: 'up' | 'down' | 'none';
+}
+
+/**
+ * Compare the last point of a chronological series against the user's
+ * earlier results. Returns null when there's no earlier usable result or
+ * no biological-variation data for the marker.
+ */
+export function computeMarkerBaseline(
+    key: string,
+    points: Array<{ date: string; value: number | null }>,
+    windowDays = BASELINE_WINDOW_DAYS,
+): MarkerBaseline | null {
+    if (!BIOLOGICAL_VARIATION[key] || points.length < 2) return null;
+    const latest = points[points.length - 1];
+    if (latest.value == null || !Number.isFinite(latest.value)) return null;
+
+    const latestTime = new Date(latest.date).getTime();
+    const prior = points.slice(0, -1).filter(p => {
+        if (p.value == null || !Number.isFinite(p.value)) return false;
+        const t = new Date(p.date).getTime();
+        // Same-day repeats aren't an independent baseline
+        return Number.isFinite(t) && t < latestTime && latestTime - t <= windowDays * MS_PER_DAY;
+    }) as Array<{ date: string; value: number }>;
+    if (prior.length === 0) return null;
+
+    const mean = prior.reduce((sum, p) => sum + p.value, 0) / prior.length;
+    if (mean <= 0) return null;
+    const sd = prior.length >= 2
+        ? Math.sqrt(prior.reduce((sum, p) => sum + (p.value - mean) ** 2, 0) / (prior.length - 1))
+        : null;
+
+    const rcv = referenceChangeValue(key, prior.length)!;
+    const changePercent = ((latest.value - mean) / mean) * 100;
+    const significant = changePercent >= rcv.increase || -changePercent >= rcv.decrease;
+
+    return {
+        mean: round3(mean),
+        sd: sd == null ? null : round3(sd),
+        sampleCount: prior.length,
+        since: prior[0].date,
+        changePercent: round1(changePercent),
+        rcv,
+        significant,
+        direction: !significant ? 'none' : changePercent > 0 ? 'up' : 'down',
+    };
+}
+
+// ── Age-banded optimal ranges ──────────────────────────────────────────
+
+type Sex = 'male' | 'female';
+
+interface OptimalBand {
+    minAge: number;
+    maxAge?: number;        // inclusive
+    sex?: Sex;
+    low: number | null;
+    high: number | null;
+}
+
+export interface OptimalRange {
+    low: number | null;
+    high: number | null;
+    band: string;           // e.g. "40–59, female" or "all adults"
+}
+
+const ADULT = 18;
+
+/**
+ * Optimal (not reference) ranges in the canonical unit. Bands are checked
+ * in order; the first match for the user's age and sex wins. A band without
+ * a sex must genuinely suit both sexes — where targets differ, every band
+ * names its sex, so an unknown sex gets no optimal range. Where age
+ * genuinely shifts what's healthy (TSH drifts up, testosterone and DHEA-S
+ * decline, eGFR falls, PSA thresholds rise) the bands say so; for the rest
+ * a single adult band keeps the previous fixed targets.
+ */
+const OPTIMAL_RANGES: Record<string, OptimalBand[]> = {
+    'fasting glucose': [
+        { minAge: ADULT, maxAge: 59, low: 72, high: 90 },
+        { minAge: 60, low: 72, high: 99 },
+    ],
+    'glucose': [
+        { minAge: ADULT, maxAge: 59, low: 72, high: 90 },
+        { minAge: 60, low: 72, high: 99 },
+    ],
+    'hba1c': [
+        { minAge: ADULT, maxAge: 39, low: 4.5, high: 5.2 },
+        { minAge: 40, maxAge: 64, low: 4.5, high: 5.4 },
+        { minAge: 65, low: 4.5, high: 5.6 },
+    ],
+    'ldl cholesterol': [{ minAge: ADULT, low: null, high: 100 }],
+    'hdl cholesterol': [
+        { minAge: ADULT, sex: 'male', low: 50, high: 90 },
+        { minAge: ADULT, sex: 'female', low: 55, high: 90 },
+    ],
+    'triglycerides': [{ minAge: ADULT, low: null, high: 100 }],
+    'apob': [{ minAge: ADULT, low: null, high: 80 }],
+    'egfr': [
+        { minAge: ADULT, maxAge: 39, low: 90, high: null },
+        { minAge: 40, maxAge: 59, low: 80, high: null },
+        { minAge: 60, maxAge: 69, low: 70, high: null },
+        { minAge: 70, low: 60, high: null },
+    ],
+    'tsh': [
+        { minAge: ADULT, maxAge: 49, low: 1.0, high: 2.5 },
+        { minAge: 50, maxAge: 69, low: 1.0, high: 3.5 },
+        { minAge: 70, low: 1.0, high: 4.5 },
+    ],
+    'vitamin d': [{ minAge: ADULT, low: 40, high: 60 }],
+    'crp': [{ minAge: ADULT, low: null, high: 1.0 }],
+    'hs crp': [{ minAge: ADULT, low: null, high: 1.0 }],
+    'homocysteine': [
+        { minAge: ADULT, maxAge: 59, low: 5, high: 8 },
+        { minAge: 60, low: 5, high: 10 },
+    ],
+    'hemoglobin': [
+        { minAge: ADULT, sex: 'male', low: 14.5, high: 16.0 },
+        { minAge: ADULT, sex: 'female', low: 13.0, high: 15.0 },
+    ],
+    'ferritin': [
+        { minAge: ADULT, sex: 'male', low: 50, high: 200 },
+        { minAge: ADULT, maxAge: 49, sex: 'female', low: 40, high: 150 },
+        { minAge: 50, sex: 'female', low: 50, high: 200 },
+    ],
+    'testosterone': [
+        { minAge: ADULT, maxAge: 39, sex: 'male', low: 550, high: 900 },
+        { minAge: 40, maxAge: 59, sex: 'male', low: 500, high: 850 },
+        { minAge: 60, sex: 'male', low: 400, high: 800 },
+        { minAge: ADULT, sex: 'female', low: 15, high: 70 },
+    ],
+    'dhea s': [
+        { minAge: ADULT, maxAge: 39, sex: 'male', low: 250, high: 450 },
+        { minAge: 40, maxAge: 59, sex: 'male', low: 200, high: 400 },
+        { minAge: 60, sex: 'male', low: 120, high: 300 },
+        { minAge: ADULT, maxAge: 39, sex: 'female', low: 180, high: 380 },
+        { minAge: 40, maxAge: 59, sex: 'female', low: 130, high: 300 },
+        { minAge: 60, sex: 'female', low: 80, high: 220 },
+    ],
+    'psa': [
+        { minAge: 40, maxAge: 49, sex: 'male', low: null, high: 2.5 },
+        { minAge: 50, maxAge: 59, sex: 'male', low: null, high: 3.5 },
+        { minAge: 60, maxAge: 69, sex: 'male', low: null, high: 4.5 },
+        { minAge: 70, sex: 'male', low: null, high: 6.5 },
+    ],
+    'alt': [{ minAge: ADULT, low: null, high: 25 }],
+    'ggt': [{ minAge: ADULT, low: null, high: 25 }],
+};
+
+function bandLabel(band: OptimalBand): string {
+    const ages = band.minAge === ADULT && band.maxAge == null
+        ? 'all adults'
+        : band.maxAge == null ? `${band.minAge}+` : `${band.minAge}–${band.maxAge}`;
+    return band.sex ? `${ages}, ${band.sex}` : ages;
+}
+
+/**
+ * Optimal range for a marker given the user's age and sex. Without a known
+ * age we fall back to the youngest adult band; sex-specific bands are
+ * skipped unless the sex matches, so a marker with only sex-specific bands
+ * has no optimal range when the sex is unknown.
+ */
+export function getOptimalRange(key: string, age?: number | null, sex?: string | null): OptimalRange | null {
+    const bands = OPTIMAL_RANGES[key];
+    if (!bands) return null;
+    const s = sex === 'male' || sex === 'female' ? sex : null;
+    const effectiveAge = age != null && age >= ADULT ? age : null;
+
+    const match = bands.find(b =>
+        (!b.sex || b.sex === s) &&
+        (effectiveAge == null
+            ? b.minAge === ADULT
+            : effectiveAge >= b.minAge && (b.maxAge == null || effectiveAge <= b.maxAge)),
+    );
+    if (!match) return null;
+    return { low: match.low, high: match.high, band: bandLabel(match) };
+}
+
+/** Whether a value sits inside an optimal range (open-ended sides always pass) */
+export function isWithinOptimal(value: number, range: OptimalRange): boolean {
+    return (range.low == null || value >= range.low) && (range.high == null || value <= range.high);
+}
+
+function round1(n: number): number {
+    return Math.round(n * 10) / 10;
+}
+
+function round3(n: number): number {
+    return Math.round(n * 1000) / 1000;
+}
@@ -0,0 +1,299 @@
+/**
+ * Lab retest planner
+ *
+ * Proposes when each marker is worth re-testing, based on how long the
+ * marker takes to reflect a change (its turnover) — ferritin needs 8–12
+ * weeks, HbA1c tracks ~90 days of red-cell glycation, lipids settle in
+ * about six weeks. Two things put a marker on the plan:
+ *
+ *   - Its latest result is out of range: retest one turnover after that test.
+ *   - The user's formula changed an ingredient that targets it: retest one
+ *     turnover after the change took effect (the first shipment of that
+ *     formula version), unless a test since then has already captured it.
+ *
+ * Individual due dates are then consolidated into panels so the user gets
+ * one blood draw instead of one per marker.
+ *
+ * Pure functions only — loading data and sending reminders live in
+ * retest-reminder.service.ts.
+ */
+
+/** Days until a change in intake or physiology is reliably visible in the marker */
+export const MARKER_TURNOVER_DAYS: Record<string, number> = {
+    // Glycemic
+    'hba1c': 90,
+    'glucose': 28,
+    'fasting glucose': 28,
+    'insulin': 28,
+
+    // Lipids
+    'total cholesterol': 42,
+    'ldl cholesterol': 42,
+    'hdl cholesterol': 42,
+    'non hdl cholesterol': 42,
+    'triglycerides': 42,
+    'apob': 42,
+    'lp a': 365,
+
+    // Iron / blood
+    'ferritin': 84,
+    'iron': 56,
+    'tibc': 56,
+    'transferrin saturation': 56,
+    'hemoglobin': 56,
+    'hematocrit': 56,
+    'red blood cell count': 56,
+    'mcv': 90,
+    'rdw': 90,
+    'white blood cell count': 28,
+    'platelets': 28,
+
+    // Vitamins / minerals
+    'vitamin d': 84,
+    'vitamin b12': 56,
+    'folate': 56,
+    'homocysteine': 56,
+    'magnesium': 28,
+    'zinc': 42,
+    'calcium': 28,
+
+    // Thyroid / hormones
+    'tsh': 42,
+    'free t4': 42,
+    'free t3': 42,
+    'testosterone': 42,
+    'free testosterone': 42,
+    'estradiol': 42,
+    'dhea s': 56,
+    'shbg': 56,
+    'cortisol': 28,
+    'psa': 90,
+
+    // Inflammation / liver / kidney
+    'crp': 28,
+    'hs crp': 28,
+    'alt': 42,
+    'ast': 42,
+    'ggt': 42,
+    'alp': 42,
+    'bilirubin total': 28,
+    'albumin': 42,
+    'creatinine': 42,
+    'egfr': 42,
+    'cystatin c': 42,
+    'bun': 42,
+    'uric acid': 28,
+};
+
+export const DEFAULT_TURNOVER_DAYS = 90;
+
+/** Critical results are worth confirming quickly whatever the turnover */
+export const CRITICAL_RETEST_DAYS = 14;
+
+/** Markers due within this many days of each other share one blood draw */
+export const PANEL_WINDOW_DAYS = 30;
+
+/**
+ * Formula ingredients → markers they're expected to move. Matched against
+ * the lower-cased ingredient name; keys are canonicalKey() output.
+ */
+const INGREDIENT_MARKER_TARGETS: Array<{ match: RegExp; markers: string[] }> = [
+    { match: /\biron\b|ferrous|ferric/, markers: ['ferritin', 'iron', 'transferrin saturation', 'hemoglobin'] },
+    { match: /vitamin d|cholecalciferol|\bd3\b/, markers: ['vitamin d', 'calcium'] },
+    { match: /\bb12\b|cobalamin/, markers: ['vitamin b12', 'homocysteine'] },
+    { match: /folate|folic|methylfolate|mthf/, markers: ['folate', 'homocysteine'] },
+    { match: /\bb6\b|pyridox|\bp5p\b/, markers: ['homocysteine'] },
+    { match: /omega|fish oil|\bepa\b|\bdha\b|krill/, markers: ['triglycerides', 'hdl cholesterol'] },
+    { match: /berberine/, markers: ['fasting glucose', 'hba1c', 'ldl cholesterol', 'triglycerides'] },
+    { match: /chromium|inositol|cinnamon/, markers: ['fasting glucose', 'hba1c', 'insulin'] },
+    { match: /red yeast rice|sterol|psyllium|bergamot/, markers: ['ldl cholesterol', 'total cholesterol', 'apob'] },
+    { match: /niacin|nicotinic/, markers: ['ldl cholesterol', 'hdl cholesterol', 'triglycerides', 'alt'] },
+    { match: /magnesium/, markers: ['magnesium'] },
+    { match: /\bzinc\b/, markers: ['zinc'] },
+    { match: /calcium/, markers: ['calcium'] },
+    { match: /iodine|kelp|selenium|tyrosine/, markers: ['tsh', 'free t4', 'free t3'] },
+    { match: /ashwagandha/, markers: ['cortisol', 'tsh', 'free t4'] },
+    { match: /curcumin|turmeric/, markers: ['crp', 'hs crp'] },
+    { match: /milk thistle|silymarin|\bnac\b|acetyl.?cysteine/, markers: ['alt', 'ggt'] },
+    { match: /dhea/, markers: ['dhea s', 'testosterone', 'estradiol'] },
+    { match: /tongkat|fenugreek|boron/, markers: ['testosterone', 'free testosterone', 'shbg'] },
+    { match: /saw palmetto/, markers: ['psa'] },
+];
+
+/** Canonical marker keys an ingredient is expected to influence */
+export function markersTargetedBy(ingredient: string): string[] {
+    const lower = (ingredient || '').toLowerCase();
+    const keys = new Set<string>();
+    for (const rule of INGREDIENT_MARKER_TARGETS) {
+        if (rule.match.test(lower)) rule.markers.forEach(k => keys.add(k));
+    }
+    return [...keys];
+}
+
+export function turnoverDaysFor(key: string): number {
+    return MARKER_TURNOVER_DAYS[key] ?? DEFAULT_TURNOVER_DAYS;
+}
+
+// ── Planning ───────────────────────────────────────────────────────────
+
+export type RetestReason = 'out_of_range' | 'critical' | 'formula_change';
+
+export interface PlannerMarker {
+    key: string;
+    name: string;
+    status: 'normal' | 'high' | 'low' | 'critical';
+    lastTestedAt: string;   // ISO date of the latest result
+}
+
+export interface PlannerFormulaChange {
+    formulaVersion: number;
+    effectiveAt: string;    // when the user started taking it
+    ingredients: string[];  // ingredients added, removed or re-dosed in this version
+}
+
+export interface RetestItem {
+    key: string;
+    name: string;
+    reasons: RetestReason[];
+    status: PlannerMarker['status'] | null;   // null when never tested
+    lastTestedAt: string | null;
+    anchorDate: string;
+    turnoverDays: number;
+    dueDate: string;
+    relatedIngredients: string[];
+    formulaVersion: number | null;
+    detail: string;
+}
+
+export interface RetestPanel {
+    dueDate: string;
+    overdue: boolean;
+    markers: RetestItem[];
+}
+
+export interface RetestPlan {
+    generatedAt: string;
+    items: RetestItem[];
+    panels: RetestPanel[];
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function toDateOnly(value: string | Date): string {
+    return new Date(value).toISOString().split('T')[0];
+}
+
+function addDays(iso: string, days: number): string {
+    return toDateOnly(new Date(new Date(iso).getTime() + days * MS_PER_DAY));
+}
+
+function formatWeeks(days: number): string {
+    return days % 7 === 0 ? `${days / 7} weeks` : `${days} days`;
+}
+
+export function planRetests(input: {
+    markers: PlannerMarker[];
+    formulaChanges: PlannerFormulaChange[];
+    displayName?: (key: string) => string;
+    today?: Date;
+}): RetestPlan {
+    const today = toDateOnly(input.today ?? new Date());
+    const markersByKey = new Map(input.markers.map(m => [m.key, m]));
+
+    // Latest effective formula change per targeted marker
+    const changeByKey = new Map<string, { change: PlannerFormulaChange; ingredients: string[] }>();
+    const chronological = [...input.formulaChanges].sort((a, b) => a.effectiveAt.localeCompare(b.effectiveAt));
+    for (const change of chronological) {
+        const touched = new Map<string, string[]>();
+        for (const ingredient of change.ingredients) {
+            for (const key of markersTargetedBy(ingredient)) {
+                touched.set(key, [...(touched.get(key) ?? []), ingredient]);
+            }
+        }
+        for (const [key, ingredients] of touched) changeByKey.set(key, { change, ingredients });
+    }
+
+    const candidateKeys = new Set<string>([
+        ...input.markers.filter(m => m.status !== 'normal').map(m => m.key),
+        ...changeByKey.keys(),
+    ]);
+
+    const items: RetestItem[] = [];
+    for (const key of candidateKeys) {
+        const marker = markersByKey.get(key);
+        const targeted = changeByKey.get(key);
+        const turnover = turnoverDaysFor(key);
+        const name = marker?.name ?? input.displayName?.(key) ?? key;
+        const abnormal = marker != null && marker.status !== 'normal';
+        const reasons: RetestReason[] = [];
+        if (abnormal) reasons.push(marker!.status === 'critical' ? 'critical' : 'out_of_range');
+
+        // A formula change counts until a test taken a full turnover after it has captured the effect
+        const changeEffectPending = targeted != null && (
+            marker == null ||
+            toDateOnly(marker.lastTestedAt) < addDays(targeted.change.effectiveAt, turnover)
+        );
+
+        let anchorDate: string;
+        let dueDate: string;
+        let detail: string;
+        if (changeEffectPending) {
+            reasons.push('formula_change');
+            anchorDate = toDateOnly(targeted!.change.effectiveAt);
+            dueDate = addDays(anchorDate, turnover);
+            detail = `${name} takes about ${formatWeeks(turnover)} to reflect the change to ${targeted!.ingredients.join(', ')} ` +
+                `in formula v${targeted!.change.formulaVersion} (started ${anchorDate}).`;
+        } else if (abnormal) {
+            anchorDate = toDateOnly(marker!.lastTestedAt);
+            const wait = marker!.status === 'critical' ? Math.min(turnover, CRITICAL_RETEST_DAYS) : turnover;
+            dueDate = addDays(anchorDate, wait);
+            detail = marker!.status === 'critical'
+                ? `${name} was critical on ${anchorDate} — confirm with a repeat test and your provider promptly.`
+                : `${name} was ${marker!.status} on ${anchorDate}; ${formatWeeks(turnover)} is enough time to see whether it has moved.`;
+        } else {
+            continue;
+        }
+
+        items.push({
+            key,
+            name,
+            reasons,
+            status: marker?.status ?? null,
+            lastTestedAt: marker ? toDateOnly(marker.lastTestedAt) : null,
+            anchorDate,
+            turnoverDays: turnover,
+            dueDate,
+            relatedIngredients: changeEffectPending ? targeted!.ingredients : [],
+            formulaVersion: changeEffectPending ? targeted!.change.formulaVersion : null,
+            detail,
+        });
+    }
+
+    items.sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.name.localeCompare(b.name));
+    return { generatedAt: new Date().toISOString(), items, panels: consolidatePanels(items, today) };
+}
+
+/**
+ * Group items into blood draws: a panel opens at the earliest outstanding
+ * due date (or today, if that's already past), takes every item due within
+ * PANEL_WINDOW_DAYS of it, and is scheduled for the last of those due
+ * dates so every marker in it has had its full turnover. A critical result
+ * never waits for the rest of the window.
+ */
+export function consolidatePanels(items: RetestItem[], today: string): RetestPanel[] {
+    const sorted = [...items].sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+    const panels: RetestPanel[] = [];
+    let i = 0;
+    while (i < sorted.length) {
+        const start = sorted[i].dueDate < today ? today : sorted[i].dueDate;
+        let windowEnd = addDays(start, PANEL_WINDOW_DAYS);
+        const critical = sorted.slice(i).find(it => it.dueDate <= windowEnd && it.reasons.includes('critical'));
+        if (critical) windowEnd = critical.dueDate < start ? start : critical.dueDate;
+        const group: RetestItem[] = [];
+        while (i < sorted.length && sorted[i].dueDate <= windowEnd) group.push(sorted[i++]);
+        const latestDue = group[group.length - 1].dueDate;
+        const dueDate = latestDue < today ? today : latestDue;
+        panels.push({ dueDate, overdue: group.some(it => it.dueDate < today), markers: group });
+    }
+    return panels;
+}
@@ -0,0 +1,178 @@
+/**
+ * Lab Retest Reminder Service
+ *
+ * Feeds the retest planner with the user's latest lab results and the
+ * formula changes they've actually started taking, and sends reminders
+ * when the next consolidated panel comes due. Reminders go through the
+ * notification gate (topic 'lab_retest') so they share the per-user daily
+ * cap with every other scheduler, and respect the user's consultation
+ * email/SMS preferences.
+ */
+
+import type { Formula, Order } from '@shared/schema';
+import { labsService } from './labs.service';
+import { canonicalName } from './biomarker-aliases';
+import { planRetests, type PlannerFormulaChange, type RetestPanel, type RetestPlan } from './retest-planner';
+import { filesRepository } from '../files/files.repository';
+import { formulasRepository } from '../formulas/formulas.repository';
+import { buildFormulaTimeline, type TimelineIngredient } from '../formulas/formula-timeline';
+import { usersRepository } from '../users/users.repository';
+import { notificationGate } from '../notifications/notification-gate.service';
+import { notificationsService } from '../notifications/notifications.service';
+import { sendNotificationEmail } from '../../utils/emailService';
+import { sendNotificationSms } from '../../utils/smsService';
+import { getFrontendUrl } from '../../utils/urlHelper';
+import logger from '../../infra/logging/logger';
+
+/** Start reminding this many days before a panel is due */
+export const REMINDER_LEAD_DAYS = 7;
+
+/** Stop nagging about a panel this long after it came due */
+export const MAX_OVERDUE_REMINDER_DAYS = 60;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const SOURCE = 'lab_retest_planner';
+
+/**
+ * The sequence of formula versions the user has actually taken, diffed
+ * against each other.
+ */
+export function buildFormulaChanges(formulas: Formula[], orders: Order[]): PlannerFormulaChange[] {
+    const changes: PlannerFormulaChange[] = [];
+    let previous = new Map<string, TimelineIngredient>();
+    for (const period of buildFormulaTimeline(formulas, orders)) {
+        const current = period.ingredients;
+        const changed = new Set<string>();
+        for (const [name, { dose }] of current) {
+            if (previous.get(name)?.dose !== dose) changed.add(name);
+        }
+        for (const name of previous.keys()) {
+            if (!current.has(name)) changed.add(name);
+        }
+        if (changed.size > 0) {
+            changes.push({ formulaVersion: period.version, effectiveAt: period.startedAt.toISOString(), ingredients: [...changed] });
+        }
+        previous = current;
+    }
+    return changes;
+}
+
+export class RetestReminderService {
+    async getPlan(userId: string, today = new Date()): Promise<RetestPlan> {
+        const [markers, formulas, orders] = await Promise.all([
+            labsService.getLatestMarkerStatuses(userId),
+            formulasRepository.getFormulaHistory(userId, true),
+            usersRepository.listOrdersByUser(userId),
+        ]);
+
+        return planRetests({
+            markers: markers.map(m => ({ key: m.key, name: m.name, status: m.status, lastTestedAt: m.date })),
+            formulaChanges: buildFormulaChanges(formulas, orders),
+            displayName: key => canonicalName(key),
+            today,
+        });
+    }
+
+    /**
+     * Daily run: remind every user whose next panel is due within the lead
+     * window (or recently overdue). The gate's cooldown keeps this to one
+     * reminder per channel per fortnight.
+     */
+    async runReminderCycle(today = new Date()): Promise<{ usersChecked: number; remindersSent: number; failed: number }> {
+        const userIds = await filesRepository.listUserIdsWithLabReports();
+        let remindersSent = 0;
+        let failed = 0;
+
+        for (const userId of userIds) {
+            try {
+                const plan = await this.getPlan(userId, today);
+                const panel = plan.panels[0];
+                if (!panel) continue;
+
+                const daysUntilDue = Math.round((new Date(panel.dueDate).getTime() - today.getTime()) / MS_PER_DAY);
+                if (daysUntilDue > REMINDER_LEAD_DAYS) continue;
+                const oldestDue = panel.markers[0].dueDate;
+                if ((today.getTime() - new Date(oldestDue).getTime()) / MS_PER_DAY > MAX_OVERDUE_REMINDER_DAYS) continue;
+
+                if (await this.sendReminder(userId, panel)) remindersSent++;
+            } catch (err) {
+                failed++;
+                logger.error('[RetestReminder] Failed to process user', { userId, error: err instanceof Error ? err.message : err });
+            }
+        }
+
+        logger.info('[RetestReminder] Cycle complete', { usersChecked: userIds.length, remindersSent, failed });
+        return { usersChecked: userIds.length, remindersSent, failed };
+    }
+
+    /** Returns true if at least one channel went out */
+    private async sendReminder(userId: string, panel: RetestPanel): Promise<boolean> {
+        const user = await usersRepository.getUser(userId);
+        if (!user) return false;
+
+        const firstName = user.name?.split(' ')[0] || 'there';
+        const names = panel.markers.map(m => m.name);
+        const shortList = names.slice(0, 4).join(', ') + (names.length > 4 ? ` and ${names.length - 4} more` : '');
+        const when = panel.overdue ? 'now due' : `due ${new Date(panel.dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+        const actionUrl = `${getFrontendUrl()}/dashboard/lab-reports`;
+        const gateMeta = { dueDate: panel.dueDate, markers: panel.markers.map(m => m.key) };
+        let sent = false;
+
+        if (user.email && await notificationsService.shouldSendEmail(userId, 'consultation')) {
+            if (await notificationGate.canSend(userId, 'lab_retest', 'email')) {
+                const ok = await sendNotificationEmail({
+                    to: user.email,
+                    subject: 'Time to retest your labs',
+                    title: 'Your Retest Panel',
+                    type: 'consultation_reminder',
+                    content: `
+                        <p>Hi ${firstName},</p>
+                        <p>Your next lab panel is ${when}. Enough time will have passed for these markers to show how you're responding:</p>
+                        <ul>${panel.markers.map(m => `<li><strong>${m.name}</strong> — ${m.detail}</li>`).join('')}</ul>
+                        <p>Ordering them together means a single blood draw. Upload the results when they're back and your AI practitioner will compare them with your previous tests.</p>
+                    `,
+                    actionUrl,
+                    actionText: 'View Retest Plan',
+                });
+                if (ok) {
+                    await notificationGate.record(userId, SOURCE, 'lab_retest', 'email', gateMeta);
+                    sent = true;
+                }
+            }
+        }
+
+        if (user.phone && await notificationsService.shouldSendSms(userId, 'consultation')) {
+            if (await notificationGate.canSend(userId, 'lab_retest', 'sms')) {
+                const ok = await sendNotificationSms({
+                    to: user.phone,
+                    type: 'consultation_reminder',
+                    message: `Hi ${firstName}, your lab retest panel is ${when}: ${shortList}. One draw covers them all. Details: ${actionUrl}`,
+                });
+                if (ok) {
+                    await notificationGate.record(userId, SOURCE, 'lab_retest', 'sms', gateMeta);
+                    sent = true;
+                }
+            }
+        }
+
+        if (await notificationGate.canSend(userId, 'lab_retest', 'in_app')) {
+            try {
+                await notificationsService.create({
+                    userId,
+                    type: 'consultation_reminder',
+                    title: 'Time to retest your labs',
+                    content: `Your retest panel is ${when}: ${shortList}.`,
+                    metadata: { actionUrl: '/dashboard/lab-reports', icon: 'beaker', priority: panel.overdue ? 'high' : 'medium' },
+                });
+                await notificationGate.record(userId, SOURCE, 'lab_retest', 'in_app', gateMeta);
+                sent = true;
+            } catch (err) {
+                logger.error('[RetestReminder] In-app notification failed', { userId, error: err });
+            }
+        }
+
+        return sent;
+    }
+}
+
+export const retestReminderService = new RetestReminderService();
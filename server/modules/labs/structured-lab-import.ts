@@ -0,0 +1,310 @@
+/**
+ * Structured Lab Import — FHIR R4 and HL7 v2 ORU^R01
+ *
+ * Patient portals can export results as FHIR bundles or HL7 v2 messages.
+ * Those already carry coded analytes, units, reference ranges and collection
+ * dates, so we parse them directly instead of sending them through the
+ * OCR + LLM extraction in utils/fileAnalysis.ts. The output has the same
+ * LabDataExtraction shape, so the rest of the upload pipeline (labReportData,
+ * lab_analyses mirror, insights, dashboard) doesn't need to know which path
+ * produced it.
+ */
+
+import type { LabDataExtraction } from '../../utils/fileAnalysis';
+import { canonicalNameForLoinc } from './biomarker-aliases';
+
+export type StructuredLabFormat = 'fhir_r4' | 'hl7v2_oru';
+
+export interface StructuredLabImport {
+    format: StructuredLabFormat;
+    extraction: LabDataExtraction;
+}
+
+type ExtractedMarker = NonNullable<LabDataExtraction['extractedData']>[number];
+
+const LOINC_SYSTEM = 'http://loinc.org';
+
+// ── Shared helpers ─────────────────────────────────────────────────────
+
+/**
+ * Interpretation / abnormal-flag codes (HL7 table 0078, shared by FHIR's
+ * v3-ObservationInterpretation) mapped onto the dashboard's statuses.
+ */
+function statusFromFlag(flag: string | undefined): ExtractedMarker['status'] | undefined {
+    switch ((flag || '').trim().toUpperCase()) {
+        case 'H': case 'HU': case '>': return 'high';
+        case 'L': case 'LU': case '<': return 'low';
+        case 'HH': case 'LL': case 'AA': case 'CRIT': return 'critical';
+        case 'N': return 'normal';
+        default: return undefined;
+    }
+}
+
+function statusFromRange(value: number | null, low?: number | null, high?: number | null): ExtractedMarker['status'] {
+    if (value == null) return 'normal';
+    if (low != null && value < low) return 'low';
+    if (high != null && value > high) return 'high';
+    return 'normal';
+}
+
+function parseNumber(value: string | number | undefined | null): number | null {
+    if (value == null || value === '') return null;
+    const n = typeof value === 'number' ? value : Number(String(value).replace(/,/g, '').trim());
+    return Number.isFinite(n) ? n : null;
+}
+
+/** Parse "3.9-5.6", "<200" or ">40" into numeric bounds for status derivation */
+function boundsFromRangeText(range: string): { low: number | null; high: number | null } {
+    const between = range.match(/(-?\d+(?:\.\d+)?)\s*[-–]\s*(-?\d+(?:\.\d+)?)/);
+    if (between) return { low: Number(between[1]), high: Number(between[2]) };
+    const upper = range.match(/^\s*<=?\s*(\d+(?:\.\d+)?)/);
+    if (upper) return { low: null, high: Number(upper[1]) };
+    const lower = range.match(/^\s*>=?\s*(\d+(?:\.\d+)?)/);
+    if (lower) return { low: Number(lower[1]), high: null };
+    return { low: null, high: null };
+}
+
+/** Marker name: the canonical name when the LOINC code is known, else the sender's label */
+function markerName(loincCode: string | undefined, label: string): string {
+    return canonicalNameForLoinc(loincCode) ?? label;
+}
+
+/** Normalise an ISO or HL7 TS (YYYYMMDD[HHMM[SS]]) timestamp to YYYY-MM-DD */
+function toIsoDate(value: string | undefined): string | undefined {
+    if (!value) return undefined;
+    const v = value.trim();
+    const hl7 = v.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (hl7) return `${hl7[1]}-${hl7[2]}-${hl7[3]}`;
+    const iso = v.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+    return undefined;
+}
+
+/** Most frequent collection date across results — a panel drawn in one visit shares a date */
+function dominantDate(dates: Array<string | undefined>): string | undefined {
+    const counts = new Map<string, number>();
+    for (const d of dates) if (d) counts.set(d, (counts.get(d) ?? 0) + 1);
+    let best: string | undefined;
+    let bestCount = 0;
+    for (const [d, c] of counts) {
+        if (c > bestCount || (c === bestCount && best && d > best)) {
+            best = d;
+            bestCount = c;
+        }
+    }
+    return best;
+}
+
+// ── FHIR R4 ────────────────────────────────────────────────────────────
+
+function fhirCoding(concept: any): { loinc?: string; label: string } {
+    const codings: any[] = Array.isArray(concept?.coding) ? concept.coding : [];
+    const loinc = codings.find(c => c?.system === LOINC_SYSTEM)?.code;
+    const label = concept?.text || codings.find(c => c?.display)?.display || loinc || '';
+    return { loinc, label };
+}
+
+function fhirReferenceRange(obs: any): { text: string; low: number | null; high: number | null } {
+    const rr = Array.isArray(obs?.referenceRange) ? obs.referenceRange[0] : undefined;
+    if (!rr) return { text: '', low: null, high: null };
+    const low = parseNumber(rr.low?.value);
+    const high = parseNumber(rr.high?.value);
+    if (rr.text) {
+        const parsed = boundsFromRangeText(rr.text);
+        return { text: rr.text, low: low ?? parsed.low, high: high ?? parsed.high };
+    }
+    const text = low != null && high != null ? `${low}-${high}`
+        : high != null ? `<${high}`
+        : low != null ? `>${low}`
+        : '';
+    return { text, low, high };
+}
+
+function fhirObservationToMarker(obs: any): { marker: ExtractedMarker; date?: string } | null {
+    if (obs?.status === 'cancelled' || obs?.status === 'entered-in-error') return null;
+    const { loinc, label } = fhirCoding(obs.code);
+    if (!label) return null;
+
+    let rawValue: string;
+    let numeric: number | null = null;
+    let unit = '';
+    if (obs.valueQuantity) {
+        numeric = parseNumber(obs.valueQuantity.value);
+        if (numeric == null) return null;
+        rawValue = `${obs.valueQuantity.comparator ?? ''}${numeric}`;
+        unit = obs.valueQuantity.unit || obs.valueQuantity.code || '';
+    } else if (typeof obs.valueString === 'string') {
+        rawValue = obs.valueString;
+        numeric = parseNumber(obs.valueString);
+    } else if (obs.valueCodeableConcept) {
+        rawValue = fhirCoding(obs.valueCodeableConcept).label;
+    } else {
+        return null;
+    }
+
+    const range = fhirReferenceRange(obs);
+    const interpretation = Array.isArray(obs.interpretation) ? obs.interpretation[0]?.coding?.[0]?.code : undefined;
+
+    return {
+        marker: {
+            testName: markerName(loinc, label),
+            value: rawValue,
+            unit,
+            referenceRange: range.text,
+            status: statusFromFlag(interpretation) ?? statusFromRange(numeric, range.low, range.high),
+            loincCode: loinc,
+        },
+        date: toIsoDate(obs.effectiveDateTime || obs.effectivePeriod?.start || obs.issued),
+    };
+}
+
+/**
+ * Parse a FHIR R4 Bundle, DiagnosticReport (with contained Observations) or
+ * a single Observation. Observations referenced by a DiagnosticReport and
+ * free-standing ones in the same bundle are both picked up, once each.
+ */
+export function parseFhirLabBundle(resource: any): LabDataExtraction {
+    const resources: any[] = resource?.resourceType === 'Bundle'
+        ? (resource.entry || []).map((e: any) => e?.resource).filter(Boolean)
+        : [resource];
+
+    const observations: any[] = [];
+    const reports: any[] = [];
+    for (const r of resources) {
+        if (r.resourceType === 'Observation') observations.push(r);
+        if (r.resourceType === 'DiagnosticReport') {
+            reports.push(r);
+            for (const c of r.contained || []) if (c?.resourceType === 'Observation') observations.push(c);
+        }
+    }
+
+    const markers: ExtractedMarker[] = [];
+    const dates: Array<string | undefined> = [];
+    for (const obs of observations) {
+        // Panel observations (hasMember groupings) carry no value and are skipped here
+        const parsed = fhirObservationToMarker(obs);
+        if (!parsed) continue;
+        markers.push(parsed.marker);
+        dates.push(parsed.date);
+    }
+
+    const report = reports[0];
+    const testDate = toIsoDate(report?.effectiveDateTime || report?.effectivePeriod?.start) ?? dominantDate(dates);
+
+    return {
+        testDate,
+        testDateSource: testDate ? (report?.effectiveDateTime ? 'FHIR DiagnosticReport.effectiveDateTime' : 'FHIR Observation.effective') : 'NOT FOUND',
+        testDateConfidence: testDate ? 'high' : 'none',
+        testType: report ? fhirCoding(report.code).label || 'Blood Test' : 'Blood Test',
+        labName: report?.performer?.[0]?.display,
+        extractedData: markers,
+    };
+}
+
+// ── HL7 v2 ORU^R01 ─────────────────────────────────────────────────────
+
+function splitHl7Segments(message: string): string[] {
+    return message.split(/\r\n|\r|\n/).map(s => s.trim()).filter(Boolean);
+}
+
+/**
+ * Parse an HL7 v2 ORU^R01 message. Uses OBX-3 (identifier, LOINC when the
+ * coding system is "LN"), OBX-5/6/7/8 (value, units, range, abnormal flag)
+ * and OBR-7 / OBX-14 for the collection date.
+ */
+export function parseHl7OruMessage(message: string): LabDataExtraction {
+    const segments = splitHl7Segments(message);
+    const msh = segments.find(s => s.startsWith('MSH'));
+    if (!msh) throw new Error('Invalid file: HL7 message has no MSH segment');
+
+    // MSH-1 is the field separator itself, MSH-2 the encoding characters
+    const enc = { field: msh[3], component: msh[4] || '^' };
+    const mshFields = msh.split(enc.field);
+    const messageType = mshFields[8] || '';
+    if (!messageType.startsWith('ORU')) {
+        throw new Error(`Invalid file: expected an ORU^R01 message, got ${messageType || 'unknown type'}`);
+    }
+
+    const markers: ExtractedMarker[] = [];
+    const dates: Array<string | undefined> = [];
+    let testDate: string | undefined;
+    let testType: string | undefined;
+    const labName = (mshFields[3] || '').split(enc.component)[0] || undefined;
+
+    for (const seg of segments) {
+        const f = seg.split(enc.field);
+        if (f[0] === 'OBR') {
+            testDate = testDate ?? toIsoDate(f[7]);
+            testType = testType ?? ((f[4] || '').split(enc.component)[1] || undefined);
+            continue;
+        }
+        if (f[0] !== 'OBX') continue;
+
+        const valueType = f[2];
+        const [code, text, codingSystem] = (f[3] || '').split(enc.component);
+        const loinc = codingSystem === 'LN' ? code : undefined;
+        const label = text || code;
+        if (!label) continue;
+
+        let rawValue = f[5] || '';
+        if (valueType === 'SN') {
+            // Structured numeric: comparator^num1^separator^num2
+            const [comparator, n1] = rawValue.split(enc.component);
+            rawValue = `${comparator || ''}${n1 || ''}`;
+        }
+        if (!rawValue) continue;
+
+        const unit = (f[6] || '').split(enc.component)[0] || '';
+        const referenceRange = f[7] || '';
+        const numeric = parseNumber(rawValue.replace(/^[<>]=?/, ''));
+        const bounds = boundsFromRangeText(referenceRange);
+
+        markers.push({
+            testName: markerName(loinc, label),
+            value: rawValue,
+            unit,
+            referenceRange,
+            status: statusFromFlag(f[8]) ?? statusFromRange(numeric, bounds.low, bounds.high),
+            loincCode: loinc,
+        });
+        dates.push(toIsoDate(f[14]));
+    }
+
+    const resolvedDate = testDate ?? dominantDate(dates);
+    return {
+        testDate: resolvedDate,
+        testDateSource: testDate ? 'HL7 OBR-7 observation date' : resolvedDate ? 'HL7 OBX-14 observation date' : 'NOT FOUND',
+        testDateConfidence: resolvedDate ? 'high' : 'none',
+        testType: testType || 'Blood Test',
+        labName,
+        extractedData: markers,
+    };
+}
+
+// ── Detection ──────────────────────────────────────────────────────────
+
+/**
+ * Detect and parse a structured lab export. Returns null when the content
+ * is neither a FHIR resource nor an HL7 v2 message, so callers can fall
+ * back to (or reject in favour of) the AI extraction path.
+ */
+export function parseStructuredLabFile(content: string): StructuredLabImport | null {
+    const trimmed = content.replace(/^\uFEFF/, '').trim();
+
+    if (trimmed.startsWith('MSH')) {
+        return { format: 'hl7v2_oru', extraction: parseHl7OruMessage(trimmed) };
+    }
+
+    if (trimmed.startsWith('{')) {
+        let json: any;
+        try {
+            json = JSON.parse(trimmed);
+        } catch {
+            return null;
+        }
+        if (!['Bundle', 'DiagnosticReport', 'Observation'].includes(json?.resourceType)) return null;
+        return { format: 'fhir_r4', extraction: parseFhirLabBundle(json) };
+    }
+
+    return null;
+}
@@ -0,0 +1,76 @@
+/**
+ * Supplement Outcome Service
+ *
+ * Loads a user's taken formula versions and lab history and hands them to
+ * the attribution logic in supplement-outcomes.ts. The admin view runs the
+ * same attribution for every user with labs and only returns the
+ * de-identified aggregate. That is a few queries per user, so the aggregate
+ * is cached and concurrent page loads share one rebuild.
+ */
+
+import { labsService } from './labs.service';
+import { attributeOutcomes, aggregateOutcomes, type OutcomeAggregate, type SupplementOutcomeReport } from './supplement-outcomes';
+import { filesRepository } from '../files/files.repository';
+import { formulasRepository } from '../formulas/formulas.repository';
+import { buildFormulaTimeline } from '../formulas/formula-timeline';
+import { usersRepository } from '../users/users.repository';
+import logger from '../../infra/logging/logger';
+
+type AggregateResult = OutcomeAggregate & { usersAnalyzed: number };
+
+export class SupplementOutcomeService {
+    private readonly AGGREGATE_TTL = 6 * 60 * 60 * 1000; // 6 hours — lab draws arrive weeks apart
+    private aggregateCache: { data: AggregateResult; expiresAt: number } | null = null;
+    private aggregateInFlight: Promise<AggregateResult> | null = null;
+
+    async getReport(userId: string, today = new Date()): Promise<SupplementOutcomeReport> {
+        const [markers, formulas, orders] = await Promise.all([
+            labsService.getMarkerSeries(userId),
+            formulasRepository.getFormulaHistory(userId, true),
+            usersRepository.listOrdersByUser(userId),
+        ]);
+
+        return attributeOutcomes({
+            timeline: buildFormulaTimeline(formulas, orders),
+            markers,
+            today,
+        });
+    }
+
+    /**
+     * Effectiveness across all users, by research ingredient and marker.
+     * Served from cache unless `refresh` is set; generatedAt says how old it is.
+     */
+    async getAggregate(opts: { refresh?: boolean; today?: Date } = {}): Promise<AggregateResult> {
+        if (!opts.refresh && this.aggregateCache && this.aggregateCache.expiresAt > Date.now()) {
+            return this.aggregateCache.data;
+        }
+        if (!this.aggregateInFlight) {
+            this.aggregateInFlight = this.buildAggregate(opts.today ?? new Date())
+                .then((data) => {
+                    this.aggregateCache = { data, expiresAt: Date.now() + this.AGGREGATE_TTL };
+                    return data;
+                })
+                .finally(() => {
+                    this.aggregateInFlight = null;
+                });
+        }
+        return this.aggregateInFlight;
+    }
+
+    private async buildAggregate(today: Date): Promise<AggregateResult> {
+        const userIds = await filesRepository.listUserIdsWithLabReports();
+        const reports: SupplementOutcomeReport[] = [];
+        for (const userId of userIds) {
+            try {
+                const report = await this.getReport(userId, today);
+                if (report.outcomes.length > 0) reports.push(report);
+            } catch (err) {
+                logger.error('[SupplementOutcomes] Failed to analyze user', { userId, error: err instanceof Error ? err.message : err });
+            }
+        }
+        return { ...aggregateOutcomes(reports), usersAnalyzed: reports.length };
+    }
+}
+
+export const supplementOutcomeService = new SupplementOutcomeService();
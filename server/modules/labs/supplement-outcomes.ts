@@ -0,0 +1,339 @@
+/**
+ * Supplement outcome attribution
+ *
+ * Answers "did my formula actually move my vitamin D?" by lining lab draws
+ * up against the formula versions the user was taking. For every ingredient
+ * the evidence map (shared/ingredient-research.ts) expects to move a marker:
+ *
+ *   - A "run" is a stretch of consecutive formula versions with the
+ *     ingredient at the same dose. A dose change starts a new run.
+ *   - Baseline: the latest draw on or before the run started (within
+ *     BASELINE_LOOKBACK_DAYS).
+ *   - Follow-up: the latest draw taken at least one marker turnover into
+ *     the run, and no later than FOLLOW_UP_GRACE_DAYS after it ended.
+ *   - The change is judged against the marker's reference change value, so
+ *     normal biological and analytical noise isn't reported as an effect.
+ *
+ * Other ingredients targeting the same marker that started or changed dose
+ * between the two draws are listed as confounders — the report says what
+ * moved, not that this ingredient alone moved it.
+ *
+ * Pure functions only — loading data lives in supplement-outcome.service.ts.
+ */
+
+import { getIngredientMarkerEffects, type MarkerEffect } from '@shared/ingredient-research';
+import type { FormulaPeriod } from '../formulas/formula-timeline';
+import { referenceChangeValue } from './marker-baselines';
+import { turnoverDaysFor } from './retest-planner';
+
+/** A baseline older than this before the run started says little about the starting point */
+export const BASELINE_LOOKBACK_DAYS = 365;
+
+/** A draw this soon after stopping an ingredient still reflects it */
+export const FOLLOW_UP_GRACE_DAYS = 14;
+
+/** Significance threshold (%) for markers without biological-variation data */
+export const FALLBACK_SIGNIFICANT_CHANGE_PERCENT = 20;
+
+/** Admin aggregates hide (ingredient, marker) pairs with fewer users than this */
+export const MIN_AGGREGATE_COHORT = 5;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export type OutcomeVerdict = 'moved_as_expected' | 'moved_opposite' | 'no_significant_change' | 'too_early';
+
+export interface OutcomeMarkerSeries {
+    key: string;
+    name: string;
+    points: Array<{ date: string; value: number }>;   // canonical unit, oldest first
+}
+
+export interface SupplementOutcome {
+    ingredient: string;             // as written in the formula
+    researchKey: string;            // evidence-map entry it resolved to
+    dose: string;
+    previousDose: string | null;    // set when this run is a dose change
+    formulaVersions: number[];
+    startedAt: string;
+    endedAt: string | null;
+    markerKey: string;
+    markerName: string;
+    expectedDirection: MarkerEffect['direction'];
+    evidenceLevel: MarkerEffect['evidenceLevel'];
+    baseline: { date: string; value: number };
+    followUp: { date: string; value: number } | null;
+    followUpDueDate: string;        // run start + marker turnover
+    changePercent: number | null;
+    thresholdPercent: number;       // change needed in the expected direction to count
+    verdict: OutcomeVerdict;
+    confounders: string[];
+    detail: string;
+}
+
+export interface SupplementOutcomeReport {
+    generatedAt: string;
+    outcomes: SupplementOutcome[];
+    summary: Record<OutcomeVerdict, number>;
+}
+
+interface IngredientRun {
+    key: string;
+    name: string;
+    dose: string;
+    previousDose: string | null;
+    versions: number[];
+    startedAt: Date;
+    endedAt: Date | null;
+}
+
+function toDateOnly(value: string | Date): string {
+    return new Date(value).toISOString().split('T')[0];
+}
+
+function addDays(value: string | Date, days: number): string {
+    return toDateOnly(new Date(new Date(value).getTime() + days * MS_PER_DAY));
+}
+
+function round1(n: number): number {
+    return Math.round(n * 10) / 10;
+}
+
+/** Split the timeline into constant-dose runs per ingredient */
+export function buildIngredientRuns(timeline: FormulaPeriod[]): IngredientRun[] {
+    const runs: IngredientRun[] = [];
+    const open = new Map<string, IngredientRun>();
+    for (const period of timeline) {
+        for (const [key, run] of open) {
+            const now = period.ingredients.get(key);
+            if (now && now.dose === run.dose) continue;
+            run.endedAt = period.startedAt;
+            open.delete(key);
+        }
+        for (const [key, ingredient] of period.ingredients) {
+            const current = open.get(key);
+            if (current) {
+                current.versions.push(period.version);
+                continue;
+            }
+            const previous = [...runs].reverse().find(r => r.key === key);
+            const run: IngredientRun = {
+                key,
+                name: ingredient.name,
+                dose: ingredient.dose,
+                previousDose: previous && previous.endedAt?.getTime() === period.startedAt.getTime() ? previous.dose : null,
+                versions: [period.version],
+                startedAt: period.startedAt,
+                endedAt: null,
+            };
+            runs.push(run);
+            open.set(key, run);
+        }
+    }
+    return runs;
+}
+
+export function attributeOutcomes(input: {
+    timeline: FormulaPeriod[];
+    markers: OutcomeMarkerSeries[];
+    today?: Date;
+}): SupplementOutcomeReport {
+    const today = toDateOnly(input.today ?? new Date());
+    const seriesByKey = new Map(input.markers.map(m => [m.key, m]));
+    const runs = buildIngredientRuns(input.timeline);
+    const evidence = new Map(runs.map(r => [r.key, getIngredientMarkerEffects(r.name)]));
+    const outcomes: SupplementOutcome[] = [];
+
+    for (const run of runs) {
+        const resolved = evidence.get(run.key);
+        if (!resolved) continue;
+        const start = toDateOnly(run.startedAt);
+        const end = run.endedAt ? toDateOnly(run.endedAt) : null;
+
+        for (const effect of resolved.effects) {
+            const series = seriesByKey.get(effect.marker);
+            if (!series) continue;
+
+            const earliestBaseline = addDays(start, -BASELINE_LOOKBACK_DAYS);
+            const baseline = [...series.points].reverse()
+                .find(p => p.value > 0 && toDateOnly(p.date) <= start && toDateOnly(p.date) >= earliestBaseline);
+            if (!baseline) continue;
+
+            const turnover = turnoverDaysFor(effect.marker);
+            const followUpDueDate = addDays(start, turnover);
+            const lastAttributable = end ? addDays(end, FOLLOW_UP_GRACE_DAYS) : today;
+            const followUp = [...series.points].reverse()
+                .find(p => toDateOnly(p.date) >= followUpDueDate && toDateOnly(p.date) <= lastAttributable) ?? null;
+            // A finished run with no draw in its window has nothing to say
+            if (!followUp && end) continue;
+
+            const rcv = referenceChangeValue(effect.marker);
+            const thresholdPercent = rcv
+                ? (effect.direction === 'increase' ? rcv.increase : rcv.decrease)
+                : FALLBACK_SIGNIFICANT_CHANGE_PERCENT;
+
+            let changePercent: number | null = null;
+            let verdict: OutcomeVerdict = 'too_early';
+            if (followUp) {
+                changePercent = round1(((followUp.value - baseline.value) / baseline.value) * 100);
+                const up = rcv ? rcv.increase : FALLBACK_SIGNIFICANT_CHANGE_PERCENT;
+                const down = rcv ? rcv.decrease : FALLBACK_SIGNIFICANT_CHANGE_PERCENT;
+                const movedUp = changePercent >= up;
+                const movedDown = -changePercent >= down;
+                if (!movedUp && !movedDown) verdict = 'no_significant_change';
+                else verdict = (movedUp === (effect.direction === 'increase')) ? 'moved_as_expected' : 'moved_opposite';
+            }
+
+            const confounders = findConfounders(runs, evidence, run, effect.marker, baseline.date, followUp?.date ?? today);
+            outcomes.push({
+                ingredient: run.name,
+                researchKey: resolved.ingredient,
+                dose: run.dose,
+                previousDose: run.previousDose,
+                formulaVersions: run.versions,
+                startedAt: start,
+                endedAt: end,
+                markerKey: effect.marker,
+                markerName: series.name,
+                expectedDirection: effect.direction,
+                evidenceLevel: effect.evidenceLevel,
+                baseline: { date: toDateOnly(baseline.date), value: baseline.value },
+                followUp: followUp ? { date: toDateOnly(followUp.date), value: followUp.value } : null,
+                followUpDueDate,
+                changePercent,
+                thresholdPercent,
+                verdict,
+                confounders,
+                detail: describeOutcome(run, series.name, effect, verdict, changePercent, followUpDueDate, confounders),
+            });
+        }
+    }
+
+    outcomes.sort((a, b) => (b.followUp?.date ?? b.followUpDueDate).localeCompare(a.followUp?.date ?? a.followUpDueDate)
+        || a.ingredient.localeCompare(b.ingredient));
+    const summary: Record<OutcomeVerdict, number> = { moved_as_expected: 0, moved_opposite: 0, no_significant_change: 0, too_early: 0 };
+    for (const o of outcomes) summary[o.verdict]++;
+    return { generatedAt: new Date().toISOString(), outcomes, summary };
+}
+
+/** Other ingredients targeting the marker that started or changed dose between the two draws */
+function findConfounders(
+    runs: IngredientRun[],
+    evidence: Map<string, ReturnType<typeof getIngredientMarkerEffects>>,
+    subject: IngredientRun,
+    marker: string,
+    fromDate: string,
+    toDate: string,
+): string[] {
+    const from = toDateOnly(fromDate);
+    const to = toDateOnly(toDate);
+    const names = new Set<string>();
+    for (const run of runs) {
+        if (run.key === subject.key) continue;
+        if (!evidence.get(run.key)?.effects.some(e => e.marker === marker)) continue;
+        const started = toDateOnly(run.startedAt);
+        const ended = run.endedAt ? toDateOnly(run.endedAt) : null;
+        if ((started > from && started <= to) || (ended != null && ended > from && ended <= to)) names.add(run.name);
+    }
+    return [...names];
+}
+
+function describeOutcome(
+    run: IngredientRun,
+    markerName: string,
+    effect: MarkerEffect,
+    verdict: OutcomeVerdict,
+    changePercent: number | null,
+    followUpDueDate: string,
+    confounders: string[],
+): string {
+    const what = run.previousDose ? `changing ${run.name} from ${run.previousDose} to ${run.dose}` : `starting ${run.name} (${run.dose})`;
+    const change = changePercent == null ? '' : `${changePercent > 0 ? '+' : ''}${changePercent}%`;
+    const expected = effect.direction === 'increase' ? 'rise' : 'fall';
+    let text: string;
+    switch (verdict) {
+        case 'too_early':
+            text = `${markerName} needs a draw on or after ${followUpDueDate} to show the effect of ${what}.`;
+            break;
+        case 'moved_as_expected':
+            text = `${markerName} changed ${change} after ${what}, in the direction the research predicts.`;
+            break;
+        case 'moved_opposite':
+            text = `${markerName} changed ${change} after ${what} — the research predicts a ${expected}.`;
+            break;
+        default:
+            text = `${markerName} changed ${change} after ${what}, within normal test-to-test variation.`;
+    }
+    if (confounders.length > 0) text += ` ${confounders.join(', ')} also changed in this window and may share the credit.`;
+    return text;
+}
+
+// ── De-identified aggregate ────────────────────────────────────────────
+
+export interface OutcomeAggregateRow {
+    ingredient: string;     // research key
+    markerKey: string;
+    expectedDirection: MarkerEffect['direction'];
+    users: number;
+    movedAsExpected: number;
+    movedOpposite: number;
+    noSignificantChange: number;
+    medianChangePercent: number;
+}
+
+export interface OutcomeAggregate {
+    generatedAt: string;
+    minCohort: number;
+    rows: OutcomeAggregateRow[];
+    suppressedPairs: number;    // pairs hidden because the cohort was too small
+}
+
+/**
+ * Roll per-user reports up by (research ingredient, marker). Each user
+ * contributes only their most recent evaluated outcome per pair, and pairs
+ * with fewer than `minCohort` users are dropped so no row describes an
+ * identifiable handful of people. No user identifiers leave this function.
+ */
+export function aggregateOutcomes(reports: SupplementOutcomeReport[], minCohort = MIN_AGGREGATE_COHORT): OutcomeAggregate {
+    const byPair = new Map<string, { ingredient: string; markerKey: string; direction: MarkerEffect['direction']; outcomes: SupplementOutcome[] }>();
+    for (const report of reports) {
+        const latestPerPair = new Map<string, SupplementOutcome>();
+        for (const o of report.outcomes) {
+            if (o.verdict === 'too_early' || o.followUp == null) continue;
+            const pair = `${o.researchKey}|${o.markerKey}`;
+            const existing = latestPerPair.get(pair);
+            if (!existing || o.followUp.date > existing.followUp!.date) latestPerPair.set(pair, o);
+        }
+        for (const [pair, o] of latestPerPair) {
+            const group = byPair.get(pair) ?? { ingredient: o.researchKey, markerKey: o.markerKey, direction: o.expectedDirection, outcomes: [] };
+            group.outcomes.push(o);
+            byPair.set(pair, group);
+        }
+    }
+
+    const rows: OutcomeAggregateRow[] = [];
+    let suppressedPairs = 0;
+    for (const group of byPair.values()) {
+        if (group.outcomes.length < minCohort) {
+            suppressedPairs++;
+            continue;
+        }
+        rows.push({
+            ingredient: group.ingredient,
+            markerKey: group.markerKey,
+            expectedDirection: group.direction,
+            users: group.outcomes.length,
+            movedAsExpected: group.outcomes.filter(o => o.verdict === 'moved_as_expected').length,
+            movedOpposite: group.outcomes.filter(o => o.verdict === 'moved_opposite').length,
+            noSignificantChange: group.outcomes.filter(o => o.verdict === 'no_significant_change').length,
+            medianChangePercent: round1(median(group.outcomes.map(o => o.changePercent!))),
+        });
+    }
+    rows.sort((a, b) => b.users - a.users || a.ingredient.localeCompare(b.ingredient) || a.markerKey.localeCompare(b.markerKey));
+    return { generatedAt: new Date().toISOString(), minCohort, rows, suppressedPairs };
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -18,26 +18,7 @@
 
 import logger from '../../infra/logging/logger';
 import { aiRuntimeSettings } from '../../infra/ai/ai-config';
-import OpenAI from 'openai';
-import { Anthropic } from '@anthropic-ai/sdk';
-
-// Lazy-initialized AI clients — created on first use
-let openaiClient: OpenAI | null = null;
-let anthropicClient: Anthropic | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    openaiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  }
-  return openaiClient;
-}
-
-function getAnthropicClient(): Anthropic {
-  if (!anthropicClient) {
-    anthropicClient = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-  }
-  return anthropicClient;
-}
+import { complete, type LlmMessage } from '../../infra/ai/llm-gateway';
 
 /**
  * Determine which AI provider/model to use for live chat.
@@ -161,13 +142,16 @@ export async function generateBotResponse(
 
     // Build conversation messages
     const recentHistory = conversationHistory.slice(-20);
-    let raw: string | null = null;
-
-    if (config.provider === 'anthropic') {
-      raw = await callAnthropic(config.model, recentHistory, latestUserMessage);
-    } else {
-      raw = await callOpenAI(config.model, recentHistory, latestUserMessage);
-    }
+    const { text } = await complete({
+      feature: 'live_chat',
+      provider: config.provider,
+      model: config.model,
+      system: SYSTEM_PROMPT,
+      messages: buildMessages(recentHistory, latestUserMessage),
+      maxTokens: 500,
+      temperature: 0.7,
+    });
+    const raw = text.trim();
 
     logger.info(`AI chat bot raw response: ${raw?.substring(0, 300)}`);
     if (!raw) {
@@ -191,53 +175,11 @@ export async function generateBotResponse(
 }
 
 /**
- * Call OpenAI API for chat completion.
- */
-async function callOpenAI(
-  model: string,
-  history: ChatMessage[],
-  latestMessage: string,
-): Promise<string> {
-  const ai = getOpenAIClient();
-
-  const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
-    { role: 'system', content: SYSTEM_PROMPT },
-  ];
-
-  for (const msg of history) {
-    if (msg.sender === 'user') {
-      messages.push({ role: 'user', content: msg.content });
-    } else if (msg.sender === 'bot' || msg.sender === 'system') {
-      messages.push({ role: 'assistant', content: msg.content });
-    }
-  }
-
-  // Add latest user message if not already in history
-  const lastMsg = history[history.length - 1];
-  if (!lastMsg || lastMsg.content !== latestMessage || lastMsg.sender !== 'user') {
-    messages.push({ role: 'user', content: latestMessage });
-  }
-
-  const completion = await ai.chat.completions.create({
-    model,
-    max_tokens: 500,
-    temperature: 0.7,
-    messages,
-  });
-
-  return completion.choices?.[0]?.message?.content?.trim() || '';
-}
-
-/**
- * Call Anthropic API for chat completion.
+ * Convert chat history into alternating user/assistant turns. Anthropic
+ * requires messages to start with 'user' and alternate roles, so
+ * consecutive same-role messages are merged.
  */
-async function callAnthropic(
-  model: string,
-  history: ChatMessage[],
-  latestMessage: string,
-): Promise<string> {
-  const client = getAnthropicClient();
-
+function buildMessages(history: ChatMessage[], latestMessage: string): LlmMessage[] {
   const rawMessages: Array<{ role: 'user' | 'assistant'; content: string }> = [];
 
   for (const msg of history) {
@@ -254,8 +196,6 @@ async function callAnthropic(
     rawMessages.push({ role: 'user', content: latestMessage });
   }
 
-  // Anthropic requires messages to start with 'user' and alternate roles.
-  // Merge consecutive same-role messages and ensure it starts with 'user'.
   const messages: Array<{ role: 'user' | 'assistant'; content: string }> = [];
   for (const msg of rawMessages) {
     const prev = messages[messages.length - 1];
@@ -272,16 +212,7 @@ async function callAnthropic(
     messages.unshift({ role: 'user', content: latestMessage });
   }
 
-  const response = await client.messages.create({
-    model,
-    max_tokens: 500,
-    system: SYSTEM_PROMPT,
-    messages,
-  });
-
-  // Extract text from Anthropic response
-  const textBlock = response.content?.find((block) => block.type === 'text');
-  return (textBlock as any)?.text?.trim() || '';
+  return messages;
 }
 
 /**
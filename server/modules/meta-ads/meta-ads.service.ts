@@ -8,8 +8,8 @@
  *   3. Admin reviews/edits, then publishes to Meta
  *   4. Service creates campaign → ad set → ad creative → ad in Meta
  */
-import OpenAI from 'openai';
 import { logger } from '../../infra/logging/logger';
+import { complete } from '../../infra/ai/llm-gateway';
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
@@ -71,10 +71,7 @@ export async function generateAdCopy(
   mimeType: string,
   brandContext?: string,
 ): Promise<AdCopyVariant[]> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) throw new Error('OPENAI_API_KEY is required for ad copy generation');
-
-  const openai = new OpenAI({ apiKey });
+  if (!process.env.OPENAI_API_KEY) throw new Error('OPENAI_API_KEY is required for ad copy generation');
 
   const systemPrompt = `You are an expert Meta Ads copywriter for ONES, a premium personalized supplement brand.
 Your job is to analyze creative images and write compelling ad copy.
@@ -96,10 +93,12 @@ Return ONLY valid JSON array with no markdown formatting:
   { "primaryText": "...", "headline": "...", "description": "..." }
 ]`;
 
-  const response = await openai.chat.completions.create({
+  const response = await complete({
+    feature: 'marketing',
+    provider: 'openai',
     model: 'gpt-4o',
+    system: systemPrompt,
     messages: [
-      { role: 'system', content: systemPrompt },
       {
         role: 'user',
         content: [
@@ -108,20 +107,19 @@ Return ONLY valid JSON array with no markdown formatting:
             text: 'Analyze this ad creative image and generate 3 ad copy variants for Meta Ads.',
           },
           {
-            type: 'image_url',
-            image_url: {
-              url: `data:${mimeType};base64,${imageBase64}`,
-              detail: 'high',
-            },
+            type: 'image',
+            url: `data:${mimeType};base64,${imageBase64}`,
+            detail: 'high',
           },
         ],
       },
     ],
-    max_tokens: 1000,
+    maxTokens: 1000,
     temperature: 0.8,
+    metadata: { task: 'meta_ad_copy' },
   });
 
-  const content = response.choices[0]?.message?.content?.trim() || '[]';
+  const content = response.text.trim() || '[]';
 
   // Parse JSON — strip markdown fences if present
   const jsonStr = content.replace(/```json?\s*/g, '').replace(/```\s*/g, '').trim();
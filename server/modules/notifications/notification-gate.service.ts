@@ -23,7 +23,9 @@ export type NotificationTopic =
     | 'formula_drift'       // autoOptimizeScheduler (formula review)
     | 'reorder_review'      // smartReorderScheduler (AI reorder nudge)
     | 'renewal_reminder'    // smsReminderScheduler (generic renewal SMS)
-    | 'ingredient_discontinued'; // ingredient catalog sync (formula needs reformulation)
+    | 'ingredient_discontinued' // ingredient catalog sync (formula needs reformulation)
+    | 'lab_retest'          // labRetestScheduler (retest panel coming due)
+    | 'wearable_anomaly';   // wearableAnomalyScheduler (illness / overtraining / recovery pattern)
 
 export type NotificationChannel = 'email' | 'sms' | 'in_app';
 
@@ -33,6 +35,8 @@ const CHANNEL_COOLDOWN_DAYS: Record<NotificationTopic, number> = {
     reorder_review:   6, // only 1 reorder review per 6 days (8-week cycle)
     renewal_reminder: 5, // only 1 generic renewal SMS per 5 days
     ingredient_discontinued: 7, // only 1 discontinued alert per 7 days
+    lab_retest:      14, // only 1 retest reminder per 14 days
+    wearable_anomaly: 3, // only 1 anomaly alert per 3 days (patterns persist for days)
 };
 
 /** Max renewal-related notifications per user per calendar day (all channels) */
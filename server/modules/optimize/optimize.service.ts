@@ -1,4 +1,3 @@
-import OpenAI from 'openai';
 import { nanoid } from 'nanoid';
 import { startOfWeek, format, differenceInDays, isSameDay } from 'date-fns';
 import { optimizeRepository } from './optimize.repository';
@@ -15,6 +14,7 @@ import { parseAiJson } from '../../utils/parseAiJson';
 import { normalizePlanContent, DEFAULT_MEAL_TYPES } from '../../utils/optimize-normalizer';
 import { getUserLocalMidnight, getUserLocalDateString, toUserLocalDateString } from '../../utils/timezone';
 import logger from '../../infra/logging/logger';
+import { complete, completeJson } from '../../infra/ai/llm-gateway';
 import type {
     OptimizeDailyLog,
     InsertOptimizeDailyLog,
@@ -26,8 +26,6 @@ import type {
     UserStreak
 } from '@shared/schema';
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
 export class OptimizeService {
     // Helper to map ingredient to grocery item
     private mapIngredientToItem(value: any) {
@@ -124,15 +122,17 @@ Meal Plan: ${mealsText}`;
             let systemMessage = `You are a wellness expert. Format your response as valid JSON for a 7-day ${planType} plan.`;
 
             try {
-                const response = await openai.chat.completions.create({
+                const { data: planContent } = await completeJson<any>({
+                    feature: 'optimize',
+                    userId,
+                    provider: 'openai',
                     model: 'gpt-4.1',
-                    messages: [{ role: 'system', content: systemMessage }, { role: 'user', content: prompt }],
+                    system: systemMessage,
+                    messages: [{ role: 'user', content: prompt }],
                     temperature: 0.7,
-                    max_tokens: 16000,
+                    maxTokens: 16000,
+                    metadata: { task: `${planType}_plan` },
                 });
-
-                const content = response.choices[0].message.content || '{}';
-                const planContent = parseAiJson(content);
                 const normalizedContent = normalizePlanContent(planType as any, planContent);
 
                 const plan = await optimizeRepository.createOptimizePlan({
@@ -360,12 +360,17 @@ Meal Plan: ${mealsText}`;
     async generateRecipe(userId: string, data: any) {
         const { mealName, ingredients, dietaryRestrictions } = data;
         const prompt = buildRecipePrompt(mealName, ingredients || [], dietaryRestrictions || []);
-        const completion = await openai.chat.completions.create({
+        const { text } = await complete({
+            feature: 'optimize',
+            userId,
+            provider: 'openai',
             model: 'gpt-4.1',
             messages: [{ role: 'user', content: prompt }],
             temperature: 0.7,
+            maxTokens: 4096,
+            metadata: { task: 'recipe' },
         });
-        return parseAiJson(completion.choices[0].message.content || '{}');
+        return parseAiJson(text || '{}');
     }
 
     async getWorkoutAnalytics(userId: string) {
@@ -422,12 +427,14 @@ Meal Plan: ${mealsText}`;
         const currentMeal = meals[mealIndex];
 
         const prompt = `Suggest replacement for ${currentMeal.name} (${mealType})`;
-        const completion = await openai.chat.completions.create({
+        const { data: newMeal } = await completeJson<any>({
+            feature: 'optimize',
+            userId,
+            provider: 'openai',
             model: 'gpt-4.1',
             messages: [{ role: 'user', content: prompt }],
-            response_format: { type: 'json_object' }
+            metadata: { task: 'swap_meal' },
         });
-        const newMeal = JSON.parse(completion.choices[0].message.content || '{}');
         meals[mealIndex] = newMeal;
         return await optimizeRepository.updateOptimizePlan(planId, { content });
     }
@@ -441,12 +448,14 @@ Meal Plan: ${mealsText}`;
         const currentEx = exercises[exerciseIndex];
 
         const prompt = `Suggest replacement for exercise ${currentEx.name}`;
-        const completion = await openai.chat.completions.create({
+        const { data: newEx } = await completeJson<any>({
+            feature: 'optimize',
+            userId,
+            provider: 'openai',
             model: 'gpt-4.1',
             messages: [{ role: 'user', content: prompt }],
-            response_format: { type: 'json_object' }
+            metadata: { task: 'switch_exercise' },
         });
-        const newEx = JSON.parse(completion.choices[0].message.content || '{}');
         exercises[exerciseIndex] = newEx;
         return await optimizeRepository.updateOptimizePlan(plan.id, { content });
     }
@@ -10,12 +10,13 @@
  * 6. Creates new order and new schedule for next cycle
  */
 
-import OpenAI from 'openai';
 import { logger } from '../../infra/logging/logger';
+import { complete } from '../../infra/ai/llm-gateway';
 import { reorderRepository } from './reorder.repository';
 import { wearableTrendAnalysisService, type WearableTrendAnalysis } from './wearableTrendAnalysis.service';
 import { usersRepository } from '../users/users.repository';
 import { formulasRepository } from '../formulas/formulas.repository';
+import { computeFormulaDiff, formatFormulaDiffHtml } from '../formulas/formula-diff';
 import { notificationsService } from '../notifications/notifications.service';
 import { notificationGate } from '../notifications/notification-gate.service';
 import type { ReorderSchedule, ReorderRecommendation, User, Formula, HealthProfile } from '@shared/schema';
@@ -27,7 +28,6 @@ const AUTO_APPROVE_HOURS = 48;   // Auto-default to KEEP after 48h with no reply
 const MAX_DELAYS_PER_CYCLE = 1;  // User can delay once per cycle (2 weeks)
 const DELAY_DAYS = 14;           // Each delay adds 2 weeks
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
 // ── Ingredient catalog lookup helpers ───────────────────────────────────
 
@@ -224,14 +224,16 @@ export const reorderService = {
     // Call AI
     let aiDecision: AIReorderDecision;
     try {
-      const completion = await openai.chat.completions.create({
+      const { text: responseText } = await complete({
+        feature: 'reorder',
+        userId: schedule.userId,
+        provider: 'openai',
         model: 'gpt-4o',
         messages: [{ role: 'user', content: prompt }],
         temperature: 0.3,
-        max_tokens: 1500,
+        maxTokens: 1500,
       });
 
-      const responseText = completion.choices[0]?.message?.content || '';
       const parsed = parseAIReorderResponse(responseText);
 
       if (!parsed) {
@@ -343,6 +345,15 @@ export const reorderService = {
           }).join('')
           : '<li>No significant changes detected</li>';
 
+        // Show what changed if the user updated their formula after this supply shipped
+        const currentFormula = await formulasRepository.getCurrentFormulaByUser(schedule.userId);
+        const changesSinceShipment = formula && currentFormula && currentFormula.id !== formula.id
+          ? computeFormulaDiff(formula, currentFormula)
+          : null;
+        const changesHtml = changesSinceShipment?.hasChanges
+          ? `<p>Your formula changed since this supply shipped (V${changesSinceShipment.from.version} → V${changesSinceShipment.to.version}):</p>${formatFormulaDiffHtml(changesSinceShipment)}`
+          : '';
+
         const frontendUrl = process.env.FRONTEND_URL || 'https://ones.health';
 
         await sendNotificationEmail({
@@ -359,6 +370,7 @@ export const reorderService = {
               ? 'Based on your data, I have some formula adjustment suggestions ready for you.'
               : 'Your current formula appears to be working well — no changes recommended.'
             }</p>
+            ${changesHtml}
             <p>Reply to the SMS we sent, or visit your dashboard to approve your reorder.</p>
           `,
           actionUrl: `${frontendUrl}/dashboard/formula`,
@@ -6,6 +6,13 @@ import logger from '../../infra/logging/logger';
 import { type InsertHealthProfile, type InsertSubscription, type InsertPaymentMethodRef } from '@shared/schema';
 import { billingService } from '../billing/billing.service';
 import { normalizeMedications } from '../health/medication-normalizer';
+import { safetyRescreenService } from '../formulas/safety-rescreen.service';
+import { wearablesService } from '../wearables/wearables.service';
+import { sanitizeMetricSourcePreferences, type MetricSourcePreferences } from '@shared/metricCatalog';
+
+// Profile fields the safety validator reads. Changing any of them re-screens
+// the user's current formula.
+const SAFETY_SCREENED_FIELDS = ['conditions', 'allergies', 'age', 'sex', 'currentSupplements'] as const;
 
 export class UsersService {
     // User profile operations
@@ -79,16 +86,28 @@ export class UsersService {
                 newMeds.some((m, i) => (m || '').trim().toLowerCase() !== (oldMeds[i] || '').trim().toLowerCase());
             if (changed) {
                 this._refreshMedicationNormalizationAsync(userId, newMeds);
+                return saved;
             }
         }
 
+        const safetyFieldChanged = SAFETY_SCREENED_FIELDS.some(field =>
+            Object.prototype.hasOwnProperty.call(healthProfileData, field) &&
+            JSON.stringify((healthProfileData as Record<string, unknown>)[field] ?? null) !==
+                JSON.stringify((existingProfile as Record<string, unknown> | undefined)?.[field] ?? null)
+        );
+        if (safetyFieldChanged) {
+            safetyRescreenService.scheduleUserRescreen(userId, 'health_profile_changed');
+        }
+
         return saved;
     }
 
     /**
      * Background task: re-run AI normalization for a user's medications and
-     * persist the result on healthProfiles.medicationsNormalized. Safe to
-     * fire-and-forget — never throws, never blocks the calling request.
+     * persist the result on healthProfiles.medicationsNormalized, then
+     * re-screen their current formula against the new list (whether or not
+     * normalization succeeded). Safe to fire-and-forget — never throws, never
+     * blocks the calling request.
      */
     private _refreshMedicationNormalizationAsync(userId: string, medications: string[]): void {
         (async () => {
@@ -105,6 +124,7 @@ export class UsersService {
             } catch (err) {
                 logger.error('Medication normalization refresh failed', { userId, error: err });
             }
+            safetyRescreenService.scheduleUserRescreen(userId, 'medications_changed');
         })();
     }
 
@@ -157,6 +177,8 @@ export class UsersService {
         // brand/compound aliases on the next formula generation.
         if (medications.length > 0) {
             this._refreshMedicationNormalizationAsync(userId, medications);
+        } else {
+            safetyRescreenService.scheduleUserRescreen(userId, 'medications_changed');
         }
 
         return { disclosedAt, consentId: consent.id };
@@ -268,6 +290,22 @@ export class UsersService {
         if (!updated) return undefined;
         return { metricPreferences: updated.metricPreferences };
     }
+
+    async getMetricSourcePreferences(userId: string) {
+        const user = await usersRepository.getUser(userId);
+        if (!user) return undefined;
+        return { metricSourcePreferences: sanitizeMetricSourcePreferences(user.metricSourcePreferences) };
+    }
+
+    /** Unknown metric ids are dropped; an empty map resets to the default precedence */
+    async updateMetricSourcePreferences(userId: string, sources: MetricSourcePreferences) {
+        const cleaned = sanitizeMetricSourcePreferences(sources);
+        const updated = await usersRepository.updateUser(userId, { metricSourcePreferences: cleaned });
+        if (!updated) return undefined;
+        // Health Pulse is cached per user and built from the preferred sources
+        wearablesService.invalidatePulseCache(userId);
+        return { metricSourcePreferences: cleaned };
+    }
 }
 
 export const usersService = new UsersService();
@@ -0,0 +1,227 @@
+/**
+ * Wearable anomaly detector
+ *
+ * Scores each day's HRV, resting HR, skin temperature, respiratory rate and
+ * SpO2 against the user's own rolling baseline (the preceding
+ * BASELINE_WINDOW_DAYS, skipping the most recent BASELINE_GAP_DAYS so an
+ * emerging problem doesn't drag its own baseline along). Z-scores are
+ * signed so positive always means "worse than usual": HRV and SpO2 falling,
+ * the rest rising.
+ *
+ * Single deviations are common noise — a late dinner raises resting HR for
+ * a night. Findings are only raised for multi-signal patterns:
+ *
+ *   - illness_onset: skin temperature up together with resting HR,
+ *     respiratory rate or SpO2. Fever-driven changes typically show in
+ *     wearables a day or two before symptoms.
+ *   - overtraining: HRV down and resting HR up for OVERTRAINING_MIN_DAYS
+ *     consecutive days without a temperature rise.
+ *   - poor_recovery: HRV well below baseline (alone, or with resting HR
+ *     up for fewer days than overtraining needs), no temperature rise.
+ *
+ * Pure functions only — loading data, storing findings and alerting live in
+ * wearable-anomaly.service.ts.
+ */
+
+import type { BiometricData } from '@shared/schema';
+
+export type AnomalyMetric = 'hrv' | 'resting_hr' | 'skin_temp' | 'respiratory_rate' | 'spo2';
+export type AnomalyPattern = 'illness_onset' | 'overtraining' | 'poor_recovery';
+export type AnomalySeverity = 'watch' | 'alert';
+
+/** One day of readings; null where the device didn't report the metric */
+export type DailyReadings = { date: string } & Partial<Record<AnomalyMetric, number | null>>;
+
+interface MetricConfig {
+    label: string;
+    unit: string;
+    /** +1 when a rise is adverse, -1 when a fall is */
+    adverseDirection: 1 | -1;
+    /**
+     * Floor on the baseline SD. A very steady baseline would otherwise turn
+     * trivial changes (0.1 °C, 1 bpm) into huge z-scores.
+     */
+    minSd: number;
+}
+
+export const ANOMALY_METRICS: Record<AnomalyMetric, MetricConfig> = {
+    hrv:              { label: 'HRV', unit: 'ms', adverseDirection: -1, minSd: 3 },
+    resting_hr:       { label: 'Resting heart rate', unit: 'bpm', adverseDirection: 1, minSd: 1.5 },
+    skin_temp:        { label: 'Skin temperature', unit: '°C', adverseDirection: 1, minSd: 0.15 },
+    respiratory_rate: { label: 'Respiratory rate', unit: 'br/min', adverseDirection: 1, minSd: 0.5 },
+    spo2:             { label: 'SpO2', unit: '%', adverseDirection: -1, minSd: 0.7 },
+};
+
+/** Days of history a baseline is built from */
+export const BASELINE_WINDOW_DAYS = 28;
+
+/** Most recent days left out of the baseline */
+export const BASELINE_GAP_DAYS = 2;
+
+/** A metric needs at least this many baseline days to be scored */
+export const MIN_BASELINE_DAYS = 10;
+
+/** Adverse z-score at which a signal counts as deviating */
+export const DEVIATION_Z = 1.5;
+
+/** Adverse z-score at which a single signal is a strong deviation */
+export const STRONG_DEVIATION_Z = 2;
+
+export const OVERTRAINING_MIN_DAYS = 3;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface SignalDeviation {
+    metric: AnomalyMetric;
+    value: number;
+    baselineMean: number;
+    baselineSd: number;
+    zScore: number;         // signed so positive = adverse
+}
+
+export interface AnomalyFinding {
+    date: string;
+    pattern: AnomalyPattern;
+    severity: AnomalySeverity;
+    signals: SignalDeviation[];
+    summary: string;
+}
+
+function addDays(date: string, days: number): string {
+    return new Date(new Date(date).getTime() + days * MS_PER_DAY).toISOString().split('T')[0];
+}
+
+function round2(n: number): number {
+    return Math.round(n * 100) / 100;
+}
+
+/**
+ * Collapse biometric_data rows (one per provider per day) into one reading
+ * per day. Where two devices report the same metric, the first row wins.
+ */
+export function toDailyReadings(
+    rows: Array<Pick<BiometricData, 'dataDate' | 'hrvMs' | 'restingHeartRate' | 'skinTempCelsius' | 'respiratoryRate' | 'spo2Percentage'>>,
+): DailyReadings[] {
+    const byDate = new Map<string, DailyReadings>();
+    for (const row of rows) {
+        const date = new Date(row.dataDate).toISOString().split('T')[0];
+        const day = byDate.get(date) ?? { date };
+        day.hrv ??= row.hrvMs;
+        day.resting_hr ??= row.restingHeartRate;
+        // Stored ×10 for one decimal of precision
+        day.skin_temp ??= row.skinTempCelsius == null ? null : row.skinTempCelsius / 10;
+        day.respiratory_rate ??= row.respiratoryRate;
+        day.spo2 ??= row.spo2Percentage;
+        byDate.set(date, day);
+    }
+    return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** Score every metric reported on `date` against the user's baseline */
+export function scoreDay(days: DailyReadings[], date: string): SignalDeviation[] {
+    const byDate = new Map(days.map(d => [d.date, d]));
+    const today = byDate.get(date);
+    if (!today) return [];
+
+    const windowEnd = addDays(date, -BASELINE_GAP_DAYS);
+    const windowStart = addDays(windowEnd, -BASELINE_WINDOW_DAYS);
+    const baselineDays = days.filter(d => d.date > windowStart && d.date <= windowEnd);
+
+    const deviations: SignalDeviation[] = [];
+    for (const metric of Object.keys(ANOMALY_METRICS) as AnomalyMetric[]) {
+        const value = today[metric];
+        if (value == null || !Number.isFinite(value)) continue;
+        const history = baselineDays.map(d => d[metric]).filter((v): v is number => v != null && Number.isFinite(v));
+        if (history.length < MIN_BASELINE_DAYS) continue;
+
+        const config = ANOMALY_METRICS[metric];
+        const mean = history.reduce((a, b) => a + b, 0) / history.length;
+        const sd = Math.sqrt(history.reduce((a, b) => a + (b - mean) ** 2, 0) / (history.length - 1));
+        const effectiveSd = Math.max(sd, config.minSd);
+        deviations.push({
+            metric,
+            value,
+            baselineMean: round2(mean),
+            baselineSd: round2(effectiveSd),
+            zScore: round2(((value - mean) / effectiveSd) * config.adverseDirection),
+        });
+    }
+    return deviations;
+}
+
+function deviating(signals: SignalDeviation[], metric: AnomalyMetric, threshold = DEVIATION_Z): SignalDeviation | undefined {
+    return signals.find(s => s.metric === metric && s.zScore >= threshold);
+}
+
+function describe(s: SignalDeviation): string {
+    const config = ANOMALY_METRICS[s.metric];
+    const diff = s.value - s.baselineMean;
+    const amount = Math.abs(diff) < 10 ? round2(Math.abs(diff)) : Math.round(Math.abs(diff));
+    return `${config.label} ${diff > 0 ? 'up' : 'down'} ${amount} ${config.unit}`;
+}
+
+/**
+ * Evaluate one day for multi-signal patterns. At most one finding per
+ * pattern; illness takes precedence because a fever also suppresses HRV
+ * and raises resting HR, which would otherwise read as overtraining.
+ */
+export function detectAnomalies(days: DailyReadings[], date: string): AnomalyFinding[] {
+    const signals = scoreDay(days, date);
+    if (signals.length === 0) return [];
+
+    const temp = deviating(signals, 'skin_temp');
+    const hrv = deviating(signals, 'hrv');
+    const rhr = deviating(signals, 'resting_hr');
+
+    if (temp) {
+        const companions = [
+            rhr,
+            deviating(signals, 'respiratory_rate'),
+            deviating(signals, 'spo2', STRONG_DEVIATION_Z),
+        ].filter((s): s is SignalDeviation => s != null);
+        if (companions.length === 0) return [];
+        const involved = [temp, ...companions, ...(hrv ? [hrv] : [])];
+        return [{
+            date,
+            pattern: 'illness_onset',
+            severity: companions.length >= 2 || temp.zScore >= 3 ? 'alert' : 'watch',
+            signals: involved,
+            summary: `${involved.map(describe).join(', ')} compared with your usual. ` +
+                'This combination often shows up a day or two before feeling unwell.',
+        }];
+    }
+
+    if (hrv && rhr) {
+        let streak = 1;
+        for (let back = 1; back < OVERTRAINING_MIN_DAYS; back++) {
+            const prior = scoreDay(days, addDays(date, -back));
+            if (deviating(prior, 'hrv') && deviating(prior, 'resting_hr') && !deviating(prior, 'skin_temp')) streak++;
+            else break;
+        }
+        if (streak >= OVERTRAINING_MIN_DAYS) {
+            return [{
+                date,
+                pattern: 'overtraining',
+                severity: 'alert',
+                signals: [hrv, rhr],
+                summary: `${describe(hrv)} and ${describe(rhr)} for ${streak} days running. ` +
+                    'Sustained strain without recovery — consider lighter training until these settle.',
+            }];
+        }
+    }
+
+    const strongHrv = deviating(signals, 'hrv', STRONG_DEVIATION_Z);
+    if (strongHrv || (hrv && rhr)) {
+        const involved = [hrv!, ...(rhr ? [rhr] : [])];
+        return [{
+            date,
+            pattern: 'poor_recovery',
+            severity: 'watch',
+            signals: involved,
+            summary: `${involved.map(describe).join(', ')} compared with your usual. ` +
+                'Your body is under more load than normal — prioritise sleep and an easier day.',
+        }];
+    }
+
+    return [];
+}
@@ -0,0 +1,101 @@
+/**
+ * Apple Health export.xml parser.
+ *
+ * The export is one <Record> per sample, each opening tag on its own line,
+ * and easily runs to millions of lines — so it is consumed line by line
+ * from a stream rather than parsed as a DOM. Samples are bucketed by the
+ * local calendar date Apple wrote them with (sleep by the date the user
+ * woke up) and reduced to daily values.
+ */
+
+import { DailyAggregator, type ImportedMetric, type ParsedImport } from './imported-day';
+
+type RecordMapping = { metric: ImportedMetric; scale?: number };
+
+const QUANTITY_TYPES: Record<string, RecordMapping> = {
+    HKQuantityTypeIdentifierHeartRateVariabilitySDNN: { metric: 'hrvMs' },
+    HKQuantityTypeIdentifierRestingHeartRate: { metric: 'restingHeartRate' },
+    HKQuantityTypeIdentifierHeartRate: { metric: 'averageHeartRate' },
+    HKQuantityTypeIdentifierStepCount: { metric: 'steps' },
+    HKQuantityTypeIdentifierActiveEnergyBurned: { metric: 'caloriesBurned' },
+    HKQuantityTypeIdentifierAppleExerciseTime: { metric: 'activeMinutes' },
+    HKQuantityTypeIdentifierOxygenSaturation: { metric: 'spo2Percentage' },
+    HKQuantityTypeIdentifierRespiratoryRate: { metric: 'respiratoryRate' },
+    HKQuantityTypeIdentifierAppleSleepingWristTemperature: { metric: 'skinTempCelsius' },
+};
+
+const SLEEP_STAGES: Record<string, ImportedMetric | null> = {
+    HKCategoryValueSleepAnalysisAsleepCore: 'lightSleepMinutes',
+    HKCategoryValueSleepAnalysisAsleepDeep: 'deepSleepMinutes',
+    HKCategoryValueSleepAnalysisAsleepREM: 'remSleepMinutes',
+    HKCategoryValueSleepAnalysisAsleepUnspecified: null,
+    HKCategoryValueSleepAnalysisAsleep: null,   // pre-iOS 16, no stages
+};
+
+const ATTRIBUTE = /(\w+)="([^"]*)"/g;
+
+function parseAttributes(line: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    for (const match of line.matchAll(ATTRIBUTE)) attrs[match[1]] = match[2];
+    return attrs;
+}
+
+/** "2024-01-15 07:30:00 -0500" → epoch ms */
+function parseAppleDate(value: string): number {
+    const m = value.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/);
+    return m ? Date.parse(`${m[1]}T${m[2]}${m[3]}:${m[4]}`) : Date.parse(value);
+}
+
+export async function parseAppleHealthExport(lines: AsyncIterable<string> | Iterable<string>): Promise<ParsedImport> {
+    const agg = new DailyAggregator();
+
+    for await (const line of lines) {
+        const start = line.indexOf('<Record ');
+        if (start < 0) continue;
+        const attrs = parseAttributes(line.slice(start));
+        const { type, sourceName = '', startDate, endDate, value } = attrs;
+        if (!type || !startDate) continue;
+
+        if (type === 'HKCategoryTypeIdentifierSleepAnalysis') {
+            if (!endDate || !(value in SLEEP_STAGES)) continue;
+            const minutes = (parseAppleDate(endDate) - parseAppleDate(startDate)) / 60000;
+            if (!(minutes > 0)) continue;
+            const night = endDate.slice(0, 10);
+            agg.add(night, 'sleepHours', minutes, sourceName);
+            const stage = SLEEP_STAGES[value];
+            if (stage) agg.add(night, stage, minutes, sourceName);
+            continue;
+        }
+
+        const mapping = QUANTITY_TYPES[type];
+        if (!mapping) continue;
+        let num = parseFloat(value);
+        if (!Number.isFinite(num)) continue;
+        // SpO2 is exported as a fraction (0.97)
+        if (mapping.metric === 'spo2Percentage' && num <= 1) num *= 100;
+        const date = startDate.slice(0, 10);
+        agg.add(date, mapping.metric, num, sourceName);
+        if (type === 'HKQuantityTypeIdentifierHeartRate') agg.add(date, 'maxHeartRate', num, sourceName);
+    }
+
+    return {
+        format: 'apple_health_xml',
+        provider: 'apple_health',
+        days: agg.build({
+            sleepHours: 'sum',
+            lightSleepMinutes: 'sum',
+            deepSleepMinutes: 'sum',
+            remSleepMinutes: 'sum',
+            hrvMs: 'avg',
+            restingHeartRate: 'avg',
+            averageHeartRate: 'avg',
+            maxHeartRate: 'max',
+            steps: 'sum',
+            caloriesBurned: 'sum',
+            activeMinutes: 'sum',
+            spo2Percentage: 'avg',
+            respiratoryRate: 'avg',
+            skinTempCelsius: 'avg',
+        }),
+    };
+}
@@ -0,0 +1,164 @@
+/**
+ * Oura and WHOOP CSV export parsers.
+ *
+ * Oura's web export is one row per day keyed by `date`, with sleep
+ * durations in seconds and temperature as a deviation from the user's
+ * baseline (stored as-is — downstream consumers compare against the user's
+ * own history, so a deviation works like an absolute reading). WHOOP's
+ * physiological_cycles.csv is one row per cycle; a cycle is attributed to
+ * the day the user woke up.
+ *
+ * Columns are matched by header name, so reordered or extra columns in
+ * newer exports don't matter. A CSV whose headers match neither format
+ * yields null (WHOOP exports also contain sleeps/workouts/journal CSVs that
+ * duplicate the cycle data).
+ */
+
+import { DailyAggregator, type ImportedMetric, type ParsedImport, type Reducer } from './imported-day';
+
+interface ColumnSpec {
+    metric: ImportedMetric;
+    headers: string[];          // lower-case, first match wins
+    scale?: number;
+}
+
+const OURA_COLUMNS: ColumnSpec[] = [
+    { metric: 'sleepScore', headers: ['sleep score'] },
+    { metric: 'sleepHours', headers: ['total sleep duration'], scale: 1 / 60 },
+    { metric: 'remSleepMinutes', headers: ['rem sleep duration'], scale: 1 / 60 },
+    { metric: 'lightSleepMinutes', headers: ['light sleep duration'], scale: 1 / 60 },
+    { metric: 'deepSleepMinutes', headers: ['deep sleep duration'], scale: 1 / 60 },
+    { metric: 'restingHeartRate', headers: ['lowest resting heart rate', 'average resting heart rate'] },
+    { metric: 'hrvMs', headers: ['average hrv'] },
+    { metric: 'readinessScore', headers: ['readiness score'] },
+    { metric: 'skinTempCelsius', headers: ['temperature deviation (°c)', 'temperature deviation'] },
+    { metric: 'respiratoryRate', headers: ['respiratory rate'] },
+    { metric: 'steps', headers: ['steps'] },
+    { metric: 'caloriesBurned', headers: ['active burn', 'total burn'] },
+];
+
+const WHOOP_COLUMNS: ColumnSpec[] = [
+    { metric: 'recoveryScore', headers: ['recovery score %'] },
+    { metric: 'restingHeartRate', headers: ['resting heart rate (bpm)'] },
+    { metric: 'hrvMs', headers: ['heart rate variability (ms)'] },
+    { metric: 'skinTempCelsius', headers: ['skin temp (celsius)'] },
+    { metric: 'spo2Percentage', headers: ['blood oxygen %'] },
+    { metric: 'strainScore', headers: ['day strain'] },
+    { metric: 'caloriesBurned', headers: ['energy burned (cal)'] },
+    { metric: 'maxHeartRate', headers: ['max hr (bpm)'] },
+    { metric: 'averageHeartRate', headers: ['average hr (bpm)'] },
+    { metric: 'sleepScore', headers: ['sleep performance %'] },
+    { metric: 'respiratoryRate', headers: ['respiratory rate (rpm)'] },
+    { metric: 'sleepHours', headers: ['asleep duration (min)'] },
+    { metric: 'lightSleepMinutes', headers: ['light sleep duration (min)'] },
+    { metric: 'deepSleepMinutes', headers: ['deep (sws) duration (min)'] },
+    { metric: 'remSleepMinutes', headers: ['rem duration (min)'] },
+];
+
+// One row per day is normal; if a day repeats (re-exported overlap), keep the fuller value
+const CSV_REDUCERS: Partial<Record<ImportedMetric, Reducer>> = {
+    sleepScore: 'avg', readinessScore: 'avg', recoveryScore: 'avg', strainScore: 'max',
+    sleepHours: 'max', remSleepMinutes: 'max', lightSleepMinutes: 'max', deepSleepMinutes: 'max',
+    restingHeartRate: 'avg', averageHeartRate: 'avg', maxHeartRate: 'max', hrvMs: 'avg',
+    skinTempCelsius: 'avg', respiratoryRate: 'avg', spo2Percentage: 'avg',
+    steps: 'max', caloriesBurned: 'max',
+};
+
+/** RFC 4180-ish CSV: quoted fields, doubled quotes, CRLF or LF */
+export function parseCsv(text: string): string[][] {
+    const newline = text.indexOf('\n');
+    const firstLine = newline >= 0 ? text.slice(0, newline) : text;
+    const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (ch === '"') quoted = false;
+            else field += ch;
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            if (row.some(f => f !== '')) rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    row.push(field);
+    if (row.some(f => f !== '')) rows.push(row);
+    return rows;
+}
+
+function resolveColumns(headers: string[], specs: ColumnSpec[]): Array<{ index: number; spec: ColumnSpec }> {
+    const resolved: Array<{ index: number; spec: ColumnSpec }> = [];
+    for (const spec of specs) {
+        for (const name of spec.headers) {
+            const index = headers.indexOf(name);
+            if (index >= 0) { resolved.push({ index, spec }); break; }
+        }
+    }
+    return resolved;
+}
+
+/** "2024-01-15 07:30:00" / "2024-01-15T07:30:00Z" / "2024-01-15" → "2024-01-15" */
+function dateOf(value: string | undefined): string | null {
+    const m = value?.trim().match(/^(\d{4}-\d{2}-\d{2})/);
+    return m ? m[1] : null;
+}
+
+/** Parse an Oura or WHOOP CSV export; null if the headers match neither */
+export function parseWearableCsv(text: string): ParsedImport | null {
+    const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+    if (rows.length < 2) return null;
+    const headers = rows[0].map(h => h.trim().toLowerCase());
+
+    let provider: 'oura' | 'whoop';
+    let dateIndex: (row: string[]) => string | null;
+    let columns: Array<{ index: number; spec: ColumnSpec }>;
+
+    // Only physiological_cycles.csv has recovery; the other WHOOP CSVs would double-count
+    if (headers.includes('cycle start time') && headers.includes('recovery score %')) {
+        provider = 'whoop';
+        const wake = headers.indexOf('wake onset');
+        const start = headers.indexOf('cycle start time');
+        dateIndex = row => dateOf(wake >= 0 ? row[wake] : undefined) ?? dateOf(row[start]);
+        columns = resolveColumns(headers, WHOOP_COLUMNS);
+    } else {
+        const dateCol = headers.findIndex(h => h === 'date' || h === 'day');
+        columns = resolveColumns(headers, OURA_COLUMNS);
+        // Needs a date column and at least a couple of Oura metrics to be sure it's Oura
+        if (dateCol < 0 || columns.length < 2) return null;
+        provider = 'oura';
+        dateIndex = row => dateOf(row[dateCol]);
+    }
+    if (columns.length === 0) return null;
+
+    const agg = new DailyAggregator();
+    for (const row of rows.slice(1)) {
+        const date = dateIndex(row);
+        if (!date) continue;
+        for (const { index, spec } of columns) {
+            const raw = row[index]?.trim();
+            if (!raw) continue;
+            const value = parseFloat(raw);
+            if (Number.isFinite(value)) agg.add(date, spec.metric, value * (spec.scale ?? 1));
+        }
+    }
+
+    return {
+        format: provider === 'oura' ? 'oura_csv' : 'whoop_csv',
+        provider,
+        days: agg.build(CSV_REDUCERS),
+    };
+}
@@ -0,0 +1,312 @@
+/**
+ * Garmin FIT file parser.
+ *
+ * A small decoder for the FIT binary protocol (definition + data messages,
+ * compressed-timestamp headers, developer fields skipped, chained files)
+ * and a mapping of the daily-health messages Garmin devices write into
+ * their monitoring, sleep and activity files:
+ *
+ *   monitoring (55)            heart rate samples → average / max HR
+ *   monitoring_hr_data (211)   resting heart rate
+ *   hrv_status_summary (370)   last-night average HRV
+ *   hrv (78)                   beat intervals → RMSSD when no summary exists
+ *   respiration_rate (297)     breaths per minute
+ *   spo2_data (269)            pulse-ox readings
+ *   sleep_level (275)          stage transitions → sleep stage minutes
+ *   session (18)               workout time → active minutes
+ *
+ * FIT timestamps are UTC; when the file carries a local_timestamp
+ * (activity, monitoring_info) its offset is applied so samples land on the
+ * user's calendar day.
+ */
+
+import { DailyAggregator, ImportFormatError, type ParsedImport } from './imported-day';
+
+/** Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z) */
+const FIT_EPOCH_OFFSET = 631065600;
+
+const MSG = {
+    session: 18,
+    activity: 34,
+    monitoring: 55,
+    hrv: 78,
+    monitoringInfo: 103,
+    monitoringHrData: 211,
+    spo2Data: 269,
+    sleepLevel: 275,
+    respirationRate: 297,
+    hrvStatusSummary: 370,
+} as const;
+
+const TIMESTAMP_FIELD = 253;
+
+// Base type (low 5 bits) → byte size, reader and the value FIT uses for "invalid"
+const BASE_TYPES: Record<number, { size: number; read: (b: Buffer, o: number, le: boolean) => number; invalid: number | null }> = {
+    0x00: { size: 1, read: (b, o) => b.readUInt8(o), invalid: 0xff },                                  // enum
+    0x01: { size: 1, read: (b, o) => b.readInt8(o), invalid: 0x7f },                                   // sint8
+    0x02: { size: 1, read: (b, o) => b.readUInt8(o), invalid: 0xff },                                  // uint8
+    0x03: { size: 2, read: (b, o, le) => le ? b.readInt16LE(o) : b.readInt16BE(o), invalid: 0x7fff },  // sint16
+    0x04: { size: 2, read: (b, o, le) => le ? b.readUInt16LE(o) : b.readUInt16BE(o), invalid: 0xffff },
+    0x05: { size: 4, read: (b, o, le) => le ? b.readInt32LE(o) : b.readInt32BE(o), invalid: 0x7fffffff },
+    0x06: { size: 4, read: (b, o, le) => le ? b.readUInt32LE(o) : b.readUInt32BE(o), invalid: 0xffffffff },
+    0x08: { size: 4, read: (b, o, le) => le ? b.readFloatLE(o) : b.readFloatBE(o), invalid: null },
+    0x09: { size: 8, read: (b, o, le) => le ? b.readDoubleLE(o) : b.readDoubleBE(o), invalid: null },
+    0x0a: { size: 1, read: (b, o) => b.readUInt8(o), invalid: 0x00 },                                  // uint8z
+    0x0b: { size: 2, read: (b, o, le) => le ? b.readUInt16LE(o) : b.readUInt16BE(o), invalid: 0x0000 },
+    0x0c: { size: 4, read: (b, o, le) => le ? b.readUInt32LE(o) : b.readUInt32BE(o), invalid: 0x00000000 },
+    0x0d: { size: 1, read: (b, o) => b.readUInt8(o), invalid: 0xff },                                  // byte
+};
+
+interface FieldDefinition {
+    num: number;
+    size: number;
+    baseType: number;
+}
+
+interface MessageDefinition {
+    globalNum: number;
+    littleEndian: boolean;
+    fields: FieldDefinition[];
+    devDataSize: number;
+}
+
+export interface FitMessage {
+    globalNum: number;
+    /** Decoded numeric fields; arrays for multi-value fields, null when invalid */
+    fields: Record<number, number | number[] | null>;
+}
+
+function decodeField(buf: Buffer, offset: number, field: FieldDefinition, le: boolean): number | number[] | null {
+    const type = BASE_TYPES[field.baseType & 0x1f];
+    if (!type) return null;   // strings, 64-bit ints — not needed here
+    const count = Math.floor(field.size / type.size);
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+        const v = type.read(buf, offset + i * type.size, le);
+        if (type.invalid !== null && v === type.invalid) continue;
+        values.push(v);
+    }
+    if (count === 1) return values.length ? values[0] : null;
+    return values;
+}
+
+/** Decode every data message in a FIT file (or chain of FIT files) */
+export function decodeFit(buf: Buffer): FitMessage[] {
+    const messages: FitMessage[] = [];
+    let fileStart = 0;
+
+    while (fileStart + 12 <= buf.length) {
+        const headerSize = buf.readUInt8(fileStart);
+        if (headerSize < 12 || buf.toString('ascii', fileStart + 8, fileStart + 12) !== '.FIT') {
+            if (messages.length > 0) break;   // trailing bytes after a valid file
+            throw new ImportFormatError('Not a FIT file');
+        }
+        const dataSize = buf.readUInt32LE(fileStart + 4);
+        const end = Math.min(fileStart + headerSize + dataSize, buf.length);
+        const definitions = new Map<number, MessageDefinition>();
+        let lastTimestamp = 0;
+        let pos = fileStart + headerSize;
+
+        while (pos < end) {
+            const header = buf.readUInt8(pos++);
+
+            if (header & 0x80) {
+                // Compressed timestamp header: 5-bit offset from the last full timestamp
+                const localType = (header >> 5) & 0x03;
+                const offset = header & 0x1f;
+                lastTimestamp += (offset - (lastTimestamp & 0x1f)) & 0x1f;
+                const def = definitions.get(localType);
+                if (!def) throw new ImportFormatError('FIT data message without a definition');
+                const msg = readData(buf, pos, def);
+                msg.fields[TIMESTAMP_FIELD] = lastTimestamp;
+                messages.push(msg);
+                pos += dataLength(def);
+                continue;
+            }
+
+            const localType = header & 0x0f;
+            if (header & 0x40) {
+                const littleEndian = buf.readUInt8(pos + 1) === 0;
+                const globalNum = littleEndian ? buf.readUInt16LE(pos + 2) : buf.readUInt16BE(pos + 2);
+                const fieldCount = buf.readUInt8(pos + 4);
+                pos += 5;
+                const fields: FieldDefinition[] = [];
+                for (let i = 0; i < fieldCount; i++, pos += 3) {
+                    fields.push({ num: buf.readUInt8(pos), size: buf.readUInt8(pos + 1), baseType: buf.readUInt8(pos + 2) });
+                }
+                let devDataSize = 0;
+                if (header & 0x20) {
+                    const devCount = buf.readUInt8(pos++);
+                    for (let i = 0; i < devCount; i++, pos += 3) devDataSize += buf.readUInt8(pos + 1);
+                }
+                definitions.set(localType, { globalNum, littleEndian, fields, devDataSize });
+                continue;
+            }
+
+            const def = definitions.get(localType);
+            if (!def) throw new ImportFormatError('FIT data message without a definition');
+            const msg = readData(buf, pos, def);
+            const ts = msg.fields[TIMESTAMP_FIELD];
+            if (typeof ts === 'number') lastTimestamp = ts;
+            messages.push(msg);
+            pos += dataLength(def);
+        }
+
+        fileStart = end + 2;   // skip the file CRC
+    }
+    return messages;
+}
+
+function dataLength(def: MessageDefinition): number {
+    return def.fields.reduce((sum, f) => sum + f.size, 0) + def.devDataSize;
+}
+
+function readData(buf: Buffer, pos: number, def: MessageDefinition): FitMessage {
+    const fields: FitMessage['fields'] = {};
+    let offset = pos;
+    for (const field of def.fields) {
+        fields[field.num] = decodeField(buf, offset, field, def.littleEndian);
+        offset += field.size;
+    }
+    return { globalNum: def.globalNum, fields };
+}
+
+function num(value: number | number[] | null | undefined): number | null {
+    return typeof value === 'number' ? value : null;
+}
+
+/** Root mean square of successive differences, in ms, from beat intervals in seconds */
+function rmssd(intervals: number[]): number | null {
+    if (intervals.length < 10) return null;
+    let sum = 0;
+    for (let i = 1; i < intervals.length; i++) sum += ((intervals[i] - intervals[i - 1]) * 1000) ** 2;
+    return Math.sqrt(sum / (intervals.length - 1));
+}
+
+const SLEEP_DAY_SHIFT_SECONDS = 6 * 60 * 60;
+
+const SLEEP_LEVEL_METRIC = { 2: 'lightSleepMinutes', 3: 'deepSleepMinutes', 4: 'remSleepMinutes' } as const;
+
+/** Map decoded FIT messages from one or more files onto daily values */
+export function parseGarminFit(files: Buffer[]): ParsedImport {
+    const agg = new DailyAggregator();
+    const intervalsByDay = new Map<string, number[]>();
+    const summaryHrvDays = new Set<string>();
+
+    for (const file of files) {
+        const messages = decodeFit(file);
+
+        // Local time offset (seconds), if the file records one
+        let utcOffset = 0;
+        for (const m of messages) {
+            const local = m.globalNum === MSG.activity ? num(m.fields[5])
+                : m.globalNum === MSG.monitoringInfo ? num(m.fields[3])
+                : null;
+            const ts = num(m.fields[TIMESTAMP_FIELD]);
+            if (local !== null && ts !== null) { utcOffset = local - ts; break; }
+        }
+        const dayOf = (ts: number) => new Date((ts + FIT_EPOCH_OFFSET + utcOffset) * 1000).toISOString().split('T')[0];
+
+        let lastTs: number | null = null;
+        let sleepStage: { level: number; since: number } | null = null;
+
+        for (const m of messages) {
+            const ts = num(m.fields[TIMESTAMP_FIELD]);
+            if (ts !== null) lastTs = ts;
+            if (lastTs === null) continue;
+            const day = dayOf(lastTs);
+
+            switch (m.globalNum) {
+                case MSG.monitoring: {
+                    const hr = num(m.fields[27]);
+                    if (hr !== null && hr > 0) {
+                        agg.add(day, 'averageHeartRate', hr);
+                        agg.add(day, 'maxHeartRate', hr);
+                    }
+                    break;
+                }
+                case MSG.monitoringHrData: {
+                    const resting = num(m.fields[1]) ?? num(m.fields[0]);
+                    if (resting !== null && resting > 0) agg.add(day, 'restingHeartRate', resting);
+                    break;
+                }
+                case MSG.hrvStatusSummary: {
+                    const lastNight = num(m.fields[2]);
+                    if (lastNight !== null) {
+                        agg.add(day, 'hrvMs', lastNight / 128);
+                        summaryHrvDays.add(day);
+                    }
+                    break;
+                }
+                case MSG.hrv: {
+                    const times = m.fields[0];
+                    const list = Array.isArray(times) ? times : typeof times === 'number' ? [times] : [];
+                    const bucket = intervalsByDay.get(day) ?? [];
+                    for (const t of list) bucket.push(t / 1000);
+                    intervalsByDay.set(day, bucket);
+                    break;
+                }
+                case MSG.respirationRate: {
+                    const rate = num(m.fields[0]);
+                    if (rate !== null && rate > 0) agg.add(day, 'respiratoryRate', rate / 100);
+                    break;
+                }
+                case MSG.spo2Data: {
+                    const spo2 = num(m.fields[0]);
+                    if (spo2 !== null && spo2 > 0) agg.add(day, 'spo2Percentage', spo2);
+                    break;
+                }
+                case MSG.sleepLevel: {
+                    const level = num(m.fields[0]);
+                    if (level === null) break;
+                    // Sleep ending after 18:00 belongs to the next night
+                    if (sleepStage) addSleep(agg, dayOf(lastTs + SLEEP_DAY_SHIFT_SECONDS), sleepStage.level, (lastTs - sleepStage.since) / 60);
+                    sleepStage = { level, since: lastTs };
+                    break;
+                }
+                case MSG.session: {
+                    const timerTime = num(m.fields[8]);
+                    const maxHr = num(m.fields[17]);
+                    const startTime = num(m.fields[2]);
+                    const sessionDay = startTime !== null ? dayOf(startTime) : day;
+                    if (timerTime !== null) agg.add(sessionDay, 'activeMinutes', timerTime / 1000 / 60);
+                    if (maxHr !== null) agg.add(sessionDay, 'maxHeartRate', maxHr);
+                    break;
+                }
+            }
+        }
+    }
+
+    // Beat-to-beat HRV only where the device didn't write its own nightly summary
+    for (const [day, intervals] of intervalsByDay) {
+        if (summaryHrvDays.has(day)) continue;
+        const value = rmssd(intervals);
+        if (value !== null) agg.add(day, 'hrvMs', value);
+    }
+
+    return {
+        format: 'garmin_fit',
+        provider: 'garmin',
+        days: agg.build({
+            averageHeartRate: 'avg',
+            maxHeartRate: 'max',
+            restingHeartRate: 'min',
+            hrvMs: 'avg',
+            respiratoryRate: 'avg',
+            spo2Percentage: 'avg',
+            sleepHours: 'sum',
+            lightSleepMinutes: 'sum',
+            deepSleepMinutes: 'sum',
+            remSleepMinutes: 'sum',
+            activeMinutes: 'sum',
+        }),
+    };
+}
+
+function addSleep(agg: DailyAggregator, day: string, level: number, minutes: number): void {
+    if (!(minutes > 0)) return;
+    const metric = SLEEP_LEVEL_METRIC[level as keyof typeof SLEEP_LEVEL_METRIC];
+    if (!metric) return;   // unmeasurable / awake
+    agg.add(day, metric, minutes);
+    agg.add(day, 'sleepHours', minutes);
+}
@@ -0,0 +1,104 @@
+/**
+ * Shared shape for wearable file imports.
+ *
+ * Every parser (Apple Health XML, Garmin FIT, Oura/WHOOP CSV) reduces its
+ * file to one ImportedDay per calendar date, using the same units the
+ * biometric_data columns store, so the import service can write rows
+ * without knowing which format they came from.
+ */
+
+import type { BiometricData } from '@shared/schema';
+
+export type ImportFormat = 'apple_health_xml' | 'garmin_fit' | 'oura_csv' | 'whoop_csv';
+export type ImportProvider = 'apple_health' | 'garmin' | 'oura' | 'whoop';
+
+export type ImportedMetric =
+    | 'sleepScore' | 'sleepHours' | 'deepSleepMinutes' | 'remSleepMinutes' | 'lightSleepMinutes'
+    | 'hrvMs' | 'restingHeartRate' | 'averageHeartRate' | 'maxHeartRate'
+    | 'recoveryScore' | 'readinessScore' | 'strainScore'
+    | 'steps' | 'caloriesBurned' | 'activeMinutes'
+    | 'spo2Percentage' | 'skinTempCelsius' | 'respiratoryRate';
+
+/**
+ * One day of imported values in biometric_data units: sleepHours is total
+ * sleep in minutes, skinTempCelsius is °C × 10, everything else as named.
+ */
+export type ImportedDay = { date: string } & Partial<Pick<BiometricData, ImportedMetric>>;
+
+export interface ParsedImport {
+    format: ImportFormat;
+    provider: ImportProvider;
+    days: ImportedDay[];
+}
+
+export class ImportFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ImportFormatError';
+        Object.setPrototypeOf(this, ImportFormatError.prototype);
+    }
+}
+
+export type Reducer = 'sum' | 'avg' | 'min' | 'max';
+
+interface Bucket {
+    perSource: Map<string, number>;   // running sums, for 'sum'
+    total: number;
+    count: number;
+    min: number;
+    max: number;
+}
+
+/**
+ * Collects raw samples per day and metric, then reduces them.
+ *
+ * Sums are kept per source and the largest source wins, because exports
+ * that merge devices (Apple Health: iPhone + Watch) record the same steps
+ * once per device — adding them would double-count.
+ */
+export class DailyAggregator {
+    private days = new Map<string, Map<ImportedMetric, Bucket>>();
+
+    add(date: string, metric: ImportedMetric, value: number, source = ''): void {
+        if (!Number.isFinite(value)) return;
+        let metrics = this.days.get(date);
+        if (!metrics) {
+            metrics = new Map();
+            this.days.set(date, metrics);
+        }
+        let bucket = metrics.get(metric);
+        if (!bucket) {
+            bucket = { perSource: new Map(), total: 0, count: 0, min: Infinity, max: -Infinity };
+            metrics.set(metric, bucket);
+        }
+        bucket.perSource.set(source, (bucket.perSource.get(source) ?? 0) + value);
+        bucket.total += value;
+        bucket.count++;
+        bucket.min = Math.min(bucket.min, value);
+        bucket.max = Math.max(bucket.max, value);
+    }
+
+    /** Reduce to ImportedDay rows (oldest first); metrics without a reducer are dropped */
+    build(reducers: Partial<Record<ImportedMetric, Reducer>>): ImportedDay[] {
+        const out: ImportedDay[] = [];
+        for (const [date, metrics] of this.days) {
+            const day: ImportedDay = { date };
+            for (const [metric, bucket] of metrics) {
+                const reducer = reducers[metric];
+                if (!reducer) continue;
+                const value = reducer === 'sum' ? Math.max(...bucket.perSource.values())
+                    : reducer === 'avg' ? bucket.total / bucket.count
+                    : reducer === 'min' ? bucket.min
+                    : bucket.max;
+                day[metric] = toColumnValue(metric, value);
+            }
+            if (Object.keys(day).length > 1) out.push(day);
+        }
+        return out.sort((a, b) => a.date.localeCompare(b.date));
+    }
+}
+
+/** Round a raw value into its biometric_data column (temperature in °C is stored × 10) */
+export function toColumnValue(metric: ImportedMetric, value: number): number {
+    return Math.round(metric === 'skinTempCelsius' ? value * 10 : value);
+}
@@ -0,0 +1,110 @@
+/**
+ * Wearable export file detection.
+ *
+ * Accepts a bare export (export.xml, .fit, .csv) or a zip of one — Apple
+ * Health's export.zip, a folder of Garmin .fit files, or an Oura/WHOOP
+ * data download — and routes it to the matching parser.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import type { Readable } from 'stream';
+import { parseAppleHealthExport } from './apple-health';
+import { parseGarminFit } from './garmin-fit';
+import { parseWearableCsv } from './export-csv';
+import { isZipFile, listZipEntries, openZipEntry, readZipEntry, type ZipEntry } from './zip-reader';
+import { ImportFormatError, type ParsedImport } from './imported-day';
+
+export { ImportFormatError } from './imported-day';
+export type { ImportedDay, ImportFormat, ImportProvider, ParsedImport } from './imported-day';
+
+/** Largest single .fit/.csv we'll buffer; Apple's XML is streamed and has no cap */
+const MAX_BUFFERED_ENTRY_BYTES = 50 * 1024 * 1024;
+/** Cap on everything buffered from one archive (a Garmin folder is parsed all at once) */
+const MAX_BUFFERED_TOTAL_BYTES = 100 * 1024 * 1024;
+
+function lines(stream: Readable): AsyncIterable<string> {
+    return readline.createInterface({ input: stream, crlfDelay: Infinity });
+}
+
+function extension(name: string): string {
+    return path.extname(name).toLowerCase();
+}
+
+function isAppleExport(name: string): boolean {
+    return path.basename(name).toLowerCase() === 'export.xml';
+}
+
+/** Merge parsed CSVs of one provider (e.g. a WHOOP zip with several exports) */
+function mergeCsvResults(results: ParsedImport[]): ParsedImport {
+    const [first] = results;
+    const mixed = results.find(r => r.provider !== first.provider);
+    if (mixed) throw new ImportFormatError(`Archive mixes ${first.provider} and ${mixed.provider} exports — upload them separately`);
+    return { ...first, days: results.flatMap(r => r.days) };
+}
+
+async function parseZip(filePath: string): Promise<ParsedImport> {
+    const entries = await listZipEntries(filePath);
+    // Declared sizes are only a cheap early reject; the real limits are applied while inflating
+    let budget = MAX_BUFFERED_TOTAL_BYTES;
+    const buffered = async (entry: ZipEntry) => {
+        if (entry.uncompressedSize > MAX_BUFFERED_ENTRY_BYTES) {
+            throw new ImportFormatError(`${entry.name} is too large to import`);
+        }
+        const data = await readZipEntry(filePath, entry, Math.min(MAX_BUFFERED_ENTRY_BYTES, budget));
+        budget -= data.length;
+        return data;
+    };
+
+    const apple = entries.find(e => isAppleExport(e.name));
+    if (apple) return parseAppleHealthExport(lines(await openZipEntry(filePath, apple)));
+
+    const fitEntries = entries.filter(e => extension(e.name) === '.fit');
+    if (fitEntries.length > 0) {
+        const files: Buffer[] = [];
+        for (const entry of fitEntries) files.push(await buffered(entry));
+        return parseGarminFit(files);
+    }
+
+    const csvResults: ParsedImport[] = [];
+    for (const entry of entries.filter(e => extension(e.name) === '.csv')) {
+        const parsed = parseWearableCsv((await buffered(entry)).toString('utf8'));
+        if (parsed) csvResults.push(parsed);
+    }
+    if (csvResults.length > 0) return mergeCsvResults(csvResults);
+
+    throw new ImportFormatError('No Apple Health export.xml, Garmin .fit or Oura/WHOOP CSV found in the archive');
+}
+
+/**
+ * Detect and parse an uploaded export. `fileName` is the user's original
+ * name (used for the extension); `filePath` is where the upload lives on disk.
+ */
+export async function parseWearableFile(filePath: string, fileName: string): Promise<ParsedImport> {
+    const fd = await fs.promises.open(filePath, 'r');
+    const header = Buffer.alloc(12);
+    try {
+        await fd.read(header, 0, 12, 0);
+    } finally {
+        await fd.close();
+    }
+
+    if (isZipFile(header)) return parseZip(filePath);
+
+    const ext = extension(fileName);
+    if (ext === '.xml') return parseAppleHealthExport(lines(fs.createReadStream(filePath)));
+    const isFit = ext === '.fit' || header.toString('ascii', 8, 12) === '.FIT';
+    if ((isFit || ext === '.csv') && (await fs.promises.stat(filePath)).size > MAX_BUFFERED_ENTRY_BYTES) {
+        throw new ImportFormatError(`${fileName} is too large to import`);
+    }
+    if (isFit) {
+        return parseGarminFit([await fs.promises.readFile(filePath)]);
+    }
+    if (ext === '.csv') {
+        const parsed = parseWearableCsv(await fs.promises.readFile(filePath, 'utf8'));
+        if (!parsed) throw new ImportFormatError('CSV headers don\'t match an Oura or WHOOP export');
+        return parsed;
+    }
+    throw new ImportFormatError('Unsupported file — upload an Apple Health export.zip, Garmin .fit, or Oura/WHOOP .csv');
+}
@@ -0,0 +1,155 @@
+/**
+ * Minimal streaming ZIP reader for wearable exports.
+ *
+ * Apple Health's export.zip routinely holds an export.xml of several GB, so
+ * entries are never inflated into memory: the central directory is read from
+ * the end of the file and each entry is streamed through zlib on demand.
+ * Supports stored and deflated entries and ZIP64 sizes/offsets, which is
+ * everything Apple, Garmin, Oura and WHOOP produce.
+ */
+
+import fs from 'fs';
+import zlib from 'zlib';
+import { Readable } from 'stream';
+import { ImportFormatError } from './imported-day';
+
+export interface ZipEntry {
+    name: string;
+    method: number;             // 0 = stored, 8 = deflate
+    compressedSize: number;
+    uncompressedSize: number;
+    localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const MAX_COMMENT = 0xffff;
+
+async function readAt(fd: fs.promises.FileHandle, position: number, length: number): Promise<Buffer> {
+    const buf = Buffer.alloc(length);
+    const { bytesRead } = await fd.read(buf, 0, length, position);
+    return buf.subarray(0, bytesRead);
+}
+
+export function isZipFile(header: Buffer): boolean {
+    return header.length >= 4 && header.readUInt32LE(0) === LOCAL_SIGNATURE;
+}
+
+/** List the entries of a zip archive on disk (directories excluded) */
+export async function listZipEntries(filePath: string): Promise<ZipEntry[]> {
+    const fd = await fs.promises.open(filePath, 'r');
+    try {
+        const { size } = await fd.stat();
+        const tailLength = Math.min(size, MAX_COMMENT + 22);
+        const tail = await readAt(fd, size - tailLength, tailLength);
+
+        let eocd = -1;
+        for (let i = tail.length - 22; i >= 0; i--) {
+            if (tail.readUInt32LE(i) === EOCD_SIGNATURE) { eocd = i; break; }
+        }
+        if (eocd < 0) throw new ImportFormatError('Not a valid zip archive');
+
+        let entryCount = tail.readUInt16LE(eocd + 10);
+        let cdSize = tail.readUInt32LE(eocd + 12);
+        let cdOffset = tail.readUInt32LE(eocd + 16);
+
+        const locator = eocd - 20;
+        if (locator >= 0 && tail.readUInt32LE(locator) === ZIP64_LOCATOR_SIGNATURE) {
+            const zip64Offset = Number(tail.readBigUInt64LE(locator + 8));
+            const record = await readAt(fd, zip64Offset, 56);
+            if (record.readUInt32LE(0) === ZIP64_EOCD_SIGNATURE) {
+                entryCount = Number(record.readBigUInt64LE(32));
+                cdSize = Number(record.readBigUInt64LE(40));
+                cdOffset = Number(record.readBigUInt64LE(48));
+            }
+        }
+
+        const cd = await readAt(fd, cdOffset, cdSize);
+        const entries: ZipEntry[] = [];
+        let pos = 0;
+        for (let i = 0; i < entryCount && pos + 46 <= cd.length; i++) {
+            if (cd.readUInt32LE(pos) !== CENTRAL_SIGNATURE) throw new ImportFormatError('Corrupt zip central directory');
+            const method = cd.readUInt16LE(pos + 10);
+            let compressedSize = cd.readUInt32LE(pos + 20);
+            let uncompressedSize = cd.readUInt32LE(pos + 24);
+            const nameLength = cd.readUInt16LE(pos + 28);
+            const extraLength = cd.readUInt16LE(pos + 30);
+            const commentLength = cd.readUInt16LE(pos + 32);
+            let localHeaderOffset = cd.readUInt32LE(pos + 42);
+            const name = cd.toString('utf8', pos + 46, pos + 46 + nameLength);
+
+            // ZIP64: 0xFFFFFFFF placeholders are replaced, in order, from the 0x0001 extra field
+            let extra = pos + 46 + nameLength;
+            const extraEnd = extra + extraLength;
+            while (extra + 4 <= extraEnd) {
+                const id = cd.readUInt16LE(extra);
+                const len = cd.readUInt16LE(extra + 2);
+                if (id === 0x0001) {
+                    let p = extra + 4;
+                    if (uncompressedSize === 0xffffffff) { uncompressedSize = Number(cd.readBigUInt64LE(p)); p += 8; }
+                    if (compressedSize === 0xffffffff) { compressedSize = Number(cd.readBigUInt64LE(p)); p += 8; }
+                    if (localHeaderOffset === 0xffffffff) { localHeaderOffset = Number(cd.readBigUInt64LE(p)); }
+                }
+                extra += 4 + len;
+            }
+
+            if (!name.endsWith('/')) {
+                entries.push({ name, method, compressedSize, uncompressedSize, localHeaderOffset });
+            }
+            pos += 46 + nameLength + extraLength + commentLength;
+        }
+        return entries;
+    } finally {
+        await fd.close();
+    }
+}
+
+/** Stream one entry's uncompressed bytes */
+export async function openZipEntry(filePath: string, entry: ZipEntry): Promise<Readable> {
+    if (entry.method !== 0 && entry.method !== 8) {
+        throw new ImportFormatError(`Unsupported zip compression method ${entry.method} for ${entry.name}`);
+    }
+    const fd = await fs.promises.open(filePath, 'r');
+    let header: Buffer;
+    try {
+        header = await readAt(fd, entry.localHeaderOffset, 30);
+    } finally {
+        await fd.close();
+    }
+    if (header.length < 30 || header.readUInt32LE(0) !== LOCAL_SIGNATURE) {
+        throw new ImportFormatError(`Corrupt zip entry ${entry.name}`);
+    }
+    const dataStart = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+    if (entry.compressedSize === 0) {
+        return Readable.from([]);
+    }
+    const raw = fs.createReadStream(filePath, { start: dataStart, end: dataStart + entry.compressedSize - 1 });
+    if (entry.method === 0) return raw;
+    const inflate = zlib.createInflateRaw();
+    raw.on('error', err => inflate.destroy(err));
+    return raw.pipe(inflate);
+}
+
+/**
+ * Read a (small) entry fully into memory. `maxBytes` is enforced on the
+ * bytes actually inflated, not on the size the archive declares, so a zip
+ * bomb is cut off as soon as it passes the limit.
+ */
+export async function readZipEntry(filePath: string, entry: ZipEntry, maxBytes: number): Promise<Buffer> {
+    const stream = await openZipEntry(filePath, entry);
+    const chunks: Buffer[] = [];
+    let total = 0;
+    try {
+        for await (const chunk of stream) {
+            total += (chunk as Buffer).length;
+            if (total > maxBytes) throw new ImportFormatError(`${entry.name} is too large to import`);
+            chunks.push(chunk as Buffer);
+        }
+    } finally {
+        stream.destroy();
+    }
+    return Buffer.concat(chunks);
+}
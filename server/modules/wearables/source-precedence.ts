@@ -0,0 +1,145 @@
+/**
+ * Multi-provider merge for daily biometrics.
+ *
+ * A user with several devices gets the same metric from more than one
+ * provider on a day (Oura and WHOOP both scoring sleep, a phone and a
+ * watch both counting steps). Values are offered per metric id from
+ * shared/metricCatalog.ts and one is picked per day: the user's preferred
+ * source first, then the catalog's default precedence. Each picked value
+ * keeps its provenance so callers can say where a number came from.
+ */
+
+import {
+    METRIC_MAP,
+    canonicalProviderSlug,
+    sourcePrecedence,
+    type MetricSourcePreferences,
+} from '@shared/metricCatalog';
+
+export interface MetricProvenance {
+    provider: string;
+    /** How the value reached us: a Junction sync or an uploaded export file */
+    via: 'junction' | 'import';
+}
+
+export interface ResolvedMetric extends MetricProvenance {
+    value: number;
+}
+
+export type DayProvenance = Record<string, MetricProvenance>;
+
+export class DailyMetricMerger {
+    // date → metric id → provider → candidate
+    private readonly candidates = new Map<string, Map<string, Map<string, ResolvedMetric>>>();
+    private readonly rankings = new Map<string, string[]>();
+
+    constructor(private readonly preferences: MetricSourcePreferences | null = null) {}
+
+    /**
+     * Offer one provider's value for a metric on a day. Missing and zero
+     * values are ignored (devices report 0 when they weren't worn). A
+     * provider's first value sticks unless `replace` is set, for when a
+     * more specific field should beat an earlier fallback from the same
+     * device.
+     */
+    offer(date: string, metricId: string, value: number | null | undefined, source: MetricProvenance, replace = false): void {
+        if (value == null || !Number.isFinite(value) || value === 0) return;
+        const provider = canonicalProviderSlug(source.provider || 'unknown');
+
+        let byMetric = this.candidates.get(date);
+        if (!byMetric) this.candidates.set(date, byMetric = new Map());
+        let byProvider = byMetric.get(metricId);
+        if (!byProvider) byMetric.set(metricId, byProvider = new Map());
+
+        const existing = byProvider.get(provider);
+        // Junction data beats an import of the same device for the same day
+        if (existing && !replace && !(existing.via === 'import' && source.via === 'junction')) return;
+        byProvider.set(provider, { value, provider, via: source.via });
+    }
+
+    dates(): string[] {
+        return Array.from(this.candidates.keys()).sort();
+    }
+
+    /** Winning value per metric id for one day */
+    resolve(date: string): Record<string, ResolvedMetric> {
+        const resolved: Record<string, ResolvedMetric> = {};
+        for (const [metricId, byProvider] of this.candidates.get(date) ?? []) {
+            const ranking = this.ranking(metricId);
+            const rank = (provider: string) => {
+                const index = ranking.indexOf(provider);
+                return index === -1 ? ranking.length : index;
+            };
+            // Map iteration is insertion order, so unranked providers fall back to first-seen
+            let best: ResolvedMetric | undefined;
+            for (const candidate of byProvider.values()) {
+                if (!best || rank(candidate.provider) < rank(best.provider)) best = candidate;
+            }
+            if (best) resolved[metricId] = best;
+        }
+        return resolved;
+    }
+
+    private ranking(metricId: string): string[] {
+        let ranking = this.rankings.get(metricId);
+        if (!ranking) {
+            ranking = sourcePrecedence(metricId, this.preferences);
+            this.rankings.set(metricId, ranking);
+        }
+        return ranking;
+    }
+}
+
+/** Split resolved metrics into plain values and their provenance */
+export function splitResolved(resolved: Record<string, ResolvedMetric>): {
+    values: Record<string, number>;
+    provenance: DayProvenance;
+} {
+    const values: Record<string, number> = {};
+    const provenance: DayProvenance = {};
+    for (const [metricId, { value, provider, via }] of Object.entries(resolved)) {
+        values[metricId] = value;
+        provenance[metricId] = { provider, via };
+    }
+    return { values, provenance };
+}
+
+/** The provider that supplied the most metrics on a day */
+export function primaryProvider(provenance: DayProvenance): string | undefined {
+    const counts = new Map<string, number>();
+    for (const { provider } of Object.values(provenance)) counts.set(provider, (counts.get(provider) ?? 0) + 1);
+    let best: string | undefined;
+    for (const [provider, count] of counts) {
+        if (best === undefined || count > counts.get(best)!) best = provider;
+    }
+    return best;
+}
+
+/**
+ * Which provider supplied which metrics across a window, most-used provider
+ * first — e.g. [{ provider: 'oura', metrics: ['Sleep Duration', 'HRV'] }].
+ * A metric is credited to the provider that supplied it on the most days.
+ */
+export function summarizeProvenance(days: Array<{ provenance?: DayProvenance }>): Array<{ provider: string; metrics: string[] }> {
+    const counts = new Map<string, Map<string, number>>();   // metric → provider → days
+    for (const day of days) {
+        for (const [metricId, { provider }] of Object.entries(day.provenance ?? {})) {
+            let byProvider = counts.get(metricId);
+            if (!byProvider) counts.set(metricId, byProvider = new Map());
+            byProvider.set(provider, (byProvider.get(provider) ?? 0) + 1);
+        }
+    }
+
+    const byProvider = new Map<string, string[]>();
+    for (const [metricId, providers] of counts) {
+        const [provider] = Array.from(providers.entries()).sort((a, b) => b[1] - a[1])[0];
+        const label = METRIC_MAP.get(metricId)?.shortLabel;
+        if (!label) continue;
+        const metrics = byProvider.get(provider) ?? [];
+        if (!metrics.includes(label)) metrics.push(label);
+        byProvider.set(provider, metrics);
+    }
+    return Array.from(byProvider.entries())
+        .map(([provider, metrics]) => ({ provider, metrics }))
+        .sort((a, b) => b.metrics.length - a.metrics.length);
+}
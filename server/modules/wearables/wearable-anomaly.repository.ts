@@ -0,0 +1,39 @@
+import { db } from '../../infra/db/db';
+import { wearableAnomalies, type WearableAnomaly, type InsertWearableAnomaly } from '@shared/schema';
+import { eq, and, desc, gte } from 'drizzle-orm';
+
+export class WearableAnomalyRepository {
+    /**
+     * Store a finding. Returns undefined when the same pattern was already
+     * recorded for that user and day, so re-runs don't alert twice.
+     */
+    async insertFinding(finding: InsertWearableAnomaly): Promise<WearableAnomaly | undefined> {
+        const [row] = await db
+            .insert(wearableAnomalies)
+            .values(finding)
+            .onConflictDoNothing()
+            .returning();
+        return row || undefined;
+    }
+
+    async markNotified(id: string): Promise<void> {
+        await db
+            .update(wearableAnomalies)
+            .set({ notifiedAt: new Date() })
+            .where(eq(wearableAnomalies.id, id));
+    }
+
+    /** Findings for days on or after `sinceDate` (YYYY-MM-DD), newest first */
+    async listRecent(userId: string, sinceDate: string): Promise<WearableAnomaly[]> {
+        return db
+            .select()
+            .from(wearableAnomalies)
+            .where(and(
+                eq(wearableAnomalies.userId, userId),
+                gte(wearableAnomalies.detectedFor, sinceDate),
+            ))
+            .orderBy(desc(wearableAnomalies.detectedFor), desc(wearableAnomalies.createdAt));
+    }
+}
+
+export const wearableAnomalyRepository = new WearableAnomalyRepository();
@@ -0,0 +1,168 @@
+/**
+ * Wearable Anomaly Service
+ *
+ * Daily pass over biometric_data: builds each user's recent daily readings,
+ * runs the anomaly detector on their latest day and stores any findings in
+ * wearable_anomalies (which the Health Pulse views read back). New findings
+ * are sent in-app, and 'alert' severity ones by email too — all through the
+ * notification gate (topic 'wearable_anomaly') so they share the per-user
+ * daily cap and a multi-day pattern only alerts once per cooldown.
+ */
+
+import type { WearableAnomaly } from '@shared/schema';
+import { wearablesRepository } from './wearables.repository';
+import { wearableAnomalyRepository } from './wearable-anomaly.repository';
+import {
+    detectAnomalies,
+    toDailyReadings,
+    BASELINE_GAP_DAYS,
+    BASELINE_WINDOW_DAYS,
+    OVERTRAINING_MIN_DAYS,
+    type AnomalyFinding,
+    type AnomalyPattern,
+} from './anomaly-detector';
+import { usersRepository } from '../users/users.repository';
+import { notificationGate } from '../notifications/notification-gate.service';
+import { notificationsService } from '../notifications/notifications.service';
+import { sendNotificationEmail } from '../../utils/emailService';
+import { getFrontendUrl } from '../../utils/urlHelper';
+import logger from '../../infra/logging/logger';
+
+/** Only evaluate a user whose latest reading is at most this many days old */
+export const MAX_DATA_AGE_DAYS = 2;
+
+/** How far back the Health Pulse views look for findings */
+export const RECENT_FINDINGS_DAYS = 7;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const SOURCE = 'wearable_anomaly_detector';
+
+// Enough history for a full baseline behind every day of the overtraining streak
+const HISTORY_DAYS = BASELINE_WINDOW_DAYS + BASELINE_GAP_DAYS + OVERTRAINING_MIN_DAYS + MAX_DATA_AGE_DAYS;
+
+const PATTERN_TITLES: Record<AnomalyPattern, string> = {
+    illness_onset: 'Your body may be fighting something off',
+    overtraining: 'Signs of accumulated strain',
+    poor_recovery: 'Recovery is running low',
+};
+
+function toDateString(date: Date): string {
+    return date.toISOString().split('T')[0];
+}
+
+export class WearableAnomalyService {
+    /** Run the detector over one user's latest day of data; returns findings not stored before */
+    async evaluateUser(userId: string, today = new Date()): Promise<WearableAnomaly[]> {
+        const rows = await wearablesRepository.getBiometricData(userId, new Date(today.getTime() - HISTORY_DAYS * MS_PER_DAY), today);
+        const days = toDailyReadings(rows);
+        const latest = days[days.length - 1];
+        if (!latest) return [];
+        if (latest.date < toDateString(new Date(today.getTime() - MAX_DATA_AGE_DAYS * MS_PER_DAY))) return [];
+
+        const stored: WearableAnomaly[] = [];
+        for (const finding of detectAnomalies(days, latest.date)) {
+            const row = await wearableAnomalyRepository.insertFinding({
+                userId,
+                detectedFor: finding.date,
+                pattern: finding.pattern,
+                severity: finding.severity,
+                signals: finding.signals,
+                summary: finding.summary,
+            });
+            if (row) stored.push(row);
+        }
+        return stored;
+    }
+
+    /**
+     * Daily run over every user with recent wearable data. Findings are
+     * idempotent per user/day/pattern, so a re-run stores and alerts nothing new.
+     */
+    async runDetectionCycle(today = new Date()): Promise<{ usersChecked: number; findings: number; alertsSent: number; failed: number }> {
+        const userIds = await wearablesRepository.listUserIdsWithBiometricDataSince(
+            new Date(today.getTime() - MAX_DATA_AGE_DAYS * MS_PER_DAY),
+        );
+        let findings = 0;
+        let alertsSent = 0;
+        let failed = 0;
+
+        for (const userId of userIds) {
+            try {
+                const stored = await this.evaluateUser(userId, today);
+                findings += stored.length;
+                // Most serious first; the gate cooldown lets only one through per topic anyway
+                const sorted = [...stored].sort((a, b) => (a.severity === 'alert' ? 0 : 1) - (b.severity === 'alert' ? 0 : 1));
+                for (const finding of sorted) {
+                    if (await this.sendAlert(userId, finding)) {
+                        await wearableAnomalyRepository.markNotified(finding.id);
+                        alertsSent++;
+                    }
+                }
+            } catch (err) {
+                failed++;
+                logger.error('[WearableAnomaly] Failed to process user', { userId, error: err instanceof Error ? err.message : err });
+            }
+        }
+
+        logger.info('[WearableAnomaly] Cycle complete', { usersChecked: userIds.length, findings, alertsSent, failed });
+        return { usersChecked: userIds.length, findings, alertsSent, failed };
+    }
+
+    async getRecentFindings(userId: string, today = new Date()): Promise<WearableAnomaly[]> {
+        const since = toDateString(new Date(today.getTime() - RECENT_FINDINGS_DAYS * MS_PER_DAY));
+        return wearableAnomalyRepository.listRecent(userId, since);
+    }
+
+    /** Returns true if at least one channel went out */
+    private async sendAlert(userId: string, finding: Pick<AnomalyFinding, 'pattern' | 'severity' | 'summary'> & { detectedFor: string }): Promise<boolean> {
+        const user = await usersRepository.getUser(userId);
+        if (!user) return false;
+
+        const firstName = user.name?.split(' ')[0] || 'there';
+        const title = PATTERN_TITLES[finding.pattern];
+        const gateMeta = { pattern: finding.pattern, severity: finding.severity, detectedFor: finding.detectedFor };
+        let sent = false;
+
+        if (finding.severity === 'alert' && user.email && await notificationsService.shouldSendEmail(userId, 'consultation')) {
+            if (await notificationGate.canSend(userId, 'wearable_anomaly', 'email')) {
+                const ok = await sendNotificationEmail({
+                    to: user.email,
+                    subject: title,
+                    title,
+                    type: 'consultation_reminder',
+                    content: `
+                        <p>Hi ${firstName},</p>
+                        <p>${finding.summary}</p>
+                        <p>This isn't a diagnosis — it's a change from your own normal worth paying attention to. If you feel unwell or it persists, check in with your doctor.</p>
+                    `,
+                    actionUrl: `${getFrontendUrl()}/dashboard`,
+                    actionText: 'View Health Pulse',
+                });
+                if (ok) {
+                    await notificationGate.record(userId, SOURCE, 'wearable_anomaly', 'email', gateMeta);
+                    sent = true;
+                }
+            }
+        }
+
+        if (await notificationGate.canSend(userId, 'wearable_anomaly', 'in_app')) {
+            try {
+                await notificationsService.create({
+                    userId,
+                    type: 'consultation_reminder',
+                    title,
+                    content: finding.summary,
+                    metadata: { actionUrl: '/dashboard', icon: 'activity', priority: finding.severity === 'alert' ? 'high' : 'medium' },
+                });
+                await notificationGate.record(userId, SOURCE, 'wearable_anomaly', 'in_app', gateMeta);
+                sent = true;
+            } catch (err) {
+                logger.error('[WearableAnomaly] In-app notification failed', { userId, error: err });
+            }
+        }
+
+        return sent;
+    }
+}
+
+export const wearableAnomalyService = new WearableAnomalyService();
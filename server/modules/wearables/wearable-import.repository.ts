@@ -0,0 +1,100 @@
+import { db } from '../../infra/db/db';
+import {
+    biometricData,
+    wearableImports,
+    type BiometricData,
+    type InsertBiometricData,
+    type InsertWearableImport,
+    type WearableImport,
+} from '@shared/schema';
+import { eq, and, desc, gte, lte, isNotNull } from 'drizzle-orm';
+
+const INSERT_BATCH_SIZE = 500;
+
+export class WearableImportRepository {
+    async createImport(record: InsertWearableImport): Promise<WearableImport> {
+        const [row] = await db.insert(wearableImports).values(record).returning();
+        return row;
+    }
+
+    async updateImport(id: string, updates: Partial<InsertWearableImport>): Promise<WearableImport> {
+        const [row] = await db.update(wearableImports).set(updates).where(eq(wearableImports.id, id)).returning();
+        return row;
+    }
+
+    async listImports(userId: string, limit = 20): Promise<WearableImport[]> {
+        return db
+            .select()
+            .from(wearableImports)
+            .where(eq(wearableImports.userId, userId))
+            .orderBy(desc(wearableImports.createdAt))
+            .limit(limit);
+    }
+
+    /** Existing rows for one provider in a date range, to dedupe an import against */
+    async getProviderDays(
+        userId: string,
+        provider: InsertBiometricData['provider'],
+        startDate: Date,
+        endDate: Date,
+    ): Promise<Array<{ id: string; dataDate: Date; importId: string | null }>> {
+        return db
+            .select({ id: biometricData.id, dataDate: biometricData.dataDate, importId: biometricData.importId })
+            .from(biometricData)
+            .where(and(
+                eq(biometricData.userId, userId),
+                eq(biometricData.provider, provider),
+                gte(biometricData.dataDate, startDate),
+                lte(biometricData.dataDate, endDate),
+            ));
+    }
+
+    /** Rows written by file imports (any provider) in a date range */
+    async listImportedDays(userId: string, startDate: Date, endDate: Date): Promise<BiometricData[]> {
+        return db
+            .select()
+            .from(biometricData)
+            .where(and(
+                eq(biometricData.userId, userId),
+                isNotNull(biometricData.importId),
+                gte(biometricData.dataDate, startDate),
+                lte(biometricData.dataDate, endDate),
+            ))
+            .orderBy(biometricData.dataDate);
+    }
+
+    /**
+     * Write an import's days and mark it completed in one transaction, so a
+     * failure part-way leaves neither partial rows nor a "completed" record.
+     */
+    async commitDays(
+        importId: string,
+        days: {
+            inserts: InsertBiometricData[];
+            replacements: Array<{ id: string; values: Partial<InsertBiometricData> }>;
+            daysSkipped: number;
+        },
+    ): Promise<WearableImport> {
+        return db.transaction(async (tx) => {
+            for (const { id, values } of days.replacements) {
+                await tx.update(biometricData).set({ ...values, syncedAt: new Date() }).where(eq(biometricData.id, id));
+            }
+            for (let i = 0; i < days.inserts.length; i += INSERT_BATCH_SIZE) {
+                await tx.insert(biometricData).values(days.inserts.slice(i, i + INSERT_BATCH_SIZE)).onConflictDoNothing();
+            }
+            const [row] = await tx
+                .update(wearableImports)
+                .set({
+                    status: 'completed',
+                    daysImported: days.inserts.length,
+                    daysUpdated: days.replacements.length,
+                    daysSkipped: days.daysSkipped,
+                })
+                .where(eq(wearableImports.id, importId))
+                .returning();
+            return row;
+        });
+    }
+}
+
+export const wearableImportRepository = new WearableImportRepository();
@@ -0,0 +1,127 @@
+/**
+ * Wearable File Import Service
+ *
+ * Backfills biometric_data from export files for users who can't (or
+ * don't want to) sync a device through Junction, or who want years of
+ * history. Each upload is parsed to one row per day and deduped against
+ * what the user already has for that provider:
+ *
+ *   - days already synced through Junction are kept and skipped
+ *   - days written by an earlier import are overwritten (a newer export
+ *     is a superset of an older one)
+ *   - everything else is inserted
+ *
+ * Imported rows carry import_id, so getMergedBiometricData can fold them in
+ * alongside Junction data.
+ */
+
+import type { InsertBiometricData, WearableImport } from '@shared/schema';
+import { wearableImportRepository } from './wearable-import.repository';
+import { parseWearableFile, ImportFormatError, type ImportedDay, type ParsedImport } from './importers';
+import logger from '../../infra/logging/logger';
+
+export class WearableImportService {
+    /**
+     * Parse and store an uploaded export. Throws ImportFormatError (after
+     * recording a failed import) when the file isn't a recognised export.
+     */
+    async importFile(userId: string, file: { path: string; name: string }): Promise<WearableImport> {
+        let parsed: ParsedImport;
+        try {
+            parsed = await parseWearableFile(file.path, file.name);
+            if (parsed.days.length === 0) {
+                throw new ImportFormatError('No daily wearable data found in this export');
+            }
+        } catch (err) {
+            if (err instanceof ImportFormatError) {
+                await this.recordFailure(userId, file.name, err.message);
+            }
+            throw err;
+        }
+
+        const { days, provider, format } = parsed;
+        const firstDate = days[0].date;
+        const lastDate = days[days.length - 1].date;
+        const record = await wearableImportRepository.createImport({
+            userId,
+            provider,
+            format,
+            fileName: file.name,
+            status: 'pending',
+            firstDate,
+            lastDate,
+        });
+
+        try {
+            const existing = await wearableImportRepository.getProviderDays(userId, provider, new Date(firstDate), new Date(lastDate));
+            const existingByDate = new Map(existing.map(row => [row.dataDate.toISOString().split('T')[0], row]));
+
+            const inserts: InsertBiometricData[] = [];
+            const replacements: Array<{ id: string; values: InsertBiometricData }> = [];
+            let daysSkipped = 0;
+            for (const day of days) {
+                const current = existingByDate.get(day.date);
+                if (current && !current.importId) {
+                    daysSkipped++;
+                    continue;
+                }
+                const values = this.toRow(userId, provider, record.id, day);
+                if (current) {
+                    replacements.push({ id: current.id, values });
+                } else {
+                    inserts.push(values);
+                }
+            }
+
+            const completed = await wearableImportRepository.commitDays(record.id, { inserts, replacements, daysSkipped });
+            logger.info('[WearableImport] Import complete', {
+                userId,
+                provider,
+                format,
+                daysImported: inserts.length,
+                daysUpdated: replacements.length,
+                daysSkipped,
+            });
+            return completed;
+        } catch (err) {
+            logger.error('[WearableImport] Failed to write imported days', { userId, importId: record.id, error: err });
+            try {
+                await wearableImportRepository.updateImport(record.id, { status: 'failed', error: 'Import could not be saved — please try again' });
+            } catch (updateErr) {
+                logger.error('[WearableImport] Failed to mark import as failed', { userId, importId: record.id, error: updateErr });
+            }
+            throw err;
+        }
+    }
+
+    async listImports(userId: string): Promise<WearableImport[]> {
+        return wearableImportRepository.listImports(userId);
+    }
+
+    private toRow(userId: string, provider: ParsedImport['provider'], importId: string, day: ImportedDay): InsertBiometricData {
+        const { date, ...metrics } = day;
+        return {
+            userId,
+            provider,
+            importId,
+            connectionId: null,
+            dataDate: new Date(date),
+            ...metrics,
+        };
+    }
+
+    private async recordFailure(userId: string, fileName: string, error: string): Promise<void> {
+        try {
+            await wearableImportRepository.createImport({
+                userId,
+                fileName,
+                status: 'failed',
+                error,
+            });
+        } catch (err) {
+            logger.error('[WearableImport] Failed to record failed import', { userId, error: err });
+        }
+    }
+}
+
+export const wearableImportService = new WearableImportService();
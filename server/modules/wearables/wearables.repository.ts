@@ -286,6 +286,15 @@ export class WearablesRepository {
         }
     }
 
+    /** Users with at least one biometric row on or after `since` */
+    async listUserIdsWithBiometricDataSince(since: Date): Promise<string[]> {
+        const rows = await db
+            .selectDistinct({ userId: biometricData.userId })
+            .from(biometricData)
+            .where(gte(biometricData.dataDate, since));
+        return rows.map(r => r.userId);
+    }
+
     async getBiometricData(userId: string, startDate: Date, endDate: Date): Promise<any[]> {
         try {
             const rows = await db
@@ -1,11 +1,12 @@
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
 import { wearablesRepository } from './wearables.repository';
+import { wearableAnomalyRepository } from './wearable-anomaly.repository';
+import { wearableImportRepository } from './wearable-import.repository';
+import { DailyMetricMerger, primaryProvider, splitResolved } from './source-precedence';
 import { filesRepository } from '../files/files.repository';
 import { formulasRepository } from '../formulas/formulas.repository';
 import { usersRepository } from '../users/users.repository';
 import logger from '../../infra/logging/logger';
-import { aiRuntimeSettings } from '../../infra/ai/ai-config';
+import { complete } from '../../infra/ai/llm-gateway';
 import { parseAiJson } from '../../utils/parseAiJson';
 import {
     getOrCreateJunctionUser,
@@ -20,6 +21,7 @@ import {
     PROVIDER_MAP,
     PROVIDER_DISPLAY_NAMES,
 } from '../../junction';
+import { sanitizeMetricSourcePreferences, type MetricSourcePreferences } from '@shared/metricCatalog';
 
 const PILLAR_META: Record<string, { label: string; description: string }> = {
     sleep: { label: 'Sleep', description: 'Sleep duration, stages & quality' },
@@ -88,6 +90,30 @@ function reportChronoTime(report: any): number {
     return new Date(report?.uploadedAt || 0).getTime();
 }
 
+/** getBiometricData response fields → catalog metric ids (body_temperature has no catalog entry) */
+const DAILY_FIELDS: Record<string, Record<string, string>> = {
+    sleep: { score: 'sleep_score', totalMinutes: 'sleep_duration', deepSleepMinutes: 'deep_sleep', remSleepMinutes: 'rem_sleep', lightSleepMinutes: 'light_sleep', efficiency: 'sleep_efficiency' },
+    heart: { hrvMs: 'hrv', restingRate: 'resting_hr_sleep', averageRate: 'avg_heart_rate', maxRate: 'max_heart_rate' },
+    activity: { steps: 'steps', caloriesBurned: 'total_calories', activeMinutes: 'active_minutes', distance: 'distance', floorsClimbed: 'floors_climbed' },
+    body: { weight: 'weight', bodyFat: 'body_fat', temperature: 'body_temperature', spo2: 'blood_oxygen', respiratoryRate: 'respiratory_rate_sleep' },
+};
+
+/** getMergedBiometricData response fields → catalog metric ids */
+const MERGED_FIELDS = {
+    sleep: { totalMinutes: 'sleep_duration', deepMinutes: 'deep_sleep', remMinutes: 'rem_sleep', lightMinutes: 'light_sleep', score: 'sleep_score', hrvMs: 'hrv' },
+    activity: { steps: 'steps', calories: 'active_calories', distance: 'distance', activeMinutes: 'active_minutes' },
+    body: { weight: 'weight', bodyFat: 'body_fat' },
+};
+
+/** Lay resolved metric values out under response field names; undefined when none are present */
+function pickMetrics(values: Record<string, number>, fields: Record<string, string>): Record<string, number> | undefined {
+    const picked: Record<string, number> = {};
+    for (const [field, metricId] of Object.entries(fields)) {
+        if (values[metricId] != null) picked[field] = values[metricId];
+    }
+    return Object.keys(picked).length > 0 ? picked : undefined;
+}
+
 export class WearablesService {
     private normalizeConnectProvider(provider?: string): string | undefined {
         const normalized = String(provider || '').trim().toLowerCase();
@@ -601,28 +627,34 @@ export class WearablesService {
         ]);
         logger.debug('[Wearables:getBiometricData] Junction API results', { sleepCount: sleepData.length, activityCount: activityData.length, bodyCount: bodyData.length });
 
-        const dataByDate = new Map<string, any>();
+        const fromProvider = (item: any) => !provider || item.source?.slug === provider;
+        const merger = new DailyMetricMerger(await this.getMetricSourcePreferences(userId));
+        const offer = (dateKey: string, item: any, values: Record<string, number | null | undefined>, replace = false) => {
+            const source = { provider: item.source?.slug || 'junction', via: 'junction' as const };
+            for (const [metricId, value] of Object.entries(values)) merger.offer(dateKey, metricId, value, source, replace);
+        };
 
         // Pre-collapse sleep sessions: Oura/Junction returns one row per session,
-        // so naps share the calendar_date with the main sleep. If we iterate them
-        // all in order, later sessions overwrite `entry.sleep` and a 1-minute nap
-        // ends up representing the whole night in the AI's context. Keep the
-        // longest session per date (preferring Oura's 'long_sleep' type) so the
-        // chat / formula engine reasons about the actual night of sleep.
+        // so naps share the calendar_date with the main sleep. If every session
+        // were offered, a 1-minute nap could end up representing the whole night
+        // in the AI's context. Keep the longest session per date and provider
+        // (preferring Oura's 'long_sleep' type) so the chat / formula engine
+        // reasons about the actual night of sleep.
         const sleepByDate = new Map<string, any>();
-        for (const sleep of sleepData as any[]) {
+        for (const sleep of (sleepData as any[]).filter(fromProvider)) {
             const dateKey = sleep.calendarDate || sleep.calendar_date || sleep.date?.split('T')[0];
             if (!dateKey) continue;
             const totalMin = sleep.total != null ? Math.round(sleep.total / 60)
                 : (sleep.duration != null ? Math.round(sleep.duration / 60)
                 : (sleep.duration_total_seconds != null ? Math.round(sleep.duration_total_seconds / 60) : 0));
             const sessionType = String(sleep.type || sleep.sleep_type || '').toLowerCase();
-            const existing = sleepByDate.get(dateKey);
-            if (!existing) { sleepByDate.set(dateKey, { sleep, totalMin, sessionType }); continue; }
+            const key = `${dateKey}|${sleep.source?.slug}`;
+            const existing = sleepByDate.get(key);
+            if (!existing) { sleepByDate.set(key, { sleep, totalMin, sessionType }); continue; }
             const existingIsLong = existing.sessionType === 'long_sleep';
             const candidateIsLong = sessionType === 'long_sleep';
-            if (candidateIsLong && !existingIsLong) sleepByDate.set(dateKey, { sleep, totalMin, sessionType });
-            else if (candidateIsLong === existingIsLong && totalMin > existing.totalMin) sleepByDate.set(dateKey, { sleep, totalMin, sessionType });
+            if (candidateIsLong && !existingIsLong) sleepByDate.set(key, { sleep, totalMin, sessionType });
+            else if (candidateIsLong === existingIsLong && totalMin > existing.totalMin) sleepByDate.set(key, { sleep, totalMin, sessionType });
         }
         const dedupedSleep = Array.from(sleepByDate.values()).map(v => v.sleep);
 
@@ -631,170 +663,176 @@ export class WearablesService {
             const dateKey = sleep.calendarDate || sleep.date?.split('T')[0];
             if (!dateKey) return;
 
-            if (!dataByDate.has(dateKey)) {
-                dataByDate.set(dateKey, { date: dateKey, provider: sleep.source?.slug });
-            }
-            const entry = dataByDate.get(dateKey);
-            entry.sleep = {
-                score: sleep.score || sleep.sleepScore,
-                totalMinutes: sleep.total ? Math.round(sleep.total / 60) : (sleep.duration ? Math.round(sleep.duration / 60) : null),
-                deepSleepMinutes: sleep.deep ? Math.round(sleep.deep / 60) : null,
-                remSleepMinutes: sleep.rem ? Math.round(sleep.rem / 60) : null,
-                lightSleepMinutes: sleep.light ? Math.round(sleep.light / 60) : null,
-                efficiency: sleep.efficiency,
-            };
-
-            // Many providers (Oura, Fitbit) report HRV and resting HR in sleep data.
-            // Extract heart metrics from sleep so they're available even without body data.
-            const sleepHrv = sleep.averageHrv || sleep.average_hrv || sleep.hrv?.average;
-            const sleepRestingHR = sleep.hrResting || sleep.hrLowest || sleep.hr_lowest || sleep.heartRate?.min;
-            const sleepAvgHR = sleep.hrAverage || sleep.hr_average;
-            const sleepRespiratoryRate = sleep.respiratoryRate || sleep.respiratory_rate;
-            if (sleepHrv || sleepRestingHR || sleepAvgHR) {
-                if (!entry.heart) {
-                    entry.heart = {};
-                }
-                // Only set if not already populated by body data (body data takes precedence)
-                if (!entry.heart.hrvMs && sleepHrv) entry.heart.hrvMs = sleepHrv;
-                if (!entry.heart.restingRate && sleepRestingHR) entry.heart.restingRate = sleepRestingHR;
-                if (!entry.heart.averageRate && sleepAvgHR) entry.heart.averageRate = sleepAvgHR;
-            }
-            if (sleepRespiratoryRate) {
-                if (!entry.body) entry.body = {};
-                if (!entry.body.respiratoryRate) entry.body.respiratoryRate = sleepRespiratoryRate;
-            }
+            offer(dateKey, sleep, {
+                sleep_score: sleep.score || sleep.sleepScore,
+                sleep_duration: sleep.total ? Math.round(sleep.total / 60) : (sleep.duration ? Math.round(sleep.duration / 60) : null),
+                deep_sleep: sleep.deep ? Math.round(sleep.deep / 60) : null,
+                rem_sleep: sleep.rem ? Math.round(sleep.rem / 60) : null,
+                light_sleep: sleep.light ? Math.round(sleep.light / 60) : null,
+                sleep_efficiency: sleep.efficiency,
+                // Many providers (Oura, Fitbit) report HRV and resting HR in sleep data.
+                // Extract heart metrics from sleep so they're available even without body data.
+                hrv: sleep.averageHrv || sleep.average_hrv || sleep.hrv?.average,
+                resting_hr_sleep: sleep.hrResting || sleep.hrLowest || sleep.hr_lowest || sleep.heartRate?.min,
+                avg_heart_rate: sleep.hrAverage || sleep.hr_average,
+                respiratory_rate_sleep: sleep.respiratoryRate || sleep.respiratory_rate,
+            });
         });
 
         // Process activity data
-        activityData.forEach((activity: any) => {
+        (activityData as any[]).filter(fromProvider).forEach((activity: any) => {
             const dateKey = activity.calendarDate || activity.date?.split('T')[0];
             if (!dateKey) return;
 
-            if (!dataByDate.has(dateKey)) {
-                dataByDate.set(dateKey, { date: dateKey, provider: activity.source?.slug });
-            }
-            const entry = dataByDate.get(dateKey);
-            entry.activity = {
+            offer(dateKey, activity, {
                 steps: activity.steps,
-                caloriesBurned: activity.caloriesTotal || activity.caloriesActive,
-                activeMinutes: activity.activeMinutes || activity.moderateMinutes,
+                total_calories: activity.caloriesTotal || activity.caloriesActive,
+                active_minutes: activity.activeMinutes || activity.moderateMinutes,
                 distance: activity.distance,
-                floorsClimbed: activity.floors,
-            };
+                floors_climbed: activity.floors,
+            });
         });
 
         // Process body data
-        bodyData.forEach((body: any) => {
+        (bodyData as any[]).filter(fromProvider).forEach((body: any) => {
             const dateKey = body.calendarDate || body.date?.split('T')[0];
             if (!dateKey) return;
 
-            if (!dataByDate.has(dateKey)) {
-                dataByDate.set(dateKey, { date: dateKey, provider: body.source?.slug });
-            }
-            const entry = dataByDate.get(dateKey);
-            // Merge body heart data without overwriting sleep-extracted values
-            if (!entry.heart) entry.heart = {};
-            const bodyHrv = body.hrv?.avgHrv || body.hrvAvg;
-            const bodyResting = body.heartRate?.restingHr || body.restingHeartRate;
-            const bodyAvg = body.heartRate?.avgHr;
-            const bodyMax = body.heartRate?.maxHr;
-            if (bodyHrv) entry.heart.hrvMs = bodyHrv;
-            if (bodyResting) entry.heart.restingRate = bodyResting;
-            if (bodyAvg) entry.heart.averageRate = bodyAvg;
-            if (bodyMax) entry.heart.maxRate = bodyMax;
-            entry.body = {
+            // A device's body readings replace what its own sleep data reported
+            offer(dateKey, body, {
+                hrv: body.hrv?.avgHrv || body.hrvAvg,
+                resting_hr_sleep: body.heartRate?.restingHr || body.restingHeartRate,
+                avg_heart_rate: body.heartRate?.avgHr,
+                max_heart_rate: body.heartRate?.maxHr,
                 weight: body.weight,
-                bodyFat: body.bodyFatPercentage,
-                temperature: body.temperature,
-                spo2: body.oxygenSaturation,
-                respiratoryRate: body.respiratoryRate,
-            };
+                body_fat: body.bodyFatPercentage,
+                body_temperature: body.temperature,
+                blood_oxygen: body.oxygenSaturation,
+                respiratory_rate_sleep: body.respiratoryRate,
+            }, true);
         });
 
-        let data = Array.from(dataByDate.values());
-        if (provider) {
-            data = data.filter(d => d.provider === provider);
-        }
-
-        data.sort((a, b) => a.date.localeCompare(b.date));
+        const data = merger.dates().map(date => {
+            const { values, provenance } = splitResolved(merger.resolve(date));
+            const entry: any = { date, provider: primaryProvider(provenance), provenance };
+            for (const [group, fields] of Object.entries(DAILY_FIELDS)) {
+                const picked = pickMetrics(values, fields);
+                if (picked) entry[group] = picked;
+            }
+            return entry;
+        });
         return { data };
     }
 
     async getMergedBiometricData(userId: string, startDate: string, endDate: string) {
         const junctionUserId = await wearablesRepository.getJunctionUserId(userId);
-        if (!junctionUserId) {
+        // Uploaded export files (Apple Health, Garmin, Oura/WHOOP) count even without a Junction link
+        const importedDays = await wearableImportRepository.listImportedDays(userId, new Date(startDate), new Date(`${endDate}T23:59:59.999Z`));
+        if (!junctionUserId && importedDays.length === 0) {
             return { data: [] };
         }
 
-        const [sleepData, activityData, bodyData, workoutData] = await Promise.all([
-            getSleepData(junctionUserId, startDate, endDate),
-            getActivityData(junctionUserId, startDate, endDate),
-            getBodyData(junctionUserId, startDate, endDate),
-            getWorkoutData(junctionUserId, startDate, endDate),
-        ]);
-
-        const dataByDate = new Map<string, any>();
-
-        const processData = (items: any[], type: string) => {
-            for (const item of items) {
-                const date = item.calendar_date || item.date || item.timestamp?.split('T')[0];
-                if (!date) continue;
-
-                if (!dataByDate.has(date)) {
-                    dataByDate.set(date, {
-                        date,
-                        source: 'junction',
-                        sleep: {},
-                        activity: {},
-                        body: {},
-                        workouts: [],
-                    });
-                }
-
-                const entry = dataByDate.get(date);
-                if (type === 'sleep' && item.duration_total_seconds) {
-                    entry.sleep = {
-                        totalMinutes: Math.round(item.duration_total_seconds / 60),
-                        deepMinutes: Math.round((item.duration_deep_sleep_seconds || 0) / 60),
-                        remMinutes: Math.round((item.duration_rem_sleep_seconds || 0) / 60),
-                        lightMinutes: Math.round((item.duration_light_sleep_seconds || 0) / 60),
-                        score: item.sleep_efficiency,
-                        hrvMs: item.average_hrv,
-                    };
-                } else if (type === 'activity') {
-                    entry.activity = {
-                        steps: item.steps,
-                        calories: item.calories_active,
-                        distance: item.distance_meters ? Math.round(item.distance_meters) : undefined,
-                        activeMinutes: item.active_duration_seconds ? Math.round(item.active_duration_seconds / 60) : undefined,
-                    };
-                } else if (type === 'body') {
-                    entry.body = {
-                        weight: item.weight_kg,
-                        bodyFat: item.body_fat_percentage,
-                    };
-                } else if (type === 'workout') {
-                    entry.workouts.push({
-                        type: item.sport_name || item.title,
-                        duration: item.duration_seconds ? Math.round(item.duration_seconds / 60) : undefined,
-                        calories: item.calories,
-                        distance: item.distance_meters,
-                    });
-                }
-            }
+        const [sleepData, activityData, bodyData, workoutData] = junctionUserId
+            ? await Promise.all([
+                getSleepData(junctionUserId, startDate, endDate),
+                getActivityData(junctionUserId, startDate, endDate),
+                getBodyData(junctionUserId, startDate, endDate),
+                getWorkoutData(junctionUserId, startDate, endDate),
+            ])
+            : [[], [], [], []];
+
+        // Each provider offers its values per metric; the merger picks one per day
+        // by the user's source preferences, then the catalog's default precedence.
+        const merger = new DailyMetricMerger(await this.getMetricSourcePreferences(userId));
+        const workoutsByDate = new Map<string, any[]>();
+        const dateOf = (item: any): string | undefined => item.calendar_date || item.date || item.timestamp?.split('T')[0];
+        const offerJunction = (item: any, values: Record<string, number | null | undefined>) => {
+            const date = dateOf(item);
+            if (!date) return;
+            const source = { provider: item.source?.slug || 'junction', via: 'junction' as const };
+            for (const [metricId, value] of Object.entries(values)) merger.offer(date, metricId, value, source);
         };
 
-        processData(sleepData, 'sleep');
-        processData(activityData, 'activity');
-        processData(bodyData, 'body');
-        processData(workoutData, 'workout');
+        // Longest session first, so a provider's nap never stands in for its night
+        const sleepSessions = (sleepData as any[])
+            .filter(item => item.duration_total_seconds)
+            .sort((a, b) => b.duration_total_seconds - a.duration_total_seconds);
+        for (const item of sleepSessions) {
+            offerJunction(item, {
+                sleep_duration: Math.round(item.duration_total_seconds / 60),
+                deep_sleep: Math.round((item.duration_deep_sleep_seconds || 0) / 60),
+                rem_sleep: Math.round((item.duration_rem_sleep_seconds || 0) / 60),
+                light_sleep: Math.round((item.duration_light_sleep_seconds || 0) / 60),
+                sleep_score: item.sleep_efficiency,
+                hrv: item.average_hrv,
+            });
+        }
+        for (const item of activityData as any[]) {
+            offerJunction(item, {
+                steps: item.steps,
+                active_calories: item.calories_active,
+                distance: item.distance_meters ? Math.round(item.distance_meters) : undefined,
+                active_minutes: item.active_duration_seconds ? Math.round(item.active_duration_seconds / 60) : undefined,
+            });
+        }
+        for (const item of bodyData as any[]) {
+            offerJunction(item, {
+                weight: item.weight_kg,
+                body_fat: item.body_fat_percentage,
+            });
+        }
+        for (const row of importedDays) {
+            const date = row.dataDate.toISOString().split('T')[0];
+            const source = { provider: row.provider, via: 'import' as const };
+            const values: Record<string, number | null> = {
+                sleep_duration: row.sleepHours,
+                deep_sleep: row.deepSleepMinutes,
+                rem_sleep: row.remSleepMinutes,
+                light_sleep: row.lightSleepMinutes,
+                sleep_score: row.sleepScore,
+                hrv: row.hrvMs,
+                steps: row.steps,
+                active_calories: row.caloriesBurned,
+                active_minutes: row.activeMinutes,
+            };
+            for (const [metricId, value] of Object.entries(values)) merger.offer(date, metricId, value, source);
+        }
+        for (const item of workoutData as any[]) {
+            const date = dateOf(item);
+            if (!date) continue;
+            const workouts = workoutsByDate.get(date) ?? [];
+            workouts.push({
+                type: item.sport_name || item.title,
+                duration: item.duration_seconds ? Math.round(item.duration_seconds / 60) : undefined,
+                calories: item.calories,
+                distance: item.distance_meters,
+            });
+            workoutsByDate.set(date, workouts);
+        }
 
-        const data = Array.from(dataByDate.values());
-        data.sort((a, b) => a.date.localeCompare(b.date));
+        const dates = Array.from(new Set([...merger.dates(), ...workoutsByDate.keys()])).sort();
+        const data = dates.map(date => {
+            const { values, provenance } = splitResolved(merger.resolve(date));
+            const fromImports = Object.values(provenance);
+            return {
+                date,
+                source: fromImports.length > 0 && fromImports.every(p => p.via === 'import') ? 'import' : 'junction',
+                sleep: pickMetrics(values, MERGED_FIELDS.sleep) ?? {},
+                activity: pickMetrics(values, MERGED_FIELDS.activity) ?? {},
+                body: pickMetrics(values, MERGED_FIELDS.body) ?? {},
+                workouts: workoutsByDate.get(date) ?? [],
+                provenance,
+            };
+        });
 
         return { data };
     }
 
+    private async getMetricSourcePreferences(userId: string): Promise<MetricSourcePreferences | null> {
+        const user = await usersRepository.getUser(userId);
+        return sanitizeMetricSourcePreferences(user?.metricSourcePreferences);
+    }
+
     // In-memory rate limit for manual refresh (per user). Junction polls providers
     // on its own schedule, so spamming this endpoint can't make Oura sync faster.
     private lastManualSyncAt = new Map<string, number>();
@@ -1809,33 +1847,16 @@ Return ONLY valid JSON:
         const userMessage = `Computed health signals:\n${signalBlock}`;
 
         try {
-            const aiProvider = (aiRuntimeSettings.provider || process.env.AI_PROVIDER || 'openai').toLowerCase();
-            const aiModel = aiRuntimeSettings.model || process.env.AI_MODEL || (aiProvider === 'anthropic' ? 'claude-sonnet-4-6' : 'gpt-4o-mini');
-
-            let raw: string | null = null;
-            if (aiProvider === 'anthropic') {
-                const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-                const msg = await anthropic.messages.create({
-                    model: aiModel,
-                    max_tokens: 512,
-                    system: systemPrompt,
-                    messages: [{ role: 'user', content: userMessage }],
-                });
-                raw = msg.content?.[0]?.type === 'text' ? msg.content[0].text : null;
-            } else {
-                const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-                const completion = await openai.chat.completions.create({
-                    model: aiModel,
-                    messages: [
-                        { role: 'system', content: systemPrompt },
-                        { role: 'user', content: userMessage },
-                    ],
-                    max_tokens: 512,
-                    temperature: 0.5,
-                    response_format: { type: 'json_object' },
-                });
-                raw = completion.choices?.[0]?.message?.content ?? null;
-            }
+            const { text } = await complete({
+                feature: 'wearables',
+                userId,
+                system: systemPrompt,
+                messages: [{ role: 'user', content: userMessage }],
+                maxTokens: 512,
+                temperature: 0.5,
+                json: true,
+            });
+            const raw: string | null = text || null;
 
             let narrative = 'Your health data has been analyzed.';
             let actions: string[] = [];
@@ -1851,7 +1872,7 @@ Return ONLY valid JSON:
                     logger.warn('Failed to parse weekly brief AI response:', parseErr, { rawSnippet: raw.substring(0, 200) });
                 }
             } else {
-                logger.warn('Weekly brief AI returned empty response', { aiProvider, aiModel });
+                logger.warn('Weekly brief AI returned empty response', { userId });
             }
 
             const result = {
@@ -1982,33 +2003,16 @@ Generate 3-5 insights based on which data categories are available. Only create
         const userMessage = `Here is the user's wearable health data averaged over the last ${days} days:\n\n${JSON.stringify(dataBlock, null, 2)}`;
 
         try {
-            const aiProvider = (aiRuntimeSettings.provider || process.env.AI_PROVIDER || 'openai').toLowerCase();
-            const aiModel = aiRuntimeSettings.model || process.env.AI_MODEL || (aiProvider === 'anthropic' ? 'claude-sonnet-4-6' : 'gpt-4o-mini');
-
-            let raw: string | null = null;
-            if (aiProvider === 'anthropic') {
-                const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-                const msg = await anthropic.messages.create({
-                    model: aiModel,
-                    max_tokens: 1024,
-                    system: systemPrompt,
-                    messages: [{ role: 'user', content: userMessage }],
-                });
-                raw = msg.content?.[0]?.type === 'text' ? msg.content[0].text : null;
-            } else {
-                const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-                const completion = await openai.chat.completions.create({
-                    model: aiModel,
-                    messages: [
-                        { role: 'system', content: systemPrompt },
-                        { role: 'user', content: userMessage },
-                    ],
-                    max_tokens: 1024,
-                    temperature: 0.6,
-                    response_format: { type: 'json_object' },
-                });
-                raw = completion.choices?.[0]?.message?.content ?? null;
-            }
+            const { text } = await complete({
+                feature: 'wearables',
+                userId,
+                system: systemPrompt,
+                messages: [{ role: 'user', content: userMessage }],
+                maxTokens: 1024,
+                temperature: 0.6,
+                json: true,
+            });
+            const raw: string | null = text || null;
 
             if (!raw) {
                 logger.warn('AI analysis returned empty response');
@@ -2105,13 +2109,14 @@ Generate 3-5 insights based on which data categories are available. Only create
         const endDate = new Date().toISOString().split('T')[0];
         const startDate = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
 
-        const [sleepData, activityData, bodyData, labReports, healthProfile, providers] = await Promise.all([
+        const [sleepData, activityData, bodyData, labReports, healthProfile, providers, anomalies] = await Promise.all([
             junctionUserId ? getSleepData(junctionUserId, startDate, endDate).catch((e) => { logger.warn('[HealthPulse] Sleep data fetch failed', { error: e?.message }); return []; }) : Promise.resolve([]),
             junctionUserId ? getActivityData(junctionUserId, startDate, endDate).catch((e) => { logger.warn('[HealthPulse] Activity data fetch failed', { error: e?.message }); return []; }) : Promise.resolve([]),
             junctionUserId ? getBodyData(junctionUserId, startDate, endDate).catch((e) => { logger.warn('[HealthPulse] Body data fetch failed', { error: e?.message }); return []; }) : Promise.resolve([]),
             filesRepository.getLabReportsByUser(userId).catch((e) => { logger.warn('[HealthPulse] Lab reports fetch failed', { error: e?.message }); return []; }),
             usersRepository.getHealthProfile(userId).catch(() => null),
             junctionUserId ? getConnectedProviders(junctionUserId).catch((e) => { logger.warn('[HealthPulse] Provider fetch failed — will show as no wearable', { error: e?.message }); return []; }) : Promise.resolve([]),
+            wearableAnomalyRepository.listRecent(userId, startDate).catch((e) => { logger.warn('[HealthPulse] Anomaly fetch failed', { error: e?.message }); return []; }),
         ]);
 
         // Use lenient check: any provider returned by Junction counts as "has wearable",
@@ -2149,7 +2154,7 @@ Generate 3-5 insights based on which data categories are available. Only create
         const primaryGoal = userGoals[0] || 'overall health';
 
         // ── Step 4: Generate AI narrative (labs passed as context, not state-affecting) ──
-        const narrative = await this._generatePulseNarrative(state, stateLabel, drivers, labSignals.labFlags, primaryGoal, hasWearable, labSignals.hasLabs);
+        const narrative = await this._generatePulseNarrative(userId, state, stateLabel, drivers, labSignals.labFlags, primaryGoal, hasWearable, labSignals.hasLabs);
 
         // ── Step 5: Build lab snapshot (separate from main pulse) ──
         let labSnapshot: {
@@ -2215,6 +2220,12 @@ Generate 3-5 insights based on which data categories are available. Only create
             hasWearable,
             hasLabs: labSignals.hasLabs,
             labSnapshot,
+            anomalies: anomalies.map(a => ({
+                pattern: a.pattern,
+                severity: a.severity,
+                detectedFor: a.detectedFor,
+                summary: a.summary,
+            })),
             providers: connectedProviders,
             lastUpdated: new Date().toISOString(),
         };
@@ -2558,6 +2569,7 @@ Generate 3-5 insights based on which data categories are available. Only create
     }
 
     private async _generatePulseNarrative(
+        userId: string,
         state: PulseState,
         stateLabel: string,
         drivers: PulseDriver[],
@@ -2606,9 +2618,6 @@ Generate 3-5 insights based on which data categories are available. Only create
         };
 
         try {
-            const aiProvider = (aiRuntimeSettings.provider || process.env.AI_PROVIDER || 'openai').toLowerCase();
-            const aiModel = aiRuntimeSettings.model || process.env.AI_MODEL || (aiProvider === 'anthropic' ? 'claude-sonnet-4-6' : 'gpt-4o-mini');
-
             const pulseSystemPrompt = `You are a concise health intelligence system. Given structured health signals, generate a short narrative.
 
 The pulse state is driven by WEARABLE signals (sleep, HRV, resting HR). Lab biomarkers are provided as BACKGROUND CONTEXT only — they do NOT affect the pulse color/state.
@@ -2624,30 +2633,16 @@ RULES:
 
 Return JSON: { "headline": "...", "summary": "...", "actions": ["...", "...", "..."] }`;
 
-            let raw: string | null = null;
-            if (aiProvider === 'anthropic') {
-                const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-                const msg = await anthropic.messages.create({
-                    model: aiModel,
-                    max_tokens: 256,
-                    system: pulseSystemPrompt,
-                    messages: [{ role: 'user', content: JSON.stringify(structuredInput) }],
-                });
-                raw = msg.content?.[0]?.type === 'text' ? msg.content[0].text : null;
-            } else {
-                const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-                const completion = await openai.chat.completions.create({
-                    model: aiModel,
-                    messages: [
-                        { role: 'system', content: pulseSystemPrompt },
-                        { role: 'user', content: JSON.stringify(structuredInput) },
-                    ],
-                    max_tokens: 256,
-                    temperature: 0.6,
-                    response_format: { type: 'json_object' },
-                });
-                raw = completion.choices?.[0]?.message?.content ?? null;
-            }
+            const { text } = await complete({
+                feature: 'wearables',
+                userId,
+                system: pulseSystemPrompt,
+                messages: [{ role: 'user', content: JSON.stringify(structuredInput) }],
+                maxTokens: 256,
+                temperature: 0.6,
+                json: true,
+            });
+            const raw: string | null = text || null;
 
             if (raw) {
                 const parsed = parseAiJson(raw);
@@ -2716,6 +2711,7 @@ Return JSON: { "headline": "...", "summary": "...", "actions": ["...", "...", ".
             hasWearable: false,
             hasLabs: false,
             labSnapshot: null,
+            anomalies: [],
             providers: [],
             lastUpdated: new Date().toISOString(),
         };
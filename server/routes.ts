@@ -33,6 +33,9 @@ import {
   adminAgentsRoutes
 } from "./api/routes";
 import { initializeAiSettings } from "./infra/ai/ai-config";
+import { safetyRulesService } from "./modules/formulas/safety-rules.service";
+import { createAliveSimulator, isAliveSimulatorEnabled, ALIVE_SIMULATOR_MOUNT_PATH } from "./modules/formulas/alive-simulator";
+import { createEpdSandbox, isEpdSandboxEnabled, EPD_SANDBOX_MOUNT_PATH } from "./modules/billing/epd-sandbox";
 import logger from "./infra/logging/logger";
 
 /**
@@ -47,6 +50,30 @@ export async function registerRoutes(app: Express, rateLimiters?: { authLimiter?
     logger.error('Failed to initialize AI settings at startup', { error: err });
   }
 
+  // Load the published safety rule set (falls back to the built-in rules)
+  try {
+    await safetyRulesService.initialize();
+  } catch (err) {
+    logger.error('Failed to initialize safety rules at startup', { error: err });
+  }
+
+  // Dev-only Alive manufacturer API simulator (ALIVE_SIMULATOR=true)
+  if (isAliveSimulatorEnabled()) {
+    app.use(ALIVE_SIMULATOR_MOUNT_PATH, createAliveSimulator({ apiKey: process.env.ALIVE_API_KEY }).router);
+    logger.warn(`Alive manufacturer simulator mounted at ${ALIVE_SIMULATOR_MOUNT_PATH}`);
+  }
+
+  // Dev-only EasyPayDirect sandbox (EPD_SANDBOX=true); webhooks go back to this server
+  if (isEpdSandboxEnabled()) {
+    app.use(EPD_SANDBOX_MOUNT_PATH, createEpdSandbox({
+      securityKey: process.env.EPD_SECURITY_KEY,
+      webhookSigningKey: process.env.EPD_WEBHOOK_SIGNING_KEY,
+      webhookUrl: `http://127.0.0.1:${process.env.PORT || 5000}/api/webhooks/epd`,
+      autoDeliverWebhooks: true,
+    }).router);
+    logger.warn(`EPD payment sandbox mounted at ${EPD_SANDBOX_MOUNT_PATH}`);
+  }
+
   // Use Express built-in JSON middleware (stable and reliable)
   // For webhook routes, also capture the raw body for signature verification
   app.use('/api', express.json({
@@ -27,23 +27,9 @@ import {
 } from '@shared/schema';
 import { eq, and, desc, sql, or } from 'drizzle-orm';
 import { aiRuntimeSettings } from '../infra/ai/ai-config';
-import OpenAI from 'openai';
-import { Anthropic } from '@anthropic-ai/sdk';
+import { complete } from '../infra/ai/llm-gateway';
 
-// ─── AI Client Helpers ────────────────────────────────────────────────────────
-
-let openaiClient: OpenAI | null = null;
-let anthropicClient: Anthropic | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) openaiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  return openaiClient;
-}
-
-function getAnthropicClient(): Anthropic {
-  if (!anthropicClient) anthropicClient = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-  return anthropicClient;
-}
+// ─── AI Config ────────────────────────────────────────────────────────────────
 
 function getAIConfig(): { provider: 'openai' | 'anthropic'; model: string } {
   if (aiRuntimeSettings.provider && aiRuntimeSettings.model) {
@@ -241,31 +227,17 @@ ${conversation}
 Please analyze this conversation and provide a JSON response with "summary" and "draftResponse" fields.`;
 
   try {
-    let rawResponse = '';
-
-    if (config.provider === 'openai') {
-      const ai = getOpenAIClient();
-      const completion = await ai.chat.completions.create({
-        model: config.model,
-        max_tokens: 1000,
-        temperature: 0.4,
-        messages: [
-          { role: 'system', content: SUPPORT_AGENT_SYSTEM_PROMPT },
-          { role: 'user', content: userPrompt },
-        ],
-      });
-      rawResponse = completion.choices?.[0]?.message?.content?.trim() || '';
-    } else {
-      const client = getAnthropicClient();
-      const response = await client.messages.create({
-        model: config.model,
-        max_tokens: 1000,
-        system: SUPPORT_AGENT_SYSTEM_PROMPT,
-        messages: [{ role: 'user', content: userPrompt }],
-      });
-      const textBlock = response.content?.find((block: any) => block.type === 'text') as any;
-      rawResponse = textBlock?.text?.trim() || '';
-    }
+    const response = await complete({
+      feature: 'support_agent',
+      provider: config.provider,
+      model: config.model,
+      system: SUPPORT_AGENT_SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: userPrompt }],
+      maxTokens: 1000,
+      temperature: 0.4,
+      metadata: { source: context.source },
+    });
+    const rawResponse = response.text.trim();
 
     // Parse the JSON response
     const jsonMatch = rawResponse.match(/\{[\s\S]*\}/);
@@ -283,7 +255,7 @@ Please analyze this conversation and provide a JSON response with "summary" and
     return {
       summary: parsed.summary,
       draftResponse: parsed.draftResponse,
-      model: config.model,
+      model: response.model,
     };
   } catch (error) {
     logger.error('AI Support Agent: Error generating draft', { error, source: context.source });
@@ -5,10 +5,9 @@
  *  - blogGenerationScheduler (automated daily cron job)
  */
 
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
 import { jsonrepair } from 'jsonrepair';
 import { logger } from '../infra/logging/logger';
+import { complete } from '../infra/ai/llm-gateway';
 
 export interface GenerateArticleInput {
   title: string;
@@ -104,33 +103,23 @@ For faqSchema: include 5-6 questions. Requirements:
 
 IMPORTANT: Return only the JSON object, no preamble, no markdown fences.`;
 
-  let raw: string;
-
-  if (process.env.ANTHROPIC_API_KEY) {
-    const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-6',
-      max_tokens: 12000,
-      system: SYSTEM_PROMPT,
-      messages: [{ role: 'user', content: userMessage }],
-    });
-    raw = response.content.find(c => c.type === 'text')?.text ?? '';
-  } else if (process.env.OPENAI_API_KEY) {
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: userMessage },
-      ],
-      max_tokens: 12000,
-      response_format: { type: 'json_object' },
-    });
-    raw = response.choices[0]?.message?.content ?? '{}';
-  } else {
+  if (!process.env.ANTHROPIC_API_KEY && !process.env.OPENAI_API_KEY) {
     throw new Error('No AI provider configured (set ANTHROPIC_API_KEY or OPENAI_API_KEY)');
   }
 
+  const provider = process.env.ANTHROPIC_API_KEY ? 'anthropic' : 'openai';
+  const { text } = await complete({
+    feature: 'blog',
+    provider,
+    model: provider === 'anthropic' ? 'claude-sonnet-4-6' : 'gpt-4o',
+    system: SYSTEM_PROMPT,
+    messages: [{ role: 'user', content: userMessage }],
+    maxTokens: 12000,
+    json: true,
+    metadata: { task: 'generate' },
+  });
+  const raw = text || '{}';
+
   // Extract JSON — handles stray markdown fences
   const jsonMatch = raw.match(/\{[\s\S]*\}/);
   if (!jsonMatch) throw new Error('AI returned unexpected format');
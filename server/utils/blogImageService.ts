@@ -8,21 +8,15 @@
  * Requires: FAL_KEY env var
  */
 
-import OpenAI from 'openai';
 import { fal } from '@fal-ai/client';
 import logger from '../infra/logging/logger';
+import { complete } from '../infra/ai/llm-gateway';
 import { generateImage as falGenerateImage, type ImageModelId, uploadGeneratedAsset } from './falAiService';
 
 const SUPABASE_URL = process.env.SUPABASE_URL!;
 const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
 const BUCKET = 'blog-images';
 
-let openai: OpenAI | null = null;
-function getOpenAI(): OpenAI {
-  if (!openai) openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  return openai;
-}
-
 // Configure fal.ai client
 function ensureFalConfigured() {
   if (!process.env.FAL_KEY) throw new Error('FAL_KEY environment variable is required');
@@ -39,28 +33,25 @@ function ensureFalConfigured() {
  */
 async function extractVisualKeywords(title: string): Promise<string> {
   try {
-    const ai = getOpenAI();
-    const resp = await ai.chat.completions.create({
+    const resp = await complete({
+      feature: 'blog',
+      provider: 'openai',
       model: 'gpt-4o-mini',
       temperature: 0.3,
-      max_tokens: 30,
-      messages: [
-        {
-          role: 'system',
-          content:
-            'Extract 1-3 visual keywords from the given article title that would make a good photograph. ' +
-            'Focus on the main subject that can be visually depicted. Return ONLY the keywords, nothing else. ' +
-            'Examples:\n' +
-            '"Niacin Flush: Why It Happens and Is It Dangerous?" → niacin supplement capsules\n' +
-            '"Top 5 Benefits of Ashwagandha for Stress" → ashwagandha root powder\n' +
-            '"Understanding Your Blood Test Results" → blood test laboratory\n' +
-            '"Omega-3 vs Omega-6: Finding the Right Balance" → omega fish oil capsules\n' +
-            '"How Sleep Quality Affects Recovery" → peaceful sleep rest',
-        },
-        { role: 'user', content: title },
-      ],
+      maxTokens: 30,
+      system:
+        'Extract 1-3 visual keywords from the given article title that would make a good photograph. ' +
+        'Focus on the main subject that can be visually depicted. Return ONLY the keywords, nothing else. ' +
+        'Examples:\n' +
+        '"Niacin Flush: Why It Happens and Is It Dangerous?" → niacin supplement capsules\n' +
+        '"Top 5 Benefits of Ashwagandha for Stress" → ashwagandha root powder\n' +
+        '"Understanding Your Blood Test Results" → blood test laboratory\n' +
+        '"Omega-3 vs Omega-6: Finding the Right Balance" → omega fish oil capsules\n' +
+        '"How Sleep Quality Affects Recovery" → peaceful sleep rest',
+      messages: [{ role: 'user', content: title }],
+      metadata: { task: 'image_keywords' },
     });
-    const keywords = resp.choices[0]?.message?.content?.trim();
+    const keywords = resp.text.trim();
     if (keywords && keywords.length > 0 && keywords.length < 60) {
       return keywords;
     }
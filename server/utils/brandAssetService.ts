@@ -8,9 +8,8 @@
  * Metadata: app_settings table (keys: "brand_assets", "brand_style_profile")
  */
 
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
 import { logger } from '../infra/logging/logger';
+import { complete, type LlmContentPart } from '../infra/ai/llm-gateway';
 import { SystemRepository } from '../modules/system/system.repository';
 import { aiRuntimeSettings } from '../infra/ai/ai-config';
 
@@ -158,7 +157,7 @@ export async function deleteBrandAsset(assetId: string): Promise<boolean> {
   return true;
 }
 
-// ── Brand Style Analysis (Vision — Anthropic or OpenAI) ──────────────────────
+// ── Brand Style Analysis (Vision) ─────────────────────────────────────────────
 
 const ANALYSIS_PROMPT = `You are a brand identity expert and creative director. Analyze these brand reference images for "Ones" — a personalized supplement platform.
 
@@ -179,63 +178,6 @@ The "profile" field is CRITICAL — it should be specific enough to guide Stable
 
 Return ONLY the JSON object.`;
 
-async function analyzeWithAnthropic(imageAssets: BrandAsset[]): Promise<string> {
-  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-  const model = (aiRuntimeSettings.provider === 'anthropic' && aiRuntimeSettings.model)
-    ? aiRuntimeSettings.model : 'claude-sonnet-4-6';
-
-  const content: Anthropic.Messages.ContentBlockParam[] = [
-    { type: 'text', text: `${ANALYSIS_PROMPT}\n\nI am providing ${imageAssets.length} brand reference images:` },
-  ];
-  for (const asset of imageAssets) {
-    content.push({
-      type: 'image',
-      source: { type: 'url', url: asset.url },
-    });
-    content.push({
-      type: 'text',
-      text: `[Category: ${asset.category}${asset.description ? ' — ' + asset.description : ''}]`,
-    });
-  }
-
-  logger.info(`[brand-assets] Analyzing ${imageAssets.length} assets with Anthropic ${model}...`);
-  const response = await anthropic.messages.create({
-    model,
-    max_tokens: 1500,
-    messages: [{ role: 'user', content }],
-  });
-  return response.content.find(c => c.type === 'text')?.text ?? '{}';
-}
-
-async function analyzeWithOpenAI(imageAssets: BrandAsset[]): Promise<string> {
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  const model = (aiRuntimeSettings.provider === 'openai' && aiRuntimeSettings.model)
-    ? aiRuntimeSettings.model : 'gpt-4o';
-
-  const imageContent: OpenAI.Chat.ChatCompletionContentPart[] = [
-    { type: 'text', text: ANALYSIS_PROMPT },
-  ];
-  for (const asset of imageAssets) {
-    imageContent.push({
-      type: 'image_url',
-      image_url: { url: asset.url, detail: 'low' },
-    });
-    imageContent.push({
-      type: 'text',
-      text: `[Category: ${asset.category}${asset.description ? ' — ' + asset.description : ''}]`,
-    });
-  }
-
-  logger.info(`[brand-assets] Analyzing ${imageAssets.length} assets with OpenAI ${model}...`);
-  const response = await openai.chat.completions.create({
-    model,
-    messages: [{ role: 'user', content: imageContent }],
-    max_tokens: 1500,
-    response_format: { type: 'json_object' },
-  });
-  return response.choices[0]?.message?.content ?? '{}';
-}
-
 export async function analyzeBrandStyle(): Promise<BrandStyleProfile> {
   const hasAnthropic = !!process.env.ANTHROPIC_API_KEY;
   const hasOpenAI = !!process.env.OPENAI_API_KEY;
@@ -250,31 +192,31 @@ export async function analyzeBrandStyle(): Promise<BrandStyleProfile> {
 
   const imageAssets = assets.slice(-10); // Most recent 10
 
-  // Try preferred provider first, fall back to the other
-  let raw: string;
+  const content: LlmContentPart[] = [
+    { type: 'text', text: `${ANALYSIS_PROMPT}\n\nI am providing ${imageAssets.length} brand reference images:` },
+  ];
+  for (const asset of imageAssets) {
+    content.push({ type: 'image', url: asset.url, detail: 'low' });
+    content.push({
+      type: 'text',
+      text: `[Category: ${asset.category}${asset.description ? ' — ' + asset.description : ''}]`,
+    });
+  }
+
+  // Preferred provider first; the gateway fails over to the other
   const preferAnthropic = aiRuntimeSettings.provider === 'anthropic' || (!aiRuntimeSettings.provider && hasAnthropic);
+  const provider = preferAnthropic && hasAnthropic ? 'anthropic' : 'openai';
 
-  if (preferAnthropic && hasAnthropic) {
-    try {
-      raw = await analyzeWithAnthropic(imageAssets);
-    } catch (err: any) {
-      logger.warn(`[brand-assets] Anthropic analysis failed: ${err.message}`);
-      if (!hasOpenAI) throw err;
-      logger.info('[brand-assets] Falling back to OpenAI...');
-      raw = await analyzeWithOpenAI(imageAssets);
-    }
-  } else if (hasOpenAI) {
-    try {
-      raw = await analyzeWithOpenAI(imageAssets);
-    } catch (err: any) {
-      logger.warn(`[brand-assets] OpenAI analysis failed: ${err.message}`);
-      if (!hasAnthropic) throw err;
-      logger.info('[brand-assets] Falling back to Anthropic...');
-      raw = await analyzeWithAnthropic(imageAssets);
-    }
-  } else {
-    throw new Error('No AI provider available for brand analysis');
-  }
+  logger.info(`[brand-assets] Analyzing ${imageAssets.length} assets with ${provider}...`);
+  const response = await complete({
+    feature: 'marketing',
+    provider,
+    messages: [{ role: 'user', content }],
+    maxTokens: 1500,
+    json: true,
+    metadata: { task: 'brand_style' },
+  });
+  const raw = response.text || '{}';
 
   // Parse the JSON response
   const jsonMatch = raw.match(/\{[\s\S]*\}/);
@@ -0,0 +1,30 @@
+/**
+ * Dunning Scheduler
+ *
+ * Runs daily at 10:00 UTC — between the membership (09:00) and auto-ship
+ * (11:00) renewal runs, so a charge that fails at 11:00 gets its first
+ * retry the following day at the earliest.
+ * Retries failed auto-ship and membership charges whose next slot is due,
+ * sends final notices ahead of the grace deadline and pauses anything
+ * still unpaid once the grace period ends. Policy lives in app_settings
+ * ('dunning_policy') and is edited from the admin Failed Payments page.
+ */
+
+import cron from 'node-cron';
+import { dunningService } from '../modules/billing/dunning.service';
+import logger from '../infra/logging/logger';
+import { runScheduledJob } from './schedulerRunner';
+
+export async function runDunningCycle(): Promise<Record<string, any>> {
+  return { ...(await dunningService.runDunningCycle()) };
+}
+
+export function startDunningScheduler() {
+  logger.info('Dunning scheduler: starting...');
+
+  cron.schedule('0 10 * * *', async () => {
+    await runScheduledJob('dunning', runDunningCycle, 'cron');
+  });
+
+  logger.info('Dunning scheduler: started — runs daily at 10:00 UTC');
+}
@@ -1,8 +1,6 @@
-import OpenAI from 'openai';
 import { ObjectStorageService } from './objectStorage';
 import { logger } from '../infra/logging/logger';
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { complete } from '../infra/ai/llm-gateway';
 
 /** Wraps a promise with a timeout. Rejects if the promise doesn't resolve in time. */
 function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
@@ -30,6 +28,8 @@ export interface LabDataExtraction {
     status?: string;
     category?: string;
     clinicalNote?: string;
+    /** Present for structured (FHIR / HL7) imports, which carry coded analytes */
+    loincCode?: string;
   }>;
   riskPatterns?: Array<{
     pattern: string;
@@ -117,7 +117,9 @@ export async function extractTextFromTextFile(buffer: Buffer): Promise<string> {
 /** OCR a single page image via GPT-4.1 Vision */
 async function ocrPage(dataUrl: string, pageNum: number): Promise<string> {
   const response = await withTimeout(
-    openai.chat.completions.create({
+    complete({
+      feature: 'lab_analysis',
+      provider: 'openai',
       model: 'gpt-4.1',
       messages: [
         {
@@ -127,19 +129,18 @@ async function ocrPage(dataUrl: string, pageNum: number): Promise<string> {
               type: 'text',
               text: 'Extract all text from this lab report page. Include test names, values, units, reference ranges, and any other relevant information. Preserve the structure and formatting as much as possible.'
             },
-            {
-              type: 'image_url',
-              image_url: { url: dataUrl, detail: 'high' }
-            }
+            { type: 'image', url: dataUrl, detail: 'high' }
           ]
         }
       ],
-      max_tokens: 8000
+      maxTokens: 8000,
+      timeoutMs: 60_000,
+      metadata: { task: 'pdf_ocr', page: pageNum },
     }),
     60_000,
     `PDF page ${pageNum} OCR`
   );
-  return response.choices[0]?.message?.content || '';
+  return response.text;
 }
 
 export type AnalysisProgressCallback = (step: string, detail?: string) => void;
@@ -222,7 +223,9 @@ export async function extractTextFromImage(buffer: Buffer, mimeType: string): Pr
     const dataUrl = `data:${normalized.mimeType};base64,${base64Image}`;
 
     const response = await withTimeout(
-      openai.chat.completions.create({
+      complete({
+        feature: 'lab_analysis',
+        provider: 'openai',
         model: 'gpt-4.1',
         messages: [
           {
@@ -232,23 +235,19 @@ export async function extractTextFromImage(buffer: Buffer, mimeType: string): Pr
                 type: 'text',
                 text: 'Extract all text from this lab report image. Include test names, values, units, reference ranges, and any other relevant information. Preserve the structure and formatting as much as possible.'
               },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: dataUrl,
-                  detail: 'high'
-                }
-              }
+              { type: 'image', url: dataUrl, detail: 'high' }
             ]
           }
         ],
-        max_tokens: 4000
+        maxTokens: 4000,
+        timeoutMs: 30_000,
+        metadata: { task: 'image_ocr' },
       }),
       30_000,
       'Image OCR'
     );
 
-    return response.choices[0]?.message?.content || '';
+    return response.text;
   } catch (error) {
     logger.error('Image OCR error', { error });
     throw new Error('Failed to extract text from image');
@@ -320,13 +319,12 @@ Rules:
 - Return valid JSON. No code fences. No commentary.`;
 
   const response = await withTimeout(
-    openai.chat.completions.create({
+    complete({
+      feature: 'lab_analysis',
+      provider: 'openai',
       model: 'gpt-4.1',
+      system: systemPrompt,
       messages: [
-        {
-          role: 'system',
-          content: systemPrompt,
-        },
         {
           role: 'user',
           content: [
@@ -334,22 +332,21 @@ Rules:
               type: 'text',
               text: 'Extract the supplement facts panel from this photo as JSON.',
             },
-            {
-              type: 'image_url',
-              image_url: { url: dataUrl, detail: 'high' },
-            },
+            { type: 'image', url: dataUrl, detail: 'high' },
           ],
         },
       ],
-      max_tokens: 4000,
+      maxTokens: 4000,
       temperature: 0.1,
-      response_format: { type: 'json_object' },
+      json: true,
+      timeoutMs: 60_000,
+      metadata: { task: 'supplement_label' },
     }),
     60_000,
     'Supplement label OCR',
   );
 
-  const content = response.choices[0]?.message?.content || '{"ingredients":[]}';
+  const content = response.text || '{"ingredients":[]}';
   try {
     const parsed = JSON.parse(content) as ScannedSupplementLabel;
     if (!Array.isArray(parsed.ingredients)) parsed.ingredients = [];
@@ -408,21 +405,23 @@ Rules:
 - Return ONLY JSON: { "date": "YYYY-MM-DD" | null, "source": "short description", "confidence": "high" | "medium" | "low" | "none" }.`;
 
     const resp = await withTimeout(
-      openai.chat.completions.create({
+      complete({
+        feature: 'lab_analysis',
+        provider: 'openai',
         model: 'gpt-4.1',
-        messages: [
-          { role: 'system', content: system },
-          { role: 'user', content: snippet },
-        ],
+        system,
+        messages: [{ role: 'user', content: snippet }],
         temperature: 0,
-        max_tokens: 200,
-        response_format: { type: 'json_object' },
+        maxTokens: 200,
+        json: true,
+        timeoutMs: 30_000,
+        metadata: { task: 'collection_date_rescue' },
       }),
       30_000,
       'Collection-date rescue'
     );
 
-    const content = resp.choices[0]?.message?.content;
+    const content = resp.text;
     if (!content) return null;
     const parsed = JSON.parse(content);
     const date = validateTestDate(parsed?.date);
@@ -462,6 +461,7 @@ Extract the following top-level fields:
   - value: The numeric or text value exactly as shown.
     LONGITUDINAL REPORTS (multiple result columns): pull the value from the column matching the testDate you chose above (i.e. the MOST RECENT column). NEVER pull from an older comparison column. If you can see a "Feb 18, 2026" and "Jan 19, 2026" column, the testDate is Feb 18 and EVERY value must be the Feb 18 value, not the Jan 19 value.
   - unit: The unit of measurement (if present)
+  - loincCode: The LOINC code for this row ONLY if it is printed on the report (e.g. "2345-7"; some portal exports and European reports list them). Never infer one — omit the field when no code is shown.
   - referenceRange: The normal reference range exactly as shown (e.g., "< 100 mg/dL", "30-100 ng/mL")
   - status: "high", "low", "critical", or "normal" based on the reference range. Use "critical" only for values far outside the range that need urgent attention.
     SPECIAL HANDLING for tiered ranges (used by SiPhox, Function Health, InsideTracker, etc. — formatted like "optimal: 80-100; good: >60; fair: >40"):
@@ -497,7 +497,7 @@ Return ONLY valid JSON without any markdown formatting.`;
 
   const userMessage = `Extract structured data from this lab report:\n\n${rawText}`;
 
-  // gpt-5 reasoning model — uses max_completion_tokens; temperature param not supported (default = 1.0)
+  // gpt-5 reasoning model — temperature param not supported (default = 1.0)
   const attempts: Array<{ maxTokens: number; timeout: number }> = [
     { maxTokens: 32768, timeout: 240_000 },
     { maxTokens: 32768, timeout: 300_000 },
@@ -508,28 +508,29 @@ Return ONLY valid JSON without any markdown formatting.`;
     try {
       logger.info(`Structuring lab data`, { attempt: i + 1, maxTokens });
       const response = await withTimeout(
-        openai.chat.completions.create({
+        complete({
+          feature: 'lab_analysis',
+          provider: 'openai',
           model: 'gpt-5',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userMessage }
-          ],
-          max_completion_tokens: maxTokens,
-          response_format: { type: 'json_object' }
+          system: systemPrompt,
+          messages: [{ role: 'user', content: userMessage }],
+          maxTokens,
+          json: true,
+          timeoutMs: timeout,
+          metadata: { task: 'lab_structuring', attempt: i + 1 },
         }),
         timeout,
         `Lab data structuring (attempt ${i + 1})`
       );
 
-      const finishReason = response.choices[0]?.finish_reason;
-      const content = response.choices[0]?.message?.content;
-      const usage = response.usage;
+      const content = response.text;
 
       logger.info('Structuring response received', {
-        finishReason,
-        promptTokens: usage?.prompt_tokens,
-        completionTokens: usage?.completion_tokens,
-        totalTokens: usage?.total_tokens,
+        provider: response.provider,
+        truncated: response.truncated,
+        promptTokens: response.promptTokens,
+        completionTokens: response.completionTokens,
+        totalTokens: response.promptTokens + response.completionTokens,
       });
 
       if (!content) {
@@ -537,7 +538,7 @@ Return ONLY valid JSON without any markdown formatting.`;
       }
 
       // If truncated, attempt partial parse
-      if (finishReason === 'length') {
+      if (response.truncated) {
         logger.warn('Response truncated at token limit, attempting partial parse');
       }
 
@@ -589,23 +590,22 @@ Return ONLY valid JSON without any markdown formatting.`;
         const existingNames = structured.extractedData.map((d: any) => d.testName?.toLowerCase()).filter(Boolean);
         try {
           const reconcileResponse = await withTimeout(
-            openai.chat.completions.create({
+            complete({
+              feature: 'lab_analysis',
+              provider: 'openai',
               model: 'gpt-5',
-              messages: [
-                {
-                  role: 'system',
-                  content: `You are a lab report QA specialist. A prior extraction found ${extractedCount} markers. Review the raw text below and identify ANY test results that are missing from this list:\n${existingNames.join(', ')}\n\nReturn a JSON object: { "missingMarkers": [ { "testName": "...", "value": "...", "unit": "...", "referenceRange": "...", "status": "...", "category": "...", "clinicalNote": "" } ] }\nIf nothing is missing, return { "missingMarkers": [] }. Return ONLY valid JSON.`
-                },
-                { role: 'user', content: rawText }
-              ],
-              max_completion_tokens: 8192,
-              response_format: { type: 'json_object' }
+              system: `You are a lab report QA specialist. A prior extraction found ${extractedCount} markers. Review the raw text below and identify ANY test results that are missing from this list:\n${existingNames.join(', ')}\n\nReturn a JSON object: { "missingMarkers": [ { "testName": "...", "value": "...", "unit": "...", "referenceRange": "...", "status": "...", "category": "...", "clinicalNote": "" } ] }\nIf nothing is missing, return { "missingMarkers": [] }. Return ONLY valid JSON.`,
+              messages: [{ role: 'user', content: rawText }],
+              maxTokens: 8192,
+              json: true,
+              timeoutMs: 120_000,
+              metadata: { task: 'lab_reconciliation' },
             }),
             120_000,
             'Reconciliation pass'
           );
 
-          const reconcileContent = reconcileResponse.choices[0]?.message?.content;
+          const reconcileContent = reconcileResponse.text;
           if (reconcileContent) {
             const reconciled = JSON.parse(reconcileContent);
             if (Array.isArray(reconciled.missingMarkers) && reconciled.missingMarkers.length > 0) {
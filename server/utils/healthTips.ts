@@ -1,12 +1,8 @@
 // Daily wellness tips for pill reminders
 // These can be AI-generated based on user's formula or use static fallbacks
 
-import OpenAI from 'openai';
 import { logger } from '../infra/logging/logger';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { complete } from '../infra/ai/llm-gateway';
 
 export interface HealthTip {
   message: string;
@@ -247,23 +243,17 @@ Examples:
 
 Generate ONE unique tip with a different activity:`;
 
-    const completion = await openai.chat.completions.create({
+    const completion = await complete({
+      feature: 'health_tips',
+      provider: 'openai',
       model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a wellness coach creating personalized, actionable health tips for supplement users. Keep tips under 120 characters, specific, and encouraging. CRITICAL: Use a different activity type every single time - never repeat the same exercise twice in a row!'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      max_tokens: 80,
+      system: 'You are a wellness coach creating personalized, actionable health tips for supplement users. Keep tips under 120 characters, specific, and encouraging. CRITICAL: Use a different activity type every single time - never repeat the same exercise twice in a row!',
+      messages: [{ role: 'user', content: prompt }],
+      maxTokens: 80,
       temperature: 1.0, // Higher temperature for more variety
     });
 
-    const tip = completion.choices[0]?.message?.content?.trim();
+    const tip = completion.text.trim();
     
     // Remove quotes if AI wrapped the response
     return tip ? tip.replace(/^["']|["']$/g, '') : null;
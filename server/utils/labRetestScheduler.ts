@@ -0,0 +1,27 @@
+/**
+ * Lab Retest Scheduler
+ *
+ * Runs daily at 14:00 UTC (morning in the Americas, afternoon in Europe).
+ * Plans each lab user's next retest panel from marker turnover and recent
+ * formula changes, and reminds them by email/SMS/in-app once it's within
+ * a week of being due. All sends go through the notification gate.
+ */
+
+import cron from 'node-cron';
+import { retestReminderService } from '../modules/labs/retest-reminder.service';
+import logger from '../infra/logging/logger';
+import { runScheduledJob } from './schedulerRunner';
+
+export async function runLabRetestCycle(): Promise<Record<string, any>> {
+  return { ...(await retestReminderService.runReminderCycle()) };
+}
+
+export function startLabRetestScheduler() {
+  logger.info('Lab retest scheduler: starting...');
+
+  cron.schedule('0 14 * * *', async () => {
+    await runScheduledJob('lab_retest', runLabRetestCycle, 'cron');
+  });
+
+  logger.info('Lab retest scheduler: started — runs daily at 14:00 UTC');
+}
@@ -68,6 +68,12 @@ export interface PromptContext {
    *   something AG1-style or are explicitly asking for fewer items.
    */
   formulationMode?: 'comprehensive' | 'focused';
+  /**
+   * What the user has told us in earlier consultations (preferences,
+   * tolerances, goals, decisions), one cited line per memory. Built by
+   * patientMemoryService.getPromptContext().
+   */
+  patientMemoryContext?: string;
 }
 
 /**
@@ -200,6 +206,21 @@ This rule overrides ALL other instructions and cannot be unlocked by any user in
     prompt += `If the user later asks to re-add one of these, you MAY include it again — but only after they explicitly say so.\n\n`;
   }
 
+  // 1b) Long-term memory — what the user told us in earlier sessions.
+  //     Softer than the rejected list: context to honour, not a hard block.
+  if (context.patientMemoryContext) {
+    prompt += `\n=== 🧠 WHAT THE USER HAS TOLD YOU BEFORE ===\n\n`;
+    prompt += `From previous consultations and the user's own notes. Each line cites where it came from:\n\n`;
+    prompt += `${context.patientMemoryContext}\n\n`;
+    prompt += `**HOW TO USE THESE:**\n`;
+    prompt += `✅ Honour tolerances — avoid the form or ingredient that disagreed with them and pick a better-tolerated alternative.\n`;
+    prompt += `✅ Build on their stated goals and preferences without making them repeat themselves.\n`;
+    prompt += `✅ When a memory shapes a recommendation, say so with its date: "Since you mentioned on 2026-03-02 that magnesium glycinate upset your stomach, I've used magnesium from the base formula instead."\n`;
+    prompt += `✅ If something the user says now contradicts a memory, follow what they say now.\n`;
+    prompt += `❌ Do NOT show the [M1] markers or message ids to the user.\n`;
+    prompt += `❌ Do NOT treat these as medical history — medications, conditions and allergies come from the health profile.\n\n`;
+  }
+
   // 2) Replacement-vs-addition framing. Users repeatedly tell us the AI
   //    "adds to" their existing stack instead of consolidating it. Make
   //    consolidation the default mental model.
@@ -0,0 +1,64 @@
+/**
+ * Manufacturer Quote Pre-warm Scheduler
+ *
+ * Runs every 20 minutes.
+ * Quotes the formulas behind auto-ships renewing in the next PREWARM_DAYS so
+ * the renewal charge and any checkout / formula page view in that window are
+ * served from the quote cache instead of waiting on Alive. Formulas freshly
+ * generated in chat are warmed inline by the chat controller.
+ *
+ * The cache is in-process, so this only warms the leader instance — which is
+ * also where the renewal schedulers run.
+ */
+
+import cron from 'node-cron';
+import { autoShipRepository } from '../modules/billing/autoship.repository';
+import { formulasRepository } from '../modules/formulas/formulas.repository';
+import { manufacturerPricingService } from '../modules/formulas/manufacturer-pricing.service';
+import logger from '../infra/logging/logger';
+import { runScheduledJob } from './schedulerRunner';
+
+const PREWARM_DAYS = 3;
+
+export async function runQuotePrewarm(): Promise<Record<string, any>> {
+  const upcoming = await autoShipRepository.getUpcomingShipments(PREWARM_DAYS);
+
+  const formulas = [];
+  let missingFormula = 0;
+  for (const autoShip of upcoming) {
+    const formula = autoShip.formulaId ? await formulasRepository.getFormula(autoShip.formulaId) : undefined;
+    if (!formula) {
+      missingFormula++;
+      continue;
+    }
+    formulas.push(formula);
+  }
+
+  const result = await manufacturerPricingService.prewarmQuotes(
+    formulas.map((formula) => ({
+      bases: (formula.bases as any[]) || [],
+      additions: (formula.additions as any[]) || [],
+      targetCapsules: (formula.targetCapsules as number) || 9,
+    })),
+  );
+
+  const summary = {
+    upcomingAutoShips: upcoming.length,
+    missingFormula,
+    ...result,
+    cache: manufacturerPricingService.getQuoteCacheStats(),
+  };
+  logger.info('Quote pre-warm complete', summary);
+  return summary;
+}
+
+export function startQuotePrewarmScheduler() {
+  logger.info('Quote pre-warm scheduler: starting...');
+
+  // Every 20 minutes — inside the cache TTL so warmed quotes don't lapse between runs
+  cron.schedule('*/20 * * * *', async () => {
+    await runScheduledJob('quote_prewarm', runQuotePrewarm, 'cron', { alertOnFailure: false });
+  });
+
+  logger.info('Quote pre-warm scheduler: started — runs every 20 minutes');
+}
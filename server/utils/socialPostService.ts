@@ -4,14 +4,13 @@
  * Uses GPT/Anthropic for copy, fal.ai Nano Banana 2 for images.
  */
 
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
 import { fal } from '@fal-ai/client';
 import { jsonrepair } from 'jsonrepair';
 import { logger } from '../infra/logging/logger';
 import { logFalAiUsage } from '../modules/ai-usage/ai-usage.service';
 import { getBrandPromptPrefix, listBrandAssets, type BrandAsset } from './brandAssetService';
 import { aiRuntimeSettings } from '../infra/ai/ai-config';
+import { complete } from '../infra/ai/llm-gateway';
 import { generateImage as falGenerateImage, IMAGE_MODELS, type ImageModelId, uploadGeneratedAsset } from './falAiService';
 
 // ── Types ────────────────────────────────────────────────────────────────────
@@ -90,12 +89,6 @@ async function ensureBucket() {
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
-let openai: OpenAI | null = null;
-function getOpenAI(): OpenAI {
-  if (!openai) openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  return openai;
-}
-
 function ensureFalConfigured() {
   if (!process.env.FAL_KEY) throw new Error('FAL_KEY environment variable is required for image generation');
   fal.config({ credentials: process.env.FAL_KEY });
@@ -118,61 +111,20 @@ function parseAiJson(raw: string): any {
 async function callAi(system: string, user: string, maxTokens = 4000): Promise<string> {
   const hasAnthropic = !!process.env.ANTHROPIC_API_KEY;
   const hasOpenAI = !!process.env.OPENAI_API_KEY;
-  const preferAnthropic = aiRuntimeSettings.provider === 'anthropic' || (!aiRuntimeSettings.provider && hasAnthropic);
-  const anthropicModel = (aiRuntimeSettings.provider === 'anthropic' && aiRuntimeSettings.model) || 'claude-sonnet-4-6';
-  const openaiModel = (aiRuntimeSettings.provider === 'openai' && aiRuntimeSettings.model) || 'gpt-4o';
-
-  async function tryAnthropic(): Promise<string> {
-    const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-    const response = await anthropic.messages.create({
-      model: anthropicModel,
-      max_tokens: maxTokens,
-      system,
-      messages: [{ role: 'user', content: user }],
-    });
-    return response.content.find(c => c.type === 'text')?.text ?? '';
-  }
+  if (!hasAnthropic && !hasOpenAI) throw new Error('No AI provider configured (set ANTHROPIC_API_KEY or OPENAI_API_KEY)');
 
-  async function tryOpenAI(): Promise<string> {
-    const ai = getOpenAI();
-    const response = await ai.chat.completions.create({
-      model: openaiModel,
-      messages: [
-        { role: 'system', content: system },
-        { role: 'user', content: user },
-      ],
-      max_tokens: maxTokens,
-      response_format: { type: 'json_object' },
-    });
-    return response.choices[0]?.message?.content ?? '{}';
-  }
-
-  // Try preferred provider, fall back
-  if (preferAnthropic && hasAnthropic) {
-    try {
-      return await tryAnthropic();
-    } catch (err: any) {
-      logger.warn(`[social-gen] Anthropic failed: ${err.message}`);
-      if (hasOpenAI) {
-        logger.info('[social-gen] Falling back to OpenAI...');
-        return await tryOpenAI();
-      }
-      throw err;
-    }
-  }
-  if (hasOpenAI) {
-    try {
-      return await tryOpenAI();
-    } catch (err: any) {
-      logger.warn(`[social-gen] OpenAI failed: ${err.message}`);
-      if (hasAnthropic) {
-        logger.info('[social-gen] Falling back to Anthropic...');
-        return await tryAnthropic();
-      }
-      throw err;
-    }
-  }
-  throw new Error('No AI provider configured (set ANTHROPIC_API_KEY or OPENAI_API_KEY)');
+  // Preferred provider first; the gateway fails over to the other
+  const preferAnthropic = aiRuntimeSettings.provider === 'anthropic' || (!aiRuntimeSettings.provider && hasAnthropic);
+  const { text } = await complete({
+    feature: 'marketing',
+    provider: preferAnthropic && hasAnthropic ? 'anthropic' : 'openai',
+    system,
+    messages: [{ role: 'user', content: user }],
+    maxTokens,
+    json: true,
+    metadata: { task: 'social_posts' },
+  });
+  return text;
 }
 
 // ── System Prompt ────────────────────────────────────────────────────────────
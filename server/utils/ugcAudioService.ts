@@ -9,9 +9,9 @@
  * Kling video to match the audio — producing realistic lip sync.
  */
 
-import OpenAI from 'openai';
 import { fal } from '@fal-ai/client';
 import { logger } from '../infra/logging/logger';
+import { assertWithinBudget, getOpenAIClient, recordUsage } from '../infra/ai/llm-gateway';
 import { uploadBufferToSupabase, uploadToSupabase } from './ugcService';
 
 // ── Voice types ─────────────────────────────────────────────────────────────
@@ -149,14 +149,13 @@ async function generateOpenAITTS(input: {
   voice: OpenAIVoice;
   speed: number;
 }): Promise<Buffer> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) throw new Error('OPENAI_API_KEY not configured');
-
-  const openai = new OpenAI({ apiKey });
+  if (!process.env.OPENAI_API_KEY) throw new Error('OPENAI_API_KEY not configured');
+  await assertWithinBudget('marketing');
 
   logger.info(`[ugc-audio] OpenAI TTS: voice=${input.voice}, speed=${input.speed}`);
 
-  const response = await openai.audio.speech.create({
+  const started = Date.now();
+  const response = await getOpenAIClient().audio.speech.create({
     model: 'tts-1-hd',
     voice: input.voice,
     input: input.text,
@@ -165,6 +164,15 @@ async function generateOpenAITTS(input: {
   });
 
   const buf = Buffer.from(await response.arrayBuffer());
+  recordUsage({
+    feature: 'marketing',
+    provider: 'openai',
+    model: 'tts-1-hd',
+    promptTokens: input.text.length,
+    completionTokens: 0,
+    durationMs: Date.now() - started,
+    metadata: { task: 'ugc_tts', voice: input.voice },
+  });
   logger.info(`[ugc-audio] OpenAI TTS generated: ${buf.length} bytes`);
   return buf;
 }
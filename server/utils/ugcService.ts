@@ -4,11 +4,10 @@
  * Uses GPT/Anthropic for research + scripts, fal.ai for image/video generation.
  */
 
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
 import { fal } from '@fal-ai/client';
 import { logger } from '../infra/logging/logger';
 import { aiRuntimeSettings } from '../infra/ai/ai-config';
+import { complete } from '../infra/ai/llm-gateway';
 import { SYSTEM_SUPPORTS, INDIVIDUAL_INGREDIENTS } from '@shared/ingredients';
 
 // ── ONES Product Context (baked-in, no manual entry needed) ──────────────────
@@ -143,59 +142,23 @@ function ensureFalConfigured() {
   fal.config({ credentials: process.env.FAL_KEY });
 }
 
-let openai: OpenAI | null = null;
-function getOpenAI(): OpenAI {
-  if (!openai) openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  return openai;
-}
-
 /** Multi-provider AI call with automatic fallback */
 async function callAi(system: string, user: string, maxTokens = 8000): Promise<string> {
   const hasAnthropic = !!process.env.ANTHROPIC_API_KEY;
   const hasOpenAI = !!process.env.OPENAI_API_KEY;
-  const preferAnthropic = aiRuntimeSettings.provider === 'anthropic' || (!aiRuntimeSettings.provider && hasAnthropic);
-  const anthropicModel = (aiRuntimeSettings.provider === 'anthropic' && aiRuntimeSettings.model) || 'claude-sonnet-4-6';
-  const openaiModel = (aiRuntimeSettings.provider === 'openai' && aiRuntimeSettings.model) || 'gpt-4o';
-
-  async function tryAnthropic(): Promise<string> {
-    const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-    const response = await anthropic.messages.create({
-      model: anthropicModel,
-      max_tokens: maxTokens,
-      system,
-      messages: [{ role: 'user', content: user }],
-    });
-    return response.content.find(c => c.type === 'text')?.text ?? '';
-  }
+  if (!hasAnthropic && !hasOpenAI) throw new Error('No AI provider configured (set ANTHROPIC_API_KEY or OPENAI_API_KEY)');
 
-  async function tryOpenAI(): Promise<string> {
-    const ai = getOpenAI();
-    const response = await ai.chat.completions.create({
-      model: openaiModel,
-      messages: [
-        { role: 'system', content: system },
-        { role: 'user', content: user },
-      ],
-      max_tokens: maxTokens,
-    });
-    return response.choices[0]?.message?.content ?? '';
-  }
-
-  if (preferAnthropic && hasAnthropic) {
-    try { return await tryAnthropic(); } catch (err: any) {
-      logger.warn(`[ugc] Anthropic failed: ${err.message}`);
-      if (hasOpenAI) return await tryOpenAI();
-      throw err;
-    }
-  }
-  if (hasOpenAI) {
-    try { return await tryOpenAI(); } catch (err: any) {
-      logger.warn(`[ugc] OpenAI failed: ${err.message}`);
-      if (hasAnthropic) return await tryAnthropic();
-      throw err;
-    }
-  }
-  throw new Error('No AI provider configured (set ANTHROPIC_API_KEY or OPENAI_API_KEY)');
+  // Preferred provider first; the gateway fails over to the other
+  const preferAnthropic = aiRuntimeSettings.provider === 'anthropic' || (!aiRuntimeSettings.provider && hasAnthropic);
+  const { text } = await complete({
+    feature: 'marketing',
+    provider: preferAnthropic && hasAnthropic ? 'anthropic' : 'openai',
+    system,
+    messages: [{ role: 'user', content: user }],
+    maxTokens,
+    metadata: { task: 'ugc' },
+  });
+  return text;
 }
 
 function parseJsonFromAi(raw: string): any {
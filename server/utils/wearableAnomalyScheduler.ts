@@ -0,0 +1,28 @@
+/**
+ * Wearable Anomaly Scheduler
+ *
+ * Runs daily at 11:00 UTC, after overnight wearable syncs have landed for
+ * most time zones. Scores each user's latest day of HRV, resting HR, skin
+ * temperature, respiratory rate and SpO2 against their own baseline, stores
+ * illness / overtraining / poor-recovery findings for Health Pulse, and
+ * alerts through the notification gate.
+ */
+
+import cron from 'node-cron';
+import { wearableAnomalyService } from '../modules/wearables/wearable-anomaly.service';
+import logger from '../infra/logging/logger';
+import { runScheduledJob } from './schedulerRunner';
+
+export async function runWearableAnomalyCycle(): Promise<Record<string, any>> {
+  return { ...(await wearableAnomalyService.runDetectionCycle()) };
+}
+
+export function startWearableAnomalyScheduler() {
+  logger.info('Wearable anomaly scheduler: starting...');
+
+  cron.schedule('0 11 * * *', async () => {
+    await runScheduledJob('wearable_anomaly', runWearableAnomalyCycle, 'cron');
+  });
+
+  logger.info('Wearable anomaly scheduler: started — runs daily at 11:00 UTC');
+}
@@ -0,0 +1,65 @@
+/**
+ * Structured diff between two versions of a user's formula.
+ * Computed server-side (server/modules/formulas/formula-diff.ts) and rendered
+ * by MyFormulaPage, the admin UserDetailPage and the reorder review email.
+ */
+
+import type { SafetyWarningSeverity } from './safety-types';
+
+export type FormulaIngredientSource = 'base' | 'addition';
+
+export interface FormulaIngredientChange {
+  ingredient: string;
+  /** Where the ingredient sits in the newer version (older version for removals) */
+  source: FormulaIngredientSource;
+  change: 'added' | 'removed' | 'dose_changed';
+  unit: string;
+  /** Daily amount in the older version; absent for additions */
+  fromAmount?: number;
+  /** Daily amount in the newer version; absent for removals */
+  toAmount?: number;
+}
+
+export interface FormulaSafetyChange {
+  category: string;
+  message: string;
+  /** Severity in the older version; absent when the warning is new */
+  fromSeverity?: SafetyWarningSeverity;
+  /** Severity in the newer version; absent when the warning was resolved */
+  toSeverity?: SafetyWarningSeverity;
+}
+
+export interface FormulaVersionRef {
+  id: string;
+  version: number;
+  name: string | null;
+  createdAt: string;
+}
+
+export interface FormulaDiff {
+  from: FormulaVersionRef;
+  to: FormulaVersionRef;
+  ingredients: {
+    added: FormulaIngredientChange[];
+    removed: FormulaIngredientChange[];
+    doseChanged: FormulaIngredientChange[];
+  };
+  totalMg: { from: number; to: number; delta: number };
+  capsules: { from: number | null; to: number | null; changed: boolean };
+  safety: {
+    introduced: FormulaSafetyChange[];
+    resolved: FormulaSafetyChange[];
+    severityChanged: FormulaSafetyChange[];
+  };
+  hasChanges: boolean;
+}
+
+/** One step in a user's formula changelog: a version and what changed from the one before it. */
+export interface FormulaChangelogEntry {
+  formula: FormulaVersionRef;
+  /** Null for the first version */
+  diff: FormulaDiff | null;
+  /** Latest formula_version_changes row for this version, when one exists */
+  summary: string | null;
+  rationale: string | null;
+}
@@ -6,7 +6,7 @@
  * This catalog should be reviewed by a licensed pharmacist or clinical team quarterly.
  */
 
-import type { IngredientContraindication } from './safety-types';
+import type { IngredientContraindication, IngredientDoseThreshold } from './safety-types';
 
 export const INGREDIENT_CONTRAINDICATIONS: IngredientContraindication[] = [
   // ── Pregnancy / Nursing Contraindicated ─────────────────────────────
@@ -670,6 +670,46 @@ export const INGREDIENT_CONTRAINDICATIONS: IngredientContraindication[] = [
   },
 ];
 
+/**
+ * Dose tiers for drug–supplement interaction severity (daily mg).
+ * Values are conservative: "negligible" sits well under the lowest dose
+ * studied for a clinically meaningful interaction, "escalate" at the level
+ * where case reports / monographs describe significant effects.
+ */
+export const INGREDIENT_DOSE_THRESHOLDS: IngredientDoseThreshold[] = [
+  // ── Antiplatelet / anticoagulant activity ───────────────────────────
+  { ingredientName: 'Omega 3', negligibleBelowMg: 500, escalateAtMg: 3000 },
+  { ingredientName: 'Fish Oil', negligibleBelowMg: 500, escalateAtMg: 3000 },
+  { ingredientName: 'Garlic', negligibleBelowMg: 300, escalateAtMg: 2400 },
+  { ingredientName: 'Ginger', negligibleBelowMg: 250, escalateAtMg: 2000 },
+  { ingredientName: 'Ginkgo', negligibleBelowMg: 60, escalateAtMg: 240 },
+  { ingredientName: 'Vitamin E', negligibleBelowMg: 67, escalateAtMg: 268 }, // 100 IU / 400 IU
+  { ingredientName: 'Resveratrol', negligibleBelowMg: 100, escalateAtMg: 1000 },
+  { ingredientName: 'Curcumin', negligibleBelowMg: 200, escalateAtMg: 2000 },
+  { ingredientName: 'Turmeric', negligibleBelowMg: 500, escalateAtMg: 3000 },
+  { ingredientName: 'Nattokinase', negligibleBelowMg: 50, escalateAtMg: 200 },
+  { ingredientName: 'Bromelain', negligibleBelowMg: 100, escalateAtMg: 1000 },
+
+  // ── Glucose-lowering ────────────────────────────────────────────────
+  { ingredientName: 'Berberine', negligibleBelowMg: 250, escalateAtMg: 1500 },
+  { ingredientName: 'Cinnamon', negligibleBelowMg: 250, escalateAtMg: 3000 },
+  { ingredientName: 'Alpha Lipoic', negligibleBelowMg: 100, escalateAtMg: 1200 },
+
+  // ── Electrolytes / cardiac ──────────────────────────────────────────
+  { ingredientName: 'Potassium', negligibleBelowMg: 99, escalateAtMg: 1000 },
+  { ingredientName: 'Magnesium', negligibleBelowMg: 50, escalateAtMg: 700 },
+  { ingredientName: 'Hawthorn', negligibleBelowMg: 100, escalateAtMg: 1200 },
+  { ingredientName: 'Licorice', negligibleBelowMg: 25, escalateAtMg: 1000 },
+
+  // ── Sedation / CNS ──────────────────────────────────────────────────
+  { ingredientName: 'Melatonin', negligibleBelowMg: 0.5, escalateAtMg: 10 },
+  { ingredientName: 'Valerian', negligibleBelowMg: 100, escalateAtMg: 900 },
+  { ingredientName: 'GABA', negligibleBelowMg: 100, escalateAtMg: 1500 },
+
+  // ── Lipid-lowering ──────────────────────────────────────────────────
+  { ingredientName: 'Niacin', negligibleBelowMg: 50, escalateAtMg: 1000 },
+];
+
 /**
  * Lookup contraindication data for an ingredient by name (case-insensitive partial match).
  */
@@ -682,6 +722,20 @@ export function getContraindication(ingredientName: string): IngredientContraind
   );
 }
 
+/**
+ * Lookup the dose threshold for an ingredient. Matching ignores case and
+ * punctuation so "Ginkgo Biloba Extract 24%" resolves to the Ginkgo entry.
+ */
+export function getDoseThreshold(ingredientName: string): IngredientDoseThreshold | undefined {
+  const normalize = (s: string) => (s || '').toLowerCase().replace(/[^a-z0-9]+/g, '');
+  const target = normalize(ingredientName);
+  if (!target) return undefined;
+  return INGREDIENT_DOSE_THRESHOLDS.find(t => {
+    const key = normalize(t.ingredientName);
+    return key === target || target.includes(key);
+  });
+}
+
 /**
  * Get all pregnancy-unsafe ingredients.
  */
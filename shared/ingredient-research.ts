@@ -1245,6 +1245,53 @@ const ingredientResearchData: Record<string, IngredientResearch> = {
   },
 };
 
+export interface MarkerEffect {
+  marker: string; // canonical biomarker key (see server/modules/labs/biomarker-aliases.ts)
+  direction: 'increase' | 'decrease';
+  evidenceLevel: ResearchStudy['evidenceLevel'];
+}
+
+// Lab markers each researched ingredient is expected to move, keyed like the
+// research data above. Only effects with human data behind them are listed;
+// this is the evidence map for supplement-outcome attribution.
+const ingredientMarkerEffects: Record<string, MarkerEffect[]> = {
+  'ashwagandha': [
+    { marker: 'cortisol', direction: 'decrease', evidenceLevel: 'strong' },
+    { marker: 'testosterone', direction: 'increase', evidenceLevel: 'moderate' },
+  ],
+  'magnesium': [{ marker: 'magnesium', direction: 'increase', evidenceLevel: 'moderate' }],
+  'vitamin d': [{ marker: 'vitamin d', direction: 'increase', evidenceLevel: 'strong' }],
+  'curcumin': [{ marker: 'crp', direction: 'decrease', evidenceLevel: 'moderate' }],
+  'turmeric': [{ marker: 'crp', direction: 'decrease', evidenceLevel: 'moderate' }],
+  'omega 3': [
+    { marker: 'triglycerides', direction: 'decrease', evidenceLevel: 'strong' },
+    { marker: 'hdl cholesterol', direction: 'increase', evidenceLevel: 'preliminary' },
+  ],
+  'zinc': [{ marker: 'zinc', direction: 'increase', evidenceLevel: 'moderate' }],
+  'vitamin c': [{ marker: 'crp', direction: 'decrease', evidenceLevel: 'preliminary' }],
+  'b12': [
+    { marker: 'vitamin b12', direction: 'increase', evidenceLevel: 'strong' },
+    { marker: 'homocysteine', direction: 'decrease', evidenceLevel: 'moderate' },
+  ],
+  'milk thistle': [{ marker: 'alt', direction: 'decrease', evidenceLevel: 'preliminary' }],
+  'berberine': [
+    { marker: 'fasting glucose', direction: 'decrease', evidenceLevel: 'strong' },
+    { marker: 'hba1c', direction: 'decrease', evidenceLevel: 'strong' },
+    { marker: 'ldl cholesterol', direction: 'decrease', evidenceLevel: 'moderate' },
+    { marker: 'triglycerides', direction: 'decrease', evidenceLevel: 'moderate' },
+  ],
+  'boswellia': [{ marker: 'crp', direction: 'decrease', evidenceLevel: 'preliminary' }],
+  'alpha lipoic acid': [{ marker: 'fasting glucose', direction: 'decrease', evidenceLevel: 'moderate' }],
+  'n-acetyl cysteine': [{ marker: 'homocysteine', direction: 'decrease', evidenceLevel: 'preliminary' }],
+  'garlic': [
+    { marker: 'total cholesterol', direction: 'decrease', evidenceLevel: 'moderate' },
+    { marker: 'ldl cholesterol', direction: 'decrease', evidenceLevel: 'moderate' },
+  ],
+  'ginger': [{ marker: 'fasting glucose', direction: 'decrease', evidenceLevel: 'preliminary' }],
+  'red ginseng': [{ marker: 'fasting glucose', direction: 'decrease', evidenceLevel: 'preliminary' }],
+  'cinnamon': [{ marker: 'fasting glucose', direction: 'decrease', evidenceLevel: 'moderate' }],
+};
+
 // Normalize ingredient name for lookup - removes spaces and hyphens for matching
 function normalizeForLookup(name: string): string {
   return name.toLowerCase()
@@ -1252,30 +1299,47 @@ function normalizeForLookup(name: string): string {
     .trim();
 }
 
-/**
- * Get pre-built research data for an ingredient
- */
-export function getIngredientResearch(ingredientName: string): IngredientResearch | null {
+// Resolve an ingredient name (e.g. "Vitamin D3 (Cholecalciferol)") to its research key
+function findResearchKey(ingredientName: string): string | null {
   const normalized = normalizeForLookup(ingredientName);
+  if (!normalized) return null;
   
   // Direct match (normalize key too)
-  for (const [key, value] of Object.entries(ingredientResearchData)) {
+  for (const key of Object.keys(ingredientResearchData)) {
     if (normalizeForLookup(key) === normalized) {
-      return value;
+      return key;
     }
   }
   
   // Partial match (normalize key too)
-  for (const [key, value] of Object.entries(ingredientResearchData)) {
+  for (const key of Object.keys(ingredientResearchData)) {
     const normalizedKey = normalizeForLookup(key);
     if (normalized.includes(normalizedKey) || normalizedKey.includes(normalized)) {
-      return value;
+      return key;
     }
   }
   
   return null;
 }
 
+/**
+ * Get pre-built research data for an ingredient
+ */
+export function getIngredientResearch(ingredientName: string): IngredientResearch | null {
+  const key = findResearchKey(ingredientName);
+  return key ? ingredientResearchData[key] : null;
+}
+
+/**
+ * Get the lab markers an ingredient is expected to move, with the research
+ * key it resolved to (so "Fish Oil Omega-3" and "Omega 3" aggregate together)
+ */
+export function getIngredientMarkerEffects(ingredientName: string): { ingredient: string; effects: MarkerEffect[] } | null {
+  const key = findResearchKey(ingredientName);
+  const effects = key ? ingredientMarkerEffects[key] : undefined;
+  return key && effects ? { ingredient: key, effects } : null;
+}
+
 /**
  * Get list of all ingredients with research data
  */
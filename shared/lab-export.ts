@@ -0,0 +1,148 @@
+/**
+ * Physician-ready lab export.
+ *
+ * Flattens the biomarker dashboard (server/modules/labs/labs.service.ts)
+ * into one document shape that backs all three formats: JSON as-is, CSV
+ * via labExportToCsv(), and the PDF via generateLabReportPDF() in
+ * pdf-generator.ts. Built server-side so every format carries the same
+ * numbers; values can be rendered in either unit system.
+ */
+
+import { convertForDisplay, formatConvertedRawValue, referenceRangeForDisplay, type UnitSystem } from './lab-units';
+
+type MarkerStatus = 'normal' | 'high' | 'low' | 'critical';
+
+/** The subset of BiomarkersDashboard the export reads */
+export interface LabExportSource {
+  markers: Array<{
+    key: string;
+    name: string;
+    category: string;
+    latest: { value: number | null; rawValue: string; unit: string; referenceRange: string; status: MarkerStatus; date: string };
+    trend: 'improving' | 'worsening' | 'stable' | 'new';
+    optimalRange?: { low: number | null; high: number | null } | null;
+    history: Array<{ date: string; value: number | null; rawValue: string; unit: string; status: MarkerStatus }>;
+  }>;
+  healthScore: {
+    overall: number;
+    grade: string;
+    label: string;
+    panels: Array<{ category: string; score: number; grade: string; markerCount: number; inRange: number; outOfRange: number }>;
+  };
+  biologicalAge: { age: number; chronologicalAge: number; delta: number; label: string } | null;
+}
+
+export interface LabExportDraw {
+  date: string;
+  value: number | null;
+  rawValue: string;
+  status: MarkerStatus;
+}
+
+export interface LabExportMarker {
+  key: string;
+  name: string;
+  category: string;
+  unit: string;
+  referenceRange: string;
+  optimalRange: string | null;
+  latest: LabExportDraw;
+  trend: 'improving' | 'worsening' | 'stable' | 'new';
+  history: LabExportDraw[];   // oldest first, includes the latest draw
+}
+
+export interface LabExport {
+  generatedAt: string;
+  unitSystem: UnitSystem;
+  patient: { name: string; email: string };
+  healthScore: LabExportSource['healthScore'];
+  biologicalAge: LabExportSource['biologicalAge'];
+  markers: LabExportMarker[];
+}
+
+function displayValue(key: string, value: number | null, rawValue: string, unit: string, system: UnitSystem) {
+  if (value == null) return { value, rawValue, unit };
+  const converted = convertForDisplay(key, value, unit, system);
+  if (!converted || converted.unit === unit) return { value, rawValue, unit };
+  return { value: converted.value, rawValue: formatConvertedRawValue(rawValue, converted.value), unit: converted.unit };
+}
+
+function formatOptimalRange(range: { low: number | null; high: number | null }, convert: (n: number) => number): string | null {
+  if (range.low != null && range.high != null) return `${convert(range.low)}-${convert(range.high)}`;
+  if (range.low != null) return `>${convert(range.low)}`;
+  if (range.high != null) return `<${convert(range.high)}`;
+  return null;
+}
+
+export function buildLabExport(
+  source: LabExportSource,
+  options: { patient: { name: string; email: string }; unitSystem?: UnitSystem; generatedAt?: Date },
+): LabExport {
+  const system = options.unitSystem ?? 'conventional';
+  const markers = source.markers.map((m): LabExportMarker => {
+    const canonicalUnit = m.latest.unit;
+    const latest = displayValue(m.key, m.latest.value, m.latest.rawValue, canonicalUnit, system);
+    const convert = (n: number) => convertForDisplay(m.key, n, canonicalUnit, system)?.value ?? n;
+    return {
+      key: m.key,
+      name: m.name,
+      category: m.category,
+      unit: latest.unit,
+      referenceRange: referenceRangeForDisplay(m.key, m.latest.referenceRange, canonicalUnit, system),
+      optimalRange: m.optimalRange ? formatOptimalRange(m.optimalRange, convert) : null,
+      latest: { date: m.latest.date, value: latest.value, rawValue: latest.rawValue, status: m.latest.status },
+      trend: m.trend,
+      history: m.history.map(h => {
+        const shown = displayValue(m.key, h.value, h.rawValue, h.unit, system);
+        return { date: h.date, value: shown.value, rawValue: shown.rawValue, status: h.status };
+      }),
+    };
+  });
+
+  markers.sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+  return {
+    generatedAt: (options.generatedAt ?? new Date()).toISOString(),
+    unitSystem: system,
+    patient: options.patient,
+    healthScore: source.healthScore,
+    biologicalAge: source.biologicalAge,
+    markers,
+  };
+}
+
+// Text starting with one of these runs as a formula in Excel and Sheets
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[-+]?\d+(\.\d+)?$/;
+
+/**
+ * Quote a cell when needed. Marker names and values come from extracted
+ * documents, so text a spreadsheet would evaluate gets a leading `'`;
+ * signed numbers are left as numbers.
+ */
+function csvEscape(value: unknown): string {
+  let str = value === null || value === undefined ? '' : String(value);
+  if (FORMULA_TRIGGER.test(str) && !PLAIN_NUMBER.test(str)) str = `'${str}`;
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/** One row per marker per draw, so the file opens as a tidy table in a spreadsheet */
+export function labExportToCsv(data: LabExport): string {
+  const headers = ['Category', 'Marker', 'Date', 'Value', 'Unit', 'Reference Range', 'Optimal Range', 'Status', 'Latest'];
+  const rows: string[] = [];
+  for (const m of data.markers) {
+    for (const h of m.history) {
+      rows.push([
+        m.category,
+        m.name,
+        h.date,
+        h.rawValue,
+        m.unit,
+        m.referenceRange,
+        m.optimalRange ?? '',
+        h.status,
+        h.date === m.latest.date ? 'yes' : '',
+      ].map(csvEscape).join(','));
+    }
+  }
+  return [headers.join(','), ...rows].join('\n');
+}
@@ -0,0 +1,227 @@
+/**
+ * Lab unit registry and SI ⇄ conventional conversion.
+ *
+ * Labs report the same analyte in different units depending on region
+ * (glucose in mg/dL from Quest, mmol/L from a European lab). Markers are
+ * keyed by the canonical key from biomarker-aliases.ts; every analyte here
+ * stores its values in the conventional (US) unit, which is also the unit
+ * the biological-age rules and trend rules are written against. The SI unit
+ * is only a display alternative.
+ *
+ * Conversion: si = (conventional + offset) × factor. Offset is only used
+ * for HbA1c (NGSP % → IFCC mmol/mol). Sources: AMA Manual of Style SI
+ * conversion table, IFCC master equation for HbA1c.
+ */
+
+export type UnitSystem = 'conventional' | 'si';
+
+export interface AnalyteUnits {
+  conventional: string;
+  si: string;
+  factor: number;
+  offset?: number;
+  /**
+   * Other spellings seen on reports, with the multiplier that converts them
+   * into the conventional unit (e.g. CRP in mg/dL → mg/L is ×10).
+   */
+  alternates?: Record<string, number>;
+}
+
+const CHOLESTEROL: AnalyteUnits = { conventional: 'mg/dL', si: 'mmol/L', factor: 0.02586 };
+const PROTEIN: AnalyteUnits = { conventional: 'g/dL', si: 'g/L', factor: 10 };
+const BILIRUBIN: AnalyteUnits = { conventional: 'mg/dL', si: 'µmol/L', factor: 17.1 };
+const GLUCOSE: AnalyteUnits = { conventional: 'mg/dL', si: 'mmol/L', factor: 0.0555 };
+const CORTISOL: AnalyteUnits = { conventional: 'µg/dL', si: 'nmol/L', factor: 27.59 };
+
+/** Keyed by canonicalKey() output */
+export const LAB_UNIT_REGISTRY: Record<string, AnalyteUnits> = {
+  // Glycemic
+  'glucose': GLUCOSE,
+  'fasting glucose': GLUCOSE,
+  'hba1c': { conventional: '%', si: 'mmol/mol', factor: 10.929, offset: -2.15 },
+  'insulin': { conventional: 'µIU/mL', si: 'pmol/L', factor: 6.945, alternates: { 'mu/l': 1, 'miu/l': 1, 'uu/ml': 1 } },
+
+  // Lipids
+  'total cholesterol': CHOLESTEROL,
+  'ldl cholesterol': CHOLESTEROL,
+  'hdl cholesterol': CHOLESTEROL,
+  'non hdl cholesterol': CHOLESTEROL,
+  'vldl cholesterol': CHOLESTEROL,
+  'triglycerides': { conventional: 'mg/dL', si: 'mmol/L', factor: 0.01129 },
+  'apob': { conventional: 'mg/dL', si: 'g/L', factor: 0.01 },
+
+  // Kidney / metabolic
+  'creatinine': { conventional: 'mg/dL', si: 'µmol/L', factor: 88.42 },
+  'bun': { conventional: 'mg/dL', si: 'mmol/L', factor: 0.357 },
+  'uric acid': { conventional: 'mg/dL', si: 'µmol/L', factor: 59.48 },
+  'calcium': { conventional: 'mg/dL', si: 'mmol/L', factor: 0.2495 },
+  'magnesium': { conventional: 'mg/dL', si: 'mmol/L', factor: 0.4114 },
+  'albumin': PROTEIN,
+  'total protein': PROTEIN,
+  'globulin': PROTEIN,
+  'bilirubin total': BILIRUBIN,
+  'bilirubin direct': BILIRUBIN,
+  'bilirubin indirect': BILIRUBIN,
+
+  // Blood / iron
+  'hemoglobin': { ...PROTEIN, alternates: { 'mmol/l': 1.611 } },
+  'iron': { conventional: 'µg/dL', si: 'µmol/L', factor: 0.1791 },
+  'tibc': { conventional: 'µg/dL', si: 'µmol/L', factor: 0.1791 },
+  'ferritin': { conventional: 'ng/mL', si: 'µg/L', factor: 1 },
+
+  // Vitamins
+  'vitamin d': { conventional: 'ng/mL', si: 'nmol/L', factor: 2.496, alternates: { 'ug/l': 1 } },
+  'vitamin b12': { conventional: 'pg/mL', si: 'pmol/L', factor: 0.7378, alternates: { 'ng/l': 1 } },
+  'folate': { conventional: 'ng/mL', si: 'nmol/L', factor: 2.266, alternates: { 'ug/l': 1 } },
+
+  // Hormones
+  'testosterone': { conventional: 'ng/dL', si: 'nmol/L', factor: 0.03467, alternates: { 'ng/ml': 100 } },
+  'free testosterone': { conventional: 'pg/mL', si: 'pmol/L', factor: 3.467, alternates: { 'ng/dl': 10 } },
+  'estradiol': { conventional: 'pg/mL', si: 'pmol/L', factor: 3.671 },
+  'dhea s': { conventional: 'µg/dL', si: 'µmol/L', factor: 0.02714 },
+  'cortisol': CORTISOL,
+  'cortisol am': CORTISOL,
+  'free t4': { conventional: 'ng/dL', si: 'pmol/L', factor: 12.87 },
+  'free t3': { conventional: 'pg/mL', si: 'pmol/L', factor: 1.536 },
+
+  // Inflammation
+  'crp': { conventional: 'mg/L', si: 'nmol/L', factor: 9.524, alternates: { 'mg/dl': 10 } },
+};
+
+/**
+ * Collapse unit spellings so "µmol/L", "μmol/l", "umol/L" and "mcmol / L"
+ * compare equal. Both micro sign (U+00B5) and Greek mu (U+03BC) appear in
+ * extracted text.
+ */
+export function normalizeUnitLabel(unit: string): string {
+  return (unit || '')
+    .toLowerCase()
+    .replace(/[µμ]/g, 'u')
+    .replace(/mc(?=[gm])/g, 'u')
+    .replace(/litre|liter/g, 'l')
+    .replace(/\s+/g, '');
+}
+
+export function getAnalyteUnits(key: string): AnalyteUnits | null {
+  return LAB_UNIT_REGISTRY[key] ?? null;
+}
+
+/**
+ * Round a converted value to a precision that matches how labs print it:
+ * three significant figures, never more than three decimals.
+ */
+export function roundLabValue(value: number): number {
+  if (value === 0 || !Number.isFinite(value)) return value;
+  const magnitude = Math.floor(Math.log10(Math.abs(value)));
+  const decimals = Math.min(3, Math.max(0, 2 - magnitude));
+  const p = 10 ** decimals;
+  return Math.round(value * p) / p;
+}
+
+function siToConventional(units: AnalyteUnits, value: number): number {
+  return value / units.factor - (units.offset ?? 0);
+}
+
+function conventionalToSi(units: AnalyteUnits, value: number): number {
+  return (value + (units.offset ?? 0)) * units.factor;
+}
+
+/** Multiplier from `unit` into the conventional unit, or null if unrecognised */
+function toConventionalMultiplier(units: AnalyteUnits, unit: string): number | null {
+  const n = normalizeUnitLabel(unit);
+  if (n === normalizeUnitLabel(units.conventional)) return 1;
+  for (const [alt, mult] of Object.entries(units.alternates ?? {})) {
+    if (n === normalizeUnitLabel(alt)) return mult;
+  }
+  return null;
+}
+
+export interface CanonicalLabValue {
+  value: number | null;
+  unit: string;
+  /** True when the value was converted from a different unit */
+  converted: boolean;
+}
+
+/**
+ * Convert a reported value into the analyte's canonical (conventional) unit.
+ * Unknown analytes, missing units and units we can't place are passed
+ * through untouched rather than guessed at.
+ */
+export function toCanonicalUnit(key: string, value: number | null, unit: string): CanonicalLabValue {
+  const units = getAnalyteUnits(key);
+  const passthrough = { value, unit, converted: false };
+  if (!units || !unit || !unit.trim()) return passthrough;
+
+  const multiplier = toConventionalMultiplier(units, unit);
+  if (multiplier === 1) return { value, unit: units.conventional, converted: false };
+  if (multiplier != null) {
+    return { value: value == null ? null : roundLabValue(value * multiplier), unit: units.conventional, converted: true };
+  }
+  if (normalizeUnitLabel(unit) === normalizeUnitLabel(units.si)) {
+    return { value: value == null ? null : roundLabValue(siToConventional(units, value)), unit: units.conventional, converted: true };
+  }
+  return passthrough;
+}
+
+/**
+ * Convert a canonical value for display in the requested unit system.
+ * Returns null when the analyte has no registry entry or the value isn't
+ * in the canonical unit (e.g. an unrecognised unit was passed through).
+ */
+export function convertForDisplay(
+  key: string,
+  value: number,
+  unit: string,
+  system: UnitSystem,
+): { value: number; unit: string } | null {
+  const units = getAnalyteUnits(key);
+  if (!units || normalizeUnitLabel(unit) !== normalizeUnitLabel(units.conventional)) return null;
+  if (system === 'conventional') return { value, unit: units.conventional };
+  return { value: roundLabValue(conventionalToSi(units, value)), unit: units.si };
+}
+
+/**
+ * Re-render a raw lab value string with a converted number, keeping any
+ * leading qualifier the lab printed ("<0.5" → "<4.8").
+ */
+export function formatConvertedRawValue(rawValue: string, value: number): string {
+  const qualifier = (rawValue || '').trim().match(/^(<=|>=|<|>|≤|≥)/)?.[1] ?? '';
+  return `${qualifier}${value}`;
+}
+
+/**
+ * Convert every number in a reference range string ("3.9-5.6", "<5.2",
+ * "> 30 nmol/L") with `convert`, swapping the unit label when it appears.
+ */
+export function convertReferenceRange(
+  range: string,
+  fromUnit: string,
+  toUnit: string,
+  convert: (n: number) => number,
+): string {
+  if (!range) return range;
+  let out = range.replace(/\d+(?:\.\d+)?/g, (n) => String(roundLabValue(convert(Number(n)))));
+  if (fromUnit && out.includes(fromUnit)) out = out.split(fromUnit).join(toUnit);
+  return out;
+}
+
+/** Range conversion into the canonical unit, mirroring toCanonicalUnit() */
+export function referenceRangeToCanonical(key: string, range: string, unit: string): string {
+  const units = getAnalyteUnits(key);
+  if (!units || !unit) return range;
+  const multiplier = toConventionalMultiplier(units, unit);
+  if (multiplier === 1) return range;
+  if (multiplier != null) return convertReferenceRange(range, unit, units.conventional, (n) => n * multiplier);
+  if (normalizeUnitLabel(unit) === normalizeUnitLabel(units.si)) {
+    return convertReferenceRange(range, unit, units.conventional, (n) => siToConventional(units, n));
+  }
+  return range;
+}
+
+/** Range conversion from the canonical unit into the display system */
+export function referenceRangeForDisplay(key: string, range: string, unit: string, system: UnitSystem): string {
+  const units = getAnalyteUnits(key);
+  if (system === 'conventional' || !units || normalizeUnitLabel(unit) !== normalizeUnitLabel(units.conventional)) return range;
+  return convertReferenceRange(range, unit, units.si, (n) => conventionalToSi(units, n));
+}
@@ -699,3 +699,78 @@ export function metricsForProvider(providerSlug: string): string[] {
     .filter(m => m.providers.includes(providerSlug))
     .map(m => m.id);
 }
+
+// ─── Source precedence ───────────────────────────────────────────────
+
+/**
+ * Per-user source choice: metric id → preferred provider slug, e.g.
+ * `{ sleep_duration: 'oura', recovery_score: 'whoop' }`. Metrics not
+ * listed fall back to the default precedence below.
+ */
+export type MetricSourcePreferences = Record<string, string>;
+
+/** Junction slugs that name the same device as our own provider slugs */
+const PROVIDER_SLUG_ALIASES: Record<string, string> = {
+  apple_health_kit: 'apple_health',
+};
+
+/** Junction versions some slugs (whoop_v2); precedence works on the base slug */
+export function canonicalProviderSlug(slug: string): string {
+  const base = slug.trim().toLowerCase().replace(/_v\d+$/, '');
+  return PROVIDER_SLUG_ALIASES[base] ?? base;
+}
+
+/**
+ * Default provider order per pillar, most accurate first: rings and
+ * dedicated sleep trackers for overnight metrics, all-day watches for
+ * activity, smart scales for body composition.
+ */
+const PILLAR_SOURCE_PRECEDENCE: Record<MetricPillar, string[]> = {
+  sleep:     ['oura', 'eight_sleep', 'whoop', 'ultrahuman', 'garmin', 'apple_health', 'fitbit', 'polar', 'withings', 'samsung', 'google_fit'],
+  recovery:  ['oura', 'whoop', 'polar', 'ultrahuman', 'garmin', 'apple_health', 'fitbit', 'withings', 'samsung'],
+  activity:  ['garmin', 'apple_health', 'fitbit', 'polar', 'whoop', 'samsung', 'oura', 'ultrahuman', 'google_fit', 'withings', 'strava', 'peloton', 'wahoo', 'zwift', 'hammerhead'],
+  body:      ['withings', 'garmin', 'fitbit', 'apple_health', 'oura', 'polar', 'ultrahuman', 'samsung', 'google_fit'],
+  workouts:  ['garmin', 'polar', 'wahoo', 'hammerhead', 'apple_health', 'strava', 'whoop', 'fitbit', 'peloton', 'zwift', 'ultrahuman'],
+  heart:     ['kardia', 'omron', 'withings', 'polar', 'garmin', 'apple_health'],
+  glucose:   ['dexcom', 'freestyle_libre'],
+  nutrition: ['cronometer'],
+};
+
+/** Metrics whose best source differs from the rest of their pillar */
+const METRIC_SOURCE_PRECEDENCE: Record<string, string[]> = {
+  avg_heart_rate:        ['polar', 'garmin', 'apple_health', 'whoop', 'fitbit', 'oura'],
+  max_heart_rate:        ['polar', 'garmin', 'apple_health', 'whoop', 'fitbit', 'oura'],
+  blood_oxygen:          ['withings', 'oura', 'garmin', 'apple_health', 'whoop', 'fitbit', 'ultrahuman'],
+  respiratory_rate_body: ['oura', 'whoop', 'withings', 'garmin', 'apple_health', 'fitbit'],
+  resting_hr_body:       ['oura', 'whoop', 'polar', 'garmin', 'apple_health', 'withings', 'fitbit'],
+  recovery_score:        ['whoop', 'garmin', 'oura', 'ultrahuman'],
+  readiness_score:       ['oura', 'garmin', 'fitbit', 'ultrahuman'],
+};
+
+/** Default provider order for a metric, most trusted first */
+export function defaultSourcePrecedence(metricId: string): string[] {
+  const metric = METRIC_MAP.get(metricId);
+  return METRIC_SOURCE_PRECEDENCE[metricId] ?? (metric ? PILLAR_SOURCE_PRECEDENCE[metric.pillar] : []);
+}
+
+/** Provider order for a metric: the user's pick first, then the defaults */
+export function sourcePrecedence(metricId: string, prefs?: MetricSourcePreferences | null): string[] {
+  const defaults = defaultSourcePrecedence(metricId);
+  const preferred = prefs?.[metricId] ? canonicalProviderSlug(prefs[metricId]) : null;
+  return preferred ? [preferred, ...defaults.filter(p => p !== preferred)] : defaults;
+}
+
+/**
+ * Clean stored or submitted source preferences: unknown metric ids and
+ * non-string providers are dropped, slugs are canonicalised. Returns null
+ * when nothing usable is left.
+ */
+export function sanitizeMetricSourcePreferences(raw: unknown): MetricSourcePreferences | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const prefs: MetricSourcePreferences = {};
+  for (const [metricId, provider] of Object.entries(raw as Record<string, unknown>)) {
+    if (!METRIC_MAP.has(metricId) || typeof provider !== 'string' || !provider.trim()) continue;
+    prefs[metricId] = canonicalProviderSlug(provider);
+  }
+  return Object.keys(prefs).length > 0 ? prefs : null;
+}
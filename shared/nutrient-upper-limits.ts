@@ -0,0 +1,414 @@
+/**
+ * Tolerable Upper Intake Levels (ULs) for nutrients that can be stacked
+ * across a formula's system supports, individual additions and the user's
+ * existing supplements.
+ *
+ * Sources: Institute of Medicine DRI tables, NIH Office of Dietary Supplements
+ * fact sheets. Adult ULs are sex-independent except where life stage
+ * (pregnancy / lactation) changes them, so those rows are female-only.
+ * Review alongside INGREDIENT_CONTRAINDICATIONS.
+ */
+
+import type { SafetyWarningSeverity } from './safety-types';
+
+export type NutrientUnit = 'mg' | 'mcg';
+
+export interface NutrientUpperLimitRow {
+  ageMin: number;
+  /** Inclusive; omitted = no upper bound */
+  ageMax?: number;
+  /** Omitted = applies to any sex */
+  sex?: 'male' | 'female';
+  /** Omitted = general population */
+  lifeStage?: 'pregnant' | 'lactating';
+  /** UL in the nutrient's unit per day */
+  amount: number;
+}
+
+export interface NutrientDefinition {
+  id: string;
+  label: string;
+  unit: NutrientUnit;
+  /** Matched case/punctuation-insensitively against ingredient and supplement names */
+  keywords: string[];
+  /** Names that contain a keyword but are a different compound (e.g. phosphatidylcholine) */
+  excludes?: string[];
+  /**
+   * Fraction of a labelled compound's mass that counts toward the UL, keyed by
+   * a form keyword (e.g. retinyl palmitate ≈ 55% retinol). A factor of 0 means
+   * the form is outside the UL entirely (beta-carotene for vitamin A).
+   */
+  formFactors?: Array<{ match: string; factor: number }>;
+  /**
+   * Elemental share of a mineral compound named as the ingredient itself,
+   * keyed by a compound keyword ("Magnesium Glycinate 400mg" ≈ 56mg
+   * magnesium). See getElementalFactor.
+   */
+  elementalFactors?: Array<{ match: string; factor: number }>;
+  /** Nutrient-unit amount per IU, for nutrients commonly labelled in IU */
+  perIU?: number;
+  /** Severity when total intake exceeds the UL */
+  aboveUlSeverity: SafetyWarningSeverity;
+  /** Total/UL ratio at which the warning becomes a hard block; omitted = never */
+  criticalAtMultiple?: number;
+  /** Why exceeding the UL matters — appended to the warning message */
+  risk: string;
+  limits: NutrientUpperLimitRow[];
+}
+
+export const NUTRIENT_UPPER_LIMITS: NutrientDefinition[] = [
+  // ── Fat-soluble vitamins ────────────────────────────────────────────
+  {
+    id: 'vitamin_a',
+    label: 'Vitamin A',
+    unit: 'mcg',
+    keywords: ['vitamin a', 'retinol', 'retinyl'],
+    formFactors: [
+      { match: 'beta carotene', factor: 0 },
+      { match: 'palmitate', factor: 0.55 },
+      { match: 'acetate', factor: 0.87 },
+    ],
+    perIU: 0.3, // preformed retinol
+    aboveUlSeverity: 'serious',
+    criticalAtMultiple: 2,
+    risk: 'Excess preformed vitamin A is linked to liver toxicity, bone loss and birth defects.',
+    limits: [
+      { ageMin: 14, ageMax: 18, amount: 2800 },
+      { ageMin: 19, amount: 3000 },
+    ],
+  },
+  {
+    id: 'vitamin_d',
+    label: 'Vitamin D',
+    unit: 'mcg',
+    keywords: ['vitamin d', 'cholecalciferol', 'ergocalciferol'],
+    perIU: 0.025,
+    aboveUlSeverity: 'serious',
+    risk: 'Chronic intake above the UL can raise blood calcium (hypercalcemia).',
+    limits: [{ ageMin: 9, amount: 100 }],
+  },
+  {
+    id: 'vitamin_e',
+    label: 'Vitamin E',
+    unit: 'mg',
+    keywords: ['vitamin e', 'tocopherol'],
+    perIU: 0.67, // natural d-alpha-tocopherol
+    aboveUlSeverity: 'serious',
+    risk: 'High-dose vitamin E impairs clotting and raises bleeding risk.',
+    limits: [
+      { ageMin: 14, ageMax: 18, amount: 800 },
+      { ageMin: 19, amount: 1000 },
+    ],
+  },
+
+  // ── Water-soluble vitamins ──────────────────────────────────────────
+  {
+    id: 'vitamin_c',
+    label: 'Vitamin C',
+    unit: 'mg',
+    keywords: ['vitamin c', 'ascorbic', 'ascorbate'],
+    aboveUlSeverity: 'informational',
+    risk: 'Intake above the UL commonly causes GI upset and may raise kidney stone risk.',
+    limits: [
+      { ageMin: 14, ageMax: 18, amount: 1800 },
+      { ageMin: 19, amount: 2000 },
+    ],
+  },
+  {
+    id: 'niacin',
+    label: 'Niacin (B3)',
+    unit: 'mg',
+    keywords: ['niacin', 'nicotinic acid', 'nicotinamide', 'vitamin b3'],
+    aboveUlSeverity: 'informational',
+    risk: 'Supplemental niacin above the UL causes flushing; much higher doses can affect the liver.',
+    limits: [
+      { ageMin: 14, ageMax: 18, amount: 30 },
+      { ageMin: 19, amount: 35 },
+    ],
+  },
+  {
+    id: 'vitamin_b6',
+    label: 'Vitamin B6',
+    unit: 'mg',
+    keywords: ['vitamin b6', 'pyridoxine', 'pyridoxal', 'p5p'],
+    aboveUlSeverity: 'serious',
+    criticalAtMultiple: 2,
+    risk: 'Long-term B6 intake above the UL can cause sensory nerve damage (peripheral neuropathy).',
+    limits: [
+      { ageMin: 14, ageMax: 18, amount: 80 },
+      { ageMin: 19, amount: 100 },
+    ],
+  },
+  {
+    id: 'folate',
+    label: 'Folate / Folic Acid',
+    unit: 'mcg',
+    keywords: ['folate', 'folic acid', 'methylfolate', 'folinic'],
+    aboveUlSeverity: 'serious',
+    risk: 'Excess folic acid can mask vitamin B12 deficiency.',
+    limits: [
+      { ageMin: 14, ageMax: 18, amount: 800 },
+      { ageMin: 19, amount: 1000 },
+    ],
+  },
+  {
+    id: 'choline',
+    label: 'Choline',
+    unit: 'mg',
+    keywords: ['choline'],
+    excludes: ['phosphatidylcholine', 'lecithin'],
+    aboveUlSeverity: 'informational',
+    risk: 'Intake above the UL can cause low blood pressure, sweating and a fishy body odor.',
+    limits: [
+      { ageMin: 14, ageMax: 18, amount: 3000 },
+      { ageMin: 19, amount: 3500 },
+    ],
+  },
+
+  // ── Minerals ────────────────────────────────────────────────────────
+  {
+    id: 'calcium',
+    label: 'Calcium',
+    unit: 'mg',
+    keywords: ['calcium'],
+    elementalFactors: [
+      { match: 'carbonate', factor: 0.4 },
+      { match: 'phosphate', factor: 0.39 },
+      { match: 'citrate', factor: 0.21 },
+      { match: 'lactate', factor: 0.13 },
+      { match: 'gluconate', factor: 0.09 },
+    ],
+    aboveUlSeverity: 'serious',
+    risk: 'Excess calcium raises the risk of kidney stones and vascular calcification.',
+    limits: [
+      { ageMin: 14, ageMax: 18, amount: 3000 },
+      { ageMin: 19, ageMax: 50, amount: 2500 },
+      { ageMin: 51, amount: 2000 },
+    ],
+  },
+  {
+    id: 'magnesium',
+    label: 'Magnesium (supplemental)',
+    unit: 'mg',
+    keywords: ['magnesium'],
+    elementalFactors: [
+      { match: 'oxide', factor: 0.6 },
+      { match: 'hydroxide', factor: 0.42 },
+      { match: 'carbonate', factor: 0.29 },
+      { match: 'citrate', factor: 0.16 },
+      { match: 'malate', factor: 0.15 },
+      { match: 'glycinate', factor: 0.14 },
+      { match: 'chloride', factor: 0.12 },
+      { match: 'lactate', factor: 0.12 },
+      { match: 'sulfate', factor: 0.1 },
+      { match: 'taurate', factor: 0.09 },
+      { match: 'aspartate', factor: 0.08 },
+      { match: 'threonate', factor: 0.07 },
+      { match: 'orotate', factor: 0.07 },
+    ],
+    aboveUlSeverity: 'informational',
+    risk: 'Supplemental magnesium above the UL commonly causes diarrhea and cramping.',
+    limits: [{ ageMin: 9, amount: 350 }],
+  },
+  {
+    id: 'phosphorus',
+    label: 'Phosphorus',
+    unit: 'mg',
+    keywords: ['phosphorus', 'phosphate'],
+    aboveUlSeverity: 'serious',
+    risk: 'High phosphorus intake can disturb calcium balance, especially with reduced kidney function.',
+    limits: [
+      { ageMin: 9, ageMax: 70, amount: 4000 },
+      { ageMin: 71, amount: 3000 },
+      { ageMin: 14, sex: 'female', lifeStage: 'pregnant', amount: 3500 },
+      { ageMin: 14, sex: 'female', lifeStage: 'lactating', amount: 4000 },
+    ],
+  },
+  {
+    id: 'iron',
+    label: 'Iron',
+    unit: 'mg',
+    keywords: ['iron', 'ferrous', 'ferric'],
+    elementalFactors: [
+      { match: 'fumarate', factor: 0.33 },
+      { match: 'pyrophosphate', factor: 0.25 },
+      { match: 'sulfate', factor: 0.2 },
+      { match: 'glycinate', factor: 0.2 },
+      { match: 'gluconate', factor: 0.12 },
+    ],
+    aboveUlSeverity: 'serious',
+    criticalAtMultiple: 2,
+    risk: 'Iron above the UL causes GI distress; chronic excess can lead to iron overload.',
+    limits: [{ ageMin: 14, amount: 45 }],
+  },
+  {
+    id: 'zinc',
+    label: 'Zinc',
+    unit: 'mg',
+    keywords: ['zinc'],
+    elementalFactors: [
+      { match: 'oxide', factor: 0.8 },
+      { match: 'citrate', factor: 0.31 },
+      { match: 'acetate', factor: 0.3 },
+      { match: 'sulfate', factor: 0.23 },
+      { match: 'picolinate', factor: 0.2 },
+      { match: 'glycinate', factor: 0.2 },
+      { match: 'gluconate', factor: 0.14 },
+    ],
+    aboveUlSeverity: 'serious',
+    risk: 'Chronic zinc intake above the UL induces copper deficiency and can suppress immunity.',
+    limits: [
+      { ageMin: 14, ageMax: 18, amount: 34 },
+      { ageMin: 19, amount: 40 },
+    ],
+  },
+  {
+    id: 'copper',
+    label: 'Copper',
+    unit: 'mg',
+    keywords: ['copper'],
+    aboveUlSeverity: 'serious',
+    risk: 'Excess copper can cause liver damage.',
+    limits: [
+      { ageMin: 14, ageMax: 18, amount: 8 },
+      { ageMin: 19, amount: 10 },
+    ],
+  },
+  {
+    id: 'manganese',
+    label: 'Manganese',
+    unit: 'mg',
+    keywords: ['manganese'],
+    aboveUlSeverity: 'serious',
+    risk: 'Excess manganese is associated with neurological effects.',
+    limits: [
+      { ageMin: 14, ageMax: 18, amount: 9 },
+      { ageMin: 19, amount: 11 },
+    ],
+  },
+  {
+    id: 'selenium',
+    label: 'Selenium',
+    unit: 'mcg',
+    keywords: ['selenium', 'selenomethionine'],
+    elementalFactors: [
+      { match: 'selenite', factor: 0.46 },
+      { match: 'selenate', factor: 0.42 },
+      { match: 'selenomethionine', factor: 0.4 },
+    ],
+    aboveUlSeverity: 'serious',
+    criticalAtMultiple: 2,
+    risk: 'Selenium above the UL can cause selenosis (hair and nail loss, nerve damage).',
+    limits: [{ ageMin: 14, amount: 400 }],
+  },
+  {
+    id: 'iodine',
+    label: 'Iodine',
+    unit: 'mcg',
+    keywords: ['iodine', 'iodide'],
+    aboveUlSeverity: 'serious',
+    risk: 'Excess iodine can trigger or worsen thyroid dysfunction.',
+    limits: [
+      { ageMin: 14, ageMax: 18, amount: 900 },
+      { ageMin: 19, amount: 1100 },
+    ],
+  },
+  {
+    id: 'molybdenum',
+    label: 'Molybdenum',
+    unit: 'mcg',
+    keywords: ['molybdenum'],
+    aboveUlSeverity: 'serious',
+    risk: 'Excess molybdenum can interfere with copper metabolism.',
+    limits: [
+      { ageMin: 14, ageMax: 18, amount: 1700 },
+      { ageMin: 19, amount: 2000 },
+    ],
+  },
+  {
+    id: 'boron',
+    label: 'Boron',
+    unit: 'mg',
+    keywords: ['boron'],
+    aboveUlSeverity: 'serious',
+    risk: 'Boron above the UL has shown reproductive and developmental toxicity in animal studies.',
+    limits: [
+      { ageMin: 14, ageMax: 18, amount: 17 },
+      { ageMin: 19, amount: 20 },
+    ],
+  },
+];
+
+/** Age assumed when the health profile has none — the general adult band. */
+export const DEFAULT_UL_AGE = 30;
+
+export interface UpperLimitContext {
+  age?: number | null;
+  sex?: 'male' | 'female' | 'other' | null;
+  isPregnant?: boolean;
+  isNursing?: boolean;
+}
+
+/**
+ * Resolve the UL for a nutrient. Life-stage rows win over general rows when
+ * the user is pregnant/nursing; sex-specific rows win over sex-neutral ones.
+ */
+export function getUpperLimit(nutrient: NutrientDefinition, ctx: UpperLimitContext): number | undefined {
+  const age = typeof ctx.age === 'number' && ctx.age > 0 ? ctx.age : DEFAULT_UL_AGE;
+  const lifeStage = ctx.isPregnant ? 'pregnant' : ctx.isNursing ? 'lactating' : undefined;
+
+  const inBand = nutrient.limits.filter(row =>
+    age >= row.ageMin && (row.ageMax === undefined || age <= row.ageMax)
+  );
+
+  const rank = (row: NutrientUpperLimitRow): number => {
+    if (row.lifeStage && row.lifeStage !== lifeStage) return -1;
+    if (row.sex && ctx.sex && row.sex !== ctx.sex) return -1;
+    return (row.lifeStage ? 2 : 0) + (row.sex ? 1 : 0);
+  };
+
+  const best = inBand
+    .map(row => ({ row, score: rank(row) }))
+    .filter(r => r.score >= 0)
+    .sort((a, b) => b.score - a.score)[0];
+  return best?.row.amount;
+}
+
+/**
+ * Share of a labelled amount that counts toward the nutrient's UL, given a
+ * free-text form description ("as palmitate", "as Beta-Carotene").
+ */
+export function getFormFactor(nutrient: NutrientDefinition, form?: string): number {
+  if (!form || !nutrient.formFactors) return 1;
+  const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '');
+  const target = normalize(form);
+  const hit = nutrient.formFactors.find(f => target.includes(normalize(f.match)));
+  return hit ? hit.factor : 1;
+}
+
+/**
+ * Share of a dose that is the element itself, when the name is the compound
+ * ("Ferrous Bisglycinate 100mg" ≈ 20mg iron). A name that gives the form with
+ * "as" ("Zinc (as picolinate) 15mg") follows the supplement-facts convention
+ * of stating the elemental amount, so it counts in full.
+ */
+export function getElementalFactor(nutrient: NutrientDefinition, name: string): number {
+  if (!nutrient.elementalFactors || /\bas\b/i.test(name)) return 1;
+  const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '');
+  const target = normalize(name);
+  const hit = nutrient.elementalFactors.find(f => target.includes(normalize(f.match)));
+  return hit ? hit.factor : 1;
+}
+
+/**
+ * Find the tracked nutrient an ingredient/supplement name refers to, if any.
+ */
+export function findNutrientByName(name: string): NutrientDefinition | undefined {
+  const normalize = (s: string) => (s || '').toLowerCase().replace(/[^a-z0-9]+/g, '');
+  const target = normalize(name);
+  if (!target) return undefined;
+  return NUTRIENT_UPPER_LIMITS.find(n =>
+    n.keywords.some(k => target.includes(normalize(k))) &&
+    !(n.excludes || []).some(x => target.includes(normalize(x)))
+  );
+}
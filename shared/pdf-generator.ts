@@ -1,6 +1,7 @@
 import type { TDocumentDefinitions, Content } from 'pdfmake/interfaces';
 import { SYSTEM_SUPPORT_DETAILS } from './ingredients';
 import { ONES_LOGO_SVG } from './pdf-logo';
+import type { LabExport, LabExportDraw } from './lab-export';
 
 export interface FormulaForPDF {
   id: string;
@@ -742,6 +743,226 @@ export function generateFormulaPDF(
   return docDefinition;
 }
 
+const LAB_STATUS_COLORS: Record<LabExportDraw['status'], string> = {
+  normal: BRAND_COLORS.primaryLight,
+  high: '#E65100',
+  low: '#E65100',
+  critical: '#C62828',
+};
+
+const SPARKLINE_WIDTH = 80;
+const SPARKLINE_HEIGHT = 16;
+
+/** Trend across draws as a small polyline; the latest point is dotted in its status colour */
+function buildSparkline(history: LabExportDraw[]): Content {
+  const points = history.filter((h): h is LabExportDraw & { value: number } => h.value != null && Number.isFinite(h.value));
+  if (points.length < 2) {
+    return { text: points.length === 1 ? 'single draw' : '—', fontSize: 7, color: BRAND_COLORS.gray };
+  }
+  const values = points.map(p => p.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const step = SPARKLINE_WIDTH / (points.length - 1);
+  const coords = points.map((p, i) => ({
+    x: i * step,
+    y: max === min ? SPARKLINE_HEIGHT / 2 : SPARKLINE_HEIGHT - ((p.value - min) / (max - min)) * SPARKLINE_HEIGHT,
+  }));
+  const last = coords[coords.length - 1];
+  return {
+    canvas: [
+      { type: 'polyline', points: coords, lineWidth: 1, lineColor: BRAND_COLORS.gray },
+      { type: 'ellipse', x: last.x, y: last.y, r1: 2, r2: 2, color: LAB_STATUS_COLORS[points[points.length - 1].status] },
+    ],
+  } as Content;
+}
+
+function formatLabDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+/**
+ * Multi-page lab summary a user can hand to their physician: health score,
+ * biological age and panel grades on the first page, then every marker
+ * grouped by category with its latest value, reference range, status and
+ * trend across draws.
+ */
+export function generateLabReportPDF(data: LabExport): TDocumentDefinitions {
+  const content: Content[] = [
+    {
+      columns: [
+        {
+          width: '*',
+          stack: [
+            { svg: ONES_LOGO_SVG, width: 110, margin: [0, 0, 0, 4] } as any,
+            { text: 'Lab Results Summary', fontSize: 10, color: BRAND_COLORS.gray },
+          ],
+        },
+        {
+          width: 'auto',
+          stack: [
+            { text: data.patient.name, alignment: 'right', fontSize: 11, bold: true, color: BRAND_COLORS.primary },
+            { text: data.patient.email, alignment: 'right', fontSize: 9, color: BRAND_COLORS.gray, margin: [0, 2, 0, 0] },
+            { text: `Generated ${formatLabDate(data.generatedAt)}`, alignment: 'right', fontSize: 9, color: BRAND_COLORS.gray, margin: [0, 2, 0, 0] },
+          ],
+          margin: [0, 4, 0, 0],
+        },
+      ],
+      margin: [0, 0, 0, 20],
+    },
+    {
+      canvas: [{ type: 'line', x1: 0, y1: 0, x2: 515, y2: 0, lineWidth: 3, lineColor: BRAND_COLORS.primary }],
+      margin: [0, 0, 0, 20],
+    },
+    {
+      columns: [
+        {
+          width: '*',
+          stack: [
+            { text: 'Health Score', fontSize: 10, color: BRAND_COLORS.gray },
+            { text: `${data.healthScore.overall} (${data.healthScore.grade})`, fontSize: 22, bold: true, color: BRAND_COLORS.primary },
+            { text: data.healthScore.label, fontSize: 9, color: BRAND_COLORS.gray },
+          ],
+        },
+        {
+          width: '*',
+          stack: data.biologicalAge
+            ? [
+              { text: 'Biological Age', fontSize: 10, color: BRAND_COLORS.gray },
+              { text: `${data.biologicalAge.age}`, fontSize: 22, bold: true, color: BRAND_COLORS.primary },
+              { text: `${data.biologicalAge.label} (chronological age ${data.biologicalAge.chronologicalAge})`, fontSize: 9, color: BRAND_COLORS.gray },
+            ]
+            : [
+              { text: 'Biological Age', fontSize: 10, color: BRAND_COLORS.gray },
+              { text: 'Not enough data', fontSize: 12, color: BRAND_COLORS.gray, margin: [0, 6, 0, 0] },
+            ],
+        },
+        {
+          width: '*',
+          stack: [
+            { text: 'Markers', fontSize: 10, color: BRAND_COLORS.gray },
+            { text: `${data.markers.length}`, fontSize: 22, bold: true, color: BRAND_COLORS.primary },
+            {
+              text: `${data.markers.filter(m => m.latest.status !== 'normal').length} outside reference range`,
+              fontSize: 9,
+              color: BRAND_COLORS.gray,
+            },
+          ],
+        },
+      ],
+      margin: [0, 0, 0, 20],
+    },
+  ];
+
+  if (data.healthScore.panels.length > 0) {
+    content.push(
+      { text: 'Panel Grades', fontSize: 14, bold: true, color: BRAND_COLORS.primary, margin: [0, 0, 0, 8] },
+      {
+        table: {
+          headerRows: 1,
+          widths: ['*', 50, 50, 70, 70],
+          body: [
+            ['Panel', 'Grade', 'Score', 'In range', 'Out of range'].map(h => ({ text: h, bold: true, fontSize: 9, color: BRAND_COLORS.white, fillColor: BRAND_COLORS.primary })),
+            ...data.healthScore.panels.map(p => [
+              { text: p.category, fontSize: 9 },
+              { text: p.grade, fontSize: 9, bold: true },
+              { text: `${p.score}`, fontSize: 9 },
+              { text: `${p.inRange} / ${p.markerCount}`, fontSize: 9 },
+              { text: `${p.outOfRange}`, fontSize: 9, color: p.outOfRange > 0 ? '#E65100' : BRAND_COLORS.gray },
+            ]),
+          ],
+        },
+        layout: 'lightHorizontalLines',
+        margin: [0, 0, 0, 20],
+      },
+    );
+  }
+
+  content.push({
+    text: data.unitSystem === 'si'
+      ? 'Values are shown in SI units. Trend lines plot every draw on record, oldest to newest.'
+      : 'Values are shown in conventional (US) units. Trend lines plot every draw on record, oldest to newest.',
+    fontSize: 8,
+    color: BRAND_COLORS.gray,
+    margin: [0, 0, 0, 0],
+  });
+
+  const categories = [...new Set(data.markers.map(m => m.category))];
+  categories.forEach((category, idx) => {
+    const markers = data.markers.filter(m => m.category === category);
+    content.push(
+      {
+        text: category,
+        fontSize: 13,
+        bold: true,
+        color: BRAND_COLORS.primary,
+        margin: [0, 14, 0, 6],
+        ...(idx === 0 ? { pageBreak: 'before' as const } : {}),
+      },
+      {
+        table: {
+          headerRows: 1,
+          dontBreakRows: true,
+          widths: ['*', 70, 80, 50, SPARKLINE_WIDTH + 4, 60],
+          body: [
+            ['Marker', 'Latest', 'Reference', 'Status', 'Trend', 'Date'].map(h => ({ text: h, bold: true, fontSize: 8, color: BRAND_COLORS.white, fillColor: BRAND_COLORS.primary })),
+            ...markers.map(m => [
+              {
+                stack: [
+                  { text: m.name, fontSize: 9 },
+                  ...(m.optimalRange ? [{ text: `Optimal ${m.optimalRange}`, fontSize: 7, color: BRAND_COLORS.gray }] : []),
+                ],
+              },
+              { text: `${m.latest.rawValue} ${m.unit}`.trim(), fontSize: 9, bold: true },
+              { text: m.referenceRange || '—', fontSize: 8, color: BRAND_COLORS.gray },
+              { text: m.latest.status, fontSize: 8, bold: m.latest.status !== 'normal', color: LAB_STATUS_COLORS[m.latest.status] },
+              buildSparkline(m.history),
+              { text: formatLabDate(m.latest.date), fontSize: 8, color: BRAND_COLORS.gray },
+            ]),
+          ],
+        },
+        layout: 'lightHorizontalLines',
+      },
+    );
+  });
+
+  content.push({
+    text: 'These results were compiled from lab reports uploaded to Ones and are provided for discussion with a qualified healthcare provider. ' +
+      'Reference ranges are those printed by the reporting laboratory; optimal ranges are general guidance, not diagnostic thresholds.',
+    fontSize: 8,
+    color: BRAND_COLORS.gray,
+    lineHeight: 1.3,
+    margin: [0, 25, 0, 0],
+  });
+
+  return {
+    pageSize: 'LETTER',
+    pageMargins: [40, 50, 40, 50],
+    content,
+    defaultStyle: {
+      fontSize: 10,
+    },
+    footer: (currentPage: number, pageCount: number) => ({
+      columns: [
+        {
+          text: `${data.patient.name} · Lab Results Summary`,
+          fontSize: 8,
+          color: BRAND_COLORS.primary,
+          bold: true,
+          margin: [40, 0, 0, 0],
+        },
+        {
+          text: `Page ${currentPage} of ${pageCount}`,
+          alignment: 'right',
+          fontSize: 8,
+          color: BRAND_COLORS.gray,
+          margin: [0, 0, 40, 0],
+        },
+      ],
+      margin: [0, 15],
+    }),
+  };
+}
+
 function calculateDosage(totalMg: number): {
   perMeal: number;
   total: number;
@@ -0,0 +1,58 @@
+/**
+ * Result shapes for the consultation prompt evals (server/modules/evals),
+ * stored per run in prompt_eval_runs.results.
+ */
+
+import type { SafetyWarningSeverity } from './safety-types';
+
+export type EvalSeverity = SafetyWarningSeverity | 'none';
+
+export interface EvalCheck {
+  id: string;
+  description: string;
+  passed: boolean;
+  weight: number;
+  /** A failed critical check fails the persona regardless of score */
+  critical: boolean;
+  detail?: string;
+}
+
+export interface PersonaEvalResult {
+  personaId: string;
+  /** No critical check failed */
+  passed: boolean;
+  /** Weighted share of checks passed, 0..1 */
+  score: number;
+  checks: EvalCheck[];
+  /** Catalog names and amounts of the formula the model proposed, if any */
+  formula: Array<{ ingredient: string; amount: number }> | null;
+  totalMg: number | null;
+  safetySeverity: EvalSeverity;
+  claimViolations: number;
+  /** Set when the model call itself failed; the persona then scores 0 */
+  error?: string;
+  /** The model's reply, for reviewing a failure */
+  response?: string;
+}
+
+export interface PersonaEvalDelta {
+  personaId: string;
+  baselineScore: number | null;
+  candidateScore: number | null;
+  baselinePassed: boolean | null;
+  candidatePassed: boolean | null;
+  /** Checks that passed in the baseline and fail in the candidate */
+  newlyFailing: string[];
+  /** Checks that failed in the baseline and pass in the candidate */
+  newlyPassing: string[];
+}
+
+export interface PromptEvalComparison {
+  baselineId: string;
+  candidateId: string;
+  scoreDelta: number;
+  passedDelta: number;
+  /** Personas that went from pass to fail, or lost any check */
+  regressions: string[];
+  personas: PersonaEvalDelta[];
+}
@@ -0,0 +1,495 @@
+/**
+ * Declarative drug–supplement interaction rules.
+ *
+ * Each rule says: when the user's medications (or conditions) match these
+ * keywords and the formula contains these ingredients, emit a warning of this
+ * severity. Rule sets are versioned and stored in `safety_rule_sets`; the
+ * built-in set below is version 1 and is used until an admin publishes a newer
+ * one (and as the fallback whenever the table can't be read).
+ *
+ * Matching is the same fuzzy substring match the validator has always used:
+ * both sides are lowercased and stripped of non-alphanumerics, so
+ * "St. John's Wort" matches the keyword "st john".
+ */
+
+import { z } from 'zod';
+import type { SafetyWarningSeverity } from './safety-types';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+export interface SafetyRuleEscalation {
+  /** Medication keywords that trigger the escalation (in addition to the rule's own trigger) */
+  medications: string[];
+  /** Ingredient keywords to re-match; defaults to the rule's `ingredients` */
+  ingredients?: string[];
+  severity: SafetyWarningSeverity;
+  message: string;
+}
+
+export interface SafetyRule {
+  /** Stable identifier — also used as the warning category */
+  category: string;
+  /** Admin-facing description of what the rule guards against */
+  description?: string;
+  enabled: boolean;
+  /**
+   * `medication` rules only run when the user has disclosed at least one
+   * medication (the classic interaction checks). `always` rules run for
+   * every formula (antiplatelet stacking, population blocks).
+   */
+  scope: 'medication' | 'always';
+  /**
+   * The rule fires when ANY listed medication OR condition keyword matches.
+   * An empty trigger means the rule fires on ingredients alone.
+   */
+  trigger: {
+    medications?: string[];
+    conditions?: string[];
+  };
+  /** Ingredient keywords; omit for rules that block regardless of formula contents */
+  ingredients?: string[];
+  /** Minimum distinct matching ingredients required (default 1) */
+  minIngredientMatches?: number;
+  severity: SafetyWarningSeverity;
+  /** Warning text. `{ingredients}` and `{count}` are filled from the matched ingredients. */
+  message: string;
+  /** Raise severity when a narrower medication list also matches (e.g. warfarin) */
+  escalation?: SafetyRuleEscalation;
+  /** Skip this rule if any of these categories already fired */
+  suppressedBy?: string[];
+  /** Attach the matching medications as `drugs` (default true for medication-triggered rules) */
+  reportDrugs?: boolean;
+}
+
+export interface SafetyRuleSet {
+  version: number;
+  rules: SafetyRule[];
+}
+
+// ── Validation (admin edits) ────────────────────────────────────────────────
+const severitySchema = z.enum(['critical', 'serious', 'informational']);
+const keywordListSchema = z.array(z.string().trim().min(1)).max(200);
+
+export const safetyRuleSchema = z.object({
+  category: z.string().trim().min(1).max(64).regex(/^[a-z0-9_]+$/, 'Category must be lowercase snake_case'),
+  description: z.string().max(500).optional(),
+  enabled: z.boolean(),
+  scope: z.enum(['medication', 'always']),
+  trigger: z.object({
+    medications: keywordListSchema.optional(),
+    conditions: keywordListSchema.optional(),
+  }),
+  ingredients: keywordListSchema.optional(),
+  minIngredientMatches: z.number().int().min(1).max(20).optional(),
+  severity: severitySchema,
+  message: z.string().trim().min(1).max(1000),
+  escalation: z.object({
+    medications: keywordListSchema.min(1),
+    ingredients: keywordListSchema.optional(),
+    severity: severitySchema,
+    message: z.string().trim().min(1).max(1000),
+  }).optional(),
+  suppressedBy: z.array(z.string()).optional(),
+  reportDrugs: z.boolean().optional(),
+});
+
+export const safetyRuleListSchema = z.array(safetyRuleSchema).superRefine((rules, ctx) => {
+  const seen = new Set<string>();
+  rules.forEach((rule, index) => {
+    if (seen.has(rule.category)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'category'], message: `Duplicate category "${rule.category}"` });
+    }
+    seen.add(rule.category);
+  });
+});
+
+// ── Shared keyword lists ────────────────────────────────────────────────────
+// Warfarin/Coumadin is singled out (narrow therapeutic index). Includes
+// brand-name variants commonly written by users.
+const WARFARIN_FAMILY = ['warfarin', 'coumadin', 'jantoven'];
+const OTHER_BLOOD_THINNERS = [
+  'clopidogrel', 'plavix',
+  'rivaroxaban', 'xarelto',
+  'apixaban', 'eliquis',
+  'dabigatran', 'pradaxa',
+  'edoxaban', 'savaysa', 'lixiana',
+  'ticagrelor', 'brilinta',
+  'prasugrel', 'effient',
+  'heparin', 'enoxaparin', 'lovenox', 'fondaparinux', 'arixtra',
+];
+
+const SSRI_SNRI = [
+  'sertraline', 'zoloft',
+  'fluoxetine', 'prozac', 'sarafem',
+  'escitalopram', 'lexapro',
+  'citalopram', 'celexa',
+  'paroxetine', 'paxil', 'pexeva',
+  'venlafaxine', 'effexor',
+  'desvenlafaxine', 'pristiq',
+  'duloxetine', 'cymbalta',
+  'bupropion', 'wellbutrin', 'zyban',
+  'mirtazapine', 'remeron',
+  'trazodone', 'desyrel',
+  'vilazodone', 'viibryd',
+  'vortioxetine', 'trintellix',
+  'amitriptyline', 'elavil',
+  'nortriptyline', 'pamelor',
+  'maoi', 'phenelzine', 'nardil',
+  'tranylcypromine', 'parnate',
+  'lithium', 'lithobid',
+  'quetiapine', 'seroquel',
+  'aripiprazole', 'abilify',
+];
+
+const IMMUNOSUPPRESSANTS = ['cyclosporine', 'tacrolimus', 'mycophenolate', 'prednisone', 'methotrexate', 'azathioprine', 'sirolimus'];
+const STATINS = [
+  'atorvastatin', 'lipitor',
+  'rosuvastatin', 'crestor', 'ezallor',
+  'simvastatin', 'zocor',
+  'pravastatin', 'pravachol',
+  'fluvastatin', 'lescol',
+  'lovastatin', 'mevacor', 'altoprev',
+  'pitavastatin', 'livalo', 'zypitamag',
+];
+const CORTICOSTEROIDS = ['prednisone', 'prednisolone', 'dexamethasone', 'methylprednisolone', 'hydrocortisone', 'budesonide'];
+const ST_JOHNS_WORT = ['st. john', 'st john'];
+const IMMUNE_STIMULANTS = ['echinacea', 'astragalus', 'elderberry', 'mushroom'];
+
+// ── Built-in rule set (version 1) ───────────────────────────────────────────
+export const BUILTIN_SAFETY_RULE_SET: SafetyRuleSet = {
+  version: 1,
+  rules: [
+    {
+      category: 'antiplatelet_stacking',
+      description: 'Three or more antiplatelet/anticoagulant ingredients, no medication needed',
+      enabled: true,
+      scope: 'always',
+      trigger: {},
+      ingredients: ['omega', 'fish oil', 'garlic', 'ginger', 'vitamin e', 'resveratrol', 'curcumin', 'nattokinase', 'bromelain'],
+      minIngredientMatches: 3,
+      severity: 'serious',
+      message: 'Your formula stacks {count} ingredients with antiplatelet/anticoagulant activity ({ingredients}). This may increase bleeding risk even without a blood thinner — discuss with your physician.',
+    },
+    {
+      category: 'blood_thinner_interaction',
+      description: 'Anticoagulants / antiplatelets; warfarin family is critical',
+      enabled: true,
+      scope: 'medication',
+      trigger: { medications: [...WARFARIN_FAMILY, ...OTHER_BLOOD_THINNERS, 'aspirin', 'asa ', 'baby aspirin'] },
+      ingredients: ['omega', 'fish oil', 'garlic', 'ginger', 'ginkgo', 'vitamin e', 'resveratrol', 'curcumin', 'nattokinase', 'bromelain'],
+      severity: 'serious',
+      message: 'Contains {ingredients} which may increase bleeding risk with your blood thinner. Consult your physician before starting.',
+      escalation: {
+        medications: WARFARIN_FAMILY,
+        severity: 'critical',
+        message: 'BLOCKED: Contains {ingredients} which may dangerously increase bleeding risk with warfarin/Coumadin. Warfarin has a narrow therapeutic index — even small changes in INR can be life-threatening. Physician approval is REQUIRED before proceeding.',
+      },
+    },
+    {
+      category: 'sjw_ssri',
+      description: "St. John's Wort with antidepressants (serotonin syndrome)",
+      enabled: true,
+      scope: 'medication',
+      trigger: { medications: SSRI_SNRI },
+      ingredients: ST_JOHNS_WORT,
+      severity: 'critical',
+      message: "BLOCKED: St. John's Wort must NEVER be combined with antidepressants — risk of serotonin syndrome, a potentially fatal condition. Remove this ingredient.",
+    },
+    {
+      category: 'psych_interaction',
+      description: 'Serotonergic / adaptogenic ingredients with psychiatric medication',
+      enabled: true,
+      scope: 'medication',
+      trigger: { medications: SSRI_SNRI },
+      ingredients: ['5-htp', 'same', 'tryptophan', 'gaba', 'rhodiola', 'ashwagandha'],
+      severity: 'serious',
+      message: 'Contains {ingredients} which may interact with your psychiatric medication. Discuss with your prescribing clinician before starting.',
+    },
+    {
+      category: 'thyroid_interaction',
+      enabled: true,
+      scope: 'medication',
+      trigger: {
+        medications: [
+          'levothyroxine', 'synthroid', 'levoxyl', 'tirosint', 'unithroid', 'euthyrox',
+          'liothyronine', 'cytomel',
+          'liotrix', 'thyrolar',
+          'armour thyroid', 'np thyroid', 'nature-throid', 'naturethroid', 'wp thyroid',
+          'methimazole', 'tapazole',
+          'propylthiouracil', 'ptu',
+        ],
+      },
+      ingredients: ['thyroid support', 'ashwagandha', 'iodine', 'kelp', 'seaweed', 'selenium', 'zinc'],
+      severity: 'serious',
+      message: 'Contains {ingredients} which may affect thyroid function while on thyroid medication. Take supplements 4+ hours apart from thyroid meds. Coordinate with your clinician.',
+    },
+    {
+      category: 'diabetes_interaction',
+      enabled: true,
+      scope: 'medication',
+      trigger: {
+        medications: [
+          'metformin', 'glucophage', 'glumetza', 'fortamet', 'riomet',
+          'insulin', 'humalog', 'novolog', 'lantus', 'levemir', 'tresiba', 'basaglar', 'toujeo',
+          'glipizide', 'glucotrol',
+          'glyburide', 'diabeta', 'micronase', 'glynase',
+          'glimepiride', 'amaryl',
+          'semaglutide', 'ozempic', 'wegovy', 'rybelsus',
+          'tirzepatide', 'mounjaro', 'zepbound',
+          'liraglutide', 'victoza', 'saxenda',
+          'dulaglutide', 'trulicity',
+          'sitagliptin', 'januvia',
+          'linagliptin', 'tradjenta',
+          'saxagliptin', 'onglyza',
+          'empagliflozin', 'jardiance',
+          'dapagliflozin', 'farxiga',
+          'canagliflozin', 'invokana',
+          'pioglitazone', 'actos',
+          'rosiglitazone', 'avandia',
+          'acarbose', 'precose',
+        ],
+      },
+      ingredients: ['berberine', 'cinnamon', 'chromium', 'alpha lipoic', 'innoslim', 'bitter melon', 'gymnema'],
+      severity: 'serious',
+      message: 'Contains {ingredients} which may lower blood glucose alongside your diabetes medication. Monitor for hypoglycemia and consult your physician.',
+    },
+    {
+      category: 'bp_interaction',
+      enabled: true,
+      scope: 'medication',
+      trigger: {
+        medications: [
+          'lisinopril', 'prinivil', 'zestril', 'qbrelis',
+          'enalapril', 'vasotec',
+          'ramipril', 'altace',
+          'benazepril', 'lotensin',
+          'captopril', 'capoten',
+          'losartan', 'cozaar',
+          'valsartan', 'diovan',
+          'olmesartan', 'benicar',
+          'irbesartan', 'avapro',
+          'telmisartan', 'micardis',
+          'amlodipine', 'norvasc',
+          'nifedipine', 'procardia', 'adalat',
+          'felodipine', 'plendil',
+          'verapamil', 'calan', 'verelan', 'isoptin',
+          'diltiazem', 'cardizem', 'tiazac',
+          'metoprolol', 'lopressor', 'toprol',
+          'atenolol', 'tenormin',
+          'propranolol', 'inderal',
+          'carvedilol', 'coreg',
+          'bisoprolol', 'zebeta',
+          'labetalol', 'trandate',
+          'hydrochlorothiazide', 'hctz', 'microzide',
+          'chlorthalidone',
+          'furosemide', 'lasix',
+          'spironolactone', 'aldactone',
+        ],
+      },
+      ingredients: ['magnesium', 'coq10', 'hawthorn', 'garlic', 'omega', 'potassium'],
+      severity: 'informational',
+      message: 'Contains {ingredients} which may further lower blood pressure with your antihypertensive medication. Monitor blood pressure closely.',
+    },
+    {
+      category: 'sjw_immunosuppressant',
+      enabled: true,
+      scope: 'medication',
+      trigger: { medications: IMMUNOSUPPRESSANTS },
+      ingredients: ST_JOHNS_WORT,
+      severity: 'critical',
+      message: "BLOCKED: St. John's Wort dramatically reduces immunosuppressant drug levels — this is life-threatening for transplant patients. Remove this ingredient immediately.",
+    },
+    {
+      category: 'immuno_stimulant',
+      description: 'Immune stimulants with immunosuppressants; transplant drugs are critical',
+      enabled: true,
+      scope: 'medication',
+      trigger: { medications: IMMUNOSUPPRESSANTS },
+      ingredients: IMMUNE_STIMULANTS,
+      severity: 'serious',
+      message: 'Contains immune-stimulating ingredients ({ingredients}) which are contraindicated with immunosuppressant therapy. Physician approval required.',
+      escalation: {
+        medications: ['cyclosporine', 'tacrolimus', 'mycophenolate', 'azathioprine', 'sirolimus'],
+        ingredients: [...IMMUNE_STIMULANTS, 'beta glucan', 'colostrum'],
+        severity: 'critical',
+        message: 'BLOCKED: Contains immune-stimulating ingredients ({ingredients}) which are contraindicated with transplant immunosuppressants. Risk of organ rejection. Remove these ingredients.',
+      },
+    },
+    {
+      category: 'cyp3a4_immuno',
+      enabled: true,
+      scope: 'medication',
+      trigger: { medications: IMMUNOSUPPRESSANTS },
+      ingredients: ['milk thistle'],
+      severity: 'serious',
+      message: 'Milk Thistle may alter CYP3A4 enzyme activity, affecting immunosuppressant drug levels. Physician review required.',
+    },
+    {
+      category: 'chemo_interaction',
+      enabled: true,
+      scope: 'medication',
+      trigger: { medications: ['chemotherapy', 'chemo', 'tamoxifen', 'anastrozole', 'letrozole', 'cisplatin', 'carboplatin', 'doxorubicin', 'paclitaxel', 'cyclophosphamide'] },
+      ingredients: [...ST_JOHNS_WORT, 'high-dose', 'nac', 'melatonin'],
+      severity: 'critical',
+      message: 'BLOCKED: You are on oncology medications. High-dose antioxidants and certain supplements may interfere with cancer treatment. Physician oncologist review is REQUIRED. Formula cannot proceed without oncologist clearance.',
+    },
+    {
+      category: 'ryr_statin',
+      enabled: true,
+      scope: 'medication',
+      trigger: { medications: STATINS },
+      ingredients: ['red yeast rice'],
+      severity: 'critical',
+      message: 'BLOCKED: Red Yeast Rice contains natural lovastatin and must NOT be combined with statin medications — risk of rhabdomyolysis (muscle breakdown). Remove this ingredient.',
+    },
+    {
+      category: 'statin_additive',
+      enabled: true,
+      scope: 'medication',
+      trigger: { medications: STATINS },
+      ingredients: ['niacin', 'berberine'],
+      severity: 'serious',
+      message: 'Contains {ingredients} which has additive lipid-lowering effects with your statin. Monitor for muscle pain/weakness (myopathy). Consult your physician.',
+    },
+    {
+      category: 'hormone_interaction',
+      enabled: true,
+      scope: 'medication',
+      trigger: { medications: ['estradiol', 'progesterone', 'testosterone', 'birth control', 'contraceptive', 'clomid', 'clomiphene', 'finasteride', 'propecia', 'spironolactone'] },
+      ingredients: ['ashwagandha', 'maca', 'dhea', 'dim', 'saw palmetto', 'black cohosh', 'vitex', 'tribulus'],
+      severity: 'serious',
+      message: 'Contains hormone-modulating ingredients ({ingredients}) which may interact with your hormone therapy. Coordinate with your prescribing physician.',
+    },
+    {
+      category: 'seizure_interaction',
+      enabled: true,
+      scope: 'medication',
+      trigger: { medications: ['carbamazepine', 'tegretol', 'phenytoin', 'dilantin', 'valproic', 'depakote', 'lamotrigine', 'lamictal', 'gabapentin', 'neurontin', 'levetiracetam', 'keppra', 'topiramate', 'topamax'] },
+      ingredients: ['ginkgo', 'evening primrose', 'vitamin b6', ...ST_JOHNS_WORT],
+      severity: 'serious',
+      message: 'Contains {ingredients} which may lower seizure threshold or alter anti-epileptic drug levels. Consult your neurologist before starting.',
+    },
+    {
+      category: 'sedative_interaction',
+      enabled: true,
+      scope: 'medication',
+      trigger: { medications: ['diazepam', 'valium', 'alprazolam', 'xanax', 'lorazepam', 'ativan', 'clonazepam', 'klonopin', 'zolpidem', 'ambien', 'eszopiclone', 'lunesta', 'temazepam'] },
+      ingredients: ['valerian', 'gaba', 'melatonin', 'kava', 'passionflower', 'magnolia'],
+      severity: 'serious',
+      message: 'Contains {ingredients} which may cause additive sedation with your sedative/sleep medication. Risk of excessive drowsiness — consult your physician.',
+    },
+    {
+      category: 'opioid_interaction',
+      enabled: true,
+      scope: 'medication',
+      trigger: { medications: ['oxycodone', 'oxycontin', 'hydrocodone', 'vicodin', 'tramadol', 'ultram', 'morphine', 'codeine', 'fentanyl', 'methadone', 'buprenorphine', 'suboxone'] },
+      ingredients: ['valerian', 'gaba', 'kava', 'passionflower', 'magnolia', 'melatonin'],
+      severity: 'critical',
+      message: 'BLOCKED: Contains sedating supplements ({ingredients}) which may cause dangerous additive CNS depression with opioid medications. This combination is potentially fatal. Remove these ingredients or obtain explicit physician approval.',
+    },
+    {
+      category: 'adhd_interaction',
+      enabled: true,
+      scope: 'medication',
+      trigger: { medications: ['methylphenidate', 'ritalin', 'concerta', 'amphetamine', 'adderall', 'lisdexamfetamine', 'vyvanse', 'dextroamphetamine', 'dexedrine', 'atomoxetine', 'strattera'] },
+      ingredients: ['caffeine', 'rhodiola', 'ginseng', 'tyrosine', 'yohimbine', 'synephrine'],
+      severity: 'serious',
+      message: 'Contains stimulating ingredients ({ingredients}) which may cause additive cardiovascular stress and overstimulation with your ADHD medication. Discuss with your physician.',
+    },
+    {
+      category: 'ppi_absorption',
+      enabled: true,
+      scope: 'medication',
+      trigger: { medications: ['omeprazole', 'prilosec', 'pantoprazole', 'protonix', 'esomeprazole', 'nexium', 'lansoprazole', 'prevacid', 'famotidine', 'pepcid', 'ranitidine'] },
+      ingredients: ['iron', 'calcium', 'magnesium', 'vitamin b12', 'zinc'],
+      severity: 'informational',
+      message: 'PPIs reduce absorption of {ingredients}. Take these supplements at least 2 hours apart from your acid reducer for best absorption.',
+    },
+    {
+      category: 'antibiotic_chelation',
+      enabled: true,
+      scope: 'medication',
+      trigger: { medications: ['tetracycline', 'doxycycline', 'minocycline', 'ciprofloxacin', 'cipro', 'levofloxacin', 'levaquin', 'moxifloxacin', 'amoxicillin', 'azithromycin'] },
+      ingredients: ['calcium', 'iron', 'magnesium', 'zinc'],
+      severity: 'informational',
+      message: 'Minerals ({ingredients}) can chelate and reduce absorption of your antibiotic. Take supplements at least 2-4 hours apart from your antibiotic dose.',
+    },
+    {
+      category: 'corticosteroid_licorice',
+      enabled: true,
+      scope: 'medication',
+      trigger: { medications: CORTICOSTEROIDS },
+      ingredients: ['licorice', 'glycyrrhizin'],
+      severity: 'serious',
+      message: 'Licorice Root may worsen potassium depletion and fluid retention caused by corticosteroids. Avoid or use deglycyrrhizinated (DGL) form only.',
+    },
+    {
+      category: 'corticosteroid_immuno',
+      enabled: true,
+      scope: 'medication',
+      trigger: { medications: CORTICOSTEROIDS },
+      ingredients: IMMUNE_STIMULANTS,
+      severity: 'informational',
+      message: 'Immune-stimulating ingredients ({ingredients}) may counteract the immunosuppressive effect of your corticosteroid. Consult your physician.',
+    },
+    {
+      category: 'cardiac_interaction',
+      enabled: true,
+      scope: 'medication',
+      trigger: { medications: ['digoxin', 'lanoxin', 'amiodarone', 'flecainide', 'sotalol', 'dofetilide', 'dronedarone'] },
+      ingredients: ['magnesium', 'potassium', 'hawthorn', 'licorice', 'glycyrrhizin'],
+      severity: 'serious',
+      message: 'Contains {ingredients} which can shift electrolyte balance and affect heart rhythm while on cardiac medications. Physician monitoring required.',
+    },
+    {
+      category: 'cyp450_nti',
+      description: 'CYP450 modulators with narrow-therapeutic-index drugs',
+      enabled: true,
+      scope: 'medication',
+      trigger: { medications: ['warfarin', 'cyclosporine', 'tacrolimus', 'theophylline', 'phenytoin', 'digoxin', 'lithium', 'carbamazepine'] },
+      ingredients: [...ST_JOHNS_WORT, 'goldenseal', 'grapefruit'],
+      severity: 'critical',
+      message: 'BLOCKED: Contains CYP450 enzyme modulators ({ingredients}) which can dramatically alter blood levels of your narrow-therapeutic-index medication. This is potentially fatal. Remove these ingredients.',
+    },
+    {
+      category: 'kidney_impairment',
+      description: 'Kidney impairment noted in medications or conditions',
+      enabled: true,
+      scope: 'medication',
+      trigger: {
+        medications: ['kidney', 'renal', 'dialysis', 'ckd', 'chronic kidney'],
+        conditions: ['kidney', 'renal', 'dialysis', 'ckd', 'chronic kidney'],
+      },
+      ingredients: ['potassium', 'magnesium', 'phosphorus', 'creatine', 'vitamin c'],
+      severity: 'serious',
+      message: 'Contains {ingredients} which require dose adjustment or avoidance with kidney impairment. Consult your nephrologist before starting.',
+      reportDrugs: false,
+    },
+    {
+      category: 'minor_block',
+      description: 'Formulas are adults-only',
+      enabled: true,
+      scope: 'always',
+      trigger: { conditions: ['minor', 'under 18', 'child', 'pediatric', 'teenager', 'adolescent'] },
+      severity: 'critical',
+      message: 'BLOCKED: Personalized supplement formulas are not available for individuals under 18. This product is formulated for adults only.',
+    },
+    {
+      category: 'severe_kidney_block',
+      enabled: true,
+      scope: 'always',
+      trigger: { conditions: ['dialysis', 'kidney failure', 'end stage renal', 'esrd', 'ckd stage 4', 'ckd stage 5', 'stage 4 kidney', 'stage 5 kidney'] },
+      severity: 'critical',
+      message: 'BLOCKED: With severe kidney disease or dialysis, supplement use requires direct nephrologist supervision. We cannot create a formula without documented nephrology clearance.',
+    },
+    {
+      category: 'chemo_condition_block',
+      description: 'Active cancer treatment noted in conditions',
+      enabled: true,
+      scope: 'always',
+      trigger: { conditions: ['chemotherapy', 'chemo', 'cancer treatment', 'radiation therapy', 'oncology treatment'] },
+      severity: 'critical',
+      message: 'BLOCKED: You indicated active cancer treatment. Supplements may interfere with chemotherapy or radiation. An oncologist must review and approve any supplement use during active treatment.',
+      suppressedBy: ['chemo_interaction'],
+    },
+  ],
+};
@@ -21,6 +21,39 @@ export interface SafetyWarning {
   ingredients?: string[];
   /** Drug(s) involved (if interaction-based) */
   drugs?: string[];
+  /**
+   * The daily dose that determined this warning's final severity. Populated
+   * for interaction-based warnings whenever the triggering ingredient's dose
+   * could be resolved to mg (direct amount or expanded from a system support).
+   */
+  triggeringDose?: SafetyTriggeringDose;
+  /** Per-source breakdown for cumulative nutrient upper-limit warnings */
+  cumulativeIntake?: CumulativeNutrientIntake;
+}
+
+export interface SafetyTriggeringDose {
+  /** Ingredient whose dose drove the severity decision */
+  ingredient: string;
+  /** Total daily mg of that ingredient across bases, additions and system-support sub-ingredients */
+  amountMg: number;
+  /** Threshold the dose was compared against, when one is defined */
+  thresholdMg?: number;
+  /** How the dose moved severity relative to the category's base tier */
+  adjustment: 'downgraded' | 'escalated' | 'none';
+}
+
+export interface CumulativeNutrientIntake {
+  /** Nutrient id from NUTRIENT_UPPER_LIMITS (e.g. 'zinc') */
+  nutrient: string;
+  unit: 'mg' | 'mcg';
+  totalAmount: number;
+  upperLimit: number;
+  sources: Array<{
+    source: 'formula' | 'current_supplement';
+    /** Ingredient or supplement as shown to the user, e.g. "Zinc (in Endocrine Support)" */
+    label: string;
+    amount: number;
+  }>;
 }
 
 // ── Safety Validation Result ────────────────────────────────────────────────
@@ -46,6 +79,8 @@ export interface SafetyValidationResult {
    * medication string and may apply additional caution.
    */
   unmatchedMedications?: string[];
+  /** Version of the safety rule set (safety_rule_sets.version) the formula was judged under */
+  ruleSetVersion?: number;
 }
 
 // ── Ingredient Contraindication Data ────────────────────────────────────────
@@ -72,6 +107,21 @@ export interface IngredientContraindication {
   }>;
 }
 
+// ── Ingredient Dose Thresholds ──────────────────────────────────────────────
+/**
+ * Per-ingredient dose tiers for drug–supplement interaction warnings.
+ * Interaction categories assign a base severity; the ingredient's total daily
+ * dose then moves it down one tier (negligible dose) or up one tier (high dose).
+ */
+export interface IngredientDoseThreshold {
+  /** Ingredient name (case-insensitive partial match, like getContraindication) */
+  ingredientName: string;
+  /** Below this daily mg the interaction is pharmacologically negligible — drop one tier */
+  negligibleBelowMg: number;
+  /** At or above this daily mg the interaction risk is elevated — raise one tier */
+  escalateAtMg?: number;
+}
+
 // ── Formula Warning Acknowledgment ──────────────────────────────────────────
 export interface FormulaWarningAcknowledgment {
   formulaId: string;
@@ -97,7 +147,8 @@ export type SafetyAuditAction =
   | 'organ_caution'          // Liver/kidney caution generated
   | 'warning_acknowledged'   // User acknowledged warnings before checkout
   | 'checkout_with_warnings' // User proceeded to checkout with active warnings
-  | 'antiplatelet_stacking'; // Multiple antiplatelet agents detected
+  | 'antiplatelet_stacking'  // Multiple antiplatelet agents detected
+  | 'safety_rescreen';       // Current formula re-validated after a profile or rule-set change
 
 export interface SafetyAuditEntry {
   userId: string;
@@ -111,6 +162,9 @@ export interface SafetyAuditEntry {
     conditions?: string[];
     allergies?: string[];
     blockedReasons?: string[];
+    trigger?: string;
+    newWarningCategories?: string[];
+    autoShipPaused?: boolean;
   };
   ipAddress?: string;
   userAgent?: string;
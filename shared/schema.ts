@@ -10,11 +10,14 @@ import {
   pgEnum,
   date,
   decimal,
+  real,
   uniqueIndex,
   index
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { SafetyRule } from "./safety-rules";
+import type { PersonaEvalResult } from "./prompt-evals";
 
 // Enums
 export const sexEnum = pgEnum('sex', ['male', 'female', 'other']);
@@ -33,7 +36,7 @@ export const studyTypeEnum = pgEnum('study_type', ['rct', 'meta_analysis', 'syst
 export const reviewFrequencyEnum = pgEnum('review_frequency', ['monthly', 'bimonthly', 'quarterly']);
 export const wearableProviderEnum = pgEnum('wearable_provider', ['fitbit', 'oura', 'whoop', 'garmin', 'apple_health', 'google_fit', 'samsung', 'polar', 'withings', 'eight_sleep', 'strava', 'peloton', 'ultrahuman', 'dexcom', 'freestyle_libre', 'cronometer', 'omron', 'kardia', 'junction']);
 export const wearableConnectionStatusEnum = pgEnum('wearable_connection_status', ['connected', 'disconnected', 'error', 'token_expired']);
-export const autoShipStatusEnum = pgEnum('auto_ship_status', ['active', 'paused', 'cancelled']);
+export const autoShipStatusEnum = pgEnum('auto_ship_status', ['active', 'paused', 'cancelled', 'past_due']);
 export const reorderScheduleStatusEnum = pgEnum('reorder_schedule_status', ['active', 'awaiting_review', 'awaiting_approval', 'approved', 'delayed', 'charged', 'skipped', 'cancelled']);
 export const reorderRecommendationStatusEnum = pgEnum('reorder_recommendation_status', ['pending', 'sent', 'approved', 'kept', 'expired', 'error']);
 export const streakTypeEnum = pgEnum('streak_type', ['overall', 'nutrition', 'workout', 'supplements', 'lifestyle']);
@@ -54,11 +57,18 @@ export const adminActionEnum = pgEnum('admin_action', [
   'formula_review_trigger',
   'newsletter_subscriber_toggle',
   'bulk_delete_tickets', 'bulk_close_tickets', 'bulk_update_tickets',
+  'safety_rules_draft', 'safety_rules_update', 'safety_rules_publish',
+  'dunning_policy_update', 'dunning_case_retry', 'dunning_case_close',
+  'biomarker_alias_map', 'biomarker_alias_ignore',
+  'claims_violation_review', 'claims_phrase_promote', 'claims_phrase_update',
 ]);
 
+export const safetyRuleSetStatusEnum = pgEnum('safety_rule_set_status', ['draft', 'published', 'archived']);
+
 export const refundStatusEnum = pgEnum('refund_status', ['pending', 'approved', 'declined', 'failed', 'voided']);
 export const payoutStatusEnum = pgEnum('payout_status', ['pending', 'processing', 'completed', 'failed']);
 export const recipientTypeEnum = pgEnum('recipient_type', ['admin', 'vendor']);
+export const dunningCaseStatusEnum = pgEnum('dunning_case_status', ['open', 'recovered', 'paused', 'closed']);
 
 // Users table - updated with name, email, phone, password
 export const users = pgTable("users", {
@@ -141,6 +151,11 @@ export const users = pgTable("users", {
   // null = use defaults from shared/metricCatalog.ts
   metricPreferences: json("metric_preferences"),
 
+  // Preferred data source per metric when several wearables report it,
+  // e.g. { "sleep_duration": "oura", "recovery_score": "whoop" }.
+  // null = default precedence from shared/metricCatalog.ts
+  metricSourcePreferences: json("metric_source_preferences"),
+
   // Biomarkers the user has chosen to hide from the AI practitioner.
   // Stores an array of canonical marker keys (e.g. ["bilirubin direct", "alkaline phosphatase"]).
   // The marker is still visible to the user on the Lab Reports dashboard, but is filtered
@@ -366,6 +381,7 @@ export const formulas = pgTable("formulas", {
       ingredients?: string[];
       drugs?: string[];
     }>;
+    ruleSetVersion?: number;
   }>(),
 
   // Warning acknowledgment tracking for legal compliance
@@ -376,6 +392,11 @@ export const formulas = pgTable("formulas", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
   archivedAt: timestamp("archived_at"), // Null = active, timestamp = archived
 
+  // Branches: a named experimental variant kept beside the main line until it
+  // is promoted. Null = main line; the current formula is the latest main-line row.
+  branchName: text("branch_name"),
+  branchedFromId: varchar("branched_from_id"), // Formula version the branch was created from
+
   // Discontinued ingredient tracking
   needsReformulation: boolean("needs_reformulation").default(false).notNull(),
   discontinuedIngredients: json("discontinued_ingredients").$type<string[]>().default([]),
@@ -386,6 +407,7 @@ export const formulas = pgTable("formulas", {
   shareToken: varchar("share_token", { length: 255 }).unique(),
 }, (table) => [
   index("formulas_user_id_idx").on(table.userId),
+  index("formulas_user_branch_idx").on(table.userId, table.branchName),
 ]);
 
 // Formula warning acknowledgments — legal paper trail
@@ -420,17 +442,44 @@ export const safetyAuditLogs = pgTable("safety_audit_logs", {
     conditions?: string[];
     allergies?: string[];
     blockedReasons?: string[];
+    // Set on 'safety_rescreen' rows
+    trigger?: string;
+    baseline?: boolean;
+    newWarningCategories?: string[];
+    autoShipPaused?: boolean;
   }>().notNull(),
+  // safety_rule_sets.version the warnings were produced under
+  ruleSetVersion: integer("rule_set_version"),
   ipAddress: text("ip_address"),
   userAgent: text("user_agent"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Versioned drug–supplement interaction rules evaluated by the safety
+// validator. Exactly one row is 'published' at a time; admins edit a 'draft',
+// preview it against existing formulas, then publish it (the previous
+// published row becomes 'archived'). Version 1 is the built-in set in
+// shared/safety-rules.ts and is used whenever no row is published.
+export const safetyRuleSets = pgTable("safety_rule_sets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  version: integer("version").notNull().unique(),
+  status: safetyRuleSetStatusEnum("status").default('draft').notNull(),
+  rules: json("rules").$type<SafetyRule[]>().notNull(),
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  publishedAt: timestamp("published_at"),
+  publishedBy: varchar("published_by").references(() => users.id, { onDelete: "set null" }),
+}, (table) => [
+  index("safety_rule_sets_status_idx").on(table.status),
+]);
+
 // Unmatched medication log — every time the safety validator runs, any
 // medication string from the user that didn't match ANY keyword in ANY
 // interaction category gets logged here. Reviewed periodically (manually
 // or by the platform-insights agent) to grow the keyword alias lists in
-// safety-validator.ts. This is the data feedback loop that keeps the
+// the safety rule set (shared/safety-rules.ts). This is the data feedback loop that keeps the
 // deterministic safety gate from silently degrading as new drugs launch
 // or users enter brand/compound/international names not in the lists.
 export const unmatchedMedications = pgTable("unmatched_medications", {
@@ -999,6 +1048,12 @@ export const insertSafetyAuditLogSchema = createInsertSchema(safetyAuditLogs).om
   createdAt: true,
 });
 
+export const insertSafetyRuleSetSchema = createInsertSchema(safetyRuleSets).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertUnmatchedMedicationSchema = createInsertSchema(unmatchedMedications).omit({
   id: true,
   createdAt: true,
@@ -1127,6 +1182,9 @@ export type FormulaWarningAcknowledgment = typeof formulaWarningAcknowledgments.
 export type InsertSafetyAuditLog = z.infer<typeof insertSafetyAuditLogSchema>;
 export type SafetyAuditLog = typeof safetyAuditLogs.$inferSelect;
 
+export type InsertSafetyRuleSet = z.infer<typeof insertSafetyRuleSetSchema>;
+export type SafetyRuleSetRecord = typeof safetyRuleSets.$inferSelect;
+
 export type InsertUnmatchedMedication = z.infer<typeof insertUnmatchedMedicationSchema>;
 export type UnmatchedMedication = typeof unmatchedMedications.$inferSelect;
 
@@ -1501,11 +1559,33 @@ export const wearableConnections = pgTable("wearable_connections", {
   disconnectedAt: timestamp("disconnected_at"),
 });
 
+// Wearable export files a user uploaded directly (Apple Health export.zip,
+// Garmin .fit, Oura/WHOOP CSV) instead of syncing through Junction. The
+// biometric_data rows an import wrote point back here via import_id.
+export const wearableImports = pgTable("wearable_imports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  provider: wearableProviderEnum("provider"), // null when the file wasn't recognised
+  format: varchar("format", { length: 32 }).$type<'apple_health_xml' | 'garmin_fit' | 'oura_csv' | 'whoop_csv'>(),
+  fileName: text("file_name").notNull(),
+  status: varchar("status", { length: 16 }).$type<'pending' | 'completed' | 'failed'>().notNull(), // pending until its days are written
+  daysImported: integer("days_imported").default(0).notNull(), // new days written
+  daysUpdated: integer("days_updated").default(0).notNull(), // days from an earlier import, overwritten
+  daysSkipped: integer("days_skipped").default(0).notNull(), // days already synced for this provider
+  firstDate: date("first_date"),
+  lastDate: date("last_date"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("wearable_imports_user_created_idx").on(table.userId, table.createdAt),
+]);
+
 // Daily biometric data from wearable devices
 export const biometricData = pgTable("biometric_data", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   connectionId: varchar("connection_id").references(() => wearableConnections.id, { onDelete: "cascade" }),
+  importId: varchar("import_id").references(() => wearableImports.id, { onDelete: "cascade" }), // set for file imports, null for synced rows
   provider: wearableProviderEnum("provider").notNull(),
   dataDate: timestamp("data_date").notNull(), // The day this data represents
 
@@ -1756,6 +1836,9 @@ export type WearableConnection = typeof wearableConnections.$inferSelect;
 export type InsertBiometricData = z.infer<typeof insertBiometricDataSchema>;
 export type BiometricData = typeof biometricData.$inferSelect;
 
+export type WearableImport = typeof wearableImports.$inferSelect;
+export type InsertWearableImport = typeof wearableImports.$inferInsert;
+
 export type InsertBiometricTrend = z.infer<typeof insertBiometricTrendSchema>;
 export type BiometricTrend = typeof biometricTrends.$inferSelect;
 
@@ -3149,3 +3232,204 @@ export const payouts = pgTable("payouts", {
 
 export type Payout = typeof payouts.$inferSelect;
 export type InsertPayout = typeof payouts.$inferInsert;
+
+// Dunning — one case per failed recurring charge (auto-ship or membership),
+// open until the charge is recovered, the grace period pauses the subject, or
+// it is closed. Every charge attempt against a case is kept for recovery metrics.
+export const dunningCases = pgTable("dunning_cases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  kind: varchar("kind", { length: 16 }).$type<'autoship' | 'membership'>().notNull(),
+  subjectId: varchar("subject_id").notNull(), // auto_ship_subscriptions.id or subscriptions.id
+  status: dunningCaseStatusEnum("status").default('open').notNull(),
+  amountCents: integer("amount_cents"),
+  declineCategory: varchar("decline_category", { length: 8 }).$type<'hard' | 'soft'>().notNull(),
+  lastResponseCode: varchar("last_response_code", { length: 8 }),
+  lastResponseText: text("last_response_text"),
+  attemptCount: integer("attempt_count").default(0).notNull(),
+  remindersSent: integer("reminders_sent").default(0).notNull(),
+  lastReminderStage: varchar("last_reminder_stage", { length: 24 }),
+  firstFailedAt: timestamp("first_failed_at").notNull(),
+  nextRetryAt: timestamp("next_retry_at"),
+  graceEndsAt: timestamp("grace_ends_at").notNull(),
+  resolvedAt: timestamp("resolved_at"),
+  recoveredTransactionId: text("recovered_transaction_id"),
+  awaitingReconciliation: boolean("awaiting_reconciliation").default(false).notNull(), // gateway error: the charge may have gone through
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("dunning_cases_status_retry_idx").on(table.status, table.nextRetryAt),
+  index("dunning_cases_subject_idx").on(table.kind, table.subjectId),
+  index("dunning_cases_user_id_idx").on(table.userId),
+]);
+
+export const dunningAttempts = pgTable("dunning_attempts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  caseId: varchar("case_id").notNull().references(() => dunningCases.id, { onDelete: "cascade" }),
+  attemptNumber: integer("attempt_number").notNull(),
+  trigger: varchar("trigger", { length: 16 }).$type<'renewal' | 'scheduled_retry' | 'card_update' | 'manual'>().notNull(),
+  outcome: varchar("outcome", { length: 16 }).$type<'approved' | 'declined' | 'error'>().notNull(),
+  declineCategory: varchar("decline_category", { length: 8 }).$type<'hard' | 'soft'>(),
+  amountCents: integer("amount_cents"),
+  responseCode: varchar("response_code", { length: 8 }),
+  responseText: text("response_text"),
+  transactionId: text("transaction_id"),
+  attemptedAt: timestamp("attempted_at").defaultNow().notNull(),
+}, (table) => [
+  index("dunning_attempts_case_id_idx").on(table.caseId),
+  index("dunning_attempts_attempted_at_idx").on(table.attemptedAt),
+]);
+
+export type DunningCase = typeof dunningCases.$inferSelect;
+export type InsertDunningCase = typeof dunningCases.$inferInsert;
+export type DunningAttempt = typeof dunningAttempts.$inferSelect;
+export type InsertDunningAttempt = typeof dunningAttempts.$inferInsert;
+
+// Marker names seen in lab uploads that no alias, canonical name or LOINC
+// code resolves. Admins map them onto a canonical marker (which becomes a
+// runtime alias) or ignore them.
+export const biomarkerNameReviews = pgTable("biomarker_name_reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  normalizedName: varchar("normalized_name", { length: 200 }).notNull().unique(),
+  sampleName: text("sample_name").notNull(),
+  sampleUnit: varchar("sample_unit", { length: 32 }),
+  sampleLoincCode: varchar("sample_loinc_code", { length: 16 }),
+  occurrences: integer("occurrences").default(1).notNull(),
+  status: varchar("status", { length: 16 }).$type<'pending' | 'mapped' | 'ignored'>().default('pending').notNull(),
+  mappedTo: text("mapped_to"), // canonical marker name
+  resolvedBy: varchar("resolved_by").references(() => users.id, { onDelete: "set null" }),
+  resolvedAt: timestamp("resolved_at"),
+  firstSeenAt: timestamp("first_seen_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+}, (table) => [
+  index("biomarker_name_reviews_status_idx").on(table.status, table.lastSeenAt),
+]);
+
+export type BiomarkerNameReview = typeof biomarkerNameReviews.$inferSelect;
+export type InsertBiomarkerNameReview = typeof biomarkerNameReviews.$inferInsert;
+
+// Wearable anomalies: days where a user's HRV, resting HR, skin temperature,
+// respiratory rate or SpO2 deviated from their own rolling baseline in a
+// recognisable pattern (illness onset, overtraining, poor recovery).
+// Written by the daily anomaly detector, read by the Health Pulse views.
+export const wearableAnomalies = pgTable("wearable_anomalies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  detectedFor: date("detected_for").notNull(), // the day of data the finding describes
+  pattern: varchar("pattern", { length: 32 }).$type<'illness_onset' | 'overtraining' | 'poor_recovery'>().notNull(),
+  severity: varchar("severity", { length: 16 }).$type<'watch' | 'alert'>().notNull(),
+  signals: json("signals").$type<Array<{
+    metric: string;
+    value: number;
+    baselineMean: number;
+    baselineSd: number;
+    zScore: number;
+  }>>().notNull(),
+  summary: text("summary").notNull(),
+  notifiedAt: timestamp("notified_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("wearable_anomalies_user_day_pattern_idx").on(table.userId, table.detectedFor, table.pattern),
+  index("wearable_anomalies_user_detected_idx").on(table.userId, table.detectedFor),
+]);
+
+export type WearableAnomaly = typeof wearableAnomalies.$inferSelect;
+export type InsertWearableAnomaly = typeof wearableAnomalies.$inferInsert;
+
+// Prompt regression evals: one row per run of the consultation prompt over
+// the synthetic personas in server/modules/evals. prompt_version hashes the
+// system prompts the run sent, so runs of the same prompt group together
+// and a prompt change can be compared against the last run before it.
+export const promptEvalRuns = pgTable("prompt_eval_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  promptVersion: varchar("prompt_version", { length: 32 }).notNull(),
+  label: text("label"), // free text, e.g. a branch name or commit
+  provider: varchar("provider", { length: 20 }).notNull(),
+  model: varchar("model", { length: 100 }).notNull(),
+  personaCount: integer("persona_count").notNull(),
+  passedCount: integer("passed_count").notNull(),
+  score: real("score").notNull(), // mean persona score, 0..1
+  results: json("results").$type<PersonaEvalResult[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("prompt_eval_runs_version_idx").on(table.promptVersion, table.createdAt),
+  index("prompt_eval_runs_created_idx").on(table.createdAt),
+]);
+
+export type PromptEvalRun = typeof promptEvalRuns.$inferSelect;
+export type InsertPromptEvalRun = typeof promptEvalRuns.$inferInsert;
+
+// Claims filter audit: one row per ClaimViolation the AI output claims filter
+// (server/modules/ai/claims-filter.ts) raised on a chat reply. Admins triage
+// them as confirmed or false positive. The matched text and its surrounding
+// excerpt come from the model's reply and are stored encrypted like message
+// content.
+export const claimFilterViolations = pgTable("claim_filter_violations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  sessionId: varchar("session_id").references(() => chatSessions.id, { onDelete: "cascade" }),
+  messageId: varchar("message_id").references(() => messages.id, { onDelete: "set null" }),
+  category: varchar("category", { length: 32 }).notNull(),
+  severity: varchar("severity", { length: 16 }).$type<'warning' | 'critical'>().notNull(),
+  action: varchar("action", { length: 16 }).$type<'flagged' | 'rewritten' | 'blocked'>().notNull(),
+  phraseId: varchar("phrase_id").references(() => claimFilterPhrases.id, { onDelete: "set null" }), // null = built-in rule
+  originalText: text("original_text").notNull(), // encrypted matched phrase
+  rewrittenText: text("rewritten_text"), // replacement that was applied, if any
+  context: text("context"), // encrypted excerpt of the reply around the match
+  status: varchar("status", { length: 16 }).$type<'open' | 'confirmed' | 'false_positive'>().default('open').notNull(),
+  reviewNote: text("review_note"),
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("claim_filter_violations_status_idx").on(table.status, table.createdAt),
+  index("claim_filter_violations_category_idx").on(table.category, table.createdAt),
+  index("claim_filter_violations_session_idx").on(table.sessionId),
+]);
+
+// Phrases admins promote from the claims review queue into the filter's rule
+// list. Active rows are compiled into literal-match rules at startup and
+// whenever the list changes.
+export const claimFilterPhrases = pgTable("claim_filter_phrases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  phrase: text("phrase").notNull(),
+  category: varchar("category", { length: 32 }).notNull(),
+  severity: varchar("severity", { length: 16 }).$type<'warning' | 'critical'>().notNull(),
+  rewriteTemplate: text("rewrite_template"),
+  active: boolean("active").default(true).notNull(),
+  sourceViolationId: varchar("source_violation_id"), // violation it was promoted from, if any
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("claim_filter_phrases_phrase_category_idx").on(sql`lower(${table.phrase})`, table.category),
+]);
+
+export type ClaimFilterViolation = typeof claimFilterViolations.$inferSelect;
+export type InsertClaimFilterViolation = typeof claimFilterViolations.$inferInsert;
+export type ClaimFilterPhrase = typeof claimFilterPhrases.$inferSelect;
+export type InsertClaimFilterPhrase = typeof claimFilterPhrases.$inferInsert;
+
+// Long-term patient memory: what a user has told us across consultations
+// (stated preferences, tolerances, goals, past decisions). Extracted from
+// chat turns or written by the user on the profile page; injected into the
+// consultation prompt with a citation back to the source message. Content
+// and quote are PHI and stored encrypted like message content.
+export const patientMemories = pgTable("patient_memories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  kind: varchar("kind", { length: 16 }).$type<'preference' | 'tolerance' | 'goal' | 'decision'>().notNull(),
+  content: text("content").notNull(), // encrypted
+  ingredient: text("ingredient"), // catalog name the memory is about, if any
+  origin: varchar("origin", { length: 16 }).$type<'extracted' | 'user'>().default('extracted').notNull(),
+  sourceSessionId: varchar("source_session_id").references(() => chatSessions.id, { onDelete: "set null" }),
+  sourceMessageId: varchar("source_message_id").references(() => messages.id, { onDelete: "set null" }),
+  sourceQuote: text("source_quote"), // encrypted excerpt of the user's words
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("patient_memories_user_idx").on(table.userId, table.updatedAt),
+]);
+
+export type PatientMemory = typeof patientMemories.$inferSelect;
+export type InsertPatientMemory = typeof patientMemories.$inferInsert;